@@ -0,0 +1,89 @@
+/**
+ * Account Admin API
+ * Create users, and issue and revoke their API tokens
+ */
+
+import express from 'express'
+import type { Response } from 'express'
+import { AccountError, SCOPES, accountStore } from './store'
+import type { AccountStore, Scope, TokenRequest } from './store'
+
+const sendError = (res: Response, error: any) => {
+  const status = error instanceof AccountError ? error.status : 500
+  res.status(status).json({ success: false, error: error?.message ?? String(error) })
+}
+
+const readTokenRequest = (body: any): TokenRequest => {
+  const { name, scopes, expiresInDays } = body ?? {}
+  if (name !== undefined && typeof name !== 'string')
+    throw new AccountError('Field "name" must be a string', 400)
+  if (scopes !== undefined && (!Array.isArray(scopes) || scopes.length === 0 || scopes.some(scope => !SCOPES.includes(scope))))
+    throw new AccountError(`Field "scopes" must be a non-empty list of ${SCOPES.join(', ')}`, 400)
+  if (expiresInDays !== undefined && (typeof expiresInDays !== 'number' || !(expiresInDays > 0)))
+    throw new AccountError('Field "expiresInDays" must be a positive number', 400)
+  return { name, scopes: scopes as Scope[] | undefined, expiresInDays }
+}
+
+/**
+ * Routes over a store; the app serves them for accountStore under /admin, to admins only
+ */
+export const createAccountRoutes = (store: AccountStore) => {
+  const routes = express.Router()
+
+  routes.get('/users', (req, res) => {
+    try {
+      res.json(store.listUsers())
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  routes.post('/users', (req, res) => {
+    try {
+      const { name } = req.body ?? {}
+      if (typeof name !== 'string' || name.trim().length === 0)
+        throw new AccountError('Field "name" must be a non-empty string', 400)
+      res.status(201).json(store.createUser(name.trim()))
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  // The token is only ever shown in this response
+  routes.post('/users/:id/tokens', (req, res) => {
+    try {
+      const { token, info } = store.issueToken(req.params.id, readTokenRequest(req.body))
+      res.status(201).json({ ...info, token })
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  routes.get('/tokens', (req, res) => {
+    try {
+      const { userId } = req.query
+      if (userId !== undefined && typeof userId !== 'string')
+        throw new AccountError('Parameter "userId" must be a string', 400)
+      res.json(store.listTokens(userId as string | undefined))
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  routes.delete('/tokens/:id', (req, res) => {
+    try {
+      res.json(store.revokeToken(req.params.id))
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  return routes
+}
+
+export const AccountRoutes = createAccountRoutes(accountStore)
@@ -0,0 +1,217 @@
+/**
+ * Account Store
+ * Users and the API tokens issued to them, kept in a JSON file; tokens are only stored as hashes
+ */
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+
+/** Route families a token can be allowed, and admin for the account endpoints */
+export const SCOPES = ['chat', 'mj', 'suno', 'video', 'admin'] as const
+export type Scope = typeof SCOPES[number]
+
+export const DEFAULT_SCOPES: Scope[] = ['chat', 'mj', 'suno', 'video']
+
+export interface User {
+  id: string
+  name: string
+  createdAt: number
+}
+
+export interface ApiToken {
+  id: string
+  userId: string
+  name?: string
+  hash: string
+  /** The start of the token, to tell tokens apart in lists */
+  prefix: string
+  scopes: Scope[]
+  createdAt: number
+  expiresAt?: number
+  revokedAt?: number
+  lastUsedAt?: number
+}
+
+/** A token as the admin endpoints show it */
+export type TokenInfo = Omit<ApiToken, 'hash'>
+
+/** The user a request is authenticated as, on req.user */
+export interface AuthUser {
+  id: string
+  name: string
+  scopes: Scope[]
+  /** Unset for the secrets of the environment */
+  tokenId?: string
+}
+
+export interface TokenRequest {
+  name?: string
+  scopes?: Scope[]
+  expiresInDays?: number
+}
+
+export interface AccountStoreOptions {
+  /** JSON file the accounts are kept in; in memory only when unset */
+  file?: string
+  /** Delay before last-use times are written, so requests do not each write the file */
+  touchDelay?: number
+}
+
+interface AccountData {
+  users: User[]
+  tokens: ApiToken[]
+}
+
+export class AccountError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'AccountError'
+  }
+}
+
+export const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex')
+
+const tokenInfo = ({ hash: _hash, ...info }: ApiToken): TokenInfo => ({ ...info })
+
+export class AccountStore {
+  private data?: AccountData
+  private readonly byHash: Map<string, ApiToken> = new Map()
+  private touchTimer?: NodeJS.Timeout
+
+  constructor(private readonly options: AccountStoreOptions = {}) {}
+
+  listUsers(): User[] {
+    return this.load().users.map(user => ({ ...user }))
+  }
+
+  getUser(id: string): User | undefined {
+    const user = this.load().users.find(user => user.id === id)
+    return user && { ...user }
+  }
+
+  createUser(name: string): User {
+    const data = this.load()
+    if (data.users.some(user => user.name === name))
+      throw new AccountError(`User "${name}" already exists`, 409)
+
+    const user: User = { id: uuidv4(), name, createdAt: Date.now() }
+    data.users.push(user)
+    this.save()
+    return { ...user }
+  }
+
+  /**
+   * Issue a token to a user; the token itself is only returned here
+   */
+  issueToken(userId: string, request: TokenRequest = {}): { token: string; info: TokenInfo } {
+    if (!this.getUser(userId))
+      throw new AccountError('User not found', 404)
+
+    const token = `sk-${crypto.randomBytes(24).toString('base64url')}`
+    const now = Date.now()
+    const record: ApiToken = {
+      id: uuidv4(),
+      userId,
+      name: request.name,
+      hash: hashToken(token),
+      prefix: token.slice(0, 8),
+      scopes: request.scopes ?? DEFAULT_SCOPES,
+      createdAt: now,
+      expiresAt: request.expiresInDays === undefined ? undefined : now + request.expiresInDays * 24 * 60 * 60 * 1000,
+    }
+    this.load().tokens.push(record)
+    this.byHash.set(record.hash, record)
+    this.save()
+    return { token, info: tokenInfo(record) }
+  }
+
+  listTokens(userId?: string): TokenInfo[] {
+    return this.load().tokens.filter(token => !userId || token.userId === userId).map(tokenInfo)
+  }
+
+  revokeToken(id: string): TokenInfo {
+    const token = this.load().tokens.find(token => token.id === id)
+    if (!token)
+      throw new AccountError('Token not found', 404)
+    if (!token.revokedAt) {
+      token.revokedAt = Date.now()
+      this.save()
+    }
+    return tokenInfo(token)
+  }
+
+  /**
+   * Whether any token can still be used, which turns authentication on
+   */
+  hasActiveTokens(): boolean {
+    const now = Date.now()
+    return this.load().tokens.some(token => !token.revokedAt && (!token.expiresAt || token.expiresAt > now))
+  }
+
+  /**
+   * The user of a token, or undefined when it was never issued here
+   */
+  authenticate(token: string): AuthUser | undefined {
+    this.load()
+    const record = this.byHash.get(hashToken(token))
+    if (!record)
+      return undefined
+    if (record.revokedAt)
+      throw new AccountError('Error: 令牌已撤销 | Token has been revoked', 401)
+    if (record.expiresAt && record.expiresAt <= Date.now())
+      throw new AccountError('Error: 令牌已过期 | Token has expired', 401)
+
+    const user = this.getUser(record.userId)
+    if (!user)
+      throw new AccountError('Error: 用户不存在 | User no longer exists', 401)
+
+    record.lastUsedAt = Date.now()
+    this.touch()
+    return { id: user.id, name: user.name, scopes: [...record.scopes], tokenId: record.id }
+  }
+
+  /**
+   * Write pending last-used times now
+   */
+  flush() {
+    if (this.touchTimer)
+      this.save()
+  }
+
+  // Read on first use, so that importing the store reads no files
+  private load(): AccountData {
+    if (this.data)
+      return this.data
+
+    const { file } = this.options
+    this.data = (file && fs.existsSync(file))
+      ? JSON.parse(fs.readFileSync(file, 'utf8'))
+      : { users: [], tokens: [] }
+    this.data.tokens.forEach(token => this.byHash.set(token.hash, token))
+    return this.data
+  }
+
+  private save() {
+    clearTimeout(this.touchTimer)
+    this.touchTimer = undefined
+    const { file } = this.options
+    if (!file || !this.data)
+      return
+
+    // Written aside and renamed, so a crash never leaves half a file
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(this.data, null, 2))
+    fs.renameSync(`${file}.tmp`, file)
+  }
+
+  private touch() {
+    if (this.touchTimer || !this.options.file)
+      return
+    this.touchTimer = setTimeout(() => this.save(), this.options.touchDelay ?? 60 * 1000)
+    this.touchTimer.unref()
+  }
+}
+
+export const accountStore = new AccountStore({ file: process.env.ACCOUNTS_FILE || 'data/accounts.json' })
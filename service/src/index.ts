@@ -2,7 +2,8 @@ import express from 'express'
 import type { RequestProps } from './types'
 import type { ChatMessage } from './chatgpt'
 import { chatConfig, chatReplyProcess, currentModel } from './chatgpt'
-import { auth, authV2, mlog, regCookie, turnstileCheck, verify } from './middleware/auth'
+import { auth, authV2, authorize, mlog, regCookie, turnstileCheck, verify } from './middleware/auth'
+import { isAuthEnabled } from './middleware/token'
 import { limiter } from './middleware/limiter'
 import { isNotEmptyString,formattedDate } from './utils/is'
 import multer from "multer"
@@ -18,6 +19,16 @@ import axios from 'axios';
 import AWS  from 'aws-sdk';
 import { v4 as uuidv4} from 'uuid';
 import { viggleProxyFileDo,viggleProxy, lumaProxy, runwayProxy, ideoProxy, ideoProxyFileDo, klingProxy, pikaProxy, udioProxy, runwaymlProxy, pixverseProxy, sunoProxy, GptImageEdit } from './myfun'
+import { PLAPIRoutes } from './pl/routes'
+import { attachPLStream } from './pl/stream'
+import { JobRoutes, jobProvider, jobScope } from './jobs/routes'
+import { AccountRoutes } from './accounts/routes'
+import { accountStore } from './accounts/store'
+import { meter, reportUsage } from './usage/meter'
+import { UsageAdminRoutes, UsageRoutes } from './usage/routes'
+import { usageStore } from './usage/store'
+import { BanRoutes } from './limits/routes'
+import { trustProxy } from './limits/ip'
 
 
 const app = express()
@@ -41,13 +52,13 @@ app.all('*', (_, res, next) => {
   next()
 })
 
-router.post('/chat-process',authV2 , async (req, res) => { //[authV2, limiter]
+router.post('/chat-process',authorize('chat'), meter('openai', { generation: () => false }) , async (req, res) => { //[authV2, limiter]
   res.setHeader('Content-type', 'application/octet-stream')
 
   try {
     const { prompt, options = {}, systemMessage, temperature, top_p } = req.body as RequestProps
     let firstChunk = true
-    await chatReplyProcess({
+    const result = await chatReplyProcess({
       message: prompt,
       lastContext: options,
       process: (chat: ChatMessage) => {
@@ -58,6 +69,7 @@ router.post('/chat-process',authV2 , async (req, res) => { //[authV2, limiter]
       temperature,
       top_p,
     })
+    reportUsage(res, (result.data as ChatMessage)?.detail)
   }
   catch (error) {
     res.write(JSON.stringify(error))
@@ -79,8 +91,7 @@ router.post('/config', auth, async (req, res) => {
 
 router.post('/session', async (req, res) => {
   try {
-    const AUTH_SECRET_KEY = process.env.AUTH_SECRET_KEY
-    const hasAuth = isNotEmptyString(AUTH_SECRET_KEY)
+    const hasAuth = isAuthEnabled()
     const isUpload= isNotEmptyString(  process.env.API_UPLOADER )
     const isHideServer= isNotEmptyString(  process.env.HIDE_SERVER );
     const amodel=   process.env.OPENAI_API_MODEL?? "gpt-3.5-turbo" ;
@@ -123,11 +134,29 @@ router.post('/session', async (req, res) => {
 router.post('/verify', verify)
 router.get('/reg', regCookie )
 
+// PL language: execute, compile, validate
+router.use('/pl', authorize('chat'), PLAPIRoutes)
+
+// Generation jobs polled by the server: submit, list, follow as events
+router.use('/jobs', authorize(jobScope), meter(jobProvider), JobRoutes)
+
+// What the user used of their quota
+router.use('/usage', authorize(), UsageRoutes)
+
+// Usage of every user and their quotas, for admins
+router.use('/admin/usage', authorize('admin'), UsageAdminRoutes)
+
+// Addresses banned by the login lockout, for admins
+router.use('/admin/bans', authorize('admin'), BanRoutes)
+
+// Users and their API tokens, for admins
+router.use('/admin', authorize('admin'), AccountRoutes)
+
  const API_BASE_URL = isNotEmptyString(process.env.OPENAI_API_BASE_URL)
     ? process.env.OPENAI_API_BASE_URL
     : 'https://api.openai.com'
 
-app.use('/mjapi',authV2 , proxy(process.env.MJ_SERVER?process.env.MJ_SERVER:'https://api.openai.com', {
+app.use('/mjapi',authorize('mj'), meter('midjourney', { model: req => req.body?.botType, generation: req => req.method === 'POST' && req.path.includes('/submit/') }) , proxy(process.env.MJ_SERVER?process.env.MJ_SERVER:'https://api.openai.com', {
   https: false, limit: '10mb',
   proxyReqPathResolver: function (req) {
     return req.originalUrl.replace('/mjapi', '') // 将URL中的 `/mjapi` 替换为空字符串
@@ -269,8 +298,8 @@ app.post('/openapi/pre_signed', (req, res) => {
 });
 
 app.use(
-  '/openapi/v1/audio/transcriptions',authV2,
-  upload2.single('file'),
+  '/openapi/v1/audio/transcriptions',authorize('chat'),
+  upload2.single('file'), meter('openai', { generation: () => false }),
   async (req, res, next) => {
     //console.log( "boday",req.body ,  req.body.model );
     if(req.file.buffer) {
@@ -301,10 +330,10 @@ app.use(
 );
 
 //代理图片编辑
-app.use('/openapi/v1/images/edits',authV2,upload2.any() , GptImageEdit )
+app.use('/openapi/v1/images/edits',authorize('chat'),upload2.any(), meter('openai') , GptImageEdit )
 
 //代理openai 接口
-app.use('/openapi' ,authV2, turnstileCheck, proxy(API_BASE_URL, {
+app.use('/openapi' ,authorize('chat'), turnstileCheck, meter('openai', { generation: req => req.method === 'POST' && req.path.includes('/images/') }), proxy(API_BASE_URL, {
   https: false, limit: '10mb',
   proxyReqPathResolver: function (req) {
     return req.originalUrl.replace('/openapi', '') // 将URL中的 `/openapi` 替换为空字符串
@@ -312,6 +341,7 @@ app.use('/openapi' ,authV2, turnstileCheck, proxy(API_BASE_URL, {
   proxyReqOptDecorator: function (proxyReqOpts, srcReq) {
     proxyReqOpts.headers['Authorization'] ='Bearer '+ process.env.OPENAI_API_KEY;
     proxyReqOpts.headers['Content-Type'] = 'application/json';
+    proxyReqOpts.headers['Accept-Encoding'] = 'identity'; // 不压缩，以便统计 usage | uncompressed, so the usage block can be metered
     proxyReqOpts.headers['Mj-Version'] = pkg.version;
     return proxyReqOpts;
   },
@@ -319,32 +349,32 @@ app.use('/openapi' ,authV2, turnstileCheck, proxy(API_BASE_URL, {
 }));
 
 //代理sunoApi 接口 
-app.use('/sunoapi' ,authV2,sunoProxy );
-app.use('/suno' ,authV2,sunoProxy );
+app.use('/sunoapi' ,authorize('suno'), meter('suno', { model: req => req.body?.mv }),sunoProxy );
+app.use('/suno' ,authorize('suno'), meter('suno', { model: req => req.body?.mv }),sunoProxy );
 
 
 
 //代理luma 接口 
-app.use('/luma' ,authV2, lumaProxy  );
-app.use('/pro/luma' ,authV2, lumaProxy );
+app.use('/luma' ,authorize('video'), meter('luma'), lumaProxy  );
+app.use('/pro/luma' ,authorize('video'), meter('luma'), lumaProxy );
 
 //代理 viggle 文件
-app.use('/viggle/asset',authV2 ,  upload2.single('file'), viggleProxyFileDo );
-app.use('/pro/viggle/asset',authV2 ,  upload2.single('file'), viggleProxyFileDo );
+app.use('/viggle/asset',authorize('video') , meter('viggle', { generation: () => false }),  upload2.single('file'), viggleProxyFileDo );
+app.use('/pro/viggle/asset',authorize('video') , meter('viggle', { generation: () => false }),  upload2.single('file'), viggleProxyFileDo );
 //代理 viggle  
-app.use('/viggle' ,authV2, viggleProxy);
-app.use('/pro/viggle' ,authV2, viggleProxy);
+app.use('/viggle' ,authorize('video'), meter('viggle'), viggleProxy);
+app.use('/pro/viggle' ,authorize('video'), meter('viggle'), viggleProxy);
 
-app.use('/runwayml' ,authV2, runwaymlProxy  );
-app.use('/runway' ,authV2, runwayProxy  );
-app.use('/kling' ,authV2, klingProxy  );
+app.use('/runwayml' ,authorize('video'), meter('runwayml'), runwaymlProxy  );
+app.use('/runway' ,authorize('video'), meter('runway'), runwayProxy  );
+app.use('/kling' ,authorize('video'), meter('kling'), klingProxy  );
 
-app.use('/ideogram/remix' ,authV2,  upload2.single('image_file'), ideoProxyFileDo  );
-app.use('/ideogram' ,authV2, ideoProxy  );
-app.use('/pika' ,authV2, pikaProxy  );
-app.use('/udio' ,authV2, udioProxy  );
+app.use('/ideogram/remix' ,authorize('mj'),  upload2.single('image_file'), meter('ideogram'), ideoProxyFileDo  );
+app.use('/ideogram' ,authorize('mj'), meter('ideogram', { model: req => req.body?.image_request?.model }), ideoProxy  );
+app.use('/pika' ,authorize('video'), meter('pika'), pikaProxy  );
+app.use('/udio' ,authorize('suno'), meter('udio'), udioProxy  );
 
-app.use('/pixverse' ,authV2, pixverseProxy  );
+app.use('/pixverse' ,authorize('video'), meter('pixverse'), pixverseProxy  );
 
 
 
@@ -352,6 +382,22 @@ app.use('/pixverse' ,authV2, pixverseProxy  );
 
 app.use('', router)
 app.use('/api', router)
-app.set('trust proxy', 1)
+app.set('trust proxy', trustProxy())
+
+const server = app.listen(3002, () => globalThis.console.log('Server is running on port 3002'))
+
+// PL language: streamed execution over WebSocket
+attachPLStream(server, app)
 
-app.listen(3002, () => globalThis.console.log('Server is running on port 3002'))
+// Timers that save the stores are unref'd, so pending writes are flushed on the way out
+const flushStores = () => {
+  accountStore.flush()
+  usageStore.flush()
+}
+process.on('beforeExit', flushStores)
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.once(signal, () => {
+    flushStores()
+    process.exit(0)
+  })
+}
@@ -0,0 +1,196 @@
+/**
+ * Generation Job Providers
+ * How the job queue submits tasks to each upstream and reads their state,
+ * with the same servers and keys as the proxies in myfun.ts
+ */
+
+import { isNotEmptyString } from '../utils/is'
+import type { Scope } from '../accounts/store'
+import pkg from '../../package.json'
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+/** State of an upstream task as read from one poll */
+export interface TaskState {
+  status: 'running' | 'succeeded' | 'failed'
+  progress?: string
+  error?: string
+}
+
+export interface JobProvider {
+  /** The scope a token needs to submit jobs */
+  scope: Scope
+  /** Upstream server; read on every request so configuration changes apply without a restart */
+  server: () => string
+  headers: () => Record<string, string>
+  /** Submission path by kind of task; the first one is the default */
+  submit: Record<string, string>
+  /** Upstream id of a submitted task, or undefined when the submission was refused */
+  taskId: (response: any) => string | undefined
+  /** Path to poll for the state of a task; the task id is encoded so it cannot leave the path */
+  fetch: (taskId: string, kind: string) => string
+  read: (task: any) => TaskState
+}
+
+const API_BASE_URL = () => isNotEmptyString(process.env.OPENAI_API_BASE_URL)
+  ? process.env.OPENAI_API_BASE_URL
+  : 'https://api.openai.com'
+
+// The Authorization header of the proxies: the provider key, or the OpenAI key
+const bearer = (key: string) => (): Record<string, string> => ({
+  'Authorization': `Bearer ${process.env[key] || process.env.OPENAI_API_KEY}`,
+  'Content-Type': 'application/json',
+  'Mj-Version': pkg.version,
+})
+
+const server = (name: string) => (): string => process.env[name] ?? API_BASE_URL()
+
+const encode = (taskId: string) => encodeURIComponent(taskId)
+
+export const JOB_PROVIDERS: Record<string, JobProvider> = {
+  midjourney: {
+    scope: 'mj',
+    server: () => process.env.MJ_SERVER ? process.env.MJ_SERVER : 'https://api.openai.com',
+    headers: () => ({
+      ...(process.env.MJ_API_SECRET ? { 'mj-api-secret': process.env.MJ_API_SECRET } : {}),
+      'Content-Type': 'application/json',
+      'Mj-Version': pkg.version,
+    }),
+    submit: {
+      imagine: '/mj/submit/imagine',
+      blend: '/mj/submit/blend',
+      describe: '/mj/submit/describe',
+      change: '/mj/submit/change',
+      action: '/mj/submit/action',
+      shorten: '/mj/submit/shorten',
+    },
+    taskId: response => response?.result ? String(response.result) : undefined,
+    fetch: taskId => `/mj/task/${encode(taskId)}/fetch`,
+    read: (task) => {
+      if (task?.status === 'SUCCESS')
+        return { status: 'succeeded', progress: task.progress }
+      if (task?.status === 'FAILURE')
+        return { status: 'failed', error: task.failReason ?? 'Generation failed' }
+      return { status: 'running', progress: task?.progress }
+    },
+  },
+
+  suno: {
+    scope: 'suno',
+    server: server('SUNO_SERVER'),
+    headers: bearer('SUNO_KEY'),
+    submit: {
+      description: '/generate/description-mode',
+      generate: '/generate',
+    },
+    // One task makes several clips, which the feed reads together
+    taskId: (response) => {
+      const ids: string[] = (response?.clips ?? []).map((clip: any) => clip.id).filter(Boolean)
+      return ids.length > 0 ? ids.join(',') : undefined
+    },
+    fetch: taskId => `/feed/${taskId.split(',').map(encode).join(',')}`,
+    read: (clips) => {
+      const list: any[] = Array.isArray(clips) ? clips : []
+      if (list.some(clip => clip.status === 'error'))
+        return { status: 'failed', error: 'Generation failed' }
+      if (list.length > 0 && list.every(clip => clip.status === 'complete'))
+        return { status: 'succeeded' }
+      return { status: 'running' }
+    },
+  },
+
+  kling: {
+    scope: 'video',
+    server: server('KLING_SERVER'),
+    headers: bearer('KLING_KEY'),
+    submit: {
+      image: '/kling/v1/images/generations',
+      text2video: '/kling/v1/videos/text2video',
+      image2video: '/kling/v1/videos/image2video',
+    },
+    taskId: response => response?.data?.task_id,
+    fetch: (taskId, kind) => `${JOB_PROVIDERS.kling.submit[kind] ?? JOB_PROVIDERS.kling.submit.image}/${encode(taskId)}`,
+    read: (task) => {
+      if (task?.data?.task_status === 'succeed')
+        return { status: 'succeeded' }
+      if (task?.data?.task_status === 'failed')
+        return { status: 'failed', error: task.data.task_status_msg || 'Generation failed' }
+      return { status: 'running' }
+    },
+  },
+
+  runway: {
+    scope: 'video',
+    server: server('RUNWAY_SERVER'),
+    headers: bearer('RUNWAY_KEY'),
+    submit: {
+      task: '/runway/tasks',
+    },
+    taskId: response => response?.task?.id,
+    fetch: taskId => `/runway/tasks/${encode(taskId)}`,
+    read: (response) => {
+      const progress = response?.task?.progress === undefined ? undefined : `${Math.round(response.task.progress * 100)}%`
+      if (response?.task?.status === 'SUCCEEDED')
+        return { status: 'succeeded', progress }
+      if (response?.task?.status === 'FAILED')
+        return { status: 'failed', error: response.task.error?.message ?? 'Generation failed' }
+      return { status: 'running', progress }
+    },
+  },
+
+  luma: {
+    scope: 'video',
+    server: server('LUMA_SERVER'),
+    headers: bearer('LUMA_KEY'),
+    submit: {
+      generation: '/luma/generations/',
+    },
+    taskId: response => response?.id ?? response?.[0]?.id,
+    fetch: taskId => `/luma/generations/${encode(taskId)}`,
+    read: (generation) => {
+      if (generation?.state === 'failed')
+        return { status: 'failed', error: generation.failure_reason ?? 'Generation failed' }
+      // Completed generations sometimes have no link yet
+      if (generation?.state === 'completed' && generation.video?.download_url)
+        return { status: 'succeeded' }
+      return { status: 'running' }
+    },
+  },
+
+  udio: {
+    scope: 'suno',
+    server: server('UDIO_SERVER'),
+    headers: bearer('UDIO_KEY'),
+    submit: {
+      music: '/udio/submit/music',
+    },
+    taskId: response => response?.data ? String(response.data) : undefined,
+    fetch: taskId => `/udio/fetch/${encode(taskId)}`,
+    read: (response) => {
+      if (response?.data?.status === 'SUCCESS')
+        return { status: 'succeeded' }
+      if (response?.data?.status === 'FAILURE' || response?.data?.status === 'FAILED')
+        return { status: 'failed', error: response.data.fail_reason || 'Generation failed' }
+      return { status: 'running' }
+    },
+  },
+
+  // Served by the OpenAI compatible upstream, as the /openapi proxy the video page uses
+  veo: {
+    scope: 'video',
+    server: () => API_BASE_URL(),
+    headers: bearer('OPENAI_API_KEY'),
+    submit: {
+      create: '/veo/v1/video/create',
+    },
+    taskId: response => response?.id ? String(response.id) : undefined,
+    fetch: taskId => `/veo/v1/video/feed/${encode(taskId)}`,
+    read: (task) => {
+      if (task?.status === 'failed')
+        return { status: 'failed', error: typeof task.error === 'string' ? task.error : (task.error?.message ?? 'Generation failed') }
+      if (task?.status === 'completed' && task.video_url)
+        return { status: 'succeeded' }
+      return { status: 'running' }
+    },
+  },
+}
@@ -0,0 +1,259 @@
+/**
+ * Generation Job Queue
+ * Submits generation tasks upstream and polls them from the server, so tracking
+ * goes on when the browser that started a task is closed
+ */
+
+import { EventEmitter } from 'events'
+import axios from 'axios'
+import { v4 as uuidv4 } from 'uuid'
+import { JOB_PROVIDERS } from './providers'
+import type { JobProvider, JobStatus } from './providers'
+
+export interface Job {
+  id: string
+  provider: string
+  kind: string
+  /** The user who submitted the job; unset when authentication is off */
+  userId?: string
+  /** Id of the task at the upstream, once submitted */
+  taskId?: string
+  status: JobStatus
+  progress?: string
+  /** The task as the upstream last returned it */
+  result?: any
+  error?: string
+  polls: number
+  createdAt: number
+  updatedAt: number
+}
+
+export interface JobSubmission {
+  provider: string
+  /** Which submission endpoint of the provider to use */
+  kind?: string
+  /** Track a task that was already submitted, instead of submitting input */
+  taskId?: string
+  input?: Record<string, any>
+  userId?: string
+}
+
+export interface JobFilter {
+  provider?: string
+  status?: JobStatus
+  userId?: string
+}
+
+export interface JobQueueOptions {
+  providers?: Record<string, JobProvider>
+  /** Delay before the first poll, in milliseconds */
+  interval?: number
+  /** Longest delay between polls */
+  maxInterval?: number
+  /** Factor the delay grows by with every poll that shows no change */
+  backoff?: number
+  /** Polls before a job is given up */
+  maxPolls?: number
+  /** Failed requests in a row before a job is given up */
+  maxErrors?: number
+  /** Timeout of one upstream request */
+  requestTimeout?: number
+  /** Finished jobs kept for GET /jobs; the oldest are dropped first */
+  maxJobs?: number
+}
+
+export class JobError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'JobError'
+  }
+}
+
+interface Tracker {
+  timer?: NodeJS.Timeout
+  errors: number
+  /** Polls in a row that showed no change, which the delay grows with */
+  unchanged: number
+}
+
+const isFinished = (job: Job): boolean => job.status === 'succeeded' || job.status === 'failed'
+
+// The reason an upstream gives in an error or refusal body
+const upstreamMessage = (data: any): string | undefined => {
+  const message = data?.message ?? data?.error?.message ?? data?.description ?? data?.detail
+  return typeof message === 'string' ? message : undefined
+}
+
+const requestError = (error: any): string => upstreamMessage(error?.response?.data) ?? error?.message ?? String(error)
+
+/**
+ * Emits 'update' with a copy of a job whenever its state changes
+ */
+export class JobQueue extends EventEmitter {
+  private readonly jobs: Map<string, Job> = new Map()
+  private readonly trackers: Map<string, Tracker> = new Map()
+  private readonly providers: Record<string, JobProvider>
+  private readonly options: Required<Omit<JobQueueOptions, 'providers'>>
+
+  constructor(options: JobQueueOptions = {}) {
+    super()
+    // Every open /jobs/events stream listens
+    this.setMaxListeners(0)
+    this.providers = options.providers ?? JOB_PROVIDERS
+    this.options = {
+      interval: options.interval ?? 5000,
+      maxInterval: options.maxInterval ?? 60 * 1000,
+      backoff: options.backoff ?? 1.5,
+      maxPolls: options.maxPolls ?? 200,
+      maxErrors: options.maxErrors ?? 5,
+      requestTimeout: options.requestTimeout ?? 30 * 1000,
+      maxJobs: options.maxJobs ?? 1000,
+    }
+  }
+
+  /**
+   * Start a job: submit its input upstream, or track the given task id.
+   * A submission the upstream refuses gives a failed job.
+   */
+  async submit(submission: JobSubmission): Promise<Job> {
+    const provider = this.providers[submission.provider]
+    if (!provider)
+      throw new JobError(`Unknown provider "${submission.provider}", expected one of ${Object.keys(this.providers).join(', ')}`, 400)
+
+    const kinds = Object.keys(provider.submit)
+    const kind = submission.kind ?? kinds[0]
+    if (!kinds.includes(kind))
+      throw new JobError(`Unknown kind "${kind}" for ${submission.provider}, expected one of ${kinds.join(', ')}`, 400)
+
+    if (submission.taskId === undefined && (typeof submission.input !== 'object' || submission.input === null || Array.isArray(submission.input)))
+      throw new JobError('Either "taskId" or an "input" object is required', 400)
+
+    const now = Date.now()
+    const job: Job = { id: uuidv4(), provider: submission.provider, kind, userId: submission.userId, status: 'queued', polls: 0, createdAt: now, updatedAt: now }
+    this.jobs.set(job.id, job)
+    this.trackers.set(job.id, { errors: 0, unchanged: 0 })
+
+    if (submission.taskId !== undefined) {
+      this.update(job, { taskId: String(submission.taskId) })
+    }
+    else {
+      try {
+        const response = await this.request(provider, 'post', provider.submit[kind], submission.input)
+        const taskId = provider.taskId(response)
+        if (taskId === undefined) {
+          this.finish(job, { status: 'failed', error: upstreamMessage(response) ?? 'Task was not accepted', result: response })
+          return { ...job }
+        }
+        this.update(job, { taskId, status: 'running', result: response })
+      }
+      catch (error) {
+        this.finish(job, { status: 'failed', error: requestError(error) })
+        return { ...job }
+      }
+    }
+
+    this.schedule(job, this.options.interval)
+    return { ...job }
+  }
+
+  get(id: string): Job | undefined {
+    const job = this.jobs.get(id)
+    return job && { ...job }
+  }
+
+  /**
+   * Jobs matching the filter, newest first
+   */
+  list(filter: JobFilter = {}): Job[] {
+    return Array.from(this.jobs.values())
+      .filter(job => (!filter.provider || job.provider === filter.provider) && (!filter.status || job.status === filter.status))
+      .filter(job => !filter.userId || job.userId === filter.userId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(job => ({ ...job }))
+  }
+
+  /**
+   * Stop polling; jobs in progress stay as they are
+   */
+  close() {
+    this.trackers.forEach(tracker => clearTimeout(tracker.timer))
+    this.trackers.clear()
+  }
+
+  private schedule(job: Job, delay: number) {
+    const tracker = this.trackers.get(job.id)
+    if (tracker)
+      tracker.timer = setTimeout(() => this.poll(job), delay)
+  }
+
+  private async poll(job: Job) {
+    const tracker = this.trackers.get(job.id)
+    if (!tracker)
+      return
+
+    const provider = this.providers[job.provider]
+    job.polls++
+    try {
+      const task = await this.request(provider, 'get', provider.fetch(job.taskId!, job.kind))
+      const state = provider.read(task)
+      tracker.errors = 0
+      tracker.unchanged = (state.status === job.status && state.progress === job.progress) ? tracker.unchanged + 1 : 0
+
+      if (state.status === 'running') {
+        // Listeners only hear of polls that changed something
+        if (tracker.unchanged === 0)
+          this.update(job, { status: 'running', progress: state.progress, result: task })
+        else
+          job.result = task
+      }
+      else {
+        this.finish(job, { ...state, result: task })
+        return
+      }
+    }
+    catch (error) {
+      tracker.errors++
+      tracker.unchanged++
+      if (tracker.errors >= this.options.maxErrors) {
+        this.finish(job, { status: 'failed', error: `Upstream failed ${tracker.errors} times in a row: ${requestError(error)}` })
+        return
+      }
+    }
+
+    if (job.polls >= this.options.maxPolls) {
+      this.finish(job, { status: 'failed', error: `No result after ${job.polls} polls` })
+      return
+    }
+
+    const { interval, backoff, maxInterval } = this.options
+    this.schedule(job, Math.min(interval * backoff ** tracker.unchanged, maxInterval))
+  }
+
+  private async request(provider: JobProvider, method: 'get' | 'post', path: string, data?: any): Promise<any> {
+    const response = await axios.request({
+      method,
+      url: `${provider.server()}${path}`,
+      headers: provider.headers(),
+      data,
+      timeout: this.options.requestTimeout,
+    })
+    return response.data
+  }
+
+  private update(job: Job, changes: Partial<Job>) {
+    Object.assign(job, changes, { updatedAt: Date.now() })
+    this.emit('update', { ...job })
+  }
+
+  private finish(job: Job, changes: Partial<Job>) {
+    const tracker = this.trackers.get(job.id)
+    clearTimeout(tracker?.timer)
+    this.trackers.delete(job.id)
+    this.update(job, changes)
+
+    if (this.jobs.size > this.options.maxJobs) {
+      const oldest = Array.from(this.jobs.values()).filter(isFinished).sort((a, b) => a.updatedAt - b.updatedAt)
+      oldest.slice(0, this.jobs.size - this.options.maxJobs).forEach(finished => this.jobs.delete(finished.id))
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Generation Job API
+ * Submit generation tasks, read their state, and follow it as server-sent events
+ */
+
+import express from 'express'
+import type { Request, Response } from 'express'
+import { envNumber } from '../utils'
+import type { Scope } from '../accounts/store'
+import { JobError, JobQueue } from './queue'
+import type { Job, JobFilter } from './queue'
+import { JOB_PROVIDERS } from './providers'
+import type { JobStatus } from './providers'
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed']
+
+// Comment lines sent on idle streams, so proxies do not close them
+const HEARTBEAT_INTERVAL = 15 * 1000
+
+export const jobQueue = new JobQueue({
+  interval: envNumber(process.env.JOB_POLL_INTERVAL, 5000),
+  maxInterval: envNumber(process.env.JOB_MAX_POLL_INTERVAL, 60 * 1000),
+  maxPolls: envNumber(process.env.JOB_MAX_POLLS, 200),
+  maxJobs: envNumber(process.env.JOB_MAX_HISTORY, 1000),
+})
+
+// Submissions need the scope of their provider; reading jobs needs a valid token only
+export const jobScope = (req: Request): Scope | undefined => {
+  return req.method === 'POST' ? JOB_PROVIDERS[req.body?.provider]?.scope : undefined
+}
+
+// The provider a submission is metered as; reading and following jobs is not metered
+export const jobProvider = (req: Request): string | undefined => {
+  return (req.method === 'POST' && JOB_PROVIDERS[req.body?.provider]) ? req.body.provider : undefined
+}
+
+// Whose jobs a request sees: its user's, or every job for admins and when authentication is off
+const jobOwner = (req: Request): string | undefined => {
+  return req.user?.scopes.includes('admin') ? undefined : req.user?.id
+}
+
+const ownedBy = (owner: string | undefined) => (job: Job): boolean => !owner || job.userId === owner
+
+const sendError = (res: Response, error: any) => {
+  const status = error instanceof JobError ? error.status : 500
+  res.status(status).json({ success: false, error: error?.message ?? String(error) })
+}
+
+const readFilter = (req: Request): JobFilter => {
+  const { provider, status } = req.query
+  if (provider !== undefined && typeof provider !== 'string')
+    throw new JobError('Parameter "provider" must be a string', 400)
+  if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus))
+    throw new JobError(`Parameter "status" must be one of ${JOB_STATUSES.join(', ')}`, 400)
+  return { provider: provider as string | undefined, status: status as JobStatus | undefined, userId: jobOwner(req) }
+}
+
+/**
+ * Routes over a queue; the app serves them for jobQueue under /jobs.
+ * Users see the jobs they submitted, admins every job.
+ */
+export const createJobRoutes = (queue: JobQueue) => {
+  const routes = express.Router()
+
+  routes.post('/', async (req, res) => {
+    try {
+      const { provider, kind, taskId, input } = req.body ?? {}
+      if (typeof provider !== 'string')
+        throw new JobError('Field "provider" must be a string', 400)
+      if (kind !== undefined && typeof kind !== 'string')
+        throw new JobError('Field "kind" must be a string', 400)
+      if (taskId !== undefined && (typeof taskId !== 'string' || taskId.length === 0))
+        throw new JobError('Field "taskId" must be a non-empty string', 400)
+
+      res.status(202).json(await queue.submit({ provider, kind, taskId, input, userId: req.user?.id }))
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  routes.get('/', (req, res) => {
+    try {
+      res.json(queue.list(readFilter(req)))
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  // Declared before /:id, which would match it otherwise
+  routes.get('/events', (req, res) => {
+    const id = typeof req.query.id === 'string' ? req.query.id : undefined
+    const visible = ownedBy(jobOwner(req))
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    })
+    // Clients see the stream open before the first event
+    res.flushHeaders()
+
+    const send = (job: Job) => {
+      if ((!id || job.id === id) && visible(job))
+        res.write(`event: job\ndata: ${JSON.stringify(job)}\n\n`)
+    }
+
+    // The current state first: of the job asked for, or of the jobs in progress
+    const current = id ? [queue.get(id)].filter(Boolean) : queue.list().filter(job => job.status === 'queued' || job.status === 'running')
+    current.reverse().forEach(send)
+
+    queue.on('update', send)
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL)
+    req.on('close', () => {
+      clearInterval(heartbeat)
+      queue.off('update', send)
+    })
+  })
+
+  routes.get('/:id', (req, res) => {
+    const job = queue.get(req.params.id)
+    // Jobs of other users are not found, rather than forbidden, so their ids cannot be probed
+    if (!job || !ownedBy(jobOwner(req))(job)) {
+      sendError(res, new JobError('Job not found', 404))
+      return
+    }
+    res.json(job)
+  })
+
+  return routes
+}
+
+export const JobRoutes = createJobRoutes(jobQueue)
@@ -0,0 +1,46 @@
+/**
+ * Client Address
+ * Which proxies may say who the client is, so that clients cannot pick their own address
+ */
+
+import type { IncomingMessage } from 'http'
+import express from 'express'
+import type { Application, Request } from 'express'
+import { isNotEmptyString } from '../utils/is'
+
+// Proxies on the same host or network, as with a reverse proxy or a container network
+const DEFAULT_TRUSTED_PROXIES = ['loopback', 'linklocal', 'uniquelocal']
+
+/**
+ * The trust proxy setting of the app, from TRUSTED_PROXIES: a number of hops, true or false,
+ * or a list of addresses, subnets and the loopback, linklocal and uniquelocal presets
+ */
+export const trustProxy = (value: string | undefined = process.env.TRUSTED_PROXIES): boolean | number | string[] => {
+  if (!isNotEmptyString(value))
+    return DEFAULT_TRUSTED_PROXIES
+  const setting = value.trim()
+  if (setting === 'true' || setting === 'false')
+    return setting === 'true'
+  if (/^\d+$/.test(setting))
+    return Number(setting)
+  return setting.split(',').map(item => item.trim()).filter(item => item !== '')
+}
+
+/**
+ * The address of the client: the first one in X-Forwarded-For that no trusted proxy added,
+ * or the peer itself when it is not a trusted proxy
+ */
+export const clientIp = (req: Request): string => req.ip ?? req.socket?.remoteAddress ?? 'unknown'
+
+/**
+ * The address of the client of a request Express does not route, such as a WebSocket upgrade,
+ * read as req.ip is with the trust proxy setting of an app
+ */
+export const upgradeIp = (request: IncomingMessage, app: Application): string => {
+  const req: Request = Object.create(express.request, {
+    app: { value: app },
+    headers: { value: request.headers },
+    socket: { value: request.socket },
+  })
+  return clientIp(req)
+}
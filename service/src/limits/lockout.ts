@@ -0,0 +1,125 @@
+/**
+ * Login Lockout
+ * Addresses that fail to authenticate too often are banned for a while
+ */
+
+import { envNumber } from '../utils'
+import { limitStore } from './store'
+import type { LimitEntry, LimitStore } from './store'
+
+// Failed attempts of an address, which is banned once they reach the limit
+const LOCKOUT = 'lockout:'
+
+export interface LockoutOptions {
+  /** Attempts without a success before an address is banned */
+  maxErrors: number
+  /** How long a ban lasts, and how long attempts are remembered, in ms */
+  banTime: number
+}
+
+export interface Ban {
+  ip: string
+  /** When the ban ends, in ms */
+  until: number
+}
+
+export class LockoutError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'LockoutError'
+  }
+}
+
+/**
+ * The lockout AUTH_SECRET_ERROR_COUNT and AUTH_SECRET_ERROR_TIME (minutes) set;
+ * none without a count, or with one that is not a positive number
+ */
+export const lockoutFromEnv = (): LockoutOptions | undefined => {
+  const maxErrors = envNumber(process.env.AUTH_SECRET_ERROR_COUNT, 0)
+  if (maxErrors <= 0)
+    return undefined
+  const minutes = envNumber(process.env.AUTH_SECRET_ERROR_TIME, 10)
+  return {
+    maxErrors,
+    banTime: (minutes > 0 ? minutes : 10) * 60 * 1000,
+  }
+}
+
+export class Lockout {
+  constructor(
+    private readonly store: LimitStore = limitStore,
+    private readonly options?: LockoutOptions,
+  ) {}
+
+  /**
+   * Count an attempt of an address, which is refused while it is banned;
+   * the attempt that reaches the limit bans it. One store update does both,
+   * so failures counted by several processes at once are not lost.
+   */
+  async attempt(ip: string): Promise<void> {
+    const options = this.options ?? lockoutFromEnv()
+    if (!options)
+      return
+
+    // Set by the change, which the compiler cannot see run
+    let ban = undefined as LimitEntry | undefined
+    await this.store.update(LOCKOUT + ip, (entry) => {
+      ban = undefined
+      if (entry && entry.count >= options.maxErrors) {
+        ban = entry
+        return entry
+      }
+      const now = Date.now()
+      const count = (entry?.count ?? 0) + 1
+      // Attempts are remembered for the ban time, and a ban lasts that long from the attempt that caused it
+      return { count, expiresAt: (count >= options.maxErrors || !entry) ? now + options.banTime : entry.expiresAt }
+    })
+
+    if (ban) {
+      const timeLeft = Math.ceil((ban.expiresAt - Date.now()) / 1000)
+      const ts = timeLeft > 60 ? `${(timeLeft / 60).toFixed(0)}分钟` : `${timeLeft}秒`
+      throw new LockoutError(`Error: ${ip} 验证次数过多，请在${ts}后重试！`, 429)
+    }
+  }
+
+  /**
+   * Forget an address that authenticated, even with the attempt that banned it
+   */
+  async succeed(ip: string): Promise<void> {
+    // Called on every authenticated request, which need not wait for the store when nothing is counted
+    if (!(this.options ?? lockoutFromEnv()))
+      return
+    await this.unban(ip)
+  }
+
+  async listBans(): Promise<Ban[]> {
+    const options = this.options ?? lockoutFromEnv()
+    if (!options)
+      return []
+    const entries = await this.store.list(LOCKOUT)
+    return entries
+      .filter(([, entry]) => entry.count >= options.maxErrors)
+      .map(([key, entry]) => ({ ip: key.slice(LOCKOUT.length), until: entry.expiresAt }))
+  }
+
+  /**
+   * Lift the ban of an address, and forget its attempts; whether it was banned
+   */
+  async unban(ip: string): Promise<boolean> {
+    const options = this.options ?? lockoutFromEnv()
+    let banned = false
+    await this.store.update(LOCKOUT + ip, (entry) => {
+      banned = options !== undefined && entry !== undefined && entry.count >= options.maxErrors
+      return undefined
+    })
+    return banned
+  }
+
+  async unbanAll(): Promise<number> {
+    const bans = await this.listBans()
+    await Promise.all(bans.map(ban => this.unban(ban.ip)))
+    return bans.length
+  }
+}
+
+export const lockout = new Lockout()
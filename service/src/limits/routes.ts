@@ -0,0 +1,50 @@
+/**
+ * Ban Admin API
+ * List the addresses the login lockout banned, and lift their bans
+ */
+
+import express from 'express'
+import { lockout } from './lockout'
+import type { Lockout } from './lockout'
+
+/**
+ * Routes over a lockout; the app serves them for lockout under /admin/bans, to admins only
+ */
+export const createBanRoutes = (bans: Lockout) => {
+  const routes = express.Router()
+
+  routes.get('/', async (req, res) => {
+    try {
+      res.json(await bans.listBans())
+    }
+    catch (error) {
+      res.status(500).json({ success: false, error: error?.message ?? String(error) })
+    }
+  })
+
+  routes.delete('/', async (req, res) => {
+    try {
+      res.json({ cleared: await bans.unbanAll() })
+    }
+    catch (error) {
+      res.status(500).json({ success: false, error: error?.message ?? String(error) })
+    }
+  })
+
+  routes.delete('/:ip', async (req, res) => {
+    try {
+      if (!await bans.unban(req.params.ip)) {
+        res.status(404).json({ success: false, error: 'Ban not found' })
+        return
+      }
+      res.json({ cleared: 1 })
+    }
+    catch (error) {
+      res.status(500).json({ success: false, error: error?.message ?? String(error) })
+    }
+  })
+
+  return routes
+}
+
+export const BanRoutes = createBanRoutes(lockout)
@@ -0,0 +1,346 @@
+/**
+ * Limit Store
+ * Counters that expire, shared by the login lockout and the rate limiter
+ */
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import type { ClientRateLimitInfo, Options, Store } from 'express-rate-limit'
+
+/** How many times a key was hit, and when it is forgotten, in ms */
+export interface LimitEntry {
+  count: number
+  expiresAt: number
+}
+
+/**
+ * Where counters are kept. A backend shared by several server processes implements
+ * this too, so that they lock out and limit clients together; each operation is one
+ * atomic step, so that hits counted by different processes at once are not lost.
+ */
+export interface LimitStore {
+  get: (key: string) => Promise<LimitEntry | undefined>
+  /** Count a hit; a key that is unset or expired starts over, for ttl ms */
+  increment: (key: string, ttl: number) => Promise<LimitEntry>
+  decrement: (key: string) => Promise<void>
+  /**
+   * Replace the live entry of a key, or delete it when the change gives none, returning the new entry.
+   * The change may run more than once, on a backend that retries when another process got in between.
+   */
+  update: (key: string, change: (entry: LimitEntry | undefined) => LimitEntry | undefined) => Promise<LimitEntry | undefined>
+  delete: (key: string) => Promise<void>
+  /** The live entries whose key starts with a prefix */
+  list: (prefix: string) => Promise<Array<[string, LimitEntry]>>
+}
+
+export interface MemoryLimitStoreOptions {
+  /** How often expired entries are dropped, at most */
+  sweepInterval?: number
+}
+
+export interface FileLimitStoreOptions {
+  /** JSON file the entries are kept in */
+  file: string
+  /** How long a lock may be held before it is taken as left by a process that died, in ms */
+  staleLock?: number
+}
+
+/**
+ * Entries in a map, dropped once expired; for a single server process
+ */
+export class MemoryLimitStore implements LimitStore {
+  protected readonly entries: Map<string, LimitEntry> = new Map()
+  private sweptAt = 0
+
+  constructor(private readonly memoryOptions: MemoryLimitStoreOptions = {}) {}
+
+  async get(key: string): Promise<LimitEntry | undefined> {
+    const entry = this.live(key)
+    return entry && { ...entry }
+  }
+
+  async increment(key: string, ttl: number): Promise<LimitEntry> {
+    let entry = this.live(key)
+    if (!entry) {
+      entry = { count: 0, expiresAt: Date.now() + ttl }
+      this.entries.set(key, entry)
+    }
+    entry.count++
+    this.changed()
+    return { ...entry }
+  }
+
+  async decrement(key: string): Promise<void> {
+    const entry = this.live(key)
+    if (entry && entry.count > 0) {
+      entry.count--
+      this.changed()
+    }
+  }
+
+  async update(key: string, change: (entry: LimitEntry | undefined) => LimitEntry | undefined): Promise<LimitEntry | undefined> {
+    const entry = this.live(key)
+    const next = change(entry && { ...entry })
+    if (next)
+      this.entries.set(key, { ...next })
+    else
+      this.entries.delete(key)
+    if (next || entry)
+      this.changed()
+    return next && { ...next }
+  }
+
+  async delete(key: string): Promise<void> {
+    if (this.entries.delete(key))
+      this.changed()
+  }
+
+  async list(prefix: string): Promise<Array<[string, LimitEntry]>> {
+    this.sweep(true)
+    return [...this.entries.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, entry]) => [key, { ...entry }])
+  }
+
+  /** Called when entries change */
+  protected changed() {}
+
+  private live(key: string): LimitEntry | undefined {
+    this.sweep()
+    const entry = this.entries.get(key)
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      this.changed()
+      return undefined
+    }
+    return entry
+  }
+
+  // Expired entries are dropped as the store is used, so that clients seen once do not stay forever
+  private sweep(force = false) {
+    const now = Date.now()
+    if (!force && now - this.sweptAt < (this.memoryOptions.sweepInterval ?? 60 * 1000))
+      return
+    this.sweptAt = now
+    let dropped = false
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+        dropped = true
+      }
+    }
+    if (dropped)
+      this.changed()
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Entries in a JSON file, so that bans outlive restarts. Every operation reads the file
+ * and writes its change back under a lock file, so server processes on one host can share it.
+ */
+export class FileLimitStore extends MemoryLimitStore {
+  private dirty = false
+  // Content of the lock file while this store holds it
+  private token = ''
+  // Operations of this process run one at a time; the lock file keeps other processes out
+  private pending: Promise<unknown> = Promise.resolve()
+
+  constructor(private readonly options: FileLimitStoreOptions) {
+    // The file is read on every operation, which drops expired entries already
+    super({ sweepInterval: Infinity })
+  }
+
+  async get(key: string) {
+    return this.locked(() => super.get(key))
+  }
+
+  async increment(key: string, ttl: number) {
+    return this.locked(() => super.increment(key, ttl))
+  }
+
+  async decrement(key: string) {
+    return this.locked(() => super.decrement(key))
+  }
+
+  async update(key: string, change: (entry: LimitEntry | undefined) => LimitEntry | undefined) {
+    return this.locked(() => super.update(key, change))
+  }
+
+  async delete(key: string) {
+    return this.locked(() => super.delete(key))
+  }
+
+  async list(prefix: string) {
+    return this.locked(() => super.list(prefix))
+  }
+
+  protected changed() {
+    this.dirty = true
+  }
+
+  private locked<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(async () => {
+      await this.lock()
+      try {
+        this.read()
+        const result = await operation()
+        if (this.dirty)
+          this.write()
+        return result
+      }
+      finally {
+        this.unlock()
+      }
+    })
+    this.pending = run.catch(() => {})
+    return run
+  }
+
+  private async lock() {
+    const lockFile = `${this.options.file}.lock`
+    const token = `${process.pid}:${crypto.randomUUID()}`
+    fs.mkdirSync(path.dirname(lockFile), { recursive: true })
+    for (;;) {
+      try {
+        fs.writeFileSync(lockFile, token, { flag: 'wx' })
+        break
+      }
+      catch (error: any) {
+        if (error?.code !== 'EEXIST')
+          throw error
+      }
+      if (this.takeOver(lockFile, token))
+        break
+      await sleep(5)
+    }
+    this.token = token
+  }
+
+  /**
+   * Take the lock when it is stale, as a process that died holding it leaves it behind.
+   * Processes take locks over one at a time, under a lock of their own, and check again
+   * there that the lock is stale, so that of several processes that found it stale only
+   * the first gets it. It is replaced in one step, so it is never missing for another
+   * process to create.
+   */
+  private takeOver(lockFile: string, token: string): boolean {
+    if (!this.isStale(lockFile))
+      return false
+
+    const guard = `${lockFile}.takeover`
+    try {
+      fs.writeFileSync(guard, token, { flag: 'wx' })
+    }
+    catch (error: any) {
+      if (error?.code !== 'EEXIST')
+        throw error
+      // Held for a few synchronous steps, so it is only stale when its process died in them
+      if (this.isStale(guard))
+        fs.rmSync(guard, { force: true })
+      return false
+    }
+
+    try {
+      if (!this.isStale(lockFile))
+        return false
+      const tmp = `${lockFile}.${process.pid}.tmp`
+      fs.writeFileSync(tmp, token)
+      fs.renameSync(tmp, lockFile)
+      return true
+    }
+    finally {
+      fs.rmSync(guard, { force: true })
+    }
+  }
+
+  private isStale(file: string): boolean {
+    try {
+      return Date.now() - fs.statSync(file).mtimeMs > (this.options.staleLock ?? 5000)
+    }
+    catch {
+      // Released in the meantime
+      return false
+    }
+  }
+
+  // A lock held for so long that another process took it over is theirs now
+  private unlock() {
+    const lockFile = `${this.options.file}.lock`
+    try {
+      if (fs.readFileSync(lockFile, 'utf8') === this.token)
+        fs.rmSync(lockFile, { force: true })
+    }
+    catch {
+      // Taken over and released already
+    }
+  }
+
+  private read() {
+    this.entries.clear()
+    this.dirty = false
+    const { file } = this.options
+    if (!fs.existsSync(file))
+      return
+    const saved: Record<string, LimitEntry> = JSON.parse(fs.readFileSync(file, 'utf8'))
+    const now = Date.now()
+    for (const [key, entry] of Object.entries(saved)) {
+      if (entry.expiresAt > now)
+        this.entries.set(key, entry)
+    }
+  }
+
+  private write() {
+    const { file } = this.options
+    // Written aside and renamed, so a crash never leaves half a file
+    const tmp = `${file}.${process.pid}.tmp`
+    fs.writeFileSync(tmp, JSON.stringify(Object.fromEntries(this.entries)))
+    fs.renameSync(tmp, file)
+    this.dirty = false
+  }
+}
+
+/**
+ * A store for express-rate-limit, counting in a limit store
+ */
+export class RateLimitStore implements Store {
+  private windowMs = 60 * 1000
+
+  // Limiters sharing a store count under prefixes of their own
+  constructor(private readonly store: LimitStore, readonly prefix = 'rate:') {}
+
+  init(options: Options) {
+    this.windowMs = options.windowMs
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const entry = await this.store.get(this.prefix + key)
+    return entry && { totalHits: entry.count, resetTime: new Date(entry.expiresAt) }
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const entry = await this.store.increment(this.prefix + key, this.windowMs)
+    return { totalHits: entry.count, resetTime: new Date(entry.expiresAt) }
+  }
+
+  async decrement(key: string) {
+    await this.store.decrement(this.prefix + key)
+  }
+
+  async resetKey(key: string) {
+    await this.store.delete(this.prefix + key)
+  }
+}
+
+/**
+ * The store LIMIT_STORE names: memory, or file with LIMIT_STORE_FILE
+ */
+export const createLimitStore = (): LimitStore => {
+  if (process.env.LIMIT_STORE === 'file')
+    return new FileLimitStore({ file: process.env.LIMIT_STORE_FILE || 'data/limits.json' })
+  return new MemoryLimitStore()
+}
+
+export const limitStore = createLimitStore()
@@ -3,12 +3,23 @@ import { Request, Response, NextFunction } from 'express';
 import FormData from 'form-data';
 import fetch from 'node-fetch';
 import md5 from 'md5';
+import { AccountError, accountStore } from '../accounts/store'
+import type { AccountStore, AuthUser, Scope } from '../accounts/store'
+import { lockout } from '../limits/lockout'
+import { clientIp } from '../limits/ip'
+import { NO_ACCESS, isAuthEnabled, resolveToken } from './token'
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** The user the request is authenticated as; unset when authentication is off */
+      user?: AuthUser
+    }
+  }
+}
 
-// 存储IP地址和错误计数的字典
-const ipErrorCount = {};
-
-// 存储被禁止登录的IP地址及禁止结束时间的字典
-const bannedIPs = {};
+/** The scope a route family needs, or one read from the request; none needs only a valid token */
+export type RouteScope = Scope | ((req: Request) => Scope | undefined)
 
 export const mlog =(...arg)=>{
   //const M_DEBUG = process.env.M_DEBUG
@@ -25,15 +36,19 @@ export const mlog =(...arg)=>{
 
 export const verify=  async ( req :Request , res:Response ) => {
   try {
-    checkLimit( req, res );
+    await checkLimit( req, res );
     const { token } = req.body as { token: string }
     if (!token)
       throw new Error('Secret key is empty')
     
-    const auth_secret_keys = process.env.AUTH_SECRET_KEY? process.env.AUTH_SECRET_KEY.trim().split(',').filter(item => item !== ''):[];
-    if (!auth_secret_keys.includes(token))
-      throw new Error('密钥无效 | Secret key is invalid')
-    clearLimit( req, res);
+    try {
+      resolveToken(token)
+    }
+    catch (error) {
+      // Revoked and expired tokens say so
+      throw new Error(error.message === NO_ACCESS ? '密钥无效 | Secret key is invalid' : error.message)
+    }
+    await clearLimit( req, res);
     res.send({ status: 'Success', message: 'Verify successfully', data: null })
   }
   catch (error) {
@@ -44,17 +59,11 @@ export const verify=  async ( req :Request , res:Response ) => {
 export const auth = async ( req :Request , res:Response , next:NextFunction ) => {
   
 
-  const AUTH_SECRET_KEY = process.env.AUTH_SECRET_KEY
-  if (isNotEmptyString(AUTH_SECRET_KEY)) {
+  if (isAuthEnabled()) {
     try {
-      checkLimit( req, res );
-      const Authorization = req.header('Authorization')
-      //const auth_secret_keys = process.env.AUTH_SECRET_KEY.trim().split(',').filter(item => item !== '');
-      const auth_secret_keys = process.env.AUTH_SECRET_KEY? process.env.AUTH_SECRET_KEY.trim().split(',').filter(item => item !== ''):[];
-      if (!Authorization || !auth_secret_keys.includes(Authorization.replace('Bearer ', '').trim()))
-        throw new Error('Error: 无访问权限 | No access rights')
-      
-      clearLimit( req, res);
+      await checkLimit( req, res );
+      req.user = resolveToken(req.header('Authorization'))
+      await clearLimit( req, res);
       next()
     }
     catch (error) {
@@ -66,68 +75,55 @@ export const auth = async ( req :Request , res:Response , next:NextFunction ) =>
   }
 }
 
+// The client address as the trusted proxies give it, which a forged x-forwarded-for does not change
 const getIp= ( req :Request)=>{
-  if (req.header && req.header('x-forwarded-for')) return req.header('x-forwarded-for');
-  return  req.ip;
+  return clientIp(req);
 }
-const checkLimit=  ( req :Request , res:Response )=>{
-  if ( !isNotEmptyString( process.env.AUTH_SECRET_ERROR_COUNT )) {
-    return ;
-  }
-  
-  const bTime = process.env.AUTH_SECRET_ERROR_TIME??10;
-  // 允许的最大错误次数
-  const maxErrorCount =  +process.env.AUTH_SECRET_ERROR_COUNT;
-  // 禁止登录的时间（毫秒）
-  let banTime = (+bTime) * 60*1000; // 10分钟
-  if( banTime<=0 ) banTime= 10*60*1000;
-
-  const ipAddress =getIp(req);
-
-   if (bannedIPs[ipAddress] && Date.now() < bannedIPs[ipAddress]) {
-    const timeLeft = Math.ceil((bannedIPs[ipAddress] - Date.now()) / 1000);
-    console.log("myIP ",ipAddress,  ipErrorCount[ipAddress]  );
-    //return res.status(403).send(`IP地址被禁止登录，剩余时间: ${timeLeft}秒`);
-     let ts = timeLeft>60? (timeLeft/60).toFixed(0)+'分钟':  timeLeft+'秒'
-     throw new Error(`Error: ${ipAddress} 验证次数过多，请在${ts}后重试！`)
-  }
-  ipErrorCount[ipAddress] = ipErrorCount[ipAddress]?(  ipErrorCount[ipAddress]+1) : 1;
-  if (ipErrorCount[ipAddress] >= maxErrorCount) {
-      bannedIPs[ipAddress] = Date.now() + banTime;
-  } 
+// 验证次数过多的 IP 会被禁止一段时间 | Addresses failing too often are banned for a while
+const checkLimit= async ( req :Request , res:Response )=>{
+  await lockout.attempt(getIp(req));
 }
-const clearLimit=  ( req :Request , res:Response )=>{
-  const ipAddress =getIp(req);
-  bannedIPs[ipAddress] = 0;
-  ipErrorCount[ipAddress]= 0;
+const clearLimit= async ( req :Request , res:Response )=>{
+  await lockout.succeed(getIp(req));
 }
 
-export const authV2 = async ( req :Request , res:Response , next:NextFunction ) => {
-  
-  const AUTH_SECRET_KEY = process.env.AUTH_SECRET_KEY
-  //const auth_secret_keys = AUTH_SECRET_KEY.trim().split(',').filter(item => item !== '');
-  const auth_secret_keys = process.env.AUTH_SECRET_KEY? process.env.AUTH_SECRET_KEY.trim().split(',').filter(item => item !== ''):[];
-  if (isNotEmptyString(AUTH_SECRET_KEY)) {
-    try {
-
-      checkLimit( req, res );
-      const Authorization = req.header('X-Ptoken')
-      if ( !Authorization || !auth_secret_keys.includes(Authorization.trim()))
-        throw new Error('Error: 无访问权限 | No access rights')
-      clearLimit( req, res);
-      next()
-       //throw new Error('Error: 无访问权限 | No access rights')
-    }
-    catch (error) { 
-      res.status(423);
-      res.send({ code: 'token_check', message: error.message ?? 'Please authenticate.', data: null })
+/**
+ * Authenticate the X-Ptoken of a request and check the scope of its route family
+ */
+export const authorize = (scope?: RouteScope, store: AccountStore = accountStore) => async ( req :Request , res:Response , next:NextFunction ) => {
+  const needed = typeof scope === 'function' ? scope(req) : scope
+  if (!isAuthEnabled(store)) {
+    // Accounts are only managed with a secret or a token
+    if (needed === 'admin') {
+      res.status(403).send({ code: 'token_scope', message: 'Error: 请先设置 ADMIN_SECRET_KEY | Set ADMIN_SECRET_KEY to manage accounts', data: null })
+      return
     }
+    next()
+    return
   }
-  else {
+
+  try {
+    await checkLimit( req, res );
+    const user = resolveToken(req.header('X-Ptoken'), store)
+    await clearLimit( req, res);
+    req.user = user
+    if (needed && !user.scopes.includes(needed))
+      throw new AccountError(`Error: 无访问权限 | No access to ${needed}`, 403)
     next()
   }
+  catch (error) {
+    if (error instanceof AccountError && error.status === 403) {
+      res.status(403);
+      res.send({ code: 'token_scope', message: error.message, data: null })
+      return
+    }
+    res.status(423);
+    res.send({ code: 'token_check', message: error.message ?? 'Please authenticate.', data: null })
+  }
 }
 
+export const authV2 = authorize()
+
 export const turnstileCheck= async ( req :Request , res:Response , next:NextFunction ) => {
 
    const TURNSTILE_SITE = process.env.TURNSTILE_SITE
@@ -1,5 +1,6 @@
 import { rateLimit } from 'express-rate-limit'
 import { isNotEmptyString } from '../utils/is'
+import { RateLimitStore, limitStore } from '../limits/store'
 
 const MAX_REQUEST_PER_HOUR = process.env.MAX_REQUEST_PER_HOUR
 
@@ -10,6 +11,7 @@ const maxCount = (isNotEmptyString(MAX_REQUEST_PER_HOUR) && !isNaN(Number(MAX_RE
 const limiter = rateLimit({
   windowMs: 60 * 60 * 1000, // Maximum number of accesses within an hour
   max: maxCount,
+  store: new RateLimitStore(limitStore), // Counted with the login lockout, in the store LIMIT_STORE names
   statusCode: 200, // 200 means success，but the message is 'Too many request from this IP in 1 hour'
   message: async (req, res) => {
     res.send({ status: 'Fail', message: 'Too many request from this IP in 1 hour', data: null })
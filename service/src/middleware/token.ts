@@ -0,0 +1,44 @@
+import { AccountError, DEFAULT_SCOPES, SCOPES, accountStore } from '../accounts/store'
+import type { AccountStore, AuthUser } from '../accounts/store'
+
+export const NO_ACCESS = 'Error: 无访问权限 | No access rights'
+
+const secrets = (value?: string): string[] => value ? value.trim().split(',').filter(item => item !== '') : []
+
+// The shared AUTH_SECRET_KEY secrets reach every route family; ADMIN_SECRET_KEY secrets also manage accounts
+const SHARED_USER: AuthUser = { id: 'shared', name: 'shared', scopes: DEFAULT_SCOPES }
+const ADMIN_USER: AuthUser = { id: 'admin', name: 'admin', scopes: [...SCOPES] }
+
+// Authentication is on once a secret is set or a token is issued
+export const isAuthEnabled = (store: AccountStore = accountStore): boolean => {
+  return secrets(process.env.AUTH_SECRET_KEY).length > 0 || secrets(process.env.ADMIN_SECRET_KEY).length > 0 || store.hasActiveTokens()
+}
+
+// The user of a token, with or without its Bearer prefix: an issued token, or one of the secrets
+export const resolveToken = (token?: string, store: AccountStore = accountStore): AuthUser => {
+  const value = token?.replace('Bearer ', '').trim()
+  if (!value)
+    throw new AccountError(NO_ACCESS, 401)
+
+  const user = store.authenticate(value)
+  if (user)
+    return user
+  if (secrets(process.env.ADMIN_SECRET_KEY).includes(value))
+    return { ...ADMIN_USER, scopes: [...ADMIN_USER.scopes] }
+  if (secrets(process.env.AUTH_SECRET_KEY).includes(value))
+    return { ...SHARED_USER, scopes: [...SHARED_USER.scopes] }
+  throw new AccountError(NO_ACCESS, 401)
+}
+
+// Whether a token may use the server; any token passes when authentication is off
+export const isAuthorizedToken = (token?: string, store: AccountStore = accountStore): boolean => {
+  if (!isAuthEnabled(store))
+    return true
+  try {
+    resolveToken(token, store)
+    return true
+  }
+  catch {
+    return false
+  }
+}
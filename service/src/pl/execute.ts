@@ -0,0 +1,179 @@
+/**
+ * PL Execution
+ * Runs one program for the /execute routes. Runs happen in worker threads,
+ * which are terminated when a run overruns its timeout.
+ */
+
+import path from 'path'
+import { createRequire } from 'module'
+import { Worker } from 'worker_threads'
+import type { PLExecutionResponse } from '../../../src/pl/protocol'
+import type { ExecutionBackend } from '../../../src/pl/compiler/compiler'
+import { Interpreter } from '../../../src/pl/interpreter/interpreter'
+import { Lexer } from '../../../src/pl/parser/lexer'
+import { Parser, hasTopLevelAwait } from '../../../src/pl/parser/parser'
+import type { ProgramNode } from '../../../src/pl/parser/parser'
+import { LimitExceededError, PLExecutor, RuntimeError, SecurityError } from '../../../src/pl/executor/PLExecutor'
+import { envNumber } from '../utils'
+
+const MAX_MEMORY = envNumber(process.env.PL_MAX_MEMORY, 64 * 1024 * 1024)
+export const MAX_OUTPUT_LENGTH = envNumber(process.env.PL_MAX_OUTPUT_LENGTH, 100000)
+export const MAX_CALL_DEPTH = envNumber(process.env.PL_MAX_CALL_DEPTH, 1000)
+export const MAX_INSTRUCTIONS = envNumber(process.env.PL_MAX_INSTRUCTIONS, 10000000)
+
+// Time a worker gets past the timeout of its run before it is terminated
+const WORKER_GRACE = envNumber(process.env.PL_WORKER_GRACE, 1000)
+
+export interface ExecutionTask {
+  code: string
+  timeout: number
+  context: Record<string, any>
+  backend: ExecutionBackend
+  /** Allow await at the top level, interpreter backend only */
+  topLevelAwait?: boolean
+}
+
+export interface ExecutionOutcome {
+  status: number
+  body: PLExecutionResponse
+}
+
+const errorStatus = (error: any): number => {
+  if (error instanceof LimitExceededError && error.limit === 'timeout')
+    return 408
+  return 400
+}
+
+export const errorMessage = (error: any): string => {
+  if (error instanceof LimitExceededError && error.limit === 'timeout')
+    return `TimeoutError: ${error.message}`
+  if (error instanceof SecurityError)
+    return `SecurityError: ${error.message}`
+  return error?.message ?? String(error)
+}
+
+interface Runner {
+  run: (program: ProgramNode) => Promise<void>
+  output: () => string
+}
+
+/**
+ * The transpiler backend runs in the sandboxed executor, the interpreter
+ * backend walks the AST with an instruction budget. Both wait for the async
+ * calls of the program, so that their failures are reported with the request.
+ * Output of print/println is captured instead of going to the server console.
+ */
+const createRunner = ({ backend, timeout, context, topLevelAwait }: ExecutionTask): Runner => {
+  if (backend === 'interpreter') {
+    let output = ''
+    const interpreter = new Interpreter({
+      timeout,
+      maxCallDepth: MAX_CALL_DEPTH,
+      maxInstructions: MAX_INSTRUCTIONS,
+      globals: context,
+      output: (text) => {
+        output = (output + text).slice(0, MAX_OUTPUT_LENGTH)
+      },
+    })
+    const run = async (program: ProgramNode) => {
+      if (!topLevelAwait && hasTopLevelAwait(program))
+        throw new RuntimeError('Top-level await is only supported by /execute/async')
+      await interpreter.executeAsync(program)
+    }
+    return { run, output: () => output }
+  }
+
+  const executor = new PLExecutor({
+    timeout,
+    memoryLimit: MAX_MEMORY,
+    maxOutputLength: MAX_OUTPUT_LENGTH,
+    maxCallDepth: MAX_CALL_DEPTH,
+    globals: context,
+  })
+  const run = async (program: ProgramNode) => {
+    await executor.executeAsync(program)
+  }
+  return { run, output: () => executor.state.output }
+}
+
+const response = (errors: string[], output: string, startTime: number): PLExecutionResponse => ({
+  success: errors.length === 0,
+  output,
+  errors,
+  error: errors[0],
+  executionTime: performance.now() - startTime,
+})
+
+/**
+ * Run a task on the current thread
+ */
+export const executeCode = async (task: ExecutionTask): Promise<ExecutionOutcome> => {
+  const startTime = performance.now()
+  const runner = createRunner(task)
+  const respond = (status: number, errors: string[]): ExecutionOutcome => ({
+    status,
+    body: response(errors, runner.output(), startTime),
+  })
+
+  let program: ProgramNode
+  try {
+    program = new Parser(new Lexer(task.code).tokenize()).parse()
+  }
+  catch (error) {
+    return respond(400, [`SyntaxError: ${error?.message ?? String(error)}`])
+  }
+
+  try {
+    await runner.run(program)
+    return respond(200, [])
+  }
+  catch (error) {
+    return respond(errorStatus(error), [errorMessage(error)])
+  }
+}
+
+/**
+ * Start the worker script. Built, it is bundled next to index.mjs; from
+ * source it is TypeScript, loaded through tsx as esno loads the service.
+ */
+const startWorker = (): Worker => {
+  if (!__filename.endsWith('.ts'))
+    return new Worker(path.join(__dirname, 'pl-worker.mjs'))
+
+  const load = createRequire(__filename)
+  const script = `require(${JSON.stringify(load.resolve('tsx/cjs'))})\nrequire(${JSON.stringify(path.join(__dirname, 'worker.ts'))})`
+  return new Worker(script, { eval: true })
+}
+
+/**
+ * Run a task in a worker thread of its own, which is terminated when it has
+ * not answered within the limit, e.g. when it blocks in host code the guards
+ * of the backends cannot interrupt
+ */
+export const executeInWorker = (task: ExecutionTask, limit = task.timeout + WORKER_GRACE): Promise<ExecutionOutcome> => {
+  const startTime = performance.now()
+  const worker = startWorker()
+
+  return new Promise((resolve) => {
+    let timer: NodeJS.Timeout | undefined
+    const finish = (outcome: ExecutionOutcome) => {
+      clearTimeout(timer)
+      worker.removeAllListeners()
+      worker.on('error', () => {})
+      worker.terminate()
+      resolve(outcome)
+    }
+    const fail = (status: number, error: string) => finish({ status, body: response([error], '', startTime) })
+
+    // Loading the worker does not count towards the timeout
+    worker.once('message', (message) => {
+      if (message !== 'ready')
+        return
+      worker.on('message', finish)
+      worker.postMessage(task)
+      timer = setTimeout(() => fail(408, `TimeoutError: Execution timed out after ${task.timeout}ms`), limit)
+    })
+    worker.on('error', error => fail(500, errorMessage(error)))
+    worker.on('exit', code => fail(500, `Execution worker exited with code ${code}`))
+  })
+}
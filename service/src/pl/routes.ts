@@ -0,0 +1,240 @@
+/**
+ * PL Language API
+ * Express routes backing the PLAPI client in src/api/pl.ts
+ */
+
+import fs from 'fs'
+import path from 'path'
+import express from 'express'
+import type { Request, Response } from 'express'
+import { rateLimit } from 'express-rate-limit'
+import type { PLFormatResponse, PLValidationResponse } from '../../../src/pl/protocol'
+import { PLCompiler } from '../../../src/pl/compiler/compiler'
+import type { ExecutionBackend } from '../../../src/pl/compiler/compiler'
+import { Formatter } from '../../../src/pl/formatter/formatter'
+import type { BraceStyle, FormatOptions } from '../../../src/pl/formatter/formatter'
+import { KEYWORDS } from '../../../src/pl/parser/lexer'
+import { ParseError } from '../../../src/pl/parser/diagnostics'
+import { BUILTIN_DOCS } from '../../../src/pl/runtime/runtime'
+import { VERSION } from '../../../src/pl'
+import { envNumber } from '../utils'
+import { RateLimitStore, limitStore } from '../limits/store'
+import { executeInWorker } from './execute'
+
+// Upper bounds for a single request
+export const MAX_CODE_LENGTH = envNumber(process.env.PL_MAX_CODE_LENGTH, 100 * 1024)
+export const MAX_TIMEOUT = envNumber(process.env.PL_MAX_TIMEOUT, 5000)
+export const MAX_REQUEST_PER_MINUTE = envNumber(process.env.PL_MAX_REQUEST_PER_MINUTE, 60)
+
+const EXAMPLES_DIR = process.env.PL_EXAMPLES_DIR ?? '../src/pl/examples'
+
+const compiler = new PLCompiler()
+
+export class PLRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'PLRequestError'
+  }
+}
+
+export const readCode = (source: any): string => {
+  if (typeof source !== 'string' || source.trim().length === 0)
+    throw new PLRequestError('Field "code" must be a non-empty string', 400)
+
+  if (source.length > MAX_CODE_LENGTH)
+    throw new PLRequestError(`Code exceeds the maximum length of ${MAX_CODE_LENGTH} characters`, 413)
+
+  return source
+}
+
+export const readTimeout = (timeout: any): number => {
+  const value = Number(timeout)
+  if (!timeout || isNaN(value) || value <= 0)
+    return MAX_TIMEOUT
+  return Math.min(value, MAX_TIMEOUT)
+}
+
+const sendError = (res: Response, error: any) => {
+  const status = error instanceof PLRequestError ? error.status : 500
+  res.status(status).json({ success: false, error: error?.message ?? String(error) })
+}
+
+const readBackend = (backend: any): ExecutionBackend => {
+  if (backend === undefined || backend === null)
+    return 'transpiler'
+  if (backend !== 'transpiler' && backend !== 'interpreter')
+    throw new PLRequestError('Field "backend" must be "transpiler" or "interpreter"', 400)
+  return backend
+}
+
+// Only the interpreter runs programs that await at the top level
+const readAsyncBackend = (backend: any): ExecutionBackend => {
+  if (backend !== undefined && backend !== null && backend !== 'interpreter')
+    throw new PLRequestError('Field "backend" must be "interpreter" for async executions', 400)
+  return 'interpreter'
+}
+
+export const readContext = (context: any): Record<string, any> => {
+  if (context === undefined || context === null)
+    return {}
+  if (typeof context !== 'object' || Array.isArray(context))
+    throw new PLRequestError('Field "context" must be an object', 400)
+  return context
+}
+
+const readGlobals = (globals: any): string[] => {
+  if (globals === undefined || globals === null)
+    return []
+  if (!Array.isArray(globals) || globals.some(name => typeof name !== 'string'))
+    throw new PLRequestError('Field "globals" must be an array of names', 400)
+  return globals
+}
+
+const handleExecute = (topLevelAwait: boolean) => async (req: Request, res: Response) => {
+  try {
+    const { status, body } = await executeInWorker({
+      code: readCode(req.body?.code),
+      timeout: readTimeout(req.body?.timeout),
+      context: readContext(req.body?.context),
+      backend: topLevelAwait ? readAsyncBackend(req.body?.backend) : readBackend(req.body?.backend),
+      topLevelAwait,
+    })
+    res.status(status).json(body)
+  }
+  catch (error) {
+    sendError(res, error)
+  }
+}
+
+const handleValidate = (source: any, globals: any, res: Response) => {
+  try {
+    const code = readCode(source)
+    const result = compiler.compile(code, { runtime: false, globals: readGlobals(globals) })
+    const response: PLValidationResponse = {
+      valid: result.errors.length === 0,
+      errors: result.errors,
+      warnings: result.warnings,
+      diagnostics: result.diagnostics,
+    }
+    res.json(response)
+  }
+  catch (error) {
+    sendError(res, error)
+  }
+}
+
+const BRACE_STYLES: BraceStyle[] = ['1tbs', 'stroustrup', 'allman']
+
+const readFormatOptions = (options: any): FormatOptions => {
+  if (options === undefined || options === null)
+    return {}
+  if (typeof options !== 'object' || Array.isArray(options))
+    throw new PLRequestError('Field "options" must be an object', 400)
+
+  const { indentSize, useTabs, braceStyle, lineWidth } = options
+  if (indentSize !== undefined && !(Number.isInteger(indentSize) && indentSize >= 0 && indentSize <= 16))
+    throw new PLRequestError('Option "indentSize" must be an integer between 0 and 16', 400)
+  if (useTabs !== undefined && typeof useTabs !== 'boolean')
+    throw new PLRequestError('Option "useTabs" must be a boolean', 400)
+  if (braceStyle !== undefined && !BRACE_STYLES.includes(braceStyle))
+    throw new PLRequestError(`Option "braceStyle" must be one of ${BRACE_STYLES.join(', ')}`, 400)
+  if (lineWidth !== undefined && !(Number.isInteger(lineWidth) && lineWidth > 0))
+    throw new PLRequestError('Option "lineWidth" must be a positive integer', 400)
+
+  return { indentSize, useTabs, braceStyle, lineWidth }
+}
+
+const formatCode = (code: string, options: FormatOptions): PLFormatResponse => {
+  try {
+    return { formatted: new Formatter(options).format(code), errors: [] }
+  }
+  catch (error) {
+    // Code that does not parse is returned unchanged
+    if (error instanceof ParseError)
+      return { formatted: code, errors: [error.message] }
+    throw error
+  }
+}
+
+const readExamples = (): Array<{ name: string; description: string; code: string }> => {
+  if (!fs.existsSync(EXAMPLES_DIR))
+    return []
+
+  return fs.readdirSync(EXAMPLES_DIR)
+    .filter(file => file.endsWith('.pl'))
+    .sort()
+    .map((file) => {
+      const code = fs.readFileSync(path.join(EXAMPLES_DIR, file), 'utf8')
+      // The leading comment block describes the example
+      const lines = code.split('\n')
+      const headerEnd = lines.findIndex(line => !line.startsWith('//'))
+      const header = lines.slice(0, headerEnd === -1 ? lines.length : headerEnd)
+        .map(line => line.replace(/^\/\/\s*/, ''))
+      return {
+        name: path.basename(file, '.pl'),
+        description: header[1] ?? header[0] ?? '',
+        code,
+      }
+    })
+}
+
+const executionLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: MAX_REQUEST_PER_MINUTE,
+  store: new RateLimitStore(limitStore, 'rate:pl:'),
+  statusCode: 429,
+  message: async (req, res) => {
+    res.json({ success: false, error: 'Too many PL executions, please try again later' })
+  },
+})
+
+const PLAPIRoutes = express.Router()
+
+PLAPIRoutes.post('/execute', executionLimiter, handleExecute(false))
+PLAPIRoutes.post('/execute/async', executionLimiter, handleExecute(true))
+
+PLAPIRoutes.post('/compile', (req, res) => {
+  try {
+    const code = readCode(req.body?.code)
+    res.json(compiler.compile(code, req.body?.options ?? {}))
+  }
+  catch (error) {
+    sendError(res, error)
+  }
+})
+
+PLAPIRoutes.get('/validate', (req, res) => handleValidate(req.query.code, undefined, res))
+PLAPIRoutes.post('/validate', (req, res) => handleValidate(req.body?.code, req.body?.globals, res))
+
+PLAPIRoutes.post('/format', (req, res) => {
+  try {
+    const code = readCode(req.body?.code)
+    res.json(formatCode(code, readFormatOptions(req.body?.options)))
+  }
+  catch (error) {
+    sendError(res, error)
+  }
+})
+
+PLAPIRoutes.get('/examples', (req, res) => {
+  try {
+    res.json(readExamples())
+  }
+  catch (error) {
+    sendError(res, error)
+  }
+})
+
+PLAPIRoutes.get('/docs', (req, res) => {
+  res.json({
+    version: VERSION,
+    syntax: {
+      keywords: Array.from(KEYWORDS.keys()),
+      comments: '//',
+      statementTerminators: ['newline', ';'],
+    },
+    builtinFunctions: BUILTIN_DOCS,
+  })
+})
+
+export { PLAPIRoutes }
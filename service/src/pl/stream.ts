@@ -0,0 +1,242 @@
+/**
+ * PL Execution Stream
+ * WebSocket endpoint that runs PL code and sends its output while it runs.
+ * The protocol is described by PLStreamRequest and PLStreamMessage in src/pl/protocol.ts.
+ */
+
+import type { IncomingMessage, Server } from 'http'
+import type { Duplex } from 'stream'
+import express from 'express'
+import type { Application } from 'express'
+import { WebSocket, WebSocketServer } from 'ws'
+import type { PLStreamMessage } from '../../../src/pl/protocol'
+import { Interpreter } from '../../../src/pl/interpreter/interpreter'
+import { Lexer } from '../../../src/pl/parser/lexer'
+import { Parser } from '../../../src/pl/parser/parser'
+import type { ProgramNode } from '../../../src/pl/parser/parser'
+import { CancellationError, PLRuntime } from '../../../src/pl/runtime/runtime'
+import { isAuthEnabled, resolveToken } from '../middleware/token'
+import { trustProxy, upgradeIp } from '../limits/ip'
+import { LockoutError, lockout } from '../limits/lockout'
+import type { Lockout } from '../limits/lockout'
+import { AccountError } from '../accounts/store'
+import { MAX_CALL_DEPTH, MAX_INSTRUCTIONS, MAX_OUTPUT_LENGTH, errorMessage } from './execute'
+import {
+  MAX_REQUEST_PER_MINUTE,
+  PLRequestError,
+  readCode,
+  readContext,
+  readTimeout,
+} from './routes'
+
+// Paths of the endpoint, with and without the /api prefix the router is also mounted under
+export const PL_STREAM_PATHS = ['/api/pl/stream', '/pl/stream']
+
+// Output is sent at most this often, so chatty scripts do not send a message per line
+const FLUSH_INTERVAL = 20
+
+const runtime = new PLRuntime()
+
+/**
+ * A value as JSON, or as PL prints it when it has no JSON form
+ */
+const toJSONValue = (value: any): any => {
+  if (value === undefined)
+    return null
+  try {
+    return JSON.parse(JSON.stringify(value)) ?? null
+  }
+  catch {
+    return runtime.stringify(value)
+  }
+}
+
+/**
+ * One connection: at most one run at a time, cancelled when the socket closes
+ * or fails, e.g. on a malformed frame
+ */
+class PLStreamSession {
+  private interpreter: Interpreter | null = null
+  private readonly started: number[] = []
+
+  constructor(private readonly socket: WebSocket) {
+    socket.on('message', data => this.receive(String(data)))
+    socket.on('close', () => this.interpreter?.cancel())
+    socket.on('error', () => {
+      this.interpreter?.cancel()
+      socket.close()
+    })
+  }
+
+  private send(message: PLStreamMessage) {
+    if (this.socket.readyState === WebSocket.OPEN)
+      this.socket.send(JSON.stringify(message))
+  }
+
+  private receive(data: string) {
+    let request: any
+    try {
+      request = JSON.parse(data)
+    }
+    catch {
+      this.send({ type: 'error', data: 'Messages must be JSON' })
+      return
+    }
+
+    switch (request?.type) {
+      case 'execute':
+        this.execute(request)
+        break
+      case 'cancel':
+        this.interpreter?.cancel()
+        break
+      case 'close':
+        this.interpreter?.cancel()
+        this.socket.close(1000)
+        break
+      default:
+        this.send({ type: 'error', id: request?.id, data: `Unknown message type "${request?.type}"` })
+    }
+  }
+
+  private async execute(request: any) {
+    const id = typeof request.id === 'string' ? request.id : undefined
+    if (this.interpreter) {
+      this.send({ type: 'error', id, data: 'A run is already in progress' })
+      return
+    }
+
+    const now = Date.now()
+    while (this.started.length > 0 && now - this.started[0] > 60 * 1000)
+      this.started.shift()
+    if (this.started.length >= MAX_REQUEST_PER_MINUTE) {
+      this.send({ type: 'error', id, data: 'Too many PL executions, please try again later' })
+      return
+    }
+
+    let code: string
+    let timeout: number
+    let context: Record<string, any>
+    try {
+      code = readCode(request.code)
+      timeout = readTimeout(request.timeout)
+      context = readContext(request.context)
+    }
+    catch (error) {
+      this.send({ type: 'error', id, data: error instanceof PLRequestError ? error.message : String(error) })
+      return
+    }
+
+    let program: ProgramNode
+    try {
+      program = new Parser(new Lexer(code).tokenize()).parse()
+    }
+    catch (error) {
+      this.send({ type: 'error', id, data: `SyntaxError: ${error?.message ?? String(error)}` })
+      this.send({ type: 'done', id, success: false, executionTime: 0, truncated: false })
+      return
+    }
+
+    this.started.push(now)
+    const startTime = performance.now()
+    let written = 0
+    let pending = ''
+    let timer: NodeJS.Timeout | undefined
+
+    const flush = () => {
+      timer = undefined
+      if (pending) {
+        this.send({ type: 'stdout', id, data: pending })
+        pending = ''
+      }
+    }
+
+    const interpreter = new Interpreter({
+      timeout,
+      maxCallDepth: MAX_CALL_DEPTH,
+      maxInstructions: MAX_INSTRUCTIONS,
+      globals: context,
+      output: (text) => {
+        const room = MAX_OUTPUT_LENGTH - written
+        if (room <= 0)
+          return
+        pending += text.slice(0, room)
+        written += Math.min(text.length, room)
+        timer ??= setTimeout(flush, FLUSH_INTERVAL)
+      },
+    })
+    this.interpreter = interpreter
+
+    let success = true
+    try {
+      const value = await interpreter.executeAsync(program)
+      clearTimeout(timer)
+      flush()
+      this.send({ type: 'result', id, data: toJSONValue(value) })
+    }
+    catch (error) {
+      success = false
+      clearTimeout(timer)
+      flush()
+      this.send({ type: 'error', id, data: error instanceof CancellationError ? 'Execution cancelled' : errorMessage(error) })
+    }
+    finally {
+      this.interpreter = null
+    }
+
+    this.send({ type: 'done', id, success, executionTime: performance.now() - startTime, truncated: written >= MAX_OUTPUT_LENGTH })
+  }
+}
+
+/**
+ * Token of a connection: the Authorization header, or the token query parameter,
+ * since browsers cannot set headers on WebSocket connections
+ */
+const requestToken = (request: IncomingMessage, url: URL): string | undefined => {
+  return request.headers.authorization ?? url.searchParams.get('token') ?? undefined
+}
+
+/**
+ * Serve the stream endpoint on an HTTP server, next to the Express routes of the app,
+ * whose trusted proxies give the client address the login lockout counts
+ */
+export const attachPLStream = (server: Server, app: Application = express().set('trust proxy', trustProxy()), bans: Lockout = lockout): WebSocketServer => {
+  const sockets = new WebSocketServer({ noServer: true })
+  sockets.on('connection', socket => new PLStreamSession(socket))
+
+  server.on('upgrade', async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    if (!PL_STREAM_PATHS.includes(url.pathname))
+      return
+
+    // The client may drop the connection while its token is checked
+    const drop = () => socket.destroy()
+    socket.on('error', drop)
+
+    // Tokens are checked as by the auth middleware: banned addresses are refused, and failures count towards a ban
+    if (isAuthEnabled()) {
+      const ip = upgradeIp(request, app)
+      try {
+        await bans.attempt(ip)
+        const user = resolveToken(requestToken(request, url))
+        await bans.succeed(ip)
+        // Runs need the chat scope, as on the PL routes
+        if (!user.scopes.includes('chat'))
+          throw new AccountError('Error: 无访问权限 | No access to chat', 403)
+      }
+      catch (error) {
+        const status = error instanceof LockoutError
+          ? '429 Too Many Requests'
+          : (error instanceof AccountError ? (error.status === 403 ? '403 Forbidden' : '401 Unauthorized') : '500 Internal Server Error')
+        socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`)
+        return
+      }
+    }
+    socket.off('error', drop)
+    if (socket.destroyed)
+      return
+    sockets.handleUpgrade(request, socket, head, ws => sockets.emit('connection', ws, request))
+  })
+
+  return sockets
+}
@@ -0,0 +1,13 @@
+/**
+ * PL Execution Worker
+ * Runs the task it is sent and posts back the outcome; started by executeInWorker
+ */
+
+import { parentPort } from 'worker_threads'
+import { executeCode } from './execute'
+import type { ExecutionTask } from './execute'
+
+parentPort.once('message', async (task: ExecutionTask) => {
+  parentPort.postMessage(await executeCode(task))
+})
+parentPort.postMessage('ready')
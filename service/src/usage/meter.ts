@@ -0,0 +1,144 @@
+/**
+ * Usage Metering
+ * Middleware counting each request against its user and provider, and refusing users over their quota
+ */
+
+import type { NextFunction, Request, Response } from 'express'
+import { usageStore } from './store'
+import type { QuotaExceeded, UsageCounts, UsageStore } from './store'
+
+/** The provider of a request, or none for requests that are not metered */
+export type MeterProvider = string | ((req: Request) => string | undefined)
+
+export interface MeterOptions {
+  /** The model of a request; the model field of its body, or of the response, when unset */
+  model?: (req: Request) => string | undefined
+  /** Whether a request submits a generation, counted when it succeeds; POST requests when unset */
+  generation?: (req: Request) => boolean
+}
+
+/** An OpenAI response, or the part of it with the model and the usage block */
+export interface UsageDetail {
+  model?: string
+  usage?: Record<string, any> | null
+}
+
+type TokenCounts = Pick<UsageCounts, 'promptTokens' | 'completionTokens' | 'tokens'>
+
+// Enough of the end of a response to hold its usage block
+const TAIL_LENGTH = 16 * 1024
+
+const PERIOD_NAMES = { daily: ['每日', 'Daily'], monthly: ['每月', 'Monthly'] }
+
+/**
+ * Who a request is counted against: its user, or its address when authentication is off
+ */
+export const usageKey = (req: Request): string => req.user?.id ?? `ip:${req.ip}`
+
+/**
+ * The token counts of an OpenAI usage block, chat (prompt_tokens) or responses style (input_tokens)
+ */
+export const readTokens = (usage?: Record<string, any> | null): TokenCounts | undefined => {
+  if (!usage || typeof usage !== 'object')
+    return undefined
+  const promptTokens = Number(usage.prompt_tokens ?? usage.input_tokens) || 0
+  const completionTokens = Number(usage.completion_tokens ?? usage.output_tokens) || 0
+  const tokens = Number(usage.total_tokens) || promptTokens + completionTokens
+  return tokens > 0 ? { promptTokens, completionTokens, tokens } : undefined
+}
+
+/**
+ * The token counts of the last usage block in a response, JSON or a stream of events
+ */
+export const findTokens = (text: string): TokenCounts | undefined => {
+  const start = text.lastIndexOf('"usage"')
+  if (start < 0)
+    return undefined
+  const block = text.slice(start)
+  const field = (...names: string[]) => {
+    for (const name of names) {
+      const match = block.match(new RegExp(`"${name}"\\s*:\\s*(\\d+)`))
+      if (match)
+        return Number(match[1])
+    }
+    return undefined
+  }
+  return readTokens({
+    prompt_tokens: field('prompt_tokens', 'input_tokens'),
+    completion_tokens: field('completion_tokens', 'output_tokens'),
+    total_tokens: field('total_tokens'),
+  })
+}
+
+/**
+ * Tell the meter what a handler knows of a response it does not send as is
+ */
+export const reportUsage = (res: Response, detail?: UsageDetail) => {
+  if (detail)
+    res.locals.usage = detail
+}
+
+const bodyModel = (req: Request): string | undefined => typeof req.body?.model === 'string' ? req.body.model : undefined
+
+const quotaMessage = ({ period, metric, limit }: QuotaExceeded) => {
+  const [zh, en] = PERIOD_NAMES[period]
+  return `Error: 已用完${zh}额度 | ${en} ${metric} quota of ${limit} used up`
+}
+
+/**
+ * Count the requests of a route against their user: the request, the tokens of the usage
+ * block in the response, and the generation it submits when it succeeds.
+ * Users over a quota are answered 429, and admins are never held to one.
+ */
+export const meter = (provider: MeterProvider, options: MeterOptions = {}, store: UsageStore = usageStore) => (req: Request, res: Response, next: NextFunction) => {
+  const name = typeof provider === 'function' ? provider(req) : provider
+  if (!name) {
+    next()
+    return
+  }
+
+  const userId = usageKey(req)
+  const exceeded = req.user?.scopes.includes('admin') ? undefined : store.checkQuota(userId)
+  if (exceeded) {
+    res.status(429)
+    res.setHeader('Retry-After', Math.max(1, Math.ceil((exceeded.resetAt - Date.now()) / 1000)))
+    res.send({ code: 'usage_quota', message: quotaMessage(exceeded), data: exceeded })
+    return
+  }
+
+  // Keep the end of what is sent, which is where the usage block is
+  let tail = ''
+  const keep = (chunk: any) => {
+    if (chunk === undefined || chunk === null || typeof chunk === 'function')
+      return
+    const text = Buffer.isBuffer(chunk) ? chunk.subarray(-TAIL_LENGTH).toString('utf8') : String(chunk).slice(-TAIL_LENGTH)
+    tail = (tail + text).slice(-TAIL_LENGTH)
+  }
+  const write = res.write
+  const end = res.end
+  res.write = ((chunk: any, ...rest: any[]) => {
+    keep(chunk)
+    return write.apply(res, [chunk, ...rest] as any)
+  }) as typeof res.write
+  res.end = ((chunk?: any, ...rest: any[]) => {
+    keep(chunk)
+    return end.apply(res, [chunk, ...rest] as any)
+  }) as typeof res.end
+
+  res.once('close', () => {
+    const detail: UsageDetail | undefined = res.locals.usage
+    // Compressed responses cannot be read from their end
+    const tokens = detail ? readTokens(detail.usage) : (res.getHeader('Content-Encoding') ? undefined : findTokens(tail))
+    const succeeded = res.writableFinished && res.statusCode >= 200 && res.statusCode < 300
+    const isGeneration = options.generation ? options.generation(req) : req.method === 'POST'
+    store.record({
+      userId,
+      provider: name,
+      model: options.model ? options.model(req) : (bodyModel(req) ?? detail?.model),
+      requests: 1,
+      ...tokens,
+      generations: (succeeded && isGeneration) ? 1 : 0,
+    })
+  })
+  next()
+}
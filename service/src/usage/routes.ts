@@ -0,0 +1,132 @@
+/**
+ * Usage API
+ * What a user has used against their quota, and usage reports and quotas for admins
+ */
+
+import express from 'express'
+import type { Response } from 'express'
+import { usageKey } from './meter'
+import { USAGE_GROUPS, USAGE_METRICS, UsageError, usageStore } from './store'
+import type { Quota, QuotaLimits, UsageGroup, UsageQuery, UsageStore } from './store'
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/
+
+const sendError = (res: Response, error: any) => {
+  const status = error instanceof UsageError ? error.status : 500
+  res.status(status).json({ success: false, error: error?.message ?? String(error) })
+}
+
+const readUsageQuery = (query: any): UsageQuery => {
+  const { userId, from, to, groupBy } = query ?? {}
+  for (const [name, value] of Object.entries({ from, to })) {
+    if (value !== undefined && (typeof value !== 'string' || !DAY.test(value)))
+      throw new UsageError(`Parameter "${name}" must be a day as YYYY-MM-DD`, 400)
+  }
+  if (userId !== undefined && typeof userId !== 'string')
+    throw new UsageError('Parameter "userId" must be a string', 400)
+
+  let groups: UsageGroup[] | undefined
+  if (groupBy !== undefined) {
+    groups = typeof groupBy === 'string' ? groupBy.split(',').filter(group => group !== '') as UsageGroup[] : []
+    if (groups.length === 0 || groups.some(group => !USAGE_GROUPS.includes(group)))
+      throw new UsageError(`Parameter "groupBy" must list some of ${USAGE_GROUPS.join(', ')}`, 400)
+  }
+  return { userId, from, to, groupBy: groups }
+}
+
+const readLimits = (value: any, period: string): QuotaLimits | undefined => {
+  if (value === undefined)
+    return undefined
+  if (typeof value !== 'object' || value === null || Array.isArray(value))
+    throw new UsageError(`Field "${period}" must be an object of limits`, 400)
+  const limits: QuotaLimits = {}
+  for (const [metric, limit] of Object.entries(value)) {
+    if (!USAGE_METRICS.includes(metric as any))
+      throw new UsageError(`Field "${period}" may only limit ${USAGE_METRICS.join(', ')}`, 400)
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 0)
+      throw new UsageError(`Limit "${period}.${metric}" must be a whole number, 0 for unlimited`, 400)
+    limits[metric as keyof QuotaLimits] = limit
+  }
+  return limits
+}
+
+const readQuota = (body: any): Quota => {
+  const { daily, monthly } = body ?? {}
+  return { daily: readLimits(daily, 'daily'), monthly: readLimits(monthly, 'monthly') }
+}
+
+/**
+ * The usage of the requesting user, with their quota and what they used of it
+ */
+export const createUsageRoutes = (store: UsageStore) => {
+  const routes = express.Router()
+
+  routes.get('/', (req, res) => {
+    try {
+      const userId = usageKey(req)
+      const { from, to, groupBy } = readUsageQuery(req.query)
+      res.json({
+        userId,
+        quota: store.getQuota(userId),
+        daily: store.used(userId, 'daily'),
+        monthly: store.used(userId, 'monthly'),
+        ...store.report({ userId, from, to, groupBy: groupBy ?? ['provider', 'model'] }),
+      })
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  return routes
+}
+
+/**
+ * Reports over every user, and their quotas; the app serves them under /admin/usage, to admins only
+ */
+export const createUsageAdminRoutes = (store: UsageStore) => {
+  const routes = express.Router()
+
+  routes.get('/', (req, res) => {
+    try {
+      res.json(store.report(readUsageQuery(req.query)))
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  routes.get('/quotas/:userId', (req, res) => {
+    try {
+      res.json(store.getQuota(req.params.userId))
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  // Limits left out fall back to the default quota
+  routes.put('/quotas/:userId', (req, res) => {
+    try {
+      res.json(store.setQuota(req.params.userId, readQuota(req.body)))
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  routes.delete('/quotas/:userId', (req, res) => {
+    try {
+      res.json(store.setQuota(req.params.userId))
+    }
+    catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  return routes
+}
+
+export const UsageRoutes = createUsageRoutes(usageStore)
+
+export const UsageAdminRoutes = createUsageAdminRoutes(usageStore)
@@ -0,0 +1,287 @@
+/**
+ * Usage Store
+ * Requests, tokens and generations counted per user, provider, model and day, with the quotas they are held to
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { envNumber } from '../utils'
+
+export const USAGE_METRICS = ['requests', 'tokens', 'generations'] as const
+export type UsageMetric = typeof USAGE_METRICS[number]
+
+export const USAGE_GROUPS = ['user', 'provider', 'model', 'day'] as const
+export type UsageGroup = typeof USAGE_GROUPS[number]
+
+export type QuotaPeriod = 'daily' | 'monthly'
+
+export interface UsageCounts {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  /** Total tokens, which is what token quotas count */
+  tokens: number
+  generations: number
+}
+
+export interface UsageEntry extends UsageCounts {
+  /** UTC day, YYYY-MM-DD */
+  day: string
+  userId: string
+  provider: string
+  model: string
+}
+
+/** What one request used */
+export type UsageEvent = Partial<UsageCounts> & {
+  userId: string
+  provider: string
+  model?: string
+}
+
+/** Limits per metric; unset or 0 is unlimited */
+export type QuotaLimits = Partial<Record<UsageMetric, number>>
+
+export interface Quota {
+  daily?: QuotaLimits
+  monthly?: QuotaLimits
+}
+
+export interface QuotaExceeded {
+  period: QuotaPeriod
+  metric: UsageMetric
+  limit: number
+  used: number
+  /** When the period ends, in ms */
+  resetAt: number
+}
+
+export interface UsageQuery {
+  userId?: string
+  /** First UTC day, YYYY-MM-DD; the first day of the month when unset */
+  from?: string
+  /** Last UTC day, YYYY-MM-DD; today when unset */
+  to?: string
+  groupBy?: UsageGroup[]
+}
+
+export type UsageRow = Partial<Record<UsageGroup, string>> & UsageCounts
+
+export interface UsageReport {
+  from: string
+  to: string
+  totals: UsageCounts
+  rows: UsageRow[]
+}
+
+export interface UsageStoreOptions {
+  /** JSON file the usage is kept in; in memory only when unset */
+  file?: string
+  /** Delay before counts are written, so requests do not each write the file */
+  saveDelay?: number
+  /** Quota of every user without one of their own; read from the USAGE_* variables when unset */
+  quota?: Quota
+}
+
+interface UsageData {
+  entries: UsageEntry[]
+  quotas: Record<string, Quota>
+}
+
+export class UsageError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'UsageError'
+  }
+}
+
+const METRIC_COUNTS: Record<UsageMetric, keyof UsageCounts> = { requests: 'requests', tokens: 'tokens', generations: 'generations' }
+
+const GROUP_FIELDS: Record<UsageGroup, keyof UsageEntry> = { user: 'userId', provider: 'provider', model: 'model', day: 'day' }
+
+const emptyCounts = (): UsageCounts => ({ requests: 0, promptTokens: 0, completionTokens: 0, tokens: 0, generations: 0 })
+
+const addCounts = (to: UsageCounts, from: Partial<UsageCounts>) => {
+  to.requests += from.requests ?? 0
+  to.promptTokens += from.promptTokens ?? 0
+  to.completionTokens += from.completionTokens ?? 0
+  to.tokens += from.tokens ?? 0
+  to.generations += from.generations ?? 0
+}
+
+export const utcDay = (time: number): string => new Date(time).toISOString().slice(0, 10)
+
+const periodKey = (period: QuotaPeriod, time: number) => period === 'daily' ? utcDay(time) : utcDay(time).slice(0, 7)
+
+const periodEnd = (period: QuotaPeriod, time: number): number => {
+  const date = new Date(time)
+  return period === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+}
+
+const envLimits = (period: string): QuotaLimits => ({
+  requests: envNumber(process.env[`USAGE_${period}_REQUESTS`], 0),
+  tokens: envNumber(process.env[`USAGE_${period}_TOKENS`], 0),
+  generations: envNumber(process.env[`USAGE_${period}_GENERATIONS`], 0),
+})
+
+/**
+ * The quota set by USAGE_DAILY_REQUESTS, USAGE_MONTHLY_TOKENS and the like
+ */
+export const quotaFromEnv = (): Quota => ({ daily: envLimits('DAILY'), monthly: envLimits('MONTHLY') })
+
+export class UsageStore {
+  private data?: UsageData
+  private readonly byKey: Map<string, UsageEntry> = new Map()
+  // Counts of each user per day and per month, for the quota checks
+  private readonly periods: Map<string, UsageCounts> = new Map()
+  private saveTimer?: NodeJS.Timeout
+
+  constructor(private readonly options: UsageStoreOptions = {}) {}
+
+  record(event: UsageEvent, now: number = Date.now()) {
+    const data = this.load()
+    const { userId, provider, model = 'unknown', ...counts } = event
+    const day = utcDay(now)
+    const key = [day, userId, provider, model].join('\n')
+    let entry = this.byKey.get(key)
+    if (!entry) {
+      entry = { day, userId, provider, model, ...emptyCounts() }
+      data.entries.push(entry)
+      this.byKey.set(key, entry)
+    }
+    addCounts(entry, counts)
+    this.countPeriods(entry, counts)
+    this.scheduleSave()
+  }
+
+  /**
+   * What a user used in the day or month of a time
+   */
+  used(userId: string, period: QuotaPeriod, now: number = Date.now()): UsageCounts {
+    this.load()
+    return { ...(this.periods.get(`${userId}\n${periodKey(period, now)}`) ?? emptyCounts()) }
+  }
+
+  /**
+   * The quota of a user: their own limits over the default ones
+   */
+  getQuota(userId: string): Quota {
+    const defaults = this.options.quota ?? quotaFromEnv()
+    const own = this.load().quotas[userId] ?? {}
+    return {
+      daily: { ...defaults.daily, ...own.daily },
+      monthly: { ...defaults.monthly, ...own.monthly },
+    }
+  }
+
+  /**
+   * Set the limits of a user over the default ones; none drops them
+   */
+  setQuota(userId: string, quota?: Quota): Quota {
+    const data = this.load()
+    if (quota)
+      data.quotas[userId] = quota
+    else
+      delete data.quotas[userId]
+    this.save()
+    return this.getQuota(userId)
+  }
+
+  /**
+   * The first limit a user has reached, if any
+   */
+  checkQuota(userId: string, now: number = Date.now()): QuotaExceeded | undefined {
+    const quota = this.getQuota(userId)
+    for (const period of ['daily', 'monthly'] as QuotaPeriod[]) {
+      const used = this.used(userId, period, now)
+      for (const metric of USAGE_METRICS) {
+        const limit = quota[period]?.[metric]
+        if (limit && used[METRIC_COUNTS[metric]] >= limit)
+          return { period, metric, limit, used: used[METRIC_COUNTS[metric]], resetAt: periodEnd(period, now) }
+      }
+    }
+    return undefined
+  }
+
+  report(query: UsageQuery = {}, now: number = Date.now()): UsageReport {
+    const to = query.to ?? utcDay(now)
+    const from = query.from ?? `${to.slice(0, 7)}-01`
+    const groupBy = query.groupBy ?? ['user', 'provider', 'model']
+
+    const totals = emptyCounts()
+    const rows: Map<string, UsageRow> = new Map()
+    for (const entry of this.load().entries) {
+      if (entry.day < from || entry.day > to || (query.userId && entry.userId !== query.userId))
+        continue
+      const group = groupBy.map(name => [name, entry[GROUP_FIELDS[name]] as string])
+      const key = group.map(([, value]) => value).join('\n')
+      let row = rows.get(key)
+      if (!row) {
+        row = { ...Object.fromEntries(group), ...emptyCounts() }
+        rows.set(key, row)
+      }
+      addCounts(row, entry)
+      addCounts(totals, entry)
+    }
+
+    const sorted = [...rows.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, row]) => row)
+    return { from, to, totals, rows: sorted }
+  }
+
+  /**
+   * Write pending counts now
+   */
+  flush() {
+    if (this.saveTimer)
+      this.save()
+  }
+
+  private countPeriods(entry: UsageEntry, counts: Partial<UsageCounts>) {
+    for (const period of [entry.day, entry.day.slice(0, 7)]) {
+      const key = `${entry.userId}\n${period}`
+      const total = this.periods.get(key) ?? emptyCounts()
+      addCounts(total, counts)
+      this.periods.set(key, total)
+    }
+  }
+
+  // Read on first use, so that importing the store reads no files
+  private load(): UsageData {
+    if (this.data)
+      return this.data
+
+    const { file } = this.options
+    this.data = (file && fs.existsSync(file))
+      ? JSON.parse(fs.readFileSync(file, 'utf8'))
+      : { entries: [], quotas: {} }
+    for (const entry of this.data.entries) {
+      this.byKey.set([entry.day, entry.userId, entry.provider, entry.model].join('\n'), entry)
+      this.countPeriods(entry, entry)
+    }
+    return this.data
+  }
+
+  private save() {
+    clearTimeout(this.saveTimer)
+    this.saveTimer = undefined
+    const { file } = this.options
+    if (!file || !this.data)
+      return
+
+    // Written aside and renamed, so a crash never leaves half a file
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(this.data))
+    fs.renameSync(`${file}.tmp`, file)
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer || !this.options.file)
+      return
+    this.saveTimer = setTimeout(() => this.save(), this.options.saveDelay ?? 10 * 1000)
+    this.saveTimer.unref()
+  }
+}
+
+export const usageStore = new UsageStore({ file: process.env.USAGE_FILE || 'data/usage.json' })
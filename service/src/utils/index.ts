@@ -1,3 +1,5 @@
+import { isNotEmptyString } from './is'
+
 interface SendResponseOptions<T = any> {
   type: 'Success' | 'Fail'
   message?: string
@@ -20,3 +22,8 @@ export function sendResponse<T>(options: SendResponseOptions<T>) {
     status: options.type,
   })
 }
+
+// A number from an environment variable, or the fallback when it is unset or not a number
+export const envNumber = (value: string | undefined, fallback: number): number => {
+  return (isNotEmptyString(value) && !isNaN(Number(value))) ? Number(value) : fallback
+}
@@ -0,0 +1,188 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import express from 'express'
+import request from 'supertest'
+import { AccountStore, hashToken } from '../src/accounts/store'
+import { createAccountRoutes } from '../src/accounts/routes'
+import { authorize } from '../src/middleware/auth'
+import { isAuthorizedToken } from '../src/middleware/token'
+
+// Only the Turnstile checks of the middleware fetch, and node-fetch ships as ESM
+jest.mock('node-fetch', () => jest.fn())
+
+describe('Accounts', () => {
+  let dir: string
+  let file: string
+  let store: AccountStore
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'accounts-'))
+    file = path.join(dir, 'accounts.json')
+    store = new AccountStore({ file })
+  })
+
+  afterEach(() => {
+    delete process.env.AUTH_SECRET_KEY
+    delete process.env.ADMIN_SECRET_KEY
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('AccountStore', () => {
+    it('keeps only the hash of issued tokens', () => {
+      const user = store.createUser('ada')
+      const { token, info } = store.issueToken(user.id, { scopes: ['chat'] })
+
+      expect(token).toMatch(/^sk-/)
+      expect(info).not.toHaveProperty('hash')
+      const saved = fs.readFileSync(file, 'utf8')
+      expect(saved).not.toContain(token)
+      expect(saved).toContain(hashToken(token))
+
+      const reloaded = new AccountStore({ file })
+      expect(reloaded.authenticate(token)).toEqual({ id: user.id, name: 'ada', scopes: ['chat'], tokenId: info.id })
+      expect(reloaded.authenticate('sk-unknown')).toBeUndefined()
+    })
+
+    it('rejects revoked and expired tokens', () => {
+      const user = store.createUser('ada')
+      const revoked = store.issueToken(user.id)
+      store.revokeToken(revoked.info.id)
+      expect(() => store.authenticate(revoked.token)).toThrow('Token has been revoked')
+
+      const expiring = store.issueToken(user.id, { expiresInDays: 1 })
+      const now = Date.now()
+      jest.spyOn(Date, 'now').mockReturnValue(now + 2 * 24 * 60 * 60 * 1000)
+      try {
+        expect(() => store.authenticate(expiring.token)).toThrow('Token has expired')
+        expect(store.hasActiveTokens()).toBe(false)
+      }
+      finally {
+        jest.restoreAllMocks()
+      }
+    })
+
+    it('writes pending last-used times on flush', () => {
+      const user = store.createUser('ada')
+      const { token, info } = store.issueToken(user.id)
+      store.authenticate(token)
+      expect(new AccountStore({ file }).listTokens()[0].lastUsedAt).toBeUndefined()
+
+      store.flush()
+      expect(new AccountStore({ file }).listTokens()).toEqual([expect.objectContaining({ id: info.id, lastUsedAt: expect.any(Number) })])
+    })
+
+    it('refuses duplicate users and tokens for unknown users', () => {
+      store.createUser('ada')
+      expect(() => store.createUser('ada')).toThrow('User "ada" already exists')
+      expect(() => store.issueToken('nobody')).toThrow('User not found')
+    })
+  })
+
+  describe('authorize', () => {
+    const app = (scope?: Parameters<typeof authorize>[0]) => {
+      const served = express()
+      served.use(express.json())
+      served.all('*', authorize(scope, store), (req, res) => res.json({ user: req.user ?? null }))
+      return served
+    }
+
+    it('attaches the user of a token with the scope of the route', async () => {
+      const user = store.createUser('ada')
+      const { token } = store.issueToken(user.id, { scopes: ['suno'] })
+
+      const response = await request(app('suno')).get('/').set('X-Ptoken', token).expect(200)
+      expect(response.body.user).toMatchObject({ id: user.id, name: 'ada', scopes: ['suno'] })
+
+      const denied = await request(app('video')).get('/').set('X-Ptoken', token).expect(403)
+      expect(denied.body).toEqual({ code: 'token_scope', message: 'Error: 无访问权限 | No access to video', data: null })
+    })
+
+    it('asks for a token once authentication is on', async () => {
+      const user = store.createUser('ada')
+      const { token, info } = store.issueToken(user.id)
+
+      const missing = await request(app()).get('/').expect(423)
+      expect(missing.body.code).toBe('token_check')
+      await request(app()).get('/').set('X-Ptoken', 'sk-wrong').expect(423)
+
+      store.revokeToken(info.id)
+      // The only token is revoked, which turns authentication off again
+      await request(app()).get('/').set('X-Ptoken', token).expect(200)
+    })
+
+    it('reads the scope from the request', async () => {
+      const user = store.createUser('ada')
+      const { token } = store.issueToken(user.id, { scopes: ['mj'] })
+      const served = app(req => req.body?.provider === 'midjourney' ? 'mj' : 'video')
+
+      await request(served).post('/').send({ provider: 'midjourney' }).set('X-Ptoken', token).expect(200)
+      await request(served).post('/').send({ provider: 'kling' }).set('X-Ptoken', token).expect(403)
+    })
+
+    it('lets the shared secret use every route family but the admin one', async () => {
+      process.env.AUTH_SECRET_KEY = 'shared-1,shared-2'
+      process.env.ADMIN_SECRET_KEY = 'root'
+
+      const response = await request(app('video')).get('/').set('X-Ptoken', 'shared-2').expect(200)
+      expect(response.body.user).toEqual({ id: 'shared', name: 'shared', scopes: ['chat', 'mj', 'suno', 'video'] })
+      await request(app('admin')).get('/').set('X-Ptoken', 'shared-1').expect(403)
+      await request(app('admin')).get('/').set('X-Ptoken', 'root').expect(200)
+
+      expect(isAuthorizedToken('Bearer shared-1', store)).toBe(true)
+      expect(isAuthorizedToken('Bearer other', store)).toBe(false)
+    })
+
+    it('is open without secrets or tokens, except for admins', async () => {
+      const response = await request(app('chat')).get('/').expect(200)
+      expect(response.body.user).toBeNull()
+      await request(app('admin')).get('/').expect(403)
+    })
+  })
+
+  describe('Admin routes', () => {
+    const admin = () => {
+      const served = express()
+      served.use(express.json())
+      served.use('/api/admin', createAccountRoutes(store))
+      return served
+    }
+
+    it('creates users and issues, lists and revokes their tokens', async () => {
+      const user = await request(admin()).post('/api/admin/users').send({ name: ' ada ' }).expect(201)
+      expect(user.body).toMatchObject({ name: 'ada' })
+
+      const issued = await request(admin())
+        .post(`/api/admin/users/${user.body.id}/tokens`)
+        .send({ name: 'laptop', scopes: ['chat', 'mj'], expiresInDays: 30 })
+        .expect(201)
+      expect(issued.body).toMatchObject({ userId: user.body.id, name: 'laptop', scopes: ['chat', 'mj'] })
+      expect(issued.body.token.startsWith(issued.body.prefix)).toBe(true)
+      expect(store.authenticate(issued.body.token)?.name).toBe('ada')
+
+      const tokens = await request(admin()).get(`/api/admin/tokens?userId=${user.body.id}`).expect(200)
+      expect(tokens.body).toHaveLength(1)
+      expect(tokens.body[0]).not.toHaveProperty('token')
+      expect(tokens.body[0]).not.toHaveProperty('hash')
+
+      const revoked = await request(admin()).delete(`/api/admin/tokens/${issued.body.id}`).expect(200)
+      expect(revoked.body.revokedAt).toEqual(expect.any(Number))
+      expect(() => store.authenticate(issued.body.token)).toThrow('Token has been revoked')
+
+      const users = await request(admin()).get('/api/admin/users').expect(200)
+      expect(users.body.map((entry: any) => entry.name)).toEqual(['ada'])
+    })
+
+    it('validates requests', async () => {
+      const user = store.createUser('ada')
+      const scopes = await request(admin()).post(`/api/admin/users/${user.id}/tokens`).send({ scopes: ['everything'] }).expect(400)
+      expect(scopes.body).toEqual({ success: false, error: 'Field "scopes" must be a non-empty list of chat, mj, suno, video, admin' })
+
+      await request(admin()).post(`/api/admin/users/${user.id}/tokens`).send({ expiresInDays: -1 }).expect(400)
+      await request(admin()).post('/api/admin/users').send({}).expect(400)
+      await request(admin()).post('/api/admin/users').send({ name: 'ada' }).expect(409)
+      await request(admin()).post('/api/admin/users/nobody/tokens').send({}).expect(404)
+      await request(admin()).delete('/api/admin/tokens/none').expect(404)
+    })
+  })
+})
@@ -0,0 +1,346 @@
+import http from 'http'
+import type { AddressInfo } from 'net'
+import express from 'express'
+import request from 'supertest'
+import { JobQueue } from '../src/jobs/queue'
+import type { Job } from '../src/jobs/queue'
+import type { AuthUser } from '../src/accounts/store'
+import { createJobRoutes } from '../src/jobs/routes'
+
+interface UpstreamRequest {
+  method: string
+  path: string
+  headers: http.IncomingHttpHeaders
+  body: any
+  time: number
+}
+
+type Handler = (request: UpstreamRequest) => { status?: number; body: any }
+
+describe('Generation jobs', () => {
+  // Mock upstream: answers with the handler of the path, recording every request
+  const handlers: Map<string, Handler> = new Map()
+  const received: UpstreamRequest[] = []
+  const upstream = http.createServer((req, res) => {
+    let data = ''
+    req.on('data', chunk => data += chunk)
+    req.on('end', () => {
+      const upstreamRequest = { method: req.method ?? 'GET', path: req.url ?? '/', headers: req.headers, body: data ? JSON.parse(data) : undefined, time: Date.now() }
+      received.push(upstreamRequest)
+      const handler = handlers.get(`${upstreamRequest.method} ${upstreamRequest.path}`)
+      const { status = 200, body } = handler ? handler(upstreamRequest) : { status: 404, body: { message: 'Not found' } }
+      res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(body))
+    })
+  })
+
+  const SERVERS = ['MJ_SERVER', 'SUNO_SERVER', 'KLING_SERVER', 'RUNWAY_SERVER', 'OPENAI_API_BASE_URL']
+  let queue: JobQueue
+  let app: express.Express
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => upstream.listen(0, resolve))
+    const url = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`
+    SERVERS.forEach(name => process.env[name] = url)
+    process.env.MJ_API_SECRET = 'mj-secret'
+    process.env.SUNO_KEY = 'suno-key'
+    process.env.OPENAI_API_KEY = 'openai-key'
+  })
+
+  afterAll(async () => {
+    SERVERS.forEach(name => delete process.env[name])
+    delete process.env.MJ_API_SECRET
+    delete process.env.SUNO_KEY
+    delete process.env.OPENAI_API_KEY
+    await new Promise(resolve => upstream.close(resolve))
+  })
+
+  beforeEach(() => {
+    handlers.clear()
+    received.length = 0
+    queue = new JobQueue({ interval: 10, backoff: 1, maxErrors: 3 })
+    app = express()
+    app.use(express.json())
+    app.use('/api/jobs', createJobRoutes(queue))
+  })
+
+  afterEach(() => queue.close())
+
+  // Answers from a list, repeating the last one
+  const sequence = (...bodies: any[]): Handler => {
+    let index = 0
+    return () => ({ body: bodies[Math.min(index++, bodies.length - 1)] })
+  }
+
+  const finished = (id: string, timeout = 3000): Promise<Job> => {
+    return new Promise((resolve, reject) => {
+      const started = Date.now()
+      const check = () => {
+        const job = queue.get(id)
+        if (job && (job.status === 'succeeded' || job.status === 'failed'))
+          resolve(job)
+        else if (Date.now() - started > timeout)
+          reject(new Error(`Job ${id} is still ${job?.status}`))
+        else
+          setTimeout(check, 5)
+      }
+      check()
+    })
+  }
+
+  describe('POST /api/jobs', () => {
+    it('submits the input upstream and polls until the task succeeds', async () => {
+      handlers.set('POST /mj/submit/imagine', () => ({ body: { code: 1, result: 'task-1' } }))
+      handlers.set('GET /mj/task/task-1/fetch', sequence(
+        { id: 'task-1', status: 'IN_PROGRESS', progress: '10%' },
+        { id: 'task-1', status: 'IN_PROGRESS', progress: '60%' },
+        { id: 'task-1', status: 'SUCCESS', progress: '100%', imageUrl: 'https://cdn/image.png' },
+      ))
+
+      const response = await request(app)
+        .post('/api/jobs')
+        .send({ provider: 'midjourney', input: { prompt: 'a red fox' } })
+        .expect(202)
+
+      expect(response.body).toMatchObject({ provider: 'midjourney', kind: 'imagine', taskId: 'task-1', status: 'running' })
+      const job = await finished(response.body.id)
+      expect(job).toMatchObject({ status: 'succeeded', progress: '100%', polls: 3, result: { imageUrl: 'https://cdn/image.png' } })
+
+      expect(received[0].body).toEqual({ prompt: 'a red fox' })
+      expect(received.every(({ headers }) => headers['mj-api-secret'] === 'mj-secret')).toBe(true)
+    })
+
+    it('tracks a task that was already submitted', async () => {
+      handlers.set('GET /feed/clip-1,clip-2', sequence(
+        [{ id: 'clip-1', status: 'streaming' }, { id: 'clip-2', status: 'queued' }],
+        [{ id: 'clip-1', status: 'complete' }, { id: 'clip-2', status: 'complete' }],
+      ))
+
+      const response = await request(app)
+        .post('/api/jobs')
+        .send({ provider: 'suno', taskId: 'clip-1,clip-2' })
+        .expect(202)
+
+      expect(response.body.status).toBe('queued')
+      expect((await finished(response.body.id)).status).toBe('succeeded')
+      expect(received.map(({ method }) => method)).toEqual(['GET', 'GET'])
+      expect(received[0].headers.authorization).toBe('Bearer suno-key')
+    })
+
+    it('fails jobs the upstream refuses or fails', async () => {
+      handlers.set('POST /kling/v1/videos/text2video', () => ({ body: { code: 1201, message: 'Prompt is too long' } }))
+      const refused = await request(app)
+        .post('/api/jobs')
+        .send({ provider: 'kling', kind: 'text2video', input: { prompt: '...' } })
+        .expect(202)
+      expect(refused.body).toMatchObject({ status: 'failed', error: 'Prompt is too long' })
+
+      handlers.set('POST /kling/v1/videos/image2video', () => ({ body: { data: { task_id: 'k-1' } } }))
+      handlers.set('GET /kling/v1/videos/image2video/k-1', () => ({ body: { data: { task_status: 'failed', task_status_msg: 'Image rejected' } } }))
+      const response = await request(app)
+        .post('/api/jobs')
+        .send({ provider: 'kling', kind: 'image2video', input: { image: 'https://cdn/a.png' } })
+        .expect(202)
+      expect(await finished(response.body.id)).toMatchObject({ status: 'failed', error: 'Image rejected' })
+    })
+
+    it('runs veo videos on the OpenAI compatible upstream', async () => {
+      handlers.set('POST /veo/v1/video/create', () => ({ body: { id: 'veo3:1' } }))
+      handlers.set('GET /veo/v1/video/feed/veo3%3A1', sequence(
+        { id: 'veo3:1', status: 'processing' },
+        { id: 'veo3:1', status: 'completed', video_url: 'https://cdn/video.mp4' },
+      ))
+
+      const response = await request(app)
+        .post('/api/jobs')
+        .send({ provider: 'veo', input: { model: 'veo3', prompt: 'waves' } })
+        .expect(202)
+
+      expect(await finished(response.body.id)).toMatchObject({ status: 'succeeded', result: { video_url: 'https://cdn/video.mp4' } })
+      expect(received.every(({ headers }) => headers.authorization === 'Bearer openai-key')).toBe(true)
+    })
+
+    it('keeps task ids inside the upstream path', async () => {
+      handlers.set('GET /runway/tasks/..%2F..%2Fadmin%3Fdelete%3D1', () => ({ body: { task: { status: 'SUCCEEDED' } } }))
+      handlers.set('GET /feed/..%2Fa,b%3Fc', () => ({ body: [{ status: 'complete' }] }))
+      const runway = await queue.submit({ provider: 'runway', taskId: '../../admin?delete=1' })
+      const suno = await queue.submit({ provider: 'suno', taskId: '../a,b?c' })
+
+      expect((await finished(runway.id)).status).toBe('succeeded')
+      expect((await finished(suno.id)).status).toBe('succeeded')
+      expect(received.map(({ path }) => path)).toEqual(['/runway/tasks/..%2F..%2Fadmin%3Fdelete%3D1', '/feed/..%2Fa,b%3Fc'])
+    })
+
+    it('rejects unknown providers, kinds and empty submissions', async () => {
+      const unknown = await request(app).post('/api/jobs').send({ provider: 'dalle', taskId: 'x' }).expect(400)
+      expect(unknown.body.error).toMatch(/^Unknown provider "dalle", expected one of midjourney, suno/)
+
+      const kind = await request(app).post('/api/jobs').send({ provider: 'runway', kind: 'upscale', taskId: 'x' }).expect(400)
+      expect(kind.body.error).toBe('Unknown kind "upscale" for runway, expected one of task')
+
+      const empty = await request(app).post('/api/jobs').send({ provider: 'runway' }).expect(400)
+      expect(empty.body).toEqual({ success: false, error: 'Either "taskId" or an "input" object is required' })
+    })
+  })
+
+  describe('Polling', () => {
+    it('gives up after upstream errors in a row', async () => {
+      handlers.set('GET /runway/tasks/r-1', () => ({ status: 502, body: { message: 'Bad gateway' } }))
+      const job = await queue.submit({ provider: 'runway', taskId: 'r-1' })
+
+      expect(await finished(job.id)).toMatchObject({ status: 'failed', error: 'Upstream failed 3 times in a row: Bad gateway', polls: 3 })
+    })
+
+    it('backs off while nothing changes and stops after the last poll', async () => {
+      queue = new JobQueue({ interval: 20, backoff: 3, maxPolls: 3 })
+      handlers.set('GET /runway/tasks/r-2', () => ({ body: { task: { id: 'r-2', status: 'RUNNING', progress: 0.5 } } }))
+      const job = await queue.submit({ provider: 'runway', taskId: 'r-2' })
+
+      expect(await finished(job.id)).toMatchObject({ status: 'failed', error: 'No result after 3 polls', progress: '50%' })
+      const [first, second, third] = received.map(({ time }) => time)
+      // 20ms, then 20ms for the change from queued to running, then 60ms
+      expect(third - second).toBeGreaterThan(second - first)
+    })
+  })
+
+  describe('GET /api/jobs', () => {
+    it('lists jobs newest first, filtered by provider and status', async () => {
+      handlers.set('GET /runway/tasks/a', () => ({ body: { task: { status: 'SUCCEEDED' } } }))
+      handlers.set('GET /mj/task/b/fetch', () => ({ body: { status: 'IN_PROGRESS' } }))
+      const a = await queue.submit({ provider: 'runway', taskId: 'a' })
+      await finished(a.id)
+      const b = await queue.submit({ provider: 'midjourney', taskId: 'b' })
+
+      const all = await request(app).get('/api/jobs').expect(200)
+      expect(all.body.map((job: Job) => job.id)).toEqual([b.id, a.id])
+
+      const succeeded = await request(app).get('/api/jobs?status=succeeded').expect(200)
+      expect(succeeded.body.map((job: Job) => job.taskId)).toEqual(['a'])
+
+      const midjourney = await request(app).get('/api/jobs?provider=midjourney').expect(200)
+      expect(midjourney.body.map((job: Job) => job.taskId)).toEqual(['b'])
+
+      await request(app).get('/api/jobs?status=done').expect(400)
+    })
+
+    it('returns one job by id', async () => {
+      const job = await queue.submit({ provider: 'runway', taskId: 'c' })
+      const response = await request(app).get(`/api/jobs/${job.id}`).expect(200)
+      expect(response.body).toMatchObject({ id: job.id, provider: 'runway', taskId: 'c' })
+
+      const missing = await request(app).get('/api/jobs/none').expect(404)
+      expect(missing.body).toEqual({ success: false, error: 'Job not found' })
+    })
+  })
+
+  describe('Ownership', () => {
+    // The user of a request is named by a header here, as the auth middleware would set it
+    const users: Record<string, AuthUser> = {
+      alice: { id: 'alice', name: 'Alice', scopes: ['mj'] },
+      bob: { id: 'bob', name: 'Bob', scopes: ['mj'] },
+      root: { id: 'root', name: 'Root', scopes: ['admin'] },
+    }
+
+    beforeEach(() => {
+      app = express()
+      app.use(express.json())
+      app.use((req, res, next) => {
+        req.user = users[req.header('x-user') ?? '']
+        next()
+      })
+      app.use('/api/jobs', createJobRoutes(queue))
+      handlers.set('GET /mj/task/alice-task/fetch', () => ({ body: { status: 'IN_PROGRESS' } }))
+    })
+
+    const submitAs = async (user: string) => {
+      const response = await request(app).post('/api/jobs').set('x-user', user).send({ provider: 'midjourney', taskId: `${user}-task` }).expect(202)
+      return response.body as Job
+    }
+
+    it('keeps the jobs of a user from other users', async () => {
+      const job = await submitAs('alice')
+      expect(job.userId).toBe('alice')
+
+      const mine = await request(app).get('/api/jobs').set('x-user', 'alice').expect(200)
+      expect(mine.body.map((listed: Job) => listed.id)).toEqual([job.id])
+      await request(app).get(`/api/jobs/${job.id}`).set('x-user', 'alice').expect(200)
+
+      const theirs = await request(app).get('/api/jobs').set('x-user', 'bob').expect(200)
+      expect(theirs.body).toEqual([])
+      const probed = await request(app).get(`/api/jobs/${job.id}`).set('x-user', 'bob').expect(404)
+      expect(probed.body).toEqual({ success: false, error: 'Job not found' })
+    })
+
+    it('shows every job to admins', async () => {
+      const alice = await submitAs('alice')
+      const bob = await submitAs('bob')
+
+      const all = await request(app).get('/api/jobs').set('x-user', 'root').expect(200)
+      expect(all.body.map((listed: Job) => listed.id)).toEqual([bob.id, alice.id])
+      await request(app).get(`/api/jobs/${bob.id}`).set('x-user', 'root').expect(200)
+    })
+
+    it('streams the events of a user\'s own jobs only', async () => {
+      const server = app.listen(0)
+      const port = (server.address() as AddressInfo).port
+      const alice = await submitAs('alice')
+
+      const jobs = await new Promise<Job[]>((resolve, reject) => {
+        http.get(`http://127.0.0.1:${port}/api/jobs/events`, { headers: { 'x-user': 'bob' } }, (res) => {
+          let buffer = ''
+          res.on('data', chunk => buffer += chunk)
+          // Bob's job comes after Alice's, so the stream has seen both once it shows
+          submitAs('bob').then(() => setTimeout(() => {
+            res.destroy()
+            resolve(buffer.split('\n').filter(line => line.startsWith('data: ')).map(line => JSON.parse(line.slice(6))))
+          }, 50), reject)
+        }).on('error', reject)
+      })
+
+      server.close()
+      expect(jobs.length).toBeGreaterThan(0)
+      expect(jobs.every(job => job.userId === 'bob')).toBe(true)
+      expect(jobs.some(job => job.id === alice.id)).toBe(false)
+    })
+  })
+
+  describe('GET /api/jobs/events', () => {
+    it('streams job updates as server-sent events', async () => {
+      handlers.set('GET /mj/task/e-1/fetch', sequence({ status: 'IN_PROGRESS', progress: '50%' }, { status: 'SUCCESS', progress: '100%' }))
+      const server = app.listen(0)
+      const port = (server.address() as AddressInfo).port
+
+      const events = new Promise<{ type: string | undefined; jobs: Job[] }>((resolve, reject) => {
+        http.get(`http://127.0.0.1:${port}/api/jobs/events`, (res) => {
+          const jobs: Job[] = []
+          let buffer = ''
+          res.on('data', (chunk) => {
+            buffer += chunk
+            const messages = buffer.split('\n\n')
+            buffer = messages.pop()!
+            messages.forEach((message) => {
+              const data = message.split('\n').find(line => line.startsWith('data: '))
+              if (data)
+                jobs.push(JSON.parse(data.slice(6)))
+            })
+            if (jobs.some(job => job.status === 'succeeded')) {
+              res.destroy()
+              resolve({ type: res.headers['content-type'], jobs })
+            }
+          })
+          // The stream is open once the headers arrive
+          queue.submit({ provider: 'midjourney', taskId: 'e-1' }).catch(reject)
+        }).on('error', reject)
+      })
+
+      const { type, jobs } = await events
+      server.close()
+      expect(type).toBe('text/event-stream')
+      expect(jobs.map(job => [job.status, job.progress])).toEqual([
+        ['queued', undefined],
+        ['running', '50%'],
+        ['succeeded', '100%'],
+      ])
+    })
+  })
+})
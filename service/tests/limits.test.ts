@@ -0,0 +1,295 @@
+import { execFile } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { promisify } from 'util'
+import type { IncomingHttpHeaders, IncomingMessage } from 'http'
+import express from 'express'
+import request from 'supertest'
+import { rateLimit } from 'express-rate-limit'
+import { clientIp, trustProxy, upgradeIp } from '../src/limits/ip'
+import { Lockout } from '../src/limits/lockout'
+import { createBanRoutes } from '../src/limits/routes'
+import { FileLimitStore, MemoryLimitStore, RateLimitStore } from '../src/limits/store'
+
+describe('Limits', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  // Move the clock of the stores forward
+  const advance = (ms: number) => {
+    const now = Date.now()
+    jest.spyOn(Date, 'now').mockReturnValue(now + ms)
+  }
+
+  describe('MemoryLimitStore', () => {
+    it('counts hits until they expire', async () => {
+      const store = new MemoryLimitStore()
+      expect(await store.increment('a', 1000)).toMatchObject({ count: 1 })
+      expect(await store.increment('a', 1000)).toMatchObject({ count: 2 })
+      await store.decrement('a')
+      expect(await store.get('a')).toMatchObject({ count: 1 })
+
+      advance(1000)
+      expect(await store.get('a')).toBeUndefined()
+      expect(await store.increment('a', 1000)).toMatchObject({ count: 1 })
+    })
+
+    it('updates an entry in one step', async () => {
+      const store = new MemoryLimitStore()
+      expect(await store.update('a', entry => ({ count: (entry?.count ?? 0) + 5, expiresAt: Date.now() + 1000 }))).toMatchObject({ count: 5 })
+      expect(await store.update('a', entry => entry && { ...entry, count: entry.count * 2 })).toMatchObject({ count: 10 })
+      expect(await store.update('a', () => undefined)).toBeUndefined()
+      expect(await store.get('a')).toBeUndefined()
+    })
+
+    it('drops expired entries it is not asked for', async () => {
+      const store = new MemoryLimitStore({ sweepInterval: 0 })
+      await store.increment('bans:1.2.3.4', 1000)
+      await store.increment('bans:5.6.7.8', 5000)
+      await store.increment('rate:1.2.3.4', 5000)
+
+      advance(2000)
+      await store.get('other')
+      expect((store as any).entries.size).toBe(2)
+      expect((await store.list('bans:')).map(([key]) => key)).toEqual(['bans:5.6.7.8'])
+    })
+  })
+
+  describe('FileLimitStore', () => {
+    let dir: string
+    let file: string
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'limits-'))
+      file = path.join(dir, 'limits.json')
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('keeps live entries across restarts', async () => {
+      const store = new FileLimitStore({ file })
+      await store.update('bans:1.2.3.4', () => ({ count: 3, expiresAt: Date.now() + 60 * 1000 }))
+      await store.update('bans:5.6.7.8', () => ({ count: 3, expiresAt: Date.now() + 10 }))
+
+      advance(100)
+      const restarted = new FileLimitStore({ file })
+      expect(await restarted.list('bans:')).toEqual([['bans:1.2.3.4', expect.objectContaining({ count: 3 })]])
+      expect(fs.readdirSync(dir)).toEqual(['limits.json'])
+    })
+
+    it('counts the hits of stores sharing the file, as server processes do', async () => {
+      const stores = [new FileLimitStore({ file }), new FileLimitStore({ file })]
+      await Promise.all(Array.from({ length: 20 }, (_, i) => stores[i % 2].increment('rate:a', 60 * 1000)))
+      await stores[0].decrement('rate:a')
+
+      expect(await stores[1].get('rate:a')).toMatchObject({ count: 19 })
+    })
+
+    it('takes over a lock left by a process that died', async () => {
+      fs.writeFileSync(`${file}.lock`, '12345')
+      const past = new Date(Date.now() - 60 * 1000)
+      fs.utimesSync(`${file}.lock`, past, past)
+
+      expect(await new FileLimitStore({ file }).increment('rate:a', 1000)).toMatchObject({ count: 1 })
+    })
+
+    it('leaves a lock another process took over after it was found stale', async () => {
+      const lockFile = `${file}.lock`
+      fs.writeFileSync(lockFile, '12345')
+      const past = new Date(Date.now() - 60 * 1000)
+      fs.utimesSync(lockFile, past, past)
+
+      // Another process takes the stale lock over just after this one saw it
+      const stat = fs.statSync
+      jest.spyOn(fs, 'statSync').mockImplementationOnce(((...args: Parameters<typeof fs.statSync>) => {
+        const stats = stat(...args)
+        fs.writeFileSync(lockFile, '67890')
+        return stats
+      }) as typeof fs.statSync)
+
+      let done = false
+      const increment = new FileLimitStore({ file }).increment('rate:a', 1000).then(() => done = true)
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(done).toBe(false)
+      expect(fs.readFileSync(lockFile, 'utf8')).toBe('67890')
+
+      fs.rmSync(lockFile)
+      await increment
+    })
+
+    it('lets one of the processes contending for a stale lock take it over', async () => {
+      fs.writeFileSync(`${file}.lock`, '12345')
+      const past = new Date(Date.now() - 60 * 1000)
+      fs.utimesSync(`${file}.lock`, past, past)
+
+      // Server processes that start counting at the same moment
+      const start = Date.now() + 1000
+      const script = `
+        const { FileLimitStore } = require(${JSON.stringify(path.join(__dirname, '../src/limits/store.ts'))})
+        const store = new FileLimitStore({ file: ${JSON.stringify(file)}, staleLock: 1000 })
+        setTimeout(() => Promise.all(Array.from({ length: 20 }, () => store.increment('rate:a', 60 * 1000))), ${start} - Date.now())
+      `
+      const run = () => promisify(execFile)(process.execPath, ['-r', require.resolve('tsx/cjs'), '-e', script])
+      await Promise.all([run(), run()])
+
+      expect(await new FileLimitStore({ file }).get('rate:a')).toMatchObject({ count: 40 })
+      expect(fs.readdirSync(dir)).toEqual(['limits.json'])
+    }, 20 * 1000)
+  })
+
+  describe('Lockout', () => {
+    const lockout = () => new Lockout(new MemoryLimitStore(), { maxErrors: 3, banTime: 10 * 60 * 1000 })
+
+    it('bans an address that fails too often, for a while', async () => {
+      const bans = lockout()
+      await bans.attempt('1.2.3.4')
+      await bans.attempt('1.2.3.4')
+      await bans.attempt('1.2.3.4')
+      await expect(bans.attempt('1.2.3.4')).rejects.toThrow('Error: 1.2.3.4 验证次数过多，请在10分钟后重试！')
+      await bans.attempt('5.6.7.8')
+      expect(await bans.listBans()).toEqual([{ ip: '1.2.3.4', until: expect.any(Number) }])
+
+      advance(10 * 60 * 1000)
+      await bans.attempt('1.2.3.4')
+      expect(await bans.listBans()).toEqual([])
+    })
+
+    it('forgets an address that authenticates', async () => {
+      const bans = lockout()
+      await bans.attempt('1.2.3.4')
+      await bans.attempt('1.2.3.4')
+      await bans.succeed('1.2.3.4')
+      await bans.attempt('1.2.3.4')
+      await bans.attempt('1.2.3.4')
+      expect(await bans.listBans()).toEqual([])
+    })
+
+    it('counts failures that arrive together', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'limits-'))
+      try {
+        // Two processes sharing the store file
+        const file = path.join(dir, 'limits.json')
+        const options = { maxErrors: 3, banTime: 60 * 1000 }
+        const processes = [new Lockout(new FileLimitStore({ file }), options), new Lockout(new FileLimitStore({ file }), options)]
+        const results = await Promise.allSettled(Array.from({ length: 8 }, (_, i) => processes[i % 2].attempt('1.2.3.4')))
+
+        expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(3)
+        expect(await processes[0].listBans()).toEqual([{ ip: '1.2.3.4', until: expect.any(Number) }])
+      }
+      finally {
+        fs.rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    it('is off without AUTH_SECRET_ERROR_COUNT', async () => {
+      const bans = new Lockout(new MemoryLimitStore())
+      for (let i = 0; i < 10; i++)
+        await bans.attempt('1.2.3.4')
+      expect(await bans.listBans()).toEqual([])
+    })
+
+    it.each(['0', 'many'])('is off with AUTH_SECRET_ERROR_COUNT=%s', async (count) => {
+      process.env.AUTH_SECRET_ERROR_COUNT = count
+      try {
+        const store = new MemoryLimitStore()
+        const update = jest.spyOn(store, 'update')
+        const bans = new Lockout(store)
+        for (let i = 0; i < 10; i++)
+          await bans.attempt('1.2.3.4')
+        await bans.succeed('1.2.3.4')
+        expect(await bans.listBans()).toEqual([])
+        expect(update).not.toHaveBeenCalled()
+      }
+      finally {
+        delete process.env.AUTH_SECRET_ERROR_COUNT
+      }
+    })
+  })
+
+  describe('RateLimitStore', () => {
+    it('limits express-rate-limit clients in the limit store', async () => {
+      const store = new MemoryLimitStore()
+      const app = express()
+      app.use(rateLimit({ windowMs: 60 * 1000, max: 2, store: new RateLimitStore(store) }))
+      app.get('/', (req, res) => res.json({ ok: true }))
+
+      await request(app).get('/').expect(200)
+      await request(app).get('/').expect(200)
+      await request(app).get('/').expect(429)
+      expect(await store.list('rate:')).toEqual([[expect.stringMatching(/^rate:/), expect.objectContaining({ count: 3 })]])
+    })
+
+    it('counts limiters with their own prefix apart', async () => {
+      const store = new MemoryLimitStore()
+      const limit = (prefix?: string) => rateLimit({ windowMs: 60 * 1000, max: 1, keyGenerator: () => 'client', store: new RateLimitStore(store, prefix) })
+      const app = express()
+      app.get('/a', limit(), (req, res) => res.json({ ok: true }))
+      app.get('/b', limit('rate:b:'), (req, res) => res.json({ ok: true }))
+
+      await request(app).get('/a').expect(200)
+      await request(app).get('/b').expect(200)
+      await request(app).get('/b').expect(429)
+      expect((await store.list('rate:')).map(([key, entry]) => [key, entry.count])).toEqual([['rate:client', 1], ['rate:b:client', 2]])
+    })
+  })
+
+  describe('clientIp', () => {
+    const app = (trust: ReturnType<typeof trustProxy>) => {
+      const served = express()
+      served.set('trust proxy', trust)
+      served.get('/', (req, res) => res.json({ ip: clientIp(req) }))
+      return served
+    }
+
+    it('reads the parsed TRUSTED_PROXIES setting', () => {
+      expect(trustProxy(undefined)).toEqual(['loopback', 'linklocal', 'uniquelocal'])
+      expect(trustProxy('2')).toBe(2)
+      expect(trustProxy('false')).toBe(false)
+      expect(trustProxy('10.0.0.0/8, 192.168.1.2')).toEqual(['10.0.0.0/8', '192.168.1.2'])
+    })
+
+    it('follows x-forwarded-for through trusted proxies only', async () => {
+      // Requests come from the loopback, a trusted proxy by default
+      const trusted = await request(app(trustProxy(undefined))).get('/').set('X-Forwarded-For', '203.0.113.7, 10.0.0.2').expect(200)
+      expect(trusted.body.ip).toBe('203.0.113.7')
+
+      // A client cannot pick its address in front of an untrusted peer
+      const spoofed = await request(app(trustProxy('10.0.0.0/8'))).get('/').set('X-Forwarded-For', '203.0.113.7').expect(200)
+      expect(spoofed.body.ip).toMatch(/127\.0\.0\.1|::1/)
+    })
+
+    it('reads the address of upgrade requests with the trusted proxies of the app', async () => {
+      const read = (trust: ReturnType<typeof trustProxy>, headers: IncomingHttpHeaders) => {
+        const served = express().set('trust proxy', trust)
+        const request = { headers, socket: { remoteAddress: '127.0.0.1' } } as unknown as IncomingMessage
+        return upgradeIp(request, served)
+      }
+
+      expect(read(trustProxy(undefined), { 'x-forwarded-for': '203.0.113.7' })).toBe('203.0.113.7')
+      expect(read(trustProxy('10.0.0.0/8'), { 'x-forwarded-for': '203.0.113.7' })).toBe('127.0.0.1')
+    })
+  })
+
+  describe('Ban routes', () => {
+    it('lists and lifts bans', async () => {
+      const bans = new Lockout(new MemoryLimitStore(), { maxErrors: 1, banTime: 60 * 1000 })
+      await bans.attempt('1.2.3.4')
+      await bans.attempt('::ffff:5.6.7.8')
+      const app = express()
+      app.use('/api/admin/bans', createBanRoutes(bans))
+
+      const list = await request(app).get('/api/admin/bans').expect(200)
+      expect(list.body.map((ban: any) => ban.ip).sort()).toEqual(['1.2.3.4', '::ffff:5.6.7.8'])
+
+      await request(app).delete('/api/admin/bans/1.2.3.4').expect(200, { cleared: 1 })
+      await request(app).delete('/api/admin/bans/1.2.3.4').expect(404)
+      await bans.attempt('1.2.3.4')
+      await request(app).delete('/api/admin/bans').expect(200, { cleared: 2 })
+      await request(app).get('/api/admin/bans').expect(200, [])
+    })
+  })
+})
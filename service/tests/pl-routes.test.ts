@@ -0,0 +1,350 @@
+import express from 'express'
+import request from 'supertest'
+import { PLAPIRoutes } from '../src/pl/routes'
+import { executeInWorker } from '../src/pl/execute'
+
+const createApp = () => {
+  const app = express()
+  app.use(express.json({ limit: '10mb' }))
+  app.use('/api/pl', PLAPIRoutes)
+  return app
+}
+
+describe('PL API routes', () => {
+  const app = createApp()
+
+  describe('POST /api/pl/execute', () => {
+    it('captures printed output', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'print("Hello, World!")' })
+        .expect(200)
+
+      expect(response.body.success).toBe(true)
+      expect(response.body.output).toBe('Hello, World!\n')
+      expect(response.body.errors).toEqual([])
+      expect(response.body.executionTime).toBeGreaterThanOrEqual(0)
+    })
+
+    it('runs functions, loops and conditionals', async () => {
+      const code = [
+        'function fibonacci(n) {',
+        '  if (n <= 1) return n',
+        '  return fibonacci(n - 1) + fibonacci(n - 2)',
+        '}',
+        'for (var i = 0; i < 3; i = i + 1) {',
+        '  println(i)',
+        '}',
+        'println(fibonacci(10))',
+      ].join('\n')
+
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code })
+        .expect(200)
+
+      expect(response.body.output).toBe('0\n1\n2\n55\n')
+    })
+
+    it('exposes context values as globals', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'println(name)', context: { name: 'PL' } })
+        .expect(200)
+
+      expect(response.body.output).toBe('PL\n')
+    })
+
+    it('returns 400 for syntax errors', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'print "Hello, World!"' })
+        .expect(400)
+
+      expect(response.body.success).toBe(false)
+      expect(response.body.error).toContain('SyntaxError')
+    })
+
+    it('returns 400 for runtime errors', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'print(undefinedVariable)' })
+        .expect(400)
+
+      expect(response.body.success).toBe(false)
+      expect(response.body.error).toContain('ReferenceError')
+    })
+
+    it('returns 408 when execution times out', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'while (true) { }', timeout: 100 })
+        .expect(408)
+
+      expect(response.body.success).toBe(false)
+      expect(response.body.error).toContain('Timeout')
+    })
+
+    it('keeps output printed before a timeout', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'print("started")\nwhile (true) { }', timeout: 100 })
+        .expect(408)
+
+      expect(response.body.output).toBe('started\n')
+    })
+
+    it('returns 400 when an async function fails without being awaited', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'async function f() { throw "x" }\nf()\n1' })
+        .expect(400)
+
+      expect(response.body.success).toBe(false)
+      expect(response.body.error).toBe('x at line 1, column 22')
+    })
+
+    it('returns 408 when async code runs past the timeout', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'async function spin() { await 0\n while (true) { } }\nspin()\n1', timeout: 100 })
+        .expect(408)
+
+      expect(response.body.error).toContain('Timeout')
+    })
+
+    it('returns 400 for code that reaches host objects', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'process.exit(1)' })
+        .expect(400)
+
+      expect(response.body.success).toBe(false)
+      expect(response.body.error).toContain('SecurityError')
+    })
+
+    it('returns 400 when recursion is too deep', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'function down(n) { return down(n + 1) }\ndown(0)' })
+        .expect(400)
+
+      expect(response.body.error).toContain('call depth')
+    })
+
+    it('runs code with the interpreter backend', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'function square(x) { return x * x }\nprintln(square(n))', context: { n: 7 }, backend: 'interpreter' })
+        .expect(200)
+
+      expect(response.body.output).toBe('49\n')
+    })
+
+    it('reports interpreter errors with their position', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'var x = 1\nprint(y)', backend: 'interpreter' })
+        .expect(400)
+
+      expect(response.body.error).toBe('Undefined variable \'y\' at line 2, column 7')
+    })
+
+    it('times out with the interpreter backend', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'while (true) { }', timeout: 100, backend: 'interpreter' })
+        .expect(408)
+
+      expect(response.body.error).toContain('Timeout')
+    })
+
+    it('rejects top-level await', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'println(await 1)', backend: 'interpreter' })
+        .expect(400)
+
+      expect(response.body.error).toBe('Top-level await is only supported by /execute/async')
+    })
+
+    it('rejects unknown backends', async () => {
+      await request(app)
+        .post('/api/pl/execute')
+        .send({ code: 'print(1)', backend: 'native' })
+        .expect(400)
+    })
+
+    it('returns 413 for oversized code', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send({ code: `print("${'a'.repeat(1000000)}")` })
+        .expect(413)
+
+      expect(response.body.success).toBe(false)
+    })
+
+    it.each([
+      ['empty code', { code: '' }],
+      ['non-string code', { code: 123 }],
+      ['missing code', {}],
+    ])('rejects %s', async (_name, body) => {
+      const response = await request(app)
+        .post('/api/pl/execute')
+        .send(body)
+        .expect(400)
+
+      expect(response.body.success).toBe(false)
+    })
+  })
+
+  describe('POST /api/pl/execute/async', () => {
+    it('runs code that awaits at the top level', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute/async')
+        .send({ code: 'async function double(x) { return x * 2 }\nprintln(await double(21))' })
+        .expect(200)
+
+      expect(response.body.success).toBe(true)
+      expect(response.body.output).toBe('42\n')
+    })
+
+    it('rejects the transpiler backend', async () => {
+      const response = await request(app)
+        .post('/api/pl/execute/async')
+        .send({ code: 'println(await 1)', backend: 'transpiler' })
+        .expect(400)
+
+      expect(response.body.error).toBe('Field "backend" must be "interpreter" for async executions')
+    })
+  })
+
+  describe('executeInWorker', () => {
+    it('terminates workers that do not answer in time', async () => {
+      const started = Date.now()
+      const { status, body } = await executeInWorker({ code: 'while (true) { }', timeout: 5000, context: {}, backend: 'interpreter' }, 100)
+
+      expect(status).toBe(408)
+      expect(body.error).toBe('TimeoutError: Execution timed out after 5000ms')
+      expect(Date.now() - started).toBeLessThan(3000)
+    })
+  })
+
+  describe('validate and compile', () => {
+    it('validates code from the query string', async () => {
+      const response = await request(app)
+        .get('/api/pl/validate')
+        .query({ code: 'var x = 1' })
+        .expect(200)
+
+      expect(response.body).toEqual({ valid: true, errors: [], warnings: [], diagnostics: [] })
+    })
+
+    it('reports syntax errors without failing the request', async () => {
+      const response = await request(app)
+        .post('/api/pl/validate')
+        .send({ code: 'if (true { }' })
+        .expect(200)
+
+      expect(response.body.valid).toBe(false)
+      expect(response.body.errors.length).toBeGreaterThan(0)
+    })
+
+    it('reports every syntax error with its position', async () => {
+      const response = await request(app)
+        .post('/api/pl/validate')
+        .send({ code: 'var = 1\nprint("ok")\nif (x { }\nvar y = )' })
+        .expect(200)
+
+      expect(response.body.diagnostics.map((d: any) => [d.line, d.code])).toEqual([
+        [1, 'expected-token'],
+        [3, 'expected-token'],
+        [4, 'unexpected-token'],
+      ])
+      expect(response.body.diagnostics[0]).toMatchObject({ severity: 'error', column: 5, endLine: 1, endColumn: 6 })
+    })
+
+    it('reports semantic problems', async () => {
+      const response = await request(app)
+        .post('/api/pl/validate')
+        .send({ code: 'const limit = 1\nlimit = 2\nprint(user, other)', globals: ['user'] })
+        .expect(200)
+
+      expect(response.body.valid).toBe(false)
+      expect(response.body.diagnostics.map((d: any) => [d.severity, d.code])).toEqual([
+        ['error', 'const-reassignment'],
+        ['warning', 'undeclared-identifier'],
+      ])
+      expect(response.body.warnings).toEqual(['\'other\' is not defined at line 3, column 13'])
+    })
+
+    it('rejects malformed globals', async () => {
+      await request(app)
+        .post('/api/pl/validate')
+        .send({ code: 'print(1)', globals: 'user' })
+        .expect(400)
+    })
+
+    it('compiles code to JavaScript', async () => {
+      const response = await request(app)
+        .post('/api/pl/compile')
+        .send({ code: 'var x = 1', options: { runtime: false } })
+        .expect(200)
+
+      expect(response.body.code).toBe('var x = 1;')
+      expect(response.body.errors).toEqual([])
+    })
+  })
+
+  describe('POST /api/pl/format', () => {
+    it('formats code', async () => {
+      const response = await request(app)
+        .post('/api/pl/format')
+        .send({ code: 'var x=1 // one\nif(x>0){print(x)}' })
+        .expect(200)
+
+      expect(response.body).toEqual({ formatted: 'var x = 1 // one\nif (x > 0) {\n  print(x)\n}\n', errors: [] })
+    })
+
+    it('applies formatting options', async () => {
+      const response = await request(app)
+        .post('/api/pl/format')
+        .send({ code: 'while(true){break}', options: { braceStyle: 'allman', indentSize: 4 } })
+        .expect(200)
+
+      expect(response.body.formatted).toBe('while (true)\n{\n    break\n}\n')
+    })
+
+    it('returns code with syntax errors unchanged', async () => {
+      const response = await request(app)
+        .post('/api/pl/format')
+        .send({ code: 'var = 1' })
+        .expect(200)
+
+      expect(response.body.formatted).toBe('var = 1')
+      expect(response.body.errors).toEqual(['Expect identifier at line 1, column 5'])
+    })
+
+    it('rejects unknown options', async () => {
+      await request(app)
+        .post('/api/pl/format')
+        .send({ code: 'print(1)', options: { braceStyle: 'gnu' } })
+        .expect(400)
+    })
+  })
+
+  describe('reference data', () => {
+    it('lists builtin functions in the docs', async () => {
+      const response = await request(app)
+        .get('/api/pl/docs')
+        .expect(200)
+
+      expect(response.body.syntax.keywords).toContain('function')
+      expect(response.body.builtinFunctions.map((fn: any) => fn.name)).toContain('println')
+      expect(response.body.builtinFunctions).toContainEqual(expect.objectContaining({
+        name: 'Array.map',
+        method: 'array.map(fn): array',
+      }))
+    })
+  })
+})
@@ -0,0 +1,166 @@
+import http from 'http'
+import type { AddressInfo } from 'net'
+import express from 'express'
+import { WebSocket } from 'ws'
+import type { PLStreamMessage } from '../../src/pl/protocol'
+import { attachPLStream } from '../src/pl/stream'
+import { Lockout } from '../src/limits/lockout'
+import { MemoryLimitStore } from '../src/limits/store'
+
+describe('PL execution stream', () => {
+  const server = http.createServer()
+  const sockets = attachPLStream(server)
+  let url: string
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, resolve))
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/api/pl/stream`
+  })
+
+  afterAll(async () => {
+    sockets.clients.forEach(client => client.terminate())
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  afterEach(() => {
+    delete process.env.AUTH_SECRET_KEY
+  })
+
+  const connect = async (address = url): Promise<WebSocket> => {
+    const socket = new WebSocket(address)
+    await new Promise((resolve, reject) => {
+      socket.on('open', resolve)
+      socket.on('error', reject)
+    })
+    return socket
+  }
+
+  // Messages until the done message of a run
+  const run = (socket: WebSocket, request: Record<string, any>, onMessage?: (message: PLStreamMessage) => void) => {
+    const messages: PLStreamMessage[] = []
+    return new Promise<PLStreamMessage[]>((resolve) => {
+      socket.on('message', (data) => {
+        const message = JSON.parse(String(data))
+        messages.push(message)
+        onMessage?.(message)
+        if (message.type === 'done')
+          resolve(messages)
+      })
+      socket.send(JSON.stringify({ type: 'execute', ...request }))
+    })
+  }
+
+  it('streams printed output, the result and a done message', async () => {
+    const socket = await connect()
+    const messages = await run(socket, { id: 'run-1', code: 'println("Hello")\nprintln(total)\ntotal * 2', context: { total: 21 } })
+    socket.close()
+
+    expect(messages.map(message => message.type === 'stdout' ? message.data : '').join('')).toBe('Hello\n21\n')
+    expect(messages.slice(-2)).toEqual([
+      { type: 'result', id: 'run-1', data: 42 },
+      { type: 'done', id: 'run-1', success: true, executionTime: expect.any(Number), truncated: false },
+    ])
+  })
+
+  it('reports syntax and runtime errors', async () => {
+    const socket = await connect()
+    const syntax = await run(socket, { code: 'print("open"' })
+    expect(syntax[0]).toMatchObject({ type: 'error', data: expect.stringMatching(/^SyntaxError: /) })
+    expect(syntax[1]).toMatchObject({ type: 'done', success: false })
+
+    const runtime = await run(socket, { code: 'println("before")\nmissing()' })
+    socket.close()
+    expect(runtime.map(message => message.type)).toEqual(['stdout', 'error', 'done'])
+    expect(runtime[1]).toMatchObject({ data: expect.stringMatching(/Undefined variable 'missing'/) })
+  })
+
+  it('stops a run on cancel', async () => {
+    const socket = await connect()
+    const messages = await run(socket, { code: 'var n = 0\nwhile (true) {\n  n = n + 1\n  if (n % 1000 == 0) println(n)\n}' }, (message) => {
+      if (message.type === 'stdout')
+        socket.send(JSON.stringify({ type: 'cancel' }))
+    })
+    socket.close()
+
+    expect(messages.at(-2)).toMatchObject({ type: 'error', data: 'Execution cancelled' })
+    expect(messages.at(-1)).toMatchObject({ type: 'done', success: false })
+  })
+
+  it('rejects invalid requests without closing the connection', async () => {
+    const socket = await connect()
+    const errors: PLStreamMessage[] = []
+    await new Promise<void>((resolve) => {
+      socket.on('message', (data) => {
+        errors.push(JSON.parse(String(data)))
+        if (errors.length === 2)
+          resolve()
+      })
+      socket.send(JSON.stringify({ type: 'execute', code: '' }))
+      socket.send(JSON.stringify({ type: 'shout' }))
+    })
+
+    expect(errors).toEqual([
+      { type: 'error', data: 'Field "code" must be a non-empty string' },
+      { type: 'error', data: 'Unknown message type "shout"' },
+    ])
+    expect((await run(socket, { code: '1' })).at(-1)).toMatchObject({ success: true })
+    socket.close()
+  })
+
+  it('closes on a close message', async () => {
+    const socket = await connect()
+    const code = await new Promise((resolve) => {
+      socket.on('close', resolve)
+      socket.send(JSON.stringify({ type: 'close' }))
+    })
+    expect(code).toBe(1000)
+  })
+
+  it('closes the connection on a malformed frame and keeps serving', async () => {
+    const socket = await connect()
+    const closed = new Promise(resolve => socket.on('close', resolve))
+    socket.on('error', () => {})
+    // A masked, empty text frame with RSV1 set, which needs an extension the server does not offer
+    ;(socket as any)._socket.write(Buffer.from([0xC1, 0x80, 0, 0, 0, 0]))
+    expect(await closed).toBe(1002)
+
+    const next = await connect()
+    expect((await run(next, { code: '1' })).at(-1)).toMatchObject({ success: true })
+    next.close()
+  })
+
+  it('requires one of the secret keys when they are set', async () => {
+    process.env.AUTH_SECRET_KEY = 'alpha,beta'
+    await expect(connect()).rejects.toThrow(/401/)
+    await expect(connect(`${url}?token=wrong`)).rejects.toThrow(/401/)
+
+    const socket = await connect(`${url}?token=beta`)
+    expect(socket.readyState).toBe(WebSocket.OPEN)
+    socket.close()
+  })
+
+  it('bans addresses that fail too often, as the HTTP routes do', async () => {
+    process.env.AUTH_SECRET_KEY = 'alpha'
+    const bans = new Lockout(new MemoryLimitStore(), { maxErrors: 2, banTime: 60 * 1000 })
+    const guarded = http.createServer()
+    const guardedSockets = attachPLStream(guarded, express(), bans)
+    await new Promise<void>(resolve => guarded.listen(0, resolve))
+    const guardedUrl = `ws://127.0.0.1:${(guarded.address() as AddressInfo).port}/api/pl/stream`
+
+    try {
+      // A success forgets earlier failures
+      await expect(connect(`${guardedUrl}?token=wrong`)).rejects.toThrow(/401/)
+      const socket = await connect(`${guardedUrl}?token=alpha`)
+      socket.close()
+      await expect(connect(`${guardedUrl}?token=wrong`)).rejects.toThrow(/401/)
+      await expect(connect(`${guardedUrl}?token=wrong`)).rejects.toThrow(/401/)
+
+      await expect(connect(`${guardedUrl}?token=alpha`)).rejects.toThrow(/429/)
+      expect(await bans.listBans()).toEqual([{ ip: expect.stringMatching(/127\.0\.0\.1/), until: expect.any(Number) }])
+    }
+    finally {
+      guardedSockets.clients.forEach(client => client.terminate())
+      await new Promise(resolve => guarded.close(resolve))
+    }
+  })
+})
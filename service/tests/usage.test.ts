@@ -0,0 +1,254 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import express from 'express'
+import request from 'supertest'
+import type { Scope } from '../src/accounts/store'
+import { findTokens, meter, reportUsage } from '../src/usage/meter'
+import type { MeterOptions } from '../src/usage/meter'
+import { createUsageAdminRoutes, createUsageRoutes } from '../src/usage/routes'
+import { UsageStore } from '../src/usage/store'
+
+// The meter records once the response has closed, which is just after the client has it
+const settle = () => new Promise(resolve => setTimeout(resolve, 20))
+
+const NOW = Date.UTC(2024, 4, 15, 12)
+
+describe('Usage', () => {
+  let store: UsageStore
+
+  beforeEach(() => {
+    store = new UsageStore({ quota: { daily: { requests: 3 }, monthly: { tokens: 1000 } } })
+  })
+
+  // Requests are made as the user of the X-User header, with the scopes of X-Scopes
+  const app = (handler: express.RequestHandler, provider = 'openai', options: MeterOptions = {}) => {
+    const served = express()
+    served.use(express.json())
+    served.use((req, res, next) => {
+      const id = req.header('X-User')
+      if (id)
+        req.user = { id, name: id, scopes: (req.header('X-Scopes') ?? 'chat').split(',') as Scope[] }
+      next()
+    })
+    served.use('/usage', createUsageRoutes(store))
+    served.use('/admin/usage', createUsageAdminRoutes(store))
+    served.all('*', meter(provider, options, store), handler)
+    return served
+  }
+
+  describe('UsageStore', () => {
+    it('counts per user, provider, model and day', () => {
+      store.record({ userId: 'ada', provider: 'openai', model: 'gpt-4o', requests: 1, promptTokens: 10, completionTokens: 5, tokens: 15 }, NOW)
+      store.record({ userId: 'ada', provider: 'openai', model: 'gpt-4o', requests: 1, tokens: 20 }, NOW)
+      store.record({ userId: 'ada', provider: 'suno', requests: 1, generations: 1 }, NOW - 24 * 60 * 60 * 1000)
+      store.record({ userId: 'bob', provider: 'openai', model: 'gpt-4o', requests: 1 }, NOW)
+
+      expect(store.used('ada', 'daily', NOW)).toEqual({ requests: 2, promptTokens: 10, completionTokens: 5, tokens: 35, generations: 0 })
+      expect(store.used('ada', 'monthly', NOW)).toMatchObject({ requests: 3, tokens: 35, generations: 1 })
+
+      const report = store.report({ groupBy: ['user', 'provider'] }, NOW)
+      expect(report.from).toBe('2024-05-01')
+      expect(report.to).toBe('2024-05-15')
+      expect(report.totals).toMatchObject({ requests: 4, tokens: 35, generations: 1 })
+      expect(report.rows).toEqual([
+        expect.objectContaining({ user: 'ada', provider: 'openai', requests: 2 }),
+        expect.objectContaining({ user: 'ada', provider: 'suno', requests: 1 }),
+        expect.objectContaining({ user: 'bob', provider: 'openai', requests: 1 }),
+      ])
+      expect(store.report({ userId: 'ada', from: '2024-05-15', groupBy: ['model'] }, NOW).rows)
+        .toEqual([expect.objectContaining({ model: 'gpt-4o', requests: 2 })])
+    })
+
+    it('reports the first limit reached, and when it resets', () => {
+      store.record({ userId: 'ada', provider: 'openai', requests: 2 }, NOW)
+      expect(store.checkQuota('ada', NOW)).toBeUndefined()
+
+      store.record({ userId: 'ada', provider: 'openai', requests: 1, tokens: 1200 }, NOW)
+      expect(store.checkQuota('ada', NOW)).toEqual({ period: 'daily', metric: 'requests', limit: 3, used: 3, resetAt: Date.UTC(2024, 4, 16) })
+      // The day is over, the month is not
+      expect(store.checkQuota('ada', Date.UTC(2024, 4, 16, 1))).toEqual({ period: 'monthly', metric: 'tokens', limit: 1000, used: 1200, resetAt: Date.UTC(2024, 5, 1) })
+      expect(store.checkQuota('ada', Date.UTC(2024, 5, 1))).toBeUndefined()
+    })
+
+    it('holds users to their own limits over the default ones', () => {
+      expect(store.setQuota('ada', { daily: { requests: 10, generations: 2 } })).toEqual({
+        daily: { requests: 10, generations: 2 },
+        monthly: { tokens: 1000 },
+      })
+      store.record({ userId: 'ada', provider: 'luma', requests: 3, generations: 2 }, NOW)
+      expect(store.checkQuota('ada', NOW)).toMatchObject({ metric: 'generations', limit: 2 })
+
+      expect(store.setQuota('ada')).toEqual({ daily: { requests: 3 }, monthly: { tokens: 1000 } })
+    })
+
+    it('keeps the counts and quotas in its file', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-'))
+      try {
+        const file = path.join(dir, 'usage.json')
+        const saved = new UsageStore({ file })
+        saved.record({ userId: 'ada', provider: 'kling', requests: 1, generations: 1 }, NOW)
+        saved.setQuota('ada', { monthly: { generations: 5 } })
+        saved.record({ userId: 'ada', provider: 'kling', requests: 1 }, NOW)
+        saved.flush()
+
+        const reloaded = new UsageStore({ file, quota: {} })
+        expect(reloaded.used('ada', 'monthly', NOW)).toMatchObject({ requests: 2, generations: 1 })
+        expect(reloaded.getQuota('ada')).toEqual({ daily: {}, monthly: { generations: 5 } })
+      }
+      finally {
+        fs.rmSync(dir, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe('findTokens', () => {
+    it('reads the last usage block of JSON and of event streams', () => {
+      expect(findTokens('{"id":"1","usage":{"prompt_tokens":9,"completion_tokens":3,"total_tokens":12,"prompt_tokens_details":{"cached_tokens":0}}}'))
+        .toEqual({ promptTokens: 9, completionTokens: 3, tokens: 12 })
+      expect(findTokens('data: {"usage":null}\n\ndata: {"choices":[],"usage":{"prompt_tokens":4,"completion_tokens":6,"total_tokens":10}}\n\ndata: [DONE]\n\n'))
+        .toEqual({ promptTokens: 4, completionTokens: 6, tokens: 10 })
+      expect(findTokens('{"usage":{"input_tokens":7,"output_tokens":2}}')).toEqual({ promptTokens: 7, completionTokens: 2, tokens: 9 })
+      expect(findTokens('data: {"usage":null}\n\n')).toBeUndefined()
+      expect(findTokens('{"data":[]}')).toBeUndefined()
+    })
+  })
+
+  describe('meter', () => {
+    it('counts the request, the tokens of the response and its model', async () => {
+      const served = app((req, res) => res.json({ model: 'gpt-4o-2024', usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 } }))
+      await request(served).post('/v1/chat/completions').set('X-User', 'ada').send({ model: 'gpt-4o' }).expect(200)
+      await settle()
+
+      expect(store.report({}, Date.now()).rows).toEqual([{
+        user: 'ada',
+        provider: 'openai',
+        model: 'gpt-4o',
+        requests: 1,
+        promptTokens: 12,
+        completionTokens: 8,
+        tokens: 20,
+        generations: 1,
+      }])
+    })
+
+    it('reads the usage of streamed responses, but not of compressed ones', async () => {
+      const served = app((req, res) => {
+        if (req.query.br)
+          res.setHeader('Content-Encoding', 'br')
+        res.setHeader('Content-Type', 'text/event-stream')
+        res.write('data: {"choices":[{"delta":{"content":"Hi"}}],"usage":null}\n\n')
+        res.write(Buffer.from('data: {"choices":[],"usage":{"prompt_tokens":5,"completion_tokens":1,"total_tokens":6}}\n\n'))
+        res.end('data: [DONE]\n\n')
+      }, 'openai', { generation: () => false })
+
+      await request(served).post('/v1/chat/completions').set('X-User', 'ada').send({ model: 'gpt-4o', stream: true }).expect(200)
+      await request(served).post('/v1/chat/completions?br=1').set('X-User', 'ada').send({ model: 'gpt-4o', stream: true })
+      await settle()
+
+      expect(store.used('ada', 'daily')).toEqual({ requests: 2, promptTokens: 5, completionTokens: 1, tokens: 6, generations: 0 })
+    })
+
+    it('takes the usage a handler reports over the response', async () => {
+      const served = app((req, res) => {
+        res.write('{"text":"partial"}')
+        reportUsage(res, { model: 'gpt-3.5-turbo', usage: { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7, estimated: true } })
+        res.end()
+      })
+      await request(served).post('/chat-process').set('X-User', 'ada').send({ prompt: 'Hi' }).expect(200)
+      await settle()
+
+      expect(store.report({}, Date.now()).rows).toEqual([expect.objectContaining({ model: 'gpt-3.5-turbo', tokens: 7 })])
+    })
+
+    it('counts generations for successful submissions only', async () => {
+      const served = app((req, res) => res.status(req.body?.fail ? 500 : 200).json({ id: 'task-1' }), 'luma')
+      await request(served).post('/luma/generations').set('X-User', 'ada').send({}).expect(200)
+      await request(served).post('/luma/generations').set('X-User', 'ada').send({ fail: true }).expect(500)
+      await request(served).get('/luma/generations/task-1').set('X-User', 'ada').expect(200)
+      await settle()
+
+      expect(store.used('ada', 'daily')).toMatchObject({ requests: 3, generations: 1 })
+    })
+
+    it('answers 429 once a quota is used up, except to admins', async () => {
+      const served = app((req, res) => res.json({ ok: true }))
+      for (let i = 0; i < 3; i++)
+        await request(served).get('/v1/models').set('X-User', 'ada').expect(200)
+      await settle()
+
+      const response = await request(served).get('/v1/models').set('X-User', 'ada').expect(429)
+      expect(response.body).toMatchObject({
+        code: 'usage_quota',
+        message: 'Error: 已用完每日额度 | Daily requests quota of 3 used up',
+        data: { period: 'daily', metric: 'requests', limit: 3, used: 3 },
+      })
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0)
+
+      await request(served).get('/v1/models').set('X-User', 'bob').expect(200)
+      store.record({ userId: 'root', provider: 'openai', requests: 5 })
+      await request(served).get('/v1/models').set('X-User', 'root').set('X-Scopes', 'admin').expect(200)
+    })
+
+    it('counts requests without a user against their address, and skips unmetered ones', async () => {
+      const served = app((req, res) => res.json({ ok: true }), 'kling')
+      await request(served).get('/kling/task').expect(200)
+      await settle()
+      expect(store.report({}, Date.now()).rows).toEqual([expect.objectContaining({ user: expect.stringMatching(/^ip:/), provider: 'kling' })])
+
+      const skipped = express()
+      skipped.all('*', meter(() => undefined, {}, store), (req, res) => res.json({ ok: true }))
+      await request(skipped).get('/jobs').expect(200)
+      await settle()
+      expect(store.report({}, Date.now()).totals.requests).toBe(1)
+    })
+  })
+
+  describe('routes', () => {
+    it('shows users what they used of their quota', async () => {
+      store.record({ userId: 'ada', provider: 'openai', model: 'gpt-4o', requests: 2, tokens: 30 })
+      store.record({ userId: 'bob', provider: 'openai', model: 'gpt-4o', requests: 1 })
+
+      const response = await request(app(() => {})).get('/usage').set('X-User', 'ada').expect(200)
+      expect(response.body).toMatchObject({
+        userId: 'ada',
+        quota: { daily: { requests: 3 }, monthly: { tokens: 1000 } },
+        daily: { requests: 2, tokens: 30 },
+        monthly: { requests: 2, tokens: 30 },
+        totals: { requests: 2 },
+        rows: [{ provider: 'openai', model: 'gpt-4o', requests: 2 }],
+      })
+    })
+
+    it('reports every user and manages quotas for admins', async () => {
+      store.record({ userId: 'ada', provider: 'suno', model: 'chirp-v3-5', requests: 1, generations: 1 })
+      store.record({ userId: 'bob', provider: 'luma', requests: 2 })
+      const served = app(() => {})
+
+      const report = await request(served).get('/admin/usage?groupBy=provider').expect(200)
+      expect(report.body.rows).toEqual([
+        expect.objectContaining({ provider: 'luma', requests: 2 }),
+        expect.objectContaining({ provider: 'suno', requests: 1, generations: 1 }),
+      ])
+      const ada = await request(served).get('/admin/usage?userId=ada').expect(200)
+      expect(ada.body.totals).toMatchObject({ requests: 1 })
+
+      const quota = await request(served).put('/admin/usage/quotas/ada').send({ monthly: { generations: 50 } }).expect(200)
+      expect(quota.body).toEqual({ daily: { requests: 3 }, monthly: { tokens: 1000, generations: 50 } })
+      await request(served).get('/admin/usage/quotas/ada').expect(200, quota.body)
+      const reset = await request(served).delete('/admin/usage/quotas/ada').expect(200)
+      expect(reset.body).toEqual({ daily: { requests: 3 }, monthly: { tokens: 1000 } })
+    })
+
+    it('validates requests', async () => {
+      const served = app(() => {})
+      const day = await request(served).get('/admin/usage?from=May').expect(400)
+      expect(day.body).toEqual({ success: false, error: 'Parameter "from" must be a day as YYYY-MM-DD' })
+      await request(served).get('/admin/usage?groupBy=team').expect(400)
+      await request(served).get('/usage?to=2024-5-1').set('X-User', 'ada').expect(400)
+      await request(served).put('/admin/usage/quotas/ada').send({ daily: { dollars: 5 } }).expect(400)
+      await request(served).put('/admin/usage/quotas/ada').send({ daily: { requests: -1 } }).expect(400)
+      await request(served).put('/admin/usage/quotas/ada').send({ daily: 5 }).expect(400)
+    })
+  })
+})
@@ -1,7 +1,8 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  // The PL execution worker is started from its own file
+  entry: { 'index': 'src/index.ts', 'pl-worker': 'src/pl/worker.ts' },
   outDir: 'build',
   target: 'es2020',
   format: ['esm'],
@@ -1,6 +1,4 @@
-import { gptServerStore, homeStore, useAuthStore } from "@/store";
-import { mlog } from "./mjapi";
-import { sleep } from "./suno";
+import { createProviderFetch, plainMount } from "./providers/client";
 
 
 export interface IdeoImageData {
@@ -10,40 +8,7 @@ export interface IdeoImageData {
   seed: number;
   url: string;
 }
-function getHeaderAuthorization(){
-    let headers={}
-    if( homeStore.myData.vtoken ){
-        const  vtokenh={ 'x-vtoken':  homeStore.myData.vtoken ,'x-ctoken':  homeStore.myData.ctoken};
-        headers= {...headers, ...vtokenh}
-    }
-    if(!gptServerStore.myData.IDEO_KEY){
-        const authStore = useAuthStore()
-        if( authStore.token ) {
-            const bmi= { 'x-ptoken':  authStore.token };
-            headers= {...headers, ...bmi }
-            return headers;
-        }
-        return headers
-    }
-    const bmi={
-        'Authorization': 'Bearer ' +gptServerStore.myData.IDEO_KEY
-    }
-    headers= {...headers, ...bmi }
-    return headers
-}
-
-export const  getUrl=(url:string)=>{
-    if(url.indexOf('http')==0) return url;
-    
-    const pro_prefix= '';//homeStore.myData.is_luma_pro?'/pro':''
-    url= url.replaceAll('/pro','')
-    if(gptServerStore.myData.IDEO_SERVER){
-        
-        return `${ gptServerStore.myData.IDEO_SERVER}${pro_prefix}/ideogram${url}`;
-    }
-    return `${pro_prefix}/ideogram${url}`;
-}
- 
+export const ideoFetch= createProviderFetch({ name:'ideo', server:'IDEO_SERVER', key:'IDEO_KEY', url: plainMount('/ideogram') })
 
 export const ideoSubmit= async( data:any ):Promise<IdeoImageData[]>=>{
     let rz:IdeoImageData[]
@@ -65,57 +30,6 @@ export const ideoSubmit= async( data:any ):Promise<IdeoImageData[]>=>{
     return rz;
 
 }
-export const ideoFetch=(url:string,data?:any,opt2?:any )=>{
-    mlog('ideoFetch', url  );
-    let headers= opt2?.upFile?{}: {'Content-Type':'application/json'}
-     
-    if(opt2 && opt2.headers ) headers= opt2.headers;
-
-    headers={...headers,...getHeaderAuthorization()}
-   
-    return new Promise<any>((resolve, reject) => {
-        let opt:RequestInit ={method:'GET'};
-       
-        opt.headers= headers ;
-        if(opt2?.upFile ){
-             opt.method='POST';
-             opt.body=data as FormData ;
-        }
-        else if(data) {
-            opt.body= JSON.stringify(data) ;
-            opt.method='POST';
-        }
-        fetch(getUrl(url),  opt )
-        .then( async (d) =>{
-            if (!d.ok) { 
-                let msg = '发生错误: '+ d.status
-                try{ 
-                  let bjson:any  = await d.json();
-                  msg = '('+ d.status+')发生错误: '+(bjson?.error?.message??'' ) 
-                }catch( e ){ 
-                }
-                homeStore.myData.ms &&  homeStore.myData.ms.error(msg )
-                throw new Error( msg );
-            }
-     
-            d.json().then(d=> resolve(d)).catch(e=>{ 
-            
-                homeStore.myData.ms &&  homeStore.myData.ms.error('发生错误'+ e )
-                reject(e) 
-            }
-        )})
-        .catch(e=>{ 
-            if (e.name === 'TypeError' && e.message === 'Failed to fetch') {
-                homeStore.myData.ms &&  homeStore.myData.ms.error('跨域|CORS error'  )
-            }
-            else homeStore.myData.ms &&  homeStore.myData.ms.error('发生错误:'+e )
-            mlog('e', e.stat )
-            reject(e)
-        })
-    })
-
-}
-
 // export  async function FeedViggleTask(id:string){  
 //     const ss = new viggleStore()
 //     const hk= new lumaHkStore();
@@ -1,4 +1,4 @@
-import { ss } from '@/utils/storage'
+import { TaskStore } from './providers/store'
  
  type LumaVideo = {
     url: string;
@@ -19,35 +19,12 @@ export type LumaMedia = {
     estimate_wait_seconds?: number | null;
     last_feed?:number
 };
-export class lumaStore{
-  //private id: string;
-  private localKey='luma-store';
-  public save(obj:LumaMedia ){
-    if(!obj.id ) throw "id must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.id==obj.id );
-    if(i>-1) arr[i]= obj;
-    else arr.push(obj);
-     ss.set(this.localKey, arr );
-    return this;
-  } 
-  public findIndex(id:string){ 
-    return this.getObjs().findIndex( v=>v.id== id )
-  }
-
-  public getObjs():LumaMedia[]{
-     const obj = ss.get( this.localKey ) as  undefined| LumaMedia[];
-     if(!obj) return [];
-     return obj;
+export class lumaStore extends TaskStore<LumaMedia>{
+  constructor(){
+    super('luma-store', v=>v.id)
   }
   public delete( obj:LumaMedia ){
-    if(!obj.id ) throw "id must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.id==obj.id );
-    if(i<0) return false
-    arr.splice(i, 1);
-    ss.set(this.localKey, arr );
-    return true;
+    return this.deleteById(obj.id)
   }
 }
 
@@ -56,31 +33,8 @@ export type LumaHk={
   isHK:boolean
 }
 
-export class lumaHkStore{
-  //private id: string;
-  private localKey='luma-HK';
-  public save(obj:LumaHk ){
-    if(!obj.id ) throw "id must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.id==obj.id );
-    if(i>-1) arr[i]= obj;
-    else arr.push(obj);
-     ss.set(this.localKey, arr );
-    return this;
-  } 
-  public findIndex(id:string){ 
-    return this.getObjs().findIndex( v=>v.id== id )
-  }
-
-  public getObjs():LumaHk[]{
-     const obj = ss.get( this.localKey ) as  undefined| LumaHk[];
-     if(!obj) return [];
-     return obj;
-  }
-  public getOneById(id:string):LumaHk|null{
-    const i= this.findIndex(id)
-    if(i<0) return null;
-    let arr=  this.getObjs();
-    return arr[i]
+export class lumaHkStore extends TaskStore<LumaHk>{
+  constructor(){
+    super('luma-HK', v=>v.id)
   }
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { ss } from "@/utils/storage";
+import { TaskStore } from "./providers/store";
 interface Video {
   id: string;
   status: string;
@@ -20,40 +20,11 @@ export interface PikaTask {
   last_feed?:number;
 }
 
-export class pikaStore{
-  //private id: string;
-  private localKey='pika-store';
-  public save(obj:PikaTask ){
-    if(!obj.id ) throw "taskID must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.id==obj.id );
-    if(i>-1) arr[i]= obj;
-    else arr.push(obj);
-     ss.set(this.localKey, arr );
-    return this;
-  } 
-  public findIndex(id:string){ 
-    return this.getObjs().findIndex( v=>v.id== id )
-  }
-
-  public getObjs():PikaTask[]{
-     const obj = ss.get( this.localKey ) as  undefined| PikaTask[];
-     if(!obj) return [];
-     return obj;
-  }
-  public getOneById(id:string):PikaTask|null{
-    const i= this.findIndex(id)
-    if(i<0) return null;
-    let arr=  this.getObjs();
-    return arr[i]
+export class pikaStore extends TaskStore<PikaTask>{
+  constructor(){
+    super('pika-store', v=>v.id)
   }
   public delete( obj:PikaTask ){
-    if(!obj.id ) throw "id must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.id==obj.id );
-    if(i<0) return false
-    arr.splice(i, 1);
-    ss.set(this.localKey, arr );
-    return true;
+    return this.deleteById(obj.id)
   }
 }
\ No newline at end of file
@@ -4,45 +4,44 @@
  */
 
 import axios from 'axios'
-
-export interface PLExecutionRequest {
-  code: string
-  context?: Record<string, any>
-  timeout?: number
-  async?: boolean
-}
-
-export interface PLExecutionResponse {
-  output: any
-  errors: string[]
-  executionTime: number
-}
-
-export interface PLCompileRequest {
-  code: string
-  options?: {
-    sourceMap?: boolean
-    minify?: boolean
-    runtime?: boolean
-  }
+import type { FormatOptions } from '../pl/formatter/formatter'
+import type {
+  PLCompileRequest,
+  PLCompileResponse,
+  PLExecutionRequest,
+  PLExecutionResponse,
+  PLFormatResponse,
+  PLStreamMessage,
+  PLStreamRequest,
+  PLValidationRequest,
+  PLValidationResponse,
+} from '../pl/protocol'
+import { useAuthStore } from '@/store'
+
+export type {
+  PLCompileRequest,
+  PLCompileResponse,
+  PLExecutionRequest,
+  PLExecutionResponse,
+  PLFormatRequest,
+  PLFormatResponse,
+  PLStreamMessage,
+  PLStreamRequest,
+  PLValidationRequest,
+  PLValidationResponse,
+} from '../pl/protocol'
+
+export interface PLStreamHandle {
+  /** Stop the run; a done message follows */
+  cancel(): void
 }
 
-export interface PLCompileResponse {
-  code: string
-  errors: string[]
-  warnings: string[]
-  sourceMap?: any
-}
-
-export interface PLValidationRequest {
-  code: string
-}
-
-export interface PLValidationResponse {
-  valid: boolean
-  errors: string[]
-  warnings: string[]
-  ast?: any
+/**
+ * The login token, sent as the other API clients send it
+ */
+function getHeaders(): Record<string, string> {
+  const authStore = useAuthStore()
+  return authStore.token ? { 'x-ptoken': authStore.token } : {}
 }
 
 export class PLAPI {
@@ -59,7 +58,8 @@ export class PLAPI {
     try {
       const response = await axios.post<PLExecutionResponse>(
         `${this.baseURL}/execute`,
-        request
+        request,
+        { headers: getHeaders() }
       )
       return response.data
     } catch (error: any) {
@@ -77,7 +77,8 @@ export class PLAPI {
         {
           ...request,
           async: true
-        }
+        },
+        { headers: getHeaders() }
       )
       return response.data
     } catch (error: any) {
@@ -85,6 +86,45 @@ export class PLAPI {
     }
   }
 
+  /**
+   * Execute PL code over a WebSocket, receiving its output while it runs.
+   * The socket closes after the done message; onClose reports whether one arrived.
+   */
+  stream(
+    request: Omit<Extract<PLStreamRequest, { type: 'execute' }>, 'type'>,
+    onMessage: (message: PLStreamMessage) => void,
+    options: { token?: string; onClose?: (completed: boolean) => void } = {}
+  ): PLStreamHandle {
+    const url = new URL(`${this.baseURL}/stream`, window.location.href)
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
+    if (options.token) {
+      url.searchParams.set('token', options.token)
+    }
+
+    const socket = new WebSocket(url)
+    let completed = false
+    socket.onopen = () => socket.send(JSON.stringify({ ...request, type: 'execute' }))
+    socket.onmessage = (event) => {
+      const message: PLStreamMessage = JSON.parse(event.data)
+      onMessage(message)
+      if (message.type === 'done') {
+        completed = true
+        socket.send(JSON.stringify({ type: 'close' }))
+      }
+    }
+    socket.onclose = () => options.onClose?.(completed)
+
+    return {
+      cancel: () => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({ type: 'cancel' }))
+        } else {
+          socket.close()
+        }
+      }
+    }
+  }
+
   /**
    * Compile PL code to JavaScript
    */
@@ -92,7 +132,8 @@ export class PLAPI {
     try {
       const response = await axios.post<PLCompileResponse>(
         `${this.baseURL}/compile`,
-        request
+        request,
+        { headers: getHeaders() }
       )
       return response.data
     } catch (error: any) {
@@ -107,7 +148,8 @@ export class PLAPI {
     try {
       const response = await axios.post<PLValidationResponse>(
         `${this.baseURL}/validate`,
-        request
+        request,
+        { headers: getHeaders() }
       )
       return response.data
     } catch (error: any) {
@@ -118,11 +160,12 @@ export class PLAPI {
   /**
    * Format PL code
    */
-  async format(code: string): Promise<{ formatted: string; errors: string[] }> {
+  async format(code: string, options?: FormatOptions): Promise<PLFormatResponse> {
     try {
-      const response = await axios.post<{ formatted: string; errors: string[] }>(
+      const response = await axios.post<PLFormatResponse>(
         `${this.baseURL}/format`,
-        { code }
+        { code, options },
+        { headers: getHeaders() }
       )
       return response.data
     } catch (error: any) {
@@ -139,7 +182,7 @@ export class PLAPI {
     try {
       const response = await axios.get<
         Array<{ name: string; description: string; code: string }>
-      >(`${this.baseURL}/examples`)
+      >(`${this.baseURL}/examples`, { headers: getHeaders() })
       return response.data
     } catch (error: any) {
       throw new Error(`Failed to fetch examples: ${error.message}`)
@@ -152,10 +195,10 @@ export class PLAPI {
   async getDocumentation(): Promise<{
     version: string
     syntax: any
-    builtinFunctions: Array<{ name: string; signature: string; description: string }>
+    builtinFunctions: Array<{ name: string; signature: string; description: string; method?: string }>
   }> {
     try {
-      const response = await axios.get(`${this.baseURL}/docs`)
+      const response = await axios.get(`${this.baseURL}/docs`, { headers: getHeaders() })
       return response.data
     } catch (error: any) {
       throw new Error(`Failed to fetch documentation: ${error.message}`)
@@ -165,6 +208,3 @@ export class PLAPI {
 
 // Export singleton instance
 export const plAPI = new PLAPI()
-
-// Export for testing
-export { PLAPI }
@@ -0,0 +1,111 @@
+/**
+ * PL AI Providers
+ * The app's chat and Midjourney clients and its Suno and Luma generation providers behind the ai module of PL scripts
+ */
+
+import type { AIProviders, ChatRequest, GenerationRequest } from '../pl/host/ai'
+import { gptFetch } from './openapi'
+import { mjFetch } from './mjapi'
+import { getProvider, isFinished, sleep } from './providers'
+import type { GenerationTask } from './providers'
+
+const POLL_INTERVAL = 5000
+const MAX_POLLS = 120
+
+/**
+ * Fetch until the task is done, giving up after MAX_POLLS attempts or when the run is cancelled
+ */
+async function poll<T>(fetchTask: () => Promise<any>, done: (task: any) => T | undefined, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; attempt < MAX_POLLS; attempt++) {
+    if (signal?.aborted)
+      throw new Error('Cancelled')
+    const result = done(await fetchTask())
+    if (result !== undefined)
+      return result
+    await sleep(POLL_INTERVAL)
+  }
+  throw new Error('Timed out waiting for the result')
+}
+
+async function chat(request: ChatRequest): Promise<string> {
+  const response = await gptFetch('/v1/chat/completions', {
+    model: request.model ?? 'gpt-4o-mini',
+    messages: request.messages,
+    temperature: request.temperature,
+  })
+  const content = response?.choices?.[0]?.message?.content
+  if (typeof content !== 'string')
+    throw new Error(response?.error?.message ?? 'No reply')
+  return content
+}
+
+async function image({ prompt }: GenerationRequest, signal?: AbortSignal): Promise<any> {
+  const submitted = await mjFetch('/mj/submit/imagine', {
+    base64Array: [],
+    notifyHook: '',
+    prompt,
+    state: '',
+    botType: 'MID_JOURNEY',
+  })
+  if (!submitted?.result)
+    throw new Error(submitted?.description ?? 'Task was not accepted')
+
+  return await poll(() => mjFetch(`/mj/task/${submitted.result}/fetch`), (task) => {
+    if (task.status === 'FAILURE')
+      throw new Error(task.failReason ?? 'Generation failed')
+    if (task.status === 'SUCCESS')
+      return { id: task.id, url: task.imageUrl }
+    return undefined
+  }, signal)
+}
+
+/**
+ * Submit to a generation provider and poll until every record of the task is finished
+ */
+async function generate(name: string, input: any, signal?: AbortSignal): Promise<GenerationTask[]> {
+  const provider = getProvider(name)
+  const id = await provider.submit(input)
+  if (!id)
+    throw new Error('Task was not accepted')
+
+  return await poll(() => provider.poll(id), (records: any[]) => {
+    const tasks = records.map(record => provider.normalize(record))
+    const failed = tasks.find(task => task.status === 'failed')
+    if (failed)
+      throw new Error(failed.error ?? 'Generation failed')
+    if (tasks.length === 0 || !tasks.every(isFinished))
+      return undefined
+    return tasks
+  }, signal)
+}
+
+async function music({ prompt, instrumental }: GenerationRequest, signal?: AbortSignal): Promise<any> {
+  const clips = await generate('suno', {
+    gpt_description_prompt: prompt,
+    make_instrumental: Boolean(instrumental),
+    mv: 'chirp-v4',
+  }, signal)
+  return clips.map((clip) => {
+    const audio = clip.media.find(media => media.type === 'audio')
+    return { id: clip.id, title: clip.title, audio: audio?.url, image: audio?.cover }
+  })
+}
+
+async function video({ prompt, aspectRatio }: GenerationRequest, signal?: AbortSignal): Promise<any> {
+  const [generation] = await generate('luma', {
+    user_prompt: prompt,
+    aspect_ratio: aspectRatio ?? '16:9',
+    expand_prompt: true,
+    loop: false,
+    image_url: '',
+    image_end_url: '',
+  }, signal)
+  return { id: generation.id, url: generation.media[0]?.url }
+}
+
+/**
+ * Providers for createAIModule backed by the servers configured in the app
+ */
+export function createAppAIProviders(): AIProviders {
+  return { chat, image, music, video }
+}
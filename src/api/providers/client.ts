@@ -0,0 +1,107 @@
+/**
+ * Provider Client
+ * The fetch every vendor shares: its server and key from the settings, the session tokens, and error toasts
+ */
+
+import { mlog } from '../mjapi'
+import type { ProviderFetch, ServerKey } from './types'
+import { gptServerStore, homeStore, useAuthStore } from '@/store'
+
+export interface ProviderClientOptions {
+  name: string
+  server: ServerKey
+  key: ServerKey
+  /** Where a path goes on the configured server, which is empty when none is set */
+  url: (url: string, server: string) => string
+}
+
+/**
+ * Paths under a mount on the server; a /pro in the path moves in front of the mount,
+ * unless the server is a pro endpoint already
+ */
+export const proMount = (mount: string) => (url: string, server: string) => {
+  const proPrefix = url.includes('/pro') ? '/pro' : ''
+  url = url.replaceAll('/pro', '')
+  if (server.indexOf('/pro') > 0)
+    return `${server}${mount}${url}`
+  return `${server}${proPrefix}${mount}${url}`
+}
+
+/** Paths under a mount on the server, without /pro */
+export const plainMount = (mount: string) => (url: string, server: string) => {
+  url = url.replaceAll('/pro', '')
+  return `${server}${mount}${url}`
+}
+
+/**
+ * The vendor key when one is set, the login token otherwise
+ */
+function getHeaderAuthorization(key: ServerKey): Record<string, string> {
+  let headers: Record<string, string> = {}
+  if (homeStore.myData.vtoken)
+    headers = { ...headers, 'x-vtoken': homeStore.myData.vtoken, 'x-ctoken': homeStore.myData.ctoken }
+
+  if (!gptServerStore.myData[key]) {
+    const authStore = useAuthStore()
+    if (authStore.token)
+      headers = { ...headers, 'x-ptoken': authStore.token }
+    return headers
+  }
+  return { ...headers, Authorization: `Bearer ${gptServerStore.myData[key]}` }
+}
+
+const showError = (msg: string) => homeStore.myData.ms && homeStore.myData.ms.error(msg)
+
+export function createProviderFetch(options: ProviderClientOptions): ProviderFetch {
+  const getUrl = (url: string) => {
+    if (url.startsWith('http'))
+      return url
+    return options.url(url, gptServerStore.myData[options.server] ?? '')
+  }
+
+  return (url, data?, opt2?) => {
+    mlog(`${options.name}Fetch`, url)
+    let headers: Record<string, string> = opt2?.upFile ? {} : { 'Content-Type': 'application/json' }
+    if (opt2 && opt2.headers)
+      headers = opt2.headers
+    headers = { ...headers, ...getHeaderAuthorization(options.key) }
+
+    const opt: RequestInit = { method: 'GET', headers }
+    if (opt2?.upFile) {
+      opt.method = 'POST'
+      opt.body = data as FormData
+    }
+    else if (data) {
+      opt.method = 'POST'
+      opt.body = JSON.stringify(data)
+    }
+
+    return new Promise<any>((resolve, reject) => {
+      fetch(getUrl(url), opt)
+        .then(async (d) => {
+          if (!d.ok) {
+            let msg = `发生错误: ${d.status}`
+            try {
+              const bjson: any = await d.json()
+              msg = `(${d.status})发生错误: ${bjson?.error?.message ?? ''}`
+            }
+            catch (e) {
+            }
+            showError(msg)
+            throw new Error(msg)
+          }
+          d.json().then(d => resolve(d)).catch((e) => {
+            showError(`发生错误${e}`)
+            reject(e)
+          })
+        })
+        .catch((e) => {
+          if (e.name === 'TypeError' && e.message === 'Failed to fetch')
+            showError('跨域|CORS error')
+          else
+            showError(`发生错误:${e}`)
+          reject(e)
+        })
+    })
+  }
+}
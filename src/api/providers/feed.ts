@@ -0,0 +1,48 @@
+/**
+ * Provider Feed
+ * Polls a task until every record of it is finished, storing the records as they come
+ */
+
+import type { GenerationProvider, GenerationTask } from './types'
+import { homeStore } from '@/store'
+
+export function sleep(time: number) {
+  return new Promise(resolve => setTimeout(resolve, time))
+}
+
+export const isFinished = (task: GenerationTask) => task.status === 'succeeded' || task.status === 'failed'
+
+/**
+ * Feed a task with the provider's feed options, returning its last state in the common model
+ */
+export async function feedTask<Raw>(provider: GenerationProvider<Raw>, id: string, context?: any, signal?: AbortSignal): Promise<GenerationTask[]> {
+  const { attempts, interval, maxErrors, rethrow, act } = provider.feed
+  let tasks: GenerationTask[] = []
+  let errors = 0
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (signal?.aborted)
+      break
+    try {
+      const records = await provider.poll(id, context)
+      errors = 0
+      if (records.length > 0) {
+        const lastFeed = new Date().getTime()
+        records.forEach(record => provider.store.save({ ...record, last_feed: lastFeed }))
+        homeStore.setMyData({ act })
+        tasks = records.map(record => provider.normalize(record))
+        if (tasks.every(isFinished))
+          break
+      }
+    }
+    catch (e) {
+      errors++
+      if (maxErrors !== undefined && errors >= maxErrors) {
+        if (rethrow)
+          throw e
+        break
+      }
+    }
+    await sleep(interval)
+  }
+  return tasks
+}
@@ -0,0 +1,34 @@
+/**
+ * Generation Providers
+ * Each vendor is one adapter over the shared client, feed and store, registered here by name.
+ * A new vendor needs its adapter and its server and key in gptServerType.
+ */
+
+import { lumaProvider } from '../luma'
+import { klingProvider } from '../kling'
+import { runwayProvider } from '../runway'
+import { runwayMlProvider } from '../runwayml'
+import { udioProvider } from '../udio'
+import { sunoProvider } from '../suno'
+import { pikaProvider } from '../pika'
+import { pixverseProvider } from '../pixverse'
+import { viggleProvider } from '../viggle'
+import { riffProvider } from '../riff'
+import { registerProvider } from './registry'
+
+export * from './types'
+export { TaskStore } from './store'
+export { createProviderFetch, proMount, plainMount } from './client'
+export { feedTask, isFinished, sleep } from './feed'
+export { getProvider, listProviders, registerProvider } from './registry'
+
+registerProvider(lumaProvider)
+registerProvider(klingProvider)
+registerProvider(runwayProvider)
+registerProvider(runwayMlProvider)
+registerProvider(udioProvider)
+registerProvider(sunoProvider)
+registerProvider(pikaProvider)
+registerProvider(pixverseProvider)
+registerProvider(viggleProvider)
+registerProvider(riffProvider)
@@ -0,0 +1,25 @@
+/**
+ * Provider Registry
+ * The generation providers by name
+ */
+
+import type { GenerationProvider } from './types'
+
+const providers: Map<string, GenerationProvider> = new Map()
+
+export function registerProvider(provider: GenerationProvider) {
+  providers.set(provider.name, provider)
+  return provider
+}
+
+export function getProvider(name: string): GenerationProvider {
+  const provider = providers.get(name)
+  if (!provider)
+    throw new Error(`Unknown generation provider "${name}", expected one of ${Array.from(providers.keys()).join(', ')}`)
+
+  return provider
+}
+
+export function listProviders(): GenerationProvider[] {
+  return Array.from(providers.values())
+}
@@ -0,0 +1,57 @@
+/**
+ * Task Store
+ * The records of one vendor in local storage, keyed by the id the vendor gives them
+ */
+
+import { ss } from '@/utils/storage'
+
+export class TaskStore<T> {
+  constructor(protected localKey: string, protected idOf: (obj: T) => string | number) {}
+
+  public save(obj: T) {
+    const id = this.idOf(obj)
+    if (!id)
+      throw new Error(`Cannot save a record without an id in "${this.localKey}"`)
+    const arr = this.getObjs()
+    const i = arr.findIndex(v => this.hasId(v, id))
+    if (i > -1)
+      arr[i] = obj
+    else
+      arr.push(obj)
+    ss.set(this.localKey, arr)
+    return this
+  }
+
+  public findIndex(id: string | number) {
+    return this.getObjs().findIndex(v => this.hasId(v, id))
+  }
+
+  public getObjs(): T[] {
+    const obj = ss.get(this.localKey) as undefined | T[]
+    if (!obj)
+      return []
+    return obj
+  }
+
+  public getOneById(id: string | number): T | null {
+    const i = this.findIndex(id)
+    if (i < 0)
+      return null
+    return this.getObjs()[i]
+  }
+
+  protected deleteById(id: string | number) {
+    const arr = this.getObjs()
+    const i = arr.findIndex(v => this.hasId(v, id))
+    if (i < 0)
+      return false
+    arr.splice(i, 1)
+    ss.set(this.localKey, arr)
+    return true
+  }
+
+  // Vendors give ids as numbers or strings, which match either way
+  private hasId(obj: T, id: string | number) {
+    return String(this.idOf(obj)) === String(id)
+  }
+}
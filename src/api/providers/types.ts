@@ -0,0 +1,71 @@
+/**
+ * Generation Provider Types
+ * The contract every vendor adapter implements, and the common task model the views can read
+ */
+
+import type { TaskStore } from './store'
+import type { gptServerType } from '@/store'
+
+export type TaskStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+export interface GenerationMedia {
+  type: 'image' | 'video' | 'audio'
+  url: string
+  /** Poster or cover image */
+  cover?: string
+  /** Length in seconds */
+  duration?: number
+}
+
+/** A vendor task in the common model */
+export interface GenerationTask {
+  id: string
+  provider: string
+  status: TaskStatus
+  /** From 0 to 1, when the vendor reports it */
+  progress?: number
+  prompt?: string
+  title?: string
+  media: GenerationMedia[]
+  error?: string
+  /** When the task was last fetched */
+  updatedAt?: number
+}
+
+/** The vendor fetch: GET without data, POST with JSON data, or with FormData when opt2.upFile is set */
+export type ProviderFetch = (url: string, data?: any, opt2?: any) => Promise<any>
+
+/** The settings that hold a server or a key, leaving out the switches */
+export type ServerKey = {
+  [K in keyof gptServerType]-?: NonNullable<gptServerType[K]> extends string ? K : never
+}[keyof gptServerType]
+
+export interface FeedOptions {
+  attempts: number
+  /** Delay between polls, in milliseconds */
+  interval: number
+  /** Failed polls in a row before the feed stops; it never stops on errors when unset */
+  maxErrors?: number
+  /** Reject with the error of the last poll when the feed stops on errors, instead of returning the tasks so far */
+  rethrow?: boolean
+  /** The act the views are notified with after every poll that stored something */
+  act: string
+}
+
+export interface GenerationProvider<Raw = any> {
+  name: string
+  fetch: ProviderFetch
+  /** Where the raw records are kept, under the key the views read them from */
+  store: TaskStore<Raw>
+  feed: FeedOptions
+  /**
+   * Submit to the default endpoint of the vendor, returning the id to feed, or undefined when it was refused.
+   * Vendors that make several records for one task join their ids with commas.
+   */
+  submit: (input: any) => Promise<string | undefined>
+  /** Fetch a task once, returning the raw records to store */
+  poll: (id: string, context?: any) => Promise<Raw[]>
+  normalize: (raw: Raw) => GenerationTask
+  /** Only for vendors with a cancel endpoint */
+  cancel?: (id: string) => Promise<void>
+}
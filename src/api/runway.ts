@@ -1,115 +1,38 @@
-import { gptServerStore, homeStore, useAuthStore } from "@/store";
 import { mlog } from "./mjapi";
-import { sleep } from "./suno";
 import { RunwayTask, runwayStore } from "./runwayStore";
+import { createProviderFetch, proMount } from "./providers/client";
+import { feedTask } from "./providers/feed";
+import type { GenerationProvider } from "./providers/types";
 
-function getHeaderAuthorization(){
-    let headers={}
-    if( homeStore.myData.vtoken ){
-        const  vtokenh={ 'x-vtoken':  homeStore.myData.vtoken ,'x-ctoken':  homeStore.myData.ctoken};
-        headers= {...headers, ...vtokenh}
-    }
-    if(!gptServerStore.myData.RUNWAY_KEY){ 
-        const authStore = useAuthStore()
-        if( authStore.token ) {
-            const bmi= { 'x-ptoken':  authStore.token };
-            headers= {...headers, ...bmi }
-            return headers;
-        }
-        return headers
-    }
-    const bmi={
-        'Authorization': 'Bearer ' +gptServerStore.myData.RUNWAY_KEY
-    }
-    headers= {...headers, ...bmi }
-    return headers
-}
-
-export const  getUrl=(url:string)=>{
-    if(url.indexOf('http')==0) return url;
-    
-    const pro_prefix= url.indexOf('/pro')>-1?'/pro':'';//homeStore.myData.is_luma_pro?'/pro':''
-    url= url.replaceAll('/pro','')
-    if(gptServerStore.myData.RUNWAY_SERVER  ){
-        if(gptServerStore.myData.RUNWAY_SERVER.indexOf('/pro')>0){
-            return `${ gptServerStore.myData.RUNWAY_SERVER}/runway${url}`;
-        }
-        return `${ gptServerStore.myData.RUNWAY_SERVER}${pro_prefix}/runway${url}`;
-    }
-    return `${pro_prefix}/runway${url}`;
-}
+export const runwayFetch= createProviderFetch({ name:'runway', server:'RUNWAY_SERVER', key:'RUNWAY_KEY', url: proMount('/runway') })
 
-
-export const runwayFetch=(url:string,data?:any,opt2?:any )=>{
-    mlog('runwayFetch', url  );
-    let headers= opt2?.upFile?{}: {'Content-Type':'application/json'}
-     
-    if(opt2 && opt2.headers ) headers= opt2.headers;
-
-    headers={...headers,...getHeaderAuthorization()}
-   
-    return new Promise<any>((resolve, reject) => {
-        let opt:RequestInit ={method:'GET'};
-       
-        opt.headers= headers ;
-        if(opt2?.upFile ){
-             opt.method='POST';
-             opt.body=data as FormData ;
-        }
-        else if(data) {
-            opt.body= JSON.stringify(data) ;
-            opt.method='POST';
-        }
-        fetch(getUrl(url),  opt )
-        .then( async (d) =>{
-            if (!d.ok) { 
-                let msg = '发生错误: '+ d.status
-                try{ 
-                  let bjson:any  = await d.json();
-                  msg = '('+ d.status+')发生错误: '+(bjson?.error?.message??'' ) 
-                }catch( e ){ 
-                }
-                homeStore.myData.ms &&  homeStore.myData.ms.error(msg )
-                throw new Error( msg );
-            }
-     
-            d.json().then(d=> resolve(d)).catch(e=>{ 
-            
-                homeStore.myData.ms &&  homeStore.myData.ms.error('发生错误'+ e )
-                reject(e) 
-            }
-        )})
-        .catch(e=>{ 
-            if (e.name === 'TypeError' && e.message === 'Failed to fetch') {
-                homeStore.myData.ms &&  homeStore.myData.ms.error('跨域|CORS error'  )
-            }
-            else homeStore.myData.ms &&  homeStore.myData.ms.error('发生错误:'+e )
-            mlog('e', e.stat )
-            reject(e)
-        })
+export const runwayProvider:GenerationProvider<RunwayTask>={
+    name:'runway',
+    fetch: runwayFetch,
+    store: new runwayStore(),
+    feed: { attempts:200, interval:5200, act:'RunwayFeed' },
+    submit: async (input)=>{
+        const d= await runwayFetch('/tasks', input )
+        return d?.task?.id
+    },
+    poll: async (id)=>{
+        const a= await runwayFetch('/tasks/' +id )
+        return [a.task as RunwayTask]
+    },
+    normalize: (task)=>({
+        id: task.id,
+        provider: 'runway',
+        status: task.status=='SUCCEEDED'? 'succeeded' : task.status=='FAILED'? 'failed' : task.status=='PENDING'? 'queued' : 'running',
+        progress: task.progressRatio? Number(task.progressRatio): undefined,
+        prompt: task.options?.text_prompt ?? task.options?.gen2Options?.text_prompt,
+        media: (task.artifacts ?? []).map(v=>({ type:'video' as const, url:v.url, cover:v.previewUrls?.[0], duration:v.metadata?.duration })),
+        error: task.error?.message,
+        updatedAt: task.last_feed
     })
-
 }
 
 export const runwayFeed= async(id:string)=>{
-    const sunoS = new runwayStore();
-    for(let i=0; i<200;i++){
-        try{
-            let a= await runwayFetch('/tasks/' +id )
-            let task= a.task  as RunwayTask;
-            task.last_feed=new Date().getTime()
-            //ss.save( task )
-            mlog("a",a.task  )
-            sunoS.save( task )
-            homeStore.setMyData({act:'RunwayFeed'});
-            if( a.task.status=='FAILED' || 'SUCCEEDED'== a.task.status ){
-                break;
-            }
-        }catch(e){
-        }
-        await sleep(5200)
-    }
-
+    await feedTask( runwayProvider, id );
 }
 
 
@@ -1,4 +1,4 @@
-import { ss } from "@/utils/storage";
+import { TaskStore } from "./providers/store";
 
 interface Options {
     name: string;
@@ -75,40 +75,11 @@ export interface RunwayTask {
     last_feed?:number;
 }
 
-export class runwayStore{
-  //private id: string;
-  private localKey='runway-store';
-  public save(obj:RunwayTask ){
-    if(!obj.id ) throw "taskID must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.id==obj.id );
-    if(i>-1) arr[i]= obj;
-    else arr.push(obj);
-     ss.set(this.localKey, arr );
-    return this;
-  } 
-  public findIndex(id:string){ 
-    return this.getObjs().findIndex( v=>v.id== id )
-  }
-
-  public getObjs():RunwayTask[]{
-     const obj = ss.get( this.localKey ) as  undefined| RunwayTask[];
-     if(!obj) return [];
-     return obj;
-  }
-  public getOneById(id:string):RunwayTask|null{
-    const i= this.findIndex(id)
-    if(i<0) return null;
-    let arr=  this.getObjs();
-    return arr[i]
+export class runwayStore extends TaskStore<RunwayTask>{
+  constructor(){
+    super('runway-store', v=>v.id)
   }
   public delete( obj:RunwayTask ){
-    if(!obj.id ) throw "id must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.id==obj.id );
-    if(i<0) return false
-    arr.splice(i, 1);
-    ss.set(this.localKey, arr );
-    return true;
+    return this.deleteById(obj.id)
   }
 }
\ No newline at end of file
@@ -1,113 +1,45 @@
-import { gptServerStore, homeStore, useAuthStore } from "@/store";
-import { mlog } from "./mjapi";
-import { sleep } from "./suno";
 import { RunwayMlStore, RunwayMlTask } from "./runwaymlStore";
+import { createProviderFetch } from "./providers/client";
+import { feedTask } from "./providers/feed";
+import type { GenerationProvider } from "./providers/types";
 
-function getHeaderAuthorization(){
-    let headers={}
-    if( homeStore.myData.vtoken ){
-        const  vtokenh={ 'x-vtoken':  homeStore.myData.vtoken ,'x-ctoken':  homeStore.myData.ctoken};
-        headers= {...headers, ...vtokenh}
-    }
-    if(!gptServerStore.myData.RUNWAY_KEY){ 
-        const authStore = useAuthStore()
-        if( authStore.token ) {
-            const bmi= { 'x-ptoken':  authStore.token };
-            headers= {...headers, ...bmi }
-            return headers;
-        }
-        return headers
-    }
-    const bmi={
-        'Authorization': 'Bearer ' +gptServerStore.myData.RUNWAY_KEY
-    }
-    headers= {...headers, ...bmi }
-    return headers
-}
-
-export const  getUrl=(url:string)=>{
-    if(url.indexOf('http')==0) return url;
-    
-    const pro_prefix= url.indexOf('/pro')>-1?'/pro':'';//homeStore.myData.is_luma_pro?'/pro':''
-    url= url.replaceAll('/pro','')
-    if(gptServerStore.myData.RUNWAY_SERVER  ){
-        return `${ gptServerStore.myData.RUNWAY_SERVER}${pro_prefix}/runwayml${url}`;
-    }
-    return `${pro_prefix}/runwayml${url}`;
-}
-
-
-export const runwayMlFetch=(url:string,data?:any,opt2?:any )=>{
-    mlog('runwayFetch', url  );
-    let headers= opt2?.upFile?{}: {'Content-Type':'application/json'}
-     
-    if(opt2 && opt2.headers ) headers= opt2.headers;
-
-    const otherHeader ={ 'X-Runway-Version': '2024-11-06'}
-
-    headers={...headers,...getHeaderAuthorization()} //,...otherHeader
-   
-    return new Promise<any>((resolve, reject) => {
-        let opt:RequestInit ={method:'GET'};
-       
-        opt.headers= headers ;
-        if(opt2?.upFile ){
-             opt.method='POST';
-             opt.body=data as FormData ;
-        }
-        else if(data) {
-            opt.body= JSON.stringify(data) ;
-            opt.method='POST';
-        }
-        fetch(getUrl(url),  opt )
-        .then( async (d) =>{
-            if (!d.ok) { 
-                let msg = '发生错误: '+ d.status
-                try{ 
-                  let bjson:any  = await d.json();
-                  msg = '('+ d.status+')发生错误: '+(bjson?.error?.message??'' ) 
-                }catch( e ){ 
-                }
-                homeStore.myData.ms &&  homeStore.myData.ms.error(msg )
-                throw new Error( msg );
-            }
-     
-            d.json().then(d=> resolve(d)).catch(e=>{ 
-            
-                homeStore.myData.ms &&  homeStore.myData.ms.error('发生错误'+ e )
-                reject(e) 
-            }
-        )})
-        .catch(e=>{ 
-            if (e.name === 'TypeError' && e.message === 'Failed to fetch') {
-                homeStore.myData.ms &&  homeStore.myData.ms.error('跨域|CORS error'  )
-            }
-            else homeStore.myData.ms &&  homeStore.myData.ms.error('发生错误:'+e )
-            mlog('e', e.stat )
-            reject(e)
-        })
-    })
-}
+// The Runway server and key, mounted at /runwayml; a /pro in the path stays in front of the mount
+export const runwayMlFetch= createProviderFetch({ name:'runwayMl', server:'RUNWAY_SERVER', key:'RUNWAY_KEY', url: (url, server)=>{
+    const pro_prefix= url.indexOf('/pro')>-1?'/pro':'';
+    return `${server}${pro_prefix}/runwayml${url.replaceAll('/pro','')}`;
+}})
 
 export interface RunwayMlInput {
     model:string
     promptText:string
 }
 
+export const runwayMlProvider:GenerationProvider<RunwayMlTask>={
+    name:'runwayml',
+    fetch: runwayMlFetch,
+    store: new RunwayMlStore(),
+    feed: { attempts:1200, interval:5800, maxErrors:1, act:'runwayml.feed' },
+    submit: async (input)=>{
+        const d= await runwayMlFetch('/v1/image_to_video', input )
+        return d?.id
+    },
+    poll: async (id, input:RunwayMlInput)=>{
+        const d= await runwayMlFetch(`/v1/tasks/${id}`)
+        return [{...d,...input} as RunwayMlTask]
+    },
+    normalize: (task)=>({
+        id: task.id,
+        provider: 'runwayml',
+        status: task.status=='SUCCEEDED'? 'succeeded' : task.status=='FAILED'? 'failed' : task.status=='PENDING'? 'queued' : 'running',
+        prompt: task.promptText,
+        media: (task.output ?? []).map(url=>({ type:'video' as const, url })),
+        error: task.failure,
+        updatedAt: task.last_feed
+    })
+}
+
 export const runwayMlFeed= async(id:string, input:RunwayMlInput)=>{
-    const sunoS = new RunwayMlStore();
-    for(let i=0; i<1200; i++){
-        let d= await runwayMlFetch(`/v1/tasks/${id}`)
-        let task:RunwayMlTask={...d,...input} as RunwayMlTask
-        task.last_feed=new Date().getTime()
-        sunoS.save( task )
-        homeStore.setMyData({act:'runwayml.feed'})
-        if(task.status=='SUCCEEDED' || 'FAILED'== task.status ){
-            break;
-        }
-        //mlog('ddd>>',d )
-        await sleep(5800)
-    }
+    await feedTask( runwayMlProvider, id, input );
 }
 
 export const runwayMlFeedById= async(id:string)=>{
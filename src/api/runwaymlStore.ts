@@ -1,4 +1,4 @@
-import { ss } from "@/utils/storage";
+import { TaskStore } from "./providers/store";
 
 export interface RunwayMlTask {
     id: string;
@@ -14,40 +14,11 @@ export interface RunwayMlTask {
 
 
 
-export class RunwayMlStore{
-  //private id: string;
-  private localKey='runwayml-store';
-  public save(obj:RunwayMlTask ){
-    if(!obj.id ) throw "taskID must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.id==obj.id );
-    if(i>-1) arr[i]= obj;
-    else arr.push(obj);
-     ss.set(this.localKey, arr );
-    return this;
-  } 
-  public findIndex(id:string){ 
-    return this.getObjs().findIndex( v=>v.id== id )
-  }
-
-  public getObjs():RunwayMlTask[]{
-     const obj = ss.get( this.localKey ) as  undefined| RunwayMlTask[];
-     if(!obj) return [];
-     return obj;
-  }
-  public getOneById(id:string):RunwayMlTask|null{
-    const i= this.findIndex(id)
-    if(i<0) return null;
-    let arr=  this.getObjs();
-    return arr[i]
+export class RunwayMlStore extends TaskStore<RunwayMlTask>{
+  constructor(){
+    super('runwayml-store', v=>v.id)
   }
   public delete( obj:RunwayMlTask ){
-    if(!obj.id ) throw "id must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.id==obj.id );
-    if(i<0) return false
-    arr.splice(i, 1);
-    ss.set(this.localKey, arr );
-    return true;
+    return this.deleteById(obj.id)
   }
 }
\ No newline at end of file
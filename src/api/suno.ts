@@ -1,40 +1,17 @@
-import { gptServerStore,homeStore,useAuthStore } from "@/store";
 import { mlog } from "./mjapi";
 import { sunoStore,SunoMedia } from "./sunoStore";  
+import { createProviderFetch } from "./providers/client";
+import { feedTask, sleep } from "./providers/feed";
+import type { GenerationProvider } from "./providers/types";
 
-const getUrl=(url:string)=>{
-    if(url.indexOf('http')==0) return url;
-    if(gptServerStore.myData.SUNO_SERVER){
-        if( gptServerStore.myData.SUNO_SERVER.indexOf('suno')>0 ) return `${ gptServerStore.myData.SUNO_SERVER}${url}`;
+export const sunoFetch= createProviderFetch({ name:'suno', server:'SUNO_SERVER', key:'SUNO_KEY', url: (url, server)=>{
+    if(!server) return `/sunoapi${url}`;
+    if( server.indexOf('suno')>0 ) return `${server}${url}`;
+    return `${server}/suno${url}`;
+}})
+
+export { sleep };
 
-        return `${ gptServerStore.myData.SUNO_SERVER}/suno${url}`;
-    }
-    return `/sunoapi${url}`;
-}
-function getHeaderAuthorization(){
-    let headers={}
-    if( homeStore.myData.vtoken ){
-        const  vtokenh={ 'x-vtoken':  homeStore.myData.vtoken ,'x-ctoken':  homeStore.myData.ctoken};
-        headers= {...headers, ...vtokenh}
-    }
-    if(!gptServerStore.myData.SUNO_KEY){
-        const authStore = useAuthStore()
-        if( authStore.token ) {
-            const bmi= { 'x-ptoken':  authStore.token };
-            headers= {...headers, ...bmi }
-            return headers;
-        }
-        return headers
-    }
-    const bmi={
-        'Authorization': 'Bearer ' +gptServerStore.myData.SUNO_KEY
-    }
-    headers= {...headers, ...bmi }
-    return headers
-}
-export function sleep(time: number) {
-  return new Promise((resolve) => setTimeout(resolve, time));
-}
 export const lyricsFetch= async ( lid:string)=>{
     for(let i=0;i<50;i++){
         let dt:any = await sunoFetch(`/lyrics/${lid}`);
@@ -62,71 +39,37 @@ export function randStyle(): string {
     return randomS + " " + randomL ;
 }
 
-export const FeedTask= async (ids:string[])=>{
-    const sunoS = new sunoStore();
-    if(ids.length<=0) return;
-    
-    let d:any[] = await sunoFetch('/feed/'+ ids.join(','));
-    mlog('FeedTask',d )
-    d.forEach( (item:SunoMedia) =>{
-         sunoS.save( item)
-        if(item.status== "complete" || item.status== "error" ){
-            ids= ids.filter(v=>v!=item.id )
-        }
-    });
-    homeStore.setMyData({act:'FeedTask'});
-    await sleep(5*1020 );
-    FeedTask(ids)
-
-}
-
-
-export const sunoFetch=(url:string,data?:any,opt2?:any )=>{
-    mlog('sunoFetch', url  );
-    let headers= {'Content-Type':'application/json'}
-    if(opt2 && opt2.headers ) headers= opt2.headers;
-
-    headers={...headers,...getHeaderAuthorization()}
-   
-    return new Promise<any>((resolve, reject) => {
-        let opt:RequestInit ={method:'GET'};
-       
-        opt.headers= headers ;
-        if(opt2?.upFile ){
-             opt.method='POST';
-             opt.body=data as FormData ;
-        }
-        else if(data) {
-            opt.body= JSON.stringify(data) ;
-            opt.method='POST';
-        }
-        fetch(getUrl(url),  opt )
-        .then( async (d) =>{
-            if (!d.ok) { 
-                let msg = '发生错误: '+ d.status
-                try{ 
-                  let bjson:any  = await d.json();
-                  msg = '('+ d.status+')发生错误: '+(bjson?.error?.message??'' ) 
-                }catch( e ){ 
-                }
-                homeStore.myData.ms &&  homeStore.myData.ms.error(msg )
-                throw new Error( msg );
-            }
-     
-            d.json().then(d=> resolve(d)).catch(e=>{ 
-            
-                homeStore.myData.ms &&  homeStore.myData.ms.error('发生错误'+ e )
-                reject(e) 
-            }
-        )})
-        .catch(e=>{ 
-            if (e.name === 'TypeError' && e.message === 'Failed to fetch') {
-                homeStore.myData.ms &&  homeStore.myData.ms.error('跨域|CORS error'  )
-            }
-            else homeStore.myData.ms &&  homeStore.myData.ms.error('发生错误:'+e )
-            mlog('e', e.stat )
-            reject(e)
-        })
+export const sunoProvider:GenerationProvider<SunoMedia>={
+    name:'suno',
+    fetch: sunoFetch,
+    store: new sunoStore(),
+    feed: { attempts:Infinity, interval:5*1020, maxErrors:1, rethrow:true, act:'FeedTask' },
+    // One task makes several clips, which are fed together
+    submit: async (input)=>{
+        const d= await sunoFetch('/generate/description-mode', input )
+        const ids:string[]= (d?.clips ?? []).map((clip:SunoMedia)=>clip.id)
+        return ids.length>0? ids.join(','): undefined
+    },
+    poll: async (ids)=>{
+        const d:SunoMedia[]= await sunoFetch('/feed/'+ ids )
+        mlog('FeedTask',d )
+        return d
+    },
+    normalize: (item)=>({
+        id: item.id,
+        provider: 'suno',
+        status: item.status=='complete'? 'succeeded' : item.status=='error'? 'failed' : item.status=='submitted' || item.status=='queued'? 'queued' : 'running',
+        prompt: item.metadata?.gpt_description_prompt || item.metadata?.prompt,
+        title: item.title,
+        media: [
+            ...(item.audio_url? [{ type:'audio' as const, url:item.audio_url, cover:item.image_url, duration:item.metadata?.duration }]:[]),
+            ...(item.video_url? [{ type:'video' as const, url:item.video_url, cover:item.image_url }]:[])
+        ],
+        error: item.metadata?.error_message
     })
+}
 
+export const FeedTask= async (ids:string[])=>{
+    if(ids.length<=0) return;
+    await feedTask( sunoProvider, ids.join(',') );
 }
@@ -1,4 +1,4 @@
-import { ss } from '@/utils/storage'
+import { TaskStore } from './providers/store'
  
 export type SunoMedia = {
     id: string;
@@ -37,34 +37,11 @@ export type SunoMedia = {
     upvote_count: number;
     is_public: boolean;
 };
-export class sunoStore{
-  //private id: string;
-  private localKey='suno-store';
-  public save(obj:SunoMedia ){
-    if(!obj.id ) throw "id must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.id==obj.id );
-    if(i>-1) arr[i]= obj;
-    else arr.push(obj);
-     ss.set(this.localKey, arr );
-    return this;
-  } 
-  public findIndex(id:string){ 
-    return this.getObjs().findIndex( v=>v.id== id )
-  }
-
-  public getObjs():SunoMedia[]{
-     const obj = ss.get( this.localKey ) as  undefined| SunoMedia[];
-     if(!obj) return [];
-     return obj;
+export class sunoStore extends TaskStore<SunoMedia>{
+  constructor(){
+    super('suno-store', v=>v.id)
   }
   public delete( obj:SunoMedia ){
-    if(!obj.id ) throw "id must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.id==obj.id );
-    if(i<0) return false
-    arr.splice(i, 1);
-    ss.set(this.localKey, arr );
-    return true;
+    return this.deleteById(obj.id)
   }
 }
\ No newline at end of file
@@ -1,125 +1,42 @@
-import { gptServerStore, homeStore, useAuthStore } from "@/store";
-import { mlog } from "./mjapi";
-//import { KlingTask, klingStore } from "./klingStore";
-import { sleep } from "./suno";
 import { udioStore, udioTask } from "./udioStore";
-
-
-
-function getHeaderAuthorization(){
-    let headers={}
-    if( homeStore.myData.vtoken ){
-        const  vtokenh={ 'x-vtoken':  homeStore.myData.vtoken ,'x-ctoken':  homeStore.myData.ctoken};
-        headers= {...headers, ...vtokenh}
-    }
-    if(!gptServerStore.myData.UDIO_KEY){ 
-        const authStore = useAuthStore()
-        if( authStore.token ) {
-            const bmi= { 'x-ptoken':  authStore.token };
-            headers= {...headers, ...bmi }
-            return headers;
-        }
-        return headers
-    }
-    const bmi={
-        'Authorization': 'Bearer ' +gptServerStore.myData.UDIO_KEY
-    }
-    headers= {...headers, ...bmi }
-    return headers
-}
-
-
-export const  getUrl=(url:string)=>{
-    if(url.indexOf('http')==0) return url; 
-    const pro_prefix= ''; 
-    url= url.replaceAll('/pro','')
-    if(gptServerStore.myData.UDIO_SERVER  ){
-      
-        return `${ gptServerStore.myData.UDIO_SERVER}${pro_prefix}${url}`;
-    }
-    return `${pro_prefix}${url}`;
-}
-
-
-export const udioFetch=(url:string,data?:any,opt2?:any )=>{
-    mlog('udioFetch', url  );
-    let headers= opt2?.upFile?{}: {'Content-Type':'application/json'}
-     
-    if(opt2 && opt2.headers ) headers= opt2.headers;
-
-    headers={...headers,...getHeaderAuthorization()}
-   
-    return new Promise<any>((resolve, reject) => {
-        let opt:RequestInit ={method:'GET'};
-       
-        opt.headers= headers ;
-        if(opt2?.upFile ){
-             opt.method='POST';
-             opt.body=data as FormData ;
-        }
-        else if(data) {
-            opt.body= JSON.stringify(data) ;
-            opt.method='POST';
-        }
-        fetch(getUrl(url),  opt )
-        .then( async (d) =>{
-            if (!d.ok) { 
-                let msg = '发生错误: '+ d.status
-                try{ 
-                  let bjson:any  = await d.json();
-                  msg = '('+ d.status+')发生错误: '+(bjson?.error?.message??'' ) 
-                }catch( e ){ 
-                }
-                homeStore.myData.ms &&  homeStore.myData.ms.error(msg )
-                throw new Error( msg );
-            }
-     
-            d.json().then(d=> resolve(d)).catch(e=>{ 
-            
-                homeStore.myData.ms &&  homeStore.myData.ms.error('发生错误'+ e )
-                reject(e) 
-            }
-        )})
-        .catch(e=>{ 
-            if (e.name === 'TypeError' && e.message === 'Failed to fetch') {
-                homeStore.myData.ms &&  homeStore.myData.ms.error('跨域|CORS error'  )
-            }
-            else homeStore.myData.ms &&  homeStore.myData.ms.error('发生错误:'+e )
-            mlog('e', e.stat )
-            reject(e)
-        })
+import { createProviderFetch, plainMount } from "./providers/client";
+import { feedTask } from "./providers/feed";
+import type { GenerationProvider } from "./providers/types";
+
+export const udioFetch= createProviderFetch({ name:'udio', server:'UDIO_SERVER', key:'UDIO_KEY', url: plainMount('') })
+
+export const udioProvider:GenerationProvider<udioTask>={
+    name:'udio',
+    fetch: udioFetch,
+    store: new udioStore(),
+    feed: { attempts:50, interval:5000, maxErrors:1, act:'udio.feed' },
+    submit: async (input)=>{
+        const d= await udioFetch('/udio/submit/music', input )
+        return d?.data? String(d.data): undefined
+    },
+    // A task makes several songs, each stored with the state of the task
+    poll: async (id)=>{
+        const d= await udioFetch('/udio/fetch/'+id )
+        if( !d.data || !d.data.data || !d.data.data.songs ) return [];
+        return (d.data.data.songs as udioTask[]).map(song=>({
+            ...song,
+            status: d.data.status,
+            taskId: d.data.task_id,
+            failReason: d.data.fail_reason
+        }))
+    },
+    normalize: (song)=>({
+        id: song.id,
+        provider: 'udio',
+        status: song.status=='SUCCESS'? 'succeeded' : song.status=='FAILURE' || song.status=='FAILED'? 'failed' : 'running',
+        prompt: song.prompt,
+        title: song.title,
+        media: song.song_path? [{ type:'audio', url:song.song_path, cover:song.image_path, duration:song.duration }]:[],
+        error: song.failReason || song.error_detail || undefined,
+        updatedAt: song.last_feed
     })
-
 }
 
 export const udioFeedTask= async(id:string)=>{
-    mlog('god >>',id ) 
-    const sunoS = new udioStore();
-    for(let i=0;i<50;i++ ){
-        let d= await udioFetch('/udio/fetch/'+id )
-        // .then(d=>{
-        //     mlog('fetch',d , d.data.status )
-        //     if(d.data && d.data.status=='SUCCESS'){
-        //         return
-        //     }
-        // }).catch((e)=>mlog('error ',e  ))
-        if(d.data  ){
-            //mlog('ddd> ' ,  d.data.data );
-            if( d.data.data && d.data.data.songs){
-                for(let ab of d.data.data.songs ){
-                    let song= ab as udioTask
-                    song.status= d.data.status
-                    song.taskId= d.data.task_id
-                    song.failReason= d.data.fail_reason
-                    song.last_feed=new Date().getTime()
-                    sunoS.save( song)
-                    //mlog('d', song )
-                    homeStore.setMyData({act:'udio.feed'});
-                }
-
-            }
-            if(d.data.status=='SUCCESS' ) return
-        }
-        await sleep(5000)
-    }
+    await feedTask( udioProvider, id );
 }
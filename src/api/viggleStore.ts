@@ -1,4 +1,4 @@
-import { ss } from "@/utils/storage";
+import { TaskStore } from "./providers/store";
 
 export interface ViggleTask {
     taskID: string;
@@ -19,42 +19,11 @@ export interface ViggleTask {
     last_feed:number;
 }
 
-export class viggleStore{
-  //private id: string;
-  private localKey='viggle-store';
-  public save(obj:ViggleTask ){
-    if(!obj.taskID ) throw "taskID must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.taskID==obj.taskID );
-    if(i>-1) arr[i]= obj;
-    else arr.push(obj);
-     ss.set(this.localKey, arr );
-    return this;
-  } 
-  public findIndex(id:string){ 
-    return this.getObjs().findIndex( v=>v.taskID== id )
+export class viggleStore extends TaskStore<ViggleTask>{
+  constructor(){
+    super('viggle-store', v=>v.taskID)
   }
-
-  public getObjs():ViggleTask[]{
-     const obj = ss.get( this.localKey ) as  undefined| ViggleTask[];
-     if(!obj) return [];
-     return obj;
-  }
-  public getOneById(id:string):ViggleTask|null{
-    const i= this.findIndex(id)
-    if(i<0) return null;
-    let arr=  this.getObjs();
-    return arr[i]
+  public delete( obj:ViggleTask ){
+    return this.deleteById(obj.taskID)
   }
-
-   public delete( obj:ViggleTask ){
-    if(!obj.taskID ) throw "id must";
-    let arr=  this.getObjs();
-    let i= arr.findIndex( v=>v.taskID==obj.taskID );
-    if(i<0) return false
-    arr.splice(i, 1);
-    ss.set(this.localKey, arr );
-    return true;
-  }
-
 }
\ No newline at end of file
@@ -0,0 +1,481 @@
+/**
+ * PL Language Analyzer
+ * Resolves scopes over the AST and reports semantic problems before the program runs
+ */
+
+import type {
+  ASTNode,
+  ArrowFunctionExpressionNode,
+  BlockNode,
+  ExpressionNode,
+  FunctionDeclarationNode,
+  IdentifierNode,
+  ImportDeclarationNode,
+  ProgramNode,
+  StatementNode,
+  VariableDeclarationNode,
+} from '../parser/parser'
+import {
+  NodeType,
+} from '../parser/parser'
+import type { Diagnostic, DiagnosticSeverity } from '../parser/diagnostics'
+import { PLRuntime } from '../runtime/runtime'
+
+export interface AnalyzerOptions {
+  /** Names the host defines in addition to the runtime builtins, e.g. execution context values */
+  globals?: Iterable<string>
+}
+
+export type BindingKind = 'var' | 'const' | 'function' | 'parameter' | 'import'
+
+export interface Binding {
+  name: string
+  kind: BindingKind
+  /** Identifier where the name is declared */
+  node: IdentifierNode
+  /** Declaring statement; absent for parameters */
+  declaration?: VariableDeclarationNode | FunctionDeclarationNode | ImportDeclarationNode
+  used: boolean
+}
+
+class Scope {
+  readonly bindings: Map<string, Binding> = new Map()
+
+  constructor(
+    readonly parent: Scope | null,
+    readonly isFunction: boolean,
+  ) {}
+
+  lookup(name: string): Binding | undefined {
+    return this.bindings.get(name) ?? this.parent?.lookup(name)
+  }
+}
+
+let runtimeGlobals: string[] | undefined
+
+function builtinNames(): string[] {
+  runtimeGlobals ??= new PLRuntime().getGlobals().entries().map(([name]) => name)
+  return runtimeGlobals
+}
+
+export class Analyzer {
+  private readonly globals: Set<string>
+  private diagnostics: Diagnostic[] = []
+  private scope!: Scope
+  /** Every declared binding of the last analyzed program */
+  bindings: Binding[] = []
+  /** Binding each identifier of the last analyzed program resolves to, declarations included */
+  references: Map<IdentifierNode, Binding> = new Map()
+
+  constructor(options: AnalyzerOptions = {}) {
+    this.globals = new Set([...builtinNames(), ...(options.globals ?? [])])
+  }
+
+  analyze(program: ProgramNode): Diagnostic[] {
+    this.diagnostics = []
+    this.bindings = []
+    this.references = new Map()
+    // Top-level bindings are not reported as unused: the host can read them after the run
+    this.scope = new Scope(null, true)
+    this.declareHoisted(program.body, this.scope)
+    this.statements(program.body)
+
+    return this.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column)
+  }
+
+  private statements(body: StatementNode[]): void {
+    let unreachable = false
+    let reported = false
+
+    body.forEach((statement) => {
+      // Function declarations are hoisted, so their position does not matter
+      if (unreachable && !reported && statement.type !== NodeType.FunctionDeclaration) {
+        this.report('warning', 'Unreachable code', statement, 'unreachable-code')
+        reported = true
+      }
+
+      this.statement(statement)
+      unreachable = unreachable || this.exits(statement)
+    })
+  }
+
+  private statement(node: StatementNode): void {
+    switch (node.type) {
+      case NodeType.Block:
+        this.withScope(false, node.body, () => this.statements(node.body))
+        break
+      case NodeType.ExpressionStatement:
+        this.expression(node.expression)
+        break
+      case NodeType.IfStatement:
+        this.expression(node.test)
+        this.nested(node.consequent)
+        if (node.alternate)
+          this.nested(node.alternate)
+        break
+      case NodeType.WhileStatement:
+        this.expression(node.test)
+        this.nested(node.body)
+        break
+      case NodeType.ForStatement: {
+        const init = node.init
+        const declarations = (init && init.type === NodeType.VariableDeclaration) ? [init] : []
+        this.withScope(false, declarations, () => {
+          if (init) {
+            if (init.type === NodeType.VariableDeclaration)
+              this.variableDeclaration(init)
+            else
+              this.expression(init)
+          }
+          if (node.test)
+            this.expression(node.test)
+          if (node.update)
+            this.expression(node.update)
+          this.nested(node.body)
+        })
+        break
+      }
+      case NodeType.ReturnStatement:
+        if (node.argument)
+          this.expression(node.argument)
+        break
+      case NodeType.BreakStatement:
+      case NodeType.ContinueStatement:
+        break
+      case NodeType.VariableDeclaration:
+        this.variableDeclaration(node)
+        break
+      case NodeType.FunctionDeclaration:
+        this.functionBody(node)
+        break
+      case NodeType.SwitchStatement:
+        this.expression(node.discriminant)
+        node.cases.forEach((caseNode) => {
+          if (caseNode.test)
+            this.expression(caseNode.test)
+          this.withScope(false, caseNode.consequent, () => this.statements(caseNode.consequent))
+        })
+        break
+      case NodeType.TryStatement:
+        this.statement(node.block)
+        if (node.handler)
+          this.catchClause(node.param, node.handler)
+        if (node.finalizer)
+          this.statement(node.finalizer)
+        break
+      case NodeType.ThrowStatement:
+        this.expression(node.argument)
+        break
+      case NodeType.ImportDeclaration:
+        // Declared up front with the other hoisted bindings
+        break
+      case NodeType.ExportDeclaration:
+        this.statement(node.declaration)
+        break
+    }
+  }
+
+  /**
+   * The caught error is visible in the catch block only
+   */
+  private catchClause(param: IdentifierNode | undefined, handler: BlockNode): void {
+    this.withScope(false, [], () => {
+      if (param)
+        this.declare(this.scope, param, 'parameter')
+      this.statement(handler)
+    })
+  }
+
+  /**
+   * A statement in a position that takes one statement, e.g. an if branch
+   */
+  private nested(node: StatementNode): void {
+    if (node.type === NodeType.Block)
+      this.statement(node)
+    else
+      this.withScope(false, [node], () => this.statement(node))
+  }
+
+  private variableDeclaration(node: VariableDeclarationNode): void {
+    node.declarations.forEach((declarator) => {
+      if (declarator.init)
+        this.expression(declarator.init)
+    })
+  }
+
+  private functionBody(node: FunctionDeclarationNode | ArrowFunctionExpressionNode): void {
+    const scope = new Scope(this.scope, true)
+    const params = node.rest ? [...node.params, node.rest] : node.params
+    params.forEach(param => this.declare(scope, param, 'parameter'))
+
+    const body = node.body.type === NodeType.Block ? node.body.body : null
+    if (body)
+      this.declareHoisted(body, scope)
+
+    const parent = this.scope
+    this.scope = scope
+    try {
+      // Default values are evaluated in the function scope, where the parameters are visible
+      node.defaults?.forEach((value) => {
+        if (value)
+          this.expression(value)
+      })
+      if (body)
+        this.statements(body)
+      else
+        this.expression(node.body as ExpressionNode)
+    }
+    finally {
+      this.scope = parent
+    }
+
+    this.reportUnused(scope)
+    this.reportUnusedParameters(params, scope)
+  }
+
+  private expression(node: ExpressionNode): void {
+    switch (node.type) {
+      case NodeType.Identifier:
+        this.reference(node)
+        break
+      case NodeType.Literal:
+        break
+      case NodeType.BinaryExpression:
+      case NodeType.LogicalExpression:
+        this.expression(node.left)
+        this.expression(node.right)
+        break
+      case NodeType.UnaryExpression:
+      case NodeType.AwaitExpression:
+        this.expression(node.argument)
+        break
+      case NodeType.AssignmentExpression:
+        if (node.left.type === NodeType.Identifier) {
+          // x += 1 reads x as well as writing it
+          this.assign(node.left, node.operator !== '=')
+        }
+        else {
+          this.expression(node.left)
+        }
+        this.expression(node.right)
+        break
+      case NodeType.CallExpression:
+        this.expression(node.callee)
+        node.arguments.forEach(argument => this.expression(argument))
+        break
+      case NodeType.MemberExpression:
+        this.expression(node.object)
+        if (node.computed)
+          this.expression(node.property)
+        break
+      case NodeType.ArrayExpression:
+        node.elements.forEach(element => this.expression(element))
+        break
+      case NodeType.ObjectExpression:
+        node.properties.forEach((property) => {
+          if (property.key.type !== NodeType.Identifier)
+            this.expression(property.key)
+          this.expression(property.value)
+        })
+        break
+      case NodeType.ArrowFunctionExpression:
+        this.functionBody(node)
+        break
+      case NodeType.ConditionalExpression:
+        this.expression(node.test)
+        this.expression(node.consequent)
+        this.expression(node.alternate)
+        break
+    }
+  }
+
+  private reference(node: IdentifierNode): void {
+    const binding = this.scope.lookup(node.name)
+    if (binding) {
+      binding.used = true
+      this.references.set(node, binding)
+    }
+    else if (!this.globals.has(node.name)) {
+      this.report('warning', `'${node.name}' is not defined`, node, 'undeclared-identifier')
+    }
+  }
+
+  private assign(node: IdentifierNode, reads: boolean): void {
+    const binding = this.scope.lookup(node.name)
+    if (!binding) {
+      this.reference(node)
+      return
+    }
+
+    this.references.set(node, binding)
+    if (reads)
+      binding.used = true
+    if (binding.kind === 'const')
+      this.report('error', `Assignment to constant variable '${node.name}'`, node, 'const-reassignment')
+    else if (binding.kind === 'import')
+      this.report('error', `Assignment to imported binding '${node.name}'`, node, 'import-reassignment')
+  }
+
+  /**
+   * Declare imports, functions and consts of a statement list up front, and
+   * every var of a function body, so references before the declaration resolve
+   */
+  private declareHoisted(body: StatementNode[], scope: Scope): void {
+    body.forEach((node) => {
+      const statement = node.type === NodeType.ExportDeclaration ? node.declaration : node
+      if (statement.type === NodeType.ImportDeclaration)
+        statement.specifiers.forEach(specifier => this.declare(scope, specifier.local, 'import', statement))
+      else if (statement.type === NodeType.FunctionDeclaration)
+        this.declare(scope, statement.id, 'function', statement)
+      else if (statement.type === NodeType.VariableDeclaration && statement.kind === 'const')
+        statement.declarations.forEach(declarator => this.declare(scope, declarator.id, 'const', statement))
+    })
+
+    if (scope.isFunction)
+      this.hoistVars(body, scope)
+  }
+
+  private hoistVars(body: StatementNode[], scope: Scope): void {
+    const visit = (statement: StatementNode | undefined): void => {
+      if (!statement)
+        return
+
+      switch (statement.type) {
+        case NodeType.VariableDeclaration:
+          if (statement.kind === 'var')
+            statement.declarations.forEach(declarator => this.declare(scope, declarator.id, 'var', statement))
+
+          break
+        case NodeType.Block:
+          statement.body.forEach(visit)
+          break
+        case NodeType.IfStatement:
+          visit(statement.consequent)
+          visit(statement.alternate)
+          break
+        case NodeType.WhileStatement:
+          visit(statement.body)
+          break
+        case NodeType.ForStatement:
+          if (statement.init?.type === NodeType.VariableDeclaration)
+            visit(statement.init)
+          visit(statement.body)
+          break
+        case NodeType.SwitchStatement:
+          statement.cases.forEach(caseNode => caseNode.consequent.forEach(visit))
+          break
+        case NodeType.TryStatement:
+          visit(statement.block)
+          visit(statement.handler)
+          visit(statement.finalizer)
+          break
+        case NodeType.ExportDeclaration:
+          visit(statement.declaration)
+          break
+      }
+    }
+
+    body.forEach(visit)
+  }
+
+  private declare(
+    scope: Scope,
+    node: IdentifierNode,
+    kind: BindingKind,
+    declaration?: VariableDeclarationNode | FunctionDeclarationNode | ImportDeclarationNode,
+  ): void {
+    const existing = scope.bindings.get(node.name)
+    if (existing) {
+      this.references.set(node, existing)
+      // Redeclaring a var or function is allowed, but never when a const or import is involved
+      if ([existing.kind, kind].some(bindingKind => bindingKind === 'const' || bindingKind === 'import'))
+        this.report('error', `Identifier '${node.name}' has already been declared`, node, 'duplicate-declaration')
+
+      return
+    }
+
+    const binding: Binding = { name: node.name, kind, node, declaration, used: false }
+    scope.bindings.set(node.name, binding)
+    this.bindings.push(binding)
+    this.references.set(node, binding)
+  }
+
+  private withScope(isFunction: boolean, body: StatementNode[], fn: () => void): void {
+    const scope = new Scope(this.scope, isFunction)
+    this.declareHoisted(body, scope)
+
+    const parent = this.scope
+    this.scope = scope
+    try {
+      fn()
+    }
+    finally {
+      this.scope = parent
+    }
+
+    this.reportUnused(scope)
+  }
+
+  private reportUnused(scope: Scope): void {
+    if (!scope.parent)
+      return
+
+    scope.bindings.forEach((binding) => {
+      if (binding.used || binding.kind === 'parameter')
+        return
+      this.report('warning', `'${binding.name}' is declared but never used`, binding.node, 'unused-variable')
+    })
+  }
+
+  /**
+   * Only parameters after the last used one are reported, since earlier ones
+   * are needed to reach it; names starting with _ are intentionally unused
+   */
+  private reportUnusedParameters(params: IdentifierNode[], scope: Scope): void {
+    for (let i = params.length - 1; i >= 0; i--) {
+      const binding = scope.bindings.get(params[i].name)
+      if (!binding || binding.used)
+        return
+      if (binding.node !== params[i] || params[i].name.startsWith('_'))
+        continue
+
+      this.report('warning', `Parameter '${params[i].name}' is declared but never used`, params[i], 'unused-parameter')
+    }
+  }
+
+  /**
+   * Whether control never continues past the statement
+   */
+  private exits(node: StatementNode): boolean {
+    switch (node.type) {
+      case NodeType.ReturnStatement:
+      case NodeType.BreakStatement:
+      case NodeType.ContinueStatement:
+      case NodeType.ThrowStatement:
+        return true
+      case NodeType.Block:
+        return node.body.some(statement => this.exits(statement))
+      case NodeType.IfStatement:
+        return !!node.alternate && this.exits(node.consequent) && this.exits(node.alternate)
+      case NodeType.TryStatement:
+        if (node.finalizer && this.exits(node.finalizer))
+          return true
+        return this.exits(node.block) && (!node.handler || this.exits(node.handler))
+      default:
+        return false
+    }
+  }
+
+  private report(severity: DiagnosticSeverity, message: string, node: ASTNode, code: string): void {
+    const length = node.type === NodeType.Identifier ? (node as IdentifierNode).name.length : 1
+    this.diagnostics.push({
+      message,
+      severity,
+      line: node.line,
+      column: node.column,
+      endLine: node.line,
+      endColumn: node.column + length,
+      code,
+    })
+  }
+}
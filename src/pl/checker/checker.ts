@@ -0,0 +1,973 @@
+/**
+ * PL Type Checker
+ * Checks values against type annotations, inferring the types of unannotated locals
+ */
+
+import type {
+  ArrowFunctionExpressionNode,
+  AssignmentExpressionNode,
+  CallExpressionNode,
+  ExpressionNode,
+  FunctionDeclarationNode,
+  IdentifierNode,
+  MemberExpressionNode,
+  ProgramNode,
+  StatementNode,
+  TypeNode,
+  VariableDeclarationNode,
+} from '../parser/parser'
+import {
+  NodeType,
+} from '../parser/parser'
+import type { Diagnostic } from '../parser/diagnostics'
+import type { Binding } from '../analyzer/analyzer'
+import { Analyzer } from '../analyzer/analyzer'
+import type {
+  FunctionType,
+  PLType,
+} from './types'
+import {
+  ANY,
+  BOOL,
+  NULL,
+  NUMBER,
+  STRING,
+  VOID,
+  arrayOf,
+  builtinTypes,
+  filterType,
+  isAssignable,
+  mapOf,
+  stringMethod,
+  typeToString,
+  union,
+} from './types'
+
+export interface TypeCheckerOptions {
+  /** Names the host defines in addition to the runtime builtins; their values are typed any */
+  globals?: Iterable<string>
+}
+
+interface FunctionContext {
+  /** Annotated return type; absent when the function has none */
+  returns?: PLType
+}
+
+interface Position {
+  line: number
+  column: number
+  name?: string
+}
+
+// Array functions whose result depends on the element type, which the documentation only gives as "array"
+const ARRAY_METHODS = new Set([
+  'map', 'filter', 'find', 'forEach', 'reduce', 'sort', 'slice', 'reverse', 'splice', 'includes', 'indexOf', 'join', 'push', 'pop',
+])
+
+const FUNCTION: PLType = { kind: 'function', params: null, required: 0, returns: ANY }
+
+const NAMED_TYPES: Record<string, PLType> = {
+  any: ANY,
+  number: NUMBER,
+  string: STRING,
+  bool: BOOL,
+  boolean: BOOL,
+  null: NULL,
+  void: VOID,
+  object: mapOf(ANY),
+  function: FUNCTION,
+}
+
+const GENERIC_TYPES: Record<string, (argument: PLType) => PLType> = {
+  array: arrayOf,
+  map: mapOf,
+  promise: value => ({ kind: 'promise', value }),
+}
+
+// Results of the type() builtin, for narrowing on type(x) == "..."
+const TYPE_NAMES: Record<string, { type: PLType; matches: (type: PLType) => boolean }> = {
+  number: { type: NUMBER, matches: type => type.kind === 'number' },
+  string: { type: STRING, matches: type => type.kind === 'string' },
+  boolean: { type: BOOL, matches: type => type.kind === 'bool' },
+  null: { type: NULL, matches: type => type.kind === 'null' || type.kind === 'void' },
+  array: { type: arrayOf(ANY), matches: type => type.kind === 'array' },
+  object: { type: mapOf(ANY), matches: type => type.kind === 'map' || type.kind === 'record' },
+  function: { type: FUNCTION, matches: type => type.kind === 'function' },
+}
+
+const isNullish = (type: PLType) => type.kind === 'null' || type.kind === 'void'
+
+export class TypeChecker {
+  private readonly globals: Set<string>
+  private diagnostics: Diagnostic[] = []
+  private references: Map<IdentifierNode, Binding> = new Map()
+  private annotated: Set<Binding> = new Set()
+  private signatures: Map<FunctionDeclarationNode, FunctionType> = new Map()
+  // Types implied by the conditions around the code being checked, innermost last
+  private narrowed: Array<Map<Binding, PLType>> = []
+  private functions: FunctionContext[] = []
+  /** Type of every binding of the last checked program: its annotation, or the types of the values assigned to it */
+  types: Map<Binding, PLType> = new Map()
+
+  constructor(options: TypeCheckerOptions = {}) {
+    this.globals = new Set(options.globals ?? [])
+  }
+
+  /**
+   * Check a program. References are the analyzer's for this program; they are
+   * resolved again when not given.
+   */
+  check(program: ProgramNode, references?: Map<IdentifierNode, Binding>): Diagnostic[] {
+    if (!references) {
+      const analyzer = new Analyzer({ globals: this.globals })
+      analyzer.analyze(program)
+      references = analyzer.references
+    }
+
+    this.diagnostics = []
+    this.references = references
+    this.types = new Map()
+    this.annotated = new Set()
+    this.signatures = new Map()
+    this.narrowed = [new Map()]
+    this.functions = []
+    this.statements(program.body)
+
+    return this.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column)
+  }
+
+  private statements(body: StatementNode[]): void {
+    // Functions are hoisted, so calls before the declaration are checked against its signature
+    body.forEach((node) => {
+      const statement = node.type === NodeType.ExportDeclaration ? node.declaration : node
+      if (statement.type === NodeType.FunctionDeclaration) {
+        const signature = this.functionType(statement)
+        this.signatures.set(statement, signature)
+        this.setType(statement.id, signature)
+      }
+    })
+
+    body.forEach((statement) => {
+      this.statement(statement)
+
+      // After "if (x == null) return", x is not null for the rest of the block
+      if (statement.type === NodeType.IfStatement) {
+        if (!statement.alternate && this.exits(statement.consequent))
+          this.narrow(this.narrowings(statement.test, false))
+        else if (statement.alternate && this.exits(statement.alternate) && !this.exits(statement.consequent))
+          this.narrow(this.narrowings(statement.test, true))
+      }
+    })
+  }
+
+  private statement(node: StatementNode): void {
+    switch (node.type) {
+      case NodeType.Block:
+        this.withNarrowings(new Map(), () => this.statements(node.body))
+        break
+      case NodeType.ExpressionStatement:
+        this.expression(node.expression)
+        break
+      case NodeType.IfStatement:
+        this.expression(node.test)
+        this.withNarrowings(this.narrowings(node.test, true), () => this.statement(node.consequent))
+        if (node.alternate) {
+          const alternate = node.alternate
+          this.withNarrowings(this.narrowings(node.test, false), () => this.statement(alternate))
+        }
+        break
+      case NodeType.WhileStatement:
+        this.expression(node.test)
+        this.withNarrowings(this.narrowings(node.test, true), () => this.statement(node.body))
+        break
+      case NodeType.ForStatement:
+        if (node.init?.type === NodeType.VariableDeclaration)
+          this.variableDeclaration(node.init)
+        else if (node.init)
+          this.expression(node.init)
+
+        if (node.test)
+          this.expression(node.test)
+        this.withNarrowings(node.test ? this.narrowings(node.test, true) : new Map(), () => this.statement(node.body))
+        if (node.update)
+          this.expression(node.update)
+        break
+      case NodeType.ReturnStatement:
+        this.returnStatement(node.argument, node)
+        break
+      case NodeType.VariableDeclaration:
+        this.variableDeclaration(node)
+        break
+      case NodeType.FunctionDeclaration:
+        this.functionBody(node, this.signatures.get(node) ?? this.functionType(node))
+        break
+      case NodeType.SwitchStatement:
+        this.expression(node.discriminant)
+        node.cases.forEach((caseNode) => {
+          if (caseNode.test)
+            this.expression(caseNode.test)
+          this.withNarrowings(new Map(), () => this.statements(caseNode.consequent))
+        })
+        break
+      case NodeType.TryStatement:
+        this.statement(node.block)
+        if (node.handler)
+          this.statement(node.handler)
+        if (node.finalizer)
+          this.statement(node.finalizer)
+        break
+      case NodeType.ThrowStatement:
+        this.expression(node.argument)
+        break
+      case NodeType.ExportDeclaration:
+        this.statement(node.declaration)
+        break
+    }
+  }
+
+  private variableDeclaration(node: VariableDeclarationNode): void {
+    node.declarations.forEach(({ id, init }) => {
+      const declared = id.typeAnnotation ? this.resolve(id.typeAnnotation) : undefined
+      const binding = this.references.get(id)
+      if (declared && binding) {
+        this.annotated.add(binding)
+        this.types.set(binding, declared)
+      }
+      if (!init)
+        return
+
+      const value = this.expression(init, declared)
+      if (declared && binding) {
+        if (!isAssignable(value, declared))
+          this.report(`Type '${typeToString(value)}' is not assignable to type '${typeToString(declared)}'`, id, 'type-mismatch')
+
+        this.assigned(binding, value)
+      }
+      else if (binding && !this.annotated.has(binding)) {
+        this.infer(binding, value)
+      }
+    })
+  }
+
+  private returnStatement(argument: ExpressionNode | undefined, node: StatementNode): void {
+    const returns = this.functions[this.functions.length - 1]?.returns
+    const value = argument ? this.expression(argument, returns) : undefined
+    if (!returns || returns.kind === 'any')
+      return
+
+    if (!value) {
+      if (returns.kind !== 'void' && !isAssignable(NULL, returns))
+        this.report(`A value of type '${typeToString(returns)}' must be returned`, node, 'missing-return')
+    }
+    else {
+      this.returned(value, returns, argument!)
+    }
+  }
+
+  private returned(value: PLType, returns: PLType, node: ExpressionNode): void {
+    if (!isAssignable(value, returns) && !(returns.kind === 'void' && isNullish(value)))
+      this.report(`Type '${typeToString(value)}' is not assignable to return type '${typeToString(returns)}'`, node, 'type-mismatch')
+  }
+
+  /**
+   * Signature of a function from its annotations; parameters without one take
+   * the contextual types, e.g. the item type for the callback of an array's map
+   */
+  private functionType(node: FunctionDeclarationNode | ArrowFunctionExpressionNode, contextual?: PLType[]): FunctionType {
+    const params = node.params.map((param, i) => param.typeAnnotation ? this.resolve(param.typeAnnotation) : contextual?.[i] ?? ANY)
+    const required = node.params.reduce((count, _param, i) => node.defaults?.[i] ? count : i + 1, 0)
+    const annotations = [...node.params, ...(node.rest ? [node.rest] : [])].filter(param => param.typeAnnotation)
+
+    const type: FunctionType = {
+      kind: 'function',
+      params,
+      required,
+      returns: node.returnType ? this.resolve(node.returnType) : ANY,
+    }
+    if (node.rest)
+      type.rest = node.rest.typeAnnotation ? this.restType(node.rest.typeAnnotation) : ANY
+    if (node.async)
+      type.async = true
+    if (annotations.length > 0 || node.returnType)
+      type.strict = true
+    return type
+  }
+
+  private restType(annotation: TypeNode): PLType {
+    const type = this.resolve(annotation)
+    if (type.kind === 'array')
+      return type.element
+    if (type.kind !== 'any')
+      this.report('A rest parameter must have an array type', annotation, 'invalid-type')
+    return ANY
+  }
+
+  private functionBody(node: FunctionDeclarationNode | ArrowFunctionExpressionNode, signature: FunctionType): PLType {
+    const params = signature.params ?? []
+    node.params.forEach((param, i) => this.declareParameter(param, params[i] ?? ANY))
+    if (node.rest)
+      this.declareParameter(node.rest, arrayOf(signature.rest ?? ANY))
+
+    // Default values must fit the annotation, and are evaluated with the parameters in scope
+    node.defaults?.forEach((value, i) => {
+      if (!value)
+        return
+      const type = this.expression(value, params[i])
+      if (node.params[i].typeAnnotation && !isAssignable(type, params[i]))
+        this.report(`Type '${typeToString(type)}' is not assignable to type '${typeToString(params[i])}'`, value, 'type-mismatch')
+    })
+
+    const returns = node.returnType ? signature.returns : undefined
+    let result = signature.returns
+    // A declared function may be called anywhere, where the conditions around it need not hold;
+    // arrow functions are mostly called right away, e.g. as callbacks
+    const outer = this.narrowed
+    if (node.type === NodeType.FunctionDeclaration)
+      this.narrowed = []
+    this.functions.push({ returns })
+    this.withNarrowings(new Map(), () => {
+      if (node.body.type === NodeType.Block) {
+        this.statements(node.body.body)
+        if (returns && !isAssignable(NULL, returns) && returns.kind !== 'void' && !node.body.body.some(statement => this.exits(statement, true))) {
+          const name = node.type === NodeType.FunctionDeclaration ? `Function '${node.id.name}'` : 'Function'
+          this.report(`${name} must return a value of type '${typeToString(returns)}'`, node.type === NodeType.FunctionDeclaration ? node.id : node, 'missing-return')
+        }
+      }
+      else {
+        const value = this.expression(node.body, returns)
+        if (returns)
+          this.returned(value, returns, node.body)
+        else
+          result = value
+      }
+    })
+    this.functions.pop()
+    this.narrowed = outer
+
+    return result
+  }
+
+  private declareParameter(param: IdentifierNode, type: PLType): void {
+    const binding = this.references.get(param)
+    if (!binding)
+      return
+    if (param.typeAnnotation)
+      this.annotated.add(binding)
+    this.types.set(binding, type)
+  }
+
+  /**
+   * Type of an expression; the expected type gives the parameters of
+   * unannotated arrow functions their types
+   */
+  private expression(node: ExpressionNode, expected?: PLType): PLType {
+    switch (node.type) {
+      case NodeType.Literal:
+        return this.literal(node.value)
+      case NodeType.Identifier:
+        return this.identifier(node)
+      case NodeType.BinaryExpression:
+        return this.binary(node.operator, this.expression(node.left), this.expression(node.right), node)
+      case NodeType.LogicalExpression: {
+        const left = this.expression(node.left)
+        const truthy = node.operator === 'and' || node.operator === '&&'
+        const right = this.withNarrowings(this.narrowings(node.left, truthy), () => this.expression(node.right))
+        if (truthy)
+          return union(left, right)
+        // "x or default" is only x when x is truthy, which null never is
+        const present = filterType(left, type => !isNullish(type))
+        return present.kind === 'void' ? right : union(present, right)
+      }
+      case NodeType.UnaryExpression: {
+        const argument = this.expression(node.argument)
+        if (node.operator === 'not' || node.operator === '!')
+          return BOOL
+        if (!isAssignable(argument, NUMBER))
+          this.report(`Operator '${node.operator}' cannot be applied to type '${typeToString(argument)}'`, node, 'invalid-operand')
+
+        return NUMBER
+      }
+      case NodeType.AssignmentExpression:
+        return this.assignment(node)
+      case NodeType.CallExpression:
+        return this.call(node)
+      case NodeType.MemberExpression:
+        return this.member(node)
+      case NodeType.ArrayExpression: {
+        if (node.elements.length === 0)
+          return arrayOf(ANY)
+        const element = expected?.kind === 'array' ? expected.element : undefined
+        return arrayOf(union(...node.elements.map(item => this.expression(item, element))))
+      }
+      case NodeType.ObjectExpression: {
+        const properties: Record<string, PLType> = {}
+        for (const property of node.properties) {
+          const key = property.key.type === NodeType.Identifier
+            ? property.key.name
+            : property.key.type === NodeType.Literal ? String(property.key.value) : undefined
+          const value = this.expression(property.value, expected?.kind === 'map' ? expected.value : undefined)
+          if (key === undefined)
+            return mapOf(ANY)
+          properties[key] = property.kind === 'init' ? value : ANY
+        }
+        return { kind: 'record', properties }
+      }
+      case NodeType.ArrowFunctionExpression: {
+        const contextual = expected?.kind === 'function' ? expected.params ?? undefined : undefined
+        const signature = this.functionType(node, contextual)
+        return { ...signature, returns: this.functionBody(node, signature) }
+      }
+      case NodeType.ConditionalExpression: {
+        this.expression(node.test)
+        const consequent = this.withNarrowings(this.narrowings(node.test, true), () => this.expression(node.consequent, expected))
+        const alternate = this.withNarrowings(this.narrowings(node.test, false), () => this.expression(node.alternate, expected))
+        return union(consequent, alternate)
+      }
+      case NodeType.AwaitExpression: {
+        const value = this.expression(node.argument)
+        return value.kind === 'promise' ? value.value : value
+      }
+    }
+  }
+
+  private literal(value: unknown): PLType {
+    switch (typeof value) {
+      case 'number': return NUMBER
+      case 'string': return STRING
+      case 'boolean': return BOOL
+      default: return value === null ? NULL : ANY
+    }
+  }
+
+  private identifier(node: IdentifierNode): PLType {
+    const binding = this.references.get(node)
+    if (!binding)
+      return this.globals.has(node.name) ? ANY : builtinTypes().get(node.name) ?? ANY
+
+    for (let i = this.narrowed.length - 1; i >= 0; i--) {
+      const type = this.narrowed[i].get(binding)
+      if (type)
+        return type
+    }
+    return this.types.get(binding) ?? ANY
+  }
+
+  private binary(operator: string, left: PLType, right: PLType, node: ExpressionNode): PLType {
+    const invalid = () => this.report(
+      `Operator '${operator}' cannot be applied to types '${typeToString(left)}' and '${typeToString(right)}'`,
+      node,
+      'invalid-operand',
+    )
+
+    switch (operator) {
+      case '+':
+        if (left.kind === 'any' || right.kind === 'any')
+          return ANY
+        if (isAssignable(left, NUMBER) && isAssignable(right, NUMBER))
+          return NUMBER
+        if (left.kind === 'string' || right.kind === 'string')
+          return STRING
+        invalid()
+        return ANY
+      case '-':
+      case '*':
+      case '/':
+      case '%':
+      case '^':
+        if (!isAssignable(left, NUMBER) || !isAssignable(right, NUMBER))
+          invalid()
+        return NUMBER
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        if (!(isAssignable(left, NUMBER) && isAssignable(right, NUMBER)) && !(isAssignable(left, STRING) && isAssignable(right, STRING)))
+          invalid()
+
+        return BOOL
+      case '==':
+      case '!=':
+        return BOOL
+      default:
+        return ANY
+    }
+  }
+
+  private assignment(node: AssignmentExpressionNode): PLType {
+    const { left } = node
+    const binding = left.type === NodeType.Identifier ? this.references.get(left) : undefined
+    const owner = left.type === NodeType.MemberExpression ? this.inferredBinding(left.object) : undefined
+    const member = left.type === NodeType.MemberExpression ? this.memberTarget(left) : undefined
+    const target = left.type === NodeType.Identifier
+      ? ((binding && this.annotated.has(binding)) ? this.types.get(binding) : undefined)
+      : owner ? undefined : member
+
+    let value = this.expression(node.right, target)
+    if (node.operator !== '=') {
+      // The object of a member was already checked for its target type
+      const current = left.type === NodeType.Identifier ? this.identifier(left) : member ?? ANY
+      value = this.binary(node.operator.slice(0, -1), current, value, node)
+    }
+
+    if (target && !isAssignable(value, target))
+      this.report(`Type '${typeToString(value)}' is not assignable to type '${typeToString(target)}'`, left, 'type-mismatch')
+
+    if (binding) {
+      if (this.annotated.has(binding)) {
+        this.assigned(binding, value)
+      }
+      else {
+        this.narrowed.forEach(narrowings => narrowings.delete(binding))
+        this.infer(binding, value)
+      }
+    }
+    if (owner && left.type === NodeType.MemberExpression)
+      this.widenMember(owner, left, value)
+    return value
+  }
+
+  /**
+   * Binding of an identifier whose type is inferred, so that writing into it widens the type
+   */
+  private inferredBinding(node: ExpressionNode): Binding | undefined {
+    const binding = node.type === NodeType.Identifier ? this.references.get(node) : undefined
+    return (binding && !this.annotated.has(binding)) ? binding : undefined
+  }
+
+  /**
+   * Writing an item or property of an unannotated array or object widens its type
+   */
+  private widenMember(binding: Binding, node: MemberExpressionNode, value: PLType): void {
+    const type = this.types.get(binding)
+    const key = this.memberKey(node)
+    if (type?.kind === 'array' && node.computed && !isAssignable(value, type.element)) {
+      this.types.set(binding, arrayOf(union(type.element, value)))
+    }
+    else if (type?.kind === 'map' && !isAssignable(value, type.value)) {
+      this.types.set(binding, mapOf(union(type.value, value)))
+    }
+    else if (type?.kind === 'record' && key !== undefined) {
+      const current = Object.hasOwn(type.properties, key) ? type.properties[key] : undefined
+      if (!current || !isAssignable(value, current))
+        this.types.set(binding, { kind: 'record', properties: { ...type.properties, [key]: current ? union(current, value) : value } })
+    }
+  }
+
+  /**
+   * Type a property or item must have to be assigned, where it is known
+   */
+  private memberTarget(node: MemberExpressionNode): PLType | undefined {
+    const object = this.expression(node.object)
+    const key = this.memberKey(node)
+    switch (object.kind) {
+      case 'array':
+        return node.computed ? object.element : undefined
+      case 'map':
+        return object.value
+      case 'record':
+        return (key !== undefined && Object.hasOwn(object.properties, key)) ? object.properties[key] : undefined
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * An annotated binding takes the assigned value's type for the rest of the block,
+   * when that picks members of its union, e.g. number from number | null.
+   * Null is left out, as it is mostly a placeholder for a value assigned later.
+   */
+  private assigned(binding: Binding, value: PLType): void {
+    this.narrowed.forEach(narrowings => narrowings.delete(binding))
+    const declared = this.types.get(binding)
+    if (declared?.kind === 'union' && value.kind !== 'any' && !isNullish(value))
+      this.narrowed[this.narrowed.length - 1].set(binding, filterType(declared, member => isAssignable(value, member)))
+  }
+
+  /**
+   * An unannotated binding has the type of its first value; assigning other
+   * types widens it instead of being an error. Null says little about what
+   * comes later, so it leaves the type open.
+   */
+  private infer(binding: Binding, value: PLType): void {
+    const current = this.types.get(binding)
+    const type = isNullish(value) ? ANY : value
+    if (!current)
+      this.types.set(binding, type)
+    else if (!isAssignable(type, current))
+      this.types.set(binding, union(current, type))
+  }
+
+  private setType(node: IdentifierNode, type: PLType): void {
+    const binding = this.references.get(node)
+    if (binding)
+      this.types.set(binding, type)
+  }
+
+  private call(node: CallExpressionNode): PLType {
+    const { callee } = node
+    let fn: PLType
+
+    if (callee.type === NodeType.MemberExpression && !callee.computed && callee.property.type === NodeType.Identifier) {
+      const method = callee.property.name
+      if (ARRAY_METHODS.has(method) && this.isLibrary(callee.object, 'Array') && node.arguments.length > 0) {
+        // Array.map(items, fn) is items.map(fn)
+        const receiver = this.expression(node.arguments[0])
+        if (receiver.kind === 'array')
+          return this.arrayMethod(method, receiver.element, node.arguments.slice(1), this.inferredBinding(node.arguments[0]))
+
+        fn = this.property(this.expression(callee.object), method)
+        return this.invoke((fn.kind === 'function' && fn.params) ? { ...fn, params: fn.params.slice(1) } : fn, node.arguments.slice(1), node)
+      }
+
+      const object = this.expression(callee.object)
+      if (object.kind === 'array' && ARRAY_METHODS.has(method))
+        return this.arrayMethod(method, object.element, node.arguments, this.inferredBinding(callee.object))
+
+      fn = this.property(object, method)
+    }
+    else if (callee.type === NodeType.Identifier && (callee.name === 'push' || callee.name === 'pop') && this.isLibrary(callee, callee.name) && node.arguments.length > 0) {
+      const receiver = this.expression(node.arguments[0])
+      if (receiver.kind === 'array')
+        return this.arrayMethod(callee.name, receiver.element, node.arguments.slice(1), this.inferredBinding(node.arguments[0]))
+
+      return this.invoke(this.identifier(callee), node.arguments.slice(1), node)
+    }
+    else {
+      fn = this.expression(callee)
+    }
+
+    return this.invoke(fn, node.arguments, node)
+  }
+
+  private invoke(fn: PLType, args: ExpressionNode[], node: CallExpressionNode): PLType {
+    if (fn.kind !== 'function' || !fn.params) {
+      args.forEach(argument => this.expression(argument))
+      if (fn.kind !== 'function' && fn.kind !== 'any' && fn.kind !== 'union')
+        this.report(`Type '${typeToString(fn)}' is not callable`, node.callee, 'not-callable')
+
+      return ANY
+    }
+
+    const params = fn.params
+    if (fn.strict) {
+      const most = fn.rest ? Infinity : params.length
+      if (args.length < fn.required || args.length > most) {
+        const expected = fn.required === most
+          ? plural(most, 'argument')
+          : args.length < fn.required ? `at least ${plural(fn.required, 'argument')}` : `at most ${plural(most, 'argument')}`
+        this.report(`Expected ${expected}, but got ${args.length}`, node, 'argument-count')
+      }
+    }
+
+    args.forEach((argument, i) => {
+      const expected = i < params.length ? params[i] : fn.rest
+      if (expected)
+        this.argument(argument, expected)
+      else
+        this.expression(argument)
+    })
+    return fn.async ? { kind: 'promise', value: fn.returns } : fn.returns
+  }
+
+  private argument(node: ExpressionNode | undefined, expected: PLType): PLType {
+    if (!node)
+      return ANY
+    const type = this.expression(node, expected)
+    if (!isAssignable(type, expected))
+      this.report(`Argument of type '${typeToString(type)}' is not assignable to parameter of type '${typeToString(expected)}'`, node, 'type-mismatch')
+
+    return type
+  }
+
+  /**
+   * Array functions typed by the item type: callbacks get it for their
+   * parameters, and results keep it, e.g. items.filter(f) is another T[].
+   * Items added to the array of an unannotated binding widen its type.
+   */
+  private arrayMethod(method: string, element: PLType, args: ExpressionNode[], owner?: Binding): PLType {
+    const callback = (params: PLType[], returns: PLType = ANY): PLType =>
+      this.argument(args[0], { kind: 'function', params, required: 0, returns })
+    const rest = (from: number, type: PLType = ANY) => args.slice(from).forEach(argument => this.argument(argument, type))
+    const items = (from: number) => args.slice(from).forEach((argument) => {
+      if (!owner || this.types.get(owner)?.kind !== 'array') {
+        this.argument(argument, element)
+        return
+      }
+      const type = this.expression(argument)
+      if (!isAssignable(type, element)) {
+        element = union(element, type)
+        this.types.set(owner, arrayOf(element))
+      }
+    })
+
+    switch (method) {
+      case 'map': {
+        const fn = callback([element, NUMBER])
+        rest(1)
+        return arrayOf(fn.kind === 'function' ? fn.returns : ANY)
+      }
+      case 'filter':
+        callback([element, NUMBER])
+        rest(1)
+        return arrayOf(element)
+      case 'find':
+        callback([element, NUMBER])
+        rest(1)
+        return union(element, NULL)
+      case 'forEach':
+        callback([element, NUMBER])
+        rest(1)
+        return VOID
+      case 'reduce': {
+        const accumulator = args[1] ? this.expression(args[1]) : element
+        const fn = callback([accumulator, element, NUMBER])
+        rest(2)
+        return (fn.kind === 'function' && fn.returns.kind !== 'any') ? fn.returns : accumulator
+      }
+      case 'sort':
+        if (args[0])
+          callback([element, element], NUMBER)
+        rest(1)
+        return arrayOf(element)
+      case 'splice':
+        args.slice(0, 2).forEach(argument => this.argument(argument, NUMBER))
+        items(2)
+        return arrayOf(element)
+      case 'slice':
+        rest(0, NUMBER)
+        return arrayOf(element)
+      case 'reverse':
+        rest(0)
+        return arrayOf(element)
+      case 'push':
+        items(0)
+        return NUMBER
+      case 'pop':
+        rest(0)
+        return element
+      case 'includes':
+        rest(0)
+        return BOOL
+      case 'indexOf':
+        rest(0)
+        return NUMBER
+      case 'join':
+        rest(0)
+        return STRING
+      default:
+        rest(0)
+        return ANY
+    }
+  }
+
+  /**
+   * Whether the expression names a builtin the program does not redefine
+   */
+  private isLibrary(node: ExpressionNode, name: string): boolean {
+    return node.type === NodeType.Identifier && node.name === name && !this.references.has(node) && !this.globals.has(name)
+  }
+
+  private member(node: MemberExpressionNode): PLType {
+    const object = this.expression(node.object)
+    if (!node.computed)
+      return node.property.type === NodeType.Identifier ? this.property(object, node.property.name) : ANY
+
+    const index = this.expression(node.property)
+    const key = this.memberKey(node)
+    switch (object.kind) {
+      case 'array':
+        return isAssignable(index, NUMBER) ? object.element : ANY
+      case 'string':
+        return STRING
+      case 'map':
+        return object.value
+      case 'record':
+        return (key !== undefined && Object.hasOwn(object.properties, key)) ? object.properties[key] : ANY
+      default:
+        return ANY
+    }
+  }
+
+  private property(object: PLType, name: string): PLType {
+    switch (object.kind) {
+      case 'record':
+        return Object.hasOwn(object.properties, name) ? object.properties[name] : ANY
+      case 'map':
+        return object.value
+      case 'array':
+        return name === 'length' ? NUMBER : ANY
+      case 'string':
+        return name === 'length' ? NUMBER : stringMethod(name) ?? ANY
+      case 'union': {
+        // Reading from a value that may be null is left to the runtime
+        const present = filterType(object, type => !isNullish(type))
+        return present.kind === 'union' ? ANY : this.property(present, name)
+      }
+      default:
+        return ANY
+    }
+  }
+
+  private memberKey(node: MemberExpressionNode): string | undefined {
+    if (!node.computed)
+      return node.property.type === NodeType.Identifier ? node.property.name : undefined
+    return node.property.type === NodeType.Literal ? String(node.property.value) : undefined
+  }
+
+  /**
+   * Types of identifiers while the test is truthy, or falsy: x, not x,
+   * x == null, x != null and type(x) == "name", combined with and / or
+   */
+  private narrowings(test: ExpressionNode, truthy: boolean): Map<Binding, PLType> {
+    const result = new Map<Binding, PLType>()
+    const narrow = (node: ExpressionNode, type: (current: PLType) => PLType) => {
+      const binding = node.type === NodeType.Identifier ? this.references.get(node) : undefined
+      if (binding)
+        result.set(binding, type(this.identifier(node as IdentifierNode)))
+    }
+
+    switch (test.type) {
+      case NodeType.Identifier:
+        if (truthy)
+          narrow(test, current => filterType(current, type => !isNullish(type)))
+        break
+      case NodeType.UnaryExpression:
+        if (test.operator === 'not' || test.operator === '!')
+          return this.narrowings(test.argument, !truthy)
+        break
+      case NodeType.BinaryExpression: {
+        if (test.operator !== '==' && test.operator !== '!=')
+          break
+        const equal = (test.operator === '==') === truthy
+        const [subject, other] = isNullLiteral(test.left) ? [test.right, test.left] : [test.left, test.right]
+
+        if (isNullLiteral(other)) {
+          narrow(subject, current => equal ? NULL : filterType(current, type => !isNullish(type)))
+        }
+        else if (
+          subject.type === NodeType.CallExpression && this.isLibrary(subject.callee, 'type')
+          && subject.arguments.length === 1 && other.type === NodeType.Literal && Object.hasOwn(TYPE_NAMES, String(other.value))
+        ) {
+          const name = TYPE_NAMES[String(other.value)]
+          narrow(subject.arguments[0], (current) => {
+            if (current.kind === 'any')
+              return equal ? name.type : ANY
+            return filterType(current, type => name.matches(type) === equal)
+          })
+        }
+        break
+      }
+      case NodeType.LogicalExpression: {
+        const both = (test.operator === 'and' || test.operator === '&&') === truthy
+        if (!both)
+          break
+        this.narrowings(test.left, truthy).forEach((type, binding) => result.set(binding, type))
+        this.withNarrowings(new Map(result), () => {
+          this.narrowings(test.right, truthy).forEach((type, binding) => result.set(binding, type))
+        })
+        break
+      }
+    }
+    return result
+  }
+
+  private narrow(narrowings: Map<Binding, PLType>): void {
+    const current = this.narrowed[this.narrowed.length - 1]
+    narrowings.forEach((type, binding) => current.set(binding, type))
+  }
+
+  private withNarrowings<T>(narrowings: Map<Binding, PLType>, fn: () => T): T {
+    this.narrowed.push(narrowings)
+    try {
+      return fn()
+    }
+    finally {
+      this.narrowed.pop()
+    }
+  }
+
+  /**
+   * Whether control never continues past the statement. For a function body
+   * only returns and throws count, and so does a while (true) loop.
+   */
+  private exits(node: StatementNode, fromFunction = false): boolean {
+    switch (node.type) {
+      case NodeType.ReturnStatement:
+      case NodeType.ThrowStatement:
+        return true
+      case NodeType.BreakStatement:
+      case NodeType.ContinueStatement:
+        return !fromFunction
+      case NodeType.Block:
+        return node.body.some(statement => this.exits(statement, fromFunction))
+      case NodeType.IfStatement:
+        return !!node.alternate && this.exits(node.consequent, fromFunction) && this.exits(node.alternate, fromFunction)
+      case NodeType.WhileStatement:
+        return fromFunction && node.test.type === NodeType.Literal && node.test.value === true
+      case NodeType.TryStatement:
+        if (node.finalizer && this.exits(node.finalizer, fromFunction))
+          return true
+        return this.exits(node.block, fromFunction) && (!node.handler || this.exits(node.handler, fromFunction))
+      default:
+        return false
+    }
+  }
+
+  /**
+   * The type an annotation names; unknown names are reported and typed any
+   */
+  private resolve(node: TypeNode): PLType {
+    switch (node.kind) {
+      case 'array':
+        return arrayOf(this.resolve(node.element))
+      case 'union':
+        return union(...node.types.map(type => this.resolve(type)))
+      case 'function':
+        return {
+          kind: 'function',
+          params: node.params.map(type => this.resolve(type)),
+          required: node.params.length,
+          returns: this.resolve(node.returns),
+          strict: true,
+        }
+      case 'named': {
+        const args = node.arguments.map(type => this.resolve(type))
+        if (Object.hasOwn(GENERIC_TYPES, node.name)) {
+          if (args.length !== 1) {
+            this.report(`Type '${node.name}' takes 1 type argument`, node, 'invalid-type')
+            return GENERIC_TYPES[node.name](ANY)
+          }
+          return GENERIC_TYPES[node.name](args[0])
+        }
+        if (Object.hasOwn(NAMED_TYPES, node.name)) {
+          if (args.length > 0)
+            this.report(`Type '${node.name}' takes no type arguments`, node, 'invalid-type')
+          return NAMED_TYPES[node.name]
+        }
+        this.report(`Unknown type '${node.name}'`, node, 'unknown-type')
+        return ANY
+      }
+    }
+  }
+
+  private report(message: string, node: Position, code: string): void {
+    const length = typeof node.name === 'string' ? node.name.length : 1
+    this.diagnostics.push({
+      message,
+      severity: 'error',
+      line: node.line,
+      column: node.column,
+      endLine: node.line,
+      endColumn: node.column + length,
+      code,
+    })
+  }
+}
+
+function isNullLiteral(node: ExpressionNode): boolean {
+  return node.type === NodeType.Literal && node.value === null
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
@@ -0,0 +1,233 @@
+/**
+ * PL Types
+ * Types the checker works with, how they relate and how they are printed
+ */
+
+import { BUILTIN_DOCS } from '../runtime/runtime'
+
+export type PLType =
+  | { kind: 'any' }
+  | { kind: 'number' }
+  | { kind: 'string' }
+  | { kind: 'bool' }
+  | { kind: 'null' }
+  | { kind: 'void' }
+  | { kind: 'array'; element: PLType }
+  /** Object used as a dictionary with values of one type; object is map<any> */
+  | { kind: 'map'; value: PLType }
+  /** Object literal with known properties; other properties may be added later */
+  | { kind: 'record'; properties: Record<string, PLType> }
+  | FunctionType
+  /** Result of calling an async function, until it is awaited */
+  | { kind: 'promise'; value: PLType }
+  | { kind: 'union'; types: PLType[] }
+
+export interface FunctionType {
+  kind: 'function'
+  /** Parameter types; null for the function type, which takes anything */
+  params: PLType[] | null
+  /** Number of parameters without a default value that callers must pass */
+  required: number
+  /** Element type of a rest parameter */
+  rest?: PLType
+  returns: PLType
+  async?: boolean
+  /** Whether calls are checked for the number of arguments, which is only done for annotated functions */
+  strict?: boolean
+}
+
+export const ANY: PLType = { kind: 'any' }
+export const NUMBER: PLType = { kind: 'number' }
+export const STRING: PLType = { kind: 'string' }
+export const BOOL: PLType = { kind: 'bool' }
+export const NULL: PLType = { kind: 'null' }
+export const VOID: PLType = { kind: 'void' }
+
+export const arrayOf = (element: PLType): PLType => ({ kind: 'array', element })
+export const mapOf = (value: PLType): PLType => ({ kind: 'map', value })
+
+/**
+ * Union of the types without duplicates; any absorbs every other type
+ */
+export function union(...types: PLType[]): PLType {
+  const members: PLType[] = []
+  types.flatMap(type => type.kind === 'union' ? type.types : [type]).forEach((type) => {
+    if (!members.some(member => sameType(member, type)))
+      members.push(type)
+  })
+
+  if (members.some(member => member.kind === 'any'))
+    return ANY
+  if (members.length === 0)
+    return VOID
+  return members.length === 1 ? members[0] : { kind: 'union', types: members }
+}
+
+/**
+ * The type without the members the predicate rejects; void when none is left
+ */
+export function filterType(type: PLType, keep: (member: PLType) => boolean): PLType {
+  if (type.kind !== 'union')
+    return keep(type) ? type : VOID
+  return union(...type.types.filter(keep))
+}
+
+export function sameType(a: PLType, b: PLType): boolean {
+  return isAssignable(a, b) && isAssignable(b, a)
+}
+
+/**
+ * Whether a value of the source type can be used where the target type is expected.
+ * Arrays and maps are covariant, as values are rarely written through a wider view.
+ */
+export function isAssignable(source: PLType, target: PLType): boolean {
+  if (source.kind === 'any' || target.kind === 'any')
+    return true
+  if (source.kind === 'union')
+    return source.types.every(member => isAssignable(member, target))
+  if (target.kind === 'union')
+    return target.types.some(member => isAssignable(source, member))
+
+  switch (target.kind) {
+    case 'array':
+      return source.kind === 'array' && isAssignable(source.element, target.element)
+    case 'map':
+      if (source.kind === 'map')
+        return isAssignable(source.value, target.value)
+      return source.kind === 'record' && Object.values(source.properties).every(value => isAssignable(value, target.value))
+    case 'record':
+      if (source.kind === 'map')
+        return Object.values(target.properties).every(value => isAssignable(source.value, value))
+      // Properties the source lacks may still be added to it, so only shared ones must match
+      return source.kind === 'record' && Object.entries(target.properties)
+        .every(([name, value]) => !(name in source.properties) || isAssignable(source.properties[name], value))
+    case 'function':
+      return source.kind === 'function' && isFunctionAssignable(source, target)
+    case 'promise':
+      return source.kind === 'promise' && isAssignable(source.value, target.value)
+    default:
+      return source.kind === target.kind
+  }
+}
+
+function isFunctionAssignable(source: FunctionType, target: FunctionType): boolean {
+  if (!target.params || !source.params)
+    return true
+  if (source.required > target.params.length && !target.rest)
+    return false
+
+  // Parameters are checked both ways, so a callback taking any or number both fit (number) -> bool
+  const compatible = (a: PLType, b: PLType) => isAssignable(a, b) || isAssignable(b, a)
+  const paramsMatch = target.params.every((param, i) => {
+    const other = i < source.params!.length ? source.params![i] : source.rest
+    return !other || compatible(param, other)
+  })
+  return paramsMatch && (target.returns.kind === 'void' || isAssignable(source.returns, target.returns))
+}
+
+export function typeToString(type: PLType): string {
+  switch (type.kind) {
+    case 'array': {
+      const element = typeToString(type.element)
+      return (type.element.kind === 'union' || (type.element.kind === 'function' && !!type.element.params)) ? `(${element})[]` : `${element}[]`
+    }
+    case 'map':
+      return type.value.kind === 'any' ? 'object' : `map<${typeToString(type.value)}>`
+    case 'record': {
+      const properties = Object.entries(type.properties).map(([name, value]) => `${name}: ${typeToString(value)}`)
+      return properties.length > 0 ? `{ ${properties.join(', ')} }` : '{}'
+    }
+    case 'function': {
+      if (!type.params)
+        return 'function'
+      const params = type.params.map(typeToString)
+      if (type.rest)
+        params.push(`...${typeToString(type.rest)}`)
+      return `(${params.join(', ')}) -> ${typeToString(type.returns)}`
+    }
+    case 'promise':
+      return `promise<${typeToString(type.value)}>`
+    case 'union':
+      return type.types.map(member => (member.kind === 'function' && member.params) ? `(${typeToString(member)})` : typeToString(member)).join(' | ')
+    default:
+      return type.kind
+  }
+}
+
+/**
+ * Type named in a builtin signature, e.g. "number" or "string[]"
+ */
+function signatureType(text: string | undefined): PLType {
+  if (text === undefined)
+    return VOID
+  if (text.endsWith('[]'))
+    return arrayOf(signatureType(text.slice(0, -2)))
+
+  switch (text) {
+    case 'number': return NUMBER
+    case 'string': return STRING
+    case 'boolean': return BOOL
+    case 'array': return arrayOf(ANY)
+    case 'object': return mapOf(ANY)
+    default: return ANY
+  }
+}
+
+/**
+ * Type of a builtin from its documented signature, e.g. "len(value): number".
+ * Parameters are untyped in the documentation, so only the result is known.
+ */
+function builtinFunction(signature: string): FunctionType {
+  const match = /^[\w.]+\((.*)\)(?:: (.+))?$/.exec(signature)!
+  const params = match[1] ? match[1].split(', ') : []
+  const named = params.filter(param => !param.startsWith('...'))
+  return {
+    kind: 'function',
+    params: named.map(() => ANY),
+    required: named.filter(param => !param.endsWith('?')).length,
+    rest: named.length < params.length ? ANY : undefined,
+    returns: signatureType(match[2]),
+  }
+}
+
+let builtins: Map<string, PLType> | undefined
+
+/**
+ * Types of the documented builtins: functions such as len, and libraries
+ * such as Math as records of their functions
+ */
+export function builtinTypes(): Map<string, PLType> {
+  if (builtins)
+    return builtins
+
+  builtins = new Map()
+  BUILTIN_DOCS.forEach((doc) => {
+    const [library, name] = doc.name.split('.')
+    if (!name) {
+      builtins!.set(library, builtinFunction(doc.signature))
+      return
+    }
+    const record = builtins!.get(library) ?? { kind: 'record', properties: {} }
+    if (record.kind === 'record')
+      record.properties[name] = builtinFunction(doc.signature)
+    builtins!.set(library, record)
+  })
+  return builtins
+}
+
+/**
+ * Type of a method called on a string, from the String library
+ */
+export function stringMethod(name: string): PLType | undefined {
+  const library = builtinTypes().get('String')
+  return (library?.kind === 'record' && Object.hasOwn(library.properties, name)) ? dropReceiver(library.properties[name]) : undefined
+}
+
+/**
+ * The library function as a method: without its first parameter
+ */
+function dropReceiver(type: PLType): PLType {
+  if (type.kind !== 'function' || !type.params)
+    return type
+  return { ...type, params: type.params.slice(1), required: Math.max(type.required - 1, 0) }
+}
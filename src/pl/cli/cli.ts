@@ -0,0 +1,516 @@
+/**
+ * PL Command-Line Tool
+ * pl run | compile | check | fmt | repl, with exit codes and --json output for scripts and CI.
+ * Node.js only: not exported from the browser entry point.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import readline from 'readline'
+import type { ParseArgsConfig } from 'util'
+import { parseArgs } from 'util'
+import type { ExecutionBackend } from '../compiler/compiler'
+import { PLCompiler } from '../compiler/compiler'
+import { PLREPL } from '../repl/repl'
+import { Formatter } from '../formatter/formatter'
+import type { Diagnostic, DiagnosticSeverity } from '../parser/diagnostics'
+import { ParseError } from '../parser/diagnostics'
+import { ModuleResolver } from '../modules/resolver'
+import { FileSystemLoader } from '../modules/fs-loader'
+import { MODULE_EXTENSION } from '../modules/loader'
+import { PLRuntime, RuntimeError } from '../runtime/runtime'
+import { VERSION } from '../index'
+
+/** Everything worked */
+export const EXIT_OK = 0
+/** The program has errors, failed at runtime, or is not formatted */
+export const EXIT_FAILURE = 1
+/** The command line itself is wrong */
+export const EXIT_USAGE = 2
+
+export interface CLIOptions {
+  stdin?: NodeJS.ReadableStream
+  stdout?: NodeJS.WritableStream
+  stderr?: NodeJS.WritableStream
+  /** Directory that file arguments are resolved against */
+  cwd?: string
+}
+
+/**
+ * A problem in a file, as printed by every command
+ */
+export interface CLIDiagnostic {
+  /** Path relative to the working directory */
+  file: string
+  line: number | null
+  column: number | null
+  endLine: number | null
+  endColumn: number | null
+  severity: DiagnosticSeverity
+  code: string
+  message: string
+}
+
+const USAGE = `Usage: pl <command> [options]
+
+Commands:
+  run <file>            Run a program and the modules it imports
+  compile <file>        Compile a program to JavaScript
+  check <paths...>      Report syntax and semantic problems
+  fmt <paths...>        Format programs
+  repl                  Start an interactive session
+
+Options:
+  --json                Print results and diagnostics as JSON
+  --backend <name>      run: transpiler (default), interpreter or vm
+  --timeout <ms>        run: stop the program after this long
+  -o, --output <file>   compile: write the JavaScript to a file
+  --sourcemap           compile: write a source map next to the output, or inline it
+  --minify              compile: minify the JavaScript
+  --global <name>       compile, check: a name the host defines (repeatable)
+  -w, --write           fmt: rewrite the files in place
+  --check               fmt: fail if any file is not formatted
+  -h, --help            Show this help
+  -v, --version         Show the version
+
+Directories given to check and fmt are searched for ${MODULE_EXTENSION} files.
+Exit codes: ${EXIT_OK} success, ${EXIT_FAILURE} errors in the program, ${EXIT_USAGE} wrong usage.
+`
+
+const COMMON_OPTIONS: NonNullable<ParseArgsConfig['options']> = {
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+}
+
+const COMMAND_OPTIONS: Record<string, NonNullable<ParseArgsConfig['options']>> = {
+  run: {
+    backend: { type: 'string' },
+    timeout: { type: 'string' },
+  },
+  compile: {
+    output: { type: 'string', short: 'o' },
+    sourcemap: { type: 'boolean' },
+    minify: { type: 'boolean' },
+    global: { type: 'string', multiple: true },
+  },
+  check: {
+    global: { type: 'string', multiple: true },
+  },
+  fmt: {
+    write: { type: 'boolean', short: 'w' },
+    check: { type: 'boolean' },
+  },
+  repl: {},
+}
+
+const BACKENDS: ReadonlySet<string> = new Set<ExecutionBackend>(['transpiler', 'interpreter', 'vm'])
+
+class UsageError extends Error {}
+
+type Values = Record<string, string | boolean | Array<string | boolean> | undefined>
+
+export class PLCommandLine {
+  private readonly stdin: NodeJS.ReadableStream
+  private readonly stdout: NodeJS.WritableStream
+  private readonly stderr: NodeJS.WritableStream
+  private readonly cwd: string
+  private readonly compiler = new PLCompiler()
+
+  constructor(options: CLIOptions = {}) {
+    this.stdin = options.stdin ?? process.stdin
+    this.stdout = options.stdout ?? process.stdout
+    this.stderr = options.stderr ?? process.stderr
+    this.cwd = path.resolve(options.cwd ?? process.cwd())
+  }
+
+  /**
+   * Run one command line, without the program name, and return the exit code
+   */
+  async run(args: string[]): Promise<number> {
+    const [command, ...rest] = args
+
+    if (command === '-v' || command === '--version') {
+      this.stdout.write(`${VERSION}\n`)
+      return EXIT_OK
+    }
+    if (command === undefined || command === '-h' || command === '--help' || command === 'help') {
+      this.stdout.write(USAGE)
+      return command === undefined ? EXIT_USAGE : EXIT_OK
+    }
+
+    try {
+      if (!(command in COMMAND_OPTIONS))
+        throw new UsageError(`Unknown command '${command}'`)
+
+      let parsed: { values: Values; positionals: string[] }
+      try {
+        parsed = parseArgs({ args: rest, options: { ...COMMON_OPTIONS, ...COMMAND_OPTIONS[command] }, allowPositionals: true })
+      }
+      catch (error) {
+        throw new UsageError(error instanceof Error ? error.message : String(error))
+      }
+
+      const { values, positionals } = parsed
+      if (values.help) {
+        this.stdout.write(USAGE)
+        return EXIT_OK
+      }
+
+      switch (command) {
+        case 'run':
+          return await this.runFile(this.single(command, positionals), values)
+        case 'compile':
+          return await this.compileFile(this.single(command, positionals), values)
+        case 'check':
+          return await this.check(this.paths(command, positionals), values)
+        case 'fmt':
+          return await this.format(this.paths(command, positionals), values)
+        default:
+          return await this.repl()
+      }
+    }
+    catch (error) {
+      if (!(error instanceof UsageError))
+        throw error
+      this.stderr.write(`pl: ${error.message}\n\n${USAGE}`)
+      return EXIT_USAGE
+    }
+  }
+
+  private async runFile(file: string, values: Values): Promise<number> {
+    const backend = (values.backend as string | undefined) ?? 'transpiler'
+    if (!BACKENDS.has(backend))
+      throw new UsageError(`Unknown backend '${backend}'`)
+
+    const timeout = values.timeout === undefined ? undefined : Number(values.timeout)
+    if (timeout !== undefined && !(Number.isInteger(timeout) && timeout > 0))
+      throw new UsageError(`Invalid timeout '${values.timeout}'`)
+
+    const entry = this.resolvePath(file)
+    const diagnostics = await this.diagnose([entry], [])
+    const failed = diagnostics.some(diagnostic => diagnostic.severity === 'error')
+
+    // With --json the program's output is collected into the result instead of streamed
+    let output = ''
+    const runtime = new PLRuntime()
+    const write = (...args: any[]) => {
+      const text = `${args.map(arg => runtime.stringify(arg)).join(' ')}\n`
+      if (values.json)
+        output += text
+      else this.stdout.write(text)
+    }
+
+    let value: any
+    if (!failed) {
+      try {
+        value = await this.compiler.executeModule(entry, new FileSystemLoader(path.dirname(entry)), {
+          backend: backend as ExecutionBackend,
+          timeout,
+          globals: { print: write, println: write },
+        })
+      }
+      catch (error) {
+        diagnostics.push(this.runtimeDiagnostic(entry, error))
+      }
+    }
+
+    const success = !diagnostics.some(diagnostic => diagnostic.severity === 'error')
+    if (values.json)
+      this.writeJSON({ success, output, value: success ? value ?? null : null, diagnostics })
+    else
+      this.report(diagnostics, this.stderr)
+
+    return success ? EXIT_OK : EXIT_FAILURE
+  }
+
+  private async compileFile(file: string, values: Values): Promise<number> {
+    const entry = this.resolvePath(file)
+    const outFile = values.output === undefined ? undefined : this.resolvePath(values.output as string)
+    const globals = this.names(values)
+    const diagnostics = await this.diagnose([entry], globals)
+
+    let code = ''
+    let sourceMap: string | undefined
+    if (!diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+      const source = fs.readFileSync(entry, 'utf8')
+      const modular = /^\s*(import|export)\b/m.test(source)
+
+      if (modular) {
+        // Bundles are made from several sources and have no source map
+        if (values.sourcemap)
+          diagnostics.push(this.fileDiagnostic(entry, 'warning', 'no-source-map', 'Source maps are not written for programs with imports or exports'))
+
+        code = (await this.compiler.bundle(entry, new FileSystemLoader(path.dirname(entry)), { minify: Boolean(values.minify), globals })).code
+      }
+      else {
+        const filename = path.relative(outFile ? path.dirname(outFile) : this.cwd, entry)
+        const result = this.compiler.compile(source, { sourceMap: Boolean(values.sourcemap), minify: Boolean(values.minify), filename, globals })
+        code = result.code
+        if (result.sourceMap)
+          sourceMap = JSON.stringify({ ...result.sourceMap, file: outFile ? path.basename(outFile) : undefined })
+      }
+    }
+
+    const success = !diagnostics.some(diagnostic => diagnostic.severity === 'error')
+    if (success && outFile) {
+      fs.mkdirSync(path.dirname(outFile), { recursive: true })
+      if (sourceMap) {
+        fs.writeFileSync(`${outFile}.map`, sourceMap)
+        code += `\n//# sourceMappingURL=${path.basename(outFile)}.map\n`
+      }
+      fs.writeFileSync(outFile, code)
+    }
+    else if (sourceMap) {
+      code += `\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(sourceMap).toString('base64')}\n`
+    }
+
+    if (values.json) {
+      this.writeJSON({ success, output: outFile ? this.relative(outFile) : null, code: (success && !outFile) ? code : null, diagnostics })
+    }
+    else {
+      if (success && !outFile)
+        this.stdout.write(code.endsWith('\n') ? code : `${code}\n`)
+      this.report(diagnostics, this.stderr)
+    }
+    return success ? EXIT_OK : EXIT_FAILURE
+  }
+
+  private async check(paths: string[], values: Values): Promise<number> {
+    const files = this.expand(paths)
+    const diagnostics = await this.diagnose(files, this.names(values))
+    const success = !diagnostics.some(diagnostic => diagnostic.severity === 'error')
+
+    if (values.json) {
+      this.writeJSON({ success, files: files.map(file => this.relative(file)), diagnostics })
+    }
+    else {
+      this.report(diagnostics, this.stdout)
+      const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length
+      this.stdout.write(`${plural(files.length, 'file')} checked: ${plural(errors, 'error')}, ${plural(diagnostics.length - errors, 'warning')}\n`)
+    }
+    return success ? EXIT_OK : EXIT_FAILURE
+  }
+
+  private async format(paths: string[], values: Values): Promise<number> {
+    const files = this.expand(paths)
+    const formatter = new Formatter()
+    const diagnostics: CLIDiagnostic[] = []
+    const changed: string[] = []
+    const formatted: string[] = []
+
+    for (const file of files) {
+      const source = this.read(file, diagnostics)
+      if (source === undefined)
+        continue
+
+      let result: string
+      try {
+        result = formatter.format(source)
+      }
+      catch (error) {
+        if (!(error instanceof ParseError))
+          throw error
+        diagnostics.push(this.toDiagnostic(file, error.diagnostic))
+        continue
+      }
+
+      if (result !== source) {
+        changed.push(file)
+        if (values.write)
+          fs.writeFileSync(file, result)
+      }
+      formatted.push(result)
+    }
+
+    const unformatted = Boolean(values.check) && !values.write && changed.length > 0
+    const success = diagnostics.length === 0 && !unformatted
+    if (values.json) {
+      this.writeJSON({ success, files: files.map(file => this.relative(file)), changed: changed.map(file => this.relative(file)), diagnostics })
+    }
+    else {
+      if (values.write || values.check)
+        changed.forEach(file => this.stdout.write(`${this.relative(file)}\n`))
+      else
+        formatted.forEach(text => this.stdout.write(text))
+
+      this.report(diagnostics, this.stderr)
+    }
+    return success ? EXIT_OK : EXIT_FAILURE
+  }
+
+  private async repl(): Promise<number> {
+    const repl = new PLREPL({ loader: new FileSystemLoader(this.cwd) })
+    const terminal = Boolean((this.stdout as NodeJS.WriteStream).isTTY)
+    const rl = readline.createInterface({
+      input: this.stdin,
+      output: this.stdout,
+      terminal,
+      completer: (line: string) => repl.complete(line),
+    })
+
+    if (terminal)
+      this.stdout.write(`PL ${VERSION}, type :help for the commands\n`)
+
+    rl.setPrompt(repl.prompt)
+    rl.prompt()
+
+    // Lines are evaluated one at a time, in the order they were typed
+    let queue = Promise.resolve()
+    rl.on('line', (text) => {
+      queue = queue.then(async () => {
+        const result = await repl.line(text)
+        if (result) {
+          this.stdout.write(result.printed)
+          if (result.echo !== undefined)
+            this.stdout.write(`${result.echo}\n`)
+          result.errors.forEach(message => this.stderr.write(`${message}\n`))
+        }
+        rl.setPrompt(repl.prompt)
+        rl.prompt()
+      })
+    })
+    rl.on('SIGINT', () => {
+      repl.cancelInput()
+      this.stdout.write('\n')
+      rl.setPrompt(repl.prompt)
+      rl.prompt()
+    })
+
+    await new Promise<void>(resolve => rl.on('close', resolve))
+    await queue
+    if (terminal)
+      this.stdout.write('\n')
+    return EXIT_OK
+  }
+
+  /**
+   * Problems of the given files and everything they import, each reported once
+   */
+  private async diagnose(files: string[], globals: string[]): Promise<CLIDiagnostic[]> {
+    const seen: Set<string> = new Set()
+    const diagnostics: CLIDiagnostic[] = []
+
+    for (const file of files) {
+      const graph = await new ModuleResolver(new FileSystemLoader(path.dirname(file)), { globals }).resolve(file)
+      graph.diagnostics.forEach((diagnostic) => {
+        const key = `${diagnostic.module}:${diagnostic.line}:${diagnostic.column}:${diagnostic.code}:${diagnostic.message}`
+        if (seen.has(key))
+          return
+        seen.add(key)
+        diagnostics.push(this.toDiagnostic(diagnostic.module, diagnostic))
+      })
+    }
+
+    return diagnostics
+  }
+
+  private toDiagnostic(file: string, diagnostic: Diagnostic): CLIDiagnostic {
+    return {
+      file: this.relative(file),
+      line: diagnostic.line,
+      column: diagnostic.column,
+      endLine: diagnostic.endLine,
+      endColumn: diagnostic.endColumn,
+      severity: diagnostic.severity,
+      code: diagnostic.code,
+      message: diagnostic.message,
+    }
+  }
+
+  private fileDiagnostic(file: string, severity: DiagnosticSeverity, code: string, message: string): CLIDiagnostic {
+    return { file: this.relative(file), line: null, column: null, endLine: null, endColumn: null, severity, code, message }
+  }
+
+  private runtimeDiagnostic(file: string, error: unknown): CLIDiagnostic {
+    const message = error instanceof Error ? error.message : String(error)
+    const located = error instanceof RuntimeError && error.line !== undefined
+    return {
+      ...this.fileDiagnostic(file, 'error', 'runtime-error', located ? message.replace(/ at line \d+, column \d+$/, '') : message),
+      line: located ? error.line ?? null : null,
+      column: located ? error.column ?? null : null,
+    }
+  }
+
+  /**
+   * file:line:column: severity: message (code)
+   */
+  private report(diagnostics: CLIDiagnostic[], stream: NodeJS.WritableStream): void {
+    diagnostics.forEach(({ file, line, column, severity, message, code }) => {
+      const position = line === null ? '' : `:${line}:${column}`
+      stream.write(`${file}${position}: ${severity}: ${message} (${code})\n`)
+    })
+  }
+
+  private writeJSON(value: unknown): void {
+    this.stdout.write(`${JSON.stringify(value, null, 2)}\n`)
+  }
+
+  private single(command: string, positionals: string[]): string {
+    if (positionals.length !== 1)
+      throw new UsageError(`${command} expects one file`)
+
+    return positionals[0]
+  }
+
+  private paths(command: string, positionals: string[]): string[] {
+    if (positionals.length === 0)
+      throw new UsageError(`${command} expects at least one file or directory`)
+
+    return positionals
+  }
+
+  private names(values: Values): string[] {
+    return (values.global as string[] | undefined) ?? []
+  }
+
+  private resolvePath(file: string): string {
+    return path.resolve(this.cwd, file)
+  }
+
+  private relative(file: string): string {
+    return path.relative(this.cwd, file) || path.basename(file)
+  }
+
+  private read(file: string, diagnostics: CLIDiagnostic[]): string | undefined {
+    try {
+      return fs.readFileSync(file, 'utf8')
+    }
+    catch (error) {
+      diagnostics.push(this.fileDiagnostic(file, 'error', 'file-not-found', `Cannot read file: ${(error as NodeJS.ErrnoException).code ?? String(error)}`))
+      return undefined
+    }
+  }
+
+  /**
+   * Files for the given paths, with directories replaced by the PL files under them
+   */
+  private expand(paths: string[]): string[] {
+    return paths.flatMap((entry) => {
+      const resolved = this.resolvePath(entry)
+      if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory())
+        return [resolved]
+
+      return walk(resolved).filter(file => file.endsWith(MODULE_EXTENSION)).sort()
+    })
+  }
+}
+
+function walk(directory: string): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules')
+      return []
+    const full = path.join(directory, entry.name)
+    return entry.isDirectory() ? walk(full) : [full]
+  })
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * Run one command line, e.g. runCLI(['check', 'scripts']), and return the exit code
+ */
+export async function runCLI(args: string[], options?: CLIOptions): Promise<number> {
+  return await new PLCommandLine(options).run(args)
+}
@@ -0,0 +1,9 @@
+/**
+ * PL command-line tool entry point, e.g. `pnpm pl check scripts/`
+ */
+
+import { runCLI } from './cli'
+
+runCLI(process.argv.slice(2)).then((code) => {
+  process.exitCode = code
+})
@@ -4,114 +4,301 @@
  */
 
 import { Lexer } from '../parser/lexer'
-import { Parser } from '../parser/parser'
-import { Transpiler } from '../transpiler/transpiler'
-import { PLRuntime, RuntimeError } from '../runtime/runtime'
+import type { ProgramNode } from '../parser/parser'
+import { NodeType, Parser, hasTopLevelAwait } from '../parser/parser'
+import type { Diagnostic } from '../parser/diagnostics'
+import { formatDiagnostic } from '../parser/diagnostics'
+import { Analyzer } from '../analyzer/analyzer'
+import { TypeChecker } from '../checker/checker'
+import { GUARD_PREFIX, Transpiler } from '../transpiler/transpiler'
+import type {
+  SourceMap,
+  SourceMapping,
+} from '../transpiler/sourcemap'
+import {
+  GENERATED_FILENAME,
+  createSourceMap,
+  offsetMappings,
+  originalPositionFromStack,
+} from '../transpiler/sourcemap'
+import type { Environment } from '../runtime/runtime'
+import { AsyncCalls, CancellationError, LimitExceededError, PLRuntime, RuntimeError, SecurityError } from '../runtime/runtime'
+import { Interpreter } from '../interpreter/interpreter'
+import { BytecodeCompiler } from '../vm/codegen'
+import type { BytecodeProgram } from '../vm/bytecode'
+import { ProgramCache } from '../vm/cache'
+import { VM } from '../vm/vm'
+import type { ModuleLoader } from '../modules/loader'
+import type { ModuleDiagnostic, ModuleGraph } from '../modules/resolver'
+import { ModuleResolver } from '../modules/resolver'
+import { Bundler } from '../modules/bundler'
+import type { REPLOptions } from '../repl/repl'
+import { PLREPL } from '../repl/repl'
 
 export interface CompileOptions {
   sourceMap?: boolean
   minify?: boolean
   runtime?: boolean
+  /** Source name recorded in the source map */
+  filename?: string
+  /** Names the host will define, so the analyzer does not report them as undeclared */
+  globals?: string[]
+  /** Check type annotations and the types inferred for locals; on by default */
+  typeCheck?: boolean
 }
 
 export interface CompileResult {
   code: string
   errors: string[]
   warnings: string[]
-  sourceMap?: any
+  /** Every problem found, with positions; errors and warnings hold the same as text */
+  diagnostics: Diagnostic[]
+  sourceMap?: SourceMap
+  /** The program awaits outside of any function, so it can only run asynchronously */
+  topLevelAwait?: boolean
 }
 
+/** Bundles have no source map, since they are made from several sources */
+export type BundleOptions = Omit<CompileOptions, 'sourceMap' | 'filename'>
+
+export interface BundleResult extends CompileResult {
+  /** Problems in every module; errors and warnings name the module in front of each message */
+  diagnostics: ModuleDiagnostic[]
+  /** Identifiers of the bundled modules, the entry module last */
+  modules: string[]
+}
+
+// new Function puts its parameter list on two lines before the body
+const FUNCTION_HEADER_LINES = 2
+
+// Constructor of async functions, which has no global name
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor
+
+const TOP_LEVEL_AWAIT_ERROR = 'Top-level await is only supported by executeAsync'
+
+/**
+ * How programs are run: transpiled to JavaScript, walked by the interpreter,
+ * or compiled to bytecode for the VM (both of which also work where
+ * new Function is blocked, e.g. by a CSP)
+ */
+export type ExecutionBackend = 'transpiler' | 'interpreter' | 'vm'
+
 export interface ExecutionContext {
   timeout?: number
   sandbox?: boolean
   globals?: Record<string, any>
+  backend?: ExecutionBackend
+  /** Instruction budget, interpreter and vm backends only */
+  maxInstructions?: number
+  /** Stops an asynchronous run; pending awaits reject with a CancellationError */
+  signal?: AbortSignal
 }
 
 export class PLCompiler {
   private readonly transpiler: Transpiler
+  // Used for execute, whose method calls go through the PL library and whose catch clauses get PL errors
+  private readonly executionTranspiler: Transpiler
+  // Used for executeAsync, whose awaits must also give up when the run is cancelled
+  private readonly asyncTranspiler: Transpiler
+  // Bytecode of the sources run on the vm backend
+  private readonly programs: ProgramCache = new ProgramCache()
 
   constructor() {
     this.transpiler = new Transpiler()
+    this.executionTranspiler = new Transpiler({ libraryMethods: true, guardErrors: true, trackAsync: true })
+    this.asyncTranspiler = new Transpiler({ libraryMethods: true, guardErrors: true, guardAwait: true, trackAsync: true })
   }
 
   compile(source: string, options: CompileOptions = {}): CompileResult {
+    return this.compileWith(this.transpiler, source, options)
+  }
+
+  private compileWith(transpiler: Transpiler, source: string, options: CompileOptions): CompileResult {
     const errors: string[] = []
     const warnings: string[] = []
+    const diagnostics: Diagnostic[] = []
 
     try {
       // Lexical analysis
-      const lexer = new Lexer(source)
+      const lexer = new Lexer(source, { recover: true })
       const tokens = lexer.tokenize()
 
-      // Syntax analysis
-      const parser = new Parser(tokens)
+      // Syntax analysis, collecting every error instead of stopping at the first
+      const parser = new Parser(tokens, { recover: true })
       const ast = parser.parse()
 
+      diagnostics.push(...lexer.diagnostics, ...parser.diagnostics)
+
+      // Semantic analysis, once the program is syntactically valid
+      if (diagnostics.length === 0) {
+        const analyzer = new Analyzer({ globals: options.globals })
+        const semantic = analyzer.analyze(ast)
+        const types = options.typeCheck === false
+          ? []
+          : new TypeChecker({ globals: options.globals }).check(ast, analyzer.references)
+        diagnostics.push(...[...semantic, ...types].sort((a, b) => a.line - b.line || a.column - b.column))
+      }
+
+      // A single program has nothing to import from; bundle() links modules
+      ast.body.forEach((stmt) => {
+        if (stmt.type !== NodeType.ImportDeclaration)
+          return
+        const { value, line, column } = stmt.source
+        diagnostics.push({
+          message: `Cannot resolve import "${value}" without a module loader; use bundle()`,
+          severity: 'error',
+          line,
+          column,
+          endLine: line,
+          endColumn: column + String(value).length + 2,
+          code: 'unresolved-import',
+        })
+      })
+
+      diagnostics.forEach((diagnostic) => {
+        const list = diagnostic.severity === 'error' ? errors : warnings
+        list.push(formatDiagnostic(diagnostic))
+      })
+
+      if (errors.length > 0)
+        return { code: '', errors, warnings, diagnostics }
+
       // Transpilation to JavaScript
-      let code = this.transpiler.transpile(ast)
+      const { code: body, mappings } = options.sourceMap
+        ? transpiler.transpileWithMappings(ast)
+        : { code: transpiler.transpile(ast), mappings: [] }
+      const topLevelAwait = hasTopLevelAwait(ast)
+      let code = body
 
       // Add runtime if requested
-      if (options.runtime !== false) {
-        code = this.wrapWithRuntime(code)
-      }
+      if (options.runtime !== false)
+        code = this.wrapWithRuntime(body, topLevelAwait)
 
       return {
         code,
         errors,
         warnings,
-        sourceMap: options.sourceMap ? this.generateSourceMap(source, code) : undefined
+        diagnostics,
+        sourceMap: options.sourceMap ? this.generateSourceMap(source, code, body, mappings, options.filename) : undefined,
+        topLevelAwait,
       }
-    } catch (error) {
+    }
+    catch (error) {
       return {
         code: '',
         errors: [error instanceof Error ? error.message : String(error)],
-        warnings
+        warnings,
+        diagnostics,
       }
     }
   }
 
   execute(source: string, context: ExecutionContext = {}): any {
-    const result = this.compile(source, { runtime: false })
+    if (context.backend === 'interpreter')
+      return this.createInterpreter(context).execute(this.parse(source))
 
-    if (result.errors.length > 0) {
-      throw new RuntimeError(result.errors.join('\n'))
+    if (context.backend === 'vm') {
+      const program = this.parse(source)
+      if (hasTopLevelAwait(program))
+        throw new RuntimeError(TOP_LEVEL_AWAIT_ERROR)
+
+      return this.createVM(context).execute(this.compileBytecode(source, program))
     }
 
-    // Create execution environment
-    const runtime = new PLRuntime()
-    const globals = runtime.getGlobals()
+    const result = this.compileWith(this.executionTranspiler, source, { runtime: false, sourceMap: true, globals: Object.keys(context.globals ?? {}) })
 
-    // Add custom globals if provided
-    if (context.globals) {
-      Object.entries(context.globals).forEach(([key, value]) => {
-        globals.define(key, value)
-      })
-    }
+    if (result.errors.length > 0)
+      throw new RuntimeError(result.errors.join('\n'))
+
+    if (result.topLevelAwait)
+      throw new RuntimeError(TOP_LEVEL_AWAIT_ERROR)
+
+    return this.run(result.code, context, result.sourceMap)
+  }
+
+  /**
+   * Run compiled code with the runtime builtins and the context globals in scope
+   */
+  private run(code: string, context: ExecutionContext, sourceMap?: SourceMap): any {
+    const scope = this.createScope(context, sourceMap)
 
-    // Execute the compiled code
     try {
-      const fn = new Function(...Object.keys(context.globals || {}), result.code)
+      // eslint-disable-next-line no-new-func -- compiled programs run as functions of the scope
+      const fn = new Function(...Object.keys(scope), `${code}\n//# sourceURL=${GENERATED_FILENAME}`)
 
-      if (context.timeout) {
-        return this.executeWithTimeout(fn, context.timeout, ...(Object.values(context.globals || {})))
-      }
+      if (context.timeout)
+        return this.executeWithTimeout(fn, context.timeout, ...Object.values(scope))
 
-      return fn(...(Object.values(context.globals || {})))
-    } catch (error) {
-      if (error instanceof Error) {
-        throw new RuntimeError(error.message)
-      }
-      throw error
+      return fn(...Object.values(scope))
+    }
+    catch (error) {
+      throw this.toRuntimeError(error, sourceMap)
     }
   }
 
+  /**
+   * Run a program that may await, at the top level or in async functions.
+   * The run stops at the next await once the timeout passes or context.signal is aborted.
+   */
   async executeAsync(source: string, context: ExecutionContext = {}): Promise<any> {
-    const result = this.compile(source, { runtime: false })
+    if (context.backend === 'interpreter')
+      return await this.createInterpreter(context).executeAsync(this.parse(source))
+
+    if (context.backend === 'vm') {
+      // Top-level await is allowed here, unlike in execute
+      const program = this.parse(source)
+      return await this.createVM(context).executeAsync(this.compileBytecode(source, program))
+    }
+
+    const globals = Object.keys(context.globals ?? {})
+    const result = this.compileWith(this.asyncTranspiler, source, { runtime: false, sourceMap: true, globals })
 
-    if (result.errors.length > 0) {
+    if (result.errors.length > 0)
       throw new RuntimeError(result.errors.join('\n'))
+
+    return await this.runAsync(result.code, context, result.sourceMap)
+  }
+
+  /**
+   * Run compiled code as an async function whose awaits reject once the run is aborted
+   */
+  private async runAsync(code: string, context: ExecutionContext, sourceMap?: SourceMap): Promise<any> {
+    const controller = new AbortController()
+    const abort = (): void => controller.abort(new CancellationError())
+    const timer = context.timeout
+      ? setTimeout(() => controller.abort(new LimitExceededError(`Execution timed out after ${context.timeout}ms`, 'timeout')), context.timeout)
+      : undefined
+
+    if (context.signal?.aborted)
+      abort()
+    context.signal?.addEventListener('abort', abort)
+
+    const calls = new AsyncCalls()
+    const scope = this.createScope(context, sourceMap, calls)
+    scope[`${GUARD_PREFIX}await`] = (value: any) => {
+      calls.observe(value)
+      return awaitUnlessAborted(value, controller.signal)
     }
 
+    try {
+      const fn = new AsyncFunction(...Object.keys(scope), `${code}\n//# sourceURL=${GENERATED_FILENAME}`)
+      const value = await fn(...Object.values(scope))
+      await awaitUnlessAborted(calls.settled(), controller.signal)
+      return value
+    }
+    catch (error) {
+      throw this.toRuntimeError(error, sourceMap)
+    }
+    finally {
+      clearTimeout(timer)
+      context.signal?.removeEventListener('abort', abort)
+    }
+  }
+
+  /**
+   * Runtime builtins and context globals, by name, along with the guards of the generated code
+   */
+  private createScope(context: ExecutionContext, sourceMap?: SourceMap, calls = new AsyncCalls()): Record<string, any> {
     const runtime = new PLRuntime()
     const globals = runtime.getGlobals()
 
@@ -121,30 +308,139 @@ export class PLCompiler {
       })
     }
 
-    try {
-      const fn = new Function(...Object.keys(context.globals || {}), `${result.code}; return Promise.resolve(result);`)
+    const scope = Object.fromEntries(globals.entries())
+    scope[`${GUARD_PREFIX}invoke`] = (target: any, name: string, ...args: any[]) => {
+      calls.observe(target)
+      return runtime.invoke(target, name, ...args)
+    }
+    scope[`${GUARD_PREFIX}async`] = (promise: Promise<any>) => calls.track(promise)
+    scope[`${GUARD_PREFIX}throw`] = runtime.thrown.bind(runtime)
+    scope[`${GUARD_PREFIX}catch`] = (error: unknown) => runtime.caught(this.toRuntimeError(error, sourceMap))
+    return scope
+  }
 
-      if (context.timeout) {
-        return await this.executeWithTimeoutAsync(fn, context.timeout, ...(Object.values(context.globals || {})))
-      }
+  /**
+   * Compile a module and everything it imports into one program
+   */
+  async bundle(entry: string, loader: ModuleLoader, options: BundleOptions = {}): Promise<BundleResult> {
+    const graph = await this.resolveModules(entry, loader, options.globals, options.typeCheck)
+    const { errors, warnings } = this.moduleMessages(graph)
+    const modules = graph.modules.map(record => record.id)
+
+    if (errors.length > 0)
+      return { code: '', errors, warnings, diagnostics: graph.diagnostics, modules }
+
+    const body = new Bundler().bundle(graph)
+    const topLevelAwait = graph.modules.some(record => hasTopLevelAwait(record.program))
+    const code = options.runtime !== false ? this.wrapWithRuntime(body, topLevelAwait) : body
+    return { code, errors, warnings, diagnostics: graph.diagnostics, modules, topLevelAwait }
+  }
 
-      return await fn(...(Object.values(context.globals || {})))
-    } catch (error) {
-      if (error instanceof Error) {
-        throw new RuntimeError(error.message)
+  /**
+   * Run a module after the modules it imports. The interpreter and vm backends
+   * run each module on its own and pass exports along instead of bundling.
+   */
+  async executeModule(entry: string, loader: ModuleLoader, context: ExecutionContext = {}): Promise<any> {
+    const globals = Object.keys(context.globals ?? {})
+
+    const graph = await this.resolveModules(entry, loader, globals)
+    const { errors } = this.moduleMessages(graph)
+    if (errors.length > 0)
+      throw new RuntimeError(errors.join('\n'))
+
+    if (context.backend !== 'interpreter' && context.backend !== 'vm')
+      return await this.runAsync(new Bundler({ libraryMethods: true, guardErrors: true, guardAwait: true, trackAsync: true }).bundle(graph), context)
+
+    const exports: Map<string, Record<string, any>> = new Map()
+    let value: any
+    for (const record of graph.modules) {
+      const modules = Object.fromEntries(record.imports.map(({ node, id }) => [node.source.value, exports.get(id)!]))
+      let scope: Environment
+      if (context.backend === 'vm') {
+        const vm = this.createVM(context, modules)
+        value = await vm.executeAsync(this.compileBytecode(record.source, record.program))
+        scope = vm.getScope()
+      }
+      else {
+        const interpreter = this.createInterpreter(context, modules)
+        value = await interpreter.executeAsync(record.program)
+        scope = interpreter.getScope()
       }
-      throw error
+
+      exports.set(record.id, Object.fromEntries(record.exports.map(name => [name, scope.get(name)])))
+    }
+    return value
+  }
+
+  private async resolveModules(entry: string, loader: ModuleLoader, globals?: string[], typeCheck?: boolean): Promise<ModuleGraph> {
+    return await new ModuleResolver(loader, { globals, typeCheck }).resolve(entry)
+  }
+
+  private moduleMessages(graph: ModuleGraph): { errors: string[]; warnings: string[] } {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    graph.diagnostics.forEach((diagnostic) => {
+      const list = diagnostic.severity === 'error' ? errors : warnings
+      list.push(`${diagnostic.module}: ${formatDiagnostic(diagnostic)}`)
+    })
+
+    return { errors, warnings }
+  }
+
+  private parse(source: string): ProgramNode {
+    try {
+      return new Parser(new Lexer(source).tokenize()).parse()
+    }
+    catch (error) {
+      throw new RuntimeError(error instanceof Error ? error.message : String(error))
     }
   }
 
-  createREPL(): PLREPL {
-    return new PLREPL(this)
+  /**
+   * Bytecode for the vm backend, compiled once per source. Parsing is skipped
+   * for sources compiled before; the program may be given if already parsed.
+   * The result can be stored with serialize() and run later on a VM.
+   */
+  compileBytecode(source: string, program?: ProgramNode): BytecodeProgram {
+    return this.programs.get(source, () => {
+      try {
+        return new BytecodeCompiler().compile(program ?? this.parse(source), source)
+      }
+      catch (error) {
+        throw error instanceof RuntimeError ? error : new RuntimeError(error instanceof Error ? error.message : String(error))
+      }
+    })
+  }
+
+  private createVM(context: ExecutionContext, modules?: Record<string, Record<string, any>>): VM {
+    return new VM({
+      globals: context.globals,
+      timeout: context.timeout,
+      maxInstructions: context.maxInstructions,
+      signal: context.signal,
+      modules,
+    })
+  }
+
+  private createInterpreter(context: ExecutionContext, modules?: Record<string, Record<string, any>>): Interpreter {
+    return new Interpreter({
+      globals: context.globals,
+      timeout: context.timeout,
+      maxInstructions: context.maxInstructions,
+      signal: context.signal,
+      modules,
+    })
   }
 
-  private wrapWithRuntime(code: string): string {
+  createREPL(options?: REPLOptions): PLREPL {
+    return new PLREPL(options)
+  }
+
+  private wrapWithRuntime(code: string, isAsync = false): string {
     return `
 // PL Runtime
-(function() {
+(${isAsync ? 'async ' : ''}function() {
   const print = (...args) => console.log(...args);
   const println = (...args) => console.log(...args);
   const len = (obj) => {
@@ -169,104 +465,62 @@ export class PLCompiler {
         const result = fn(...args)
         clearTimeout(timer)
         resolve(result)
-      } catch (error) {
+      }
+      catch (error) {
         clearTimeout(timer)
         reject(error)
       }
     })
   }
 
-  private async executeWithTimeoutAsync(fn: Function, timeout: number, ...args: any[]): Promise<any> {
-    const timer = setTimeout(() => {
-      throw new RuntimeError(`Execution timeout after ${timeout}ms`)
-    }, timeout)
-
-    try {
-      const result = await fn(...args)
-      clearTimeout(timer)
-      return result
-    } finally {
-      clearTimeout(timer)
-    }
+  private generateSourceMap(
+    source: string,
+    code: string,
+    body: string,
+    mappings: SourceMapping[],
+    filename?: string,
+  ): SourceMap {
+    // Shift positions past the runtime prelude, if any
+    const prelude = code.slice(0, code.indexOf(body)).split('\n')
+    const shifted = offsetMappings(mappings, prelude.length - 1, prelude[prelude.length - 1].length)
+
+    return createSourceMap(shifted, { source, filename })
   }
 
-  private generateSourceMap(source: string, code: string): any {
-    // Simplified source map generation
-    return {
-      version: 3,
-      sources: ['input.pl'],
-      names: [],
-      mappings: ''
-    }
-  }
-}
+  /**
+   * Convert an error thrown by generated code to a RuntimeError at the PL position
+   */
+  private toRuntimeError(error: unknown, sourceMap?: SourceMap): unknown {
+    if (!(error instanceof Error) || (error instanceof RuntimeError && error.line !== undefined))
+      return error
 
-export class PLREPL {
-  private readonly compiler: PLCompiler
-  private readonly history: string[] = []
-  private readonly context: Map<string, any> = new Map()
+    // Aborted runs stop wherever they were waiting, and host refusals are not the script's to handle
+    if (error instanceof CancellationError || error instanceof LimitExceededError || error instanceof SecurityError)
+      return error
 
-  constructor(compiler: PLCompiler) {
-    this.compiler = compiler
-  }
+    if (error instanceof RangeError && /call stack/i.test(error.message))
+      return new LimitExceededError('Maximum call stack size exceeded', 'callDepth')
 
-  evaluate(input: string): { output: any; errors: string[] } {
-    this.history.push(input)
+    const position = sourceMap && originalPositionFromStack(error.stack, sourceMap, FUNCTION_HEADER_LINES)
+    if (!position)
+      return new RuntimeError(error.message)
 
-    try {
-      const result = this.compiler.execute(input, {
-        globals: Object.fromEntries(this.context)
-      })
-
-      return {
-        output: result,
-        errors: []
-      }
-    } catch (error) {
-      return {
-        output: null,
-        errors: [error instanceof Error ? error.message : String(error)]
-      }
-    }
-  }
-
-  async evaluateAsync(input: string): Promise<{ output: any; errors: string[] }> {
-    this.history.push(input)
-
-    try {
-      const result = await this.compiler.executeAsync(input, {
-        globals: Object.fromEntries(this.context)
-      })
-
-      return {
-        output: result,
-        errors: []
-      }
-    } catch (error) {
-      return {
-        output: null,
-        errors: [error instanceof Error ? error.message : String(error)]
-      }
-    }
-  }
-
-  getHistory(): string[] {
-    return [...this.history]
-  }
-
-  clearHistory(): void {
-    this.history.length = 0
-  }
-
-  setVariable(name: string, value: any): void {
-    this.context.set(name, value)
-  }
-
-  getVariable(name: string): any {
-    return this.context.get(name)
+    return new RuntimeError(`${error.message} at line ${position.line}, column ${position.column}`, position.line, position.column)
   }
+}
 
-  clearContext(): void {
-    this.context.clear()
-  }
+/**
+ * Settle an awaited value, or reject with the abort reason once the signal is aborted
+ */
+function awaitUnlessAborted(value: any, signal: AbortSignal): Promise<any> {
+  if (signal.aborted)
+    return Promise.reject(signal.reason)
+
+  return new Promise((resolve, reject) => {
+    const abort = (): void => reject(signal.reason)
+    signal.addEventListener('abort', abort, { once: true })
+    Promise.resolve(value)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', abort))
+  })
 }
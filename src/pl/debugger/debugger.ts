@@ -0,0 +1,418 @@
+/**
+ * PL Debugger
+ * Line breakpoints, stepping, call stacks and watches over an interpreter run
+ */
+
+import { Lexer } from '../parser/lexer'
+import type { ASTNode, ExpressionNode, ProgramNode, StatementNode } from '../parser/parser'
+import { NodeType, Parser } from '../parser/parser'
+import type { InterpreterOptions, ScopeKind, StackFrame } from '../interpreter/interpreter'
+import { Interpreter } from '../interpreter/interpreter'
+import type { Environment } from '../runtime/runtime'
+import { PLRuntime } from '../runtime/runtime'
+
+export interface DebuggerOptions extends Omit<InterpreterOptions, 'onStatement'> {
+  /** Lines to stop at, see setBreakpoints */
+  breakpoints?: number[]
+  /** Stop before the first statement */
+  stopOnEntry?: boolean
+  /** Expressions evaluated at every stop */
+  watches?: string[]
+  /** Called whenever the program stops */
+  onStop?: (stop: DebugStop) => void
+}
+
+export type DebuggerState = 'idle' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
+
+export type StopReason = 'entry' | 'breakpoint' | 'step' | 'pause'
+
+export interface DebugVariable {
+  name: string
+  value: any
+  /** The value as typed in PL: strings quoted, functions by name */
+  display: string
+  type: 'undefined' | 'null' | 'boolean' | 'number' | 'string' | 'array' | 'object' | 'function'
+}
+
+export interface DebugScope {
+  kind: ScopeKind
+  variables: DebugVariable[]
+}
+
+export interface DebugFrame {
+  /** Name of the function, or <program> */
+  name: string
+  line: number
+  column: number
+  /** Innermost scope first; the global scope only lists host values */
+  scopes: DebugScope[]
+}
+
+export interface WatchResult {
+  expression: string
+  value?: any
+  display?: string
+  /** Why the expression could not be evaluated */
+  error?: string
+}
+
+export interface DebugStop {
+  reason: StopReason
+  line: number
+  column: number
+  /** Innermost call first */
+  frames: DebugFrame[]
+  watches: WatchResult[]
+}
+
+interface Step {
+  mode: 'into' | 'over' | 'out'
+  /** Call depth the step started at */
+  depth: number
+  reason: StopReason
+}
+
+// Statements that are not run where they stand, and so are never stopped at
+const SKIPPED = new Set<NodeType>([NodeType.Block, NodeType.FunctionDeclaration, NodeType.ImportDeclaration])
+
+// Builtins, which the global scope of a frame leaves out
+const BUILTINS = new Set(new PLRuntime().getGlobals().entries().map(([name]) => name))
+
+export class PLDebugger {
+  private readonly program: ProgramNode
+  private readonly interpreter: Interpreter
+  private readonly runtime = new PLRuntime()
+  private readonly options: DebuggerOptions
+  private readonly lines: number[]
+  private breakpoints: Set<number> = new Set()
+  private watches: string[]
+  private status: DebuggerState = 'idle'
+  private step: Step | null
+  private pauseRequested = false
+  private current: DebugStop | null = null
+  // Line and call depth of the last statement with the statements run there so far;
+  // stops happen when it changes, or when a loop comes back to one of those statements
+  private location = { line: 0, depth: 0, statements: new Set<StatementNode>() }
+  private stopListeners: Array<(stop: DebugStop | null) => void> = []
+
+  /**
+   * @throws ParseError when the source does not parse
+   */
+  constructor(source: string, options: DebuggerOptions = {}) {
+    this.options = options
+    this.program = new Parser(new Lexer(source).tokenize()).parse()
+    this.lines = breakableLines(this.program)
+    this.watches = [...(options.watches ?? [])]
+    this.step = options.stopOnEntry ? { mode: 'into', depth: 0, reason: 'entry' } : null
+    this.setBreakpoints(options.breakpoints ?? [])
+
+    this.interpreter = new Interpreter({
+      ...options,
+      onStatement: statement => this.onStatement(statement),
+    })
+  }
+
+  get state(): DebuggerState {
+    return this.status
+  }
+
+  /**
+   * Where the program is stopped, or null while it runs
+   */
+  get stopped(): DebugStop | null {
+    return this.current
+  }
+
+  /**
+   * Replace the breakpoints. A line without a statement moves to the next
+   * line that has one; returns the lines the breakpoints ended up on.
+   */
+  setBreakpoints(lines: number[]): number[] {
+    const verified = lines
+      .map(line => this.lines.find(candidate => candidate >= line))
+      .filter((line): line is number => line !== undefined)
+    this.breakpoints = new Set(verified)
+    return [...this.breakpoints].sort((a, b) => a - b)
+  }
+
+  getBreakpoints(): number[] {
+    return [...this.breakpoints].sort((a, b) => a - b)
+  }
+
+  /**
+   * Lines with a statement that can be stopped at
+   */
+  getBreakableLines(): number[] {
+    return [...this.lines]
+  }
+
+  addWatch(expression: string): WatchResult | undefined {
+    this.watches.push(expression)
+    return this.current ? this.watch(expression, this.interpreter.getCallStack()[0]) : undefined
+  }
+
+  removeWatch(expression: string): void {
+    this.watches = this.watches.filter(watch => watch !== expression)
+  }
+
+  getWatches(): string[] {
+    return [...this.watches]
+  }
+
+  /**
+   * Run the program until it ends; it stops at breakpoints and steps on the way
+   */
+  async start(): Promise<any> {
+    if (this.status !== 'idle')
+      throw new Error('The debugger has already started')
+
+    this.status = 'running'
+    try {
+      const value = await this.interpreter.executeAsync(this.program)
+      this.status = 'completed'
+      return value
+    }
+    catch (error) {
+      this.status = this.interpreter.state === 'cancelled' ? 'cancelled' : 'failed'
+      throw error
+    }
+    finally {
+      this.current = null
+      this.notify(null)
+    }
+  }
+
+  /**
+   * Wait until the program stops; null when it ends first
+   */
+  nextStop(): Promise<DebugStop | null> {
+    if (this.current)
+      return Promise.resolve(this.current)
+
+    if (this.status !== 'idle' && this.status !== 'running')
+      return Promise.resolve(null)
+
+    return new Promise(resolve => this.stopListeners.push(resolve))
+  }
+
+  continue(): void {
+    this.resume(null)
+  }
+
+  /**
+   * Run to the next line of the current function, or of its caller once it returns
+   */
+  stepOver(): void {
+    this.resume('over')
+  }
+
+  /**
+   * Run to the next line, entering PL functions that are called
+   */
+  stepInto(): void {
+    this.resume('into')
+  }
+
+  /**
+   * Run until the current function returns
+   */
+  stepOut(): void {
+    this.resume('out')
+  }
+
+  /**
+   * Stop before the next statement
+   */
+  pause(): void {
+    if (this.status === 'running')
+      this.pauseRequested = true
+  }
+
+  /**
+   * End the run, which then fails with a CancellationError
+   */
+  stop(): void {
+    this.interpreter.cancel()
+  }
+
+  /**
+   * Evaluate an expression in a frame of the stopped program, innermost first
+   */
+  evaluate(expression: string, frame = 0): any {
+    const target = this.interpreter.getCallStack()[frame]
+    if (!this.current || !target)
+      throw new Error('The program is not stopped')
+
+    return this.interpreter.evaluateIn(parseExpression(expression), target.scope)
+  }
+
+  private resume(mode: Step['mode'] | null): void {
+    if (!this.current)
+      return
+
+    this.step = mode ? { mode, depth: this.interpreter.getCallStack().length, reason: 'step' } : null
+    this.current = null
+    this.status = 'running'
+    this.interpreter.resume()
+  }
+
+  private onStatement(statement: StatementNode): void {
+    if (SKIPPED.has(statement.type) || this.current)
+      return
+
+    const depth = this.interpreter.getCallStack().length
+    const moved = statement.line !== this.location.line || depth !== this.location.depth || this.location.statements.has(statement)
+    if (moved)
+      this.location = { line: statement.line, depth, statements: new Set() }
+
+    this.location.statements.add(statement)
+
+    const reason = this.stopReason(statement, depth, moved)
+    if (!reason)
+      return
+
+    this.pauseRequested = false
+    this.step = null
+    this.status = 'paused'
+    this.interpreter.pause()
+    this.current = this.snapshot(reason, statement)
+    this.options.onStop?.(this.current)
+    this.notify(this.current)
+  }
+
+  private stopReason(statement: StatementNode, depth: number, moved: boolean): StopReason | undefined {
+    if (this.pauseRequested)
+      return 'pause'
+    if (!moved)
+      return undefined
+    if (this.breakpoints.has(statement.line))
+      return 'breakpoint'
+
+    const step = this.step
+    if (!step)
+      return undefined
+    if (step.mode === 'into')
+      return step.reason
+    if (step.mode === 'over' && depth <= step.depth)
+      return step.reason
+    if (step.mode === 'out' && depth < step.depth)
+      return step.reason
+    return undefined
+  }
+
+  private notify(stop: DebugStop | null): void {
+    const listeners = this.stopListeners
+    this.stopListeners = []
+    listeners.forEach(listener => listener(stop))
+  }
+
+  private snapshot(reason: StopReason, statement: StatementNode): DebugStop {
+    const stack = this.interpreter.getCallStack()
+    return {
+      reason,
+      line: statement.line,
+      column: statement.column,
+      frames: stack.map(frame => this.frame(frame)),
+      watches: this.watches.map(expression => this.watch(expression, stack[0])),
+    }
+  }
+
+  private frame(frame: StackFrame): DebugFrame {
+    const scopes: DebugScope[] = []
+    for (let scope: Environment | undefined = frame.scope; scope; scope = scope.parent) {
+      const kind = this.interpreter.scopeKind(scope)
+      const entries = scope.entries().filter(([name]) => kind !== 'global' || !BUILTINS.has(name))
+      scopes.push({ kind, variables: entries.map(([name, value]) => this.variable(name, value)) })
+    }
+    return { name: frame.name, line: frame.line, column: frame.column, scopes }
+  }
+
+  private watch(expression: string, frame: StackFrame): WatchResult {
+    try {
+      const value = this.interpreter.evaluateIn(parseExpression(expression), frame.scope)
+      return { expression, value, display: this.display(value) }
+    }
+    catch (error) {
+      return { expression, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  private variable(name: string, value: any): DebugVariable {
+    return { name, value, display: this.display(value), type: typeOf(value) }
+  }
+
+  private display(value: any): string {
+    if (typeof value === 'string')
+      return JSON.stringify(value)
+    if (typeof value === 'function')
+      return `[function ${value.name || 'anonymous'}]`
+    return this.runtime.stringify(value)
+  }
+}
+
+function typeOf(value: any): DebugVariable['type'] {
+  if (value === null)
+    return 'null'
+  if (Array.isArray(value))
+    return 'array'
+  switch (typeof value) {
+    case 'undefined':
+    case 'boolean':
+    case 'number':
+    case 'string':
+    case 'function':
+      return typeof value as DebugVariable['type']
+    default:
+      return 'object'
+  }
+}
+
+/**
+ * A watch expression: exactly one expression statement
+ */
+function parseExpression(source: string): ExpressionNode {
+  const program = new Parser(new Lexer(source).tokenize()).parse()
+  const [statement] = program.body
+  if (program.body.length !== 1 || statement.type !== NodeType.ExpressionStatement)
+    throw new Error(`"${source}" is not an expression`)
+
+  return statement.expression
+}
+
+/**
+ * Sorted start lines of the statements a run can stop at, including those
+ * in function bodies and arrow functions nested in expressions
+ */
+function breakableLines(program: ProgramNode): number[] {
+  const lines = new Set<number>()
+
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit)
+      return
+    }
+    if (value === null || typeof value !== 'object')
+      return
+
+    const node = value as ASTNode
+    if (typeof node.type === 'string' && isStatement(node) && !SKIPPED.has(node.type))
+      lines.add(node.line)
+
+    Object.entries(node).forEach(([key, child]) => {
+      if (!key.endsWith('Comments'))
+        visit(child)
+    })
+  }
+
+  visit(program.body)
+  return [...lines].sort((a, b) => a - b)
+}
+
+function isStatement(node: ASTNode): node is StatementNode {
+  return node.type === NodeType.Block
+    || node.type === NodeType.FunctionDeclaration
+    || node.type === NodeType.VariableDeclaration
+    || node.type === NodeType.ImportDeclaration
+    || node.type === NodeType.ExportDeclaration
+    || (node.type.endsWith('Statement') && node.type !== NodeType.CaseStatement)
+}
@@ -12,7 +12,7 @@ function fibonacci(n) {
 // Closures
 function createCounter(start) {
   var count = start
-  return function() {
+  return () -> {
     count = count + 1
     return count
   }
@@ -20,17 +20,15 @@ function createCounter(start) {
 
 // Class-like patterns using objects and functions
 function createPerson(name, age) {
-  return {
-    name: name,
-    age: age,
-    greet: function() {
-      println("Hi, I'm " + this.name + ", " + this.age + " years old")
-    },
-    haveBirthday: function() {
-      this.age = this.age + 1
-      println(this.name + " is now " + this.age)
-    }
+  var person = { name: name, age: age }
+  person.greet = () -> {
+    println("Hi, I'm " + person.name + ", " + person.age + " years old")
+  }
+  person.haveBirthday = () -> {
+    person.age = person.age + 1
+    println(person.name + " is now " + person.age)
   }
+  return person
 }
 
 // Switch statement
@@ -89,18 +87,14 @@ function reduce(arr, fn, initial) {
 }
 
 function compose(f, g) {
-  return function(x) {
-    return f(g(x))
-  }
+  return x -> f(g(x))
 }
 
 // Async-like patterns using callbacks
 function fetchData(url, callback) {
   // Simulated async operation
   println("Fetching data from " + url + "...")
-  setTimeout(function() {
-    callback({ data: "Sample data from " + url })
-  }, 1000)
+  setTimeout(() -> callback({ data: "Sample data from " + url }), 1000)
 }
 
 // Error handling patterns
@@ -141,7 +135,7 @@ println("\n=== String ===")
 println("Reverse 'hello' = " + reverseString("hello"))
 
 println("\n=== Reduce ===")
-var sum = reduce([1, 2, 3, 4, 5], function(acc, x) { return acc + x }, 0)
+var sum = reduce([1, 2, 3, 4, 5], (acc, x) -> acc + x, 0)
 println("Sum: " + sum)
 
 println("\n=== Safe Operations ===")
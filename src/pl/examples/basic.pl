@@ -3,7 +3,7 @@
 
 // Variable declarations
 var name = "PL Language"
-const version = 1.0
+const version = 1
 
 // Functions
 function greet(name) {
@@ -34,11 +34,7 @@ function sumArray(arr) {
 
 // Arrays and objects
 var numbers = [1, 2, 3, 4, 5]
-var person = {
-  name: "Alice",
-  age: 30,
-  city: "NYC"
-}
+var person = { name: "Alice", age: 30, city: "NYC" }
 
 // Higher-order functions
 function map(arr, fn) {
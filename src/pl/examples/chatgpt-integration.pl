@@ -2,28 +2,15 @@
 // Shows how to use PL for ChatGPT web interactions
 
 // API client functions
-function createChatMessage(role, content) {
-  return {
-    role: role,
-    content: content
-  }
-}
-
-function formatChatHistory(messages) {
-  var formatted = []
-  for (var i = 0; i < len(messages); i = i + 1) {
-    push(formatted, messages[i].role + ": " + messages[i].content)
-  }
-  return toString(formatted)
-}
+import { createChatMessage, formatChatHistory } from "./lib/chat.pl"
 
 // Message handling
-function processUserInput(input, history) {
+async function processUserInput(input, history) {
   // Add user message to history
   push(history, createChatMessage("user", input))
 
-  // Generate response (simulated)
-  var response = generateResponse(history)
+  // Generate response
+  var response = await generateResponse(history)
 
   // Add assistant response to history
   push(history, createChatMessage("assistant", response))
@@ -31,13 +18,21 @@ function processUserInput(input, history) {
   return response
 }
 
-function generateResponse(history) {
-  // Simulated response generation
+async function generateResponse(history) {
+  // Ask the model when the host provides the ai module, simulate otherwise
+  try {
+    return await ai.chat(history)
+  } catch (error) {
+    return simulateResponse(history)
+  }
+}
+
+function simulateResponse(history) {
   var lastUserMessage = history[len(history) - 1].content
 
   if (len(lastUserMessage) > 100) {
     return "That's quite a detailed message! Let me help you with that."
-  } else if (lastUserMessage includes "?") {
+  } else if (lastUserMessage.includes("?")) {
     return "That's an interesting question! Let me think about it."
   } else {
     return "I understand. How can I assist you further?"
@@ -45,7 +40,7 @@ function generateResponse(history) {
 }
 
 // Conversation flow
-function startConversation() {
+async function startConversation() {
   var chatHistory = []
   var running = true
 
@@ -54,12 +49,12 @@ function startConversation() {
 
   while (running) {
     println("\nYou: ")
-    var input = // Would be read from input in real implementation
+    var input = "quit" // Would be read from input in real implementation
 
     if (input == "quit") {
       running = false
     } else {
-      var response = processUserInput(input, chatHistory)
+      var response = await processUserInput(input, chatHistory)
       println("\nAssistant: " + response)
     }
   }
@@ -71,7 +66,7 @@ function startConversation() {
 // Utility functions
 function countTokens(text) {
   // Simplified token counting
-  var words = split(text, " ")
+  var words = text.split(" ")
   return len(words)
 }
 
@@ -82,14 +77,14 @@ function truncateMessage(message, maxTokens) {
     return message
   }
 
-  var words = split(message, " ")
+  var words = message.split(" ")
   var truncated = ""
 
   for (var i = 0; i < maxTokens; i = i + 1) {
     truncated = truncated + words[i] + " "
   }
 
-  return trim(truncated) + "..."
+  return truncated.trim() + "..."
 }
 
 // Example usage
@@ -101,7 +96,7 @@ var messages = [
 println("Initial Messages:")
 println(formatChatHistory(messages))
 
-var response = processUserInput("I'm doing great! Can you help me with something?", messages)
+var response = await processUserInput("I'm doing great! Can you help me with something?", messages)
 println("\nResponse: " + response)
 
 println("\nToken counting:")
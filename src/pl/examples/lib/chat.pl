@@ -0,0 +1,14 @@
+// PL Language - Chat helpers
+// Shared by scripts that build ChatGPT conversations
+
+export function createChatMessage(role, content) {
+  return { role: role, content: content }
+}
+
+export function formatChatHistory(messages) {
+  var formatted = []
+  for (var i = 0; i < len(messages); i = i + 1) {
+    push(formatted, messages[i].role + ": " + messages[i].content)
+  }
+  return toString(formatted)
+}
@@ -8,7 +8,7 @@
 println("=== Variables and Types ===")
 
 var name = "PL Language"
-const version = 1.0
+const version = 1
 var isActive = true
 var nothing = null
 
@@ -24,11 +24,7 @@ println("Nothing: " + toString(nothing))
 println("\n=== Arrays and Objects ===")
 
 var numbers = [1, 2, 3, 4, 5]
-var person = {
-  name: "Alice",
-  age: 30,
-  city: "NYC"
-}
+var person = { name: "Alice", age: 30, city: "NYC" }
 
 println("Numbers: " + toString(numbers))
 println("Person: " + toString(person))
@@ -125,7 +121,7 @@ println("\n=== Closures ===")
 
 function createCounter(start) {
   var count = start
-  return function() {
+  return () -> {
     count = count + 1
     return count
   }
@@ -0,0 +1,395 @@
+/**
+ * PL Sandboxed Executor
+ * Runs PL programs in an isolated V8 context with CPU, memory, output and call depth limits.
+ * Node.js only: not exported from the browser entry point.
+ */
+
+import vm from 'vm'
+import type {
+  IdentifierNode,
+  ImportDeclarationNode,
+  MemberExpressionNode,
+  ProgramNode,
+  PropertyNode,
+} from '../parser/parser'
+import {
+  NodeType,
+  hasTopLevelAwait,
+} from '../parser/parser'
+import { GUARD_PREFIX, Transpiler } from '../transpiler/transpiler'
+import type { SourceMapping } from '../transpiler/sourcemap'
+import { GENERATED_FILENAME, originalPositionFromStack } from '../transpiler/sourcemap'
+import {
+  AsyncCalls,
+  LimitExceededError,
+  PLRuntime,
+  RESTRICTED_PROPERTIES,
+  RuntimeError,
+  SecurityError,
+} from '../runtime/runtime'
+
+export { RuntimeError, SecurityError, LimitExceededError }
+
+export interface ExecutorOptions {
+  /** Wall-clock limit for one execution, in milliseconds */
+  timeout: number
+  /** Allowed heap growth during one execution, in bytes (sampled, approximate) */
+  memoryLimit: number
+  /** Output beyond this many characters is dropped */
+  maxOutputLength: number
+  /** Maximum number of nested PL function calls */
+  maxCallDepth: number
+  /** Extra host values visible to the program */
+  globals: Record<string, any>
+}
+
+export interface ExecutionResult {
+  success: boolean
+  output: string
+  value: any
+  variables: Record<string, any>
+  executionTime: number
+  truncated: boolean
+}
+
+export interface ExecutorState {
+  variables: Record<string, any>
+  output: string
+}
+
+const DEFAULT_OPTIONS: ExecutorOptions = {
+  timeout: 5000,
+  memoryLimit: 64 * 1024 * 1024,
+  maxOutputLength: 100000,
+  maxCallDepth: 1000,
+  globals: {},
+}
+
+// Host and reflection entry points a program must never reach
+const DENIED_GLOBALS = new Set([
+  'require',
+  'process',
+  'module',
+  'exports',
+  'import',
+  'global',
+  'globalThis',
+  'eval',
+  'Function',
+  'Object',
+  'Reflect',
+  'Proxy',
+  'Symbol',
+  'WebAssembly',
+  'Buffer',
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+])
+
+// Heap usage and the deadline are only sampled every so many guard calls
+const SAMPLE_INTERVAL = 1000
+
+export class PLExecutor {
+  readonly options: ExecutorOptions
+  readonly state: ExecutorState = { variables: {}, output: '' }
+
+  private readonly transpiler = new Transpiler({
+    instrument: true,
+    libraryMethods: true,
+    guardErrors: true,
+    guardAwait: true,
+    trackAsync: true,
+  })
+
+  private context: vm.Context
+  private declared: Set<string> = new Set()
+  private depth = 0
+  private guardCalls = 0
+  private heapBaseline = 0
+  // Async code resumes after runInContext returns, out of reach of its timeout; the guards stop it instead
+  private deadline = Infinity
+  private truncated = false
+  // Source positions of the program being run, for errors caught by PL code
+  private mappings: SourceMapping[] = []
+  // Async calls the program started, which may still run after it returns
+  private readonly calls = new AsyncCalls()
+
+  constructor(options: Partial<ExecutorOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    this.context = this.createContext()
+  }
+
+  execute(program: ProgramNode): ExecutionResult {
+    this.checkSecurity(program)
+    // The script runs synchronously under the timeout, async functions it calls under the deadline
+    if (hasTopLevelAwait(program))
+      throw new RuntimeError('Top-level await is not supported in the sandbox')
+
+    const { code, mappings } = this.transpiler.transpileWithMappings(program)
+    this.mappings = mappings
+    const startTime = performance.now()
+    const outputStart = this.state.output.length
+
+    this.depth = 0
+    this.guardCalls = 0
+    this.truncated = false
+    this.heapBaseline = process.memoryUsage().heapUsed
+    this.deadline = startTime + this.options.timeout
+    this.calls.reset()
+    this.collectDeclarations(program)
+
+    let value: any
+    try {
+      value = vm.runInContext(code, this.context, {
+        timeout: this.options.timeout,
+        filename: GENERATED_FILENAME,
+      })
+    }
+    catch (error) {
+      throw this.toPLError(error, mappings)
+    }
+    finally {
+      this.state.variables = this.readVariables()
+    }
+
+    return {
+      success: true,
+      output: this.state.output.slice(outputStart),
+      value,
+      variables: this.state.variables,
+      executionTime: performance.now() - startTime,
+      truncated: this.truncated,
+    }
+  }
+
+  /**
+   * Execute a program and wait for the async calls it started, up to the
+   * deadline. A rejection the program never awaited fails the run like an
+   * error thrown by the program, and a promise value is resolved.
+   */
+  async executeAsync(program: ProgramNode): Promise<ExecutionResult> {
+    const outputStart = this.state.output.length
+    const result = this.execute(program)
+    const startTime = performance.now() - result.executionTime
+
+    this.calls.observe(result.value)
+    try {
+      const value = await this.beforeDeadline(Promise.resolve(result.value))
+      await this.beforeDeadline(this.calls.settled())
+      return {
+        ...result,
+        output: this.state.output.slice(outputStart),
+        value,
+        variables: this.readVariables(),
+        executionTime: performance.now() - startTime,
+        truncated: this.truncated,
+      }
+    }
+    catch (error) {
+      throw this.toPLError(error, this.mappings)
+    }
+  }
+
+  /**
+   * Drop all program state and start over with a fresh context
+   */
+  cleanup(): void {
+    this.context = this.createContext()
+    this.declared = new Set()
+    this.state.variables = {}
+    this.state.output = ''
+  }
+
+  private createContext(): vm.Context {
+    const runtime = new PLRuntime()
+    const globals = runtime.getGlobals()
+    const write = (...args: any[]) => this.write(`${args.map(arg => runtime.stringify(arg)).join(' ')}\n`)
+
+    globals.define('print', write)
+    globals.define('println', write)
+    Object.entries(this.options.globals).forEach(([name, value]) => globals.define(name, value))
+
+    const sandbox: Record<string, any> = Object.fromEntries(globals.entries())
+    sandbox[`${GUARD_PREFIX}enter`] = () => this.enter()
+    sandbox[`${GUARD_PREFIX}exit`] = () => {
+      this.depth--
+    }
+    sandbox[`${GUARD_PREFIX}tick`] = () => this.tick()
+    sandbox[`${GUARD_PREFIX}key`] = (key: any) => this.checkKey(key)
+    sandbox[`${GUARD_PREFIX}invoke`] = (target: any, name: string, ...args: any[]) => {
+      this.calls.observe(target)
+      return runtime.invoke(target, name, ...args)
+    }
+    sandbox[`${GUARD_PREFIX}await`] = (value: any) => {
+      this.calls.observe(value)
+      return value
+    }
+    sandbox[`${GUARD_PREFIX}async`] = (promise: Promise<any>) => this.calls.track(promise)
+    sandbox[`${GUARD_PREFIX}throw`] = runtime.thrown.bind(runtime)
+    sandbox[`${GUARD_PREFIX}catch`] = (error: unknown) => runtime.caught(this.toPLError(error, this.mappings))
+
+    return vm.createContext(sandbox, {
+      codeGeneration: { strings: false, wasm: false },
+    })
+  }
+
+  private write(text: string): void {
+    const room = this.options.maxOutputLength - this.state.output.length
+    if (room <= 0) {
+      this.truncated = true
+      return
+    }
+    if (text.length > room)
+      this.truncated = true
+
+    this.state.output += text.slice(0, room)
+  }
+
+  private enter(): void {
+    this.depth++
+    if (this.depth > this.options.maxCallDepth)
+      throw new LimitExceededError(`Maximum call depth of ${this.options.maxCallDepth} exceeded`, 'callDepth')
+
+    this.tick()
+  }
+
+  private tick(): void {
+    this.guardCalls++
+    if (this.guardCalls % SAMPLE_INTERVAL !== 0)
+      return
+
+    if (performance.now() > this.deadline)
+      throw new LimitExceededError(`Execution timed out after ${this.options.timeout}ms`, 'timeout')
+
+    const growth = process.memoryUsage().heapUsed - this.heapBaseline
+    if (growth > this.options.memoryLimit)
+      throw new LimitExceededError(`Memory limit of ${this.options.memoryLimit} bytes exceeded`, 'memory')
+  }
+
+  // Give up with a timeout error once the deadline passes
+  private async beforeDeadline<T>(promise: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const expired = new Promise<never>((resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new LimitExceededError(`Execution timed out after ${this.options.timeout}ms`, 'timeout')),
+        Math.max(0, this.deadline - performance.now()),
+      )
+    })
+    try {
+      return await Promise.race([promise, expired])
+    }
+    finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private checkKey(key: any): string | number {
+    const name = typeof key === 'number' ? key : String(key)
+    if (RESTRICTED_PROPERTIES.has(String(name)))
+      throw new SecurityError(`Access to property "${name}" is not allowed`)
+
+    return name
+  }
+
+  /**
+   * Reject programs that reference host globals or prototype internals
+   */
+  private checkSecurity(node: any): void {
+    if (Array.isArray(node)) {
+      node.forEach(child => this.checkSecurity(child))
+      return
+    }
+    if (!node || typeof node !== 'object')
+      return
+
+    switch (node.type) {
+      case NodeType.Identifier: {
+        const { name, line, column } = node as IdentifierNode
+        if (DENIED_GLOBALS.has(name) || RESTRICTED_PROPERTIES.has(name) || name.startsWith(GUARD_PREFIX))
+          throw new SecurityError(`Access to "${name}" is not allowed at line ${line}, column ${column}`, line, column)
+
+        return
+      }
+      case NodeType.MemberExpression: {
+        const member = node as MemberExpressionNode
+        this.checkSecurity(member.object)
+        if (member.computed)
+          this.checkSecurity(member.property)
+        else
+          this.checkPropertyName(member.property)
+
+        return
+      }
+      case NodeType.Property: {
+        const property = node as PropertyNode
+        this.checkPropertyName(property.key)
+        this.checkSecurity(property.value)
+        return
+      }
+      case NodeType.ImportDeclaration: {
+        // Modules are linked by PLCompiler.bundle; the sandbox runs a single program
+        const { source, line, column } = node as ImportDeclarationNode
+        throw new RuntimeError(`Cannot import "${source.value}" in the sandbox at line ${line}, column ${column}`, line, column)
+      }
+    }
+
+    Object.entries(node).forEach(([key, value]) => {
+      if (key !== 'type' && key !== 'line' && key !== 'column')
+        this.checkSecurity(value)
+    })
+  }
+
+  private checkPropertyName(node: any): void {
+    const name = node.type === NodeType.Identifier ? node.name : String(node.value)
+    if (RESTRICTED_PROPERTIES.has(name))
+      throw new SecurityError(`Access to property "${name}" is not allowed at line ${node.line}, column ${node.column}`, node.line, node.column)
+  }
+
+  private collectDeclarations(program: ProgramNode): void {
+    program.body.forEach((node) => {
+      const stmt = node.type === NodeType.ExportDeclaration ? node.declaration : node
+      if (stmt.type === NodeType.VariableDeclaration)
+        stmt.declarations.forEach(decl => this.declared.add(decl.id.name))
+      else if (stmt.type === NodeType.FunctionDeclaration)
+        this.declared.add(stmt.id.name)
+    })
+  }
+
+  private readVariables(): Record<string, any> {
+    const variables: Record<string, any> = {}
+
+    this.declared.forEach((name) => {
+      try {
+        variables[name] = vm.runInContext(name, this.context)
+      }
+      catch {
+        // Declared by a statement that never ran
+      }
+    })
+
+    return variables
+  }
+
+  private toPLError(error: any, mappings: SourceMapping[]): Error {
+    if (error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT')
+      return new LimitExceededError(`Execution timed out after ${this.options.timeout}ms`, 'timeout')
+
+    if (error && error.name === 'RangeError' && /call stack/i.test(error.message))
+      return new LimitExceededError('Maximum call stack size exceeded', 'callDepth')
+
+    const located = error instanceof RuntimeError || error instanceof SecurityError
+    if (located && error.line !== undefined)
+      return error
+
+    const position = originalPositionFromStack(error?.stack, mappings)
+    const message = located ? error.message : `${error?.name ?? 'Error'}: ${error?.message ?? String(error)}`
+    const result = located ? error : new RuntimeError(message)
+    if (position) {
+      result.line = position.line
+      result.column = position.column
+      result.message = `${message} at line ${position.line}, column ${position.column}`
+    }
+    return result
+  }
+}
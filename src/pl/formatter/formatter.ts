@@ -0,0 +1,513 @@
+/**
+ * PL Language Formatter
+ * Prints the AST back as canonically formatted PL source, keeping comments
+ */
+
+import { Lexer } from '../parser/lexer'
+import type {
+  ArrowFunctionExpressionNode,
+  BlockNode,
+  ExpressionNode,
+  ForStatementNode,
+  FunctionParameters,
+  IdentifierNode,
+  IfStatementNode,
+  ImportDeclarationNode,
+  ObjectExpressionNode,
+  ProgramNode,
+  SourceComment,
+  StatementNode,
+  SwitchStatementNode,
+  TryStatementNode,
+  TypeNode,
+  VariableDeclarationNode,
+} from '../parser/parser'
+import {
+  NodeType,
+  Parser,
+  typeToSource,
+} from '../parser/parser'
+
+/**
+ * Where opening braces go, as in ESLint's brace-style rule:
+ * 1tbs keeps "} else {" together, stroustrup puts "else" on its own line,
+ * allman also puts every "{" on its own line
+ */
+export type BraceStyle = '1tbs' | 'stroustrup' | 'allman'
+
+export interface FormatOptions {
+  /** Spaces per indentation level, ignored when useTabs is set */
+  indentSize?: number
+  useTabs?: boolean
+  braceStyle?: BraceStyle
+  /** Calls, arrays and objects that would run past this column are split over several lines */
+  lineWidth?: number
+}
+
+// Binding strength of each expression form, following the parser's precedence climbing
+const PRECEDENCE = {
+  assignment: 1,
+  conditional: 2,
+  or: 3,
+  and: 4,
+  equality: 5,
+  comparison: 6,
+  term: 7,
+  factor: 8,
+  unary: 9,
+  power: 10,
+  call: 11,
+  primary: 12,
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '==': PRECEDENCE.equality,
+  '!=': PRECEDENCE.equality,
+  '<': PRECEDENCE.comparison,
+  '>': PRECEDENCE.comparison,
+  '<=': PRECEDENCE.comparison,
+  '>=': PRECEDENCE.comparison,
+  '+': PRECEDENCE.term,
+  '-': PRECEDENCE.term,
+  '*': PRECEDENCE.factor,
+  '/': PRECEDENCE.factor,
+  '%': PRECEDENCE.factor,
+  '^': PRECEDENCE.power,
+}
+
+const STRING_ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  '"': '\\"',
+  '\n': '\\n',
+  '\t': '\\t',
+  '\r': '\\r',
+}
+
+export class Formatter {
+  private readonly options: Required<FormatOptions>
+  private readonly indentUnit: string
+
+  constructor(options: FormatOptions = {}) {
+    this.options = {
+      indentSize: options.indentSize ?? 2,
+      useTabs: options.useTabs ?? false,
+      braceStyle: options.braceStyle ?? '1tbs',
+      lineWidth: options.lineWidth ?? 80,
+    }
+    this.indentUnit = this.options.useTabs ? '\t' : ' '.repeat(this.options.indentSize)
+  }
+
+  /**
+   * Format PL source; throws a ParseError if it does not parse
+   */
+  format(source: string): string {
+    const tokens = new Lexer(source, { comments: true }).tokenize()
+    return this.print(new Parser(tokens, { trivia: true }).parse())
+  }
+
+  print(program: ProgramNode): string {
+    const lines = this.statements(program.body, 0, program.innerComments)
+    return lines.length > 0 ? `${lines.join('\n')}\n` : ''
+  }
+
+  private statements(body: StatementNode[], level: number, innerComments?: SourceComment[]): string[] {
+    const lines: string[] = []
+    const indent = this.indent(level)
+
+    body.forEach((statement, index) => {
+      if (index > 0 && statement.blankLineBefore)
+        lines.push('')
+      statement.leadingComments?.forEach(comment => this.commentInto(lines, indent, comment))
+
+      let text = indent + this.statement(statement, level)
+      if (statement.trailingComments)
+        text += ` ${statement.trailingComments.map(comment => this.comment(comment)).join(' ')}`
+
+      lines.push(text)
+    })
+
+    innerComments?.forEach(comment => this.commentInto(lines, indent, comment))
+    return lines
+  }
+
+  private commentInto(lines: string[], indent: string, comment: SourceComment): void {
+    lines.push(indent + this.comment(comment))
+    if (comment.blankLineAfter)
+      lines.push('')
+  }
+
+  /**
+   * Statement text; the first line is not indented, later lines are
+   */
+  private statement(node: StatementNode, level: number): string {
+    switch (node.type) {
+      case NodeType.Block:
+        return this.block(node, level).trimStart()
+      case NodeType.ExpressionStatement:
+        return this.expression(node.expression, level, this.width(level))
+      case NodeType.VariableDeclaration:
+        return this.variableDeclaration(node, level, this.width(level))
+      case NodeType.FunctionDeclaration:
+        return `${node.async ? 'async ' : ''}function ${node.id.name}(${this.parameters(node)})${this.returnType(node.returnType)}${this.block(node.body, level)}`
+      case NodeType.IfStatement:
+        return this.ifStatement(node, level)
+      case NodeType.WhileStatement:
+        return `while (${this.expression(node.test, level, this.width(level) + 7)})${this.body(node.body, level)}`
+      case NodeType.ForStatement:
+        return this.forStatement(node, level)
+      case NodeType.ReturnStatement:
+        return node.argument ? `return ${this.expression(node.argument, level, this.width(level) + 7)}` : 'return'
+      case NodeType.BreakStatement:
+        return 'break'
+      case NodeType.ContinueStatement:
+        return 'continue'
+      case NodeType.SwitchStatement:
+        return this.switchStatement(node, level)
+      case NodeType.TryStatement:
+        return this.tryStatement(node, level)
+      case NodeType.ThrowStatement:
+        return `throw ${this.expression(node.argument, level, this.width(level) + 6)}`
+      case NodeType.ImportDeclaration:
+        return this.importDeclaration(node, level)
+      case NodeType.ExportDeclaration:
+        return node.declaration.type === NodeType.VariableDeclaration
+          ? `export ${this.variableDeclaration(node.declaration, level, this.width(level) + 7)}`
+          : `export ${this.statement(node.declaration, level)}`
+    }
+  }
+
+  private ifStatement(node: IfStatementNode, level: number): string {
+    let text = `if (${this.expression(node.test, level, this.width(level) + 4)})${this.body(node.consequent, level)}`
+    if (!node.alternate)
+      return text
+
+    const alternate = node.alternate.type === NodeType.IfStatement
+      ? ` ${this.ifStatement(node.alternate, level)}`
+      : this.body(node.alternate, level)
+
+    // "} else" stays together only in 1tbs, and only after a braced branch
+    const cuddled = this.options.braceStyle === '1tbs' && node.consequent.type === NodeType.Block
+    text += cuddled ? ' else' : `\n${this.indent(level)}else`
+    return text + alternate
+  }
+
+  private tryStatement(node: TryStatementNode, level: number): string {
+    // Like "} else", "} catch" and "} finally" stay together only in 1tbs
+    const separator = this.options.braceStyle === '1tbs' ? ' ' : `\n${this.indent(level)}`
+
+    let text = `try${this.block(node.block, level)}`
+    if (node.handler)
+      text += `${separator}catch${node.param ? ` (${node.param.name})` : ''}${this.block(node.handler, level)}`
+
+    if (node.finalizer)
+      text += `${separator}finally${this.block(node.finalizer, level)}`
+
+    return text
+  }
+
+  private forStatement(node: ForStatementNode, level: number): string {
+    const column = this.width(level) + 5
+    const init = !node.init
+      ? ''
+      : node.init.type === NodeType.VariableDeclaration
+        ? this.variableDeclaration(node.init, level, column)
+        : this.expression(node.init, level, column)
+    const test = node.test ? ` ${this.expression(node.test, level, column)}` : ''
+    const update = node.update ? ` ${this.expression(node.update, level, column)}` : ''
+
+    return `for (${init};${test};${update})${this.body(node.body, level)}`
+  }
+
+  private switchStatement(node: SwitchStatementNode, level: number): string {
+    const lines = node.cases.flatMap((caseNode) => {
+      const label = caseNode.test
+        ? `case ${this.expression(caseNode.test, level + 1, this.width(level + 1) + 5)}:`
+        : 'default:'
+      return [this.indent(level + 1) + label, ...this.statements(caseNode.consequent, level + 2)]
+    })
+
+    const discriminant = this.expression(node.discriminant, level, this.width(level) + 8)
+    const cases = lines.length > 0 ? `\n${lines.join('\n')}\n${this.indent(level)}` : ''
+    return `switch (${discriminant})${this.openBrace(level)}${cases}}`
+  }
+
+  private importDeclaration(node: ImportDeclarationNode, level: number): string {
+    const names = node.specifiers.map(specifier => specifier.local.name === specifier.imported.name
+      ? specifier.imported.name
+      : `${specifier.imported.name} as ${specifier.local.name}`)
+    const from = ` from ${this.literal(node.source.value)}`
+    if (names.length === 0)
+      return `import {}${from}`
+
+    const flat = `import { ${names.join(', ')} }${from}`
+    if (this.width(level) + flat.length <= this.options.lineWidth)
+      return flat
+    return `import {\n${names.map(name => this.indent(level + 1) + name).join(',\n')}\n${this.indent(level)}}${from}`
+  }
+
+  private variableDeclaration(node: VariableDeclarationNode, level: number, column: number): string {
+    let text = node.kind
+    node.declarations.forEach((declarator, index) => {
+      text += `${index > 0 ? ',' : ''} ${this.declared(declarator.id)}`
+      if (declarator.init) {
+        text += ' = '
+        text += this.expression(declarator.init, level, this.endColumn(text, column))
+      }
+    })
+    return text
+  }
+
+  /**
+   * Body of if/while/for: a block, or a single statement on the same line
+   */
+  private body(node: StatementNode, level: number): string {
+    if (node.type === NodeType.Block)
+      return this.block(node, level)
+    return ` ${this.statement(node, level)}`
+  }
+
+  /**
+   * A block, starting with the space or line break before its "{"
+   */
+  private block(node: BlockNode, level: number): string {
+    const lines = this.statements(node.body, level + 1, node.innerComments)
+    const open = this.openBrace(level)
+    if (lines.length === 0)
+      return `${open}}`
+    return `${open}\n${lines.join('\n')}\n${this.indent(level)}}`
+  }
+
+  private openBrace(level: number): string {
+    return this.options.braceStyle === 'allman' ? `\n${this.indent(level)}{` : ' {'
+  }
+
+  /**
+   * Expression text starting at the given column, split over several lines
+   * where it would not fit otherwise
+   */
+  private expression(node: ExpressionNode, level: number, column: number): string {
+    const flat = this.flat(node)
+    if (!flat.includes('\n') && column + flat.length <= this.options.lineWidth)
+      return flat
+
+    switch (node.type) {
+      case NodeType.ArrowFunctionExpression: {
+        const head = this.arrowHead(node)
+        if (node.body.type === NodeType.Block)
+          return head + this.block(node.body, level).trimStart()
+        // An object literal body would read as a block without the parentheses
+        return node.body.type === NodeType.ObjectExpression
+          ? `${head}(${this.expression(node.body, level, column + head.length + 1)})`
+          : head + this.expression(node.body, level, column + head.length)
+      }
+      case NodeType.CallExpression: {
+        const callee = this.operand(node.callee, PRECEDENCE.call, level, column)
+        if (node.arguments.length === 0)
+          return `${callee}()`
+        return `${callee}(${this.list(node.arguments, level)})`
+      }
+      case NodeType.ArrayExpression:
+        return node.elements.length === 0 ? '[]' : `[${this.list(node.elements, level)}]`
+      case NodeType.ObjectExpression:
+        return this.object(node, level)
+      case NodeType.MemberExpression: {
+        const object = this.operand(node.object, PRECEDENCE.call, level, column)
+        return node.computed ? `${object}[${this.flat(node.property)}]` : `${object}.${this.flat(node.property)}`
+      }
+      case NodeType.AssignmentExpression: {
+        const left = `${this.operand(node.left, PRECEDENCE.conditional, level, column)} ${node.operator} `
+        return left + this.operand(node.right, PRECEDENCE.assignment, level, this.endColumn(left, column))
+      }
+      case NodeType.BinaryExpression:
+      case NodeType.LogicalExpression: {
+        const operator = node.operator.toLowerCase()
+        const precedence = BINARY_PRECEDENCE[operator] ?? (operator === 'and' ? PRECEDENCE.and : PRECEDENCE.or)
+        const leftPrecedence = operator === '^' ? PRECEDENCE.call : precedence
+        const rightPrecedence = operator === '^' ? PRECEDENCE.unary : precedence + 1
+        const left = `${this.operand(node.left, leftPrecedence, level, column)} ${operator} `
+        return left + this.operand(node.right, rightPrecedence, level, this.endColumn(left, column))
+      }
+      default:
+        return flat
+    }
+  }
+
+  /**
+   * Items of a call, array or object, one per line
+   */
+  private list(items: ExpressionNode[], level: number): string {
+    const indent = this.indent(level + 1)
+    const lines = items.map(item => indent + this.expression(item, level + 1, this.width(level + 1)))
+    return `\n${lines.join(',\n')}\n${this.indent(level)}`
+  }
+
+  private object(node: ObjectExpressionNode, level: number): string {
+    if (node.properties.length === 0)
+      return '{}'
+
+    const indent = this.indent(level + 1)
+    const lines = node.properties.map((property) => {
+      const key = `${this.propertyKey(property.key)}: `
+      return indent + key + this.expression(property.value, level + 1, this.width(level + 1) + key.length)
+    })
+    return `{\n${lines.join(',\n')}\n${this.indent(level)}}`
+  }
+
+  /**
+   * Expression as a sub-expression that must bind at least as tightly as the given precedence
+   */
+  private operand(node: ExpressionNode, precedence: number, level: number, column: number): string {
+    if (this.precedence(node) >= precedence)
+      return this.expression(node, level, column)
+    return `(${this.expression(node, level, column + 1)})`
+  }
+
+  /**
+   * Expression text on a single line
+   */
+  private flat(node: ExpressionNode): string {
+    switch (node.type) {
+      case NodeType.Literal:
+        return this.literal(node.value)
+      case NodeType.Identifier:
+        return node.name
+      case NodeType.ArrayExpression:
+        return `[${node.elements.map(element => this.flat(element)).join(', ')}]`
+      case NodeType.ObjectExpression: {
+        const properties = node.properties.map(property => `${this.propertyKey(property.key)}: ${this.flat(property.value)}`)
+        return properties.length > 0 ? `{ ${properties.join(', ')} }` : '{}'
+      }
+      case NodeType.CallExpression:
+        return `${this.flatOperand(node.callee, PRECEDENCE.call)}(${node.arguments.map(argument => this.flat(argument)).join(', ')})`
+      case NodeType.MemberExpression: {
+        const object = this.flatOperand(node.object, PRECEDENCE.call)
+        return node.computed ? `${object}[${this.flat(node.property)}]` : `${object}.${this.flat(node.property)}`
+      }
+      case NodeType.UnaryExpression: {
+        const operator = node.operator.toLowerCase()
+        const argument = this.flatOperand(node.argument, PRECEDENCE.unary)
+        // Keywords need a space, and "- -x" must not become "--x"
+        return (/^[a-z]/.test(operator) || argument.startsWith(operator)) ? `${operator} ${argument}` : operator + argument
+      }
+      case NodeType.AwaitExpression:
+        return `await ${this.flatOperand(node.argument, PRECEDENCE.unary)}`
+      case NodeType.BinaryExpression:
+      case NodeType.LogicalExpression: {
+        const operator = node.operator.toLowerCase()
+        const precedence = BINARY_PRECEDENCE[operator] ?? (operator === 'and' ? PRECEDENCE.and : PRECEDENCE.or)
+        const left = this.flatOperand(node.left, operator === '^' ? PRECEDENCE.call : precedence)
+        const right = this.flatOperand(node.right, operator === '^' ? PRECEDENCE.unary : precedence + 1)
+        return `${left} ${operator} ${right}`
+      }
+      case NodeType.AssignmentExpression:
+        return `${this.flatOperand(node.left, PRECEDENCE.conditional)} ${node.operator} ${this.flatOperand(node.right, PRECEDENCE.assignment)}`
+      case NodeType.ConditionalExpression:
+        // The parser reads "alternate if test consequent"
+        return [
+          this.flatOperand(node.alternate, PRECEDENCE.or),
+          'if',
+          this.flatOperand(node.test, PRECEDENCE.or),
+          this.flatOperand(node.consequent, PRECEDENCE.or),
+        ].join(' ')
+      case NodeType.ArrowFunctionExpression: {
+        if (node.body.type === NodeType.Block)
+          return this.arrowHead(node) + this.block(node.body, 0).trimStart()
+        return node.body.type === NodeType.ObjectExpression
+          ? `${this.arrowHead(node)}(${this.flat(node.body)})`
+          : this.arrowHead(node) + this.flat(node.body)
+      }
+    }
+  }
+
+  /**
+   * "x -> " for a single plain parameter, otherwise the parameters in parentheses
+   */
+  private arrowHead(node: ArrowFunctionExpressionNode): string {
+    const prefix = node.async ? 'async ' : ''
+    const simple = node.params.length === 1 && !node.defaults && !node.rest && !node.params[0].typeAnnotation && !node.returnType
+    return simple ? `${prefix}${node.params[0].name} -> ` : `${prefix}(${this.parameters(node)})${this.returnType(node.returnType)} -> `
+  }
+
+  private parameters(node: FunctionParameters): string {
+    const params = node.params.map((param, i) => {
+      const value = node.defaults?.[i]
+      return value ? `${this.declared(param)} = ${this.flatOperand(value, PRECEDENCE.conditional)}` : this.declared(param)
+    })
+    if (node.rest)
+      params.push(`...${this.declared(node.rest)}`)
+    return params.join(', ')
+  }
+
+  /**
+   * A declared name with its type annotation, if any
+   */
+  private declared(node: IdentifierNode): string {
+    return node.typeAnnotation ? `${node.name}: ${typeToSource(node.typeAnnotation)}` : node.name
+  }
+
+  private returnType(node: TypeNode | undefined): string {
+    return node ? `: ${typeToSource(node)}` : ''
+  }
+
+  private flatOperand(node: ExpressionNode, precedence: number): string {
+    const text = this.flat(node)
+    return this.precedence(node) >= precedence ? text : `(${text})`
+  }
+
+  private precedence(node: ExpressionNode): number {
+    switch (node.type) {
+      // An arrow function's body extends as far as it can, so it always needs parentheses inside other expressions
+      case NodeType.AssignmentExpression:
+      case NodeType.ArrowFunctionExpression:
+        return PRECEDENCE.assignment
+      case NodeType.ConditionalExpression:
+        return PRECEDENCE.conditional
+      case NodeType.LogicalExpression:
+        return node.operator.toLowerCase() === 'and' ? PRECEDENCE.and : PRECEDENCE.or
+      case NodeType.BinaryExpression:
+        return BINARY_PRECEDENCE[node.operator]
+      case NodeType.UnaryExpression:
+      case NodeType.AwaitExpression:
+        return PRECEDENCE.unary
+      case NodeType.CallExpression:
+      case NodeType.MemberExpression:
+        return PRECEDENCE.call
+      default:
+        return PRECEDENCE.primary
+    }
+  }
+
+  private propertyKey(key: ExpressionNode): string {
+    return key.type === NodeType.Identifier ? key.name : this.flat(key)
+  }
+
+  private literal(value: any): string {
+    if (typeof value === 'string')
+      return `"${value.replace(/[\\"\n\t\r]/g, char => STRING_ESCAPES[char])}"`
+
+    return String(value)
+  }
+
+  private comment(comment: SourceComment): string {
+    return comment.value.trimEnd()
+  }
+
+  private indent(level: number): string {
+    return this.indentUnit.repeat(level)
+  }
+
+  /**
+   * Column where text at the given indentation level starts; a tab counts as the indent size
+   */
+  private width(level: number): number {
+    return level * this.options.indentSize
+  }
+
+  /**
+   * Column after text that started at the given column
+   */
+  private endColumn(text: string, column: number): number {
+    const lastBreak = text.lastIndexOf('\n')
+    return lastBreak === -1 ? column + text.length : text.length - lastBreak - 1
+  }
+}
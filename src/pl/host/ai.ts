@@ -0,0 +1,152 @@
+/**
+ * PL AI Host Module
+ * Generation clients for PL scripts as ai.chat(), ai.image(), ai.music() and ai.video(),
+ * limited to the capabilities allowed for a run and to a number of calls per run
+ */
+
+import { LimitExceededError, RuntimeError, SecurityError } from '../runtime/runtime'
+
+export type AICapability = 'chat' | 'image' | 'music' | 'video'
+
+export const AI_CAPABILITIES: readonly AICapability[] = ['chat', 'image', 'music', 'video']
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[]
+  model?: string
+  temperature?: number
+}
+
+/**
+ * Prompt of an image, music or video generation, with the options the script
+ * passed along for the provider
+ */
+export interface GenerationRequest {
+  prompt: string
+  model?: string
+  [option: string]: any
+}
+
+export type GenerationProvider = (request: GenerationRequest, signal?: AbortSignal) => Promise<any>
+
+/**
+ * Clients behind the module; a capability without a provider cannot be used
+ */
+export interface AIProviders {
+  /** Reply text of the assistant */
+  chat?: (request: ChatRequest, signal?: AbortSignal) => Promise<string>
+  image?: GenerationProvider
+  music?: GenerationProvider
+  video?: GenerationProvider
+}
+
+export interface AIModuleOptions {
+  providers: AIProviders
+  /** Capabilities the script may use; none by default */
+  allow?: AICapability[]
+  /** Calls allowed per capability during the run, failed calls included; unlimited where absent */
+  quotas?: Partial<Record<AICapability, number>>
+  /** Handed to every provider call, e.g. the signal that cancels the run */
+  signal?: AbortSignal
+}
+
+export interface AIUsage {
+  used: number
+  limit: number | null
+}
+
+export interface AIModule {
+  /** A prompt, or a list of { role, content } messages; options: model, temperature, system */
+  chat: (input: string | ChatMessage[], options?: Record<string, any>) => Promise<string>
+  image: (prompt: string, options?: Record<string, any>) => Promise<any>
+  music: (prompt: string, options?: Record<string, any>) => Promise<any>
+  video: (prompt: string, options?: Record<string, any>) => Promise<any>
+  /** Calls made so far and the quota, by allowed capability */
+  usage: () => Partial<Record<AICapability, AIUsage>>
+}
+
+const CHAT_ROLES: ReadonlySet<string> = new Set(['system', 'user', 'assistant'])
+
+/**
+ * Create the ai object for one run, to be passed in the globals of the run.
+ * Scripts get a frozen object of functions: the providers and the call
+ * counts stay out of their reach.
+ */
+export function createAIModule(options: AIModuleOptions): AIModule {
+  const allowed = new Set(options.allow ?? [])
+  const calls: Record<AICapability, number> = { chat: 0, image: 0, music: 0, video: 0 }
+
+  // Invalid arguments are reported before the call is counted
+  const call = async <R, T>(capability: AICapability, prepare: () => R, send: (request: R) => Promise<T>): Promise<T> => {
+    if (!allowed.has(capability))
+      throw new SecurityError(`ai.${capability} is not allowed in this script`)
+
+    if (!options.providers[capability])
+      throw new RuntimeError(`ai.${capability} has no provider`)
+
+    const request = prepare()
+
+    const limit = options.quotas?.[capability]
+    if (limit !== undefined && calls[capability] >= limit)
+      throw new LimitExceededError(`ai.${capability} quota of ${limit} calls exceeded`, 'quota')
+
+    calls[capability]++
+
+    try {
+      return await send(request)
+    }
+    catch (error) {
+      if (error instanceof RuntimeError)
+        throw error
+      throw new RuntimeError(`ai.${capability} failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const generate = (capability: Exclude<AICapability, 'chat'>) => (prompt: string, extra: Record<string, any> = {}): Promise<any> => {
+    return call(capability, (): GenerationRequest => {
+      if (typeof prompt !== 'string' || prompt.trim() === '')
+        throw new RuntimeError(`ai.${capability} expects a prompt`)
+
+      return { ...extra, prompt }
+    }, request => options.providers[capability]!(request, options.signal))
+  }
+
+  return Object.freeze({
+    chat: (input: string | ChatMessage[], extra: Record<string, any> = {}): Promise<string> => {
+      return call('chat', (): ChatRequest => {
+        const messages = chatMessages(input)
+        if (typeof extra.system === 'string')
+          messages.unshift({ role: 'system', content: extra.system })
+
+        const request: ChatRequest = { messages }
+        if (extra.model !== undefined)
+          request.model = String(extra.model)
+        if (typeof extra.temperature === 'number')
+          request.temperature = extra.temperature
+        return request
+      }, request => options.providers.chat!(request, options.signal))
+    },
+    image: generate('image'),
+    music: generate('music'),
+    video: generate('video'),
+    usage: () => Object.fromEntries(AI_CAPABILITIES
+      .filter(capability => allowed.has(capability))
+      .map(capability => [capability, { used: calls[capability], limit: options.quotas?.[capability] ?? null }])),
+  })
+}
+
+function chatMessages(input: string | ChatMessage[]): ChatMessage[] {
+  if (typeof input === 'string')
+    return [{ role: 'user', content: input }]
+
+  const valid = Array.isArray(input) && input.length > 0 && input.every(message =>
+    message !== null && typeof message === 'object' && CHAT_ROLES.has(message.role) && typeof message.content === 'string')
+  if (!valid)
+    throw new RuntimeError('ai.chat expects a prompt or a list of { role, content } messages')
+
+  return input.map(message => ({ role: message.role, content: message.content }))
+}
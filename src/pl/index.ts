@@ -3,10 +3,29 @@
  * A simple, expressive programming language for web applications
  */
 
-export { Lexer, TokenType, Token } from './parser/lexer'
-export {
-  Parser,
-  NodeType,
+import { PLCompiler } from './compiler/compiler'
+import { PLREPL } from './repl/repl'
+import { Formatter } from './formatter/formatter'
+import type { FormatOptions } from './formatter/formatter'
+import type { ModuleLoader } from './modules/loader'
+import type { REPLOptions } from './repl/repl'
+import type {
+  BundleOptions,
+  BundleResult,
+  CompileOptions,
+  CompileResult,
+  ExecutionBackend,
+  ExecutionContext,
+} from './compiler/compiler'
+
+export { Lexer, TokenType, KEYWORDS } from './parser/lexer'
+export type { Token, LexerOptions } from './parser/lexer'
+export { Parser, NodeType, hasTopLevelAwait, typeToSource } from './parser/parser'
+export { ParseError, formatDiagnostic } from './parser/diagnostics'
+export type { Diagnostic, DiagnosticSeverity } from './parser/diagnostics'
+export type {
+  ParserOptions,
+  SourceComment,
   ASTNode,
   ProgramNode,
   StatementNode,
@@ -20,9 +39,15 @@ export {
   BreakStatementNode,
   ContinueStatementNode,
   VariableDeclarationNode,
+  FunctionParameters,
   FunctionDeclarationNode,
   SwitchStatementNode,
   CaseStatementNode,
+  TryStatementNode,
+  ThrowStatementNode,
+  ImportDeclarationNode,
+  ImportSpecifierNode,
+  ExportDeclarationNode,
   BinaryExpressionNode,
   UnaryExpressionNode,
   AssignmentExpressionNode,
@@ -35,12 +60,85 @@ export {
   ObjectExpressionNode,
   PropertyNode,
   ArrowFunctionExpressionNode,
-  ConditionalExpressionNode
+  ConditionalExpressionNode,
+  AwaitExpressionNode,
+  TypeNode,
+  NamedTypeNode,
+  ArrayTypeNode,
+  UnionTypeNode,
+  FunctionTypeNode,
 } from './parser/parser'
 
+export { Analyzer } from './analyzer/analyzer'
+export type { AnalyzerOptions, Binding, BindingKind } from './analyzer/analyzer'
+export { TypeChecker } from './checker/checker'
+export type { TypeCheckerOptions } from './checker/checker'
+export { isAssignable, typeToString } from './checker/types'
+export type { PLType, FunctionType } from './checker/types'
+export { Formatter }
+export type { FormatOptions, BraceStyle } from './formatter/formatter'
 export { Transpiler } from './transpiler/transpiler'
-export { PLRuntime, RuntimeError, Environment, ReturnValue } from './runtime/runtime'
-export { PLCompiler, PLREPL, CompileOptions, CompileResult, ExecutionContext } from './compiler/compiler'
+export type { TranspileOptions, TranspileResult } from './transpiler/transpiler'
+export { decodeMappings, originalPositionFor } from './transpiler/sourcemap'
+export type { SourceMap, SourceMapping, SourcePosition } from './transpiler/sourcemap'
+export { Interpreter } from './interpreter/interpreter'
+export type { InterpreterOptions, InterpreterState, ScopeKind, StackFrame } from './interpreter/interpreter'
+export { BytecodeCompiler } from './vm/codegen'
+export { Opcode, BYTECODE_VERSION, serialize, deserialize, hashSource } from './vm/bytecode'
+export type { BytecodeProgram, FunctionProto, ScopeLayout, Constant } from './vm/bytecode'
+export { ProgramCache } from './vm/cache'
+export { VM } from './vm/vm'
+export type { VMOptions } from './vm/vm'
+export { PLDebugger } from './debugger/debugger'
+export type {
+  DebuggerOptions,
+  DebuggerState,
+  DebugFrame,
+  DebugScope,
+  DebugStop,
+  DebugVariable,
+  StopReason,
+  WatchResult,
+} from './debugger/debugger'
+export {
+  PLRuntime,
+  RuntimeError,
+  SecurityError,
+  LimitExceededError,
+  CancellationError,
+  ThrowError,
+  Environment,
+  ReturnValue,
+  BUILTIN_DOCS,
+} from './runtime/runtime'
+export type { BuiltinDoc, ExecutionLimit, CaughtError } from './runtime/runtime'
+export { createAIModule, AI_CAPABILITIES } from './host/ai'
+export type {
+  AICapability,
+  AIModule,
+  AIModuleOptions,
+  AIProviders,
+  AIUsage,
+  ChatMessage,
+  ChatRequest,
+  GenerationRequest,
+  GenerationProvider,
+} from './host/ai'
+export { MemoryLoader, HttpLoader, resolveModulePath, MODULE_EXTENSION } from './modules/loader'
+export type { ModuleLoader, HttpLoaderOptions } from './modules/loader'
+export { ModuleResolver, exportedNames } from './modules/resolver'
+export type {
+  ModuleDiagnostic,
+  ModuleImport,
+  ModuleRecord,
+  ModuleGraph,
+  ResolverOptions,
+} from './modules/resolver'
+export { Bundler } from './modules/bundler'
+export { PLCompiler, PLREPL }
+export { REPL_COMMANDS, PROMPT, CONTINUATION_PROMPT } from './repl/repl'
+export type { REPLOptions, REPLResult } from './repl/repl'
+export type { CompileOptions, CompileResult, BundleOptions, BundleResult, ExecutionContext, ExecutionBackend }
 
 // Convenience exports
 export function compile(source: string, options?: CompileOptions): CompileResult {
@@ -58,9 +156,24 @@ export async function executeAsync(source: string, context?: ExecutionContext):
   return await compiler.executeAsync(source, context)
 }
 
-export function createREPL(): PLREPL {
+export async function bundle(entry: string, loader: ModuleLoader, options?: BundleOptions): Promise<BundleResult> {
+  const compiler = new PLCompiler()
+  return await compiler.bundle(entry, loader, options)
+}
+
+export async function executeModule(entry: string, loader: ModuleLoader, context?: ExecutionContext): Promise<any> {
+  const compiler = new PLCompiler()
+  return await compiler.executeModule(entry, loader, context)
+}
+
+export function format(source: string, options?: FormatOptions): string {
+  const formatter = new Formatter(options)
+  return formatter.format(source)
+}
+
+export function createREPL(options?: REPLOptions): PLREPL {
   const compiler = new PLCompiler()
-  return compiler.createREPL()
+  return compiler.createREPL(options)
 }
 
 // Version
@@ -0,0 +1,1010 @@
+/**
+ * PL Language Interpreter
+ * Evaluates the AST directly against Environment scopes, without generating JavaScript
+ */
+
+import type {
+  ASTNode,
+  ArrayExpressionNode,
+  ArrowFunctionExpressionNode,
+  AssignmentExpressionNode,
+  BinaryExpressionNode,
+  BlockNode,
+  CallExpressionNode,
+  ConditionalExpressionNode,
+  ExpressionNode,
+  ForStatementNode,
+  FunctionDeclarationNode,
+  FunctionParameters,
+  IdentifierNode,
+  IfStatementNode,
+  ImportDeclarationNode,
+  LogicalExpressionNode,
+  MemberExpressionNode,
+  ObjectExpressionNode,
+  ProgramNode,
+  StatementNode,
+  SwitchStatementNode,
+  TryStatementNode,
+  UnaryExpressionNode,
+  VariableDeclarationNode,
+  WhileStatementNode,
+} from '../parser/parser'
+import {
+  NodeType,
+  hasTopLevelAwait,
+} from '../parser/parser'
+import {
+  AsyncCalls,
+  CancellationError,
+  Environment,
+  LimitExceededError,
+  PLRuntime,
+  RESTRICTED_PROPERTIES,
+  ReturnValue,
+  RuntimeError,
+  SecurityError,
+} from '../runtime/runtime'
+
+export interface InterpreterOptions {
+  /** Extra host values visible to the program */
+  globals?: Record<string, any>
+  /** Receives the text written by print/println; defaults to the console */
+  output?: (text: string) => void
+  /** Maximum number of evaluated statements and expressions per run */
+  maxInstructions?: number
+  /** Maximum number of nested PL function calls */
+  maxCallDepth?: number
+  /** Wall-clock limit for one run in milliseconds, not counting time spent paused */
+  timeout?: number
+  /** Exports of the modules the program imports, by path as written in the import */
+  modules?: Record<string, Record<string, any>>
+  /** Cancels the run when aborted, like cancel() */
+  signal?: AbortSignal
+  /**
+   * Called by executeAsync before each statement it runs, including those of
+   * PL functions it calls; calling pause() here stops before the statement
+   */
+  onStatement?: (statement: StatementNode) => void
+}
+
+export type ScopeKind = 'block' | 'function' | 'program' | 'global'
+
+/**
+ * A PL function call in progress, or the program itself
+ */
+export interface StackFrame {
+  /** Name of the function, or <program> */
+  name: string
+  /** Start of the statement being run */
+  line: number
+  column: number
+  /** Scope the statement runs in; its parents follow in the chain */
+  scope: Environment
+}
+
+export type InterpreterState = 'idle' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed'
+
+/**
+ * A value the program awaits; the driver resumes the evaluation with its result
+ */
+class Suspension {
+  constructor(readonly value: any) {}
+}
+
+/**
+ * Evaluation yields every statement before running it, which is where
+ * the async driver can pause or hand control back to the event loop.
+ * It also yields a Suspension for every await.
+ */
+type Evaluation<T> = Generator<StatementNode | Suspension, T, any>
+
+const BREAK = Symbol('break')
+const CONTINUE = Symbol('continue')
+
+type Completion = ReturnValue | typeof BREAK | typeof CONTINUE | undefined
+
+interface Closure extends FunctionParameters {
+  name: string
+  body: BlockNode | ExpressionNode
+  environment: Environment
+  async: boolean
+}
+
+/** Links a host-callable function value to the PL closure behind it */
+const CLOSURE = Symbol('closure')
+
+// Deadline is checked every so many instructions
+const CLOCK_INTERVAL = 256
+
+const PROGRAM_FRAME = '<program>'
+
+export class Interpreter {
+  private readonly runtime: PLRuntime
+  private readonly options: Required<Omit<InterpreterOptions, 'globals' | 'output' | 'modules' | 'signal' | 'onStatement'>>
+  private readonly globals: Environment
+  private readonly modules: Record<string, Record<string, any>>
+  private scope: Environment
+  private readonly functionScopes: WeakSet<Environment> = new WeakSet()
+
+  private status: InterpreterState = 'idle'
+  private instructions = 0
+  private depth = 0
+  private deadline = Infinity
+  private cancelRequested = false
+  private pauseRequested = false
+  private readonly resumeListeners: Set<() => void> = new Set()
+  private readonly cancelListeners: Set<() => void> = new Set()
+  private readonly calls = new AsyncCalls()
+  private readonly signal?: AbortSignal
+  private readonly onStatement?: (statement: StatementNode) => void
+  private frames: StackFrame[] = []
+  private lastValue: any
+
+  constructor(options: InterpreterOptions = {}) {
+    this.options = {
+      maxInstructions: options.maxInstructions ?? Infinity,
+      maxCallDepth: options.maxCallDepth ?? 500,
+      timeout: options.timeout ?? Infinity,
+    }
+
+    this.runtime = new PLRuntime()
+    this.globals = this.runtime.getGlobals()
+    this.modules = options.modules ?? {}
+    this.signal = options.signal
+    this.signal?.addEventListener('abort', () => this.cancel())
+    this.onStatement = options.onStatement
+
+    const output = options.output
+    if (output) {
+      const write = (...args: any[]) => output(`${args.map(arg => this.runtime.stringify(arg)).join(' ')}\n`)
+      this.globals.define('print', write)
+      this.globals.define('println', write)
+    }
+
+    if (options.globals)
+      Object.entries(options.globals).forEach(([name, value]) => this.globals.define(name, value))
+
+    this.scope = this.createProgramScope()
+  }
+
+  get state(): InterpreterState {
+    return this.status
+  }
+
+  get instructionCount(): number {
+    return this.instructions
+  }
+
+  /**
+   * Top-level bindings, which persist between runs until reset()
+   */
+  getScope(): Environment {
+    return this.scope
+  }
+
+  /**
+   * Calls in progress, innermost first; the program is the last frame
+   */
+  getCallStack(): StackFrame[] {
+    return this.frames.map(frame => ({ ...frame })).reverse()
+  }
+
+  /**
+   * Kind of a scope in the chain of a stack frame
+   */
+  scopeKind(scope: Environment): ScopeKind {
+    if (scope === this.globals)
+      return 'global'
+    if (scope === this.scope)
+      return 'program'
+    return this.functionScopes.has(scope) ? 'function' : 'block'
+  }
+
+  /**
+   * Evaluate an expression in a scope of a paused run, e.g. for a debugger
+   * watch. PL functions it calls run to completion without pausing, and the
+   * instructions it takes do not count towards the budget of the run.
+   */
+  evaluateIn(expression: ExpressionNode, scope: Environment): any {
+    const instructions = this.instructions
+    const frames = this.frames
+    this.frames = [...frames]
+    try {
+      return this.drive(this.evaluate(expression, scope))
+    }
+    finally {
+      this.instructions = instructions
+      this.frames = frames
+    }
+  }
+
+  /**
+   * Run a program to completion and return the value of its last expression statement
+   */
+  execute(program: ProgramNode): any {
+    if (hasTopLevelAwait(program))
+      throw new RuntimeError('Top-level await is only supported by executeAsync')
+
+    const evaluation = this.begin(program)
+
+    try {
+      let step = evaluation.next()
+      while (!step.done)
+        step = evaluation.next()
+
+      this.status = 'completed'
+      return step.value
+    }
+    catch (error) {
+      throw this.fail(error)
+    }
+  }
+
+  /**
+   * Run a program in slices, giving the event loop a turn between slices.
+   * The run can be paused, resumed and cancelled while it is in progress,
+   * including while it awaits. It ends once the async calls of the program
+   * have settled, failing on a rejection the program never awaited.
+   */
+  async executeAsync(program: ProgramNode, sliceSize = 1000): Promise<any> {
+    const evaluation = this.begin(program)
+
+    try {
+      let steps = 0
+      let step = evaluation.next()
+      while (!step.done) {
+        if (step.value instanceof Suspension) {
+          step = await this.resumeAfter(evaluation, step.value)
+          continue
+        }
+        if (++steps % sliceSize === 0)
+          await new Promise(resolve => setTimeout(resolve, 0))
+
+        this.onStatement?.(step.value)
+        if (this.pauseRequested)
+          await this.waitForResume()
+
+        if (this.cancelRequested) {
+          evaluation.return(undefined)
+          throw new CancellationError()
+        }
+        step = evaluation.next()
+      }
+      this.calls.observe(step.value)
+      await this.settle(this.calls.settled())
+      this.status = 'completed'
+      return step.value
+    }
+    catch (error) {
+      throw this.fail(error)
+    }
+  }
+
+  pause(): void {
+    if (this.status === 'running')
+      this.pauseRequested = true
+  }
+
+  resume(): void {
+    this.pauseRequested = false
+    this.resumeListeners.forEach(listener => listener())
+  }
+
+  cancel(): void {
+    this.cancelRequested = true
+    this.cancelListeners.forEach(listener => listener())
+    this.resume()
+  }
+
+  /**
+   * Drop all top-level bindings defined by previous runs
+   */
+  reset(): void {
+    this.scope = this.createProgramScope()
+    this.status = 'idle'
+  }
+
+  private createProgramScope(): Environment {
+    const scope = new Environment(this.globals)
+    this.functionScopes.add(scope)
+    return scope
+  }
+
+  private begin(program: ProgramNode): Evaluation<any> {
+    if (this.status === 'running' || this.status === 'paused')
+      throw new RuntimeError('Interpreter is already running')
+
+    this.status = 'running'
+    this.instructions = 0
+    this.depth = 0
+    this.cancelRequested = this.signal?.aborted ?? false
+    this.pauseRequested = false
+    this.deadline = Date.now() + this.options.timeout
+    this.calls.reset()
+    this.frames = [{ name: PROGRAM_FRAME, line: program.line, column: program.column, scope: this.scope }]
+
+    return this.executeProgram(program)
+  }
+
+  private fail(error: any): any {
+    this.status = error instanceof CancellationError ? 'cancelled' : 'failed'
+    if (error instanceof RangeError && /call stack/i.test(error.message))
+      return new LimitExceededError('Maximum call stack size exceeded', 'callDepth')
+
+    return error
+  }
+
+  private async waitForResume(): Promise<void> {
+    const pausedAt = Date.now()
+    this.status = 'paused'
+
+    let listener = (): void => {}
+    await new Promise<void>((resolve) => {
+      listener = resolve
+      this.resumeListeners.add(listener)
+    })
+
+    this.resumeListeners.delete(listener)
+    this.deadline += Date.now() - pausedAt
+    this.status = 'running'
+  }
+
+  /**
+   * Wait for an awaited value, then continue the evaluation with its result
+   * or throw its error into the evaluation
+   */
+  private async resumeAfter<T>(evaluation: Evaluation<T>, suspension: Suspension): Promise<IteratorResult<StatementNode | Suspension, T>> {
+    let value: any
+    try {
+      value = await this.settle(suspension.value)
+    }
+    catch (error) {
+      return evaluation.throw(error)
+    }
+    return evaluation.next(value)
+  }
+
+  /**
+   * Settle an awaited value, giving up once the run is cancelled or out of time
+   */
+  private async settle(value: any): Promise<any> {
+    this.calls.observe(value)
+    if (this.cancelRequested)
+      throw new CancellationError()
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let cancel = (): void => {}
+    const interrupted = new Promise<never>((resolve, reject) => {
+      cancel = () => reject(new CancellationError())
+      if (this.deadline !== Infinity) {
+        const timeout = new LimitExceededError(`Execution timed out after ${this.options.timeout}ms`, 'timeout')
+        timer = setTimeout(() => reject(timeout), Math.max(this.deadline - Date.now(), 0))
+      }
+    })
+
+    this.cancelListeners.add(cancel)
+    try {
+      return await Promise.race([value, interrupted])
+    }
+    finally {
+      clearTimeout(timer)
+      this.cancelListeners.delete(cancel)
+    }
+  }
+
+  /**
+   * Count one instruction and enforce the budget, the deadline and cancellation
+   */
+  private tick(): void {
+    this.instructions++
+
+    if (this.instructions > this.options.maxInstructions)
+      throw new LimitExceededError(`Instruction limit of ${this.options.maxInstructions} exceeded`, 'instructions')
+
+    if (this.cancelRequested)
+      throw new CancellationError()
+
+    if (this.instructions % CLOCK_INTERVAL === 0 && Date.now() > this.deadline)
+      throw new LimitExceededError(`Execution timed out after ${this.options.timeout}ms`, 'timeout')
+  }
+
+  /**
+   * Attach the position of the node being evaluated to errors that have none
+   */
+  private locate(error: any, node: ASTNode): any {
+    if (error instanceof RuntimeError || error instanceof SecurityError) {
+      if (error.line === undefined) {
+        error.line = node.line
+        error.column = node.column
+        error.message = `${error.message} at line ${node.line}, column ${node.column}`
+      }
+      return error
+    }
+    if (error instanceof Error && !(error instanceof RangeError && /call stack/i.test(error.message)))
+      return new RuntimeError(`${error.name}: ${error.message} at line ${node.line}, column ${node.column}`, node.line, node.column)
+
+    return error
+  }
+
+  // Statements
+
+  private *executeProgram(program: ProgramNode): Evaluation<any> {
+    let value: any
+    program.body.forEach((stmt) => {
+      if (stmt.type === NodeType.ImportDeclaration)
+        this.bindImports(stmt, this.scope)
+    })
+    this.hoistFunctions(program.body, this.scope)
+
+    for (const stmt of program.body) {
+      const completion = yield * this.executeStatement(stmt, this.scope)
+      if (stmt.type === NodeType.ExpressionStatement)
+        value = this.lastValue
+
+      if (completion instanceof ReturnValue)
+        return completion.value
+    }
+
+    return value
+  }
+
+  private *executeStatement(node: StatementNode, env: Environment): Evaluation<Completion> {
+    const frame = this.frames[this.frames.length - 1]
+    frame.line = node.line
+    frame.column = node.column
+    frame.scope = env
+    yield node
+    this.tick()
+
+    try {
+      switch (node.type) {
+        case NodeType.Block:
+          return yield * this.executeBlock(node.body, new Environment(env))
+        case NodeType.ExpressionStatement:
+          this.lastValue = yield * this.evaluate(node.expression, env)
+          return undefined
+        case NodeType.IfStatement:
+          return yield * this.executeIf(node, env)
+        case NodeType.WhileStatement:
+          return yield * this.executeWhile(node, env)
+        case NodeType.ForStatement:
+          return yield * this.executeFor(node, env)
+        case NodeType.ReturnStatement:
+          return new ReturnValue(node.argument ? yield * this.evaluate(node.argument, env) : undefined)
+        case NodeType.BreakStatement:
+          return BREAK
+        case NodeType.ContinueStatement:
+          return CONTINUE
+        case NodeType.VariableDeclaration:
+          yield * this.executeVariableDeclaration(node, env)
+          return undefined
+        case NodeType.FunctionDeclaration:
+          // Defined when the enclosing block was entered
+          return undefined
+        case NodeType.SwitchStatement:
+          return yield * this.executeSwitch(node, env)
+        case NodeType.TryStatement:
+          return yield * this.executeTry(node, env)
+        case NodeType.ThrowStatement:
+          throw this.runtime.thrown(yield * this.evaluate(node.argument, env), node.line, node.column)
+        case NodeType.ImportDeclaration:
+          // Bound when the program started
+          return undefined
+        case NodeType.ExportDeclaration:
+          if (node.declaration.type === NodeType.VariableDeclaration)
+            yield * this.executeVariableDeclaration(node.declaration, env)
+
+          return undefined
+        default:
+          throw new RuntimeError(`Unknown statement type: ${(node as any).type}`)
+      }
+    }
+    catch (error) {
+      throw this.locate(error, node)
+    }
+  }
+
+  private *executeBlock(body: StatementNode[], env: Environment): Evaluation<Completion> {
+    this.hoistFunctions(body, env)
+
+    for (const stmt of body) {
+      const completion = yield * this.executeStatement(stmt, env)
+      if (completion !== undefined)
+        return completion
+    }
+
+    return undefined
+  }
+
+  private hoistFunctions(body: StatementNode[], env: Environment): void {
+    body.forEach((node) => {
+      const stmt = node.type === NodeType.ExportDeclaration ? node.declaration : node
+      if (stmt.type === NodeType.FunctionDeclaration)
+        env.define(stmt.id.name, this.createFunction(stmt, env))
+    })
+  }
+
+  private bindImports(node: ImportDeclarationNode, env: Environment): void {
+    const source = node.source.value
+    const exports = this.modules[source]
+    if (!exports)
+      throw this.locate(new RuntimeError(`Cannot find module "${source}"`), node)
+
+    node.specifiers.forEach((specifier) => {
+      if (!Object.prototype.hasOwnProperty.call(exports, specifier.imported.name))
+        throw this.locate(new RuntimeError(`Module "${source}" has no export '${specifier.imported.name}'`), specifier)
+
+      env.define(specifier.local.name, exports[specifier.imported.name], true)
+    })
+  }
+
+  /**
+   * Without a JavaScript finally clause, so that an evaluation stopped
+   * with return() does not run PL code on the way out
+   */
+  private *executeTry(node: TryStatementNode, env: Environment): Evaluation<Completion> {
+    let completion: Completion
+    let failure: { error: unknown } | undefined
+
+    try {
+      completion = yield * this.executeBlock(node.block.body, new Environment(env))
+    }
+    catch (error) {
+      failure = { error }
+    }
+
+    if (failure && node.handler) {
+      const scope = new Environment(env)
+      try {
+        const caught = this.runtime.caught(failure.error)
+        failure = undefined
+        if (node.param)
+          scope.define(node.param.name, caught)
+        completion = yield * this.executeBlock(node.handler.body, scope)
+      }
+      catch (error) {
+        failure = { error }
+      }
+    }
+
+    if (node.finalizer) {
+      const final = yield * this.executeBlock(node.finalizer.body, new Environment(env))
+      // Leaving the finally block with return, break or continue discards the error
+      if (final !== undefined)
+        return final
+    }
+
+    if (failure)
+      throw failure.error
+    return completion
+  }
+
+  private *executeIf(node: IfStatementNode, env: Environment): Evaluation<Completion> {
+    if (yield * this.evaluate(node.test, env))
+      return yield * this.executeStatement(node.consequent, env)
+
+    if (node.alternate)
+      return yield * this.executeStatement(node.alternate, env)
+
+    return undefined
+  }
+
+  private *executeWhile(node: WhileStatementNode, env: Environment): Evaluation<Completion> {
+    while (yield * this.evaluate(node.test, env)) {
+      const completion = yield * this.executeStatement(node.body, env)
+      if (completion === BREAK)
+        break
+      if (completion instanceof ReturnValue)
+        return completion
+    }
+    return undefined
+  }
+
+  private *executeFor(node: ForStatementNode, env: Environment): Evaluation<Completion> {
+    const loopEnv = new Environment(env)
+
+    if (node.init) {
+      if (node.init.type === NodeType.VariableDeclaration)
+        yield * this.executeVariableDeclaration(node.init, loopEnv)
+      else
+        yield * this.evaluate(node.init, loopEnv)
+    }
+
+    while (!node.test || (yield * this.evaluate(node.test, loopEnv))) {
+      const completion = yield * this.executeStatement(node.body, loopEnv)
+      if (completion === BREAK)
+        break
+      if (completion instanceof ReturnValue)
+        return completion
+      if (node.update)
+        yield * this.evaluate(node.update, loopEnv)
+    }
+    return undefined
+  }
+
+  private *executeVariableDeclaration(node: VariableDeclarationNode, env: Environment): Evaluation<void> {
+    // Like JavaScript, var is scoped to the enclosing function and const to the block
+    const target = node.kind === 'var' ? this.functionScope(env) : env
+
+    for (const decl of node.declarations) {
+      const value = decl.init ? yield * this.evaluate(decl.init, env) : undefined
+      target.define(decl.id.name, value, node.kind === 'const')
+    }
+  }
+
+  private functionScope(env: Environment): Environment {
+    let scope: Environment | undefined = env
+    while (scope && !this.functionScopes.has(scope))
+      scope = scope.parent
+
+    return scope ?? this.scope
+  }
+
+  private *executeSwitch(node: SwitchStatementNode, env: Environment): Evaluation<Completion> {
+    const discriminant = yield * this.evaluate(node.discriminant, env)
+    const switchEnv = new Environment(env)
+
+    let start = -1
+    for (let i = 0; i < node.cases.length && start === -1; i++) {
+      const test = node.cases[i].test
+      if (test && (yield * this.evaluate(test, switchEnv)) === discriminant)
+        start = i
+    }
+    if (start === -1)
+      start = node.cases.findIndex(c => !c.test)
+
+    if (start === -1)
+      return undefined
+
+    // Cases fall through until a break
+    for (const c of node.cases.slice(start)) {
+      const completion = yield * this.executeBlock(c.consequent, switchEnv)
+      if (completion === BREAK)
+        return undefined
+      if (completion !== undefined)
+        return completion
+    }
+    return undefined
+  }
+
+  // Expressions
+
+  private *evaluate(node: ExpressionNode, env: Environment): Evaluation<any> {
+    this.tick()
+
+    try {
+      switch (node.type) {
+        case NodeType.Literal:
+          return node.value
+        case NodeType.Identifier:
+          return env.get(node.name)
+        case NodeType.BinaryExpression:
+          return yield * this.evaluateBinary(node, env)
+        case NodeType.UnaryExpression:
+          return yield * this.evaluateUnary(node, env)
+        case NodeType.LogicalExpression:
+          return yield * this.evaluateLogical(node, env)
+        case NodeType.AssignmentExpression:
+          return yield * this.evaluateAssignment(node, env)
+        case NodeType.CallExpression:
+          return yield * this.evaluateCall(node, env)
+        case NodeType.MemberExpression: {
+          const object = yield * this.evaluate(node.object, env)
+          const key = yield * this.memberKey(node, env)
+          return this.getMember(object, key)
+        }
+        case NodeType.ArrayExpression:
+          return yield * this.evaluateArray(node, env)
+        case NodeType.ObjectExpression:
+          return yield * this.evaluateObject(node, env)
+        case NodeType.ArrowFunctionExpression:
+          return this.createFunction(node, env)
+        case NodeType.ConditionalExpression:
+          return yield * this.evaluateConditional(node, env)
+        case NodeType.AwaitExpression:
+          return yield new Suspension(yield * this.evaluate(node.argument, env))
+        default:
+          throw new RuntimeError(`Unknown expression type: ${(node as any).type}`)
+      }
+    }
+    catch (error) {
+      throw this.locate(error, node)
+    }
+  }
+
+  private *evaluateBinary(node: BinaryExpressionNode, env: Environment): Evaluation<any> {
+    const left = yield * this.evaluate(node.left, env)
+    const right = yield * this.evaluate(node.right, env)
+
+    switch (node.operator) {
+      case '+': return left + right
+      case '-': return left - right
+      case '*': return left * right
+      case '/': return left / right
+      case '%': return left % right
+      case '^': return left ** right
+      // eslint-disable-next-line eqeqeq
+      case '==': return left == right
+      // eslint-disable-next-line eqeqeq
+      case '!=': return left != right
+      case '<': return left < right
+      case '<=': return left <= right
+      case '>': return left > right
+      case '>=': return left >= right
+      default:
+        throw new RuntimeError(`Unknown operator '${node.operator}'`)
+    }
+  }
+
+  private *evaluateUnary(node: UnaryExpressionNode, env: Environment): Evaluation<any> {
+    const argument = yield * this.evaluate(node.argument, env)
+
+    switch (node.operator) {
+      case 'not':
+      case '!': return !argument
+      case '-': return -argument
+      case '+': return +argument
+      default:
+        throw new RuntimeError(`Unknown operator '${node.operator}'`)
+    }
+  }
+
+  private *evaluateLogical(node: LogicalExpressionNode, env: Environment): Evaluation<any> {
+    const left = yield * this.evaluate(node.left, env)
+
+    switch (node.operator) {
+      case 'and':
+      case '&&': return left ? yield * this.evaluate(node.right, env) : left
+      case 'or':
+      case '||': return left || (yield * this.evaluate(node.right, env))
+      default:
+        throw new RuntimeError(`Unknown operator '${node.operator}'`)
+    }
+  }
+
+  private *evaluateAssignment(node: AssignmentExpressionNode, env: Environment): Evaluation<any> {
+    const combine = (current: any, value: any) => {
+      switch (node.operator) {
+        case '=': return value
+        case '+=': return current + value
+        case '-=': return current - value
+        default:
+          throw new RuntimeError(`Unknown operator '${node.operator}'`)
+      }
+    }
+
+    if (node.left.type === NodeType.Identifier) {
+      const current = node.operator === '=' ? undefined : env.get(node.left.name)
+      const value = combine(current, yield * this.evaluate(node.right, env))
+      env.assign(node.left.name, value)
+      return value
+    }
+
+    if (node.left.type === NodeType.MemberExpression) {
+      const object = yield * this.evaluate(node.left.object, env)
+      const key = yield * this.memberKey(node.left, env)
+      const current = node.operator === '=' ? undefined : this.getMember(object, key)
+      const value = combine(current, yield * this.evaluate(node.right, env))
+      if (object === null || object === undefined)
+        throw new RuntimeError(`Cannot set property '${String(key)}' of ${object}`)
+
+      object[key] = value
+      return value
+    }
+
+    throw new RuntimeError('Invalid assignment target')
+  }
+
+  private *evaluateCall(node: CallExpressionNode, env: Environment): Evaluation<any> {
+    let callee: any
+    let thisValue: any
+    let library: ((...args: any[]) => any) | undefined
+
+    if (node.callee.type === NodeType.MemberExpression) {
+      thisValue = yield * this.evaluate(node.callee.object, env)
+      this.calls.observe(thisValue)
+      const key = yield * this.memberKey(node.callee, env)
+      library = node.callee.computed ? undefined : this.runtime.method(thisValue, key)
+      callee = library ?? this.getMember(thisValue, key)
+    }
+    else {
+      callee = yield * this.evaluate(node.callee, env)
+    }
+
+    const args: any[] = []
+    for (const arg of node.arguments)
+      args.push(yield * this.evaluate(arg, env))
+
+    if (typeof callee !== 'function')
+      throw new RuntimeError(`${this.describeCallee(node.callee)} is not a function`)
+
+    if (library)
+      return library(thisValue, ...args)
+
+    const closure: Closure | undefined = callee[CLOSURE]
+    if (closure && !closure.async)
+      return yield * this.callClosure(closure, args)
+
+    return callee.apply(thisValue, args)
+  }
+
+  private describeCallee(node: ExpressionNode): string {
+    if (node.type === NodeType.Identifier)
+      return `'${node.name}'`
+    if (node.type === NodeType.MemberExpression && !node.computed && node.property.type === NodeType.Identifier)
+      return `'${this.describeCallee(node.object).replace(/'/g, '')}.${node.property.name}'`
+
+    return 'Expression'
+  }
+
+  private *memberKey(node: MemberExpressionNode, env: Environment): Evaluation<string | number> {
+    let key: any
+    if (node.computed)
+      key = yield * this.evaluate(node.property, env)
+    else
+      key = (node.property as IdentifierNode).name
+
+    const name = typeof key === 'number' ? key : String(key)
+    if (RESTRICTED_PROPERTIES.has(String(name)))
+      throw new SecurityError(`Access to property "${name}" is not allowed`)
+
+    return name
+  }
+
+  private getMember(object: any, key: string | number): any {
+    if (object === null || object === undefined)
+      throw new RuntimeError(`Cannot read property '${String(key)}' of ${object}`)
+
+    return object[key]
+  }
+
+  private *evaluateArray(node: ArrayExpressionNode, env: Environment): Evaluation<any[]> {
+    const elements: any[] = []
+    for (const element of node.elements)
+      elements.push(yield * this.evaluate(element, env))
+
+    return elements
+  }
+
+  private *evaluateObject(node: ObjectExpressionNode, env: Environment): Evaluation<Record<string, any>> {
+    const object: Record<string, any> = {}
+
+    for (const prop of node.properties) {
+      const key = prop.key.type === NodeType.Identifier ? prop.key.name : String((prop.key as any).value)
+      if (RESTRICTED_PROPERTIES.has(key))
+        throw new SecurityError(`Access to property "${key}" is not allowed`)
+
+      object[key] = yield * this.evaluate(prop.value, env)
+    }
+
+    return object
+  }
+
+  private *evaluateConditional(node: ConditionalExpressionNode, env: Environment): Evaluation<any> {
+    return (yield * this.evaluate(node.test, env))
+      ? yield * this.evaluate(node.consequent, env)
+      : yield * this.evaluate(node.alternate, env)
+  }
+
+  // Functions
+
+  /**
+   * PL functions are plain JavaScript functions, so host code such as
+   * Array.sort can call them; PL calls go through the closure instead
+   */
+  private createFunction(node: FunctionDeclarationNode | ArrowFunctionExpressionNode, env: Environment): Function {
+    const closure: Closure = {
+      name: node.type === NodeType.FunctionDeclaration ? node.id.name : 'anonymous',
+      params: node.params,
+      defaults: node.defaults,
+      rest: node.rest,
+      body: node.body,
+      environment: env,
+      async: node.async === true,
+    }
+
+    const fn = closure.async
+      ? (...args: any[]) => this.calls.track(this.callAsync(closure, args))
+      : (...args: any[]) => this.drive(this.callClosure(closure, args))
+    Object.defineProperty(fn, 'name', { value: closure.name })
+    Object.defineProperty(fn, CLOSURE, { value: closure })
+    return fn
+  }
+
+  private *callClosure(closure: Closure, args: any[]): Evaluation<any> {
+    if (this.depth >= this.options.maxCallDepth)
+      throw new LimitExceededError(`Maximum call depth of ${this.options.maxCallDepth} exceeded`, 'callDepth')
+
+    const env = new Environment(closure.environment)
+    this.functionScopes.add(env)
+
+    this.depth++
+    this.frames.push({ name: closure.name, line: closure.body.line, column: closure.body.column, scope: env })
+    try {
+      // Like JavaScript, a default applies to missing and undefined arguments and sees the parameters before it
+      for (let i = 0; i < closure.params.length; i++) {
+        const value = closure.defaults?.[i]
+        env.define(closure.params[i].name, (args[i] === undefined && value) ? yield * this.evaluate(value, env) : args[i])
+      }
+      if (closure.rest)
+        env.define(closure.rest.name, args.slice(closure.params.length))
+
+      if (closure.body.type !== NodeType.Block)
+        return yield * this.evaluate(closure.body as ExpressionNode, env)
+
+      const completion = yield * this.executeBlock((closure.body as BlockNode).body, env)
+      return completion instanceof ReturnValue ? completion.value : undefined
+    }
+    finally {
+      this.depth--
+      this.frames.pop()
+    }
+  }
+
+  /**
+   * Run an async function: synchronously up to its first await or pause,
+   * then on each settled value. Each call keeps its own depth and call stack
+   * between awaits, so that calls running meanwhile see those of their own callers.
+   */
+  private async callAsync(closure: Closure, args: any[]): Promise<any> {
+    const evaluation = this.callClosure(closure, args)
+    let depth = this.depth
+    let frames = [...this.frames]
+
+    const advance = (resume: () => IteratorResult<StatementNode | Suspension, any>): IteratorResult<StatementNode | Suspension, any> => {
+      const outer = this.depth
+      const outerFrames = this.frames
+      this.depth = depth
+      this.frames = frames
+      try {
+        let step = resume()
+        while (!step.done && !(step.value instanceof Suspension)) {
+          this.onStatement?.(step.value)
+          if (this.pauseRequested)
+            break
+          step = evaluation.next()
+        }
+        return step
+      }
+      finally {
+        depth = this.depth
+        frames = this.frames
+        this.depth = outer
+        this.frames = outerFrames
+      }
+    }
+
+    let step = advance(() => evaluation.next())
+    while (!step.done) {
+      if (!(step.value instanceof Suspension)) {
+        // Paused before a statement
+        await this.waitForResume()
+        step = advance(() => evaluation.next())
+        continue
+      }
+      const suspension = step.value
+      let value: any
+      try {
+        value = await this.settle(suspension.value)
+      }
+      catch (error) {
+        step = advance(() => evaluation.throw(error))
+        continue
+      }
+      step = advance(() => evaluation.next(value))
+    }
+    return step.value
+  }
+
+  /**
+   * Run a nested evaluation to completion, for PL functions called by host code
+   */
+  private drive<T>(evaluation: Evaluation<T>): T {
+    let step = evaluation.next()
+    while (!step.done)
+      step = evaluation.next()
+
+    return step.value
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * PL Language Server entry point
+ * Speaks LSP on stdin/stdout, e.g. `pnpm pl:lsp`
+ */
+
+import { listen } from './stdio'
+
+listen()
@@ -0,0 +1,130 @@
+/**
+ * PL Language Server Protocol
+ * The subset of JSON-RPC and LSP types used by the PL language server
+ */
+
+export interface RequestMessage {
+  jsonrpc: '2.0'
+  id: number | string
+  method: string
+  params?: any
+}
+
+export interface NotificationMessage {
+  jsonrpc: '2.0'
+  method: string
+  params?: any
+}
+
+export interface ResponseError {
+  code: number
+  message: string
+  data?: any
+}
+
+export interface ResponseMessage {
+  jsonrpc: '2.0'
+  id: number | string | null
+  result?: any
+  error?: ResponseError
+}
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const
+
+/** Zero-based line and UTF-16 character offset */
+export interface Position {
+  line: number
+  character: number
+}
+
+export interface Range {
+  start: Position
+  end: Position
+}
+
+export interface Location {
+  uri: string
+  range: Range
+}
+
+export interface TextEdit {
+  range: Range
+  newText: string
+}
+
+export const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+  Information: 3,
+  Hint: 4,
+} as const
+
+export const DiagnosticTag = {
+  Unnecessary: 1,
+} as const
+
+export interface LSPDiagnostic {
+  range: Range
+  severity: number
+  code: string
+  source: string
+  message: string
+  tags?: number[]
+}
+
+export interface Hover {
+  contents: { kind: 'markdown' | 'plaintext'; value: string }
+  range?: Range
+}
+
+export const CompletionItemKind = {
+  Method: 2,
+  Function: 3,
+  Variable: 6,
+  Module: 9,
+  Keyword: 14,
+  Constant: 21,
+} as const
+
+export interface CompletionItem {
+  label: string
+  kind: number
+  detail?: string
+  documentation?: string
+}
+
+export const SymbolKind = {
+  Function: 12,
+  Variable: 13,
+  Constant: 14,
+} as const
+
+export interface DocumentSymbol {
+  name: string
+  detail?: string
+  kind: number
+  range: Range
+  selectionRange: Range
+  children?: DocumentSymbol[]
+}
+
+export const TextDocumentSyncKind = {
+  Full: 1,
+} as const
+
+export function isRequest(message: Message): message is RequestMessage {
+  return 'method' in message && 'id' in message && message.id !== undefined
+}
+
+export function isNotification(message: Message): message is NotificationMessage {
+  return 'method' in message && !('id' in message && message.id !== undefined)
+}
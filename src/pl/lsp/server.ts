@@ -0,0 +1,473 @@
+/**
+ * PL Language Server
+ * Diagnostics, hover, completion, definitions, symbols and formatting for PL documents
+ */
+
+import type { Token } from '../parser/lexer'
+import { KEYWORDS, Lexer, TokenType } from '../parser/lexer'
+import type { ASTNode, IdentifierNode, ProgramNode, StatementNode } from '../parser/parser'
+import { NodeType, Parser, typeToSource } from '../parser/parser'
+import type { Diagnostic } from '../parser/diagnostics'
+import { ParseError } from '../parser/diagnostics'
+import type { Binding } from '../analyzer/analyzer'
+import { Analyzer } from '../analyzer/analyzer'
+import { TypeChecker } from '../checker/checker'
+import type { PLType } from '../checker/types'
+import { typeToString } from '../checker/types'
+import { Formatter } from '../formatter/formatter'
+import { BUILTIN_DOCS } from '../runtime/runtime'
+import { VERSION } from '../index'
+import type {
+  CompletionItem,
+  DocumentSymbol,
+  Hover,
+  LSPDiagnostic,
+  Location,
+  Message,
+  NotificationMessage,
+  Position,
+  Range,
+  RequestMessage,
+  ResponseError,
+  TextEdit,
+} from './protocol'
+import {
+  CompletionItemKind,
+  DiagnosticSeverity,
+  DiagnosticTag,
+  ErrorCodes,
+  SymbolKind,
+  TextDocumentSyncKind,
+  isNotification,
+  isRequest,
+} from './protocol'
+
+export interface LanguageServerOptions {
+  /** Names the host defines for PL programs, so they are not reported as undeclared */
+  globals?: string[]
+}
+
+interface TextDocument {
+  uri: string
+  version: number
+  text: string
+  tokens: Token[]
+  program: ProgramNode
+  diagnostics: Diagnostic[]
+  /** Binding of each identifier, keyed by "line:column" */
+  identifiers: Map<string, Binding>
+  bindings: Binding[]
+  /** Declared or inferred type of each binding the checker typed */
+  types: Map<Binding, PLType>
+}
+
+interface TextDocumentPositionParams {
+  textDocument: { uri: string }
+  position: Position
+}
+
+type RequestHandler = (params: any) => any
+
+const SEVERITIES: Record<Diagnostic['severity'], number> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+}
+
+// Problems editors usually show faded rather than underlined
+const UNNECESSARY_CODES = new Set(['unused-variable', 'unused-parameter', 'unreachable-code'])
+
+const BUILTIN_OBJECTS = [...new Set(BUILTIN_DOCS.filter(doc => doc.name.includes('.')).map(doc => doc.name.split('.')[0]))]
+
+class ResponseFailure extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message)
+  }
+}
+
+export class PLLanguageServer {
+  private readonly documents: Map<string, TextDocument> = new Map()
+  private readonly requestHandlers: Record<string, RequestHandler>
+  private initialized = false
+  private shutdownRequested = false
+
+  /** Called when the client sends exit: 0 after a shutdown request, 1 otherwise */
+  onExit: (code: number) => void = () => {}
+
+  constructor(
+    private readonly send: (message: Message) => void,
+    private readonly options: LanguageServerOptions = {},
+  ) {
+    this.requestHandlers = {
+      'initialize': () => this.initialize(),
+      'shutdown': () => {
+        this.shutdownRequested = true
+        return null
+      },
+      'textDocument/hover': params => this.hover(params),
+      'textDocument/completion': params => this.completion(params),
+      'textDocument/definition': params => this.definition(params),
+      'textDocument/documentSymbol': params => this.documentSymbols(params),
+      'textDocument/formatting': params => this.formatting(params),
+    }
+  }
+
+  handleMessage(message: Message): void {
+    if (isRequest(message))
+      this.handleRequest(message)
+    else if (isNotification(message))
+      this.handleNotification(message)
+
+    // The server sends no requests of its own, so responses are ignored
+  }
+
+  /**
+   * Report a message body that could not be parsed
+   */
+  handleParseError(error: Error): void {
+    this.send({ jsonrpc: '2.0', id: null, error: { code: ErrorCodes.ParseError, message: error.message } })
+  }
+
+  private handleRequest(request: RequestMessage): void {
+    const handler = this.requestHandlers[request.method]
+
+    try {
+      if (!this.initialized && request.method !== 'initialize')
+        throw new ResponseFailure(ErrorCodes.ServerNotInitialized, 'Server not initialized')
+
+      if (!handler)
+        throw new ResponseFailure(ErrorCodes.MethodNotFound, `Unhandled method ${request.method}`)
+
+      this.send({ jsonrpc: '2.0', id: request.id, result: handler(request.params ?? {}) ?? null })
+    }
+    catch (error) {
+      const responseError: ResponseError = error instanceof ResponseFailure
+        ? { code: error.code, message: error.message }
+        : { code: ErrorCodes.InternalError, message: error instanceof Error ? error.message : String(error) }
+      this.send({ jsonrpc: '2.0', id: request.id, error: responseError })
+    }
+  }
+
+  private handleNotification(notification: NotificationMessage): void {
+    const params = notification.params ?? {}
+
+    switch (notification.method) {
+      case 'exit':
+        this.onExit(this.shutdownRequested ? 0 : 1)
+        return
+      case 'textDocument/didOpen':
+        this.update(params.textDocument.uri, params.textDocument.text, params.textDocument.version)
+        return
+      case 'textDocument/didChange': {
+        // Full document sync: the last change holds the whole text
+        const changes = params.contentChanges ?? []
+        if (changes.length > 0)
+          this.update(params.textDocument.uri, changes[changes.length - 1].text, params.textDocument.version)
+
+        return
+      }
+      case 'textDocument/didClose':
+        this.documents.delete(params.textDocument.uri)
+        this.notify('textDocument/publishDiagnostics', { uri: params.textDocument.uri, diagnostics: [] })
+    }
+  }
+
+  private initialize() {
+    this.initialized = true
+    return {
+      capabilities: {
+        textDocumentSync: TextDocumentSyncKind.Full,
+        hoverProvider: true,
+        completionProvider: { triggerCharacters: ['.'] },
+        definitionProvider: true,
+        documentSymbolProvider: true,
+        documentFormattingProvider: true,
+      },
+      serverInfo: { name: 'pl-language-server', version: VERSION },
+    }
+  }
+
+  private update(uri: string, text: string, version: number): void {
+    const lexer = new Lexer(text, { recover: true })
+    const tokens = lexer.tokenize()
+    const parser = new Parser(tokens, { recover: true })
+    const program = parser.parse()
+
+    const analyzer = new Analyzer({ globals: this.options.globals })
+    const checker = new TypeChecker({ globals: this.options.globals })
+    const semantic = [...analyzer.analyze(program), ...checker.check(program, analyzer.references)]
+      .sort((a, b) => a.line - b.line || a.column - b.column)
+    const syntax = [...lexer.diagnostics, ...parser.diagnostics]
+
+    const identifiers = new Map<string, Binding>()
+    analyzer.references.forEach((binding, node) => identifiers.set(`${node.line}:${node.column}`, binding))
+
+    // Semantic problems in a program that does not parse are mostly noise
+    const diagnostics = syntax.length > 0 ? syntax : semantic
+    this.documents.set(uri, { uri, version, text, tokens, program, diagnostics, identifiers, bindings: analyzer.bindings, types: checker.types })
+
+    this.notify('textDocument/publishDiagnostics', {
+      uri,
+      version,
+      diagnostics: diagnostics.map(diagnostic => this.toLSPDiagnostic(diagnostic)),
+    })
+  }
+
+  private hover(params: TextDocumentPositionParams): Hover | null {
+    const document = this.documents.get(params.textDocument.uri)
+    const target = document && this.identifierAt(document, params.position)
+    if (!document || !target)
+      return null
+
+    const { token, name } = target
+    const range = this.tokenRange(token)
+    const binding = name === token.value ? document.identifiers.get(`${token.line}:${token.column}`) : undefined
+
+    if (binding)
+      return { contents: { kind: 'markdown', value: this.codeBlock(this.describe(binding, document.types)) }, range }
+
+    const doc = BUILTIN_DOCS.find(builtin => builtin.name === name)
+    if (doc) {
+      const signatures = doc.method ? `${doc.signature}\n${doc.method}` : doc.signature
+      return { contents: { kind: 'markdown', value: `${this.codeBlock(signatures)}\n\n${doc.description}` }, range }
+    }
+
+    if (BUILTIN_OBJECTS.includes(name)) {
+      const members = BUILTIN_DOCS.filter(builtin => builtin.name.startsWith(`${name}.`)).map(builtin => builtin.name)
+      return { contents: { kind: 'markdown', value: `${this.codeBlock(`(builtin) ${name}`)}\n\n${members.join(', ')}` }, range }
+    }
+
+    return null
+  }
+
+  private completion(params: TextDocumentPositionParams): CompletionItem[] {
+    const document = this.documents.get(params.textDocument.uri)
+    if (!document)
+      return []
+
+    const line = document.text.split('\n')[params.position.line] ?? ''
+    const before = line.slice(0, params.position.character)
+
+    // Members of a builtin object, e.g. "Math."
+    const member = /([A-Za-z_][A-Za-z0-9_]*)\.[A-Za-z0-9_]*$/.exec(before)
+    if (member) {
+      return BUILTIN_DOCS
+        .filter(doc => doc.name.startsWith(`${member[1]}.`))
+        .map(doc => ({
+          label: doc.name.slice(member[1].length + 1),
+          kind: CompletionItemKind.Method,
+          detail: doc.signature,
+          documentation: doc.description,
+        }))
+    }
+
+    const items: CompletionItem[] = []
+    const seen = new Set<string>()
+    const add = (item: CompletionItem) => {
+      if (seen.has(item.label))
+        return
+      seen.add(item.label)
+      items.push(item)
+    }
+
+    document.bindings.forEach(binding => add({
+      label: binding.name,
+      kind: binding.kind === 'function'
+        ? CompletionItemKind.Function
+        : binding.kind === 'const' ? CompletionItemKind.Constant : CompletionItemKind.Variable,
+      detail: this.describe(binding, document.types),
+    }))
+    BUILTIN_DOCS
+      .filter(doc => !doc.name.includes('.'))
+      .forEach(doc => add({ label: doc.name, kind: CompletionItemKind.Function, detail: doc.signature, documentation: doc.description }))
+    BUILTIN_OBJECTS.forEach(name => add({ label: name, kind: CompletionItemKind.Module, detail: `(builtin) ${name}` }))
+    KEYWORDS.forEach((_type, keyword) => add({ label: keyword, kind: CompletionItemKind.Keyword }))
+
+    return items
+  }
+
+  private definition(params: TextDocumentPositionParams): Location | null {
+    const document = this.documents.get(params.textDocument.uri)
+    const target = document && this.identifierAt(document, params.position)
+    if (!document || !target || target.name !== target.token.value)
+      return null
+
+    const binding = document.identifiers.get(`${target.token.line}:${target.token.column}`)
+    return binding ? { uri: document.uri, range: this.identifierRange(binding.node) } : null
+  }
+
+  private documentSymbols(params: { textDocument: { uri: string } }): DocumentSymbol[] {
+    const document = this.documents.get(params.textDocument.uri)
+    return document ? this.symbols(document.program.body) : []
+  }
+
+  private symbols(statements: StatementNode[]): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = []
+
+    const visit = (statement: StatementNode | undefined): void => {
+      if (!statement)
+        return
+
+      switch (statement.type) {
+        case NodeType.FunctionDeclaration:
+          symbols.push({
+            name: statement.id.name,
+            detail: `(${statement.params.map(param => param.name).join(', ')})`,
+            kind: SymbolKind.Function,
+            range: this.declarationRange(statement, statement.id),
+            selectionRange: this.identifierRange(statement.id),
+            children: this.symbols(statement.body.body),
+          })
+          break
+        case NodeType.VariableDeclaration:
+          statement.declarations.forEach(declarator => symbols.push({
+            name: declarator.id.name,
+            detail: statement.kind,
+            kind: statement.kind === 'const' ? SymbolKind.Constant : SymbolKind.Variable,
+            range: this.declarationRange(statement, declarator.id),
+            selectionRange: this.identifierRange(declarator.id),
+          }))
+          break
+        case NodeType.Block:
+          statement.body.forEach(visit)
+          break
+        case NodeType.IfStatement:
+          visit(statement.consequent)
+          visit(statement.alternate)
+          break
+        case NodeType.WhileStatement:
+          visit(statement.body)
+          break
+        case NodeType.ForStatement:
+          if (statement.init?.type === NodeType.VariableDeclaration)
+            visit(statement.init)
+          visit(statement.body)
+          break
+        case NodeType.SwitchStatement:
+          statement.cases.forEach(caseNode => caseNode.consequent.forEach(visit))
+          break
+        case NodeType.TryStatement:
+          visit(statement.block)
+          visit(statement.handler)
+          visit(statement.finalizer)
+          break
+        case NodeType.ExportDeclaration:
+          visit(statement.declaration)
+          break
+      }
+    }
+
+    statements.forEach(visit)
+    return symbols
+  }
+
+  private formatting(params: { textDocument: { uri: string }; options?: { tabSize?: number; insertSpaces?: boolean } }): TextEdit[] {
+    const document = this.documents.get(params.textDocument.uri)
+    if (!document)
+      return []
+
+    const formatter = new Formatter({
+      indentSize: params.options?.tabSize,
+      useTabs: params.options?.insertSpaces === false,
+    })
+
+    let formatted: string
+    try {
+      formatted = formatter.format(document.text)
+    }
+    catch (error) {
+      // Nothing to do until the document parses
+      if (error instanceof ParseError)
+        return []
+      throw error
+    }
+
+    if (formatted === document.text)
+      return []
+
+    const lines = document.text.split('\n')
+    const end = { line: lines.length - 1, character: lines[lines.length - 1].length }
+    return [{ range: { start: { line: 0, character: 0 }, end }, newText: formatted }]
+  }
+
+  /**
+   * Identifier token under the cursor, with its dotted name for builtin members such as Math.max
+   */
+  private identifierAt(document: TextDocument, position: Position): { token: Token; name: string } | null {
+    const index = document.tokens.findIndex(token =>
+      token.type === TokenType.IDENTIFIER
+      && token.line - 1 === position.line
+      && position.character >= token.column - 1
+      && position.character <= token.column - 1 + String(token.value).length,
+    )
+    if (index === -1)
+      return null
+
+    const token = document.tokens[index]
+    const dot = document.tokens[index - 1]
+    const object = document.tokens[index - 2]
+    const qualified = dot?.type === TokenType.DOT && object?.type === TokenType.IDENTIFIER
+    return { token, name: qualified ? `${object.value}.${token.value}` : token.value }
+  }
+
+  private describe(binding: Binding, types: Map<Binding, PLType>): string {
+    const declaration = binding.declaration
+    if (declaration?.type === NodeType.FunctionDeclaration) {
+      const annotated = (param: IdentifierNode) => param.typeAnnotation ? `${param.name}: ${typeToSource(param.typeAnnotation)}` : param.name
+      const params = [...declaration.params.map(annotated), ...(declaration.rest ? [`...${annotated(declaration.rest)}`] : [])].join(', ')
+      const returns = declaration.returnType ? `: ${typeToSource(declaration.returnType)}` : ''
+      return `${declaration.async ? 'async ' : ''}function ${binding.name}(${params})${returns}`
+    }
+    if (declaration?.type === NodeType.ImportDeclaration)
+      return `(import) ${binding.name} from ${JSON.stringify(declaration.source.value)}`
+
+    const type = types.get(binding)
+    const suffix = (type && type.kind !== 'any') ? `: ${typeToString(type)}` : ''
+    return binding.kind === 'parameter' ? `(parameter) ${binding.name}${suffix}` : `${binding.kind} ${binding.name}${suffix}`
+  }
+
+  private codeBlock(code: string): string {
+    return `\`\`\`pl\n${code}\n\`\`\``
+  }
+
+  private toLSPDiagnostic(diagnostic: Diagnostic): LSPDiagnostic {
+    const result: LSPDiagnostic = {
+      range: {
+        start: { line: diagnostic.line - 1, character: diagnostic.column - 1 },
+        end: { line: diagnostic.endLine - 1, character: diagnostic.endColumn - 1 },
+      },
+      severity: SEVERITIES[diagnostic.severity],
+      code: diagnostic.code,
+      source: 'pl',
+      message: diagnostic.message,
+    }
+    if (UNNECESSARY_CODES.has(diagnostic.code))
+      result.tags = [DiagnosticTag.Unnecessary]
+    return result
+  }
+
+  private tokenRange(token: Token): Range {
+    const start = { line: token.line - 1, character: token.column - 1 }
+    return { start, end: { line: start.line, character: start.character + String(token.value).length } }
+  }
+
+  private identifierRange(node: IdentifierNode): Range {
+    const start = { line: node.line - 1, character: node.column - 1 }
+    return { start, end: { line: start.line, character: start.character + node.name.length } }
+  }
+
+  /**
+   * From the start of a declaration to the end of its name; nodes do not record where they end
+   */
+  private declarationRange(declaration: ASTNode, id: IdentifierNode): Range {
+    return {
+      start: { line: declaration.line - 1, character: declaration.column - 1 },
+      end: this.identifierRange(id).end,
+    }
+  }
+
+  private notify(method: string, params: any): void {
+    this.send({ jsonrpc: '2.0', method, params })
+  }
+}
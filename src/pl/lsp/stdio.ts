@@ -0,0 +1,31 @@
+/**
+ * PL Language Server over stdio
+ * Connects a PLLanguageServer to a pair of Node streams
+ */
+
+import type { LanguageServerOptions } from './server'
+import { PLLanguageServer } from './server'
+import { MessageReader, encodeMessage } from './transport'
+
+export interface ListenOptions extends LanguageServerOptions {
+  /** Called on the exit notification; ends the process by default */
+  onExit?: (code: number) => void
+}
+
+export function listen(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout,
+  options: ListenOptions = {},
+): PLLanguageServer {
+  const { onExit = (code: number) => process.exit(code), ...serverOptions } = options
+  const server = new PLLanguageServer(message => output.write(encodeMessage(message)), serverOptions)
+  server.onExit = onExit
+
+  const reader = new MessageReader(
+    message => server.handleMessage(message),
+    error => server.handleParseError(error),
+  )
+  input.on('data', (chunk: Buffer | string) => reader.push(chunk))
+
+  return server
+}
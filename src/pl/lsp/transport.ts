@@ -0,0 +1,63 @@
+/**
+ * PL Language Server Transport
+ * Content-Length framing of JSON-RPC messages, as used by LSP over stdio
+ */
+
+import type { Message } from './protocol'
+
+const HEADER_END = '\r\n\r\n'
+
+export function encodeMessage(message: Message): string {
+  const body = JSON.stringify(message)
+  return `Content-Length: ${Buffer.byteLength(body, 'utf8')}${HEADER_END}${body}`
+}
+
+/**
+ * Collects chunks from a stream and emits each complete message.
+ * Bodies that are not valid JSON are passed to onError and skipped.
+ */
+export class MessageReader {
+  private buffer: Buffer = Buffer.alloc(0)
+
+  constructor(
+    private readonly onMessage: (message: Message) => void,
+    private readonly onError: (error: Error) => void = () => {},
+  ) {}
+
+  push(chunk: Buffer | string): void {
+    this.buffer = Buffer.concat([this.buffer, typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk])
+
+    while (true) {
+      const headerEnd = this.buffer.indexOf(HEADER_END)
+      if (headerEnd === -1)
+        return
+
+      const headers = this.buffer.subarray(0, headerEnd).toString('ascii')
+      const match = /Content-Length:\s*(\d+)/i.exec(headers)
+      if (!match) {
+        // Drop the malformed header block and look for the next one
+        this.buffer = this.buffer.subarray(headerEnd + HEADER_END.length)
+        this.onError(new Error('Message without Content-Length header'))
+        continue
+      }
+
+      const start = headerEnd + HEADER_END.length
+      const end = start + Number(match[1])
+      if (this.buffer.length < end)
+        return
+
+      const body = this.buffer.subarray(start, end).toString('utf8')
+      this.buffer = this.buffer.subarray(end)
+
+      let message: Message
+      try {
+        message = JSON.parse(body)
+      }
+      catch (error) {
+        this.onError(error instanceof Error ? error : new Error(String(error)))
+        continue
+      }
+      this.onMessage(message)
+    }
+  }
+}
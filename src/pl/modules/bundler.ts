@@ -0,0 +1,50 @@
+/**
+ * PL Module Bundler
+ * Links the modules of a resolved graph into one JavaScript program
+ */
+
+import { hasTopLevelAwait } from '../parser/parser'
+import type { TranspileOptions } from '../transpiler/transpiler'
+import { GUARD_PREFIX, Transpiler } from '../transpiler/transpiler'
+import type { ModuleGraph } from './resolver'
+
+export class Bundler {
+  private readonly INDENT = '  '
+  private readonly options: Pick<TranspileOptions, 'guardAwait' | 'libraryMethods' | 'guardErrors' | 'trackAsync'>
+
+  constructor(options: Pick<TranspileOptions, 'guardAwait' | 'libraryMethods' | 'guardErrors' | 'trackAsync'> = {}) {
+    this.options = options
+  }
+
+  /**
+   * Each imported module becomes a function run once, in dependency order,
+   * that returns its exports; the entry module runs last, at the top level.
+   * Modules with top-level await become async functions that are awaited.
+   */
+  bundle(graph: ModuleGraph): string {
+    const names = new Map(graph.modules.map((record, index) => [record.id, `${GUARD_PREFIX}module_${index}`]))
+
+    return graph.modules
+      .map((record) => {
+        const imports = new Map(record.imports.map(({ node, id }) => [node.source.value, names.get(id)!]))
+        const transpiler = new Transpiler({ ...this.options, importModule: source => imports.get(source)! })
+        const body = transpiler.transpile(record.program)
+        if (record.id === graph.entry)
+          return body
+
+        const exports = record.exports.length > 0 ? `{ ${record.exports.join(', ')} }` : '{}'
+        const lines = [body, `return ${exports};`].filter(Boolean).join('\n\n')
+        return hasTopLevelAwait(record.program)
+          ? `const ${names.get(record.id)} = await (async function() {\n${this.indent(lines)}\n})();`
+          : `const ${names.get(record.id)} = (function() {\n${this.indent(lines)}\n})();`
+      })
+      .join('\n\n')
+  }
+
+  private indent(code: string): string {
+    return code
+      .split('\n')
+      .map(line => (line.trim() ? this.INDENT + line : ''))
+      .join('\n')
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * PL Filesystem Module Loader
+ * Loads modules from disk. Node.js only: not exported from the browser entry point.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { ModuleLoader } from './loader'
+import { withModuleExtension } from './loader'
+
+export class FileSystemLoader implements ModuleLoader {
+  private readonly root: string
+
+  /**
+   * root is the directory that the entry module and non-relative paths are resolved against
+   */
+  constructor(root: string = process.cwd()) {
+    this.root = path.resolve(root)
+  }
+
+  resolve(specifier: string, importer?: string): string {
+    const relative = specifier.startsWith('./') || specifier.startsWith('../')
+    const base = (relative && importer) ? path.dirname(importer) : this.root
+    return withModuleExtension(path.resolve(base, specifier))
+  }
+
+  async load(id: string): Promise<string> {
+    try {
+      return await fs.promises.readFile(id, 'utf8')
+    }
+    catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT')
+        throw new Error(`Cannot find module '${id}'`)
+
+      throw error
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * PL Module Loaders
+ * Where module source comes from: memory and HTTP here, the filesystem in fs-loader
+ */
+
+export interface ModuleLoader {
+  /**
+   * Identifier of the module an import path refers to, e.g. an absolute path or URL.
+   * importer is the identifier of the importing module, absent for the entry module.
+   */
+  resolve(specifier: string, importer?: string): string
+  /** Source of a module; rejects when it cannot be read */
+  load(id: string): Promise<string>
+}
+
+export const MODULE_EXTENSION = '.pl'
+
+/**
+ * Add the .pl extension to a path whose last segment has none
+ */
+export function withModuleExtension(path: string): string {
+  return /\.[^/]*$/.test(path) ? path : `${path}${MODULE_EXTENSION}`
+}
+
+/**
+ * Absolute POSIX-style path of an import: ./ and ../ paths are relative to
+ * the importing module, other paths to the root
+ */
+export function resolveModulePath(specifier: string, importer?: string): string {
+  const relative = specifier.startsWith('./') || specifier.startsWith('../')
+  const base = (relative && importer) ? importer.slice(0, importer.lastIndexOf('/')) : ''
+
+  const path = `${base}/${specifier}`
+  const segments: string[] = []
+  path.split('/').forEach((segment) => {
+    if (segment === '..')
+      segments.pop()
+    else if (segment && segment !== '.')
+      segments.push(segment)
+  })
+
+  return withModuleExtension(`/${segments.join('/')}`)
+}
+
+/**
+ * Modules held in memory, e.g. the files open in an editor
+ */
+export class MemoryLoader implements ModuleLoader {
+  private readonly files: Map<string, string> = new Map()
+
+  constructor(files: Record<string, string> = {}) {
+    Object.entries(files).forEach(([path, source]) => this.set(path, source))
+  }
+
+  set(path: string, source: string): void {
+    this.files.set(resolveModulePath(path), source)
+  }
+
+  resolve(specifier: string, importer?: string): string {
+    return resolveModulePath(specifier, importer)
+  }
+
+  async load(id: string): Promise<string> {
+    const source = this.files.get(id)
+    if (source === undefined)
+      throw new Error(`Cannot find module '${id}'`)
+
+    return source
+  }
+}
+
+export interface HttpLoaderOptions {
+  /** URL that the entry module and non-relative paths are resolved against */
+  baseUrl?: string
+  headers?: Record<string, string>
+  /** Defaults to the global fetch */
+  fetch?: typeof fetch
+}
+
+/**
+ * Modules served over HTTP, resolved like URLs in a browser
+ */
+export class HttpLoader implements ModuleLoader {
+  private readonly options: HttpLoaderOptions
+
+  constructor(options: HttpLoaderOptions = {}) {
+    this.options = options
+  }
+
+  resolve(specifier: string, importer?: string): string {
+    const relative = specifier.startsWith('./') || specifier.startsWith('../')
+    const url = new URL(specifier, (relative && importer) ? importer : this.options.baseUrl)
+    url.pathname = withModuleExtension(url.pathname)
+    return url.href
+  }
+
+  async load(id: string): Promise<string> {
+    const fetcher = this.options.fetch ?? globalThis.fetch
+    const response = await fetcher(id, { headers: this.options.headers })
+    if (!response.ok)
+      throw new Error(`Cannot load module '${id}': HTTP ${response.status}`)
+
+    return await response.text()
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * PL Module Resolver
+ * Loads a module and everything it imports, checking imports against exports and rejecting cycles
+ */
+
+import { Lexer } from '../parser/lexer'
+import type { ASTNode, IdentifierNode, ImportDeclarationNode, LiteralNode, ProgramNode } from '../parser/parser'
+import { NodeType, Parser } from '../parser/parser'
+import type { Diagnostic } from '../parser/diagnostics'
+import { Analyzer } from '../analyzer/analyzer'
+import { TypeChecker } from '../checker/checker'
+import type { ModuleLoader } from './loader'
+
+export interface ModuleDiagnostic extends Diagnostic {
+  /** Identifier of the module the problem was found in */
+  module: string
+}
+
+export interface ModuleImport {
+  node: ImportDeclarationNode
+  /** Identifier of the imported module */
+  id: string
+}
+
+export interface ModuleRecord {
+  id: string
+  source: string
+  program: ProgramNode
+  imports: ModuleImport[]
+  /** Names the module exports */
+  exports: string[]
+}
+
+export interface ModuleGraph {
+  /** Identifier of the entry module */
+  entry: string
+  /** Every module that loaded, after the modules it imports; the entry module comes last */
+  modules: ModuleRecord[]
+  diagnostics: ModuleDiagnostic[]
+}
+
+export interface ResolverOptions {
+  /** Names the host will define, so the analyzer does not report them as undeclared */
+  globals?: string[]
+  /** Check the types of every module; on by default. Imported values are typed any. */
+  typeCheck?: boolean
+}
+
+/**
+ * Names declared by the export statements of a program
+ */
+export function exportedNames(program: ProgramNode): string[] {
+  return program.body.flatMap((statement) => {
+    if (statement.type !== NodeType.ExportDeclaration)
+      return []
+    const declaration = statement.declaration
+    return declaration.type === NodeType.FunctionDeclaration
+      ? [declaration.id.name]
+      : declaration.declarations.map(declarator => declarator.id.name)
+  })
+}
+
+export class ModuleResolver {
+  private readonly loader: ModuleLoader
+  private readonly options: ResolverOptions
+  // Loaded modules by identifier; null for modules that failed to load
+  private records: Map<string, ModuleRecord | null> = new Map()
+  // Modules whose imports are being resolved, outermost first
+  private stack: string[] = []
+  private modules: ModuleRecord[] = []
+  private diagnostics: ModuleDiagnostic[] = []
+
+  constructor(loader: ModuleLoader, options: ResolverOptions = {}) {
+    this.loader = loader
+    this.options = options
+  }
+
+  async resolve(entry: string): Promise<ModuleGraph> {
+    this.records = new Map()
+    this.stack = []
+    this.modules = []
+    this.diagnostics = []
+
+    let id = entry
+    try {
+      id = this.loader.resolve(entry)
+      await this.visit(id)
+    }
+    catch (error) {
+      this.report(id, this.message(error), null, 'module-not-found')
+    }
+
+    return { entry: id, modules: this.modules, diagnostics: this.diagnostics }
+  }
+
+  /**
+   * Load a module and, depth first, the modules it imports.
+   * importedAt is the import path node in the importing module, if any.
+   */
+  private async visit(id: string, importer?: string, importedAt?: ASTNode): Promise<ModuleRecord | null> {
+    let source: string
+    try {
+      source = await this.loader.load(id)
+    }
+    catch (error) {
+      this.records.set(id, null)
+      if (!importer)
+        throw error
+      this.report(importer, this.message(error), importedAt ?? null, 'module-not-found')
+      return null
+    }
+
+    const program = this.parse(id, source)
+    const record: ModuleRecord = { id, source, program, imports: [], exports: exportedNames(program) }
+    this.records.set(id, record)
+    this.stack.push(id)
+
+    for (const statement of program.body) {
+      if (statement.type === NodeType.ImportDeclaration)
+        await this.link(record, statement)
+    }
+
+    this.stack.pop()
+    this.modules.push(record)
+    return record
+  }
+
+  private async link(record: ModuleRecord, node: ImportDeclarationNode): Promise<void> {
+    let target: string
+    try {
+      target = this.loader.resolve(node.source.value, record.id)
+    }
+    catch (error) {
+      this.report(record.id, this.message(error), node.source, 'module-not-found')
+      return
+    }
+    record.imports.push({ node, id: target })
+
+    if (this.stack.includes(target)) {
+      const cycle = [...this.stack.slice(this.stack.indexOf(target)), target]
+      this.report(record.id, `Circular import: ${cycle.join(' -> ')}`, node.source, 'circular-import')
+      return
+    }
+
+    const imported = this.records.has(target)
+      ? this.records.get(target)
+      : await this.visit(target, record.id, node.source)
+    if (!imported)
+      return
+
+    node.specifiers.forEach((specifier) => {
+      if (!imported.exports.includes(specifier.imported.name)) {
+        const message = `Module "${node.source.value}" has no export '${specifier.imported.name}'`
+        this.report(record.id, message, specifier.imported, 'missing-export')
+      }
+    })
+  }
+
+  private parse(id: string, source: string): ProgramNode {
+    const lexer = new Lexer(source, { recover: true })
+    const parser = new Parser(lexer.tokenize(), { recover: true })
+    const program = parser.parse()
+
+    const syntax = [...lexer.diagnostics, ...parser.diagnostics]
+    const diagnostics = syntax.length > 0 ? syntax : this.analyze(program)
+    diagnostics.forEach(diagnostic => this.diagnostics.push({ ...diagnostic, module: id }))
+
+    return program
+  }
+
+  private analyze(program: ProgramNode): Diagnostic[] {
+    const analyzer = new Analyzer({ globals: this.options.globals })
+    const semantic = analyzer.analyze(program)
+    if (this.options.typeCheck === false)
+      return semantic
+
+    const types = new TypeChecker({ globals: this.options.globals }).check(program, analyzer.references)
+    return [...semantic, ...types].sort((a, b) => a.line - b.line || a.column - b.column)
+  }
+
+  private report(module: string, message: string, node: ASTNode | null, code: string): void {
+    const line = node?.line ?? 1
+    const column = node?.column ?? 1
+    const length = node?.type === NodeType.Identifier
+      ? (node as IdentifierNode).name.length
+      : node?.type === NodeType.Literal ? String((node as LiteralNode).value).length + 2 : 1
+
+    this.diagnostics.push({ message, severity: 'error', line, column, endLine: line, endColumn: column + length, code, module })
+  }
+
+  private message(error: unknown): string {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * PL Diagnostics
+ * Structured errors and warnings reported by the lexer, parser and later passes
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info' | 'hint'
+
+export interface Diagnostic {
+  message: string
+  severity: DiagnosticSeverity
+  /** Start position, one-based */
+  line: number
+  column: number
+  /** End position, one-based and exclusive */
+  endLine: number
+  endColumn: number
+  /** Stable identifier of the kind of problem, e.g. "unexpected-token" */
+  code: string
+}
+
+export class ParseError extends Error {
+  readonly diagnostic: Diagnostic
+
+  constructor(diagnostic: Diagnostic) {
+    super(formatDiagnostic(diagnostic))
+    this.name = 'ParseError'
+    this.diagnostic = diagnostic
+  }
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return `${diagnostic.message} at line ${diagnostic.line}, column ${diagnostic.column}`
+}
@@ -3,6 +3,9 @@
  * Tokenizes PL source code into tokens for parsing
  */
 
+import type { Diagnostic } from './diagnostics'
+import { ParseError } from './diagnostics'
+
 export enum TokenType {
   // Literals
   NUMBER = 'NUMBER',
@@ -48,6 +51,8 @@ export enum TokenType {
   COLON = 'COLON',
   SEMICOLON = 'SEMICOLON',
   ARROW = 'ARROW',
+  ELLIPSIS = 'ELLIPSIS',
+  PIPE = 'PIPE',
 
   // Keywords
   IF = 'IF',
@@ -66,11 +71,19 @@ export enum TokenType {
   SWITCH = 'SWITCH',
   CASE = 'CASE',
   DEFAULT = 'DEFAULT',
+  IMPORT = 'IMPORT',
+  EXPORT = 'EXPORT',
+  ASYNC = 'ASYNC',
+  AWAIT = 'AWAIT',
+  TRY = 'TRY',
+  CATCH = 'CATCH',
+  FINALLY = 'FINALLY',
+  THROW = 'THROW',
 
   // Special
   EOF = 'EOF',
   NEWLINE = 'NEWLINE',
-  COMMENT = 'COMMENT'
+  COMMENT = 'COMMENT',
 }
 
 export interface Token {
@@ -80,36 +93,58 @@ export interface Token {
   column: number
 }
 
+export const KEYWORDS: ReadonlyMap<string, TokenType> = new Map([
+  ['if', TokenType.IF],
+  ['else', TokenType.ELSE],
+  ['while', TokenType.WHILE],
+  ['for', TokenType.FOR],
+  ['function', TokenType.FUNCTION],
+  ['return', TokenType.RETURN],
+  ['var', TokenType.VAR],
+  ['const', TokenType.CONST],
+  ['true', TokenType.TRUE],
+  ['false', TokenType.FALSE],
+  ['null', TokenType.NULL],
+  ['break', TokenType.BREAK],
+  ['continue', TokenType.CONTINUE],
+  ['switch', TokenType.SWITCH],
+  ['case', TokenType.CASE],
+  ['default', TokenType.DEFAULT],
+  ['import', TokenType.IMPORT],
+  ['export', TokenType.EXPORT],
+  ['async', TokenType.ASYNC],
+  ['await', TokenType.AWAIT],
+  ['try', TokenType.TRY],
+  ['catch', TokenType.CATCH],
+  ['finally', TokenType.FINALLY],
+  ['throw', TokenType.THROW],
+  ['and', TokenType.AND],
+  ['or', TokenType.OR],
+  ['not', TokenType.NOT],
+])
+
+export interface LexerOptions {
+  /** Record errors in diagnostics and keep scanning instead of throwing on the first one */
+  recover?: boolean
+  /** Keep COMMENT tokens in the output instead of dropping them */
+  comments?: boolean
+}
+
 export class Lexer {
   private source: string
-  private position: number = 0
-  private line: number = 1
-  private column: number = 1
-  private readonly keywords: Map<string, TokenType>
-
-  constructor(source: string) {
+  private position = 0
+  private line = 1
+  private column = 1
+  private readonly keywords: ReadonlyMap<string, TokenType>
+  private readonly recover: boolean
+  private readonly comments: boolean
+  readonly diagnostics: Diagnostic[] = []
+
+  constructor(source: string, options: LexerOptions = {}) {
     this.source = source
-    this.keywords = new Map([
-      ['if', TokenType.IF],
-      ['else', TokenType.ELSE],
-      ['while', TokenType.WHILE],
-      ['for', TokenType.FOR],
-      ['function', TokenType.FUNCTION],
-      ['return', TokenType.RETURN],
-      ['var', TokenType.VAR],
-      ['const', TokenType.CONST],
-      ['true', TokenType.TRUE],
-      ['false', TokenType.FALSE],
-      ['null', TokenType.NULL],
-      ['break', TokenType.BREAK],
-      ['continue', TokenType.CONTINUE],
-      ['switch', TokenType.SWITCH],
-      ['case', TokenType.CASE],
-      ['default', TokenType.DEFAULT],
-      ['and', TokenType.AND],
-      ['or', TokenType.OR],
-      ['not', TokenType.NOT]
-    ])
+    this.keywords = KEYWORDS
+    this.recover = options.recover ?? false
+    this.comments = options.comments ?? false
   }
 
   tokenize(): Token[] {
@@ -117,16 +152,15 @@ export class Lexer {
 
     while (this.position < this.source.length) {
       const token = this.getNextToken()
-      if (token.type !== TokenType.COMMENT) {
+      if (token.type !== TokenType.COMMENT || this.comments)
         tokens.push(token)
-      }
     }
 
     tokens.push({
       type: TokenType.EOF,
       value: null,
       line: this.line,
-      column: this.column
+      column: this.column,
     })
 
     return tokens
@@ -140,7 +174,7 @@ export class Lexer {
         type: TokenType.EOF,
         value: null,
         line: this.line,
-        column: this.column
+        column: this.column,
       }
     }
 
@@ -152,7 +186,7 @@ export class Lexer {
         type: TokenType.NEWLINE,
         value: '\n',
         line: this.line,
-        column: this.column
+        column: this.column,
       }
       this.position++
       this.line++
@@ -161,24 +195,22 @@ export class Lexer {
     }
 
     // String
-    if (char === '"' || char === "'") {
+    if (char === '"' || char === '\'')
       return this.readString()
-    }
 
     // Number
-    if (this.isDigit(char)) {
+    if (this.isDigit(char))
       return this.readNumber()
-    }
 
     // Identifier or keyword
-    if (this.isLetter(char) || char === '_') {
+    if (this.isLetter(char) || char === '_')
       return this.readIdentifier()
-    }
 
     // Comments
-    if (char === '/' && this.peek() === '/') {
+    if (char === '/' && this.peek() === '/')
       return this.readComment()
-    }
+    if (char === '/' && this.peek() === '*')
+      return this.readBlockComment()
 
     // Multi-character operators
     if (char === '=' && this.peek() === '=') {
@@ -209,6 +241,13 @@ export class Lexer {
       return token
     }
 
+    if (char === '.' && this.source.startsWith('...', this.position)) {
+      const token = this.createToken(TokenType.ELLIPSIS, '...')
+      this.position += 3
+      this.column += 3
+      return token
+    }
+
     if (char === '-' && this.peek() === '>') {
       const token = this.createToken(TokenType.ARROW, '->')
       this.position += 2
@@ -250,7 +289,8 @@ export class Lexer {
       ',': TokenType.COMMA,
       '.': TokenType.DOT,
       ':': TokenType.COLON,
-      ';': TokenType.SEMICOLON
+      ';': TokenType.SEMICOLON,
+      '|': TokenType.PIPE,
     }
 
     if (char in singleCharTokens) {
@@ -260,11 +300,22 @@ export class Lexer {
       return token
     }
 
-    throw new Error(`Unexpected character '${char}' at line ${this.line}, column ${this.column}`)
+    this.error(`Unexpected character '${char}'`, 'unexpected-character', this.line, this.column, this.line, this.column + 1)
+    this.position++
+    this.column++
+    return this.getNextToken()
+  }
+
+  private error(message: string, code: string, line: number, column: number, endLine: number, endColumn: number): void {
+    const error = new ParseError({ message, severity: 'error', line, column, endLine, endColumn, code })
+    if (!this.recover)
+      throw error
+    this.diagnostics.push(error.diagnostic)
   }
 
   private readString(): Token {
     const quote = this.source[this.position]
+    const start = this.position
     const startLine = this.line
     const startColumn = this.column
     this.position++
@@ -284,16 +335,18 @@ export class Lexer {
             'r': '\r',
             '\\': '\\',
             '"': '"',
-            "'": "'"
+            '\'': '\'',
           }
           value += escapeChars[escaped] || escaped
         }
-      } else {
+      }
+      else {
         value += this.source[this.position]
         if (this.source[this.position] === '\n') {
           this.line++
           this.column = 1
-        } else {
+        }
+        else {
           this.column++
         }
       }
@@ -301,17 +354,26 @@ export class Lexer {
     }
 
     if (this.position >= this.source.length) {
-      throw new Error(`Unterminated string at line ${startLine}, column ${startColumn}`)
+      // Resume scanning at the end of the line the string started on
+      const lineEnd = this.source.indexOf('\n', start)
+      if (lineEnd !== -1) {
+        value = this.source.slice(start + 1, lineEnd)
+        this.position = lineEnd
+        this.line = startLine
+        this.column = startColumn + (lineEnd - start)
+      }
+      this.error('Unterminated string', 'unterminated-string', startLine, startColumn, this.line, this.column)
+    }
+    else {
+      this.position++ // Skip closing quote
+      this.column++
     }
-
-    this.position++ // Skip closing quote
-    this.column++
 
     return {
       type: TokenType.STRING,
       value,
       line: startLine,
-      column: startColumn
+      column: startColumn,
     }
   }
 
@@ -362,7 +424,7 @@ export class Lexer {
       type: TokenType.NUMBER,
       value: parseFloat(value),
       line: startLine,
-      column: startColumn
+      column: startColumn,
     }
   }
 
@@ -384,7 +446,7 @@ export class Lexer {
       type,
       value,
       line: startLine,
-      column: startColumn
+      column: startColumn,
     }
   }
 
@@ -406,7 +468,37 @@ export class Lexer {
       type: TokenType.COMMENT,
       value,
       line: startLine,
-      column: startColumn
+      column: startColumn,
+    }
+  }
+
+  /**
+   * A block comment, which may span lines
+   */
+  private readBlockComment(): Token {
+    const startLine = this.line
+    const startColumn = this.column
+    const end = this.source.indexOf('*/', this.position + 2)
+    const stop = end === -1 ? this.source.length : end + 2
+    const value = this.source.slice(this.position, stop)
+
+    for (; this.position < stop; this.position++) {
+      if (this.source[this.position] === '\n') {
+        this.line++
+        this.column = 1
+      }
+      else {
+        this.column++
+      }
+    }
+    if (end === -1)
+      this.error('Unterminated comment', 'unterminated-comment', startLine, startColumn, this.line, this.column)
+
+    return {
+      type: TokenType.COMMENT,
+      value,
+      line: startLine,
+      column: startColumn,
     }
   }
 
@@ -416,16 +508,17 @@ export class Lexer {
       if (char === ' ' || char === '\t' || char === '\r') {
         this.position++
         this.column++
-      } else {
+      }
+      else {
         break
       }
     }
   }
 
   private peek(): string {
-    if (this.position + 1 < this.source.length) {
+    if (this.position + 1 < this.source.length)
       return this.source[this.position + 1]
-    }
+
     return ''
   }
 
@@ -442,7 +535,7 @@ export class Lexer {
       type,
       value,
       line: this.line,
-      column: this.column
+      column: this.column,
     }
   }
 }
@@ -3,7 +3,10 @@
  * Parses tokens into an Abstract Syntax Tree (AST)
  */
 
-import { Token, TokenType } from './lexer'
+import type { Token } from './lexer'
+import { TokenType } from './lexer'
+import type { Diagnostic } from './diagnostics'
+import { ParseError } from './diagnostics'
 
 export enum NodeType {
   // Statements
@@ -20,6 +23,11 @@ export enum NodeType {
   FunctionDeclaration = 'FunctionDeclaration',
   SwitchStatement = 'SwitchStatement',
   CaseStatement = 'CaseStatement',
+  TryStatement = 'TryStatement',
+  ThrowStatement = 'ThrowStatement',
+  ImportDeclaration = 'ImportDeclaration',
+  ImportSpecifier = 'ImportSpecifier',
+  ExportDeclaration = 'ExportDeclaration',
 
   // Expressions
   BinaryExpression = 'BinaryExpression',
@@ -34,13 +42,34 @@ export enum NodeType {
   ObjectExpression = 'ObjectExpression',
   Property = 'Property',
   ArrowFunctionExpression = 'ArrowFunctionExpression',
-  ConditionalExpression = 'ConditionalExpression'
+  ConditionalExpression = 'ConditionalExpression',
+  AwaitExpression = 'AwaitExpression',
+}
+
+/**
+ * A line or block comment, as kept by the lexer with the comments option
+ */
+export interface SourceComment {
+  /** Comment text including its delimiters */
+  value: string
+  line: number
+  column: number
+  /** Whether an empty line follows the comment, collected with the trivia option */
+  blankLineAfter?: boolean
 }
 
 export interface ASTNode {
   type: NodeType
   line: number
   column: number
+  /** Comments on the lines before a statement, collected with the trivia option */
+  leadingComments?: SourceComment[]
+  /** Comment at the end of a statement's last line, collected with the trivia option */
+  trailingComments?: SourceComment[]
+  /** Comments after the last statement of a block or program, collected with the trivia option */
+  innerComments?: SourceComment[]
+  /** Whether an empty line separates a statement from the one before, collected with the trivia option */
+  blankLineBefore?: boolean
 }
 
 export interface ProgramNode extends ASTNode {
@@ -92,6 +121,21 @@ export interface ContinueStatementNode extends ASTNode {
   type: NodeType.ContinueStatement
 }
 
+export interface TryStatementNode extends ASTNode {
+  type: NodeType.TryStatement
+  block: BlockNode
+  /** Name of the caught error; absent for "catch { }" */
+  param?: IdentifierNode
+  /** At least one of handler and finalizer is present */
+  handler?: BlockNode
+  finalizer?: BlockNode
+}
+
+export interface ThrowStatementNode extends ASTNode {
+  type: NodeType.ThrowStatement
+  argument: ExpressionNode
+}
+
 export interface VariableDeclarationNode extends ASTNode {
   type: NodeType.VariableDeclaration
   kind: 'var' | 'const'
@@ -103,11 +147,24 @@ export interface VariableDeclarator {
   init?: ExpressionNode
 }
 
-export interface FunctionDeclarationNode extends ASTNode {
+/**
+ * Parameter list shared by function declarations and arrow functions
+ */
+export interface FunctionParameters {
+  params: IdentifierNode[]
+  /** Default values by parameter index, null where there is none; absent if no parameter has one */
+  defaults?: Array<ExpressionNode | null>
+  /** Receives the arguments after the named parameters, as an array */
+  rest?: IdentifierNode
+}
+
+export interface FunctionDeclarationNode extends ASTNode, FunctionParameters {
   type: NodeType.FunctionDeclaration
   id: IdentifierNode
-  params: IdentifierNode[]
   body: BlockNode
+  async?: boolean
+  /** Annotated return type, as in "function f(): number" */
+  returnType?: TypeNode
 }
 
 export interface SwitchStatementNode extends ASTNode {
@@ -122,6 +179,25 @@ export interface CaseStatementNode extends ASTNode {
   consequent: StatementNode[]
 }
 
+export interface ImportDeclarationNode extends ASTNode {
+  type: NodeType.ImportDeclaration
+  specifiers: ImportSpecifierNode[]
+  /** Module path as written, e.g. "./util.pl" */
+  source: LiteralNode
+}
+
+export interface ImportSpecifierNode extends ASTNode {
+  type: NodeType.ImportSpecifier
+  imported: IdentifierNode
+  /** Name in the importing module; the imported node itself unless renamed with "as" */
+  local: IdentifierNode
+}
+
+export interface ExportDeclarationNode extends ASTNode {
+  type: NodeType.ExportDeclaration
+  declaration: FunctionDeclarationNode | VariableDeclarationNode
+}
+
 export interface BinaryExpressionNode extends ASTNode {
   type: NodeType.BinaryExpression
   operator: string
@@ -166,6 +242,8 @@ export interface MemberExpressionNode extends ASTNode {
 export interface IdentifierNode extends ASTNode {
   type: NodeType.Identifier
   name: string
+  /** Annotated type of a declared variable or parameter, as in "var xs: number[]" */
+  typeAnnotation?: TypeNode
 }
 
 export interface LiteralNode extends ASTNode {
@@ -190,10 +268,12 @@ export interface PropertyNode extends ASTNode {
   kind: 'init' | 'get' | 'set'
 }
 
-export interface ArrowFunctionExpressionNode extends ASTNode {
+export interface ArrowFunctionExpressionNode extends ASTNode, FunctionParameters {
   type: NodeType.ArrowFunctionExpression
-  params: IdentifierNode[]
   body: BlockNode | ExpressionNode
+  async?: boolean
+  /** Annotated return type, as in "(x: number): number -> x * 2" */
+  returnType?: TypeNode
 }
 
 export interface ConditionalExpressionNode extends ASTNode {
@@ -203,6 +283,60 @@ export interface ConditionalExpressionNode extends ASTNode {
   consequent: ExpressionNode
 }
 
+export interface AwaitExpressionNode extends ASTNode {
+  type: NodeType.AwaitExpression
+  argument: ExpressionNode
+}
+
+/**
+ * A type annotation. Only the type checker reads these; the transpiler and
+ * the interpreter ignore them. Names are checked by the type checker, not here.
+ */
+export type TypeNode =
+  | NamedTypeNode
+  | ArrayTypeNode
+  | UnionTypeNode
+  | FunctionTypeNode
+
+/**
+ * number, string, any, ... or a generic such as map<number>
+ */
+export interface NamedTypeNode {
+  kind: 'named'
+  name: string
+  arguments: TypeNode[]
+  line: number
+  column: number
+}
+
+/**
+ * T[], the same as array<T>
+ */
+export interface ArrayTypeNode {
+  kind: 'array'
+  element: TypeNode
+  line: number
+  column: number
+}
+
+export interface UnionTypeNode {
+  kind: 'union'
+  types: TypeNode[]
+  line: number
+  column: number
+}
+
+/**
+ * (number, string) -> bool
+ */
+export interface FunctionTypeNode {
+  kind: 'function'
+  params: TypeNode[]
+  returns: TypeNode
+  line: number
+  column: number
+}
+
 export type StatementNode =
   | BlockNode
   | ExpressionStatementNode
@@ -215,6 +349,10 @@ export type StatementNode =
   | VariableDeclarationNode
   | FunctionDeclarationNode
   | SwitchStatementNode
+  | TryStatementNode
+  | ThrowStatementNode
+  | ImportDeclarationNode
+  | ExportDeclarationNode
 
 export type ExpressionNode =
   | BinaryExpressionNode
@@ -229,69 +367,349 @@ export type ExpressionNode =
   | ObjectExpressionNode
   | ArrowFunctionExpressionNode
   | ConditionalExpressionNode
+  | AwaitExpressionNode
+
+export interface ParserOptions {
+  /**
+   * Record syntax errors in diagnostics and resynchronize at the next
+   * statement instead of throwing on the first one
+   */
+  recover?: boolean
+  /**
+   * Attach comments and blank lines to statements, for tools that print
+   * the program back as source. Comments need a lexer with comments: true.
+   */
+  trivia?: boolean
+}
+
+// Statements start with these tokens, so recovery can resume parsing there
+const STATEMENT_KEYWORDS: ReadonlySet<TokenType> = new Set([
+  TokenType.IF,
+  TokenType.WHILE,
+  TokenType.FOR,
+  TokenType.FUNCTION,
+  TokenType.SWITCH,
+  TokenType.TRY,
+  TokenType.THROW,
+  TokenType.RETURN,
+  TokenType.BREAK,
+  TokenType.CONTINUE,
+  TokenType.VAR,
+  TokenType.CONST,
+  TokenType.IMPORT,
+  TokenType.EXPORT,
+])
+
+/**
+ * Whether the code awaits outside of any function, so that it must run as an async function
+ */
+export function hasTopLevelAwait(node: any): boolean {
+  if (Array.isArray(node))
+    return node.some(child => hasTopLevelAwait(child))
+  if (!node || typeof node !== 'object')
+    return false
+
+  switch (node.type) {
+    case NodeType.AwaitExpression:
+      return true
+    case NodeType.FunctionDeclaration:
+    case NodeType.ArrowFunctionExpression:
+      return false
+  }
+  return Object.values(node).some(child => typeof child === 'object' && hasTopLevelAwait(child))
+}
+
+/**
+ * A type annotation as written in PL
+ */
+export function typeToSource(node: TypeNode): string {
+  switch (node.kind) {
+    case 'named':
+      return node.arguments.length > 0 ? `${node.name}<${node.arguments.map(typeToSource).join(', ')}>` : node.name
+    case 'array': {
+      const element = typeToSource(node.element)
+      return (node.element.kind === 'union' || node.element.kind === 'function') ? `(${element})[]` : `${element}[]`
+    }
+    case 'union':
+      return node.types.map(type => type.kind === 'function' ? `(${typeToSource(type)})` : typeToSource(type)).join(' | ')
+    case 'function':
+      return `(${node.params.map(typeToSource).join(', ')}) -> ${typeToSource(node.returns)}`
+  }
+}
 
 export class Parser {
   private tokens: Token[]
-  private position: number = 0
-
-  constructor(tokens: Token[]) {
-    this.tokens = tokens
+  private position = 0
+  private readonly recover: boolean
+  private readonly trivia: boolean
+  // Comments not yet attached to a node, in source order
+  private readonly comments: SourceComment[]
+  // Whether "await" may appear here: at the top level and in async functions
+  private awaitAllowed = true
+  readonly diagnostics: Diagnostic[] = []
+
+  constructor(tokens: Token[], options: ParserOptions = {}) {
+    this.tokens = tokens.filter(token => token.type !== TokenType.COMMENT)
+    this.recover = options.recover ?? false
+    this.trivia = options.trivia ?? false
+    this.comments = this.trivia
+      ? tokens
+        .filter(token => token.type === TokenType.COMMENT)
+        .map(token => ({ value: token.value, line: token.line, column: token.column }))
+      : []
   }
 
   parse(): ProgramNode {
     const statements: StatementNode[] = []
 
     while (!this.isAtEnd()) {
-      const stmt = this.statement()
-      if (stmt) {
-        statements.push(stmt)
+      this.statementInto(statements, true)
+
+      if (this.check(TokenType.RBRACE)) {
+        this.report(this.error(`Unexpected token ${this.peek().type}`, this.peek(), 'unexpected-token'))
+        this.advance()
       }
     }
 
-    return {
+    const program: ProgramNode = {
       type: NodeType.Program,
       body: statements,
       line: 1,
-      column: 1
+      column: 1,
     }
+    this.attachInnerComments(program, Infinity)
+    return program
   }
 
-  private statement(): StatementNode | null {
-    // Skip newlines between statements
-    while (this.match(TokenType.NEWLINE)) {
-      // continue
+  /**
+   * Parse one statement into the list; in recovery mode a syntax error
+   * is recorded and parsing resumes at the next statement boundary
+   */
+  private statementInto(statements: StatementNode[], topLevel = false): void {
+    this.skipSeparators()
+    const start = this.position
+    // Taken before the statement is parsed, so that the statements of its blocks do not claim them
+    const before = this.takeComments(comment => comment.line < this.peek().line)
+
+    try {
+      const stmt = this.statement(topLevel)
+      if (stmt) {
+        if (this.trivia)
+          this.attachTrivia(stmt, start, before)
+        statements.push(stmt)
+      }
+      else {
+        this.comments.unshift(...before)
+      }
+    }
+    catch (error) {
+      if (!(error instanceof ParseError))
+        throw error
+      this.comments.unshift(...before)
+      this.report(error)
+      this.synchronize(start)
     }
+  }
 
-    if (this.check(TokenType.IF)) return this.ifStatement()
-    if (this.check(TokenType.WHILE)) return this.whileStatement()
-    if (this.check(TokenType.FOR)) return this.forStatement()
-    if (this.check(TokenType.RETURN)) return this.returnStatement()
-    if (this.check(TokenType.BREAK)) return this.breakStatement()
-    if (this.check(TokenType.CONTINUE)) return this.continueStatement()
-    if (this.check(TokenType.VAR) || this.check(TokenType.CONST)) return this.variableDeclaration()
-    if (this.check(TokenType.FUNCTION)) return this.functionDeclaration()
-    if (this.check(TokenType.SWITCH)) return this.switchStatement()
+  /**
+   * Give a statement the comments before it and on its last line, and note
+   * whether an empty line precedes it. start is the index of its first token,
+   * before the comments on the lines above it.
+   */
+  private attachTrivia(stmt: StatementNode, start: number, before: SourceComment[]): void {
+    const last = this.previous()
+
+    // Comments inside the statement (e.g. in a multi-line object) move above it
+    const leading = [...before, ...this.takeComments(comment => comment.line < last.line)]
+    // A comment at the end of the line belongs to the last statement on it
+    const lastOnLine = this.isAtEnd() || this.check(TokenType.NEWLINE) || this.peek().line > last.line
+    const trailing = lastOnLine ? this.takeComments(comment => comment.line === last.line) : []
+    if (leading.length > 0) {
+      this.markBlankLines(leading, this.tokens[start].line)
+      stmt.leadingComments = leading
+    }
+    if (trailing.length > 0)
+      stmt.trailingComments = trailing
+
+    let previous = start - 1
+    while (previous >= 0 && [TokenType.NEWLINE, TokenType.SEMICOLON].includes(this.tokens[previous].type))
+      previous--
+    const firstLine = leading.length > 0 ? Math.min(leading[0].line, this.tokens[start].line) : this.tokens[start].line
+    if (previous >= 0 && firstLine - this.tokens[previous].line > 1)
+      stmt.blankLineBefore = true
+  }
 
-    const expr = this.expression()
-    return {
-      type: NodeType.ExpressionStatement,
-      expression: expr,
-      line: expr.line,
-      column: expr.column
+  /**
+   * Comments left before the given line once a block or program has no more statements
+   */
+  private attachInnerComments(node: BlockNode | ProgramNode, line: number): void {
+    const inner = this.takeComments(comment => comment.line < line)
+    if (inner.length > 0) {
+      this.markBlankLines(inner, Infinity)
+      node.innerComments = inner
+    }
+  }
+
+  /**
+   * Note the comments an empty line separates from the next comment, or from the
+   * line after the last one
+   */
+  private markBlankLines(comments: SourceComment[], lineAfter: number): void {
+    comments.forEach((comment, index) => {
+      const next = index + 1 < comments.length ? comments[index + 1].line : lineAfter
+      const end = comment.line + comment.value.split('\n').length - 1
+      if (next - end > 1 && next !== Infinity)
+        comment.blankLineAfter = true
+    })
+  }
+
+  private takeComments(predicate: (comment: SourceComment) => boolean): SourceComment[] {
+    let count = 0
+    while (count < this.comments.length && predicate(this.comments[count])) count++
+    return this.comments.splice(0, count)
+  }
+
+  private report(error: ParseError): void {
+    if (!this.recover)
+      throw error
+    this.diagnostics.push(error.diagnostic)
+  }
+
+  /**
+   * Skip to just after a newline or ";", or to the next statement keyword or "}".
+   * Braces opened while skipping are skipped as a whole.
+   */
+  private synchronize(start: number): void {
+    let depth = 0
+    if (this.position === start) {
+      if (this.check(TokenType.LBRACE))
+        depth++
+      this.advance()
+    }
+
+    while (!this.isAtEnd()) {
+      if (depth === 0) {
+        const previous = this.previous()
+        if (previous.type === TokenType.NEWLINE || previous.type === TokenType.SEMICOLON)
+          return
+        if (STATEMENT_KEYWORDS.has(this.peek().type) || this.check(TokenType.RBRACE))
+          return
+      }
+
+      if (this.check(TokenType.LBRACE))
+        depth++
+      if (this.check(TokenType.RBRACE))
+        depth--
+      this.advance()
     }
   }
 
+  private error(message: string, token: Token, code: string): ParseError {
+    return new ParseError({
+      message,
+      severity: 'error',
+      line: token.line,
+      column: token.column,
+      endLine: token.line,
+      endColumn: token.column + this.tokenLength(token),
+      code,
+    })
+  }
+
+  private tokenLength(token: Token): number {
+    if (token.type === TokenType.EOF || token.value === null || token.value === undefined)
+      return 1
+    if (token.type === TokenType.STRING)
+      return String(token.value).length + 2
+    return Math.max(String(token.value).length, 1)
+  }
+
+  private statement(topLevel = false): StatementNode | null {
+    // Skip newlines and empty statements between statements
+    this.skipSeparators()
+
+    if (this.isAtEnd() || this.check(TokenType.RBRACE))
+      return null
+
+    if (this.check(TokenType.IMPORT) || this.check(TokenType.EXPORT)) {
+      if (!topLevel) {
+        const keyword = this.check(TokenType.IMPORT) ? 'import' : 'export'
+        throw this.error(`"${keyword}" is only allowed at the top level`, this.peek(), 'invalid-module-declaration')
+      }
+      if (this.check(TokenType.EXPORT))
+        return this.exportDeclaration()
+    }
+
+    if (this.check(TokenType.IF))
+      return this.ifStatement()
+    if (this.check(TokenType.WHILE))
+      return this.whileStatement()
+    if (this.check(TokenType.FOR))
+      return this.forStatement()
+    if (this.check(TokenType.FUNCTION) || this.checkAsyncFunction())
+      return this.functionDeclaration()
+    if (this.check(TokenType.SWITCH))
+      return this.switchStatement()
+    if (this.check(TokenType.TRY))
+      return this.tryStatement()
+
+    let stmt: StatementNode
+    if (this.check(TokenType.RETURN)) {
+      stmt = this.returnStatement()
+    }
+    else if (this.check(TokenType.THROW)) {
+      stmt = this.throwStatement()
+    }
+    else if (this.check(TokenType.BREAK)) {
+      stmt = this.breakStatement()
+    }
+    else if (this.check(TokenType.CONTINUE)) {
+      stmt = this.continueStatement()
+    }
+    else if (this.check(TokenType.VAR) || this.check(TokenType.CONST)) {
+      stmt = this.variableDeclaration()
+    }
+    else if (this.check(TokenType.IMPORT)) {
+      stmt = this.importDeclaration()
+    }
+    else {
+      const expr = this.expression()
+      stmt = {
+        type: NodeType.ExpressionStatement,
+        expression: expr,
+        line: expr.line,
+        column: expr.column,
+      }
+    }
+
+    this.endOfStatement()
+    return stmt
+  }
+
+  /**
+   * Body of if/while/for: a braced block or a single statement
+   */
+  private body(): StatementNode {
+    if (this.checkAcrossNewlines(TokenType.LBRACE))
+      return this.block()
+
+    const stmt = this.statement()
+    if (!stmt)
+      throw this.error('Expect statement', this.peek(), 'expected-statement')
+
+    return stmt
+  }
+
   private ifStatement(): IfStatementNode {
     this.consume(TokenType.IF, 'Expect "if"')
     this.consume(TokenType.LPAREN, 'Expect "(" after "if"')
     const test = this.expression()
     this.consume(TokenType.RPAREN, 'Expect ")" after condition')
-    const consequent = this.statement()
+    const consequent = this.body()
     let alternate: StatementNode | undefined
 
-    if (this.match(TokenType.ELSE)) {
-      alternate = this.statement()
-    }
+    if (this.matchAcrossNewlines(TokenType.ELSE))
+      alternate = this.body()
 
     return {
       type: NodeType.IfStatement,
@@ -299,7 +717,7 @@ export class Parser {
       consequent,
       alternate,
       line: test.line,
-      column: test.column
+      column: test.column,
     }
   }
 
@@ -308,14 +726,14 @@ export class Parser {
     this.consume(TokenType.LPAREN, 'Expect "(" after "while"')
     const test = this.expression()
     this.consume(TokenType.RPAREN, 'Expect ")" after condition')
-    const body = this.statement()
+    const body = this.body()
 
     return {
       type: NodeType.WhileStatement,
       test,
       body,
       line: test.line,
-      column: test.column
+      column: test.column,
     }
   }
 
@@ -326,26 +744,29 @@ export class Parser {
     let init: VariableDeclarationNode | ExpressionNode | undefined
     if (this.match(TokenType.SEMICOLON)) {
       init = undefined
-    } else if (this.check(TokenType.VAR) || this.check(TokenType.CONST)) {
+    }
+    else if (this.check(TokenType.VAR) || this.check(TokenType.CONST)) {
       init = this.variableDeclaration()
-    } else {
+      this.consume(TokenType.SEMICOLON, 'Expect ";" after for loop initializer')
+    }
+    else {
       init = this.expression()
       this.consume(TokenType.SEMICOLON, 'Expect ";" after for loop initializer')
     }
 
     let test: ExpressionNode | undefined
-    if (!this.check(TokenType.SEMICOLON)) {
+    if (!this.check(TokenType.SEMICOLON))
       test = this.expression()
-    }
+
     this.consume(TokenType.SEMICOLON, 'Expect ";" after for loop condition')
 
     let update: ExpressionNode | undefined
-    if (!this.check(TokenType.RPAREN)) {
+    if (!this.check(TokenType.RPAREN))
       update = this.expression()
-    }
+
     this.consume(TokenType.RPAREN, 'Expect ")" after for clauses')
 
-    const body = this.statement()
+    const body = this.body()
 
     return {
       type: NodeType.ForStatement,
@@ -354,7 +775,7 @@ export class Parser {
       update,
       body,
       line: body.line,
-      column: body.column
+      column: body.column,
     }
   }
 
@@ -363,18 +784,58 @@ export class Parser {
     this.consume(TokenType.RETURN, 'Expect "return"')
     let argument: ExpressionNode | undefined
 
-    if (!this.check(TokenType.NEWLINE) && !this.check(TokenType.SEMICOLON)) {
+    if (!this.isStatementEnd())
       argument = this.expression()
-    }
 
     return {
       type: NodeType.ReturnStatement,
       argument,
       line: token.line,
-      column: token.column
+      column: token.column,
+    }
+  }
+
+  private throwStatement(): ThrowStatementNode {
+    const token = this.peek()
+    this.consume(TokenType.THROW, 'Expect "throw"')
+
+    if (this.isStatementEnd())
+      throw this.error('Expect expression after "throw"', this.peek(), 'expected-expression')
+
+    return {
+      type: NodeType.ThrowStatement,
+      argument: this.expression(),
+      line: token.line,
+      column: token.column,
     }
   }
 
+  private tryStatement(): TryStatementNode {
+    const token = this.peek()
+    this.consume(TokenType.TRY, 'Expect "try"')
+    this.checkAcrossNewlines(TokenType.LBRACE)
+    const block = this.block()
+
+    const node: TryStatementNode = { type: NodeType.TryStatement, block, line: token.line, column: token.column }
+
+    if (this.matchAcrossNewlines(TokenType.CATCH)) {
+      if (this.match(TokenType.LPAREN)) {
+        node.param = this.identifier()
+        this.consume(TokenType.RPAREN, 'Expect ")" after catch parameter')
+      }
+      this.checkAcrossNewlines(TokenType.LBRACE)
+      node.handler = this.block()
+    }
+    if (this.matchAcrossNewlines(TokenType.FINALLY)) {
+      this.checkAcrossNewlines(TokenType.LBRACE)
+      node.finalizer = this.block()
+    }
+    if (!node.handler && !node.finalizer)
+      throw this.error('Expect "catch" or "finally" after try block', this.peek(), 'incomplete-try')
+
+    return node
+  }
+
   private breakStatement(): BreakStatementNode {
     const token = this.peek()
     this.consume(TokenType.BREAK, 'Expect "break"')
@@ -389,16 +850,15 @@ export class Parser {
 
   private variableDeclaration(): VariableDeclarationNode {
     const token = this.peek()
-    const kind = this.match(TokenType.VAR) ? 'var' : 'const'
+    const kind = this.advance().type === TokenType.VAR ? 'var' : 'const'
     const declarations: VariableDeclarator[] = []
 
     do {
-      const id = this.identifier()
+      const id = this.annotatedIdentifier()
       let init: ExpressionNode | undefined
 
-      if (this.match(TokenType.ASSIGN)) {
+      if (this.match(TokenType.ASSIGN))
         init = this.expression()
-      }
 
       declarations.push({ id, init })
     } while (this.match(TokenType.COMMA))
@@ -408,34 +868,151 @@ export class Parser {
       kind,
       declarations,
       line: token.line,
-      column: token.column
+      column: token.column,
     }
   }
 
   private functionDeclaration(): FunctionDeclarationNode {
     const token = this.peek()
+    const isAsync = this.match(TokenType.ASYNC)
     this.consume(TokenType.FUNCTION, 'Expect "function"')
     const id = this.identifier()
 
     this.consume(TokenType.LPAREN, 'Expect "(" after function name')
+    const parameters = this.parameters()
+    const returnType = this.match(TokenType.COLON) ? this.typeAnnotation() : undefined
+    this.checkAcrossNewlines(TokenType.LBRACE)
+    const body = this.withAwait(isAsync, () => this.block())
+
+    const node: FunctionDeclarationNode = {
+      type: NodeType.FunctionDeclaration,
+      id,
+      ...parameters,
+      body,
+      line: token.line,
+      column: token.column,
+    }
+    if (isAsync)
+      node.async = true
+    if (returnType)
+      node.returnType = returnType
+    return node
+  }
+
+  /**
+   * Parameters after the "(", up to and including the ")": names, each with an
+   * optional type and default value, and a "...rest" parameter that must come last
+   */
+  private parameters(): FunctionParameters {
     const params: IdentifierNode[] = []
+    const defaults: Array<ExpressionNode | null> = []
+    let rest: IdentifierNode | undefined
+
+    this.skipNewlines()
+    while (!this.check(TokenType.RPAREN) && !this.isAtEnd()) {
+      if (this.match(TokenType.ELLIPSIS)) {
+        rest = this.annotatedIdentifier()
+        this.skipNewlines()
+        if (!this.check(TokenType.RPAREN))
+          throw this.error('Rest parameter must be last', this.peek(), 'invalid-rest-parameter')
+
+        break
+      }
+
+      params.push(this.annotatedIdentifier())
+      // Default values are evaluated when the function is called, where "await" is not allowed
+      defaults.push(this.match(TokenType.ASSIGN) ? this.withAwait(false, () => this.conditional()) : null)
+      this.skipNewlines()
+      if (!this.match(TokenType.COMMA))
+        break
+      this.skipNewlines()
+    }
+
+    this.consume(TokenType.RPAREN, 'Expect ")" after parameters')
+
+    const parameters: FunctionParameters = { params }
+    if (defaults.some(value => value !== null))
+      parameters.defaults = defaults
+    if (rest)
+      parameters.rest = rest
+    return parameters
+  }
+
+  /**
+   * Parse part of a function, where "await" is allowed only if the function is async
+   */
+  private withAwait<T>(isAsync: boolean, parse: () => T): T {
+    const outer = this.awaitAllowed
+    this.awaitAllowed = isAsync
+    try {
+      return parse()
+    }
+    finally {
+      this.awaitAllowed = outer
+    }
+  }
+
+  private importDeclaration(): ImportDeclarationNode {
+    const token = this.peek()
+    this.consume(TokenType.IMPORT, 'Expect "import"')
+    this.consume(TokenType.LBRACE, 'Expect "{" after "import"')
+    const specifiers: ImportSpecifierNode[] = []
+    this.skipNewlines()
 
-    if (!this.check(TokenType.RPAREN)) {
+    if (!this.check(TokenType.RBRACE)) {
       do {
-        params.push(this.identifier())
+        this.skipNewlines()
+        if (this.check(TokenType.RBRACE))
+          break
+        const imported = this.identifier()
+        const local = this.matchWord('as') ? this.identifier() : imported
+        specifiers.push({
+          type: NodeType.ImportSpecifier,
+          imported,
+          local,
+          line: imported.line,
+          column: imported.column,
+        })
+        this.skipNewlines()
       } while (this.match(TokenType.COMMA))
     }
 
-    this.consume(TokenType.RPAREN, 'Expect ")" after parameters')
-    const body = this.block()
+    this.consume(TokenType.RBRACE, 'Expect "}" after imported names')
+    if (!this.matchWord('from'))
+      throw this.error('Expect "from" after imported names', this.peek(), 'expected-token')
+
+    const source = this.consume(TokenType.STRING, 'Expect module path after "from"')
 
     return {
-      type: NodeType.FunctionDeclaration,
-      id,
-      params,
-      body,
+      type: NodeType.ImportDeclaration,
+      specifiers,
+      source: { type: NodeType.Literal, value: source.value, line: source.line, column: source.column },
+      line: token.line,
+      column: token.column,
+    }
+  }
+
+  private exportDeclaration(): ExportDeclarationNode {
+    const token = this.peek()
+    this.consume(TokenType.EXPORT, 'Expect "export"')
+    let declaration: FunctionDeclarationNode | VariableDeclarationNode
+
+    if (this.check(TokenType.FUNCTION) || this.checkAsyncFunction()) {
+      declaration = this.functionDeclaration()
+    }
+    else if (this.check(TokenType.VAR) || this.check(TokenType.CONST)) {
+      declaration = this.variableDeclaration()
+      this.endOfStatement()
+    }
+    else {
+      throw this.error('Expect function, var or const after "export"', this.peek(), 'expected-declaration')
+    }
+
+    return {
+      type: NodeType.ExportDeclaration,
+      declaration,
       line: token.line,
-      column: token.column
+      column: token.column,
     }
   }
 
@@ -445,9 +1022,11 @@ export class Parser {
     this.consume(TokenType.LPAREN, 'Expect "(" after "switch"')
     const discriminant = this.expression()
     this.consume(TokenType.RPAREN, 'Expect ")" after switch value')
+    this.checkAcrossNewlines(TokenType.LBRACE)
     this.consume(TokenType.LBRACE, 'Expect "{" after switch value')
 
     const cases: CaseStatementNode[] = []
+    this.skipSeparators()
 
     while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
       if (this.match(TokenType.CASE)) {
@@ -455,35 +1034,37 @@ export class Parser {
         this.consume(TokenType.COLON, 'Expect ":" after case value')
         const consequent: StatementNode[] = []
 
-        while (!this.check(TokenType.CASE) && !this.check(TokenType.DEFAULT) && !this.check(TokenType.RBRACE)) {
-          const stmt = this.statement()
-          if (stmt) consequent.push(stmt)
-        }
+        while (!this.isCaseEnd())
+          this.statementInto(consequent)
 
         cases.push({
           type: NodeType.CaseStatement,
           test,
           consequent,
           line: test.line,
-          column: test.column
+          column: test.column,
         })
-      } else if (this.match(TokenType.DEFAULT)) {
+      }
+      else if (this.match(TokenType.DEFAULT)) {
         this.consume(TokenType.COLON, 'Expect ":" after default')
         const consequent: StatementNode[] = []
 
-        while (!this.check(TokenType.CASE) && !this.check(TokenType.RBRACE)) {
-          const stmt = this.statement()
-          if (stmt) consequent.push(stmt)
-        }
+        while (!this.isCaseEnd())
+          this.statementInto(consequent)
 
         cases.push({
           type: NodeType.CaseStatement,
           test: undefined,
           consequent,
           line: token.line,
-          column: token.column
+          column: token.column,
         })
       }
+      else {
+        throw this.error('Expect "case" or "default"', this.peek(), 'expected-case')
+      }
+
+      this.skipSeparators()
     }
 
     this.consume(TokenType.RBRACE, 'Expect "}" after switch cases')
@@ -493,27 +1074,36 @@ export class Parser {
       discriminant,
       cases,
       line: token.line,
-      column: token.column
+      column: token.column,
     }
   }
 
+  private isCaseEnd(): boolean {
+    this.skipSeparators()
+    return this.isAtEnd()
+      || this.check(TokenType.CASE)
+      || this.check(TokenType.DEFAULT)
+      || this.check(TokenType.RBRACE)
+  }
+
   private block(): BlockNode {
     const token = this.peek()
     this.consume(TokenType.LBRACE, 'Expect "{"')
     const body: StatementNode[] = []
 
-    while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
-      const stmt = this.statement()
-      if (stmt) body.push(stmt)
-    }
+    while (!this.check(TokenType.RBRACE) && !this.isAtEnd())
+      this.statementInto(body)
 
-    this.consume(TokenType.RBRACE, 'Expect "}" after block')
-    return {
+    const node: BlockNode = {
       type: NodeType.Block,
       body,
       line: token.line,
-      column: token.column
+      column: token.column,
     }
+    this.attachInnerComments(node, this.peek().line)
+
+    this.consume(TokenType.RBRACE, 'Expect "}" after block')
+    return node
   }
 
   private expression(): ExpressionNode {
@@ -533,7 +1123,7 @@ export class Parser {
         left: expr,
         right: value,
         line: expr.line,
-        column: expr.column
+        column: expr.column,
       }
     }
 
@@ -554,7 +1144,7 @@ export class Parser {
         consequent,
         alternate,
         line: expr.line,
-        column: expr.column
+        column: expr.column,
       }
     }
 
@@ -574,7 +1164,7 @@ export class Parser {
         left: expr,
         right,
         line: expr.line,
-        column: expr.column
+        column: expr.column,
       }
     }
 
@@ -594,7 +1184,7 @@ export class Parser {
         left: expr,
         right,
         line: expr.line,
-        column: expr.column
+        column: expr.column,
       }
     }
 
@@ -614,7 +1204,7 @@ export class Parser {
         left: expr,
         right,
         line: expr.line,
-        column: expr.column
+        column: expr.column,
       }
     }
 
@@ -634,7 +1224,7 @@ export class Parser {
         left: expr,
         right,
         line: expr.line,
-        column: expr.column
+        column: expr.column,
       }
     }
 
@@ -654,7 +1244,7 @@ export class Parser {
         left: expr,
         right,
         line: expr.line,
-        column: expr.column
+        column: expr.column,
       }
     }
 
@@ -674,7 +1264,7 @@ export class Parser {
         left: expr,
         right,
         line: expr.line,
-        column: expr.column
+        column: expr.column,
       }
     }
 
@@ -682,6 +1272,19 @@ export class Parser {
   }
 
   private unary(): ExpressionNode {
+    if (this.check(TokenType.AWAIT)) {
+      const token = this.advance()
+      if (!this.awaitAllowed)
+        throw this.error('"await" is only allowed in async functions and at the top level', token, 'invalid-await')
+
+      return {
+        type: NodeType.AwaitExpression,
+        argument: this.unary(),
+        line: token.line,
+        column: token.column,
+      }
+    }
+
     if (this.match(TokenType.NOT, TokenType.MINUS, TokenType.PLUS)) {
       const operator = this.previous().value
       const right = this.unary()
@@ -692,7 +1295,7 @@ export class Parser {
         argument: right,
         prefix: true,
         line: right.line,
-        column: right.column
+        column: right.column,
       }
     }
 
@@ -712,7 +1315,7 @@ export class Parser {
         left: expr,
         right,
         line: expr.line,
-        column: expr.column
+        column: expr.column,
       }
     }
 
@@ -725,10 +1328,13 @@ export class Parser {
     while (true) {
       if (this.match(TokenType.LPAREN)) {
         const args: ExpressionNode[] = []
+        this.skipNewlines()
 
         if (!this.check(TokenType.RPAREN)) {
           do {
+            this.skipNewlines()
             args.push(this.expression())
+            this.skipNewlines()
           } while (this.match(TokenType.COMMA))
         }
 
@@ -739,9 +1345,10 @@ export class Parser {
           callee: expr,
           arguments: args,
           line: expr.line,
-          column: expr.column
+          column: expr.column,
         }
-      } else if (this.match(TokenType.LBRACKET)) {
+      }
+      else if (this.match(TokenType.LBRACKET)) {
         const property = this.expression()
         this.consume(TokenType.RBRACKET, 'Expect "]" after subscript')
 
@@ -751,9 +1358,10 @@ export class Parser {
           property,
           computed: true,
           line: expr.line,
-          column: expr.column
+          column: expr.column,
         }
-      } else if (this.match(TokenType.DOT)) {
+      }
+      else if (this.match(TokenType.DOT)) {
         const property = this.primary()
 
         expr = {
@@ -762,9 +1370,10 @@ export class Parser {
           property,
           computed: false,
           line: expr.line,
-          column: expr.column
+          column: expr.column,
         }
-      } else {
+      }
+      else {
         break
       }
     }
@@ -773,13 +1382,31 @@ export class Parser {
   }
 
   private primary(): ExpressionNode {
-    if (this.match(TokenType.NUMBER, TokenType.STRING, TokenType.BOOLEAN, TokenType.NULL)) {
+    if (this.check(TokenType.ASYNC) || this.isArrowFunction())
+      return this.arrowFunction()
+
+    if (this.match(TokenType.NUMBER, TokenType.STRING)) {
       const token = this.previous()
       return {
         type: NodeType.Literal,
         value: token.value,
         line: token.line,
-        column: token.column
+        column: token.column,
+      }
+    }
+
+    if (this.match(TokenType.TRUE, TokenType.FALSE, TokenType.NULL)) {
+      const token = this.previous()
+      const values: { [key: string]: boolean | null } = {
+        [TokenType.TRUE]: true,
+        [TokenType.FALSE]: false,
+        [TokenType.NULL]: null,
+      }
+      return {
+        type: NodeType.Literal,
+        value: values[token.type],
+        line: token.line,
+        column: token.column,
       }
     }
 
@@ -789,22 +1416,29 @@ export class Parser {
         type: NodeType.Identifier,
         name: token.value,
         line: token.line,
-        column: token.column
+        column: token.column,
       }
     }
 
     if (this.match(TokenType.LPAREN)) {
+      this.skipNewlines()
       const expr = this.expression()
+      this.skipNewlines()
       this.consume(TokenType.RPAREN, 'Expect ")" after expression')
       return expr
     }
 
     if (this.match(TokenType.LBRACKET)) {
       const elements: ExpressionNode[] = []
+      this.skipNewlines()
 
       if (!this.check(TokenType.RBRACKET)) {
         do {
+          this.skipNewlines()
+          if (this.check(TokenType.RBRACKET))
+            break
           elements.push(this.expression())
+          this.skipNewlines()
         } while (this.match(TokenType.COMMA))
       }
 
@@ -814,18 +1448,24 @@ export class Parser {
         type: NodeType.ArrayExpression,
         elements,
         line: this.previous().line,
-        column: this.previous().column
+        column: this.previous().column,
       }
     }
 
     if (this.match(TokenType.LBRACE)) {
       const properties: PropertyNode[] = []
+      this.skipNewlines()
 
       if (!this.check(TokenType.RBRACE)) {
         do {
+          this.skipNewlines()
+          if (this.check(TokenType.RBRACE))
+            break
           const key = this.primary()
           this.consume(TokenType.COLON, 'Expect ":" after property key')
+          this.skipNewlines()
           const value = this.expression()
+          this.skipNewlines()
 
           properties.push({
             type: NodeType.Property,
@@ -833,7 +1473,7 @@ export class Parser {
             value,
             kind: 'init',
             line: key.line,
-            column: key.column
+            column: key.column,
           })
         } while (this.match(TokenType.COMMA))
       }
@@ -844,32 +1484,171 @@ export class Parser {
         type: NodeType.ObjectExpression,
         properties,
         line: this.previous().line,
-        column: this.previous().column
+        column: this.previous().column,
       }
     }
 
-    if (this.match(TokenType.ARROW)) {
-      const params: IdentifierNode[] = [this.identifier()]
-
-      this.consume(TokenType.ARROW, 'Expect "->"')
-      let body: BlockNode | ExpressionNode
+    throw this.error(`Unexpected token ${this.peek().type}`, this.peek(), 'unexpected-token')
+  }
 
-      if (this.check(TokenType.LBRACE)) {
-        body = this.block()
-      } else {
-        body = this.expression()
+  /**
+   * Whether an arrow function starts here: "x ->" or a parenthesized
+   * parameter list followed by "->"
+   */
+  private isArrowFunction(): boolean {
+    if (this.check(TokenType.IDENTIFIER))
+      return this.tokens[this.position + 1]?.type === TokenType.ARROW
+
+    if (!this.check(TokenType.LPAREN))
+      return false
+
+    let depth = 0
+    for (let i = this.position; i < this.tokens.length; i++) {
+      const type = this.tokens[i].type
+      if (type === TokenType.LPAREN)
+        depth++
+      if (type === TokenType.RPAREN && --depth === 0) {
+        const next = this.tokens[i + 1]?.type
+        return next === TokenType.ARROW || (next === TokenType.COLON && this.isReturnTypeBeforeArrow(i + 2))
       }
+      if (type === TokenType.EOF)
+        return false
+    }
+    return false
+  }
 
-      return {
-        type: NodeType.ArrowFunctionExpression,
-        params,
-        body,
-        line: this.previous().line,
-        column: this.previous().column
+  /**
+   * Whether a type starts at the position and is followed by "->", as in "(x): number -> x"
+   */
+  private isReturnTypeBeforeArrow(position: number): boolean {
+    const start = this.position
+    this.position = position
+    try {
+      this.typeAnnotation()
+      return this.check(TokenType.ARROW)
+    }
+    catch {
+      return false
+    }
+    finally {
+      this.position = start
+    }
+  }
+
+  /**
+   * x -> body, (a, b = 1, ...rest) -> body or async (x) -> body, where the
+   * body is a block or an expression; parenthesized parameters may be
+   * followed by a return type, as in (x: number): number -> x * 2
+   */
+  private arrowFunction(): ArrowFunctionExpressionNode {
+    const start = this.peek()
+    const isAsync = this.match(TokenType.ASYNC)
+    if (isAsync && !this.isArrowFunction())
+      throw this.error('Expect function after "async"', this.peek(), 'expected-token')
+
+    const parenthesized = this.match(TokenType.LPAREN)
+    const parameters: FunctionParameters = parenthesized
+      ? this.parameters()
+      : { params: [this.identifier()] }
+    const returnType = (parenthesized && this.match(TokenType.COLON)) ? this.typeAnnotation() : undefined
+
+    this.consume(TokenType.ARROW, 'Expect "->" after parameters')
+    this.skipNewlines()
+    const body = this.withAwait<BlockNode | ExpressionNode>(
+      isAsync,
+      () => this.check(TokenType.LBRACE) ? this.block() : this.expression(),
+    )
+
+    const node: ArrowFunctionExpressionNode = {
+      type: NodeType.ArrowFunctionExpression,
+      ...parameters,
+      body,
+      line: start.line,
+      column: start.column,
+    }
+    if (isAsync)
+      node.async = true
+    if (returnType)
+      node.returnType = returnType
+    return node
+  }
+
+  /**
+   * A type after ":": one or more types separated by "|"
+   */
+  private typeAnnotation(): TypeNode {
+    const start = this.peek()
+    const types = [this.arrayType()]
+    while (this.match(TokenType.PIPE))
+      types.push(this.arrayType())
+
+    return types.length === 1 ? types[0] : { kind: 'union', types, line: start.line, column: start.column }
+  }
+
+  private arrayType(): TypeNode {
+    let type = this.primaryType()
+    while (this.check(TokenType.LBRACKET) && this.tokens[this.position + 1]?.type === TokenType.RBRACKET) {
+      this.advance()
+      this.advance()
+      type = { kind: 'array', element: type, line: type.line, column: type.column }
+    }
+    return type
+  }
+
+  /**
+   * A type name with optional type arguments, a function type "(A, B) -> C",
+   * or a type in parentheses
+   */
+  private primaryType(): TypeNode {
+    const token = this.peek()
+
+    if (this.match(TokenType.LPAREN)) {
+      const params: TypeNode[] = []
+      if (!this.check(TokenType.RPAREN)) {
+        do
+          params.push(this.typeAnnotation())
+        while (this.match(TokenType.COMMA))
       }
+      this.consume(TokenType.RPAREN, 'Expect ")" after types')
+
+      if (this.match(TokenType.ARROW))
+        return { kind: 'function', params, returns: this.typeAnnotation(), line: token.line, column: token.column }
+
+      if (params.length !== 1)
+        throw this.error('Expect "->" after parameter types', this.peek(), 'expected-token')
+
+      return params[0]
     }
 
-    throw new Error(`Unexpected token ${this.peek().type} at line ${this.peek().line}`)
+    // null and function are keywords, but also name types
+    let name: string
+    if (this.match(TokenType.NULL))
+      name = 'null'
+    else if (this.match(TokenType.FUNCTION))
+      name = 'function'
+    else
+      name = this.consume(TokenType.IDENTIFIER, 'Expect type').value
+
+    const args: TypeNode[] = []
+    if (this.match(TokenType.LESS_THAN)) {
+      do
+        args.push(this.typeAnnotation())
+      while (this.match(TokenType.COMMA))
+      this.closeTypeArguments()
+    }
+    return { kind: 'named', name, arguments: args, line: token.line, column: token.column }
+  }
+
+  /**
+   * The ">" after type arguments, which the lexer reads as ">=" in "map<number>= {}"
+   */
+  private closeTypeArguments(): void {
+    const token = this.peek()
+    if (token.type === TokenType.GREATER_EQUAL) {
+      this.tokens[this.position] = { type: TokenType.ASSIGN, value: '=', line: token.line, column: token.column + 1 }
+      return
+    }
+    this.consume(TokenType.GREATER_THAN, 'Expect ">" after type arguments')
   }
 
   private identifier(): IdentifierNode {
@@ -879,10 +1658,85 @@ export class Parser {
       type: NodeType.Identifier,
       name: token.value,
       line: token.line,
-      column: token.column
+      column: token.column,
     }
   }
 
+  /**
+   * A declared name with an optional ": type"
+   */
+  private annotatedIdentifier(): IdentifierNode {
+    const node = this.identifier()
+    if (this.match(TokenType.COLON))
+      node.typeAnnotation = this.typeAnnotation()
+
+    return node
+  }
+
+  /**
+   * Match an identifier that acts as a keyword in one position only, e.g. "from" in an import
+   */
+  private matchWord(word: string): boolean {
+    if (!this.check(TokenType.IDENTIFIER) || this.peek().value !== word)
+      return false
+    this.advance()
+    return true
+  }
+
+  private skipNewlines(): void {
+    while (this.match(TokenType.NEWLINE)) {
+      // continue
+    }
+  }
+
+  private skipSeparators(): void {
+    while (this.match(TokenType.NEWLINE, TokenType.SEMICOLON)) {
+      // continue
+    }
+  }
+
+  private isStatementEnd(): boolean {
+    return this.isAtEnd()
+      || this.check(TokenType.NEWLINE)
+      || this.check(TokenType.SEMICOLON)
+      || this.check(TokenType.RBRACE)
+  }
+
+  private endOfStatement(): void {
+    if (this.match(TokenType.SEMICOLON))
+      return
+    if (this.isStatementEnd())
+      return
+
+    throw this.error('Expect newline or ";" after statement', this.peek(), 'expected-statement-end')
+  }
+
+  /**
+   * Match a token that may follow on the next line, e.g. "else" after "}"
+   */
+  private matchAcrossNewlines(type: TokenType): boolean {
+    if (!this.checkAcrossNewlines(type))
+      return false
+    this.advance()
+    return true
+  }
+
+  /**
+   * Skip newlines only if the given token follows them, e.g. a "{" on its own line
+   */
+  private checkAcrossNewlines(type: TokenType): boolean {
+    const start = this.position
+    this.skipNewlines()
+    if (this.check(type))
+      return true
+    this.position = start
+    return false
+  }
+
+  private checkAsyncFunction(): boolean {
+    return this.check(TokenType.ASYNC) && this.tokens[this.position + 1]?.type === TokenType.FUNCTION
+  }
+
   private match(...types: TokenType[]): boolean {
     for (const type of types) {
       if (this.check(type)) {
@@ -894,12 +1748,14 @@ export class Parser {
   }
 
   private check(type: TokenType): boolean {
-    if (this.isAtEnd()) return false
+    if (this.isAtEnd())
+      return false
     return this.peek().type === type
   }
 
   private advance(): Token {
-    if (!this.isAtEnd()) this.position++
+    if (!this.isAtEnd())
+      this.position++
     return this.previous()
   }
 
@@ -916,8 +1772,9 @@ export class Parser {
   }
 
   private consume(type: TokenType, message: string): Token {
-    if (this.check(type)) return this.advance()
+    if (this.check(type))
+      return this.advance()
 
-    throw new Error(`${message} at line ${this.peek().line}, column ${this.peek().column}`)
+    throw this.error(message, this.peek(), 'expected-token')
   }
 }
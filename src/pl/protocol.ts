@@ -0,0 +1,83 @@
+/**
+ * PL Protocol
+ * Requests and responses of the PL API and its execution stream, shared by
+ * the PLAPI client and the service routes. Free of DOM and Node.js types.
+ */
+
+import type { Diagnostic } from './parser/diagnostics'
+import type { FormatOptions } from './formatter/formatter'
+
+export interface PLExecutionRequest {
+  code: string
+  context?: Record<string, any>
+  timeout?: number
+  async?: boolean
+  backend?: 'transpiler' | 'interpreter'
+}
+
+export interface PLExecutionResponse {
+  success: boolean
+  output: any
+  errors: string[]
+  error?: string
+  executionTime: number
+}
+
+export interface PLCompileRequest {
+  code: string
+  options?: {
+    sourceMap?: boolean
+    minify?: boolean
+    runtime?: boolean
+  }
+}
+
+export interface PLCompileResponse {
+  code: string
+  errors: string[]
+  warnings: string[]
+  diagnostics: Diagnostic[]
+  sourceMap?: any
+}
+
+export interface PLValidationRequest {
+  code: string
+  /** Names the host will define, so they are not reported as undeclared */
+  globals?: string[]
+}
+
+export interface PLValidationResponse {
+  valid: boolean
+  errors: string[]
+  warnings: string[]
+  diagnostics: Diagnostic[]
+  ast?: any
+}
+
+export interface PLFormatRequest {
+  code: string
+  options?: FormatOptions
+}
+
+export interface PLFormatResponse {
+  /** Formatted code, or the code unchanged when it has syntax errors */
+  formatted: string
+  errors: string[]
+}
+
+/**
+ * Messages a client sends on the execution stream
+ */
+export type PLStreamRequest =
+  | { type: 'execute'; id?: string; code: string; timeout?: number; context?: Record<string, any> }
+  | { type: 'cancel' }
+  | { type: 'close' }
+
+/**
+ * Messages the execution stream sends back, tagged with the id of the execute request
+ */
+export type PLStreamMessage =
+  | { type: 'stdout'; id?: string; data: string }
+  | { type: 'result'; id?: string; data: any }
+  | { type: 'error'; id?: string; data: string }
+  | { type: 'done'; id?: string; success: boolean; executionTime: number; truncated: boolean }
@@ -0,0 +1,331 @@
+/**
+ * PL REPL
+ * Read-eval-print loop over one interpreter, so bindings persist from one input to the next
+ */
+
+import { KEYWORDS, Lexer } from '../parser/lexer'
+import type { ProgramNode } from '../parser/parser'
+import { NodeType, Parser } from '../parser/parser'
+import type { Diagnostic } from '../parser/diagnostics'
+import { ParseError } from '../parser/diagnostics'
+import { Interpreter } from '../interpreter/interpreter'
+import type { Environment } from '../runtime/runtime'
+import { BUILTIN_DOCS, PLRuntime, RESTRICTED_PROPERTIES } from '../runtime/runtime'
+import type { ModuleLoader } from '../modules/loader'
+
+export interface REPLOptions {
+  /** Extra host values visible to every input */
+  globals?: Record<string, any>
+  /** Reads the files of :load; without one, :load is unavailable */
+  loader?: ModuleLoader
+  /** Maximum number of evaluated statements and expressions per input */
+  maxInstructions?: number
+  /** Wall-clock limit per input, in milliseconds */
+  timeout?: number
+}
+
+export interface REPLResult {
+  /** Value of the last expression statement, or null after an error */
+  output: any
+  /** The value as shown at the prompt, when the input ends with an expression that has one */
+  echo?: string
+  /** Text written by print and println */
+  printed: string
+  errors: string[]
+}
+
+export const REPL_COMMANDS: ReadonlyMap<string, string> = new Map([
+  [':help', 'Show the commands'],
+  [':env', 'List the bindings defined so far'],
+  [':load', 'Run a file in the session, e.g. :load lib/math.pl'],
+  [':reset', 'Drop all bindings and start over'],
+])
+
+export const PROMPT = '> '
+export const CONTINUATION_PROMPT = '... '
+
+export class PLREPL {
+  private readonly options: REPLOptions
+  private readonly interpreter: Interpreter
+  private readonly runtime = new PLRuntime()
+  private readonly history: string[] = []
+  // Lines of an input that is not complete yet
+  private pending: string[] = []
+  private printed = ''
+
+  constructor(options: REPLOptions = {}) {
+    this.options = options
+    this.interpreter = new Interpreter({
+      globals: options.globals,
+      output: (text) => { this.printed += text },
+      maxInstructions: options.maxInstructions,
+      timeout: options.timeout,
+    })
+  }
+
+  /**
+   * Prompt for the next line: a continuation prompt while an input is incomplete
+   */
+  get prompt(): string {
+    return this.pending.length > 0 ? CONTINUATION_PROMPT : PROMPT
+  }
+
+  /**
+   * Evaluate one input; commands other than :load work here too
+   */
+  evaluate(input: string): REPLResult {
+    this.history.push(input)
+    if (isCommand(input))
+      return this.command(input)
+
+    this.printed = ''
+    try {
+      const program = parse(input)
+      return this.result(program, this.interpreter.execute(program))
+    }
+    catch (error) {
+      return this.failure(error)
+    }
+  }
+
+  /**
+   * Evaluate one input, with top-level await and every command
+   */
+  async evaluateAsync(input: string): Promise<REPLResult> {
+    this.history.push(input)
+    const [name, argument] = splitCommand(input)
+    if (name === ':load')
+      return await this.load(argument)
+
+    if (isCommand(input))
+      return this.command(input)
+
+    return await this.run(input)
+  }
+
+  /**
+   * Feed one line typed at the prompt. Lines are collected until they form a
+   * complete input, which is then evaluated; null means more lines are expected.
+   */
+  async line(text: string): Promise<REPLResult | null> {
+    if (this.pending.length === 0 && text.trim() === '')
+      return null
+
+    this.pending.push(text)
+    const input = this.pending.join('\n')
+    if (!isCommand(input) && !this.isComplete(input))
+      return null
+
+    this.pending = []
+    return await this.evaluateAsync(input)
+  }
+
+  /**
+   * Drop the lines of an incomplete input, e.g. on Ctrl+C
+   */
+  cancelInput(): void {
+    this.pending = []
+  }
+
+  /**
+   * Whether the source could be run as it is, rather than stopping in the middle
+   * of a block, call, string or other construct that later lines would finish.
+   * Inputs with other syntax errors count as complete, so the error is reported.
+   */
+  isComplete(source: string): boolean {
+    try {
+      parse(source)
+      return true
+    }
+    catch (error) {
+      if (!(error instanceof ParseError))
+        throw error
+      return !endsEarly(error.diagnostic, source)
+    }
+  }
+
+  /**
+   * Completions of the word before the cursor, as [candidates, word] like a readline completer.
+   * Members are offered after a dot, for builtin objects as well as values in the session.
+   */
+  complete(line: string): [string[], string] {
+    if (/^:\w*$/.test(line))
+      return [[...REPL_COMMANDS.keys()].filter(name => name.startsWith(line)), line]
+
+    const match = /(?:([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)\.)?([A-Za-z_]\w*)?$/.exec(line)
+    const [, path, word = ''] = match ?? []
+    const candidates = path === undefined ? this.names() : this.members(path)
+
+    const hits = [...new Set(candidates)]
+      .filter(name => name.startsWith(word) && !RESTRICTED_PROPERTIES.has(name) && !name.startsWith('__'))
+      .sort()
+    return [hits, word]
+  }
+
+  getHistory(): string[] {
+    return [...this.history]
+  }
+
+  clearHistory(): void {
+    this.history.length = 0
+  }
+
+  setVariable(name: string, value: any): void {
+    this.interpreter.getScope().define(name, value)
+  }
+
+  getVariable(name: string): any {
+    const scope = this.interpreter.getScope()
+    return scope.has(name) ? scope.get(name) : undefined
+  }
+
+  /**
+   * Bindings defined so far, by name
+   */
+  getBindings(): Record<string, any> {
+    return Object.fromEntries(this.interpreter.getScope().entries())
+  }
+
+  clearContext(): void {
+    this.interpreter.reset()
+  }
+
+  private async run(source: string): Promise<REPLResult> {
+    this.printed = ''
+    try {
+      const program = parse(source)
+      return this.result(program, await this.interpreter.executeAsync(program))
+    }
+    catch (error) {
+      return this.failure(error)
+    }
+  }
+
+  private async load(path: string): Promise<REPLResult> {
+    const loader = this.options.loader
+    if (!path)
+      return this.failure(new Error('Usage: :load <file>'))
+
+    if (!loader)
+      return this.failure(new Error('Loading files is not available in this REPL'))
+
+    let source: string
+    try {
+      source = await loader.load(loader.resolve(path))
+    }
+    catch (error) {
+      return this.failure(new Error(`Cannot load "${path}": ${error instanceof Error ? error.message : String(error)}`))
+    }
+    return await this.run(source)
+  }
+
+  private command(input: string): REPLResult {
+    const [name] = splitCommand(input)
+
+    switch (name) {
+      case ':help':
+        return this.message([...REPL_COMMANDS].map(([command, description]) => `${command.padEnd(8)}${description}`).join('\n'))
+      case ':env': {
+        const bindings = this.interpreter.getScope().entries()
+        if (bindings.length === 0)
+          return this.message('No bindings')
+
+        return this.message(bindings.map(([binding, value]) => `${binding} = ${this.display(value)}`).join('\n'))
+      }
+      case ':reset':
+        this.clearContext()
+        return this.message('Environment reset')
+      case ':load':
+        return this.failure(new Error(':load is only available in evaluateAsync'))
+      default:
+        return this.failure(new Error(`Unknown command "${name}", type :help for the list`))
+    }
+  }
+
+  private result(program: ProgramNode, value: any): REPLResult {
+    const last = program.body[program.body.length - 1]
+    const echoed = last?.type === NodeType.ExpressionStatement && value !== undefined
+    return {
+      output: value,
+      echo: echoed ? this.display(value) : undefined,
+      printed: this.printed,
+      errors: [],
+    }
+  }
+
+  private failure(error: unknown): REPLResult {
+    return {
+      output: null,
+      printed: this.printed,
+      errors: [error instanceof Error ? error.message : String(error)],
+    }
+  }
+
+  private message(text: string): REPLResult {
+    return { output: null, printed: `${text}\n`, errors: [] }
+  }
+
+  /**
+   * A value as typed in PL: strings quoted, functions by name
+   */
+  private display(value: any): string {
+    if (typeof value === 'string')
+      return JSON.stringify(value)
+    if (typeof value === 'function')
+      return `[function ${value.name || 'anonymous'}]`
+    return this.runtime.stringify(value)
+  }
+
+  private names(): string[] {
+    const names: string[] = [...KEYWORDS.keys()]
+    for (let scope: Environment | undefined = this.interpreter.getScope(); scope; scope = scope.parent)
+      names.push(...scope.entries().map(([name]) => name))
+
+    return names
+  }
+
+  private members(path: string): string[] {
+    let value: any
+    try {
+      const [first, ...rest] = path.split('.')
+      value = rest.reduce((object, key) => object?.[key], this.interpreter.getScope().get(first))
+    }
+    catch {
+      return []
+    }
+
+    // Arrays and strings take the Array and String library functions as methods
+    const library = Array.isArray(value) ? 'Array.' : typeof value === 'string' ? 'String.' : undefined
+    if (library)
+      return BUILTIN_DOCS.filter(doc => doc.name.startsWith(library)).map(doc => doc.name.slice(library.length))
+
+    return (value !== null && typeof value === 'object') ? Object.keys(value) : []
+  }
+}
+
+function parse(source: string): ProgramNode {
+  return new Parser(new Lexer(source).tokenize()).parse()
+}
+
+function isCommand(input: string): boolean {
+  return input.trimStart().startsWith(':')
+}
+
+function splitCommand(input: string): [string, string] {
+  const text = input.trim()
+  const space = text.search(/\s/)
+  return space === -1 ? [text, ''] : [text.slice(0, space), text.slice(space).trim()]
+}
+
+/**
+ * Whether a syntax error is only due to the source ending: an open string,
+ * or an error reported at the end of the input
+ */
+function endsEarly(diagnostic: Diagnostic, source: string): boolean {
+  if (diagnostic.code === 'unterminated-string')
+    return true
+
+  const tokens = new Lexer(source).tokenize()
+  const end = tokens[tokens.length - 1]
+  return diagnostic.line === end.line && diagnostic.column === end.column
+}
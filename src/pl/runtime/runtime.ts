@@ -10,36 +10,192 @@ export class RuntimeError extends Error {
   }
 }
 
+export class SecurityError extends Error {
+  constructor(message: string, public line?: number, public column?: number) {
+    super(message)
+    this.name = 'SecurityError'
+  }
+}
+
+export type ExecutionLimit = 'timeout' | 'memory' | 'callDepth' | 'instructions' | 'quota'
+
+export class LimitExceededError extends RuntimeError {
+  constructor(message: string, public limit: ExecutionLimit) {
+    super(message)
+    this.name = 'LimitExceededError'
+  }
+}
+
+export class CancellationError extends RuntimeError {
+  constructor(message = 'Execution cancelled') {
+    super(message)
+    this.name = 'CancellationError'
+  }
+}
+
+/**
+ * Error raised by a PL throw statement, carrying the thrown value
+ */
+export class ThrowError extends RuntimeError {
+  constructor(message: string, public value: any, line?: number, column?: number) {
+    super(message, line, column)
+    this.name = 'ThrowError'
+  }
+}
+
+/**
+ * What a PL catch clause receives
+ */
+export interface CaughtError {
+  message: string
+  line: number | null
+  column: number | null
+  /** Thrown value for errors raised by throw statements, null for other errors */
+  value: any
+}
+
+/**
+ * Property names that lead to prototypes or constructors of host objects
+ */
+export const RESTRICTED_PROPERTIES: ReadonlySet<string> = new Set([
+  'constructor',
+  'prototype',
+  '__proto__',
+  '__defineGetter__',
+  '__defineSetter__',
+  '__lookupGetter__',
+  '__lookupSetter__',
+])
+
 export class ReturnValue {
   constructor(public value: any) {}
 }
 
+export interface BuiltinDoc {
+  name: string
+  signature: string
+  description: string
+  /** Method-call form, for Array and String functions that can be called on their first argument */
+  method?: string
+}
+
+/**
+ * Reference documentation for the built-in functions
+ */
+export const BUILTIN_DOCS: BuiltinDoc[] = [
+  { name: 'print', signature: 'print(...values)', description: 'Write values to the output, followed by a newline' },
+  { name: 'println', signature: 'println(...values)', description: 'Write values to the output, followed by a newline' },
+  { name: 'len', signature: 'len(value): number', description: 'Length of an array or string, or number of keys of an object' },
+  { name: 'push', signature: 'push(array, item): number', description: 'Append an item to an array and return the new length' },
+  { name: 'pop', signature: 'pop(array): any', description: 'Remove and return the last item of an array' },
+  { name: 'keys', signature: 'keys(object): string[]', description: 'Keys of an object' },
+  { name: 'values', signature: 'values(object): any[]', description: 'Values of an object' },
+  { name: 'type', signature: 'type(value): string', description: 'Type name of a value: number, string, boolean, array, object, function or null' },
+  { name: 'parseInt', signature: 'parseInt(string, radix?): number', description: 'Parse an integer' },
+  { name: 'parseFloat', signature: 'parseFloat(string): number', description: 'Parse a floating point number' },
+  { name: 'toString', signature: 'toString(value): string', description: 'Convert a value to a string' },
+  { name: 'Math.random', signature: 'Math.random(): number', description: 'Random number in [0, 1)' },
+  { name: 'Math.floor', signature: 'Math.floor(x): number', description: 'Round down' },
+  { name: 'Math.ceil', signature: 'Math.ceil(x): number', description: 'Round up' },
+  { name: 'Math.round', signature: 'Math.round(x): number', description: 'Round to the nearest integer' },
+  { name: 'Math.abs', signature: 'Math.abs(x): number', description: 'Absolute value' },
+  { name: 'Math.min', signature: 'Math.min(...values): number', description: 'Smallest of the values' },
+  { name: 'Math.max', signature: 'Math.max(...values): number', description: 'Largest of the values' },
+  { name: 'Math.pow', signature: 'Math.pow(base, exponent): number', description: 'Base raised to the exponent' },
+  { name: 'Math.sqrt', signature: 'Math.sqrt(x): number', description: 'Square root' },
+  { name: 'String.substring', signature: 'String.substring(string, start, end?): string', description: 'Part of a string between start and end' },
+  { name: 'String.toUpperCase', signature: 'String.toUpperCase(string): string', description: 'Convert to upper case' },
+  { name: 'String.toLowerCase', signature: 'String.toLowerCase(string): string', description: 'Convert to lower case' },
+  { name: 'String.trim', signature: 'String.trim(string): string', description: 'Remove leading and trailing whitespace' },
+  { name: 'String.split', signature: 'String.split(string, separator): string[]', description: 'Split a string at every occurrence of the separator' },
+  { name: 'String.replace', signature: 'String.replace(string, search, replacement): string', description: 'Replace every occurrence of search' },
+  { name: 'String.startsWith', signature: 'String.startsWith(string, prefix): boolean', description: 'Whether the string starts with the prefix' },
+  { name: 'String.endsWith', signature: 'String.endsWith(string, suffix): boolean', description: 'Whether the string ends with the suffix' },
+  { name: 'String.includes', signature: 'String.includes(string, search): boolean', description: 'Whether the string contains search' },
+  { name: 'String.indexOf', signature: 'String.indexOf(string, search): number', description: 'Position of the first occurrence of search, or -1' },
+  { name: 'String.slice', signature: 'String.slice(string, start, end?): string', description: 'Part of a string; negative positions count from the end' },
+  { name: 'String.format', signature: 'String.format(template, ...values): string', description: 'Fill {0}, {1}, ... with the values, or {name} with the properties of a single object; {{ and }} are literal braces' },
+  { name: 'Array.join', signature: 'Array.join(array, separator?): string', description: 'Join the items of an array into a string' },
+  { name: 'Array.reverse', signature: 'Array.reverse(array): array', description: 'Reverse an array in place' },
+  { name: 'Array.sort', signature: 'Array.sort(array, compare?): array', description: 'Sort an array in place' },
+  { name: 'Array.map', signature: 'Array.map(array, fn): array', description: 'New array with fn(item, index) for every item' },
+  { name: 'Array.filter', signature: 'Array.filter(array, fn): array', description: 'New array with the items for which fn(item, index) is true' },
+  { name: 'Array.reduce', signature: 'Array.reduce(array, fn, initial?): any', description: 'Combine the items with fn(accumulator, item), starting from initial or the first item' },
+  { name: 'Array.find', signature: 'Array.find(array, fn): any', description: 'First item for which fn(item, index) is true, or null' },
+  { name: 'Array.forEach', signature: 'Array.forEach(array, fn)', description: 'Call fn(item, index) for every item' },
+  { name: 'Array.slice', signature: 'Array.slice(array, start?, end?): array', description: 'New array with part of the items; negative positions count from the end' },
+  { name: 'Array.splice', signature: 'Array.splice(array, start, count?, ...items): array', description: 'Remove count items at start and insert the items there, in place; returns the removed items' },
+  { name: 'Array.includes', signature: 'Array.includes(array, item): boolean', description: 'Whether the array contains the item' },
+  { name: 'Array.indexOf', signature: 'Array.indexOf(array, item): number', description: 'Position of the first occurrence of the item, or -1' },
+  { name: 'JSON.parse', signature: 'JSON.parse(text): any', description: 'Parse JSON text' },
+  { name: 'JSON.stringify', signature: 'JSON.stringify(value, indent?): string', description: 'Convert a value to JSON, indented by the given number of spaces' },
+  { name: 'Date.now', signature: 'Date.now(): number', description: 'Current time in milliseconds since 1970-01-01 UTC' },
+  { name: 'Date.parse', signature: 'Date.parse(text): number', description: 'Time of a date string such as "2024-05-01T12:00:00Z", in milliseconds' },
+  { name: 'Date.format', signature: 'Date.format(time, pattern?): string', description: 'Format a time in UTC; the pattern may use YYYY, MM, DD, HH, mm, ss and SSS (default "YYYY-MM-DD HH:mm:ss")' },
+  { name: 'Date.add', signature: 'Date.add(time, amount, unit?): number', description: 'Time plus an amount of milliseconds, seconds, minutes, hours, days or weeks' },
+  { name: 'Date.diff', signature: 'Date.diff(later, earlier, unit?): number', description: 'Time between two times in the given unit, milliseconds by default' },
+].map(doc => ({ ...doc, method: methodSignature(doc.signature) }))
+
+/**
+ * "array.map(fn): array" for "Array.map(array, fn): array"; undefined for other functions
+ */
+function methodSignature(signature: string): string | undefined {
+  const match = /^(?:Array|String)\.(\w+)\((\w+)(?:, )?(.*)$/.exec(signature)
+  return match ? `${match[2]}.${match[1]}(${match[3]}` : undefined
+}
+
+const TIME_UNITS: Record<string, number> = {
+  milliseconds: 1,
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+}
+
 export class Environment {
-  private readonly parent?: Environment
+  readonly parent?: Environment
   private readonly values: Map<string, any> = new Map()
+  private readonly constants: Set<string> = new Set()
 
   constructor(parent?: Environment) {
     this.parent = parent
   }
 
-  define(name: string, value: any): void {
+  define(name: string, value: any, constant = false): void {
     this.values.set(name, value)
+    if (constant)
+      this.constants.add(name)
+    else
+      this.constants.delete(name)
+  }
+
+  has(name: string): boolean {
+    return this.values.has(name) || (this.parent ? this.parent.has(name) : false)
+  }
+
+  /**
+   * Bindings defined directly in this scope
+   */
+  entries(): [string, any][] {
+    return Array.from(this.values.entries())
   }
 
   get(name: string): any {
-    if (this.values.has(name)) {
+    if (this.values.has(name))
       return this.values.get(name)
-    }
 
-    if (this.parent) {
+    if (this.parent)
       return this.parent.get(name)
-    }
 
     throw new RuntimeError(`Undefined variable '${name}'`)
   }
 
   assign(name: string, value: any): void {
     if (this.values.has(name)) {
+      if (this.constants.has(name))
+        throw new RuntimeError(`Assignment to constant variable '${name}'`)
+
       this.values.set(name, value)
       return
     }
@@ -53,6 +209,58 @@ export class Environment {
   }
 }
 
+/**
+ * Promises of the async PL functions a run calls. Each gets a handler as soon
+ * as it is created, so a rejection never reaches the host as an unhandled
+ * rejection; settled() reports the ones the program did not await.
+ */
+export class AsyncCalls {
+  private pending: Set<Promise<any>> = new Set()
+  private rejections: Array<{ promise: Promise<any>; error: unknown }> = []
+  private observed: WeakSet<object> = new WeakSet()
+
+  /**
+   * Start over for a new run; calls of earlier runs are no longer reported
+   */
+  reset(): void {
+    this.pending = new Set()
+    this.rejections = []
+  }
+
+  track<T>(promise: Promise<T>): Promise<T> {
+    const { pending, rejections } = this
+    pending.add(promise)
+    promise.then(
+      () => pending.delete(promise),
+      (error) => {
+        pending.delete(promise)
+        rejections.push({ promise, error })
+      },
+    )
+    return promise
+  }
+
+  /**
+   * Awaiting a tracked promise or calling one of its methods handles its rejection
+   */
+  observe(value: any): void {
+    if (this.pending.has(value) || this.rejections.some(({ promise }) => promise === value))
+      this.observed.add(value)
+  }
+
+  /**
+   * Wait until no call is left running, then throw the first rejection nothing observed
+   */
+  async settled(): Promise<void> {
+    while (this.pending.size > 0)
+      await Promise.allSettled(this.pending)
+
+    const rejection = this.rejections.find(({ promise }) => !this.observed.has(promise))
+    if (rejection)
+      throw rejection.error
+  }
+}
+
 export class PLRuntime {
   private globals: Environment
   private environment: Environment
@@ -90,9 +298,33 @@ export class PLRuntime {
       ['String.toUpperCase', this.toUpperCase.bind(this)],
       ['String.toLowerCase', this.toLowerCase.bind(this)],
       ['String.trim', this.trim.bind(this)],
+      ['String.split', this.forward('String', 'split')],
+      ['String.replace', this.replace.bind(this)],
+      ['String.startsWith', this.forward('String', 'startsWith')],
+      ['String.endsWith', this.forward('String', 'endsWith')],
+      ['String.includes', this.forward('String', 'includes')],
+      ['String.indexOf', this.forward('String', 'indexOf')],
+      ['String.slice', this.forward('String', 'slice')],
+      ['String.format', this.format.bind(this)],
       ['Array.join', this.join.bind(this)],
       ['Array.reverse', this.reverse.bind(this)],
-      ['Array.sort', this.sort.bind(this)]
+      ['Array.sort', this.sort.bind(this)],
+      ['Array.map', this.forward('Array', 'map')],
+      ['Array.filter', this.forward('Array', 'filter')],
+      ['Array.reduce', this.forward('Array', 'reduce')],
+      ['Array.find', this.find.bind(this)],
+      ['Array.forEach', this.forward('Array', 'forEach')],
+      ['Array.slice', this.forward('Array', 'slice')],
+      ['Array.splice', this.forward('Array', 'splice')],
+      ['Array.includes', this.forward('Array', 'includes')],
+      ['Array.indexOf', this.forward('Array', 'indexOf')],
+      ['JSON.parse', this.parseJSON.bind(this)],
+      ['JSON.stringify', this.stringifyJSON.bind(this)],
+      ['Date.now', Date.now],
+      ['Date.parse', this.parseDate.bind(this)],
+      ['Date.format', this.formatDate.bind(this)],
+      ['Date.add', this.addTime.bind(this)],
+      ['Date.diff', this.diffTime.bind(this)],
     ])
 
     this.initializeBuiltins()
@@ -105,13 +337,13 @@ export class PLRuntime {
         const obj = parts[0]
         const method = parts[1]
 
-        if (!this.globals.get(obj)) {
+        if (!this.globals.has(obj))
           this.globals.define(obj, {})
-        }
 
         const object = this.globals.get(obj)
         object[method] = func
-      } else {
+      }
+      else {
         this.globals.define(name, func)
       }
     })
@@ -119,17 +351,22 @@ export class PLRuntime {
 
   // Built-in function implementations
   private print(...args: any[]): void {
+    // eslint-disable-next-line no-console -- print writes to the console by design
     console.log(...args.map(arg => this.stringify(arg)))
   }
 
   private println(...args: any[]): void {
+    // eslint-disable-next-line no-console -- println writes to the console by design
     console.log(...args.map(arg => this.stringify(arg)))
   }
 
   private len(obj: any): number {
-    if (Array.isArray(obj)) return obj.length
-    if (typeof obj === 'string') return obj.length
-    if (typeof obj === 'object' && obj !== null) return Object.keys(obj).length
+    if (Array.isArray(obj))
+      return obj.length
+    if (typeof obj === 'string')
+      return obj.length
+    if (typeof obj === 'object' && obj !== null)
+      return Object.keys(obj).length
     throw new RuntimeError(`Object of type ${typeof obj} has no length`)
   }
 
@@ -150,8 +387,10 @@ export class PLRuntime {
   }
 
   private type(value: any): string {
-    if (value === null) return 'null'
-    if (Array.isArray(value)) return 'array'
+    if (value === null)
+      return 'null'
+    if (Array.isArray(value))
+      return 'array'
     return typeof value
   }
 
@@ -168,7 +407,7 @@ export class PLRuntime {
   }
 
   private substring(str: string, start: number, end?: number): string {
-    return end ? str.substring(start, end) : str.substring(start)
+    return end !== undefined ? str.substring(start, end) : str.substring(start)
   }
 
   private toUpperCase(str: string): string {
@@ -184,7 +423,7 @@ export class PLRuntime {
   }
 
   private join(arr: any[], separator?: string): string {
-    return arr.join(separator || ',')
+    return arr.join(separator ?? ',')
   }
 
   private reverse(arr: any[]): any[] {
@@ -195,13 +434,168 @@ export class PLRuntime {
     return arr.sort(compareFn)
   }
 
-  private stringify(value: any): string {
-    if (value === null) return 'null'
-    if (typeof value === 'boolean') return value ? 'true' : 'false'
-    if (typeof value === 'string') return value
-    if (typeof value === 'number') return String(value)
-    if (Array.isArray(value)) return `[${value.map(v => this.stringify(v)).join(', ')}]`
-    if (typeof value === 'object') return `{${Object.keys(value).map(k => `${k}: ${this.stringify(value[k])}`).join(', ')}}`
+  /**
+   * Library function that calls the JavaScript method of the same name on its first argument
+   */
+  private forward(object: 'Array' | 'String', name: string): (...args: any[]) => any {
+    return (target: any, ...args: any[]) => {
+      this.expect(object, name, target)
+      return target[name](...args)
+    }
+  }
+
+  private expect(object: 'Array' | 'String', name: string, value: any): void {
+    const valid = object === 'Array' ? Array.isArray(value) : typeof value === 'string'
+    if (!valid)
+      throw new RuntimeError(`${object}.${name} expects ${object === 'Array' ? 'an array' : 'a string'}, got ${this.type(value)}`)
+  }
+
+  private find(arr: any[], fn: (item: any, index: number) => any): any {
+    this.expect('Array', 'find', arr)
+    const found = arr.find(fn)
+    return found === undefined ? null : found
+  }
+
+  private replace(str: string, search: string, replacement: string): string {
+    this.expect('String', 'replace', str)
+    return str.split(String(search)).join(String(replacement))
+  }
+
+  private format(template: string, ...values: any[]): string {
+    this.expect('String', 'format', template)
+    const named = values.length === 1 && typeof values[0] === 'object' && values[0] !== null && !Array.isArray(values[0])
+
+    return template.replace(/\{\{|\}\}|\{(\w+)\}/g, (match, key?: string) => {
+      if (key === undefined)
+        return match[0]
+      const value = /^\d+$/.test(key) ? values[Number(key)] : named ? values[0][key] : undefined
+      return value === undefined ? match : this.stringify(value)
+    })
+  }
+
+  private parseJSON(text: string): any {
+    try {
+      return JSON.parse(text)
+    }
+    catch (error) {
+      throw new RuntimeError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  private stringifyJSON(value: any, indent?: number): string {
+    return JSON.stringify(value, null, indent)
+  }
+
+  private parseDate(text: string): number {
+    const time = Date.parse(text)
+    if (isNaN(time))
+      throw new RuntimeError(`Invalid date '${text}'`)
+
+    return time
+  }
+
+  private formatDate(time: number, pattern = 'YYYY-MM-DD HH:mm:ss'): string {
+    const date = new Date(time)
+    if (isNaN(date.getTime()))
+      throw new RuntimeError(`Invalid time ${this.stringify(time)}`)
+
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+    const parts: Record<string, string> = {
+      YYYY: pad(date.getUTCFullYear(), 4),
+      MM: pad(date.getUTCMonth() + 1),
+      DD: pad(date.getUTCDate()),
+      HH: pad(date.getUTCHours()),
+      mm: pad(date.getUTCMinutes()),
+      ss: pad(date.getUTCSeconds()),
+      SSS: pad(date.getUTCMilliseconds(), 3),
+    }
+    return pattern.replace(/YYYY|SSS|MM|DD|HH|mm|ss/g, token => parts[token])
+  }
+
+  private addTime(time: number, amount: number, unit = 'milliseconds'): number {
+    return time + amount * this.timeUnit(unit)
+  }
+
+  private diffTime(later: number, earlier: number, unit = 'milliseconds'): number {
+    return (later - earlier) / this.timeUnit(unit)
+  }
+
+  private timeUnit(unit: string): number {
+    if (!Object.hasOwn(TIME_UNITS, unit))
+      throw new RuntimeError(`Unknown time unit '${unit}', expected one of ${Object.keys(TIME_UNITS).join(', ')}`)
+
+    return TIME_UNITS[unit]
+  }
+
+  /**
+   * Library function behind a method call on an array or string,
+   * e.g. Array.map for items.map(fn); undefined for other values
+   */
+  method(target: any, name: string | number): ((...args: any[]) => any) | undefined {
+    const object = Array.isArray(target) ? 'Array' : typeof target === 'string' ? 'String' : undefined
+    return object ? this.builtins.get(`${object}.${name}`) : undefined
+  }
+
+  /**
+   * Call a method, using the library function for arrays and strings
+   */
+  invoke(target: any, name: string, ...args: any[]): any {
+    const method = this.method(target, name)
+    if (method)
+      return method(target, ...args)
+
+    if (target === null || target === undefined)
+      throw new RuntimeError(`Cannot read property '${name}' of ${target}`)
+
+    if (typeof target[name] !== 'function')
+      throw new RuntimeError(`'${name}' is not a function`)
+
+    return target[name](...args)
+  }
+
+  /**
+   * Error for a PL throw statement; a string, or an object with a message, gives the error message
+   */
+  thrown(value: any, line?: number, column?: number): ThrowError {
+    const text = typeof value?.message === 'string' ? value.message : this.stringify(value)
+    const message = line === undefined ? text : `${text} at line ${line}, column ${column}`
+    return new ThrowError(message, value, line, column)
+  }
+
+  /**
+   * Error object for a PL catch clause. Errors that must end the run
+   * (cancellation, exceeded limits, security violations) are rethrown instead.
+   */
+  caught(error: any): CaughtError {
+    if (error instanceof CancellationError || error instanceof LimitExceededError || error instanceof SecurityError)
+      throw error
+
+    if (error instanceof RangeError && /call stack/i.test(error.message))
+      throw error
+
+    const located = error instanceof RuntimeError && error.line !== undefined
+    const message = typeof error?.message === 'string' ? error.message : this.stringify(error)
+    return {
+      message: located ? message.replace(/ at line \d+, column \d+$/, '') : message,
+      line: located ? error.line ?? null : null,
+      column: located ? error.column ?? null : null,
+      value: error instanceof ThrowError ? error.value : null,
+    }
+  }
+
+  stringify(value: any): string {
+    if (value === null)
+      return 'null'
+    if (typeof value === 'boolean')
+      return value ? 'true' : 'false'
+    if (typeof value === 'string')
+      return value
+    if (typeof value === 'number')
+      return String(value)
+    if (Array.isArray(value))
+      return `[${value.map(v => this.stringify(v)).join(', ')}]`
+    if (typeof value === 'object')
+      return `{${Object.keys(value).map(k => `${k}: ${this.stringify(value[k])}`).join(', ')}}`
     return String(value)
   }
 
@@ -221,22 +615,23 @@ export class PLRuntime {
   }
 
   popEnvironment(): void {
-    this.environment = this.environment!.parent!
+    if (this.environment.parent)
+      this.environment = this.environment.parent
   }
 
   // Variable resolution
   resolve(name: string, depth: number): void {
-    if (!this.locals.has(depth)) {
+    if (!this.locals.has(depth))
       this.locals.set(depth, new Map())
-    }
+
     this.locals.get(depth)!.set(name, depth)
   }
 
   resolveLocal(name: string): any {
-    return this.lookup name(name)
+    return this.lookupVariable(name)
   }
 
-  private lookup name(name: string, distance: number): any {
+  private lookupVariable(name: string): any {
     // Simplified lookup - in real implementation, traverse environment chain
     return this.environment.get(name)
   }
@@ -0,0 +1,208 @@
+/**
+ * PL Source Maps
+ * Encoding and lookup of v3 source maps from generated JavaScript back to PL source
+ */
+
+export interface SourceMap {
+  version: 3
+  file?: string
+  sources: string[]
+  sourcesContent?: string[]
+  names: string[]
+  mappings: string
+}
+
+/**
+ * One generated position and the PL position it came from.
+ * Lines and columns are zero-based, as in the source map format.
+ */
+export interface SourceMapping {
+  generatedLine: number
+  generatedColumn: number
+  originalLine: number
+  originalColumn: number
+}
+
+export interface SourcePosition {
+  line: number
+  column: number
+}
+
+/** Name given to generated code when it runs, so stack frames can be matched */
+export const GENERATED_FILENAME = 'pl-program.js'
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+function encodeVLQ(value: number): string {
+  let vlq = value < 0 ? ((-value) << 1) | 1 : value << 1
+  let result = ''
+
+  do {
+    let digit = vlq & 31
+    vlq >>>= 5
+    if (vlq > 0)
+      digit |= 32
+    result += BASE64[digit]
+  } while (vlq > 0)
+
+  return result
+}
+
+function decodeVLQ(segment: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char)
+    if (digit === -1)
+      throw new Error(`Invalid source map character '${char}'`)
+
+    value += (digit & 31) << shift
+    if (digit & 32) {
+      shift += 5
+    }
+    else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1)
+      value = 0
+      shift = 0
+    }
+  }
+
+  return values
+}
+
+export function encodeMappings(mappings: SourceMapping[]): string {
+  const sorted = [...mappings].sort((a, b) =>
+    a.generatedLine - b.generatedLine || a.generatedColumn - b.generatedColumn,
+  )
+
+  const lines: string[] = []
+  let previousGeneratedColumn = 0
+  let previousOriginalLine = 0
+  let previousOriginalColumn = 0
+
+  sorted.forEach((mapping) => {
+    const line = mapping.generatedLine
+    if (lines.length <= line) {
+      while (lines.length <= line) lines.push('')
+      previousGeneratedColumn = 0
+    }
+
+    const segment
+      = encodeVLQ(mapping.generatedColumn - previousGeneratedColumn)
+      + encodeVLQ(0)
+      + encodeVLQ(mapping.originalLine - previousOriginalLine)
+      + encodeVLQ(mapping.originalColumn - previousOriginalColumn)
+
+    lines[line] += lines[line] ? `,${segment}` : segment
+    previousGeneratedColumn = mapping.generatedColumn
+    previousOriginalLine = mapping.originalLine
+    previousOriginalColumn = mapping.originalColumn
+  })
+
+  return lines.join(';')
+}
+
+export function decodeMappings(mappings: string): SourceMapping[] {
+  const result: SourceMapping[] = []
+  let originalLine = 0
+  let originalColumn = 0
+
+  mappings.split(';').forEach((line, generatedLine) => {
+    let generatedColumn = 0
+
+    line.split(',').filter(Boolean).forEach((segment) => {
+      const values = decodeVLQ(segment)
+      generatedColumn += values[0]
+      if (values.length < 4)
+        return
+
+      originalLine += values[2]
+      originalColumn += values[3]
+      result.push({ generatedLine, generatedColumn, originalLine, originalColumn })
+    })
+  })
+
+  return result
+}
+
+export function createSourceMap(
+  mappings: SourceMapping[],
+  options: { source?: string; filename?: string; file?: string } = {},
+): SourceMap {
+  const map: SourceMap = {
+    version: 3,
+    sources: [options.filename ?? 'input.pl'],
+    names: [],
+    mappings: encodeMappings(mappings),
+  }
+
+  if (options.file)
+    map.file = options.file
+  if (options.source !== undefined)
+    map.sourcesContent = [options.source]
+
+  return map
+}
+
+/**
+ * Move mappings by the size of text inserted before the generated code
+ */
+export function offsetMappings(mappings: SourceMapping[], lines: number, firstLineColumns: number): SourceMapping[] {
+  return mappings.map(mapping => ({
+    ...mapping,
+    generatedLine: mapping.generatedLine + lines,
+    generatedColumn: mapping.generatedLine === 0 ? mapping.generatedColumn + firstLineColumns : mapping.generatedColumn,
+  }))
+}
+
+/**
+ * PL position (one-based line and column) for a one-based generated position
+ */
+export function originalPositionFor(map: SourceMap | SourceMapping[], line: number, column: number): SourcePosition | null {
+  const mappings = Array.isArray(map) ? map : decodeMappings(map.mappings)
+  const generatedLine = line - 1
+  const generatedColumn = column - 1
+
+  // Closest mapping at or before the position
+  let best: SourceMapping | null = null
+  for (const mapping of mappings) {
+    const before = mapping.generatedLine < generatedLine
+      || (mapping.generatedLine === generatedLine && mapping.generatedColumn <= generatedColumn)
+    if (!before)
+      continue
+
+    if (!best
+      || mapping.generatedLine > best.generatedLine
+      || (mapping.generatedLine === best.generatedLine && mapping.generatedColumn >= best.generatedColumn))
+      best = mapping
+  }
+
+  return best ? { line: best.originalLine + 1, column: best.originalColumn + 1 } : null
+}
+
+/**
+ * Generated position of the innermost stack frame that belongs to the given file
+ */
+export function positionFromStack(stack: string | undefined, filename: string): SourcePosition | null {
+  if (!stack)
+    return null
+
+  const escaped = filename.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const match = new RegExp(`${escaped}:(\\d+):(\\d+)`).exec(stack)
+  return match ? { line: Number(match[1]), column: Number(match[2]) } : null
+}
+
+/**
+ * PL position of the innermost generated-code frame in an error stack.
+ * lineOffset is the number of lines the host put before the code (2 for new Function).
+ */
+export function originalPositionFromStack(
+  stack: string | undefined,
+  map: SourceMap | SourceMapping[],
+  lineOffset = 0,
+): SourcePosition | null {
+  const generated = positionFromStack(stack, GENERATED_FILENAME)
+  return generated ? originalPositionFor(map, generated.line - lineOffset, generated.column) : null
+}
@@ -3,47 +3,169 @@
  * Converts PL AST to executable JavaScript code
  */
 
-import {
-  ProgramNode,
-  StatementNode,
-  ExpressionNode,
-  NodeType,
+import type {
+  ArrayExpressionNode,
+  ArrowFunctionExpressionNode,
+  AssignmentExpressionNode,
+  AwaitExpressionNode,
+  BinaryExpressionNode,
   BlockNode,
-  ExpressionStatementNode,
-  IfStatementNode,
-  WhileStatementNode,
-  ForStatementNode,
-  ReturnStatementNode,
   BreakStatementNode,
+  CallExpressionNode,
+  ConditionalExpressionNode,
   ContinueStatementNode,
-  VariableDeclarationNode,
+  ExportDeclarationNode,
+  ExpressionNode,
+  ExpressionStatementNode,
+  ForStatementNode,
   FunctionDeclarationNode,
-  SwitchStatementNode,
-  CaseStatementNode,
-  BinaryExpressionNode,
-  UnaryExpressionNode,
-  AssignmentExpressionNode,
-  LogicalExpressionNode,
-  CallExpressionNode,
-  MemberExpressionNode,
+  FunctionParameters,
   IdentifierNode,
+  IfStatementNode,
+  ImportDeclarationNode,
   LiteralNode,
-  ArrayExpressionNode,
+  LogicalExpressionNode,
+  MemberExpressionNode,
   ObjectExpressionNode,
-  PropertyNode,
-  ArrowFunctionExpressionNode,
-  ConditionalExpressionNode
+  ProgramNode,
+  ReturnStatementNode,
+  StatementNode,
+  SwitchStatementNode,
+  ThrowStatementNode,
+  TryStatementNode,
+  UnaryExpressionNode,
+  VariableDeclarationNode,
+  WhileStatementNode,
 } from '../parser/parser'
+import {
+  NodeType,
+} from '../parser/parser'
+import type { SourceMapping } from './sourcemap'
+
+export interface TranspileOptions {
+  /**
+   * Emit calls to the execution guards used by PLExecutor:
+   * __pl_enter/__pl_exit around function bodies, __pl_tick in loop bodies
+   * and __pl_key around computed member keys
+   */
+  instrument?: boolean
+  /**
+   * JavaScript expression for the exports of an imported module, given its
+   * path as written in the import; a __pl_import call by default
+   */
+  importModule?: (source: string) => string
+  /**
+   * Pass awaited values through __pl_await, which lets the host cancel
+   * a program while it waits
+   */
+  guardAwait?: boolean
+  /**
+   * Emit method calls as __pl_invoke(object, "name", ...args), which runs the
+   * Array and String library functions for arrays and strings (items.map(fn)
+   * calls Array.map(items, fn))
+   */
+  libraryMethods?: boolean
+  /**
+   * Create thrown errors with __pl_throw and pass caught errors through
+   * __pl_catch, which turns them into PL error objects and rethrows errors
+   * that must end the run, such as cancellation and exceeded limits
+   */
+  guardErrors?: boolean
+  /**
+   * Hand the promise of every async function call to __pl_async, which lets
+   * the host follow async code after the program returns and handle the
+   * rejections nothing awaited
+   */
+  trackAsync?: boolean
+}
+
+/** Identifiers with this prefix are reserved for the generated guards */
+export const GUARD_PREFIX = '__pl_'
+
+export interface TranspileResult {
+  code: string
+  mappings: SourceMapping[]
+}
+
+// Inline markers for node positions, resolved once the final text is known.
+// String literals are emitted with JSON.stringify, which escapes both characters.
+const MARK_START = '\u0000'
+const MARK_END = '\u0001'
 
 export class Transpiler {
-  private indent: number = 0
+  private indent = 0
   private readonly INDENT_SIZE = 2
+  private readonly options: TranspileOptions
+  private marks: Array<ProgramNode | StatementNode | ExpressionNode> | null = null
+
+  constructor(options: TranspileOptions = {}) {
+    this.options = options
+  }
 
   transpile(node: ProgramNode | StatementNode | ExpressionNode): string {
     return this.visit(node)
   }
 
+  /**
+   * Transpile and record where the code of each node starts in the output
+   */
+  transpileWithMappings(node: ProgramNode | StatementNode | ExpressionNode): TranspileResult {
+    this.marks = []
+    try {
+      return this.resolveMarks(this.visit(node), this.marks)
+    }
+    finally {
+      this.marks = null
+    }
+  }
+
+  private resolveMarks(marked: string, marks: Array<ProgramNode | StatementNode | ExpressionNode>): TranspileResult {
+    const mappings: SourceMapping[] = []
+    let code = ''
+    let line = 0
+    let column = 0
+
+    for (let i = 0; i < marked.length; i++) {
+      const char = marked[i]
+
+      if (char === MARK_START) {
+        const end = marked.indexOf(MARK_END, i)
+        const node = marks[Number(marked.slice(i + 1, end))]
+        if (node.line > 0) {
+          mappings.push({
+            generatedLine: line,
+            generatedColumn: column,
+            originalLine: node.line - 1,
+            originalColumn: Math.max(node.column - 1, 0),
+          })
+        }
+        i = end
+        continue
+      }
+
+      code += char
+      if (char === '\n') {
+        line++
+        column = 0
+      }
+      else {
+        column++
+      }
+    }
+
+    return { code, mappings }
+  }
+
   private visit(node: ProgramNode | StatementNode | ExpressionNode): string {
+    const code = this.emit(node)
+    if (!this.marks)
+      return code
+
+    const id = this.marks.push(node) - 1
+    return code.replace(/^\s*/, indent => `${indent}${MARK_START}${id}${MARK_END}`)
+  }
+
+  private emit(node: ProgramNode | StatementNode | ExpressionNode): string {
     switch (node.type) {
       case NodeType.Program:
         return this.visitProgram(node as ProgramNode)
@@ -69,6 +191,14 @@ export class Transpiler {
         return this.visitFunctionDeclaration(node as FunctionDeclarationNode)
       case NodeType.SwitchStatement:
         return this.visitSwitchStatement(node as SwitchStatementNode)
+      case NodeType.TryStatement:
+        return this.visitTryStatement(node as TryStatementNode)
+      case NodeType.ThrowStatement:
+        return this.visitThrowStatement(node as ThrowStatementNode)
+      case NodeType.ImportDeclaration:
+        return this.visitImportDeclaration(node as ImportDeclarationNode)
+      case NodeType.ExportDeclaration:
+        return this.visitExportDeclaration(node as ExportDeclarationNode)
       case NodeType.BinaryExpression:
         return this.visitBinaryExpression(node as BinaryExpressionNode)
       case NodeType.UnaryExpression:
@@ -93,13 +223,18 @@ export class Transpiler {
         return this.visitArrowFunctionExpression(node as ArrowFunctionExpressionNode)
       case NodeType.ConditionalExpression:
         return this.visitConditionalExpression(node as ConditionalExpressionNode)
+      case NodeType.AwaitExpression:
+        return this.visitAwaitExpression(node as AwaitExpressionNode)
       default:
         throw new Error(`Unknown node type: ${(node as any).type}`)
     }
   }
 
   private visitProgram(node: ProgramNode): string {
-    return node.body.map(stmt => this.visit(stmt)).join('\n\n')
+    // Imports are hoisted, so the imported names are bound before any other code runs
+    const imports = node.body.filter(stmt => stmt.type === NodeType.ImportDeclaration)
+    const rest = node.body.filter(stmt => stmt.type !== NodeType.ImportDeclaration)
+    return [...imports, ...rest].map(stmt => this.visit(stmt)).join('\n\n')
   }
 
   private visitBlock(node: BlockNode): string {
@@ -117,43 +252,87 @@ export class Transpiler {
   private visitIfStatement(node: IfStatementNode): string {
     let result = `${this.getIndent()}if (${this.visit(node.test)}) ${this.visit(node.consequent)}`
 
-    if (node.alternate) {
+    if (node.alternate)
       result += ` else ${this.visit(node.alternate)}`
-    }
 
     return result
   }
 
   private visitWhileStatement(node: WhileStatementNode): string {
-    return `${this.getIndent()}while (${this.visit(node.test)}) ${this.visit(node.body)}`
+    return `${this.getIndent()}while (${this.visit(node.test)}) ${this.loopBody(node.body)}`
   }
 
   private visitForStatement(node: ForStatementNode): string {
-    const init = node.init ? this.visit(node.init) : ''
+    // Declarations are emitted as statements; the loop header supplies its own ";"
+    const init = node.init ? this.visit(node.init).trim().replace(/;$/, '') : ''
     const test = node.test ? this.visit(node.test) : 'true'
     const update = node.update ? this.visit(node.update) : ''
 
-    return `${this.getIndent()}for (${init}; ${test}; ${update}) ${this.visit(node.body)}`
+    return `${this.getIndent()}for (${init}; ${test}; ${update}) ${this.loopBody(node.body)}`
+  }
+
+  private loopBody(node: StatementNode): string {
+    const body = this.visit(node)
+    return this.options.instrument ? `{ ${GUARD_PREFIX}tick(); ${body.trim()} }` : body
+  }
+
+  private functionBody(body: string): string {
+    if (!this.options.instrument)
+      return body
+    return `{ ${GUARD_PREFIX}enter(); try ${body} finally { ${GUARD_PREFIX}exit(); } }`
+  }
+
+  // A tracked async function runs its body in an async arrow and returns the promise __pl_async gives back
+  private asyncBody(body: string): string {
+    return `{ return ${GUARD_PREFIX}async((async () => ${body})()); }`
   }
 
   private visitReturnStatement(node: ReturnStatementNode): string {
-    if (node.argument) {
+    if (node.argument)
       return `${this.getIndent()}return ${this.visit(node.argument)};`
-    }
+
     return `${this.getIndent()}return;`
   }
 
-  private visitBreakStatement(node: BreakStatementNode): string {
+  private visitTryStatement(node: TryStatementNode): string {
+    let result = `${this.getIndent()}try ${this.visit(node.block)}`
+
+    if (node.handler) {
+      const handler = this.visit(node.handler)
+      if (this.options.guardErrors) {
+        const name = node.param ? node.param.name : `${GUARD_PREFIX}error`
+        const guard = `${node.param ? `${name} = ` : ''}${GUARD_PREFIX}catch(${name});`
+        result += ` catch (${name}) ${handler.replace('{\n', `{\n${this.getIndent()}${' '.repeat(this.INDENT_SIZE)}${guard}\n`)}`
+      }
+      else {
+        result += ` catch${node.param ? ` (${node.param.name})` : ''} ${handler}`
+      }
+    }
+    if (node.finalizer)
+      result += ` finally ${this.visit(node.finalizer)}`
+
+    return result
+  }
+
+  private visitThrowStatement(node: ThrowStatementNode): string {
+    const argument = this.visit(node.argument)
+    if (this.options.guardErrors)
+      return `${this.getIndent()}throw ${GUARD_PREFIX}throw(${argument}, ${node.line}, ${node.column});`
+
+    return `${this.getIndent()}throw ${argument};`
+  }
+
+  private visitBreakStatement(_node: BreakStatementNode): string {
     return `${this.getIndent()}break;`
   }
 
-  private visitContinueStatement(node: ContinueStatementNode): string {
+  private visitContinueStatement(_node: ContinueStatementNode): string {
     return `${this.getIndent()}continue;`
   }
 
   private visitVariableDeclaration(node: VariableDeclarationNode): string {
     const declarations = node.declarations
-      .map(decl => {
+      .map((decl) => {
         const id = this.visit(decl.id)
         const init = decl.init ? ` = ${this.visit(decl.init)}` : ''
         return `${id}${init}`
@@ -165,10 +344,13 @@ export class Transpiler {
 
   private visitFunctionDeclaration(node: FunctionDeclarationNode): string {
     const id = this.visit(node.id)
-    const params = node.params.map(p => this.visit(p)).join(', ')
-    const body = this.visit(node.body)
+    const params = this.parameters(node)
+    const body = this.functionBody(this.visit(node.body))
+
+    if (node.async && this.options.trackAsync)
+      return `${this.getIndent()}function ${id}(${params}) ${this.asyncBody(body)}`
 
-    return `${this.getIndent()}function ${id}(${params}) ${body}`
+    return `${this.getIndent()}${node.async ? 'async ' : ''}function ${id}(${params}) ${body}`
   }
 
   private visitSwitchStatement(node: SwitchStatementNode): string {
@@ -176,10 +358,10 @@ export class Transpiler {
 
     this.indent += this.INDENT_SIZE
     const cases = node.cases
-      .map(c => {
+      .map((c) => {
         const test = c.test ? `case ${this.visit(c.test)}:` : 'default:'
         const consequent = c.consequent
-          .map(stmt => {
+          .map((stmt) => {
             this.indent += this.INDENT_SIZE
             const result = this.visit(stmt)
             this.indent -= this.INDENT_SIZE
@@ -195,16 +377,34 @@ export class Transpiler {
     return `${this.getIndent()}switch (${discriminant}) {\n${cases}\n${this.getIndent()}}`
   }
 
+  private visitImportDeclaration(node: ImportDeclarationNode): string {
+    const module = this.options.importModule
+      ? this.options.importModule(node.source.value)
+      : `${GUARD_PREFIX}import(${JSON.stringify(node.source.value)})`
+    if (node.specifiers.length === 0)
+      return `${this.getIndent()}${module};`
+
+    const names = node.specifiers.map(specifier => specifier.imported.name === specifier.local.name
+      ? specifier.local.name
+      : `${specifier.imported.name}: ${specifier.local.name}`)
+    return `${this.getIndent()}const { ${names.join(', ')} } = ${module};`
+  }
+
+  private visitExportDeclaration(node: ExportDeclarationNode): string {
+    return this.visit(node.declaration)
+  }
+
   private visitBinaryExpression(node: BinaryExpressionNode): string {
-    return `(${this.visit(node.left)} ${node.operator} ${this.visit(node.right)})`
+    const jsOperator = node.operator === '^' ? '**' : node.operator
+    return `(${this.visit(node.left)} ${jsOperator} ${this.visit(node.right)})`
   }
 
   private visitUnaryExpression(node: UnaryExpressionNode): string {
-    if (node.prefix) {
-      return `(${node.operator}${this.visit(node.argument)})`
-    } else {
-      return `(${this.visit(node.argument)}${node.operator})`
-    }
+    const jsOperator = node.operator === 'not' ? '!' : node.operator
+    if (node.prefix)
+      return `(${jsOperator}${this.visit(node.argument)})`
+    else
+      return `(${this.visit(node.argument)}${jsOperator})`
   }
 
   private visitAssignmentExpression(node: AssignmentExpressionNode): string {
@@ -217,17 +417,27 @@ export class Transpiler {
   }
 
   private visitCallExpression(node: CallExpressionNode): string {
-    const callee = this.visit(node.callee)
+    const { callee } = node
+
+    if (this.options.libraryMethods && callee.type === NodeType.MemberExpression && !callee.computed && callee.property.type === NodeType.Identifier) {
+      const object = this.visit(callee.object)
+      const args = node.arguments.map(arg => this.visit(arg))
+      return `${GUARD_PREFIX}invoke(${[object, JSON.stringify(callee.property.name), ...args].join(', ')})`
+    }
+
+    const code = this.visit(callee)
     const args = node.arguments.map(arg => this.visit(arg)).join(', ')
-    return `${callee}(${args})`
+    return `${code}(${args})`
   }
 
   private visitMemberExpression(node: MemberExpressionNode): string {
     const object = this.visit(node.object)
 
     if (node.computed) {
-      return `${object}[${this.visit(node.property)}]`
-    } else {
+      const property = this.visit(node.property)
+      return this.options.instrument ? `${object}[${GUARD_PREFIX}key(${property})]` : `${object}[${property}]`
+    }
+    else {
       return `${object}.${this.visit(node.property)}`
     }
   }
@@ -237,15 +447,15 @@ export class Transpiler {
   }
 
   private visitLiteral(node: LiteralNode): string {
-    if (typeof node.value === 'string') {
-      return `"${node.value}"`
-    }
-    if (node.value === null) {
+    if (typeof node.value === 'string')
+      return JSON.stringify(node.value)
+
+    if (node.value === null)
       return 'null'
-    }
-    if (typeof node.value === 'boolean') {
+
+    if (typeof node.value === 'boolean')
       return node.value ? 'true' : 'false'
-    }
+
     return String(node.value)
   }
 
@@ -256,7 +466,7 @@ export class Transpiler {
 
   private visitObjectExpression(node: ObjectExpressionNode): string {
     const properties = node.properties
-      .map(prop => {
+      .map((prop) => {
         const key = this.visit(prop.key)
         const value = this.visit(prop.value)
         return `${key}: ${value}`
@@ -267,17 +477,34 @@ export class Transpiler {
   }
 
   private visitArrowFunctionExpression(node: ArrowFunctionExpressionNode): string {
-    const params = node.params.map(p => this.visit(p)).join(', ')
+    const tracked = node.async && this.options.trackAsync
+    const params = `${(node.async && !tracked) ? 'async ' : ''}(${this.parameters(node)})`
 
     if (node.body.type === NodeType.Block) {
+      const body = this.functionBody(this.visit(node.body))
+      return `${params} => ${tracked ? this.asyncBody(body) : body}`
+    }
+    else if (this.options.instrument || tracked) {
+      const body = this.functionBody(`{ return ${this.visit(node.body)}; }`)
+      return `${params} => ${tracked ? this.asyncBody(body) : body}`
+    }
+    else {
+      // An object literal body would read as a block without the parentheses
       const body = this.visit(node.body)
-      return `(${params}) => ${body}`
-    } else {
-      const body = this.visit(node.body)
-      return `(${params}) => ${body}`
+      return node.body.type === NodeType.ObjectExpression ? `${params} => (${body})` : `${params} => ${body}`
     }
   }
 
+  private parameters(node: FunctionParameters): string {
+    const params = node.params.map((param, i) => {
+      const value = node.defaults?.[i]
+      return value ? `${this.visit(param)} = ${this.visit(value)}` : this.visit(param)
+    })
+    if (node.rest)
+      params.push(`...${this.visit(node.rest)}`)
+    return params.join(', ')
+  }
+
   private visitConditionalExpression(node: ConditionalExpressionNode): string {
     const test = this.visit(node.test)
     const consequent = this.visit(node.consequent)
@@ -286,6 +513,11 @@ export class Transpiler {
     return `${test} ? ${consequent} : ${alternate}`
   }
 
+  private visitAwaitExpression(node: AwaitExpressionNode): string {
+    const argument = this.visit(node.argument)
+    return this.options.guardAwait ? `(await ${GUARD_PREFIX}await(${argument}))` : `(await ${argument})`
+  }
+
   private getIndent(): string {
     return ' '.repeat(this.indent)
   }
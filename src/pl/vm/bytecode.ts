@@ -0,0 +1,478 @@
+/**
+ * PL Bytecode
+ * Instruction set of the PL virtual machine, and the binary format compiled programs are stored in
+ */
+
+import { RuntimeError } from '../runtime/runtime'
+
+/**
+ * Instructions, each followed by its operands in the code array.
+ * Operands are indices into the constant pool, scope slots or jump targets.
+ */
+export enum Opcode {
+  /** k: push constant k */
+  CONST,
+  POP,
+  DUP,
+  /** Duplicate the top two values, e.g. object and key of a compound member assignment */
+  DUP2,
+
+  /** depth slot: push a variable of the scope depth levels up */
+  LOAD,
+  /** depth slot: assign the top value to a variable, leaving it on the stack */
+  STORE,
+  /** depth slot: pop the top value into a variable that is being declared */
+  DEFINE,
+  /** k: push the global named by constant k */
+  LOAD_GLOBAL,
+  /** k: assign the top value to the global named by constant k */
+  STORE_GLOBAL,
+  /** s: enter a block scope with layout s */
+  ENTER_SCOPE,
+  EXIT_SCOPE,
+
+  /** k: replace the object with its property named by constant k */
+  GET_PROP,
+  /** Replace the object and key with the property */
+  GET_INDEX,
+  /** k: set the property named by constant k of the object below the value */
+  SET_PROP,
+  /** Set the property of the object and key below the value */
+  SET_INDEX,
+  /** n: collect the top n values into an array */
+  ARRAY,
+  /** n k1 ... kn: collect the top n values into an object with the keys named by the constants */
+  OBJECT,
+
+  ADD,
+  SUB,
+  MUL,
+  DIV,
+  MOD,
+  POW,
+  EQ,
+  NE,
+  /** Strict equality, for switch cases */
+  STRICT_EQ,
+  LT,
+  LE,
+  GT,
+  GE,
+  NOT,
+  NEG,
+  PLUS,
+
+  /** target */
+  JUMP,
+  /** target: pop the top value and jump if it is falsy */
+  JUMP_IF_FALSE,
+  /** target: pop the top value and jump if it is truthy */
+  JUMP_IF_TRUE,
+  /** target: jump if the top value is falsy, keeping it; otherwise pop it (and) */
+  JUMP_IF_FALSE_OR_POP,
+  /** target: jump if the top value is truthy, keeping it; otherwise pop it (or) */
+  JUMP_IF_TRUE_OR_POP,
+
+  /** argc k: call the function below the arguments; constant k describes it for errors */
+  CALL,
+  /** k: push the method named by constant k of the object, and whether it is a library function */
+  METHOD,
+  /** Replace the key with the method of the object below it, and push false */
+  METHOD_INDEX,
+  /** argc k: call the method below the arguments, with the object below the method as this */
+  CALL_METHOD,
+  /** f: push a closure of function f over the current scope */
+  CLOSURE,
+  RETURN,
+  /** Suspend until the top value settles, then replace it with the result */
+  AWAIT,
+
+  /** Throw the top value, as a PL throw statement */
+  THROW,
+  /** Throw the top value as it is, e.g. an error a finally block was run for */
+  RETHROW,
+  /** target: errors until the matching POP_TRY jump to target, with the error on the stack */
+  SETUP_TRY,
+  POP_TRY,
+  /** Replace the error with what a PL catch clause receives, or rethrow errors that end the run */
+  CATCH,
+  /** m k: push the export named by constant k of the module named by constant m */
+  IMPORT,
+}
+
+/** Number of operands of each instruction; OBJECT has as many more as its first operand says */
+export const OPERANDS: Record<Opcode, number> = {
+  [Opcode.CONST]: 1,
+  [Opcode.POP]: 0,
+  [Opcode.DUP]: 0,
+  [Opcode.DUP2]: 0,
+  [Opcode.LOAD]: 2,
+  [Opcode.STORE]: 2,
+  [Opcode.DEFINE]: 2,
+  [Opcode.LOAD_GLOBAL]: 1,
+  [Opcode.STORE_GLOBAL]: 1,
+  [Opcode.ENTER_SCOPE]: 1,
+  [Opcode.EXIT_SCOPE]: 0,
+  [Opcode.GET_PROP]: 1,
+  [Opcode.GET_INDEX]: 0,
+  [Opcode.SET_PROP]: 1,
+  [Opcode.SET_INDEX]: 0,
+  [Opcode.ARRAY]: 1,
+  [Opcode.OBJECT]: 1,
+  [Opcode.ADD]: 0,
+  [Opcode.SUB]: 0,
+  [Opcode.MUL]: 0,
+  [Opcode.DIV]: 0,
+  [Opcode.MOD]: 0,
+  [Opcode.POW]: 0,
+  [Opcode.EQ]: 0,
+  [Opcode.NE]: 0,
+  [Opcode.STRICT_EQ]: 0,
+  [Opcode.LT]: 0,
+  [Opcode.LE]: 0,
+  [Opcode.GT]: 0,
+  [Opcode.GE]: 0,
+  [Opcode.NOT]: 0,
+  [Opcode.NEG]: 0,
+  [Opcode.PLUS]: 0,
+  [Opcode.JUMP]: 1,
+  [Opcode.JUMP_IF_FALSE]: 1,
+  [Opcode.JUMP_IF_TRUE]: 1,
+  [Opcode.JUMP_IF_FALSE_OR_POP]: 1,
+  [Opcode.JUMP_IF_TRUE_OR_POP]: 1,
+  [Opcode.CALL]: 2,
+  [Opcode.METHOD]: 1,
+  [Opcode.METHOD_INDEX]: 0,
+  [Opcode.CALL_METHOD]: 2,
+  [Opcode.CLOSURE]: 1,
+  [Opcode.RETURN]: 0,
+  [Opcode.AWAIT]: 0,
+  [Opcode.THROW]: 0,
+  [Opcode.RETHROW]: 0,
+  [Opcode.SETUP_TRY]: 1,
+  [Opcode.POP_TRY]: 0,
+  [Opcode.CATCH]: 0,
+  [Opcode.IMPORT]: 2,
+}
+
+export type Constant = number | string | boolean | null | undefined
+
+/**
+ * Variables of a scope, by slot. Names are kept for error messages and for
+ * reading variables that are not declared yet from enclosing scopes, as the
+ * interpreter does. Names starting with % are temporaries of the compiler.
+ */
+export interface ScopeLayout {
+  names: string[]
+  /** Whether each slot holds a constant */
+  constant: boolean[]
+}
+
+export interface FunctionProto {
+  /** Name of a declared function, anonymous for arrow functions, <program> for the program */
+  name: string
+  /** Number of named parameters, which take the first slots of the function scope */
+  params: number
+  /** Whether the slot after the parameters receives the remaining arguments */
+  rest: boolean
+  async: boolean
+  /** Layout of the function scope */
+  scope: number
+  code: number[]
+  /** Offset, line and column of each instruction that starts at a new source position */
+  positions: number[]
+}
+
+export interface BytecodeProgram {
+  /** Hash of the source the program was compiled from, empty if unknown */
+  hash: string
+  /** Functions of the program; the first is the program itself */
+  functions: FunctionProto[]
+  constants: Constant[]
+  scopes: ScopeLayout[]
+}
+
+// Version of the binary format, raised whenever instructions or their operands change
+export const BYTECODE_VERSION = 1
+
+const MAGIC = 'PLBC'
+
+enum ConstantTag {
+  Undefined,
+  Null,
+  False,
+  True,
+  Number,
+  String,
+}
+
+/**
+ * Source position of the instruction at an offset
+ */
+export function positionAt(proto: FunctionProto, offset: number): { line: number; column: number } | undefined {
+  let found: { line: number; column: number } | undefined
+  for (let i = 0; i < proto.positions.length && proto.positions[i] <= offset; i += 3)
+    found = { line: proto.positions[i + 1], column: proto.positions[i + 2] }
+
+  return found
+}
+
+/**
+ * Hash of a source text, to recognize programs that were compiled before.
+ * Two 32-bit FNV-1a variants, which is plenty for a cache that also compares the source.
+ */
+export function hashSource(source: string): string {
+  let a = 0x811C9DC5
+  let b = 0x01000193 ^ source.length
+  for (let i = 0; i < source.length; i++) {
+    const code = source.charCodeAt(i)
+    a = Math.imul(a ^ code, 0x01000193)
+    b = Math.imul(b ^ code, 0x5BD1E995) ^ (b >>> 15)
+  }
+  return (a >>> 0).toString(16).padStart(8, '0') + (b >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Encode a compiled program, so it can be stored and run later without parsing the source again
+ */
+export function serialize(program: BytecodeProgram): Uint8Array {
+  const writer = new ByteWriter()
+  writer.string(MAGIC)
+  writer.uint(BYTECODE_VERSION)
+  writer.string(program.hash)
+
+  writer.uint(program.constants.length)
+  program.constants.forEach((constant) => {
+    if (typeof constant === 'number') {
+      writer.byte(ConstantTag.Number)
+      writer.float(constant)
+    }
+    else if (typeof constant === 'string') {
+      writer.byte(ConstantTag.String)
+      writer.string(constant)
+    }
+    else {
+      writer.byte(constant === undefined ? ConstantTag.Undefined : constant === null ? ConstantTag.Null : constant ? ConstantTag.True : ConstantTag.False)
+    }
+  })
+
+  writer.uint(program.scopes.length)
+  program.scopes.forEach((scope) => {
+    writer.uint(scope.names.length)
+    scope.names.forEach((name, slot) => {
+      writer.string(name)
+      writer.byte(scope.constant[slot] ? 1 : 0)
+    })
+  })
+
+  writer.uint(program.functions.length)
+  program.functions.forEach((proto) => {
+    writer.string(proto.name)
+    writer.uint(proto.params)
+    writer.byte((proto.rest ? 1 : 0) | (proto.async ? 2 : 0))
+    writer.uint(proto.scope)
+    writer.uints(proto.code)
+    writer.uints(proto.positions)
+  })
+
+  return writer.bytes()
+}
+
+/**
+ * Decode a program encoded by serialize
+ */
+export function deserialize(bytes: Uint8Array): BytecodeProgram {
+  const reader = new ByteReader(bytes)
+  if (reader.string() !== MAGIC)
+    throw new RuntimeError('Invalid bytecode: not a compiled PL program')
+
+  const version = reader.uint()
+  if (version !== BYTECODE_VERSION)
+    throw new RuntimeError(`Unsupported bytecode version ${version}, expected ${BYTECODE_VERSION}`)
+
+  const hash = reader.string()
+
+  const constants = reader.list((): Constant => {
+    const tag = reader.byte()
+    switch (tag) {
+      case ConstantTag.Undefined: return undefined
+      case ConstantTag.Null: return null
+      case ConstantTag.False: return false
+      case ConstantTag.True: return true
+      case ConstantTag.Number: return reader.float()
+      case ConstantTag.String: return reader.string()
+      default:
+        throw new RuntimeError(`Invalid bytecode: unknown constant tag ${tag}`)
+    }
+  })
+
+  const scopes = reader.list((): ScopeLayout => {
+    const layout: ScopeLayout = { names: [], constant: [] }
+    reader.list(() => {
+      layout.names.push(reader.string())
+      layout.constant.push(reader.byte() === 1)
+    })
+    return layout
+  })
+
+  const functions = reader.list((): FunctionProto => {
+    const name = reader.string()
+    const params = reader.uint()
+    const flags = reader.byte()
+    return {
+      name,
+      params,
+      rest: (flags & 1) !== 0,
+      async: (flags & 2) !== 0,
+      scope: reader.uint(),
+      code: reader.uints(),
+      positions: reader.uints(),
+    }
+  })
+
+  if (!reader.done)
+    throw new RuntimeError('Invalid bytecode: unexpected data after the program')
+
+  if (functions.length === 0)
+    throw new RuntimeError('Invalid bytecode: the program has no code')
+
+  functions.forEach(validate)
+  return { hash, functions, constants, scopes }
+}
+
+/**
+ * Check that the code of a function is a sequence of whole, known instructions
+ */
+function validate(proto: FunctionProto): void {
+  const code = proto.code
+  let pc = 0
+  while (pc < code.length) {
+    const opcode = code[pc] as Opcode
+    if (!(opcode in OPERANDS))
+      throw new RuntimeError(`Invalid bytecode: unknown opcode ${opcode} in ${proto.name}`)
+
+    pc += 1 + OPERANDS[opcode] + (opcode === Opcode.OBJECT ? code[pc + 1] ?? 0 : 0)
+  }
+  if (pc > code.length)
+    throw new RuntimeError(`Invalid bytecode: truncated instruction in ${proto.name}`)
+}
+
+/**
+ * Growable buffer of unsigned LEB128 integers, float64 numbers and UTF-8 strings
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(256)
+  private length = 0
+  private readonly encoder = new TextEncoder()
+
+  byte(value: number): void {
+    this.reserve(1)
+    this.buffer[this.length++] = value
+  }
+
+  uint(value: number): void {
+    do {
+      let byte = value % 128
+      value = Math.floor(value / 128)
+      if (value > 0)
+        byte |= 128
+      this.byte(byte)
+    } while (value > 0)
+  }
+
+  uints(values: number[]): void {
+    this.uint(values.length)
+    values.forEach(value => this.uint(value))
+  }
+
+  float(value: number): void {
+    this.reserve(8)
+    new DataView(this.buffer.buffer).setFloat64(this.length, value)
+    this.length += 8
+  }
+
+  string(value: string): void {
+    const encoded = this.encoder.encode(value)
+    this.uint(encoded.length)
+    this.reserve(encoded.length)
+    this.buffer.set(encoded, this.length)
+    this.length += encoded.length
+  }
+
+  bytes(): Uint8Array {
+    return this.buffer.slice(0, this.length)
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length)
+      return
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + size))
+    grown.set(this.buffer.subarray(0, this.length))
+    this.buffer = grown
+  }
+}
+
+class ByteReader {
+  private offset = 0
+  private readonly view: DataView
+  private readonly decoder = new TextDecoder()
+
+  constructor(private readonly buffer: Uint8Array) {
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+  }
+
+  get done(): boolean {
+    return this.offset === this.buffer.length
+  }
+
+  byte(): number {
+    if (this.offset >= this.buffer.length)
+      throw new RuntimeError('Invalid bytecode: unexpected end of data')
+
+    return this.buffer[this.offset++]
+  }
+
+  uint(): number {
+    let value = 0
+    let scale = 1
+    let byte: number
+    do {
+      byte = this.byte()
+      value += (byte & 127) * scale
+      scale *= 128
+    } while (byte & 128)
+    return value
+  }
+
+  uints(): number[] {
+    return this.list(() => this.uint())
+  }
+
+  float(): number {
+    if (this.offset + 8 > this.buffer.length)
+      throw new RuntimeError('Invalid bytecode: unexpected end of data')
+
+    const value = this.view.getFloat64(this.offset)
+    this.offset += 8
+    return value
+  }
+
+  string(): string {
+    const length = this.uint()
+    if (this.offset + length > this.buffer.length)
+      throw new RuntimeError('Invalid bytecode: unexpected end of data')
+
+    const value = this.decoder.decode(this.buffer.subarray(this.offset, this.offset + length))
+    this.offset += length
+    return value
+  }
+
+  list<T>(read: () => T): T[] {
+    const count = this.uint()
+    const items: T[] = []
+    for (let i = 0; i < count; i++)
+      items.push(read())
+
+    return items
+  }
+}
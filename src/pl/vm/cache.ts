@@ -0,0 +1,50 @@
+/**
+ * PL Program Cache
+ * Compiled programs by source hash, so that running the same source again skips parsing and compiling
+ */
+
+import type { BytecodeProgram } from './bytecode'
+import { hashSource } from './bytecode'
+
+interface CacheEntry {
+  source: string
+  program: BytecodeProgram
+}
+
+export class ProgramCache {
+  // Maps keep insertion order, so the first entry is the least recently used
+  private readonly entries: Map<string, CacheEntry> = new Map()
+
+  constructor(private readonly capacity: number = 100) {}
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * The program compiled from the source, or from compile on a miss
+   */
+  get(source: string, compile: () => BytecodeProgram): BytecodeProgram {
+    const hash = hashSource(source)
+    const entry = this.entries.get(hash)
+
+    // The source is compared as well, as different sources can share a hash
+    if (entry && entry.source === source) {
+      this.entries.delete(hash)
+      this.entries.set(hash, entry)
+      return entry.program
+    }
+
+    const program = compile()
+    this.entries.delete(hash)
+    this.entries.set(hash, { source, program })
+    if (this.entries.size > this.capacity)
+      this.entries.delete(this.entries.keys().next().value!)
+
+    return program
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+}
@@ -0,0 +1,861 @@
+/**
+ * PL Bytecode Compiler
+ * Compiles the AST to bytecode for the PL virtual machine, resolving variables to scope slots
+ */
+
+import type {
+  ASTNode,
+  ArrowFunctionExpressionNode,
+  AssignmentExpressionNode,
+  BlockNode,
+  CallExpressionNode,
+  ExpressionNode,
+  ForStatementNode,
+  FunctionDeclarationNode,
+  IdentifierNode,
+  ImportDeclarationNode,
+  MemberExpressionNode,
+  ProgramNode,
+  StatementNode,
+  SwitchStatementNode,
+  TryStatementNode,
+  VariableDeclarationNode,
+} from '../parser/parser'
+import {
+  NodeType,
+} from '../parser/parser'
+import { RuntimeError } from '../runtime/runtime'
+import type { BytecodeProgram, Constant, FunctionProto, ScopeLayout } from './bytecode'
+import { Opcode, hashSource } from './bytecode'
+
+/**
+ * A scope as the compiler sees it; the VM creates one at run time for each
+ * function call and each entered block scope, in the same nesting
+ */
+interface CompileScope {
+  layout: ScopeLayout
+  index: number
+  slots: Map<string, number>
+  parent?: CompileScope
+  /** Whether var declarations go here: the scope of a function or of the program */
+  function: boolean
+}
+
+/**
+ * What break, continue and return leave on their way out
+ */
+type Exit =
+  | { kind: 'scope'; scope: CompileScope }
+  | { kind: 'loop'; breaks: number[]; continues: number[] }
+  | { kind: 'switch'; breaks: number[] }
+  /** A protected block; the finalizer runs when a jump leaves it */
+  | { kind: 'try'; scope: CompileScope; finalizer?: BlockNode }
+
+interface FunctionState {
+  proto: FunctionProto
+  exits: Exit[]
+}
+
+const BINARY_OPCODES: Record<string, Opcode> = {
+  '+': Opcode.ADD,
+  '-': Opcode.SUB,
+  '*': Opcode.MUL,
+  '/': Opcode.DIV,
+  '%': Opcode.MOD,
+  '^': Opcode.POW,
+  '==': Opcode.EQ,
+  '!=': Opcode.NE,
+  '<': Opcode.LT,
+  '<=': Opcode.LE,
+  '>': Opcode.GT,
+  '>=': Opcode.GE,
+}
+
+const UNARY_OPCODES: Record<string, Opcode> = {
+  'not': Opcode.NOT,
+  '!': Opcode.NOT,
+  '-': Opcode.NEG,
+  '+': Opcode.PLUS,
+}
+
+const PROGRAM_NAME = '<program>'
+const RESULT_SLOT = '%result'
+const RETURN_SLOT = '%return'
+
+export class BytecodeCompiler {
+  private program: BytecodeProgram = { hash: '', functions: [], constants: [], scopes: [] }
+  private readonly constantIndex: Map<string, number> = new Map()
+  private scope!: CompileScope
+  private current!: FunctionState
+  private temporaries = 0
+
+  /**
+   * Compile a parsed program; the source, if given, is hashed into the result
+   */
+  compile(ast: ProgramNode, source?: string): BytecodeProgram {
+    this.program = { hash: source === undefined ? '' : hashSource(source), functions: [], constants: [], scopes: [] }
+    this.constantIndex.clear()
+    this.temporaries = 0
+
+    const proto = this.beginFunction(PROGRAM_NAME, false, undefined)
+    this.program.functions.push(proto)
+    this.declareFunctionScope(ast.body, [])
+    const result = this.temporary(RESULT_SLOT)
+
+    this.emitConstant(ast, undefined)
+    this.emit(ast, Opcode.DEFINE, 0, result)
+    ast.body.forEach((stmt) => {
+      if (stmt.type === NodeType.ImportDeclaration)
+        this.compileImports(stmt)
+    })
+    this.hoistFunctions(ast.body)
+
+    ast.body.forEach((stmt) => {
+      if (stmt.type === NodeType.ExpressionStatement) {
+        this.compileExpression(stmt.expression)
+        this.emit(stmt, Opcode.DEFINE, 0, result)
+      }
+      else {
+        this.compileStatement(stmt)
+      }
+    })
+
+    this.emit(ast, Opcode.LOAD, 0, result)
+    this.emit(ast, Opcode.RETURN)
+    return this.program
+  }
+
+  // Functions and scopes
+
+  private beginFunction(name: string, async: boolean, parent: CompileScope | undefined): FunctionProto {
+    const proto: FunctionProto = { name, params: 0, rest: false, async, scope: 0, code: [], positions: [] }
+    this.scope = this.createScope(parent, true)
+    proto.scope = this.scope.index
+    this.current = { proto, exits: [] }
+    return proto
+  }
+
+  private createScope(parent: CompileScope | undefined, isFunction: boolean): CompileScope {
+    const layout: ScopeLayout = { names: [], constant: [] }
+    this.program.scopes.push(layout)
+    return { layout, index: this.program.scopes.length - 1, slots: new Map(), parent, function: isFunction }
+  }
+
+  private declare(scope: CompileScope, name: string, constant: boolean): number {
+    let slot = scope.slots.get(name)
+    if (slot === undefined) {
+      slot = scope.layout.names.length
+      scope.slots.set(name, slot)
+      scope.layout.names.push(name)
+      scope.layout.constant.push(constant)
+    }
+    else if (constant) {
+      scope.layout.constant[slot] = true
+    }
+    return slot
+  }
+
+  /**
+   * Slot for a value the compiler keeps between statements, in the function scope
+   */
+  private temporary(name: string): number {
+    let scope = this.scope
+    while (!scope.function) scope = scope.parent!
+    return this.declare(scope, name, false)
+  }
+
+  /**
+   * Declare what a function body or the program keeps in its function scope:
+   * var declarations anywhere outside nested functions, and the constants and
+   * functions declared directly in the body
+   */
+  private declareFunctionScope(body: StatementNode[], params: IdentifierNode[]): void {
+    params.forEach(param => this.declare(this.scope, param.name, false))
+    this.declareBlock(body)
+    this.collectVars(body)
+  }
+
+  /**
+   * Declare the constants and functions of a statement list in the current scope
+   */
+  private declareBlock(body: StatementNode[]): void {
+    body.forEach((node) => {
+      const stmt = node.type === NodeType.ExportDeclaration ? node.declaration : node
+      if (stmt.type === NodeType.FunctionDeclaration)
+        this.declare(this.scope, stmt.id.name, false)
+      else if (stmt.type === NodeType.VariableDeclaration && stmt.kind === 'const')
+        stmt.declarations.forEach(decl => this.declare(this.scope, decl.id.name, true))
+      else if (stmt.type === NodeType.ImportDeclaration)
+        stmt.specifiers.forEach(specifier => this.declare(this.scope, specifier.local.name, true))
+    })
+  }
+
+  private collectVars(node: any): void {
+    if (Array.isArray(node)) {
+      node.forEach(child => this.collectVars(child))
+      return
+    }
+    if (!node || typeof node !== 'object')
+      return
+
+    switch (node.type) {
+      case NodeType.FunctionDeclaration:
+      case NodeType.ArrowFunctionExpression:
+        return
+      case NodeType.VariableDeclaration:
+        if (node.kind === 'var')
+          (node as VariableDeclarationNode).declarations.forEach(decl => this.declare(this.scope, decl.id.name, false))
+
+        break
+    }
+    Object.values(node).forEach((child) => {
+      if (typeof child === 'object')
+        this.collectVars(child)
+    })
+  }
+
+  /**
+   * Whether a statement list declares anything of its own, so that it needs a block scope
+   */
+  private hasDeclarations(body: StatementNode[]): boolean {
+    return body.some(stmt => stmt.type === NodeType.FunctionDeclaration || (stmt.type === NodeType.VariableDeclaration && stmt.kind === 'const'))
+  }
+
+  /**
+   * Enter a block scope for the declarations, if there are any; returns whether it did
+   */
+  private enterScope(node: ASTNode, body: StatementNode[], names: string[] = []): boolean {
+    if (names.length === 0 && !this.hasDeclarations(body))
+      return false
+
+    this.scope = this.createScope(this.scope, false)
+    names.forEach(name => this.declare(this.scope, name, false))
+    this.declareBlock(body)
+    this.emit(node, Opcode.ENTER_SCOPE, this.scope.index)
+    this.current.exits.push({ kind: 'scope', scope: this.scope })
+    return true
+  }
+
+  private exitScope(node: ASTNode, entered: boolean): void {
+    if (!entered)
+      return
+    this.emit(node, Opcode.EXIT_SCOPE)
+    this.current.exits.pop()
+    this.scope = this.scope.parent!
+  }
+
+  private hoistFunctions(body: StatementNode[]): void {
+    body.forEach((node) => {
+      const stmt = node.type === NodeType.ExportDeclaration ? node.declaration : node
+      if (stmt.type === NodeType.FunctionDeclaration) {
+        this.compileFunction(stmt, stmt.id.name)
+        this.emitStore(stmt.id, stmt.id.name, Opcode.DEFINE)
+      }
+    })
+  }
+
+  private compileFunction(node: FunctionDeclarationNode | ArrowFunctionExpressionNode, name: string): void {
+    const outer = { scope: this.scope, current: this.current }
+    const proto = this.beginFunction(name, node.async === true, this.scope)
+    const index = this.program.functions.length
+    this.program.functions.push(proto)
+
+    proto.params = node.params.length
+    proto.rest = node.rest !== undefined
+    const body = node.body.type === NodeType.Block ? node.body.body : []
+    this.declareFunctionScope(body, node.rest ? [...node.params, node.rest] : node.params)
+
+    // Like JavaScript, a default applies to missing and undefined arguments and sees the parameters before it
+    node.defaults?.forEach((value, i) => {
+      if (!value)
+        return
+      const param = node.params[i]
+      this.emit(param, Opcode.LOAD, 0, i)
+      this.emitConstant(param, undefined)
+      this.emit(param, Opcode.STRICT_EQ)
+      const skip = this.emitJump(param, Opcode.JUMP_IF_FALSE)
+      this.compileExpression(value)
+      this.emit(param, Opcode.DEFINE, 0, i)
+      this.patch(skip)
+    })
+
+    if (node.body.type === NodeType.Block) {
+      this.hoistFunctions(body)
+      body.forEach(stmt => this.compileStatement(stmt))
+      this.emitConstant(node.body, undefined)
+    }
+    else {
+      this.compileExpression(node.body)
+    }
+    this.emit(node.body, Opcode.RETURN)
+
+    this.scope = outer.scope
+    this.current = outer.current
+    this.emit(node, Opcode.CLOSURE, index)
+  }
+
+  // Statements
+
+  private compileStatement(node: StatementNode): void {
+    switch (node.type) {
+      case NodeType.Block: {
+        const entered = this.enterScope(node, node.body)
+        this.hoistFunctions(node.body)
+        node.body.forEach(stmt => this.compileStatement(stmt))
+        this.exitScope(node, entered)
+        return
+      }
+      case NodeType.ExpressionStatement:
+        this.compileExpression(node.expression)
+        this.emit(node, Opcode.POP)
+        return
+      case NodeType.IfStatement: {
+        this.compileExpression(node.test)
+        const otherwise = this.emitJump(node, Opcode.JUMP_IF_FALSE)
+        this.compileStatement(node.consequent)
+        if (node.alternate) {
+          const done = this.emitJump(node, Opcode.JUMP)
+          this.patch(otherwise)
+          this.compileStatement(node.alternate)
+          this.patch(done)
+        }
+        else {
+          this.patch(otherwise)
+        }
+        return
+      }
+      case NodeType.WhileStatement: {
+        const start = this.current.proto.code.length
+        this.compileExpression(node.test)
+        const end = this.emitJump(node, Opcode.JUMP_IF_FALSE)
+        const loop = this.compileLoopBody(node.body)
+        this.emit(node, Opcode.JUMP, start)
+        this.patch(end)
+        this.patchAll(loop.breaks)
+        loop.continues.forEach(jump => this.patch(jump, start))
+        return
+      }
+      case NodeType.ForStatement:
+        this.compileFor(node)
+        return
+      case NodeType.ReturnStatement:
+        if (node.argument)
+          this.compileExpression(node.argument)
+        else
+          this.emitConstant(node, undefined)
+
+        this.compileReturn(node)
+        return
+      case NodeType.BreakStatement:
+      case NodeType.ContinueStatement:
+        this.compileJump(node)
+        return
+      case NodeType.VariableDeclaration:
+        this.compileVariableDeclaration(node)
+        return
+      case NodeType.FunctionDeclaration:
+        // Defined when the enclosing block was entered
+        return
+      case NodeType.SwitchStatement:
+        this.compileSwitch(node)
+        return
+      case NodeType.TryStatement:
+        this.compileTry(node)
+        return
+      case NodeType.ThrowStatement:
+        this.compileExpression(node.argument)
+        this.emit(node, Opcode.THROW)
+        return
+      case NodeType.ImportDeclaration:
+        // Bound when the program started
+        return
+      case NodeType.ExportDeclaration:
+        if (node.declaration.type === NodeType.VariableDeclaration)
+          this.compileVariableDeclaration(node.declaration)
+
+        return
+      default:
+        throw new RuntimeError(`Unknown statement type: ${(node as any).type}`)
+    }
+  }
+
+  private compileImports(node: ImportDeclarationNode): void {
+    const source = this.constant(node.source.value)
+    node.specifiers.forEach((specifier) => {
+      this.emit(specifier, Opcode.IMPORT, source, this.constant(specifier.imported.name))
+      this.emitStore(specifier.local, specifier.local.name, Opcode.DEFINE)
+    })
+  }
+
+  private compileVariableDeclaration(node: VariableDeclarationNode): void {
+    node.declarations.forEach((decl) => {
+      if (decl.init)
+        this.compileExpression(decl.init)
+      else
+        this.emitConstant(decl.id, undefined)
+
+      this.emitStore(decl.id, decl.id.name, Opcode.DEFINE)
+    })
+  }
+
+  private compileLoopBody(body: StatementNode): { breaks: number[]; continues: number[] } {
+    const loop: Exit = { kind: 'loop', breaks: [], continues: [] }
+    this.current.exits.push(loop)
+    this.compileStatement(body)
+    this.current.exits.pop()
+    return loop
+  }
+
+  private compileFor(node: ForStatementNode): void {
+    const init = node.init?.type === NodeType.VariableDeclaration ? node.init : undefined
+    const entered = init?.kind === 'const' ? this.enterScope(node, [init]) : false
+
+    if (init) {
+      this.compileVariableDeclaration(init)
+    }
+    else if (node.init) {
+      this.compileExpression(node.init as ExpressionNode)
+      this.emit(node, Opcode.POP)
+    }
+
+    const start = this.current.proto.code.length
+    let end: number | undefined
+    if (node.test) {
+      this.compileExpression(node.test)
+      end = this.emitJump(node, Opcode.JUMP_IF_FALSE)
+    }
+    const loop = this.compileLoopBody(node.body)
+    const update = this.current.proto.code.length
+    if (node.update) {
+      this.compileExpression(node.update)
+      this.emit(node, Opcode.POP)
+    }
+    this.emit(node, Opcode.JUMP, start)
+    if (end !== undefined)
+      this.patch(end)
+    this.patchAll(loop.breaks)
+    loop.continues.forEach(jump => this.patch(jump, update))
+
+    this.exitScope(node, entered)
+  }
+
+  private compileSwitch(node: SwitchStatementNode): void {
+    const discriminant = this.temporary(`%switch${this.temporaries++}`)
+    this.compileExpression(node.discriminant)
+    this.emitStore(node, discriminant, Opcode.DEFINE)
+
+    const entered = this.enterScope(node, node.cases.flatMap(c => c.consequent))
+    const exit: Exit = { kind: 'switch', breaks: [] }
+
+    // Tests run in order until one matches; the default case is taken only if none does
+    const matches = node.cases.map((c) => {
+      if (!c.test)
+        return undefined
+      this.emitLoad(c, discriminant)
+      this.compileExpression(c.test)
+      this.emit(c, Opcode.STRICT_EQ)
+      return this.emitJump(c, Opcode.JUMP_IF_TRUE)
+    })
+    const fallback = this.emitJump(node, Opcode.JUMP)
+
+    // Cases fall through until a break
+    this.current.exits.push(exit)
+    const starts = node.cases.map((c) => {
+      const start = this.current.proto.code.length
+      this.hoistFunctions(c.consequent)
+      c.consequent.forEach(stmt => this.compileStatement(stmt))
+      return start
+    })
+    this.current.exits.pop()
+
+    matches.forEach((jump, i) => {
+      if (jump !== undefined)
+        this.patch(jump, starts[i])
+    })
+    const defaultCase = node.cases.findIndex(c => !c.test)
+    if (defaultCase === -1)
+      this.patch(fallback)
+    else
+      this.patch(fallback, starts[defaultCase])
+
+    this.patchAll(exit.breaks)
+
+    this.exitScope(node, entered)
+  }
+
+  /**
+   * A try with a finally block protects the try and catch blocks together:
+   * on an error it runs the finally block and rethrows, and jumps that leave
+   * it run a copy of the finally block first.
+   */
+  private compileTry(node: TryStatementNode): void {
+    if (!node.finalizer) {
+      this.compileCatch(node)
+      return
+    }
+
+    const error = this.temporary(`%error${this.temporaries++}`)
+    const setup = this.emitJump(node, Opcode.SETUP_TRY)
+    this.current.exits.push({ kind: 'try', scope: this.scope, finalizer: node.finalizer })
+    this.compileCatch(node)
+    this.current.exits.pop()
+    this.emit(node, Opcode.POP_TRY)
+    this.compileStatement(node.finalizer)
+    const done = this.emitJump(node, Opcode.JUMP)
+
+    this.patch(setup)
+    this.emitStore(node, error, Opcode.DEFINE)
+    this.compileStatement(node.finalizer)
+    this.emitLoad(node, error)
+    this.emit(node, Opcode.RETHROW)
+    this.patch(done)
+  }
+
+  private compileCatch(node: TryStatementNode): void {
+    if (!node.handler) {
+      this.compileStatement(node.block)
+      return
+    }
+
+    const setup = this.emitJump(node, Opcode.SETUP_TRY)
+    this.current.exits.push({ kind: 'try', scope: this.scope })
+    this.compileStatement(node.block)
+    this.current.exits.pop()
+    this.emit(node, Opcode.POP_TRY)
+    const done = this.emitJump(node, Opcode.JUMP)
+
+    this.patch(setup)
+    this.emit(node.handler, Opcode.CATCH)
+    const handler = node.handler.body
+    const entered = this.enterScope(node.handler, handler, node.param ? [node.param.name] : [])
+    if (node.param)
+      this.emitStore(node.param, node.param.name, Opcode.DEFINE)
+    else
+      this.emit(node.handler, Opcode.POP)
+
+    this.hoistFunctions(handler)
+    handler.forEach(stmt => this.compileStatement(stmt))
+    this.exitScope(node.handler, entered)
+    this.patch(done)
+  }
+
+  private compileJump(node: StatementNode): void {
+    const isBreak = node.type === NodeType.BreakStatement
+    const exits = this.current.exits
+    const stops = (kind: string) => kind === 'loop' || (isBreak && kind === 'switch')
+    let target = exits.length - 1
+    while (target >= 0 && !stops(exits[target].kind))
+      target--
+    if (target === -1) {
+      const keyword = isBreak ? 'break' : 'continue'
+      throw new RuntimeError(`'${keyword}' is only allowed inside a loop${isBreak ? ' or switch' : ''} at line ${node.line}, column ${node.column}`, node.line, node.column)
+    }
+
+    const scope = this.scope
+    this.unwind(node, target + 1)
+    this.scope = scope
+    const exit = exits[target] as Extract<Exit, { kind: 'loop' | 'switch' }>
+    const jump = this.emitJump(node, Opcode.JUMP)
+    if (isBreak || exit.kind === 'switch')
+      exit.breaks.push(jump)
+    else
+      exit.continues.push(jump)
+  }
+
+  /**
+   * Return the value on the stack, running the finally blocks it leaves first
+   */
+  private compileReturn(node: StatementNode): void {
+    if (!this.current.exits.some(exit => exit.kind === 'try' && exit.finalizer)) {
+      this.emit(node, Opcode.RETURN)
+      return
+    }
+
+    const scope = this.scope
+    const slot = this.temporary(RETURN_SLOT)
+    this.emitStore(node, slot, Opcode.DEFINE)
+    this.unwind(node, 0)
+    this.emitLoad(node, slot)
+    this.scope = scope
+    this.emit(node, Opcode.RETURN)
+  }
+
+  /**
+   * Leave the scopes and protected blocks entered after the exit at depth,
+   * running finally blocks on the way. The compile scope follows along, to
+   * where the jump lands; callers restore it.
+   */
+  private unwind(node: ASTNode, depth: number): void {
+    const exits = this.current.exits
+
+    for (let i = exits.length - 1; i >= depth; i--) {
+      const exit = exits[i]
+      if (exit.kind === 'scope') {
+        this.emit(node, Opcode.EXIT_SCOPE)
+        this.scope = exit.scope.parent!
+      }
+      else if (exit.kind === 'try') {
+        this.emit(node, Opcode.POP_TRY)
+        if (exit.finalizer) {
+          // The copy runs outside of the blocks it protects, so its own jumps leave from there
+          this.current.exits = exits.slice(0, i)
+          this.scope = exit.scope
+          this.compileStatement(exit.finalizer)
+          this.current.exits = exits
+        }
+      }
+    }
+  }
+
+  // Expressions
+
+  private compileExpression(node: ExpressionNode): void {
+    switch (node.type) {
+      case NodeType.Literal:
+        this.emitConstant(node, node.value)
+        return
+      case NodeType.Identifier:
+        this.emitLoad(node, node.name)
+        return
+      case NodeType.BinaryExpression: {
+        const opcode = BINARY_OPCODES[node.operator]
+        if (opcode === undefined)
+          throw this.error(`Unknown operator '${node.operator}'`, node)
+        this.compileExpression(node.left)
+        this.compileExpression(node.right)
+        this.emit(node, opcode)
+        return
+      }
+      case NodeType.UnaryExpression: {
+        const opcode = UNARY_OPCODES[node.operator]
+        if (opcode === undefined)
+          throw this.error(`Unknown operator '${node.operator}'`, node)
+        this.compileExpression(node.argument)
+        this.emit(node, opcode)
+        return
+      }
+      case NodeType.LogicalExpression: {
+        const and = node.operator === 'and' || node.operator === '&&'
+        if (!and && node.operator !== 'or' && node.operator !== '||')
+          throw this.error(`Unknown operator '${node.operator}'`, node)
+
+        this.compileExpression(node.left)
+        const done = this.emitJump(node, and ? Opcode.JUMP_IF_FALSE_OR_POP : Opcode.JUMP_IF_TRUE_OR_POP)
+        this.compileExpression(node.right)
+        this.patch(done)
+        return
+      }
+      case NodeType.AssignmentExpression:
+        this.compileAssignment(node)
+        return
+      case NodeType.CallExpression:
+        this.compileCall(node)
+        return
+      case NodeType.MemberExpression:
+        this.compileExpression(node.object)
+        if (node.computed) {
+          this.compileExpression(node.property)
+          this.emit(node, Opcode.GET_INDEX)
+        }
+        else {
+          this.emit(node, Opcode.GET_PROP, this.constant((node.property as IdentifierNode).name))
+        }
+        return
+      case NodeType.ArrayExpression:
+        node.elements.forEach(element => this.compileExpression(element))
+        this.emit(node, Opcode.ARRAY, node.elements.length)
+        return
+      case NodeType.ObjectExpression: {
+        const keys = node.properties.map((prop) => {
+          this.compileExpression(prop.value)
+          return this.constant(prop.key.type === NodeType.Identifier ? prop.key.name : String((prop.key as any).value))
+        })
+        this.emit(node, Opcode.OBJECT, keys.length, ...keys)
+        return
+      }
+      case NodeType.ArrowFunctionExpression:
+        this.compileFunction(node, 'anonymous')
+        return
+      case NodeType.ConditionalExpression: {
+        this.compileExpression(node.test)
+        const otherwise = this.emitJump(node, Opcode.JUMP_IF_FALSE)
+        this.compileExpression(node.consequent)
+        const done = this.emitJump(node, Opcode.JUMP)
+        this.patch(otherwise)
+        this.compileExpression(node.alternate)
+        this.patch(done)
+        return
+      }
+      case NodeType.AwaitExpression:
+        this.compileExpression(node.argument)
+        this.emit(node, Opcode.AWAIT)
+        return
+      default:
+        throw new RuntimeError(`Unknown expression type: ${(node as any).type}`)
+    }
+  }
+
+  private compileAssignment(node: AssignmentExpressionNode): void {
+    const combine = node.operator === '+=' ? Opcode.ADD : node.operator === '-=' ? Opcode.SUB : undefined
+    if (combine === undefined && node.operator !== '=')
+      throw this.error(`Unknown operator '${node.operator}'`, node)
+
+    if (node.left.type === NodeType.Identifier) {
+      if (combine !== undefined)
+        this.emitLoad(node.left, node.left.name)
+      this.compileExpression(node.right)
+      if (combine !== undefined)
+        this.emit(node, combine)
+      this.emitStore(node, node.left.name, Opcode.STORE)
+      return
+    }
+
+    if (node.left.type === NodeType.MemberExpression) {
+      const member = node.left
+      this.compileExpression(member.object)
+      const key = member.computed ? undefined : this.constant((member.property as IdentifierNode).name)
+      if (member.computed)
+        this.compileExpression(member.property)
+
+      if (combine !== undefined) {
+        if (key === undefined) {
+          this.emit(member, Opcode.DUP2)
+          this.emit(member, Opcode.GET_INDEX)
+        }
+        else {
+          this.emit(member, Opcode.DUP)
+          this.emit(member, Opcode.GET_PROP, key)
+        }
+      }
+      this.compileExpression(node.right)
+      if (combine !== undefined)
+        this.emit(node, combine)
+      if (key === undefined)
+        this.emit(node, Opcode.SET_INDEX)
+      else
+        this.emit(node, Opcode.SET_PROP, key)
+
+      return
+    }
+
+    throw this.error('Invalid assignment target', node)
+  }
+
+  private compileCall(node: CallExpressionNode): void {
+    const description = this.constant(this.describeCallee(node.callee))
+
+    if (node.callee.type === NodeType.MemberExpression) {
+      const callee = node.callee as MemberExpressionNode
+      this.compileExpression(callee.object)
+      if (callee.computed) {
+        this.compileExpression(callee.property)
+        this.emit(node, Opcode.METHOD_INDEX)
+      }
+      else {
+        this.emit(node, Opcode.METHOD, this.constant((callee.property as IdentifierNode).name))
+      }
+      node.arguments.forEach(arg => this.compileExpression(arg))
+      this.emit(node, Opcode.CALL_METHOD, node.arguments.length, description)
+      return
+    }
+
+    this.compileExpression(node.callee)
+    node.arguments.forEach(arg => this.compileExpression(arg))
+    this.emit(node, Opcode.CALL, node.arguments.length, description)
+  }
+
+  private describeCallee(node: ExpressionNode): string {
+    if (node.type === NodeType.Identifier)
+      return `'${node.name}'`
+    if (node.type === NodeType.MemberExpression && !node.computed && node.property.type === NodeType.Identifier)
+      return `'${this.describeCallee(node.object).replace(/'/g, '')}.${node.property.name}'`
+
+    return 'Expression'
+  }
+
+  // Emitting
+
+  private emit(node: ASTNode, opcode: Opcode, ...operands: number[]): void {
+    const proto = this.current.proto
+    const positions = proto.positions
+    const last = positions.length - 3
+    if (last < 0 || positions[last + 1] !== node.line || positions[last + 2] !== node.column)
+      positions.push(proto.code.length, node.line, node.column)
+
+    proto.code.push(opcode, ...operands)
+  }
+
+  private emitConstant(node: ASTNode, value: Constant): void {
+    this.emit(node, Opcode.CONST, this.constant(value))
+  }
+
+  /**
+   * Emit a jump and return the offset of its target, to patch once it is known
+   */
+  private emitJump(node: ASTNode, opcode: Opcode, target = -1): number {
+    this.emit(node, opcode, target)
+    return this.current.proto.code.length - 1
+  }
+
+  private patch(operand: number, target: number = this.current.proto.code.length): void {
+    this.current.proto.code[operand] = target
+  }
+
+  private patchAll(operands: number[]): void {
+    operands.forEach(operand => this.patch(operand))
+  }
+
+  private emitLoad(node: ASTNode, name: string | number): void {
+    const resolved = this.resolve(name)
+    if (resolved)
+      this.emit(node, Opcode.LOAD, resolved.depth, resolved.slot)
+    else
+      this.emit(node, Opcode.LOAD_GLOBAL, this.constant(name as string))
+  }
+
+  /**
+   * Emit a STORE or DEFINE of a variable, or of a temporary given by its slot
+   */
+  private emitStore(node: ASTNode, name: string | number, opcode: Opcode.STORE | Opcode.DEFINE): void {
+    const resolved = this.resolve(name)
+    if (resolved)
+      this.emit(node, opcode, resolved.depth, resolved.slot)
+    else if (opcode === Opcode.STORE)
+      this.emit(node, Opcode.STORE_GLOBAL, this.constant(name as string))
+    else
+      throw this.error(`Cannot declare '${name}' here`, node)
+  }
+
+  /**
+   * Depth and slot of a variable, or of a temporary slot of the function scope
+   */
+  private resolve(name: string | number): { depth: number; slot: number } | undefined {
+    let depth = 0
+    for (let scope: CompileScope | undefined = this.scope; scope; scope = scope.parent) {
+      if (typeof name === 'number') {
+        if (scope.function)
+          return { depth, slot: name }
+      }
+      else if (scope.slots.has(name)) {
+        return { depth, slot: scope.slots.get(name)! }
+      }
+      depth++
+    }
+    return undefined
+  }
+
+  private constant(value: Constant): number {
+    const key = `${typeof value}:${String(value)}`
+    let index = this.constantIndex.get(key)
+    if (index === undefined) {
+      index = this.program.constants.length
+      this.program.constants.push(value)
+      this.constantIndex.set(key, index)
+    }
+    return index
+  }
+
+  private error(message: string, node: ASTNode): RuntimeError {
+    return new RuntimeError(`${message} at line ${node.line}, column ${node.column}`, node.line, node.column)
+  }
+}
@@ -0,0 +1,830 @@
+/**
+ * PL Virtual Machine
+ * Runs compiled bytecode on an operand stack, counting every instruction against the fuel budget
+ */
+
+import {
+  AsyncCalls,
+  CancellationError,
+  Environment,
+  LimitExceededError,
+  PLRuntime,
+  RESTRICTED_PROPERTIES,
+  RuntimeError,
+  SecurityError,
+} from '../runtime/runtime'
+import type { BytecodeProgram, FunctionProto, ScopeLayout } from './bytecode'
+import { Opcode, positionAt } from './bytecode'
+
+export interface VMOptions {
+  /** Extra host values visible to the program */
+  globals?: Record<string, any>
+  /** Receives the text written by print/println; defaults to the console */
+  output?: (text: string) => void
+  /** Fuel: maximum number of executed instructions per run */
+  maxInstructions?: number
+  /** Maximum number of nested PL function calls */
+  maxCallDepth?: number
+  /** Wall-clock limit for one run in milliseconds */
+  timeout?: number
+  /** Exports of the modules the program imports, by path as written in the import */
+  modules?: Record<string, Record<string, any>>
+  /** Cancels the run when aborted, like cancel() */
+  signal?: AbortSignal
+}
+
+/** Marks a slot whose declaration has not run yet */
+const UNSET = Symbol('unset')
+
+class Scope {
+  readonly values: any[]
+
+  constructor(readonly layout: ScopeLayout, readonly parent?: Scope) {
+    this.values = new Array(layout.names.length).fill(UNSET)
+  }
+}
+
+interface Closure {
+  program: BytecodeProgram
+  proto: FunctionProto
+  /** Scope the function was created in; none for the program */
+  scope?: Scope
+  /** The machine that created the closure, whose globals the function sees */
+  vm: VM
+}
+
+interface Handler {
+  /** Where the error continues */
+  target: number
+  /** Stack height and scope to restore */
+  height: number
+  scope: Scope
+}
+
+interface Frame {
+  closure: Closure
+  code: number[]
+  /** Offset of the instruction being run, or of the next one while a called frame runs */
+  pc: number
+  scope: Scope
+  handlers: Handler[]
+}
+
+/**
+ * A chain of PL calls with its own operand stack: the program, a call from
+ * host code such as Array.map, or an async function, which can be suspended
+ * at an await and resumed later
+ */
+interface Fiber {
+  frames: Frame[]
+  stack: any[]
+  /** Call depth of the code that started the fiber */
+  depth: number
+  /** Whether the fiber may stop when a slice is over; calls from host code run to completion */
+  yields: boolean
+  /** Value the fiber awaits while suspended */
+  awaiting?: any
+}
+
+type Step = 'done' | 'suspended' | 'yield'
+
+/** Links a host-callable function value to the PL closure behind it */
+const CLOSURE = Symbol('closure')
+
+// Deadline and cancellation are checked every so many instructions
+const CLOCK_INTERVAL = 256
+
+export class VM {
+  private readonly runtime: PLRuntime
+  private readonly options: Required<Omit<VMOptions, 'globals' | 'output' | 'modules' | 'signal'>>
+  private readonly globals: Environment
+  private readonly modules: Record<string, Record<string, any>>
+  private readonly signal?: AbortSignal
+
+  private instructions = 0
+  /** Instruction count at which the run loop stops to check limits */
+  private checkpoint = 0
+  /** Instruction count at which an asynchronous run gives the event loop a turn */
+  private sliceEnd = Infinity
+  private deadline = Infinity
+  private cancelRequested = false
+  private readonly cancelListeners: Set<() => void> = new Set()
+  private readonly calls = new AsyncCalls()
+  private fiber?: Fiber
+  private programScope?: Scope
+
+  constructor(options: VMOptions = {}) {
+    this.options = {
+      maxInstructions: options.maxInstructions ?? Infinity,
+      maxCallDepth: options.maxCallDepth ?? 500,
+      timeout: options.timeout ?? Infinity,
+    }
+
+    this.runtime = new PLRuntime()
+    this.globals = this.runtime.getGlobals()
+    this.modules = options.modules ?? {}
+    this.signal = options.signal
+    this.signal?.addEventListener('abort', () => this.cancel())
+
+    const output = options.output
+    if (output) {
+      const write = (...args: any[]) => output(`${args.map(arg => this.runtime.stringify(arg)).join(' ')}\n`)
+      this.globals.define('print', write)
+      this.globals.define('println', write)
+    }
+
+    if (options.globals)
+      Object.entries(options.globals).forEach(([name, value]) => this.globals.define(name, value))
+  }
+
+  /**
+   * Instructions executed by the last run; the fuel it used
+   */
+  get instructionCount(): number {
+    return this.instructions
+  }
+
+  /**
+   * Top-level bindings of the last run, e.g. the exports of a module
+   */
+  getScope(): Environment {
+    const scope = new Environment(this.globals)
+    const program = this.programScope
+    program?.layout.names.forEach((name, slot) => {
+      if (!name.startsWith('%') && program.values[slot] !== UNSET)
+        scope.define(name, program.values[slot], program.layout.constant[slot])
+    })
+    return scope
+  }
+
+  /**
+   * Run a program to completion and return the value of its last expression statement
+   */
+  execute(program: BytecodeProgram): any {
+    const fiber = this.begin(program)
+    try {
+      if (this.run(fiber) !== 'done')
+        throw new RuntimeError('Top-level await is only supported by executeAsync')
+
+      return fiber.stack.pop()
+    }
+    catch (error) {
+      throw this.fail(error)
+    }
+  }
+
+  /**
+   * Run a program in slices, giving the event loop a turn between slices.
+   * The run can be cancelled while it is in progress, including while it awaits.
+   * It ends once the async calls of the program have settled, failing on a
+   * rejection the program never awaited.
+   */
+  async executeAsync(program: BytecodeProgram, sliceSize = 10000): Promise<any> {
+    const fiber = this.begin(program)
+    try {
+      const value = await this.complete(fiber, sliceSize)
+      this.calls.observe(value)
+      await this.settle(this.calls.settled())
+      return value
+    }
+    catch (error) {
+      throw this.fail(error)
+    }
+  }
+
+  cancel(): void {
+    this.cancelRequested = true
+    this.checkpoint = this.instructions
+    this.cancelListeners.forEach(listener => listener())
+  }
+
+  private begin(program: BytecodeProgram): Fiber {
+    this.instructions = 0
+    this.sliceEnd = Infinity
+    this.cancelRequested = this.signal?.aborted ?? false
+    this.deadline = Date.now() + this.options.timeout
+    this.calls.reset()
+    this.schedule()
+
+    const closure: Closure = { program, proto: program.functions[0], vm: this }
+    const scope = new Scope(program.scopes[closure.proto.scope])
+    this.programScope = scope
+    // The program frame does not count as a call
+    return { frames: [{ closure, code: closure.proto.code, pc: 0, scope, handlers: [] }], stack: [], depth: -1, yields: true }
+  }
+
+  private fail(error: any): any {
+    if (error instanceof RangeError && /call stack/i.test(error.message))
+      return new LimitExceededError('Maximum call stack size exceeded', 'callDepth')
+
+    return error
+  }
+
+  /**
+   * Drive a fiber to its end, settling what it awaits in between
+   */
+  private async complete(fiber: Fiber, sliceSize?: number): Promise<any> {
+    let resume: { error: unknown } | undefined
+    for (;;) {
+      if (sliceSize !== undefined) {
+        this.sliceEnd = this.instructions + sliceSize
+        this.schedule()
+      }
+      const step = resume ? this.throwInto(fiber, resume.error) : this.run(fiber)
+      resume = undefined
+
+      if (step === 'done')
+        return fiber.stack.pop()
+      if (step === 'yield') {
+        await new Promise(resolve => setTimeout(resolve, 0))
+        continue
+      }
+      try {
+        fiber.stack.push(await this.settle(fiber.awaiting))
+      }
+      catch (error) {
+        resume = { error }
+      }
+      finally {
+        fiber.awaiting = undefined
+      }
+    }
+  }
+
+  /**
+   * Settle an awaited value, giving up once the run is cancelled or out of time
+   */
+  private async settle(value: any): Promise<any> {
+    this.calls.observe(value)
+    if (this.cancelRequested)
+      throw new CancellationError()
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let cancel = (): void => {}
+    const interrupted = new Promise<never>((resolve, reject) => {
+      cancel = () => reject(new CancellationError())
+      if (this.deadline !== Infinity) {
+        const timeout = new LimitExceededError(`Execution timed out after ${this.options.timeout}ms`, 'timeout')
+        timer = setTimeout(() => reject(timeout), Math.max(this.deadline - Date.now(), 0))
+      }
+    })
+
+    this.cancelListeners.add(cancel)
+    try {
+      return await Promise.race([value, interrupted])
+    }
+    finally {
+      clearTimeout(timer)
+      this.cancelListeners.delete(cancel)
+    }
+  }
+
+  /**
+   * Set the next checkpoint: the fuel limit, the end of the slice or the next clock check
+   */
+  private schedule(): void {
+    const sliceEnd = this.sliceEnd > this.instructions ? this.sliceEnd : Infinity
+    this.checkpoint = Math.min(this.options.maxInstructions, sliceEnd, this.instructions + CLOCK_INTERVAL)
+  }
+
+  /**
+   * Enforce the fuel budget, the deadline and cancellation at a checkpoint;
+   * returns whether the slice of an asynchronous run is over
+   */
+  private check(): boolean {
+    if (this.instructions > this.options.maxInstructions)
+      throw new LimitExceededError(`Instruction limit of ${this.options.maxInstructions} exceeded`, 'instructions')
+
+    if (this.cancelRequested)
+      throw new CancellationError()
+
+    if (Date.now() > this.deadline)
+      throw new LimitExceededError(`Execution timed out after ${this.options.timeout}ms`, 'timeout')
+
+    this.schedule()
+    return this.instructions >= this.sliceEnd
+  }
+
+  /**
+   * Resume a suspended fiber with an error thrown at its await
+   */
+  private throwInto(fiber: Fiber, error: unknown): Step {
+    const unhandled = this.handle(fiber, error)
+    if (unhandled)
+      throw unhandled.error
+    return this.run(fiber)
+  }
+
+  /**
+   * Find the handler for an error raised by the instruction at frame.pc of
+   * the innermost frame, popping the frames without one. The error gets the
+   * position of the instruction, unless it has one. Returns the error when
+   * the fiber has no handler left.
+   */
+  private handle(fiber: Fiber, error: unknown): { error: unknown } | undefined {
+    const innermost = fiber.frames[fiber.frames.length - 1]
+    error = this.locate(error, innermost.closure.proto, innermost.pc)
+
+    while (fiber.frames.length > 0) {
+      const frame = fiber.frames[fiber.frames.length - 1]
+      const handler = frame.handlers.pop()
+      if (handler) {
+        fiber.stack.length = handler.height
+        fiber.stack.push(error)
+        frame.scope = handler.scope
+        frame.pc = handler.target
+        return undefined
+      }
+      fiber.frames.pop()
+    }
+    return { error }
+  }
+
+  /**
+   * Attach the position of the instruction that failed to errors that have none
+   */
+  private locate(error: any, proto: FunctionProto, offset: number): any {
+    const position = positionAt(proto, offset)
+    if (!position)
+      return error
+
+    const { line, column } = position
+    if (error instanceof RuntimeError || error instanceof SecurityError) {
+      if (error.line === undefined) {
+        error.line = line
+        error.column = column
+        error.message = `${error.message} at line ${line}, column ${column}`
+      }
+      return error
+    }
+    if (error instanceof Error && !(error instanceof RangeError && /call stack/i.test(error.message)))
+      return new RuntimeError(`${error.name}: ${error.message} at line ${line}, column ${column}`, line, column)
+
+    return error
+  }
+
+  /**
+   * Run a fiber until it returns from its outermost frame, awaits, or its slice is over
+   */
+  private run(fiber: Fiber): Step {
+    const outer = this.fiber
+    this.fiber = fiber
+    try {
+      for (;;) {
+        try {
+          return this.loop(fiber)
+        }
+        catch (error) {
+          const unhandled = this.handle(fiber, error)
+          if (unhandled)
+            throw unhandled.error
+        }
+      }
+    }
+    finally {
+      this.fiber = outer
+    }
+  }
+
+  /**
+   * The instruction loop. The offset of the instruction being executed is kept
+   * in frame.pc, so that errors can be located and the loop resumed.
+   */
+  private loop(fiber: Fiber): Step {
+    const stack = fiber.stack
+    let frame = fiber.frames[fiber.frames.length - 1]
+    let closure = frame.closure
+    let constants = closure.program.constants
+    let code = frame.code
+    let pc = frame.pc
+
+    for (;;) {
+      frame.pc = pc
+      if (++this.instructions > this.checkpoint && this.check() && fiber.yields) {
+        this.instructions--
+        return 'yield'
+      }
+
+      switch (code[pc++] as Opcode) {
+        case Opcode.CONST:
+          stack.push(constants[code[pc++]])
+          break
+        case Opcode.POP:
+          stack.pop()
+          break
+        case Opcode.DUP:
+          stack.push(stack[stack.length - 1])
+          break
+        case Opcode.DUP2:
+          stack.push(stack[stack.length - 2], stack[stack.length - 1])
+          break
+
+        case Opcode.LOAD: {
+          let scope = frame.scope
+          for (let depth = code[pc++]; depth > 0; depth--) scope = scope.parent!
+          const slot = code[pc++]
+          const value = scope.values[slot]
+          stack.push(value === UNSET ? this.lookup(scope, slot) : value)
+          break
+        }
+        case Opcode.STORE: {
+          let scope = frame.scope
+          for (let depth = code[pc++]; depth > 0; depth--) scope = scope.parent!
+          const slot = code[pc++]
+          if (scope.values[slot] === UNSET)
+            this.assign(scope, slot, stack[stack.length - 1])
+          else if (scope.layout.constant[slot])
+            throw new RuntimeError(`Assignment to constant variable '${scope.layout.names[slot]}'`)
+          else
+            scope.values[slot] = stack[stack.length - 1]
+
+          break
+        }
+        case Opcode.DEFINE: {
+          let scope = frame.scope
+          for (let depth = code[pc++]; depth > 0; depth--) scope = scope.parent!
+          scope.values[code[pc++]] = stack.pop()
+          break
+        }
+        case Opcode.LOAD_GLOBAL:
+          stack.push(this.globals.get(constants[code[pc++]] as string))
+          break
+        case Opcode.STORE_GLOBAL:
+          this.globals.assign(constants[code[pc++]] as string, stack[stack.length - 1])
+          break
+        case Opcode.ENTER_SCOPE:
+          frame.scope = new Scope(closure.program.scopes[code[pc++]], frame.scope)
+          break
+        case Opcode.EXIT_SCOPE:
+          frame.scope = frame.scope.parent!
+          break
+
+        case Opcode.GET_PROP: {
+          const key = this.memberKey(constants[code[pc++]])
+          stack.push(this.getMember(stack.pop(), key))
+          break
+        }
+        case Opcode.GET_INDEX: {
+          const key = this.memberKey(stack.pop())
+          stack.push(this.getMember(stack.pop(), key))
+          break
+        }
+        case Opcode.SET_PROP: {
+          const key = this.memberKey(constants[code[pc++]])
+          const value = stack.pop()
+          stack.push(this.setMember(stack.pop(), key, value))
+          break
+        }
+        case Opcode.SET_INDEX: {
+          const value = stack.pop()
+          const key = this.memberKey(stack.pop())
+          stack.push(this.setMember(stack.pop(), key, value))
+          break
+        }
+        case Opcode.ARRAY: {
+          const count = code[pc++]
+          stack.push(stack.splice(stack.length - count, count))
+          break
+        }
+        case Opcode.OBJECT: {
+          const count = code[pc++]
+          const values = stack.splice(stack.length - count, count)
+          const object: Record<string, any> = {}
+          for (let i = 0; i < count; i++) {
+            const key = constants[code[pc++]] as string
+            if (RESTRICTED_PROPERTIES.has(key))
+              throw new SecurityError(`Access to property "${key}" is not allowed`)
+
+            object[key] = values[i]
+          }
+          stack.push(object)
+          break
+        }
+
+        case Opcode.ADD: {
+          const right = stack.pop()
+          stack.push(stack.pop() + right)
+          break
+        }
+        case Opcode.SUB: {
+          const right = stack.pop()
+          stack.push(stack.pop() - right)
+          break
+        }
+        case Opcode.MUL: {
+          const right = stack.pop()
+          stack.push(stack.pop() * right)
+          break
+        }
+        case Opcode.DIV: {
+          const right = stack.pop()
+          stack.push(stack.pop() / right)
+          break
+        }
+        case Opcode.MOD: {
+          const right = stack.pop()
+          stack.push(stack.pop() % right)
+          break
+        }
+        case Opcode.POW: {
+          const right = stack.pop()
+          stack.push(stack.pop() ** right)
+          break
+        }
+        case Opcode.EQ: {
+          const right = stack.pop()
+          // eslint-disable-next-line eqeqeq
+          stack.push(stack.pop() == right)
+          break
+        }
+        case Opcode.NE: {
+          const right = stack.pop()
+          // eslint-disable-next-line eqeqeq
+          stack.push(stack.pop() != right)
+          break
+        }
+        case Opcode.STRICT_EQ: {
+          const right = stack.pop()
+          stack.push(stack.pop() === right)
+          break
+        }
+        case Opcode.LT: {
+          const right = stack.pop()
+          stack.push(stack.pop() < right)
+          break
+        }
+        case Opcode.LE: {
+          const right = stack.pop()
+          stack.push(stack.pop() <= right)
+          break
+        }
+        case Opcode.GT: {
+          const right = stack.pop()
+          stack.push(stack.pop() > right)
+          break
+        }
+        case Opcode.GE: {
+          const right = stack.pop()
+          stack.push(stack.pop() >= right)
+          break
+        }
+        case Opcode.NOT:
+          stack.push(!stack.pop())
+          break
+        case Opcode.NEG:
+          stack.push(-stack.pop())
+          break
+        case Opcode.PLUS:
+          stack.push(+stack.pop())
+          break
+
+        case Opcode.JUMP:
+          pc = code[pc]
+          break
+        case Opcode.JUMP_IF_FALSE:
+          pc = stack.pop() ? pc + 1 : code[pc]
+          break
+        case Opcode.JUMP_IF_TRUE:
+          pc = stack.pop() ? code[pc] : pc + 1
+          break
+        case Opcode.JUMP_IF_FALSE_OR_POP:
+          if (stack[stack.length - 1]) {
+            stack.pop()
+            pc++
+          }
+          else {
+            pc = code[pc]
+          }
+          break
+        case Opcode.JUMP_IF_TRUE_OR_POP:
+          if (stack[stack.length - 1]) {
+            pc = code[pc]
+          }
+          else {
+            stack.pop()
+            pc++
+          }
+          break
+
+        case Opcode.METHOD: {
+          const object = stack[stack.length - 1]
+          const key = this.memberKey(constants[code[pc++]])
+          const library = this.runtime.method(object, key)
+          stack.push(library ?? this.getMember(object, key), library !== undefined)
+          break
+        }
+        case Opcode.METHOD_INDEX: {
+          const key = this.memberKey(stack.pop())
+          stack.push(this.getMember(stack[stack.length - 1], key), false)
+          break
+        }
+        case Opcode.CALL:
+        case Opcode.CALL_METHOD: {
+          const method = code[pc - 1] === Opcode.CALL_METHOD
+          const count = code[pc++]
+          const description = constants[code[pc++]] as string
+          const args = stack.splice(stack.length - count, count)
+          const library = method ? stack.pop() as boolean : false
+          const callee = stack.pop()
+          const thisValue = method ? stack.pop() : undefined
+
+          if (typeof callee !== 'function')
+            throw new RuntimeError(`${description} is not a function`)
+
+          if (method)
+            this.calls.observe(thisValue)
+          if (library) {
+            stack.push(callee(thisValue, ...args))
+            break
+          }
+
+          const target: Closure | undefined = callee[CLOSURE]
+          if (!target || target.proto.async || target.vm !== this) {
+            stack.push(callee.apply(thisValue, args))
+            break
+          }
+
+          // PL calls stay in the loop, so deep recursion does not use up the host stack
+          const caller = frame
+          frame = this.enter(fiber, target, args)
+          caller.pc = pc
+          closure = target
+          constants = closure.program.constants
+          code = frame.code
+          pc = 0
+          break
+        }
+        case Opcode.CLOSURE:
+          stack.push(this.createFunction(closure.program, code[pc++], frame.scope))
+          break
+        case Opcode.RETURN: {
+          fiber.frames.pop()
+          if (fiber.frames.length === 0)
+            return 'done'
+          frame = fiber.frames[fiber.frames.length - 1]
+          closure = frame.closure
+          constants = closure.program.constants
+          code = frame.code
+          pc = frame.pc
+          break
+        }
+        case Opcode.AWAIT:
+          fiber.awaiting = stack.pop()
+          frame.pc = pc
+          return 'suspended'
+
+        case Opcode.THROW: {
+          const position = positionAt(closure.proto, frame.pc)
+          throw this.runtime.thrown(stack.pop(), position?.line, position?.column)
+        }
+        case Opcode.RETHROW:
+          throw stack.pop()
+        case Opcode.SETUP_TRY:
+          frame.handlers.push({ target: code[pc++], height: stack.length, scope: frame.scope })
+          break
+        case Opcode.POP_TRY:
+          frame.handlers.pop()
+          break
+        case Opcode.CATCH:
+          stack.push(this.runtime.caught(stack.pop()))
+          break
+        case Opcode.IMPORT: {
+          const source = constants[code[pc++]] as string
+          const name = constants[code[pc++]] as string
+          stack.push(this.importValue(source, name))
+          break
+        }
+
+        default:
+          throw new RuntimeError(`Unknown opcode ${code[pc - 1]}`)
+      }
+    }
+  }
+
+  /**
+   * Push a frame for a call of a PL function, binding its arguments
+   */
+  private enter(fiber: Fiber, closure: Closure, args: any[]): Frame {
+    if (fiber.depth + fiber.frames.length >= this.options.maxCallDepth)
+      throw new LimitExceededError(`Maximum call depth of ${this.options.maxCallDepth} exceeded`, 'callDepth')
+
+    const proto = closure.proto
+    const scope = new Scope(closure.program.scopes[proto.scope], closure.scope)
+    for (let i = 0; i < proto.params; i++)
+      scope.values[i] = args[i]
+
+    if (proto.rest)
+      scope.values[proto.params] = args.slice(proto.params)
+
+    const frame: Frame = { closure, code: proto.code, pc: 0, scope, handlers: [] }
+    fiber.frames.push(frame)
+    return frame
+  }
+
+  /**
+   * Read a variable whose declaration has not run yet, from the scopes
+   * around it, as the interpreter would find it
+   */
+  private lookup(scope: Scope, slot: number): any {
+    const name = scope.layout.names[slot]
+    for (let outer = scope.parent; outer; outer = outer.parent) {
+      const index = outer.layout.names.indexOf(name)
+      if (index !== -1 && outer.values[index] !== UNSET)
+        return outer.values[index]
+    }
+    return this.globals.get(name)
+  }
+
+  private assign(scope: Scope, slot: number, value: any): void {
+    const name = scope.layout.names[slot]
+    for (let outer = scope.parent; outer; outer = outer.parent) {
+      const index = outer.layout.names.indexOf(name)
+      if (index !== -1 && outer.values[index] !== UNSET) {
+        if (outer.layout.constant[index])
+          throw new RuntimeError(`Assignment to constant variable '${name}'`)
+
+        outer.values[index] = value
+        return
+      }
+    }
+    this.globals.assign(name, value)
+  }
+
+  private memberKey(key: any): string | number {
+    const name = typeof key === 'number' ? key : String(key)
+    if (RESTRICTED_PROPERTIES.has(String(name)))
+      throw new SecurityError(`Access to property "${name}" is not allowed`)
+
+    return name
+  }
+
+  private getMember(object: any, key: string | number): any {
+    if (object === null || object === undefined)
+      throw new RuntimeError(`Cannot read property '${String(key)}' of ${object}`)
+
+    return object[key]
+  }
+
+  private setMember(object: any, key: string | number, value: any): any {
+    if (object === null || object === undefined)
+      throw new RuntimeError(`Cannot set property '${String(key)}' of ${object}`)
+
+    object[key] = value
+    return value
+  }
+
+  private importValue(source: string, name: string): any {
+    const exports = this.modules[source]
+    if (!exports)
+      throw new RuntimeError(`Cannot find module "${source}"`)
+
+    if (!Object.prototype.hasOwnProperty.call(exports, name))
+      throw new RuntimeError(`Module "${source}" has no export '${name}'`)
+
+    return exports[name]
+  }
+
+  // Functions
+
+  /**
+   * PL functions are plain JavaScript functions, so host code such as
+   * Array.sort can call them; PL calls push a frame instead
+   */
+  private createFunction(program: BytecodeProgram, index: number, scope: Scope): Function {
+    const closure: Closure = { program, proto: program.functions[index], scope, vm: this }
+
+    const fn = closure.proto.async
+      ? (...args: any[]) => this.calls.track(this.callAsync(closure, args))
+      : (...args: any[]) => this.callSync(closure, args)
+    Object.defineProperty(fn, 'name', { value: closure.proto.name })
+    Object.defineProperty(fn, CLOSURE, { value: closure })
+    return fn
+  }
+
+  private startFiber(closure: Closure, args: any[], yields: boolean): Fiber {
+    const caller = this.fiber
+    const fiber: Fiber = { frames: [], stack: [], depth: caller ? caller.depth + caller.frames.length : 0, yields }
+    this.enter(fiber, closure, args)
+    return fiber
+  }
+
+  /**
+   * Run a PL function called by host code to completion
+   */
+  private callSync(closure: Closure, args: any[]): any {
+    const fiber = this.startFiber(closure, args, false)
+    if (this.run(fiber) !== 'done')
+      throw new RuntimeError('await is only allowed in async functions')
+
+    return fiber.stack.pop()
+  }
+
+  /**
+   * Run an async function: synchronously up to its first await, then on each
+   * settled value. Each call has its own fiber, so calls running meanwhile
+   * keep their own frames.
+   */
+  private async callAsync(closure: Closure, args: any[]): Promise<any> {
+    return await this.complete(this.startFiber(closure, args, true))
+  }
+}
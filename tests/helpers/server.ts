@@ -4,7 +4,7 @@
  */
 
 import express from 'express'
-import { PLAPIRoutes } from '@/api/pl/routes'
+import { PLAPIRoutes } from '../../service/src/pl/routes'
 
 export interface TestServer {
   app: express.Application
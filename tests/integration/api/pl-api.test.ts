@@ -6,7 +6,7 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
 import request from 'supertest'
 import express from 'express'
-import { PLAPIRoutes } from '@/api/pl/routes'
+import { PLAPIRoutes } from '../../../service/src/pl/routes'
 import { createTestServer } from '@/tests/helpers/server'
 import { validPLCode, invalidPLCode } from '@/tests/fixtures/code-samples/pl-samples'
 
@@ -239,7 +239,7 @@ describe('PL API Integration', () => {
       const outputPromise = new Promise((resolve) => {
         ws.on('message', (data) => {
           const message = JSON.parse(data.toString())
-          if (message.type === 'output') {
+          if (message.type === 'stdout') {
             resolve(message.data)
           }
         })
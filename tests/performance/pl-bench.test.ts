@@ -6,6 +6,7 @@
 import { describe, bench, expect, beforeAll, afterAll } from 'vitest'
 import { PLParser } from '@/pl/parser/PLParser'
 import { PLExecutor } from '@/pl/executor/PLExecutor'
+import { PLCompiler } from '@/pl/compiler/compiler'
 import { performanceTestCases } from '@/tests/fixtures/code-samples/pl-samples'
 
 describe('PL Performance Benchmarks', () => {
@@ -200,4 +201,21 @@ describe('PL Performance Benchmarks', () => {
       parser.parse(performanceTestCases.computationallyIntensive)
     }, { iterations: 50 })
   })
+
+  describe('Backend Performance', () => {
+    const compiler = new PLCompiler()
+    const fibonacci = 'function fib(n) { if (n <= 1) return n\nreturn fib(n - 1) + fib(n - 2) }\nfib(18)'
+
+    bench('should run fibonacci (18) on the transpiler', () => {
+      compiler.execute(fibonacci)
+    }, { iterations: 20 })
+
+    bench('should run fibonacci (18) on the interpreter', () => {
+      compiler.execute(fibonacci, { backend: 'interpreter' })
+    }, { iterations: 20 })
+
+    bench('should run fibonacci (18) on the vm', () => {
+      compiler.execute(fibonacci, { backend: 'vm' })
+    }, { iterations: 20 })
+  })
 })
@@ -0,0 +1,157 @@
+/**
+ * PL AI Host Module Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import type { AIProviders, ChatRequest, GenerationRequest } from '@/pl/host/ai'
+import { createAIModule } from '@/pl/host/ai'
+import type { ExecutionBackend } from '@/pl/compiler/compiler'
+import { PLCompiler } from '@/pl/compiler/compiler'
+import { LimitExceededError, RuntimeError, SecurityError } from '@/pl/runtime/runtime'
+
+// Local stand-ins for the generation servers, recording what they were asked
+const stubProviders = () => {
+  const requests: Array<ChatRequest | GenerationRequest> = []
+  const providers: AIProviders = {
+    chat: async (request) => {
+      requests.push(request)
+      return `echo: ${request.messages[request.messages.length - 1].content}`
+    },
+    image: async (request) => {
+      requests.push(request)
+      return { url: `https://images.test/${encodeURIComponent(request.prompt)}.png` }
+    },
+    music: async () => {
+      throw new Error('upstream down')
+    },
+  }
+  return { providers, requests }
+}
+
+describe('AI Host Module', () => {
+  describe('Module', () => {
+    it('should send prompts and messages to the chat provider', async () => {
+      const { providers, requests } = stubProviders()
+      const ai = createAIModule({ providers, allow: ['chat'] })
+
+      expect(await ai.chat('hello')).toBe('echo: hello')
+      await ai.chat([{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'hey' }, { role: 'user', content: 'again' }], {
+        system: 'Be brief',
+        model: 'test-model',
+        temperature: 0.2,
+      })
+      expect(requests).toEqual([
+        { messages: [{ role: 'user', content: 'hello' }] },
+        {
+          messages: [
+            { role: 'system', content: 'Be brief' },
+            { role: 'user', content: 'hi' },
+            { role: 'assistant', content: 'hey' },
+            { role: 'user', content: 'again' },
+          ],
+          model: 'test-model',
+          temperature: 0.2,
+        },
+      ])
+    })
+
+    it('should pass generation options and the signal to providers', async () => {
+      const controller = new AbortController()
+      let received: AbortSignal | undefined
+      const ai = createAIModule({
+        providers: {
+          video: async (request, signal) => {
+            received = signal
+            return request
+          },
+        },
+        allow: ['video'],
+        signal: controller.signal,
+      })
+      expect(await ai.video('a cat', { aspectRatio: '9:16' })).toEqual({ aspectRatio: '9:16', prompt: 'a cat' })
+      expect(received).toBe(controller.signal)
+    })
+
+    it('should refuse capabilities that are not allowed', async () => {
+      const { providers, requests } = stubProviders()
+      const ai = createAIModule({ providers, allow: ['chat'] })
+
+      await expect(ai.image('a cat')).rejects.toBeInstanceOf(SecurityError)
+      await expect(ai.image('a cat')).rejects.toThrow('ai.image is not allowed in this script')
+      await expect(createAIModule({ providers }).chat('hi')).rejects.toThrow('ai.chat is not allowed in this script')
+      await expect(createAIModule({ providers, allow: ['video'] }).video('x')).rejects.toThrow('ai.video has no provider')
+      expect(requests).toEqual([])
+    })
+
+    it('should enforce quotas without counting invalid calls', async () => {
+      const { providers, requests } = stubProviders()
+      const ai = createAIModule({ providers, allow: ['chat', 'image'], quotas: { chat: 2 } })
+
+      await expect(ai.chat([] as any)).rejects.toThrow('ai.chat expects a prompt or a list of { role, content } messages')
+      await expect(ai.image('  ')).rejects.toThrow('ai.image expects a prompt')
+      await ai.chat('one')
+      await ai.chat('two')
+      const exceeded = ai.chat('three')
+      await expect(exceeded).rejects.toBeInstanceOf(LimitExceededError)
+      await expect(exceeded).rejects.toMatchObject({ limit: 'quota', message: 'ai.chat quota of 2 calls exceeded' })
+      expect(requests).toHaveLength(2)
+      expect(ai.usage()).toEqual({ chat: { used: 2, limit: 2 }, image: { used: 0, limit: null } })
+    })
+
+    it('should report provider failures as runtime errors', async () => {
+      const { providers } = stubProviders()
+      const ai = createAIModule({ providers, allow: ['music'], quotas: { music: 1 } })
+
+      await expect(ai.music('lofi beats')).rejects.toBeInstanceOf(RuntimeError)
+      await expect(ai.music('lofi beats')).rejects.toBeInstanceOf(LimitExceededError)
+      expect(ai.usage()).toEqual({ music: { used: 1, limit: 1 } })
+    })
+
+    it('should keep the module out of the script\'s reach', () => {
+      const ai = createAIModule({ providers: {}, allow: ['chat'] })
+      expect(Object.isFrozen(ai)).toBe(true)
+      expect(Object.keys(ai)).toEqual(['chat', 'image', 'music', 'video', 'usage'])
+    })
+  })
+
+  describe.each<ExecutionBackend>(['transpiler', 'interpreter', 'vm'])('Execution (%s)', (backend) => {
+    const compiler = new PLCompiler()
+
+    const run = async (source: string, options: { allow?: any[]; quotas?: any } = {}): Promise<any[]> => {
+      const reported: any[] = []
+      const ai = createAIModule({ providers: stubProviders().providers, ...options })
+      await compiler.executeAsync(source, { backend, globals: { ai, report: (value: any) => reported.push(value) } })
+      return reported
+    }
+
+    it('should call the allowed capabilities from scripts', async () => {
+      const source = `
+        report(await ai.chat("hello"))
+        var history = [{ role: "user", content: "how are you?" }]
+        report(await ai.chat(history, { system: "Be kind" }))
+        var picture = await ai.image("sunset")
+        report(picture.url)
+        report(ai.usage())
+      `
+      expect(await run(source, { allow: ['chat', 'image'], quotas: { image: 1 } })).toEqual([
+        'echo: hello',
+        'echo: how are you?',
+        'https://images.test/sunset.png',
+        { chat: { used: 2, limit: null }, image: { used: 1, limit: 1 } },
+      ])
+    })
+
+    it('should let scripts catch provider failures', async () => {
+      const source = 'try {\n  await ai.music("lofi")\n} catch (e) {\n  report(e.message)\n}'
+      expect(await run(source, { allow: ['music'] })).toEqual([expect.stringMatching(/ai\.music failed: upstream down/)])
+    })
+
+    it('should not let scripts catch denied capabilities or exceeded quotas', async () => {
+      const denied = run('try { await ai.video("x") } catch (e) { report("caught") }', { allow: ['chat'] })
+      await expect(denied).rejects.toBeInstanceOf(SecurityError)
+
+      const source = 'for (var i = 0; i < 3; i = i + 1) {\n  try { report(await ai.chat("n" + i)) } catch (e) { report("caught") }\n}'
+      await expect(run(source, { allow: ['chat'], quotas: { chat: 2 } })).rejects.toBeInstanceOf(LimitExceededError)
+    })
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * PL Analyzer Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { Lexer } from '@/pl/parser/lexer'
+import { Parser } from '@/pl/parser/parser'
+import { Analyzer } from '@/pl/analyzer/analyzer'
+import { PLCompiler } from '@/pl/compiler/compiler'
+import { RuntimeError } from '@/pl/runtime/runtime'
+
+describe('Analyzer', () => {
+  const analyze = (source: string, globals?: string[]) => {
+    const lexer = new Lexer(source)
+    const tokens = lexer.tokenize()
+    const parser = new Parser(tokens)
+    return new Analyzer({ globals }).analyze(parser.parse())
+  }
+
+  const codes = (source: string, globals?: string[]) =>
+    analyze(source, globals).map(d => [d.line, d.code])
+
+  describe('Constants', () => {
+    it('should reject reassignment', () => {
+      const [diagnostic] = analyze('const limit = 1\nlimit = 2')
+      expect(diagnostic).toMatchObject({
+        severity: 'error',
+        code: 'const-reassignment',
+        message: 'Assignment to constant variable \'limit\'',
+        line: 2,
+        column: 1,
+        endColumn: 6,
+      })
+    })
+
+    it('should reject compound assignment', () => {
+      expect(codes('const n = 1\nn += 1')).toEqual([[2, 'const-reassignment']])
+    })
+
+    it('should allow assigning a shadowing var', () => {
+      expect(codes('const n = 1\nfunction f() {\n  var n = 2\n  n = 3\n  return n\n}\nprint(f())')).toEqual([])
+    })
+
+    it('should reject redeclaration', () => {
+      expect(codes('const a = 1\nconst a = 2')).toEqual([[2, 'duplicate-declaration']])
+      expect(codes('var b = 1\nvar b = 2')).toEqual([])
+    })
+  })
+
+  describe('Undeclared identifiers', () => {
+    it('should report unknown names', () => {
+      const [diagnostic] = analyze('print(missing)')
+      expect(diagnostic).toMatchObject({ severity: 'warning', code: 'undeclared-identifier', column: 7 })
+    })
+
+    it('should know the runtime builtins', () => {
+      expect(analyze('println(len([1]), Math.max(1, 2), String.trim(" a "))')).toEqual([])
+    })
+
+    it('should accept host globals', () => {
+      expect(analyze('print(user)', ['user'])).toEqual([])
+    })
+
+    it('should resolve hoisted functions and vars', () => {
+      expect(analyze('print(later())\nfunction later() { return x }\nvar x = 1')).toEqual([])
+    })
+
+    it('should keep block constants inside their block', () => {
+      expect(codes('if (true) {\n  const inner = 1\n  print(inner)\n}\nprint(inner)')).toEqual([[5, 'undeclared-identifier']])
+    })
+
+    it('should not treat property names as references', () => {
+      expect(analyze('var o = { name: 1 }\nprint(o.name)')).toEqual([])
+    })
+  })
+
+  describe('Unreachable code', () => {
+    it('should report the first statement after return', () => {
+      expect(codes('function f() {\n  return 1\n  print(2)\n  print(3)\n}\nf()')).toEqual([[3, 'unreachable-code']])
+    })
+
+    it('should report code after break and continue', () => {
+      expect(codes('while (true) {\n  break\n  print(1)\n}')).toEqual([[3, 'unreachable-code']])
+      expect(codes('while (true) {\n  continue\n  print(1)\n}')).toEqual([[3, 'unreachable-code']])
+    })
+
+    it('should follow both branches of an if', () => {
+      expect(codes('function f(a) {\n  if (a) { return 1 } else { return 2 }\n  print(a)\n}\nf(1)')).toEqual([[3, 'unreachable-code']])
+      expect(codes('function f(a) {\n  if (a) { return 1 }\n  print(a)\n}\nf(1)')).toEqual([])
+    })
+
+    it('should not report hoisted function declarations', () => {
+      expect(codes('function f() {\n  return g()\n  function g() { return 1 }\n}\nf()')).toEqual([])
+    })
+  })
+
+  describe('Unused bindings', () => {
+    it('should report unused locals', () => {
+      const [diagnostic] = analyze('function f() {\n  var temp = 1\n  return 2\n}\nf()')
+      expect(diagnostic).toMatchObject({ severity: 'warning', code: 'unused-variable', line: 2, column: 7, endColumn: 11 })
+    })
+
+    it('should not report top-level variables', () => {
+      expect(analyze('var result = 1')).toEqual([])
+    })
+
+    it('should not count assignment as use', () => {
+      expect(codes('function f() {\n  var x = 1\n  x = 2\n}\nf()')).toEqual([[2, 'unused-variable']])
+    })
+
+    it('should report parameters after the last used one', () => {
+      expect(codes('function f(a, b, c) {\n  return b\n}\nf(1, 2, 3)')).toEqual([[1, 'unused-parameter']])
+      expect(analyze('function f(a, b, c) {\n  return b\n}\nf(1, 2, 3)')[0].message).toBe('Parameter \'c\' is declared but never used')
+    })
+
+    it('should ignore parameters starting with an underscore', () => {
+      expect(analyze('function f(_unused) {\n  return 1\n}\nf(1)')).toEqual([])
+    })
+  })
+
+  describe('Compiler', () => {
+    it('should fill warnings and errors', () => {
+      const result = new PLCompiler().compile('const a = 1\na = 2\nprint(b)')
+      expect(result.errors).toEqual(['Assignment to constant variable \'a\' at line 2, column 1'])
+      expect(result.warnings).toEqual(['\'b\' is not defined at line 3, column 7'])
+      expect(result.code).toBe('')
+    })
+
+    it('should compile programs that only have warnings', () => {
+      const result = new PLCompiler().compile('function f(x) {\n  var y = 1\n  return 2\n}\nprint(f(1))', { runtime: false })
+      expect(result.warnings).toHaveLength(2)
+      expect(result.code).not.toBe('')
+    })
+
+    it('should refuse to execute programs with semantic errors', () => {
+      expect(() => new PLCompiler().execute('const a = 1\na = 2')).toThrow(RuntimeError)
+    })
+
+    it('should treat execution globals as declared', () => {
+      const result = new PLCompiler().compile('print(user)', { globals: ['user'] })
+      expect(result.warnings).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,241 @@
+/**
+ * PL Async Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { Lexer, TokenType } from '@/pl/parser/lexer'
+import { NodeType, Parser, hasTopLevelAwait } from '@/pl/parser/parser'
+import { ParseError } from '@/pl/parser/diagnostics'
+import { Analyzer } from '@/pl/analyzer/analyzer'
+import { Formatter } from '@/pl/formatter/formatter'
+import { Transpiler } from '@/pl/transpiler/transpiler'
+import { Interpreter } from '@/pl/interpreter/interpreter'
+import type { ExecutionBackend } from '@/pl/compiler/compiler'
+import { PLCompiler } from '@/pl/compiler/compiler'
+import { MemoryLoader } from '@/pl/modules/loader'
+import { CancellationError, LimitExceededError, RuntimeError } from '@/pl/runtime/runtime'
+
+describe('Async', () => {
+  const parse = (source: string) => new Parser(new Lexer(source).tokenize()).parse()
+
+  const delay = (value: any, ms = 5) => new Promise(resolve => setTimeout(() => resolve(value), ms))
+  const never = () => new Promise(() => {})
+
+  const errorOf = async (promise: Promise<any>): Promise<any> => {
+    try {
+      await promise
+    }
+    catch (error) {
+      return error
+    }
+    throw new Error('Expected an error')
+  }
+
+  describe('Syntax', () => {
+    it('should tokenize async and await as keywords', () => {
+      const types = new Lexer('async await').tokenize().map(token => token.type)
+      expect(types).toEqual([TokenType.ASYNC, TokenType.AWAIT, TokenType.EOF])
+    })
+
+    it('should parse async functions and await expressions', () => {
+      const program = parse('async function load(id) {\n  return await fetchUser(id)\n}')
+      const fn = program.body[0] as any
+      expect(fn.type).toBe(NodeType.FunctionDeclaration)
+      expect(fn.async).toBe(true)
+
+      const argument = fn.body.body[0].argument
+      expect(argument.type).toBe(NodeType.AwaitExpression)
+      expect(argument.argument.type).toBe(NodeType.CallExpression)
+      expect(argument.line).toBe(2)
+      expect(argument.column).toBe(10)
+    })
+
+    it('should parse async arrow functions and exported async functions', () => {
+      const arrow = (parse('var f = async x -> await x').body[0] as any).declarations[0].init
+      expect(arrow.type).toBe(NodeType.ArrowFunctionExpression)
+      expect(arrow.async).toBe(true)
+      expect(arrow.body.type).toBe(NodeType.AwaitExpression)
+
+      const exported = (parse('export async function f() { }').body[0] as any).declaration
+      expect(exported.async).toBe(true)
+    })
+
+    it('should allow await at the top level only outside of functions', () => {
+      expect(hasTopLevelAwait(parse('var x = await load()'))).toBe(true)
+      expect(hasTopLevelAwait(parse('async function f() { await load() }'))).toBe(false)
+    })
+
+    it('should reject await outside of async functions', () => {
+      expect(() => parse('function f() {\n  await load()\n}')).toThrow(ParseError)
+
+      const parser = new Parser(new Lexer('var f = x -> await x').tokenize(), { recover: true })
+      parser.parse()
+      expect(parser.diagnostics[0]).toMatchObject({ code: 'invalid-await', line: 1, column: 14 })
+    })
+
+    it('should require a function after async', () => {
+      expect(() => parse('async var x = 1')).toThrow('Expect function after "async"')
+    })
+  })
+
+  describe('Tooling', () => {
+    it('should analyze the awaited expression', () => {
+      const diagnostics = new Analyzer().analyze(parse('async function f() {\n  await missing()\n}\nf()'))
+      expect(diagnostics.map(d => d.code)).toEqual(['undeclared-identifier'])
+    })
+
+    it('should format async code', () => {
+      const source = 'async   function f( a ) {\nreturn await   g(-a)\n}\nvar h = async x -> (await x) + 1'
+      const formatted = new Formatter().format(source)
+      expect(formatted).toBe('async function f(a) {\n  return await g(-a)\n}\nvar h = async x -> await x + 1\n')
+      expect(new Formatter().format(formatted)).toBe(formatted)
+    })
+
+    it('should transpile to async JavaScript', () => {
+      const code = new Transpiler().transpile(parse('async function f(x) { return await g(x) }\nvar h = async x -> x'))
+      expect(code).toContain('async function f(x)')
+      expect(code).toContain('return (await g(x));')
+      expect(code).toContain('var h = async (x) => x;')
+      expect(new Transpiler({ guardAwait: true }).transpile(parse('await g()'))).toBe('(await __pl_await(g()));')
+
+      const tracked = new Transpiler({ trackAsync: true }).transpile(parse('async function f(x) { return await g(x) }\nvar h = async x -> x'))
+      expect(tracked).toContain('function f(x) { return __pl_async((async () => {')
+      expect(tracked).toContain('var h = (x) => { return __pl_async((async () => { return x; })()); };')
+    })
+
+    it('should wrap programs with top-level await in an async function', () => {
+      const result = new PLCompiler().compile('var x = await load()', { globals: ['load'] })
+      expect(result.topLevelAwait).toBe(true)
+      expect(result.code).toContain('(async function() {')
+    })
+  })
+
+  describe.each<ExecutionBackend>(['transpiler', 'interpreter', 'vm'])('Execution (%s)', (backend) => {
+    const compiler = new PLCompiler()
+
+    it('should await host promises in async functions and at the top level', async () => {
+      const results: any[] = []
+      const source = `
+        async function double(x) {
+          var value = await delay(x)
+          return value * 2
+        }
+        var triple = async x -> await delay(x) * 3
+        report(await double(4))
+        report(await triple(await double(1)))
+      `
+      await compiler.executeAsync(source, { backend, globals: { delay, report: (value: any) => results.push(value) } })
+      expect(results).toEqual([8, 6])
+    })
+
+    it('should return promises from async functions called without await', async () => {
+      const results: any[] = []
+      const source = `
+        async function later(x) { return await delay(x) }
+        var pending = later(1)
+        report(pending)
+        report(await pending)
+      `
+      await compiler.executeAsync(source, { backend, globals: { delay, report: (value: any) => results.push(value) } })
+      expect(results[0]).toBeInstanceOf(Promise)
+      expect(results[1]).toBe(1)
+    })
+
+    it('should raise rejected promises as errors', async () => {
+      const error = await errorOf(compiler.executeAsync('await fail()', {
+        backend,
+        globals: { fail: () => Promise.reject(new Error('boom')) },
+      }))
+      expect(error).toBeInstanceOf(RuntimeError)
+      expect(error.message).toMatch(/boom/)
+    })
+
+    it('should wait for async calls and fail on rejections nothing awaited', async () => {
+      const results: any[] = []
+      await compiler.executeAsync('async function later() { report(await delay(1)) }\nlater()', { backend, globals: { delay, report: (value: any) => results.push(value) } })
+      expect(results).toEqual([1])
+
+      const error = await errorOf(compiler.executeAsync('async function f() { throw "x" }\nf()\n1', { backend }))
+      expect(error).toBeInstanceOf(RuntimeError)
+      expect(error.message).toMatch(/^x/)
+
+      const caught = 'async function f() { throw "x" }\nasync function g() { try { await f() } catch (e) { report(e.message) } }\ng()'
+      await compiler.executeAsync(caught, { backend, globals: { report: (value: any) => results.push(value) } })
+      expect(results).toEqual([1, 'x'])
+    })
+
+    it('should handle rejections of async calls in synchronous runs', async () => {
+      const rejections: unknown[] = []
+      const listener = (reason: unknown) => rejections.push(reason)
+      process.on('unhandledRejection', listener)
+      try {
+        compiler.execute('async function f() { throw "x" }\nf()\n1', { backend })
+        await delay(undefined, 10)
+        expect(rejections).toEqual([])
+      }
+      finally {
+        process.off('unhandledRejection', listener)
+      }
+    })
+
+    it('should run modules that await at the top level', async () => {
+      const loader = new MemoryLoader({
+        '/config.pl': 'export const retries = await delay(3)',
+        '/main.pl': 'import { retries } from "./config.pl"\nreport(retries + await delay(1))',
+      })
+      const results: any[] = []
+      await compiler.executeModule('/main.pl', loader, { backend, globals: { delay, report: (value: any) => results.push(value) } })
+      expect(results).toEqual([4])
+    })
+
+    it('should reject top-level await in synchronous runs', () => {
+      expect(() => compiler.execute('await delay(1)', { backend, globals: { delay } })).toThrow('Top-level await is only supported by executeAsync')
+    })
+
+    it('should cancel pending awaits when the signal is aborted', async () => {
+      const controller = new AbortController()
+      const run = compiler.executeAsync('await wait()', { backend, signal: controller.signal, globals: { wait: never } })
+      setTimeout(() => controller.abort(), 5)
+      expect(await errorOf(run)).toBeInstanceOf(CancellationError)
+    })
+
+    it('should not start when the signal is already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      const error = await errorOf(compiler.executeAsync('await delay(1)', { backend, signal: controller.signal, globals: { delay } }))
+      expect(error).toBeInstanceOf(CancellationError)
+    })
+
+    it('should stop waiting when the timeout passes', async () => {
+      const error = await errorOf(compiler.executeAsync('await wait()', { backend, timeout: 20, globals: { wait: never } }))
+      expect(error).toBeInstanceOf(LimitExceededError)
+      expect(error.limit).toBe('timeout')
+    })
+  })
+
+  describe('Interpreter', () => {
+    it('should keep the call depth of each async call apart', async () => {
+      const interpreter = new Interpreter({ maxCallDepth: 3, globals: { delay } })
+      const source = `
+        async function step(n) {
+          await delay(n)
+          return n
+        }
+        var a = step(1)
+        var b = step(2)
+        var c = step(3)
+        await a + await b + await c
+      `
+      expect(await interpreter.executeAsync(parse(source))).toBe(6)
+    })
+
+    it('should not count time spent paused while awaiting', async () => {
+      const interpreter = new Interpreter({ globals: { delay } })
+      const run = interpreter.executeAsync(parse('await delay(1, 10)\n"done"'))
+      interpreter.pause()
+      setTimeout(() => interpreter.resume(), 20)
+      expect(await run).toBe('done')
+      expect(interpreter.state).toBe('completed')
+    })
+  })
+})
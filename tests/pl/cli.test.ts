@@ -0,0 +1,189 @@
+/**
+ * PL Command-Line Tool Tests
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { PassThrough } from 'stream'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { EXIT_FAILURE, EXIT_OK, EXIT_USAGE, runCLI } from '@/pl/cli/cli'
+import { decodeMappings } from '@/pl/transpiler/sourcemap'
+
+describe('Command Line', () => {
+  let cwd: string
+
+  const write = (file: string, source: string) => {
+    fs.mkdirSync(path.dirname(path.join(cwd, file)), { recursive: true })
+    fs.writeFileSync(path.join(cwd, file), source)
+  }
+
+  const pl = async (...args: string[]) => {
+    const stdout = new PassThrough()
+    const stderr = new PassThrough()
+    const out: string[] = []
+    const err: string[] = []
+    stdout.on('data', chunk => out.push(String(chunk)))
+    stderr.on('data', chunk => err.push(String(chunk)))
+    const code = await runCLI(args, { stdout, stderr, stdin: new PassThrough(), cwd })
+    return { code, stdout: out.join(''), stderr: err.join('') }
+  }
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'pl-cli-'))
+    write('main.pl', 'import { twice } from "./lib/math.pl"\nprintln("result", twice(21))\n')
+    write('lib/math.pl', 'export function twice(x) {\n  return x * 2\n}\n')
+  })
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true })
+  })
+
+  describe('run', () => {
+    it('should run a program with its imports on every backend', async () => {
+      expect(await pl('run', 'main.pl')).toEqual({ code: EXIT_OK, stdout: 'result 42\n', stderr: '' })
+      expect(await pl('run', 'main.pl', '--backend', 'interpreter')).toMatchObject({ code: EXIT_OK, stdout: 'result 42\n' })
+      expect(await pl('run', 'main.pl', '--backend', 'vm')).toMatchObject({ code: EXIT_OK, stdout: 'result 42\n' })
+    })
+
+    it('should report runtime errors with their position', async () => {
+      write('fail.pl', 'println("before")\nthrow "broken"\n')
+      expect(await pl('run', 'fail.pl')).toEqual({
+        code: EXIT_FAILURE,
+        stdout: 'before\n',
+        stderr: 'fail.pl:2:1: error: broken (runtime-error)\n',
+      })
+
+      const { code, stdout } = await pl('run', 'fail.pl', '--json')
+      expect(code).toBe(EXIT_FAILURE)
+      expect(JSON.parse(stdout)).toEqual({
+        success: false,
+        output: 'before\n',
+        value: null,
+        diagnostics: [{ file: 'fail.pl', line: 2, column: 1, endLine: null, endColumn: null, severity: 'error', code: 'runtime-error', message: 'broken' }],
+      })
+    })
+
+    it('should not run programs with syntax errors', async () => {
+      write('bad.pl', 'println("never")\nvar = 1\n')
+      expect(await pl('run', 'bad.pl')).toMatchObject({ code: EXIT_FAILURE, stdout: '', stderr: 'bad.pl:2:5: error: Expect identifier (expected-token)\n' })
+      expect((await pl('run', 'missing.pl')).stderr).toMatch(/^missing\.pl:1:1: error: Cannot find module '.*missing\.pl' \(module-not-found\)\n$/)
+    })
+
+    it('should stop programs that run too long', async () => {
+      write('spin.pl', 'var n = 0\nwhile (true) { n = n + 1 }\n')
+      const { code, stderr } = await pl('run', 'spin.pl', '--backend', 'interpreter', '--timeout', '50')
+      expect(code).toBe(EXIT_FAILURE)
+      expect(stderr).toMatch(/timed out|Time limit/i)
+    })
+  })
+
+  describe('compile', () => {
+    it('should print JavaScript with an inline source map', async () => {
+      write('one.pl', 'var a = 1\nprintln(a)\n')
+      const { code, stdout } = await pl('compile', 'one.pl', '--sourcemap')
+      expect(code).toBe(EXIT_OK)
+      expect(stdout).toContain('var a = 1;')
+      const encoded = /sourceMappingURL=data:application\/json;base64,(\S+)/.exec(stdout)![1]
+      const map = JSON.parse(Buffer.from(encoded, 'base64').toString())
+      expect(map.sources).toEqual(['one.pl'])
+      expect(decodeMappings(map.mappings).length).toBeGreaterThan(0)
+    })
+
+    it('should write the output and its source map to files', async () => {
+      write('one.pl', 'var a = 1\nprintln(a)\n')
+      expect(await pl('compile', 'one.pl', '--sourcemap', '-o', 'dist/one.js')).toMatchObject({ code: EXIT_OK, stdout: '' })
+      expect(fs.readFileSync(path.join(cwd, 'dist/one.js'), 'utf8')).toMatch(/\/\/# sourceMappingURL=one\.js\.map\n$/)
+      const map = JSON.parse(fs.readFileSync(path.join(cwd, 'dist/one.js.map'), 'utf8'))
+      expect(map).toMatchObject({ version: 3, file: 'one.js', sources: ['../one.pl'] })
+    })
+
+    it('should bundle programs with imports', async () => {
+      const { code, stdout } = await pl('compile', 'main.pl', '--json')
+      const result = JSON.parse(stdout)
+      expect(code).toBe(EXIT_OK)
+      expect(result.code).toContain('function twice(x)')
+      expect(result.output).toBeNull()
+    })
+  })
+
+  describe('check', () => {
+    it('should report the problems of every file in a directory', async () => {
+      write('scripts/bad.pl', 'var x = \n')
+      write('scripts/host.pl', 'println(ai)\n')
+      const { code, stdout } = await pl('check', '.')
+      expect(code).toBe(EXIT_FAILURE)
+      expect(stdout).toBe([
+        'scripts/bad.pl:1:9: error: Unexpected token NEWLINE (unexpected-token)',
+        'scripts/host.pl:1:9: warning: \'ai\' is not defined (undeclared-identifier)',
+        '4 files checked: 1 error, 1 warning',
+        '',
+      ].join('\n'))
+    })
+
+    it('should accept host globals and print JSON', async () => {
+      write('host.pl', 'println(ai)\n')
+      const { code, stdout } = await pl('check', 'host.pl', 'main.pl', '--global', 'ai', '--json')
+      expect(code).toBe(EXIT_OK)
+      expect(JSON.parse(stdout)).toEqual({ success: true, files: ['host.pl', 'main.pl'], diagnostics: [] })
+    })
+  })
+
+  describe('fmt', () => {
+    beforeEach(() => {
+      write('ugly.pl', 'var  a=1\nprintln( a )\n')
+    })
+
+    it('should print formatted code', async () => {
+      expect(await pl('fmt', 'ugly.pl')).toEqual({ code: EXIT_OK, stdout: 'var a = 1\nprintln(a)\n', stderr: '' })
+    })
+
+    it('should check and rewrite files', async () => {
+      expect(await pl('fmt', '--check', '.')).toMatchObject({ code: EXIT_FAILURE, stdout: 'ugly.pl\n' })
+      expect(await pl('fmt', '--write', '.')).toMatchObject({ code: EXIT_OK, stdout: 'ugly.pl\n' })
+      expect(fs.readFileSync(path.join(cwd, 'ugly.pl'), 'utf8')).toBe('var a = 1\nprintln(a)\n')
+      expect(JSON.parse((await pl('fmt', '--check', '--json', '.')).stdout)).toEqual({
+        success: true,
+        files: ['lib/math.pl', 'main.pl', 'ugly.pl'],
+        changed: [],
+        diagnostics: [],
+      })
+    })
+
+    it('should report files that do not parse', async () => {
+      write('bad.pl', 'if (\n')
+      expect(await pl('fmt', 'bad.pl')).toMatchObject({ code: EXIT_FAILURE, stderr: 'bad.pl:1:5: error: Unexpected token NEWLINE (unexpected-token)\n' })
+    })
+  })
+
+  describe('repl', () => {
+    it('should evaluate lines from the input', async () => {
+      write('lib.pl', 'var loaded = "yes"\n')
+      const stdin = new PassThrough()
+      const stdout = new PassThrough()
+      const out: string[] = []
+      stdout.on('data', chunk => out.push(String(chunk)))
+      const done = runCLI(['repl'], { stdin, stdout, stderr: new PassThrough(), cwd })
+
+      stdin.end('var x = 20\nfunction add(a, b) {\n  return a + b\n}\nadd(x, 1)\n:load lib.pl\nloaded\n')
+      expect(await done).toBe(EXIT_OK)
+      expect(out.join('')).toContain('21\n')
+      expect(out.join('')).toContain('"yes"\n')
+    })
+  })
+
+  describe('usage', () => {
+    it('should reject wrong command lines', async () => {
+      expect((await pl()).code).toBe(EXIT_USAGE)
+      expect(await pl('deploy')).toMatchObject({ code: EXIT_USAGE, stderr: expect.stringMatching(/^pl: Unknown command 'deploy'/) })
+      expect((await pl('run')).stderr).toMatch(/^pl: run expects one file/)
+      expect((await pl('run', 'main.pl', '--backend', 'gpu')).stderr).toMatch(/^pl: Unknown backend 'gpu'/)
+      expect((await pl('check', 'main.pl', '--bogus')).code).toBe(EXIT_USAGE)
+    })
+
+    it('should print help and the version', async () => {
+      expect(await pl('--help')).toMatchObject({ code: EXIT_OK, stdout: expect.stringContaining('Usage: pl <command>') })
+      expect(await pl('--version')).toMatchObject({ code: EXIT_OK, stdout: expect.stringMatching(/^\d+\.\d+\.\d+\n$/) })
+    })
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * PL Debugger Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { PLDebugger } from '@/pl/debugger/debugger'
+import type { DebugStop } from '@/pl/debugger/debugger'
+import { CancellationError } from '@/pl'
+
+const source = [
+  'function square(n) {', // 1
+  '  var result = n * n', // 2
+  '  return result', // 3
+  '}', // 4
+  '', // 5
+  'var total = 0', // 6
+  'for (var i = 1; i <= 3; i = i + 1) {', // 7
+  '  total = total + square(i)', // 8
+  '}', // 9
+  'println(total)', // 10
+  'total', // 11
+].join('\n')
+
+const variables = (stop: DebugStop | null, frame = 0) => {
+  return Object.fromEntries(stop!.frames[frame].scopes.flatMap(scope => scope.variables.map(variable => [variable.name, variable.value])))
+}
+
+describe('Debugger', () => {
+  it('should stop at breakpoints every time they are reached', async () => {
+    const output: string[] = []
+    const debug = new PLDebugger(source, { breakpoints: [8], output: text => output.push(text) })
+    const run = debug.start()
+
+    const totals: number[] = []
+    for (let stop = await debug.nextStop(); stop; stop = await debug.nextStop()) {
+      expect(stop).toMatchObject({ reason: 'breakpoint', line: 8, column: 3 })
+      totals.push(variables(stop).total)
+      debug.continue()
+    }
+
+    expect(await run).toBe(14)
+    expect(totals).toEqual([0, 1, 5])
+    expect(output).toEqual(['14\n'])
+    expect(debug.state).toBe('completed')
+  })
+
+  it('should move breakpoints to the next line with a statement', () => {
+    const debug = new PLDebugger(source)
+    expect(debug.setBreakpoints([4, 5, 9, 20])).toEqual([6, 10])
+    expect(debug.getBreakableLines()).toEqual([2, 3, 6, 7, 8, 10, 11])
+  })
+
+  it('should step into, over and out of functions', async () => {
+    const debug = new PLDebugger(source, { breakpoints: [8] })
+    const run = debug.start()
+    const lines: string[] = []
+    const record = async () => {
+      const stop = await debug.nextStop()
+      lines.push(`${stop!.reason} ${stop!.line} ${stop!.frames.map(frame => frame.name).join('<')} i=${variables(stop).i}`)
+    }
+
+    await record()
+    debug.stepInto()
+    await record()
+    debug.stepOver()
+    await record()
+    // Stops are before statements, so leaving square stops at the next one: line 8 of the next iteration
+    debug.stepOut()
+    await record()
+    debug.setBreakpoints([])
+    debug.stepInto()
+    await record()
+    debug.stepOut()
+    await record()
+    debug.stepOut()
+    expect(await debug.nextStop()).toBeNull()
+    await run
+
+    expect(lines).toEqual([
+      'breakpoint 8 <program> i=1',
+      'step 2 square<<program> i=1',
+      'step 3 square<<program> i=1',
+      'breakpoint 8 <program> i=2',
+      'step 2 square<<program> i=2',
+      'step 8 <program> i=3',
+    ])
+  })
+
+  it('should stop on entry and step over calls', async () => {
+    const debug = new PLDebugger(source, { stopOnEntry: true })
+    const run = debug.start()
+    const lines: number[] = []
+    for (let stop = await debug.nextStop(); stop; stop = await debug.nextStop()) {
+      lines.push(stop.line)
+      debug.stepOver()
+    }
+    await run
+    expect(lines).toEqual([6, 7, 8, 8, 8, 10, 11])
+  })
+
+  it('should render the scope chain of every frame', async () => {
+    const debug = new PLDebugger(source, { breakpoints: [3], globals: { limit: 10 } })
+    const run = debug.start()
+    const stop = await debug.nextStop()
+
+    expect(stop!.frames.map(frame => [frame.name, frame.line])).toEqual([['square', 3], ['<program>', 8]])
+    expect(stop!.frames[0].scopes).toEqual([
+      {
+        kind: 'function',
+        variables: [
+          { name: 'n', value: 1, display: '1', type: 'number' },
+          { name: 'result', value: 1, display: '1', type: 'number' },
+        ],
+      },
+      {
+        kind: 'program',
+        variables: [
+          { name: 'square', value: expect.any(Function), display: '[function square]', type: 'function' },
+          { name: 'total', value: 0, display: '0', type: 'number' },
+          { name: 'i', value: 1, display: '1', type: 'number' },
+        ],
+      },
+      { kind: 'global', variables: [{ name: 'limit', value: 10, display: '10', type: 'number' }] },
+    ])
+    expect(stop!.frames[1].scopes.map(scope => scope.kind)).toEqual(['block', 'block', 'program', 'global'])
+
+    debug.setBreakpoints([])
+    debug.continue()
+    await run
+  })
+
+  it('should evaluate watches in the stopped frame', async () => {
+    const debug = new PLDebugger(source, { breakpoints: [3], watches: ['result * 10', 'missing'] })
+    const run = debug.start()
+    const stop = await debug.nextStop()
+
+    expect(stop!.watches).toEqual([
+      { expression: 'result * 10', value: 10, display: '10' },
+      { expression: 'missing', error: 'Undefined variable \'missing\' at line 1, column 1' },
+    ])
+    expect(debug.addWatch('square(n + 1)')).toEqual({ expression: 'square(n + 1)', value: 4, display: '4' })
+    expect(debug.evaluate('total', 1)).toBe(0)
+    expect(() => debug.evaluate('var x = 1')).toThrow('"var x = 1" is not an expression')
+
+    debug.removeWatch('missing')
+    debug.continue()
+    expect((await debug.nextStop())!.watches.map(watch => watch.display)).toEqual(['40', '9'])
+    debug.setBreakpoints([])
+    debug.continue()
+    expect(await run).toBe(14)
+  })
+
+  it('should pause a running program and stop it', async () => {
+    const debug = new PLDebugger('var n = 0\nwhile (true) {\n  n = n + 1\n}')
+    const run = debug.start()
+    await new Promise(resolve => setTimeout(resolve, 10))
+    debug.pause()
+
+    const stop = await debug.nextStop()
+    expect(stop).toMatchObject({ reason: 'pause', line: 3 })
+    expect(variables(stop).n).toBeGreaterThan(0)
+    expect(debug.state).toBe('paused')
+
+    debug.stop()
+    await expect(run).rejects.toThrow(CancellationError)
+    expect(debug.state).toBe('cancelled')
+    expect(await debug.nextStop()).toBeNull()
+  })
+
+  it('should stop in async functions', async () => {
+    const debug = new PLDebugger([
+      'async function load(id) {',
+      '  var user = await fetchUser(id)',
+      '  return user.name',
+      '}',
+      'var name = await load(7)',
+      'name',
+    ].join('\n'), { breakpoints: [3], globals: { fetchUser: async (id: number) => ({ id, name: 'Ada' }) } })
+    const run = debug.start()
+
+    const stop = await debug.nextStop()
+    expect(stop).toMatchObject({ line: 3, frames: [{ name: 'load' }, { name: '<program>', line: 5 }] })
+    expect(variables(stop).user).toEqual({ id: 7, name: 'Ada' })
+    debug.stepOver()
+    expect(await debug.nextStop()).toMatchObject({ reason: 'step', line: 6 })
+    debug.continue()
+    expect(await run).toBe('Ada')
+  })
+})
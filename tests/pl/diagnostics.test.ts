@@ -0,0 +1,109 @@
+/**
+ * PL Diagnostics Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { Lexer } from '@/pl/parser/lexer'
+import { Parser } from '@/pl/parser/parser'
+import { PLCompiler } from '@/pl/compiler/compiler'
+import { ParseError } from '@/pl/parser/diagnostics'
+
+describe('Diagnostics', () => {
+  const recover = (source: string) => {
+    const lexer = new Lexer(source, { recover: true })
+    const parser = new Parser(lexer.tokenize(), { recover: true })
+    const program = parser.parse()
+    return { program, diagnostics: [...lexer.diagnostics, ...parser.diagnostics] }
+  }
+
+  const errorOf = (fn: () => any): any => {
+    try {
+      fn()
+    }
+    catch (error) {
+      return error
+    }
+    throw new Error('Expected an error')
+  }
+
+  describe('Parser recovery', () => {
+    it('should report every error in one pass', () => {
+      const { diagnostics } = recover('var = 1\nprint("ok")\nif (x { }\nvar y = )')
+      expect(diagnostics.map(d => [d.line, d.column, d.code])).toEqual([
+        [1, 5, 'expected-token'],
+        [3, 7, 'expected-token'],
+        [4, 9, 'unexpected-token'],
+      ])
+      expect(diagnostics.every(d => d.severity === 'error')).toBe(true)
+    })
+
+    it('should keep the statements between errors', () => {
+      const { program } = recover('var = 1\nprint("ok")\nvar z = 2')
+      expect(program.body.map(node => node.type)).toEqual(['ExpressionStatement', 'VariableDeclaration'])
+    })
+
+    it('should recover inside function bodies', () => {
+      const { program, diagnostics } = recover('function f() {\n  var = 1\n  return )\n}\nprint(f())')
+      expect(diagnostics.map(d => d.line)).toEqual([2, 3])
+      expect(program.body.map(node => node.type)).toEqual(['FunctionDeclaration', 'ExpressionStatement'])
+    })
+
+    it('should report stray closing braces', () => {
+      const { diagnostics } = recover('var x = 1\n}\nvar y = 2')
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]).toMatchObject({ line: 2, column: 1, code: 'unexpected-token' })
+    })
+
+    it('should give each diagnostic an end position', () => {
+      const { diagnostics } = recover('var x = 1 +')
+      expect(diagnostics[0].endLine).toBe(diagnostics[0].line)
+      expect(diagnostics[0].endColumn).toBeGreaterThan(diagnostics[0].column)
+    })
+  })
+
+  describe('Lexer recovery', () => {
+    it('should skip unexpected characters', () => {
+      const { diagnostics } = recover('var a = 1 # 2\nvar b = 3')
+      expect(diagnostics[0]).toMatchObject({ line: 1, column: 11, code: 'unexpected-character' })
+    })
+
+    it('should resume after an unterminated string', () => {
+      const { program, diagnostics } = recover('var s = "abc\nvar t = 1')
+      expect(diagnostics[0]).toMatchObject({ line: 1, column: 9, code: 'unterminated-string' })
+      expect(program.body.some(node => node.type === 'VariableDeclaration' && (node as any).declarations[0].id.name === 't')).toBe(true)
+    })
+  })
+
+  describe('Default mode', () => {
+    it('should throw the first parse error', () => {
+      const error = errorOf(() => new Parser(new Lexer('var = 1\nvar y = )').tokenize()).parse())
+      expect(error).toBeInstanceOf(ParseError)
+      expect(error.message).toBe('Expect identifier at line 1, column 5')
+      expect(error.diagnostic.code).toBe('expected-token')
+    })
+
+    it('should throw on unexpected characters', () => {
+      const error = errorOf(() => new Lexer('var a = #').tokenize())
+      expect(error).toBeInstanceOf(ParseError)
+      expect(error.diagnostic).toMatchObject({ line: 1, column: 9, code: 'unexpected-character' })
+    })
+  })
+
+  describe('Compiler', () => {
+    it('should return diagnostics alongside formatted errors', () => {
+      const result = new PLCompiler().compile('var = 1\nif (x { }')
+      expect(result.diagnostics).toHaveLength(2)
+      expect(result.errors).toEqual([
+        'Expect identifier at line 1, column 5',
+        'Expect ")" after condition at line 2, column 7',
+      ])
+      expect(result.code).toBe('')
+    })
+
+    it('should return no diagnostics for valid code', () => {
+      const result = new PLCompiler().compile('var x = 1')
+      expect(result.diagnostics).toEqual([])
+      expect(result.errors).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,247 @@
+/**
+ * PL Exception Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { Lexer, TokenType } from '@/pl/parser/lexer'
+import { NodeType, Parser } from '@/pl/parser/parser'
+import { ParseError } from '@/pl/parser/diagnostics'
+import { Analyzer } from '@/pl/analyzer/analyzer'
+import { Formatter } from '@/pl/formatter/formatter'
+import { Transpiler } from '@/pl/transpiler/transpiler'
+import type { ExecutionBackend } from '@/pl/compiler/compiler'
+import { PLCompiler } from '@/pl/compiler/compiler'
+import { PLExecutor } from '@/pl/executor/PLExecutor'
+import { CancellationError, LimitExceededError, RuntimeError, ThrowError } from '@/pl/runtime/runtime'
+
+describe('Exceptions', () => {
+  const parse = (source: string) => new Parser(new Lexer(source).tokenize()).parse()
+
+  describe('Syntax', () => {
+    it('should tokenize try, catch, finally and throw as keywords', () => {
+      const types = new Lexer('try catch finally throw').tokenize().map(token => token.type)
+      expect(types).toEqual([TokenType.TRY, TokenType.CATCH, TokenType.FINALLY, TokenType.THROW, TokenType.EOF])
+    })
+
+    it('should parse try statements with any combination of clauses', () => {
+      const full = parse('try {\n  run()\n} catch (error) {\n  log(error)\n} finally {\n  done()\n}').body[0] as any
+      expect(full.type).toBe(NodeType.TryStatement)
+      expect(full.block.body).toHaveLength(1)
+      expect(full.param.name).toBe('error')
+      expect(full.handler.body).toHaveLength(1)
+      expect(full.finalizer.body).toHaveLength(1)
+
+      const bare = parse('try { run() }\ncatch { }').body[0] as any
+      expect(bare.param).toBeUndefined()
+      expect(bare.handler.body).toEqual([])
+      expect(bare.finalizer).toBeUndefined()
+
+      const cleanup = parse('try { run() } finally { done() }').body[0] as any
+      expect(cleanup.handler).toBeUndefined()
+      expect(cleanup.finalizer.body).toHaveLength(1)
+    })
+
+    it('should parse throw statements', () => {
+      const node = parse('\n  throw "boom"').body[0] as any
+      expect(node).toMatchObject({ type: NodeType.ThrowStatement, line: 2, column: 3 })
+      expect(node.argument.value).toBe('boom')
+    })
+
+    it('should reject incomplete statements', () => {
+      expect(() => parse('try { run() }')).toThrow(ParseError)
+      expect(() => parse('try { run() }')).toThrow('Expect "catch" or "finally" after try block')
+      expect(() => parse('throw\nx')).toThrow('Expect expression after "throw"')
+    })
+  })
+
+  describe('Tooling', () => {
+    it('should scope the caught error to the catch block', () => {
+      const diagnostics = new Analyzer().analyze(parse('try {\n  var x = 1\n} catch (e) {\n  print(e.message)\n}\nprint(e, x)'))
+      expect(diagnostics.map(d => [d.code, d.message])).toEqual([['undeclared-identifier', '\'e\' is not defined']])
+    })
+
+    it('should treat throw as leaving the block', () => {
+      const diagnostics = new Analyzer().analyze(parse('function f() {\n  throw "no"\n  return 1\n}\nf()'))
+      expect(diagnostics.map(d => d.code)).toEqual(['unreachable-code'])
+    })
+
+    it('should format try statements in every brace style', () => {
+      const source = 'try{run()}catch(e){log(e)}finally{done()}\nthrow   { message:"x" }'
+      expect(new Formatter().format(source)).toBe([
+        'try {',
+        '  run()',
+        '} catch (e) {',
+        '  log(e)',
+        '} finally {',
+        '  done()',
+        '}',
+        'throw { message: "x" }',
+        '',
+      ].join('\n'))
+      expect(new Formatter({ braceStyle: 'stroustrup' }).format('try { run() } catch { }')).toBe('try {\n  run()\n}\ncatch {}\n')
+    })
+
+    it('should transpile to JavaScript, with guards when asked to', () => {
+      const program = parse('try { run() } catch (e) { log(e) } finally { done() }\ntry { run() } catch { }\nthrow "x"')
+      const plain = new Transpiler().transpile(program)
+      expect(plain).toContain('} catch (e) {\n  log(e);\n} finally {')
+      expect(plain).toContain('} catch {')
+      expect(plain).toContain('throw "x";')
+
+      const guarded = new Transpiler({ guardErrors: true }).transpile(program)
+      expect(guarded).toContain('} catch (e) {\n  e = __pl_catch(e);\n  log(e);\n}')
+      expect(guarded).toContain('} catch (__pl_error) {\n  __pl_catch(__pl_error);')
+      expect(guarded).toContain('throw __pl_throw("x", 3, 1);')
+    })
+  })
+
+  describe.each<ExecutionBackend>(['transpiler', 'interpreter', 'vm'])('Execution (%s)', (backend) => {
+    const compiler = new PLCompiler()
+
+    const results = (source: string, globals: Record<string, any> = {}): any[] => {
+      const reported: any[] = []
+      compiler.execute(source, { backend, globals: { ...globals, report: (value: any) => reported.push(value) } })
+      return reported
+    }
+
+    it('should catch thrown values as error objects', () => {
+      const source = `
+        try {
+          throw "boom"
+        } catch (e) {
+          report(e)
+        }
+        try {
+          throw { message: "too many", code: 429 }
+        } catch (e) {
+          report(e.message + " " + e.value.code)
+        }
+      `
+      expect(results(source)).toEqual([
+        { message: 'boom', line: 3, column: 11, value: 'boom' },
+        'too many 429',
+      ])
+    })
+
+    it('should catch runtime errors with their position', () => {
+      const [error] = results('try {\n  Array.map("abc", x -> x)\n} catch (e) {\n  report(e)\n}')
+      expect(error).toMatchObject({ message: 'Array.map expects an array, got string', line: 2, value: null })
+    })
+
+    it('should catch errors of host functions', () => {
+      const source = 'try { fail() } catch (e) { report(e.message) }'
+      const [message] = results(source, {
+        fail: () => {
+          throw new Error('upstream down')
+        },
+      })
+      expect(message).toMatch(/upstream down$/)
+    })
+
+    it('should run finally blocks on every way out', () => {
+      const source = `
+        function attempt(shouldFail) {
+          try {
+            if (shouldFail) throw "failed"
+            return "ok"
+          } catch (e) {
+            return e.message
+          } finally {
+            report("cleanup")
+          }
+        }
+        report(attempt(false))
+        report(attempt(true))
+        for (var i = 0; i < 3; i = i + 1) {
+          try {
+            if (i == 1) break
+          } finally {
+            report(i)
+          }
+        }
+      `
+      expect(results(source)).toEqual(['cleanup', 'ok', 'cleanup', 'failed', 0, 1])
+    })
+
+    it('should pass errors on through try without catch', () => {
+      const source = 'try {\n  try { throw "inner" } finally { report("finally") }\n} catch (e) {\n  report(e.message)\n}'
+      expect(results(source)).toEqual(['finally', 'inner'])
+    })
+
+    it('should rethrow errors and retry', () => {
+      const source = `
+        var attempts = 0
+        function flaky() {
+          attempts = attempts + 1
+          if (attempts < 3) throw "unavailable"
+          return "done after " + attempts
+        }
+        function retry(fn, times) {
+          for (var i = 1; i <= times; i = i + 1) {
+            try {
+              return fn()
+            } catch (e) {
+              if (i == times) throw e
+            }
+          }
+        }
+        report(retry(flaky, 5))
+        attempts = 0
+        try { retry(flaky, 2) } catch (e) { report(e.message) }
+      `
+      expect(results(source)).toEqual(['done after 3', 'unavailable'])
+    })
+
+    it('should report uncaught throws as runtime errors', () => {
+      let error: any
+      try {
+        results('var x = 1\nthrow "bad input"')
+      }
+      catch (e) {
+        error = e
+      }
+      expect(error).toBeInstanceOf(ThrowError)
+      expect(error).toBeInstanceOf(RuntimeError)
+      expect(error.message).toBe('bad input at line 2, column 1')
+      expect(error.value).toBe('bad input')
+    })
+
+    it('should not catch cancellation', async () => {
+      const controller = new AbortController()
+      const source = 'try {\n  await wait()\n} catch (e) {\n  report("caught")\n}'
+      const reported: any[] = []
+      const run = compiler.executeAsync(source, {
+        backend,
+        signal: controller.signal,
+        globals: { wait: () => new Promise(() => {}), report: (value: any) => reported.push(value) },
+      })
+      setTimeout(() => controller.abort(), 5)
+      await expect(run).rejects.toBeInstanceOf(CancellationError)
+      expect(reported).toEqual([])
+    })
+
+    it('should catch rejected awaits', async () => {
+      const reported: any[] = []
+      await compiler.executeAsync('try { await fail() } catch (e) { report(e.message) }', {
+        backend,
+        globals: { fail: () => Promise.reject(new Error('rejected')), report: (value: any) => reported.push(value) },
+      })
+      expect(reported).toEqual([expect.stringMatching(/rejected$/)])
+    })
+  })
+
+  it('should not catch exceeded limits', () => {
+    const source = 'var n = 0\nwhile (true) {\n  try { n = n + 1 } catch { }\n}'
+    expect(() => new PLCompiler().execute(source, { backend: 'interpreter', maxInstructions: 1000 })).toThrow(LimitExceededError)
+
+    const reported: any[] = []
+    const executor = new PLExecutor({ maxCallDepth: 20, globals: { report: (value: any) => reported.push(value) } })
+    expect(() => executor.execute(parse('function down(n) { return down(n + 1) }\ntry { down(0) } catch (e) { report(e) }'))).toThrow(LimitExceededError)
+    expect(reported).toEqual([])
+  })
+
+  it('should catch errors in the sandbox', () => {
+    const result = new PLExecutor().execute(parse('try {\n  var x = null\n  x.field\n} catch (e) {\n  println(e.line)\n}\ntry { throw "x" } catch (e) { println(e.message) }'))
+    expect(result.output).toBe('3\nx\n')
+  })
+})
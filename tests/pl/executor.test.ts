@@ -0,0 +1,201 @@
+/**
+ * PL Executor Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { Lexer } from '@/pl/parser/lexer'
+import { Parser } from '@/pl/parser/parser'
+import { LimitExceededError, PLExecutor, RuntimeError, SecurityError } from '@/pl/executor/PLExecutor'
+
+describe('PLExecutor', () => {
+  let executor: PLExecutor
+
+  const parse = (source: string) => {
+    const lexer = new Lexer(source)
+    const tokens = lexer.tokenize()
+    const parser = new Parser(tokens)
+    return parser.parse()
+  }
+
+  const run = (source: string) => executor.execute(parse(source))
+
+  beforeEach(() => {
+    executor = new PLExecutor({ timeout: 1000, maxOutputLength: 100 })
+  })
+
+  afterEach(() => {
+    executor.cleanup()
+  })
+
+  describe('Execution', () => {
+    it('should capture printed output', () => {
+      const result = run('print("Hello, World!")')
+      expect(result.success).toBe(true)
+      expect(result.output).toBe('Hello, World!\n')
+    })
+
+    it('should expose top-level variables and functions', () => {
+      const result = run('var x = 10\nconst y = x * 2\nfunction add(a, b) { return a + b }')
+      expect(result.variables.x).toBe(10)
+      expect(result.variables.y).toBe(20)
+      expect(typeof result.variables.add).toBe('function')
+    })
+
+    it('should keep state between executions until cleanup', () => {
+      run('var counter = 1')
+      expect(run('counter = counter + 1\nprint(counter)').output).toBe('2\n')
+
+      executor.cleanup()
+      expect(() => run('print(counter)')).toThrow(RuntimeError)
+    })
+
+    it('should expose host globals', () => {
+      executor = new PLExecutor({ globals: { name: 'PL' } })
+      expect(run('print(name)').output).toBe('PL\n')
+    })
+
+    it('should report runtime errors as RuntimeError', () => {
+      expect(() => run('print(missing)')).toThrow(/ReferenceError/)
+      expect(() => run('print(missing)')).toThrow(RuntimeError)
+    })
+
+    it('should expose exported declarations and reject imports', () => {
+      expect(run('export var shared = 1').variables.shared).toBe(1)
+      expect(() => run('import { a } from "./a.pl"')).toThrow('Cannot import "./a.pl" in the sandbox at line 1, column 1')
+    })
+
+    it('should reject top-level await', () => {
+      expect(run('async function f() { return await 1 }').variables.f).toBeTypeOf('function')
+      expect(() => run('await 1')).toThrow('Top-level await is not supported in the sandbox')
+    })
+  })
+
+  describe('Security', () => {
+    it.each([
+      'require("fs")',
+      'process.exit(1)',
+      'globalThis.x = 1',
+      'eval("1")',
+      'var f = print.constructor',
+      'var p = {}.__proto__',
+      'var o = { __proto__: null }',
+      'var k = __pl_tick',
+    ])('should reject %s', (source) => {
+      expect(() => run(source)).toThrow(SecurityError)
+    })
+
+    it('should report the position of rejected code', () => {
+      try {
+        run('var x = 1\nprocess.exit(1)')
+        expect.unreachable()
+      }
+      catch (error) {
+        expect(error).toBeInstanceOf(SecurityError)
+        expect((error as SecurityError).line).toBe(2)
+        expect((error as SecurityError).column).toBe(1)
+      }
+    })
+
+    it('should reject computed access to prototype internals', () => {
+      expect(() => run('var key = "const" + "ructor"\nvar f = print[key]')).toThrow(SecurityError)
+    })
+
+    it('should allow ordinary property names', () => {
+      expect(run('var o = { process: 1 }\nprint(o.process)').output).toBe('1\n')
+    })
+  })
+
+  describe('Limits', () => {
+    it('should stop infinite loops after the timeout', () => {
+      executor.options.timeout = 50
+      try {
+        run('while (true) { }')
+        expect.unreachable()
+      }
+      catch (error) {
+        expect(error).toBeInstanceOf(LimitExceededError)
+        expect((error as LimitExceededError).limit).toBe('timeout')
+      }
+    })
+
+    it('should stop async code that outlives the timeout', async () => {
+      executor.options.timeout = 50
+      const result = run('async function f() { await 0\n while (true) { } }\nf()')
+      await expect(result.value).rejects.toThrow(LimitExceededError)
+      await expect(result.value).rejects.toMatchObject({ limit: 'timeout' })
+    })
+
+    it('should report async code stopped at the deadline when waiting for it', async () => {
+      executor.options.timeout = 50
+      const program = parse('async function f() { await 0\n while (true) { } }\nf()\n1')
+      await expect(executor.executeAsync(program)).rejects.toMatchObject({ limit: 'timeout' })
+    })
+
+    it('should limit call depth', () => {
+      executor.options.maxCallDepth = 50
+      try {
+        run('function down(n) { return down(n + 1) }\ndown(0)')
+        expect.unreachable()
+      }
+      catch (error) {
+        expect(error).toBeInstanceOf(LimitExceededError)
+        expect((error as LimitExceededError).limit).toBe('callDepth')
+      }
+    })
+
+    it('should truncate output', () => {
+      const result = run('for (var i = 0; i < 100; i = i + 1) { print("line") }')
+      expect(result.output.length).toBe(100)
+      expect(result.truncated).toBe(true)
+    })
+
+    it('should stop programs that allocate too much memory', () => {
+      executor.options.memoryLimit = 1024 * 1024
+      executor.options.timeout = 5000
+      const source = 'var items = []\nwhile (true) { push(items, "item " + len(items)) }'
+      try {
+        run(source)
+        expect.unreachable()
+      }
+      catch (error) {
+        expect(error).toBeInstanceOf(LimitExceededError)
+        expect((error as LimitExceededError).limit).toBe('memory')
+      }
+    })
+  })
+
+  describe('Async', () => {
+    it('should resolve the value and wait for async calls', async () => {
+      const result = await executor.executeAsync(parse('async function later() { await 0\n print("later") }\nlater()\nasync function f() { return 2 }\nf()'))
+      expect(result.value).toBe(2)
+      expect(result.output).toBe('later\n')
+    })
+
+    it('should fail on rejections nothing awaited', async () => {
+      await expect(executor.executeAsync(parse('async function f() { throw "x" }\nf()\n1'))).rejects.toThrow(RuntimeError)
+      await expect(executor.executeAsync(parse('async function f() { throw "x" }\nf()\n1'))).rejects.toThrow(/^x at line 1/)
+      await expect(executor.executeAsync(parse('const h = async () -> { throw "y" }\nh()\n1'))).rejects.toThrow(/^y/)
+    })
+
+    it('should let programs catch awaited rejections', async () => {
+      const source = 'async function f() { throw "x" }\nasync function g() { try { await f() } catch (e) { return e.message } }\ng()'
+      expect((await executor.executeAsync(parse(source))).value).toBe('x')
+    })
+
+    it('should handle rejections when the program returns without waiting', async () => {
+      const rejections: unknown[] = []
+      const listener = (reason: unknown) => rejections.push(reason)
+      process.on('unhandledRejection', listener)
+      try {
+        executor.options.timeout = 50
+        expect(run('async function f() { throw "x" }\nf()\n1').value).toBe(1)
+        run('async function spin() { await 0\n while (true) { } }\nspin()\n1')
+        await new Promise(resolve => setTimeout(resolve, 100))
+        expect(rejections).toEqual([])
+      }
+      finally {
+        process.off('unhandledRejection', listener)
+      }
+    })
+  })
+})
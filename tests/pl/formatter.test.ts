@@ -0,0 +1,219 @@
+/**
+ * PL Formatter Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { Lexer, TokenType } from '@/pl/parser/lexer'
+import { Parser } from '@/pl/parser/parser'
+import { Formatter } from '@/pl/formatter/formatter'
+import { ParseError } from '@/pl/parser/diagnostics'
+
+describe('Formatter', () => {
+  const format = (source: string, options = {}) => new Formatter(options).format(source)
+
+  const lines = (...text: string[]) => `${text.join('\n')}\n`
+
+  describe('Comments', () => {
+    it('should keep comment tokens only when asked', () => {
+      const source = 'var x = 1 // note'
+      expect(new Lexer(source).tokenize().some(token => token.type === TokenType.COMMENT)).toBe(false)
+      expect(new Lexer(source, { comments: true }).tokenize().find(token => token.type === TokenType.COMMENT)).toMatchObject({
+        value: '// note',
+        line: 1,
+        column: 11,
+      })
+    })
+
+    it('should attach comments to statements', () => {
+      const tokens = new Lexer('// first\nvar a = 1 // one\nvar b = 2\n// last', { comments: true }).tokenize()
+      const program = new Parser(tokens, { trivia: true }).parse()
+
+      expect(program.body[0].leadingComments?.map(comment => comment.value)).toEqual(['// first'])
+      expect(program.body[0].trailingComments?.map(comment => comment.value)).toEqual(['// one'])
+      expect(program.body[1].leadingComments).toBeUndefined()
+      expect(program.innerComments?.map(comment => comment.value)).toEqual(['// last'])
+    })
+
+    it('should parse the same program with comment tokens', () => {
+      const source = 'var a = 1 // one\nprint(a)'
+      const plain = new Parser(new Lexer(source).tokenize()).parse()
+      expect(new Parser(new Lexer(source, { comments: true }).tokenize()).parse()).toEqual(plain)
+    })
+
+    it('should preserve comments in every position', () => {
+      const source = lines(
+        '// header',
+        'var total = 0 // running sum',
+        '',
+        'function add(a, b) {',
+        '  // add two numbers',
+        '  return a + b',
+        '  // after return',
+        '}',
+        '// footer',
+      )
+      expect(format(source)).toBe(source)
+    })
+
+    it('should keep comments above a statement out of its blocks', () => {
+      const source = lines('var a = 1', '// before f', 'function f() {', '  return 1', '}')
+      expect(format(source)).toBe(source)
+    })
+
+    it('should keep empty lines after comments', () => {
+      const source = lines('// header', '', '// section', '', 'var a = 1', '', 'function f() {', '  // first', '', '  return 1', '}')
+      expect(format(source)).toBe(source)
+    })
+
+    it('should preserve block comments', () => {
+      const source = lines('/* header', '   two lines */', 'function f() {', '  return 1 /* one */', '}')
+      expect(format(source)).toBe(source)
+      expect(format('var a = [1, 2, /* inline */ 3]')).toBe(lines('var a = [1, 2, 3] /* inline */'))
+    })
+
+    it('should give a line comment to the last statement on the line', () => {
+      expect(format('var a = 1; var b = 2 // both')).toBe(lines('var a = 1', 'var b = 2 // both'))
+    })
+
+    it('should move comments inside expressions above the statement', () => {
+      expect(format('var o = {\n  // the name\n  name: "PL"\n}')).toBe(lines('// the name', 'var o = { name: "PL" }'))
+    })
+  })
+
+  describe('Layout', () => {
+    it('should normalize spacing and separators', () => {
+      expect(format('var   x=1;print(x+2*y)')).toBe(lines('var x = 1', 'print(x + 2 * y)'))
+    })
+
+    it('should collapse blank lines', () => {
+      expect(format('var a = 1\n\n\n\nvar b = 2')).toBe(lines('var a = 1', '', 'var b = 2'))
+    })
+
+    it('should print control flow', () => {
+      const source = 'if(x>0){print("pos")}else if(x<0){print("neg")}else{print(0)}\nwhile(true){break}\nfor(var i=0;i<3;i=i+1){println(i)}'
+      expect(format(source)).toBe(lines(
+        'if (x > 0) {',
+        '  print("pos")',
+        '} else if (x < 0) {',
+        '  print("neg")',
+        '} else {',
+        '  print(0)',
+        '}',
+        'while (true) {',
+        '  break',
+        '}',
+        'for (var i = 0; i < 3; i = i + 1) {',
+        '  println(i)',
+        '}',
+      ))
+    })
+
+    it('should print switch statements', () => {
+      expect(format('switch(x){case 1: print(1)\nbreak\ndefault: print(2)}')).toBe(lines(
+        'switch (x) {',
+        '  case 1:',
+        '    print(1)',
+        '    break',
+        '  default:',
+        '    print(2)',
+        '}',
+      ))
+    })
+
+    it('should keep parentheses only where needed', () => {
+      expect(format('print((a + b) * c, a + (b * c), (a - b) - c, a - (b - c), -(a ^ 2), (-a) ^ 2)'))
+        .toBe(lines('print((a + b) * c, a + b * c, a - b - c, a - (b - c), -a ^ 2, (-a) ^ 2)'))
+    })
+
+    it('should normalize literals and keyword operators', () => {
+      expect(format('var s = \'it\\\'s "quoted"\'\nvar b = TRUE AND not False\nvar n = 1.50')).toBe(lines(
+        'var s = "it\'s \\"quoted\\""',
+        'var b = true and not false',
+        'var n = 1.5',
+      ))
+    })
+  })
+
+  describe('Options', () => {
+    const source = 'function f(a) {\n  if (a) {\n    return 1\n  } else {\n    return 2\n  }\n}'
+
+    it('should indent with the configured size or tabs', () => {
+      expect(format(source, { indentSize: 4 })).toContain('\n    if (a) {\n        return 1')
+      expect(format(source, { useTabs: true })).toContain('\n\tif (a) {\n\t\treturn 1')
+    })
+
+    it('should support stroustrup braces', () => {
+      expect(format(source, { braceStyle: 'stroustrup' })).toBe(lines(
+        'function f(a) {',
+        '  if (a) {',
+        '    return 1',
+        '  }',
+        '  else {',
+        '    return 2',
+        '  }',
+        '}',
+      ))
+    })
+
+    it('should support allman braces', () => {
+      expect(format(source, { braceStyle: 'allman' })).toBe(lines(
+        'function f(a)',
+        '{',
+        '  if (a)',
+        '  {',
+        '    return 1',
+        '  }',
+        '  else',
+        '  {',
+        '    return 2',
+        '  }',
+        '}',
+      ))
+    })
+
+    it('should split calls, arrays and objects wider than the line width', () => {
+      const wide = 'send("a long message text", [1, 2, 3], { retries: 3, verbose: true })'
+      expect(format(wide)).toBe(lines(wide))
+      expect(format(wide, { lineWidth: 40 })).toBe(lines(
+        'send(',
+        '  "a long message text",',
+        '  [1, 2, 3],',
+        '  { retries: 3, verbose: true }',
+        ')',
+      ))
+      expect(format(wide, { lineWidth: 30 })).toBe(lines(
+        'send(',
+        '  "a long message text",',
+        '  [1, 2, 3],',
+        '  {',
+        '    retries: 3,',
+        '    verbose: true',
+        '  }',
+        ')',
+      ))
+    })
+  })
+
+  describe('Idempotence', () => {
+    const samples = [
+      'var x=1;var y = "a\\"b"   // trailing\n\n\nfunction add(a,b){\n// inside\nreturn a+b*(c-d)}\n// end',
+      'if (x) print(1)\nelse print(2)\nfor (;;) { continue }',
+      'var config = { name: "PL", items: [1, 2, 3], handler: e -> print(e), nested: { deep: { deeper: true } } }',
+      'x += not y and z or -(-w) ^ 2',
+    ]
+    const optionSets = [{}, { braceStyle: 'allman' as const, indentSize: 4 }, { braceStyle: 'stroustrup' as const, useTabs: true, lineWidth: 30 }]
+
+    samples.forEach((sample, index) => {
+      it(`should be stable when formatting its own output (sample ${index + 1})`, () => {
+        optionSets.forEach((options) => {
+          const once = format(sample, options)
+          expect(format(once, options)).toBe(once)
+        })
+      })
+    })
+  })
+
+  it('should throw on syntax errors', () => {
+    expect(() => format('var = 1')).toThrow(ParseError)
+  })
+})
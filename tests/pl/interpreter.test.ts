@@ -0,0 +1,242 @@
+/**
+ * PL Interpreter Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { Lexer } from '@/pl/parser/lexer'
+import { Parser } from '@/pl/parser/parser'
+import type { InterpreterOptions } from '@/pl/interpreter/interpreter'
+import { Interpreter } from '@/pl/interpreter/interpreter'
+import { PLCompiler } from '@/pl/compiler/compiler'
+import { CancellationError, LimitExceededError, RuntimeError, SecurityError } from '@/pl/runtime/runtime'
+
+describe('Interpreter', () => {
+  const parse = (source: string) => {
+    const lexer = new Lexer(source)
+    const tokens = lexer.tokenize()
+    const parser = new Parser(tokens)
+    return parser.parse()
+  }
+
+  const run = (source: string, options: InterpreterOptions = {}) => {
+    let output = ''
+    const interpreter = new Interpreter({
+      ...options,
+      output: (text) => {
+        output += text
+      },
+    })
+    const value = interpreter.execute(parse(source))
+    return { value, output, interpreter }
+  }
+
+  const errorOf = (fn: () => any): any => {
+    try {
+      fn()
+    }
+    catch (error) {
+      return error
+    }
+    throw new Error('Expected an error')
+  }
+
+  describe('Evaluation', () => {
+    it('should return the value of the last expression', () => {
+      expect(run('1 + 2 * 3').value).toBe(7)
+      expect(run('2 ^ 10').value).toBe(1024)
+      expect(run('not true or 5 > 3 and "yes"').value).toBe('yes')
+    })
+
+    it('should print through the output sink', () => {
+      expect(run('print("a", 1, [1, 2], { b: true })').output).toBe('a 1 [1, 2] {b: true}\n')
+    })
+
+    it('should run functions, recursion and loops', () => {
+      const source = `
+        function fibonacci(n) {
+          if (n <= 1) return n
+          return fibonacci(n - 1) + fibonacci(n - 2)
+        }
+        var total = 0
+        for (var i = 0; i < 5; i = i + 1) {
+          if (i == 1) continue
+          if (i == 4) break
+          total += i
+        }
+        var j = 0
+        while (true) {
+          j = j + 1
+          if (j > 2) break
+        }
+        println(fibonacci(15), total, j)
+      `
+      expect(run(source).output).toBe('610 5 3\n')
+    })
+
+    it('should hoist function declarations', () => {
+      expect(run('println(double(4))\nfunction double(x) { return x * 2 }').output).toBe('8\n')
+    })
+
+    it('should capture variables in closures', () => {
+      const source = `
+        function counter() {
+          var count = 0
+          function next() {
+            count += 1
+            return count
+          }
+          return next
+        }
+        var next = counter()
+        next()
+        next()
+      `
+      expect(run(source).value).toBe(2)
+    })
+
+    it('should scope var to functions and const to blocks', () => {
+      expect(run('if (true) { var a = 1 }\na').value).toBe(1)
+      expect(errorOf(() => run('if (true) { const b = 1 }\nb')).message).toContain('Undefined variable \'b\'')
+    })
+
+    it('should fall through switch cases until break', () => {
+      const source = `
+        var log = []
+        switch (2) {
+          case 1:
+            push(log, "one")
+          case 2:
+            push(log, "two")
+          case 3:
+            push(log, "three")
+            break
+          default:
+            push(log, "default")
+        }
+        log
+      `
+      expect(run(source).value).toEqual(['two', 'three'])
+    })
+
+    it('should read and write members', () => {
+      const source = `
+        var user = { name: "Ada", tags: ["a"] }
+        user.age = 36
+        user["tags"][1] = "b"
+        user.name.toUpperCase() + " " + user.age + " " + Array.join(user.tags, "-")
+      `
+      expect(run(source).value).toBe('ADA 36 a-b')
+    })
+
+    it('should let host code call PL functions', () => {
+      const source = 'function descending(a, b) { return b - a }\nArray.sort([3, 1, 2], descending)'
+      expect(run(source).value).toEqual([3, 2, 1])
+    })
+
+    it('should keep top-level bindings between runs until reset', () => {
+      const interpreter = new Interpreter()
+      interpreter.execute(parse('var x = 41'))
+      expect(interpreter.execute(parse('x + 1'))).toBe(42)
+
+      interpreter.reset()
+      expect(() => interpreter.execute(parse('x'))).toThrow(RuntimeError)
+    })
+
+    it('should expose host globals', () => {
+      expect(run('greet(name)', { globals: { name: 'PL', greet: (n: string) => `Hi ${n}` } }).value).toBe('Hi PL')
+    })
+  })
+
+  describe('Errors', () => {
+    it('should report undefined variables with their position', () => {
+      const error = errorOf(() => run('var a = 1\nprint(a + missing)'))
+      expect(error).toBeInstanceOf(RuntimeError)
+      expect(error.line).toBe(2)
+      expect(error.column).toBe(11)
+      expect(error.message).toBe('Undefined variable \'missing\' at line 2, column 11')
+    })
+
+    it('should reject assignment to constants', () => {
+      expect(errorOf(() => run('const limit = 1\nlimit = 2')).message).toContain('Assignment to constant variable \'limit\'')
+    })
+
+    it('should reject calls to values that are not functions', () => {
+      expect(errorOf(() => run('var x = 1\nx()')).message).toContain('\'x\' is not a function')
+    })
+
+    it('should reject access to prototype internals', () => {
+      expect(errorOf(() => run('print.constructor'))).toBeInstanceOf(SecurityError)
+      expect(errorOf(() => run('var k = "__proto__"\nvar o = {}\no[k]'))).toBeInstanceOf(SecurityError)
+    })
+
+    it('should wrap host errors in RuntimeError', () => {
+      const error = errorOf(() => run('var x = null\nx.length'))
+      expect(error).toBeInstanceOf(RuntimeError)
+      expect(error.message).toContain('Cannot read property \'length\' of null')
+      expect(error.line).toBe(2)
+    })
+  })
+
+  describe('Limits', () => {
+    it('should enforce the instruction budget', () => {
+      const error = errorOf(() => run('while (true) { }', { maxInstructions: 1000 }))
+      expect(error).toBeInstanceOf(LimitExceededError)
+      expect(error.limit).toBe('instructions')
+    })
+
+    it('should enforce the timeout', () => {
+      const error = errorOf(() => run('while (true) { }', { timeout: 20 }))
+      expect(error).toBeInstanceOf(LimitExceededError)
+      expect(error.limit).toBe('timeout')
+    })
+
+    it('should enforce the call depth', () => {
+      const error = errorOf(() => run('function down(n) { return down(n + 1) }\ndown(0)', { maxCallDepth: 100 }))
+      expect(error).toBeInstanceOf(LimitExceededError)
+      expect(error.limit).toBe('callDepth')
+    })
+
+    it('should count instructions', () => {
+      const { interpreter } = run('var x = 1 + 2')
+      expect(interpreter.instructionCount).toBe(4)
+    })
+  })
+
+  describe('Async execution', () => {
+    it('should pause and resume', async () => {
+      const interpreter = new Interpreter()
+      const running = interpreter.executeAsync(parse('var n = 0\nwhile (n < 5000) { n = n + 1 }\nn'), 100)
+
+      interpreter.pause()
+      await new Promise(resolve => setTimeout(resolve, 10))
+      expect(interpreter.state).toBe('paused')
+
+      interpreter.resume()
+      expect(await running).toBe(5000)
+      expect(interpreter.state).toBe('completed')
+    })
+
+    it('should cancel', async () => {
+      const interpreter = new Interpreter()
+      const running = interpreter.executeAsync(parse('while (true) { }'), 100)
+
+      setTimeout(() => interpreter.cancel(), 10)
+      await expect(running).rejects.toBeInstanceOf(CancellationError)
+      expect(interpreter.state).toBe('cancelled')
+    })
+  })
+
+  describe('Compiler backend', () => {
+    it('should run programs through the interpreter', () => {
+      const compiler = new PLCompiler()
+      const source = 'function square(x) { return x * x }\nsquare(n)'
+      expect(compiler.execute(source, { backend: 'interpreter', globals: { n: 7 } })).toBe(49)
+    })
+
+    it('should enforce the budget in async runs', async () => {
+      const compiler = new PLCompiler()
+      await expect(compiler.executeAsync('while (true) { }', { backend: 'interpreter', maxInstructions: 500 }))
+        .rejects.toBeInstanceOf(LimitExceededError)
+    })
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * PL Lambda Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { Lexer } from '@/pl/parser/lexer'
+import { Parser } from '@/pl/parser/parser'
+import { Analyzer } from '@/pl/analyzer/analyzer'
+import { Formatter } from '@/pl/formatter/formatter'
+import { Transpiler } from '@/pl/transpiler/transpiler'
+import type { ExecutionBackend } from '@/pl/compiler/compiler'
+import { PLCompiler } from '@/pl/compiler/compiler'
+
+describe('Lambdas', () => {
+  const parse = (source: string) => new Parser(new Lexer(source).tokenize()).parse()
+
+  describe('Tooling', () => {
+    it('should analyze default values and rest parameters', () => {
+      const diagnostics = new Analyzer().analyze(parse('var f = (a, b = a + missing, ...rest) -> b\nf(1)'))
+      expect(diagnostics.map(d => [d.code, d.message])).toEqual([
+        ['undeclared-identifier', '\'missing\' is not defined'],
+        ['unused-parameter', 'Parameter \'rest\' is declared but never used'],
+      ])
+    })
+
+    it('should format parameter lists and keep object bodies in parentheses', () => {
+      const source = 'var f = ( x )->x*2\nvar g = (a,b=1,...rest)->{\nreturn a}\nvar h = ()->({ a: 1 })\nfunction k(x, y = x) { return y }'
+      const formatted = new Formatter().format(source)
+      expect(formatted).toBe([
+        'var f = x -> x * 2',
+        'var g = (a, b = 1, ...rest) -> {',
+        '  return a',
+        '}',
+        'var h = () -> ({ a: 1 })',
+        'function k(x, y = x) {',
+        '  return y',
+        '}',
+        '',
+      ].join('\n'))
+      expect(new Formatter().format(formatted)).toBe(formatted)
+    })
+
+    it('should transpile to JavaScript arrow functions', () => {
+      const transpiler = new Transpiler()
+      const code = (source: string) => transpiler.transpile(parse(source))
+      expect(code('var f = (a, b = 2, ...rest) -> a')).toBe('var f = (a, b = 2, ...rest) => a;')
+      expect(code('var g = () -> ({ a: 1 })')).toBe('var g = () => ({a: 1});')
+    })
+  })
+
+  describe.each<ExecutionBackend>(['transpiler', 'interpreter', 'vm'])('Execution (%s)', (backend) => {
+    const compiler = new PLCompiler()
+
+    const results = (source: string): any[] => {
+      const reported: any[] = []
+      compiler.execute(source, { backend, globals: { report: (value: any) => reported.push(value) } })
+      return reported
+    }
+
+    it('should call lambdas with any number of parameters', () => {
+      expect(results('var add = (a, b) -> a + b\nvar answer = () -> 42\nvar square = x -> x * x\nreport(add(1, 2))\nreport(answer())\nreport(square(4))')).toEqual([3, 42, 16])
+    })
+
+    it('should apply default values to missing arguments', () => {
+      expect(results('var f = (a, b = a * 10) -> a + b\nreport(f(1))\nreport(f(1, 2))')).toEqual([11, 3])
+      expect(results('function greet(name, greeting = "Hello") {\n  return greeting + ", " + name\n}\nreport(greet("PL"))')).toEqual(['Hello, PL'])
+    })
+
+    it('should collect remaining arguments in the rest parameter', () => {
+      expect(results('var f = (first, ...rest) -> rest\nreport(f(1, 2, 3))\nreport(f())')).toEqual([[2, 3], []])
+    })
+
+    it('should run block bodies and close over variables', () => {
+      const source = `
+        function createCounter(start) {
+          var count = start
+          return () -> {
+            count = count + 1
+            return count
+          }
+        }
+        var counter = createCounter(10)
+        counter()
+        report(counter())
+      `
+      expect(results(source)).toEqual([12])
+    })
+
+    it('should work with higher-order helpers', () => {
+      const source = `
+        function map(items, fn) {
+          var result = []
+          for (var i = 0; i < len(items); i = i + 1) push(result, fn(items[i], i))
+          return result
+        }
+        function reduce(items, fn, initial) {
+          var result = initial
+          for (var i = 0; i < len(items); i = i + 1) result = fn(result, items[i])
+          return result
+        }
+        var doubled = map([1, 2, 3], x -> x * 2)
+        report(doubled)
+        report(reduce(doubled, (sum, x) -> sum + x, 0))
+        report(map(["a", "b"], (item, index) -> ({ item: item, index: index })))
+        report(Array.sort([3, 1, 2], (a, b) -> a - b))
+      `
+      expect(results(source)).toEqual([[2, 4, 6], 12, [{ item: 'a', index: 0 }, { item: 'b', index: 1 }], [1, 2, 3]])
+    })
+  })
+})
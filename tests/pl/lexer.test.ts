@@ -176,6 +176,17 @@ describe('Lexer', () => {
       expect(tokens[1].type).toBe(TokenType.NUMBER)
       expect(tokens[1].value).toBe(42)
     })
+
+    it('should handle block comments', () => {
+      const tokens = new Lexer('[1, /* inline */ 2]\n/* two\nlines */ x').tokenize()
+
+      expect(tokens.map(token => token.type)).toEqual([
+        TokenType.LBRACKET, TokenType.NUMBER, TokenType.COMMA, TokenType.NUMBER, TokenType.RBRACKET,
+        TokenType.NEWLINE, TokenType.IDENTIFIER, TokenType.EOF,
+      ])
+      expect(tokens[6]).toMatchObject({ line: 3, column: 10 })
+      expect(() => new Lexer('x /* open').tokenize()).toThrow('Unterminated comment')
+    })
   })
 
   describe('Line and Column Tracking', () => {
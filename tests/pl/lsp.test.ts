@@ -0,0 +1,322 @@
+/**
+ * PL Language Server Tests
+ */
+
+import { PassThrough } from 'stream'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { listen } from '@/pl/lsp/stdio'
+import { MessageReader, encodeMessage } from '@/pl/lsp/transport'
+import type {
+  Message,
+  NotificationMessage,
+  ResponseMessage,
+} from '@/pl/lsp/protocol'
+import {
+  CompletionItemKind,
+  DiagnosticTag,
+  ErrorCodes,
+  SymbolKind,
+} from '@/pl/lsp/protocol'
+
+/**
+ * Talks to a server in the same process through the same framing as stdio
+ */
+class TestClient {
+  readonly toServer = new PassThrough()
+  readonly fromServer = new PassThrough()
+  exitCode: number | undefined
+  /** Error responses that belong to no request */
+  readonly errors: ResponseMessage[] = []
+  private nextId = 1
+  private readonly pending: Map<number | string, (response: ResponseMessage) => void> = new Map()
+  private readonly notifications: NotificationMessage[] = []
+  private readonly waiting: Array<{ method: string; resolve: (message: NotificationMessage) => void }> = []
+
+  constructor() {
+    listen(this.toServer, this.fromServer, {
+      onExit: (code) => {
+        this.exitCode = code
+      },
+    })
+    const reader = new MessageReader(message => this.receive(message))
+    this.fromServer.on('data', chunk => reader.push(chunk))
+  }
+
+  request(method: string, params?: any): Promise<ResponseMessage> {
+    const id = this.nextId++
+    return new Promise((resolve) => {
+      this.pending.set(id, resolve)
+      this.toServer.write(encodeMessage({ jsonrpc: '2.0', id, method, params }))
+    })
+  }
+
+  notify(method: string, params?: any): void {
+    this.toServer.write(encodeMessage({ jsonrpc: '2.0', method, params }))
+  }
+
+  notification(method: string): Promise<NotificationMessage> {
+    const index = this.notifications.findIndex(message => message.method === method)
+    if (index !== -1)
+      return Promise.resolve(this.notifications.splice(index, 1)[0])
+    return new Promise(resolve => this.waiting.push({ method, resolve }))
+  }
+
+  async open(uri: string, text: string): Promise<any> {
+    this.notify('textDocument/didOpen', { textDocument: { uri, languageId: 'pl', version: 1, text } })
+    return (await this.notification('textDocument/publishDiagnostics')).params
+  }
+
+  private receive(message: Message): void {
+    if ('id' in message && message.id !== null && this.pending.has(message.id)) {
+      this.pending.get(message.id)!(message as ResponseMessage)
+      this.pending.delete(message.id)
+      return
+    }
+    if ('error' in message) {
+      this.errors.push(message as ResponseMessage)
+      return
+    }
+
+    const notification = message as NotificationMessage
+    const index = this.waiting.findIndex(waiter => waiter.method === notification.method)
+    if (index !== -1)
+      this.waiting.splice(index, 1)[0].resolve(notification)
+    else
+      this.notifications.push(notification)
+  }
+}
+
+describe('Language Server', () => {
+  const uri = 'file:///test.pl'
+  let client: TestClient
+
+  const at = (line: number, character: number) => ({ textDocument: { uri }, position: { line, character } })
+
+  beforeEach(async () => {
+    client = new TestClient()
+    await client.request('initialize', { processId: null, rootUri: null, capabilities: {} })
+    client.notify('initialized', {})
+  })
+
+  describe('Lifecycle', () => {
+    it('should reject requests before initialize', async () => {
+      const fresh = new TestClient()
+      const response = await fresh.request('textDocument/hover', at(0, 0))
+      expect(response.error?.code).toBe(ErrorCodes.ServerNotInitialized)
+    })
+
+    it('should announce its capabilities', async () => {
+      const response = await new TestClient().request('initialize', { capabilities: {} })
+      expect(response.result.capabilities).toMatchObject({
+        textDocumentSync: 1,
+        hoverProvider: true,
+        completionProvider: { triggerCharacters: ['.'] },
+        definitionProvider: true,
+        documentSymbolProvider: true,
+        documentFormattingProvider: true,
+      })
+      expect(response.result.serverInfo.name).toBe('pl-language-server')
+    })
+
+    it('should answer unknown methods with MethodNotFound', async () => {
+      const response = await client.request('workspace/unknown')
+      expect(response.error?.code).toBe(ErrorCodes.MethodNotFound)
+    })
+
+    it('should report bodies that are not JSON', async () => {
+      client.toServer.write('Content-Length: 5\r\n\r\n{oops')
+      const response = await client.request('shutdown')
+      expect(response.result).toBeNull()
+      expect(client.errors).toEqual([expect.objectContaining({ id: null, error: expect.objectContaining({ code: ErrorCodes.ParseError }) })])
+    })
+
+    it('should exit with 0 only after shutdown', async () => {
+      await client.request('shutdown')
+      client.notify('exit')
+      await client.request('shutdown')
+      expect(client.exitCode).toBe(0)
+
+      const other = new TestClient()
+      other.notify('exit')
+      await other.request('initialize', {})
+      expect(other.exitCode).toBe(1)
+    })
+  })
+
+  describe('Diagnostics', () => {
+    it('should publish syntax errors with zero-based ranges', async () => {
+      const params = await client.open(uri, 'var x = 1\nvar = 2')
+      expect(params.uri).toBe(uri)
+      expect(params.diagnostics.length).toBeGreaterThan(0)
+      expect(params.diagnostics[0]).toMatchObject({ severity: 1, source: 'pl' })
+      expect(params.diagnostics[0].range.start.line).toBe(1)
+    })
+
+    it('should publish analyzer warnings with tags', async () => {
+      const params = await client.open(uri, 'function f() {\n  var unused = 1\n  return missing\n}')
+      const unused = params.diagnostics.find((d: any) => d.code === 'unused-variable')
+      expect(unused).toMatchObject({
+        severity: 2,
+        tags: [DiagnosticTag.Unnecessary],
+        range: { start: { line: 1, character: 6 }, end: { line: 1, character: 12 } },
+      })
+      expect(params.diagnostics.some((d: any) => d.code === 'undeclared-identifier')).toBe(true)
+    })
+
+    it('should publish type errors', async () => {
+      const params = await client.open(uri, 'var count: number = "one"')
+      expect(params.diagnostics).toEqual([expect.objectContaining({
+        severity: 1,
+        code: 'type-mismatch',
+        message: 'Type \'string\' is not assignable to type \'number\'',
+      })])
+    })
+
+    it('should republish on change and clear on close', async () => {
+      await client.open(uri, 'var = 1')
+      client.notify('textDocument/didChange', {
+        textDocument: { uri, version: 2 },
+        contentChanges: [{ text: 'var x = 1' }],
+      })
+      const changed = await client.notification('textDocument/publishDiagnostics')
+      expect(changed.params).toMatchObject({ version: 2, diagnostics: [] })
+
+      client.notify('textDocument/didClose', { textDocument: { uri } })
+      const closed = await client.notification('textDocument/publishDiagnostics')
+      expect(closed.params.diagnostics).toEqual([])
+    })
+  })
+
+  describe('Hover', () => {
+    it('should show builtin signatures', async () => {
+      await client.open(uri, 'var n = Math.max(1, 2)\nprintln(n)')
+      const max = await client.request('textDocument/hover', at(0, 14))
+      expect(max.result.contents.value).toContain('Math.max(')
+      expect(max.result.range).toEqual({ start: { line: 0, character: 13 }, end: { line: 0, character: 16 } })
+
+      const println = await client.request('textDocument/hover', at(1, 2))
+      expect(println.result.contents.value).toContain('println(...values)')
+    })
+
+    it('should show the method form of library functions', async () => {
+      await client.open(uri, 'var xs = Array.map([1], x -> x)')
+      const hover = await client.request('textDocument/hover', at(0, 16))
+      expect(hover.result.contents.value).toContain('Array.map(array, fn): array\narray.map(fn): array')
+    })
+
+    it('should describe declared names', async () => {
+      await client.open(uri, 'function add(a, b) {\n  return a + b\n}\nconst total = add(1, 2)')
+      expect((await client.request('textDocument/hover', at(3, 15))).result.contents.value).toContain('function add(a, b)')
+      expect((await client.request('textDocument/hover', at(3, 7))).result.contents.value).toContain('const total')
+      expect((await client.request('textDocument/hover', at(1, 9))).result.contents.value).toContain('(parameter) a')
+    })
+
+    it('should show declared and inferred types', async () => {
+      await client.open(uri, 'function add(a: number, b: number): number {\n  return a + b\n}\nconst total = add(1, 2)')
+      expect((await client.request('textDocument/hover', at(3, 15))).result.contents.value).toContain('function add(a: number, b: number): number')
+      expect((await client.request('textDocument/hover', at(3, 7))).result.contents.value).toContain('const total: number')
+      expect((await client.request('textDocument/hover', at(1, 9))).result.contents.value).toContain('(parameter) a: number')
+    })
+
+    it('should prefer a declaration over a builtin of the same name', async () => {
+      await client.open(uri, 'function len(x) {\n  return 0\n}\nlen(1)')
+      const hover = await client.request('textDocument/hover', at(3, 1))
+      expect(hover.result.contents.value).toContain('function len(x)')
+    })
+
+    it('should return null away from identifiers', async () => {
+      await client.open(uri, 'var x = 1')
+      expect((await client.request('textDocument/hover', at(0, 8))).result).toBeNull()
+    })
+  })
+
+  describe('Completion', () => {
+    it('should complete members of builtin objects', async () => {
+      await client.open(uri, 'var n = Math.')
+      const response = await client.request('textDocument/completion', at(0, 13))
+      const labels = response.result.map((item: any) => item.label)
+      expect(labels).toContain('max')
+      expect(labels).toContain('sqrt')
+      expect(labels).not.toContain('trim')
+      expect(response.result.every((item: any) => item.kind === CompletionItemKind.Method)).toBe(true)
+    })
+
+    it('should complete String and Array members', async () => {
+      await client.open(uri, 'String.t\nArray.')
+      const strings = (await client.request('textDocument/completion', at(0, 8))).result.map((item: any) => item.label)
+      expect(strings).toEqual(expect.arrayContaining(['trim', 'toUpperCase']))
+      const arrays = (await client.request('textDocument/completion', at(1, 6))).result.map((item: any) => item.label)
+      expect(arrays).toEqual(expect.arrayContaining(['join', 'reverse', 'sort']))
+    })
+
+    it('should complete identifiers, keywords and builtins', async () => {
+      await client.open(uri, 'var count = 1\nfunction greet() {}\n')
+      const items = (await client.request('textDocument/completion', at(2, 0))).result
+      const find = (label: string) => items.find((item: any) => item.label === label)
+
+      expect(find('count').kind).toBe(CompletionItemKind.Variable)
+      expect(find('greet').kind).toBe(CompletionItemKind.Function)
+      expect(find('while').kind).toBe(CompletionItemKind.Keyword)
+      expect(find('println').kind).toBe(CompletionItemKind.Function)
+      expect(find('Math').kind).toBe(CompletionItemKind.Module)
+    })
+  })
+
+  describe('Definition', () => {
+    it('should go to function and variable declarations', async () => {
+      await client.open(uri, 'var base = 10\nfunction scale(x) {\n  return x * base\n}\nscale(2)')
+
+      const fn = await client.request('textDocument/definition', at(4, 2))
+      expect(fn.result).toEqual({ uri, range: { start: { line: 1, character: 9 }, end: { line: 1, character: 14 } } })
+
+      const variable = await client.request('textDocument/definition', at(2, 14))
+      expect(variable.result.range.start).toEqual({ line: 0, character: 4 })
+
+      const param = await client.request('textDocument/definition', at(2, 9))
+      expect(param.result.range.start).toEqual({ line: 1, character: 15 })
+    })
+
+    it('should return null for builtins', async () => {
+      await client.open(uri, 'println(1)')
+      expect((await client.request('textDocument/definition', at(0, 3))).result).toBeNull()
+    })
+  })
+
+  describe('Document Symbols', () => {
+    it('should list functions with their nested declarations', async () => {
+      await client.open(uri, 'const LIMIT = 3\nfunction run(n) {\n  var i = 0\n  if (n) {\n    var j = 1\n  }\n}')
+      const symbols = (await client.request('textDocument/documentSymbol', { textDocument: { uri } })).result
+
+      expect(symbols.map((symbol: any) => [symbol.name, symbol.kind])).toEqual([
+        ['LIMIT', SymbolKind.Constant],
+        ['run', SymbolKind.Function],
+      ])
+      expect(symbols[1].children.map((symbol: any) => symbol.name)).toEqual(['i', 'j'])
+      expect(symbols[1].selectionRange.start).toEqual({ line: 1, character: 9 })
+    })
+  })
+
+  describe('Formatting', () => {
+    it('should replace the whole document', async () => {
+      await client.open(uri, 'if(x){\ny=1}')
+      const response = await client.request('textDocument/formatting', {
+        textDocument: { uri },
+        options: { tabSize: 4, insertSpaces: true },
+      })
+      expect(response.result).toEqual([{
+        range: { start: { line: 0, character: 0 }, end: { line: 1, character: 4 } },
+        newText: 'if (x) {\n    y = 1\n}\n',
+      }])
+    })
+
+    it('should return no edits for formatted or broken documents', async () => {
+      await client.open(uri, 'var x = 1\n')
+      const options = { tabSize: 2, insertSpaces: true }
+      expect((await client.request('textDocument/formatting', { textDocument: { uri }, options })).result).toEqual([])
+
+      await client.open('file:///broken.pl', 'var = ')
+      const broken = await client.request('textDocument/formatting', { textDocument: { uri: 'file:///broken.pl' }, options })
+      expect(broken.result).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,248 @@
+/**
+ * PL Module System Tests
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { Lexer } from '@/pl/parser/lexer'
+import type { ProgramNode } from '@/pl/parser/parser'
+import { NodeType, Parser } from '@/pl/parser/parser'
+import { ParseError } from '@/pl/parser/diagnostics'
+import { Analyzer } from '@/pl/analyzer/analyzer'
+import { Formatter } from '@/pl/formatter/formatter'
+import { PLCompiler } from '@/pl/compiler/compiler'
+import { HttpLoader, MemoryLoader, resolveModulePath } from '@/pl/modules/loader'
+import { FileSystemLoader } from '@/pl/modules/fs-loader'
+import { ModuleResolver } from '@/pl/modules/resolver'
+
+describe('Modules', () => {
+  const parse = (source: string): ProgramNode => new Parser(new Lexer(source).tokenize()).parse()
+  const compiler = new PLCompiler()
+
+  const library = {
+    '/lib/chat.pl': [
+      'export function createChatMessage(role, content) {',
+      '  return { role: role, content: content }',
+      '}',
+      'export const DEFAULT_ROLE = "user"',
+    ].join('\n'),
+    '/main.pl': [
+      'import { createChatMessage, DEFAULT_ROLE as role } from "./lib/chat.pl"',
+      'var message = createChatMessage(role, "hi")',
+      'message.role + ":" + message.content',
+    ].join('\n'),
+  }
+
+  describe('Syntax', () => {
+    it('should parse named imports with renames', () => {
+      const program = parse('import {\n  a,\n  b as c\n} from "./util.pl"')
+      const node = program.body[0]
+      expect(node.type).toBe(NodeType.ImportDeclaration)
+      if (node.type !== NodeType.ImportDeclaration)
+        return
+
+      expect(node.source.value).toBe('./util.pl')
+      expect(node.specifiers.map(s => [s.imported.name, s.local.name])).toEqual([['a', 'a'], ['b', 'c']])
+    })
+
+    it('should parse exported functions and variables', () => {
+      const program = parse('export function f() {}\nexport const x = 1, y = 2')
+      expect(program.body.map(node => node.type)).toEqual([NodeType.ExportDeclaration, NodeType.ExportDeclaration])
+    })
+
+    it('should keep from and as usable as names', () => {
+      expect(() => parse('var from = 1\nvar as = from')).not.toThrow()
+    })
+
+    it('should only allow imports and exports at the top level', () => {
+      expect(() => parse('function f() {\n  export var x = 1\n}')).toThrow('"export" is only allowed at the top level')
+      expect(() => parse('if (x) import { a } from "./a.pl"')).toThrow(ParseError)
+    })
+
+    it('should require a declaration after export and a path after from', () => {
+      expect(() => parse('export 1')).toThrow('Expect function, var or const after "export"')
+      expect(() => parse('import { a } "./a.pl"')).toThrow('Expect "from"')
+      expect(() => parse('import { a } from util')).toThrow('Expect module path')
+    })
+
+    it('should analyze imports as read-only bindings', () => {
+      const diagnostics = new Analyzer().analyze(parse('println(helper())\nimport { helper } from "./h.pl"\nhelper = 1'))
+      expect(diagnostics.map(d => d.code)).toEqual(['import-reassignment'])
+    })
+
+    it('should report duplicate imported names', () => {
+      const diagnostics = new Analyzer().analyze(parse('import { a } from "./a.pl"\nvar a = 1'))
+      expect(diagnostics.map(d => d.code)).toEqual(['duplicate-declaration'])
+    })
+
+    it('should format imports and exports', () => {
+      const formatter = new Formatter({ lineWidth: 40 })
+      expect(formatter.format('import {a,b as c} from \'./x.pl\'\nexport  const  y=1')).toBe(
+        'import { a, b as c } from "./x.pl"\nexport const y = 1\n',
+      )
+      const long = formatter.format('import { createChatMessage, formatChatHistory } from "./lib/chat.pl"')
+      expect(long).toBe('import {\n  createChatMessage,\n  formatChatHistory\n} from "./lib/chat.pl"\n')
+      expect(formatter.format(long)).toBe(long)
+    })
+
+    it('should ask for bundle() when compiling a single file with imports', () => {
+      const result = compiler.compile('import { a } from "./a.pl"\nprintln(a)')
+      expect(result.diagnostics.map(d => d.code)).toEqual(['unresolved-import'])
+      expect(result.errors[0]).toContain('use bundle()')
+    })
+  })
+
+  describe('Loaders', () => {
+    it('should resolve paths against the importing module', () => {
+      expect(resolveModulePath('./util.pl', '/lib/chat.pl')).toBe('/lib/util.pl')
+      expect(resolveModulePath('../shared/util', '/lib/chat.pl')).toBe('/shared/util.pl')
+      expect(resolveModulePath('util.pl', '/lib/chat.pl')).toBe('/util.pl')
+      expect(resolveModulePath('main.pl')).toBe('/main.pl')
+    })
+
+    it('should load from memory', async () => {
+      const loader = new MemoryLoader({ 'a.pl': 'var a = 1' })
+      expect(await loader.load(loader.resolve('./a'))).toBe('var a = 1')
+      await expect(loader.load('/b.pl')).rejects.toThrow('Cannot find module \'/b.pl\'')
+    })
+
+    it('should load over HTTP with the given fetch', async () => {
+      const requested: string[] = []
+      const loader = new HttpLoader({
+        baseUrl: 'https://example.com/scripts/',
+        fetch: (async (url: string) => {
+          requested.push(url)
+          return url.endsWith('/main.pl')
+            ? new Response('var x = 1')
+            : new Response('missing', { status: 404 })
+        }) as typeof fetch,
+      })
+
+      const entry = loader.resolve('main')
+      expect(entry).toBe('https://example.com/scripts/main.pl')
+      expect(loader.resolve('../lib/chat.pl', entry)).toBe('https://example.com/lib/chat.pl')
+      expect(await loader.load(entry)).toBe('var x = 1')
+      await expect(loader.load('https://example.com/other.pl')).rejects.toThrow('HTTP 404')
+      expect(requested).toEqual([entry, 'https://example.com/other.pl'])
+    })
+
+    describe('FileSystemLoader', () => {
+      let dir: string | undefined
+
+      afterEach(() => {
+        if (dir)
+          fs.rmSync(dir, { recursive: true, force: true })
+      })
+
+      it('should load modules from disk', async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pl-modules-'))
+        Object.entries(library).forEach(([file, source]) => {
+          fs.mkdirSync(path.dirname(path.join(dir!, file)), { recursive: true })
+          fs.writeFileSync(path.join(dir!, file), source)
+        })
+
+        const loader = new FileSystemLoader(dir)
+        expect(loader.resolve('./chat', path.join(dir, 'lib', 'main.pl'))).toBe(path.join(dir, 'lib', 'chat.pl'))
+        expect(await compiler.executeModule('main.pl', loader, { backend: 'interpreter' })).toBe('user:hi')
+        await expect(loader.load(path.join(dir, 'none.pl'))).rejects.toThrow('Cannot find module')
+      })
+    })
+  })
+
+  describe('Resolver', () => {
+    it('should order modules after their dependencies', async () => {
+      const graph = await new ModuleResolver(new MemoryLoader(library)).resolve('main.pl')
+      expect(graph.entry).toBe('/main.pl')
+      expect(graph.modules.map(record => record.id)).toEqual(['/lib/chat.pl', '/main.pl'])
+      expect(graph.modules[0].exports).toEqual(['createChatMessage', 'DEFAULT_ROLE'])
+      expect(graph.diagnostics).toEqual([])
+    })
+
+    it('should report import cycles', async () => {
+      const loader = new MemoryLoader({
+        '/a.pl': 'import { b } from "./b.pl"\nexport var a = 1',
+        '/b.pl': 'import { c } from "./c.pl"\nexport var b = 2',
+        '/c.pl': 'import { a } from "./a.pl"\nexport var c = 3',
+      })
+      const graph = await new ModuleResolver(loader).resolve('/a.pl')
+      expect(graph.diagnostics).toEqual([expect.objectContaining({
+        module: '/c.pl',
+        code: 'circular-import',
+        message: 'Circular import: /a.pl -> /b.pl -> /c.pl -> /a.pl',
+        line: 1,
+        column: 19,
+      })])
+    })
+
+    it('should report missing modules and exports where they are imported', async () => {
+      const loader = new MemoryLoader({
+        '/main.pl': 'import { nope } from "./lib/chat.pl"\nimport { x } from "./missing.pl"',
+        '/lib/chat.pl': library['/lib/chat.pl'],
+      })
+      const graph = await new ModuleResolver(loader).resolve('/main.pl')
+      expect(graph.diagnostics.map(d => [d.module, d.code, d.line])).toEqual([
+        ['/main.pl', 'missing-export', 1],
+        ['/main.pl', 'module-not-found', 2],
+      ])
+      expect(graph.diagnostics[0].message).toBe('Module "./lib/chat.pl" has no export \'nope\'')
+    })
+
+    it('should report a missing entry module', async () => {
+      const graph = await new ModuleResolver(new MemoryLoader()).resolve('main.pl')
+      expect(graph.modules).toEqual([])
+      expect(graph.diagnostics).toEqual([expect.objectContaining({ module: '/main.pl', code: 'module-not-found' })])
+    })
+  })
+
+  describe('Bundling', () => {
+    it('should bundle modules into one program', async () => {
+      const result = await compiler.bundle('main.pl', new MemoryLoader(library), { runtime: false })
+      expect(result.errors).toEqual([])
+      expect(result.modules).toEqual(['/lib/chat.pl', '/main.pl'])
+      expect(result.code).toContain('const __pl_module_0 = (function() {')
+      expect(result.code).toContain('return { createChatMessage, DEFAULT_ROLE };')
+      expect(result.code).toContain('const { createChatMessage, DEFAULT_ROLE: role } = __pl_module_0;')
+    })
+
+    it('should name the module in errors', async () => {
+      const loader = new MemoryLoader({ '/main.pl': 'import { a } from "./a.pl"', '/a.pl': 'export var a = ' })
+      const result = await compiler.bundle('/main.pl', loader)
+      expect(result.code).toBe('')
+      expect(result.errors[0]).toMatch(/^\/a\.pl: .* at line 1, column \d+$/)
+      expect(result.diagnostics[0].module).toBe('/a.pl')
+    })
+
+    it('should run each module once on every backend', async () => {
+      const loader = new MemoryLoader({
+        '/counter.pl': 'export var loads = []\npush(loads, "counter")',
+        '/left.pl': 'import { loads } from "./counter.pl"\nexport function left() {\n  return len(loads)\n}',
+        '/right.pl': 'import { loads } from "./counter.pl"\nexport const right = len(loads)',
+        '/main.pl': 'import { left } from "./left.pl"\nimport { right } from "./right.pl"\nreport(left() + right)',
+      })
+      const reported: any[] = []
+      const globals = { report: (value: any) => reported.push(value) }
+
+      await compiler.executeModule('/main.pl', loader, { globals })
+      await compiler.executeModule('/main.pl', loader, { backend: 'interpreter', globals })
+      await compiler.executeModule('/main.pl', loader, { backend: 'vm', globals })
+      expect(reported).toEqual([2, 2, 2])
+    })
+
+    it('should run the entry module with host globals', async () => {
+      const loader = new MemoryLoader({ '/main.pl': 'import { twice } from "./math.pl"\nreport(twice(21))', '/math.pl': 'export function twice(x) {\n  return x * 2\n}' })
+      const reported: any[] = []
+      await compiler.executeModule('/main.pl', loader, { globals: { report: (value: any) => reported.push(value) } })
+      await compiler.executeModule('/main.pl', loader, { backend: 'interpreter', globals: { report: (value: any) => reported.push(value) } })
+      await compiler.executeModule('/main.pl', loader, { backend: 'vm', globals: { report: (value: any) => reported.push(value) } })
+      expect(reported).toEqual([42, 42, 42])
+    })
+
+    it('should refuse to run programs with resolution errors', async () => {
+      const loader = new MemoryLoader({ '/main.pl': 'import { a } from "./main.pl"\nexport var a = 1' })
+      await expect(compiler.executeModule('/main.pl', loader)).rejects.toThrow('Circular import: /main.pl -> /main.pl')
+      await expect(compiler.executeModule('/main.pl', loader, { backend: 'interpreter' })).rejects.toThrow('Circular import')
+    })
+  })
+})
@@ -265,5 +265,34 @@ describe('Parser', () => {
       expect(expr.params).toHaveLength(1)
       expect(expr.params[0].name).toBe('x')
     })
+
+    it('should parse parenthesized parameter lists', () => {
+      const expr = (parse('(a, b) -> a + b').body[0] as any).expression
+      expect(expr.type).toBe(NodeType.ArrowFunctionExpression)
+      expect(expr.params.map((param: any) => param.name)).toEqual(['a', 'b'])
+      expect(expr.body.type).toBe(NodeType.BinaryExpression)
+
+      const empty = (parse('() -> 42').body[0] as any).expression
+      expect(empty.params).toHaveLength(0)
+    })
+
+    it('should parse defaults, rest parameters and block bodies', () => {
+      const expr = (parse('(a, b = a * 2, ...rest) -> {\n  return rest\n}').body[0] as any).expression
+      expect(expr.params.map((param: any) => param.name)).toEqual(['a', 'b'])
+      expect(expr.defaults[0]).toBeNull()
+      expect(expr.defaults[1].type).toBe(NodeType.BinaryExpression)
+      expect(expr.rest.name).toBe('rest')
+      expect(expr.body.type).toBe(NodeType.Block)
+    })
+
+    it('should still parse parenthesized expressions', () => {
+      const expr = (parse('(a + b) * c').body[0] as any).expression
+      expect(expr.type).toBe(NodeType.BinaryExpression)
+      expect(expr.left.type).toBe(NodeType.BinaryExpression)
+    })
+
+    it('should require the rest parameter to be last', () => {
+      expect(() => parse('(...rest, a) -> a')).toThrow('Rest parameter must be last')
+    })
   })
 })
@@ -0,0 +1,154 @@
+/**
+ * PL REPL Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { CONTINUATION_PROMPT, PLREPL, PROMPT } from '@/pl/repl/repl'
+import type { REPLResult } from '@/pl/repl/repl'
+import { MemoryLoader } from '@/pl/modules/loader'
+import { createREPL } from '@/pl'
+
+describe('REPL', () => {
+  // The result of a line that completes an input
+  const complete = async (repl: PLREPL, text: string): Promise<REPLResult> => {
+    const result = await repl.line(text)
+    expect(result).not.toBeNull()
+    return result as REPLResult
+  }
+
+  it('should keep bindings from one input to the next', () => {
+    const repl = createREPL()
+    expect(repl.evaluate('var x = 1').errors).toEqual([])
+    repl.evaluate('function twice(n) { return n * 2 }')
+    repl.evaluate('const items = [1, 2]')
+    expect(repl.evaluate('twice(x) + len(items)').output).toBe(4)
+    repl.evaluate('x = x + 10')
+    expect(repl.getVariable('x')).toBe(11)
+    expect(repl.evaluate('var x = "again"').errors).toEqual([])
+    expect(repl.getVariable('x')).toBe('again')
+  })
+
+  it('should echo the value of a trailing expression', () => {
+    const repl = new PLREPL()
+    expect(repl.evaluate('1 + 1')).toEqual({ output: 2, echo: '2', printed: '', errors: [] })
+    expect(repl.evaluate('"hi"').echo).toBe('"hi"')
+    expect(repl.evaluate('[1, "a", { b: true }]').echo).toBe('[1, a, {b: true}]')
+    expect(repl.evaluate('function f() {}\nf').echo).toBe('[function f]')
+    expect(repl.evaluate('var y = 5').echo).toBeUndefined()
+    expect(repl.evaluate('println("out")')).toEqual({ output: undefined, echo: undefined, printed: 'out\n', errors: [] })
+  })
+
+  it('should report errors and keep going', () => {
+    const repl = new PLREPL()
+    repl.evaluate('var kept = 1')
+    expect(repl.evaluate('missing + 1').errors).toEqual(['Undefined variable \'missing\' at line 1, column 1'])
+    expect(repl.evaluate('var = 3').errors[0]).toBe('Expect identifier at line 1, column 5')
+    expect(repl.evaluate('kept').output).toBe(1)
+  })
+
+  it('should pass host globals and limits to every input', () => {
+    const repl = new PLREPL({ globals: { greet: (name: string) => `hi ${name}` }, maxInstructions: 100 })
+    expect(repl.evaluate('greet("Ada")').output).toBe('hi Ada')
+    expect(repl.evaluate('while (true) {}').errors).toEqual(['Instruction limit of 100 exceeded at line 1, column 8'])
+    repl.setVariable('limit', 3)
+    expect(repl.evaluate('limit * 2').output).toBe(6)
+  })
+
+  it('should await at the top level', async () => {
+    const repl = new PLREPL({ globals: { fetchUser: async (id: number) => ({ id, name: 'Ada' }) } })
+    await repl.evaluateAsync('var user = await fetchUser(7)')
+    expect((await repl.evaluateAsync('user.name')).echo).toBe('"Ada"')
+  })
+
+  describe('Multiline input', () => {
+    it('should tell complete input from input that continues', () => {
+      const repl = new PLREPL()
+      expect(repl.isComplete('var x = 1')).toBe(true)
+      expect(repl.isComplete('function f(a) {')).toBe(false)
+      expect(repl.isComplete('if (x > 1) {\n  print(x)\n} else {')).toBe(false)
+      expect(repl.isComplete('print(1,')).toBe(false)
+      expect(repl.isComplete('var items = [')).toBe(false)
+      expect(repl.isComplete('var s = "open')).toBe(false)
+      expect(repl.isComplete('try { run() }')).toBe(false)
+      expect(repl.isComplete('var = 3')).toBe(true)
+      expect(repl.isComplete('}')).toBe(true)
+    })
+
+    it('should collect lines until the input is complete', async () => {
+      const repl = new PLREPL()
+      expect(repl.prompt).toBe(PROMPT)
+      expect(await repl.line('function add(a, b) {')).toBeNull()
+      expect(repl.prompt).toBe(CONTINUATION_PROMPT)
+      expect(await repl.line('  return a + b')).toBeNull()
+      expect(await repl.line('}')).toMatchObject({ errors: [] })
+      expect(repl.prompt).toBe(PROMPT)
+      expect(await repl.line('add(2, 3)')).toMatchObject({ echo: '5' })
+      expect(repl.getHistory()).toEqual(['function add(a, b) {\n  return a + b\n}', 'add(2, 3)'])
+    })
+
+    it('should drop an incomplete input when cancelled', async () => {
+      const repl = new PLREPL()
+      await repl.line('var items = [1,')
+      repl.cancelInput()
+      expect(repl.prompt).toBe(PROMPT)
+      expect((await complete(repl, '2')).echo).toBe('2')
+      expect(await repl.line('   ')).toBeNull()
+    })
+  })
+
+  describe('Commands', () => {
+    it('should list and reset the environment', async () => {
+      const repl = new PLREPL()
+      expect((await complete(repl, ':env')).printed).toBe('No bindings\n')
+      await repl.line('var x = 1')
+      await repl.line('var name = "pl"')
+      await repl.line('function f() {}')
+      expect((await complete(repl, ':env')).printed).toBe('x = 1\nname = "pl"\nf = [function f]\n')
+      expect((await complete(repl, ':reset')).printed).toBe('Environment reset\n')
+      expect(repl.getBindings()).toEqual({})
+      expect((await complete(repl, 'x')).errors[0]).toMatch(/^Undefined variable 'x'/)
+    })
+
+    it('should load files into the session', async () => {
+      const loader = new MemoryLoader({ 'lib/math.pl': 'println("loading")\nfunction square(n) { return n * n }' })
+      const repl = new PLREPL({ loader })
+      expect(await repl.evaluateAsync(':load lib/math.pl')).toMatchObject({ printed: 'loading\n', errors: [] })
+      expect(repl.evaluate('square(4)').output).toBe(16)
+      expect((await repl.evaluateAsync(':load nope.pl')).errors[0]).toMatch(/^Cannot load "nope.pl"/)
+      expect((await repl.evaluateAsync(':load')).errors).toEqual(['Usage: :load <file>'])
+      expect(repl.evaluate(':load lib/math.pl').errors).toEqual([':load is only available in evaluateAsync'])
+      expect((await new PLREPL().evaluateAsync(':load lib/math.pl')).errors).toEqual(['Loading files is not available in this REPL'])
+    })
+
+    it('should explain the commands and reject unknown ones', () => {
+      const repl = new PLREPL()
+      expect(repl.evaluate(':help').printed).toContain(':load   Run a file in the session')
+      expect(repl.evaluate(':quit').errors).toEqual(['Unknown command ":quit", type :help for the list'])
+    })
+  })
+
+  describe('Completions', () => {
+    const repl = new PLREPL({ globals: { config: { retries: 3, region: 'eu' } } })
+    repl.evaluate('var total = 0\nvar tags = ["a"]\nvar title = "PL"\nfunction toTitle(s) { return s }')
+
+    it('should complete keywords, builtins and bindings', () => {
+      expect(repl.complete('print(to')).toEqual([['toString', 'toTitle', 'total'], 'to'])
+      expect(repl.complete('re')).toEqual([['return'], 're'])
+      expect(repl.complete('va')).toEqual([['values', 'var'], 'va'])
+    })
+
+    it('should complete members of builtins and values', () => {
+      expect(repl.complete('Math.fl')).toEqual([['floor'], 'fl'])
+      expect(repl.complete('config.re')).toEqual([['region', 'retries'], 're'])
+      expect(repl.complete('tags.fi')).toEqual([['filter', 'find'], 'fi'])
+      expect(repl.complete('title.toU')).toEqual([['toUpperCase'], 'toU'])
+      expect(repl.complete('total.')).toEqual([[], ''])
+      expect(repl.complete('nothing.x')).toEqual([[], 'x'])
+      expect(repl.complete('config.constructor.').at(0)).toEqual([])
+    })
+
+    it('should complete commands', () => {
+      expect(repl.complete(':re')).toEqual([[':reset'], ':re'])
+    })
+  })
+})
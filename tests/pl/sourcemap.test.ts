@@ -0,0 +1,116 @@
+/**
+ * PL Source Map Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { Lexer } from '@/pl/parser/lexer'
+import { Parser } from '@/pl/parser/parser'
+import { Transpiler } from '@/pl/transpiler/transpiler'
+import { PLCompiler } from '@/pl/compiler/compiler'
+import { PLExecutor } from '@/pl/executor/PLExecutor'
+import { RuntimeError } from '@/pl/runtime/runtime'
+import type {
+  SourceMapping,
+} from '@/pl/transpiler/sourcemap'
+import {
+  decodeMappings,
+  encodeMappings,
+  originalPositionFor,
+} from '@/pl/transpiler/sourcemap'
+
+describe('Source maps', () => {
+  const parse = (source: string) => {
+    const lexer = new Lexer(source)
+    const tokens = lexer.tokenize()
+    const parser = new Parser(tokens)
+    return parser.parse()
+  }
+
+  const errorOf = (fn: () => any): any => {
+    try {
+      fn()
+    }
+    catch (error) {
+      return error
+    }
+    throw new Error('Expected an error')
+  }
+
+  const source = 'var a = 1\nfunction f(x) {\n  return x + missing\n}\nprint(f(a))'
+
+  describe('Mappings', () => {
+    it('should round-trip through VLQ encoding', () => {
+      const mappings: SourceMapping[] = [
+        { generatedLine: 0, generatedColumn: 0, originalLine: 0, originalColumn: 0 },
+        { generatedLine: 0, generatedColumn: 17, originalLine: 0, originalColumn: 12 },
+        { generatedLine: 2, generatedColumn: 4, originalLine: 40, originalColumn: 2 },
+        { generatedLine: 3, generatedColumn: 0, originalLine: 1, originalColumn: 100 },
+      ]
+      expect(decodeMappings(encodeMappings(mappings))).toEqual(mappings)
+    })
+
+    it('should encode the standard example', () => {
+      expect(encodeMappings([
+        { generatedLine: 0, generatedColumn: 0, originalLine: 0, originalColumn: 0 },
+        { generatedLine: 1, generatedColumn: 2, originalLine: 1, originalColumn: 4 },
+      ])).toBe('AAAA;EACI')
+    })
+
+    it('should record where each node starts', () => {
+      const { code, mappings } = new Transpiler().transpileWithMappings(parse('var total = 1\nprint(total)'))
+      expect(code).toBe(new Transpiler().transpile(parse('var total = 1\nprint(total)')))
+
+      const lines = code.split('\n')
+      const printLine = lines.findIndex(line => line.startsWith('print'))
+      const argColumn = lines[printLine].indexOf('total') + 1
+      expect(originalPositionFor(mappings, printLine + 1, argColumn)).toEqual({ line: 2, column: 7 })
+    })
+  })
+
+  describe('Compiler', () => {
+    it('should produce a v3 source map when requested', () => {
+      const result = new PLCompiler().compile(source, { sourceMap: true, runtime: false, filename: 'example.pl' })
+      expect(result.sourceMap).toMatchObject({
+        version: 3,
+        sources: ['example.pl'],
+        sourcesContent: [source],
+        names: [],
+      })
+      expect(result.sourceMap!.mappings.length).toBeGreaterThan(0)
+    })
+
+    it('should omit the source map by default', () => {
+      expect(new PLCompiler().compile(source).sourceMap).toBeUndefined()
+    })
+
+    it('should account for the runtime prelude', () => {
+      const result = new PLCompiler().compile(source, { sourceMap: true })
+      const lines = result.code.split('\n')
+      const line = lines.findIndex(text => text.includes('missing')) + 1
+      const column = lines[line - 1].indexOf('missing') + 1
+      expect(originalPositionFor(result.sourceMap!, line, column)).toEqual({ line: 3, column: 14 })
+    })
+
+    it('should report execution errors at PL positions', () => {
+      const error = errorOf(() => new PLCompiler().execute(source))
+      expect(error).toBeInstanceOf(RuntimeError)
+      expect(error.line).toBe(3)
+      expect(error.column).toBe(14)
+      expect(error.message).toBe('missing is not defined at line 3, column 14')
+    })
+  })
+
+  describe('Executor', () => {
+    it('should report execution errors at PL positions', () => {
+      const error = errorOf(() => new PLExecutor().execute(parse(source)))
+      expect(error).toBeInstanceOf(RuntimeError)
+      expect(error.line).toBe(3)
+      expect(error.column).toBe(14)
+    })
+
+    it('should locate errors thrown by builtins', () => {
+      const error = errorOf(() => new PLExecutor().execute(parse('var x = 1\n\nvar y = len(5)')))
+      expect(error.message).toBe('Object of type number has no length at line 3, column 9')
+    })
+  })
+})
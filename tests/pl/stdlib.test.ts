@@ -0,0 +1,163 @@
+/**
+ * PL Standard Library Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { Lexer } from '@/pl/parser/lexer'
+import { Parser } from '@/pl/parser/parser'
+import { Transpiler } from '@/pl/transpiler/transpiler'
+import type { ExecutionBackend } from '@/pl/compiler/compiler'
+import { PLCompiler } from '@/pl/compiler/compiler'
+import { PLExecutor } from '@/pl/executor/PLExecutor'
+import { BUILTIN_DOCS, PLRuntime, RuntimeError } from '@/pl/runtime/runtime'
+
+describe('Standard Library', () => {
+  const parse = (source: string) => new Parser(new Lexer(source).tokenize()).parse()
+
+  describe('Runtime', () => {
+    const runtime = new PLRuntime()
+    const call = (name: string, ...args: any[]) => runtime.getGlobals().get(name.split('.')[0])[name.split('.')[1]](...args)
+
+    it('should format strings with positional and named placeholders', () => {
+      expect(call('String.format', '{0} + {0} = {1}', 2, 4)).toBe('2 + 2 = 4')
+      expect(call('String.format', 'Hi {name}, {missing}', { name: 'Ada' })).toBe('Hi Ada, {missing}')
+      expect(call('String.format', '{{0}} is {0}', [1, 2])).toBe('{0} is [1, 2]')
+    })
+
+    it('should replace every occurrence', () => {
+      expect(call('String.replace', 'a-b-c', '-', '+')).toBe('a+b+c')
+    })
+
+    it('should parse and stringify JSON', () => {
+      expect(call('JSON.parse', '{"a":[1,2]}')).toEqual({ a: [1, 2] })
+      expect(call('JSON.stringify', { a: 1 }, 2)).toBe('{\n  "a": 1\n}')
+      expect(() => call('JSON.parse', '{')).toThrow(/^Invalid JSON/)
+    })
+
+    it('should work with times in UTC', () => {
+      const time = call('Date.parse', '2024-02-28T22:30:05.042Z')
+      expect(call('Date.format', time)).toBe('2024-02-28 22:30:05')
+      expect(call('Date.format', time, 'DD/MM/YYYY HH:mm:ss.SSS')).toBe('28/02/2024 22:30:05.042')
+      expect(call('Date.format', call('Date.add', time, 2, 'hours'), 'YYYY-MM-DD')).toBe('2024-02-29')
+      expect(call('Date.diff', call('Date.add', time, 3, 'days'), time, 'days')).toBe(3)
+      expect(() => call('Date.parse', 'soon')).toThrow('Invalid date \'soon\'')
+      expect(() => call('Date.add', time, 1, 'fortnights')).toThrow(/Unknown time unit 'fortnights'/)
+    })
+
+    it('should check the type of the first argument', () => {
+      expect(() => call('Array.map', 'abc', (x: any) => x)).toThrow(RuntimeError)
+      expect(() => call('Array.map', 'abc', (x: any) => x)).toThrow('Array.map expects an array, got string')
+      expect(() => call('String.split', [1], ',')).toThrow('String.split expects a string, got array')
+    })
+
+    it('should find library functions for arrays and strings only', () => {
+      expect(runtime.method([], 'map')).toBeTypeOf('function')
+      expect(runtime.method('', 'format')).toBeTypeOf('function')
+      expect(runtime.method({ map: () => 1 }, 'map')).toBeUndefined()
+      expect(runtime.invoke({ twice: (x: number) => x * 2 }, 'twice', 4)).toBe(8)
+      expect(() => runtime.invoke(null, 'map')).toThrow('Cannot read property \'map\' of null')
+      expect(() => runtime.invoke({}, 'map')).toThrow('\'map\' is not a function')
+    })
+
+    it('should document the method form of Array and String functions', () => {
+      const doc = (name: string) => BUILTIN_DOCS.find(entry => entry.name === name)
+      expect(doc('Array.map')?.method).toBe('array.map(fn): array')
+      expect(doc('String.format')?.method).toBe('template.format(...values): string')
+      expect(doc('Date.now')?.method).toBeUndefined()
+      expect(doc('println')?.method).toBeUndefined()
+    })
+  })
+
+  describe('Transpiler', () => {
+    it('should route method calls through __pl_invoke when asked to', () => {
+      const source = 'items.map(x -> x)\nitems["map"](f)\nf()'
+      expect(new Transpiler().transpile(parse(source))).toBe('items.map((x) => x);\n\nitems["map"](f);\n\nf();')
+      expect(new Transpiler({ libraryMethods: true }).transpile(parse(source))).toBe('__pl_invoke(items, "map", (x) => x);\n\nitems["map"](f);\n\nf();')
+    })
+  })
+
+  describe.each<ExecutionBackend>(['transpiler', 'interpreter', 'vm'])('Execution (%s)', (backend) => {
+    const compiler = new PLCompiler()
+
+    const results = (source: string): any[] => {
+      const reported: any[] = []
+      compiler.execute(source, { backend, globals: { report: (value: any) => reported.push(value) } })
+      return reported
+    }
+
+    it('should call array functions in both forms', () => {
+      const source = `
+        var items = [1, 2, 3, 4]
+        report(Array.map(items, x -> x * 2))
+        report(items.map(x -> x * 2))
+        report(items.filter(x -> x % 2 == 0).map((x, i) -> x + i))
+        report(items.reduce((sum, x) -> sum + x, 0))
+        report(Array.reduce(items, (sum, x) -> sum + x))
+        report(items.find(x -> x > 2))
+        report(items.find(x -> x > 10))
+        report(items.slice(1, -1))
+        report(items.includes(3))
+        report(items.indexOf(4))
+      `
+      expect(results(source)).toEqual([[2, 4, 6, 8], [2, 4, 6, 8], [2, 5], 10, 10, 3, null, [2, 3], true, 3])
+    })
+
+    it('should change arrays in place with splice and forEach', () => {
+      const source = `
+        var items = [1, 2, 3, 4]
+        report(items.splice(1, 2, "a"))
+        report(items)
+        var total = 0
+        items.forEach(x -> { total = total + len(toString(x)) })
+        report(total)
+      `
+      expect(results(source)).toEqual([[2, 3], [1, 'a', 4], 3])
+    })
+
+    it('should call string functions in both forms', () => {
+      const source = `
+        var text = "one,two,three"
+        report(text.split(","))
+        report(String.replace(text, ",", " / "))
+        report(text.startsWith("one"))
+        report(text.toUpperCase().endsWith("THREE"))
+        report("Hello {0}, you are {1}".format("Ada", 36))
+        report("{name} ({age})".format({ name: "Alan", age: 41 }))
+        report(String.trim("  x  ").slice(0, 1))
+      `
+      expect(results(source)).toEqual([['one', 'two', 'three'], 'one / two / three', true, true, 'Hello Ada, you are 36', 'Alan (41)', 'x'])
+    })
+
+    it('should call JSON and Date helpers', () => {
+      const source = `
+        var data = JSON.parse("{\\"tags\\": [\\"a\\", \\"b\\"]}")
+        report(data.tags.join("|"))
+        report(JSON.stringify({ ok: true }))
+        report(Date.format(Date.add(0, 90, "minutes"), "HH:mm"))
+        report(type(Date.now()))
+      `
+      expect(results(source)).toEqual(['a|b', '{"ok":true}', '01:30', 'number'])
+    })
+
+    it('should keep calling methods of other objects', () => {
+      const source = `
+        var counter = { count: 0, add: n -> n + 1 }
+        report(counter.add(1))
+        report(Math.max(1, 5))
+      `
+      expect(results(source)).toEqual([2, 5])
+    })
+
+    it('should report a wrong receiver', () => {
+      expect(() => results('Array.map("abc", x -> x)')).toThrow('Array.map expects an array, got string')
+    })
+  })
+
+  describe('Executor', () => {
+    it('should call library functions as methods in the sandbox', () => {
+      const result = new PLExecutor().execute(parse('var words = "b a c".split(" ")\nprintln(Array.sort(words).join(", "))\nprintln("{0}!".format(words.map(w -> w.toUpperCase()).join("")))'))
+      expect(result.success).toBe(true)
+      expect(result.output).toBe('a, b, c\nABC!\n')
+    })
+  })
+})
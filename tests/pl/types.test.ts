@@ -0,0 +1,390 @@
+/**
+ * PL Type Checker Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { Lexer } from '@/pl/parser/lexer'
+import { Parser } from '@/pl/parser/parser'
+import type { ArrowFunctionExpressionNode, ExpressionStatementNode, FunctionDeclarationNode, VariableDeclarationNode } from '@/pl/parser/parser'
+import { TypeChecker } from '@/pl/checker/checker'
+import { typeToString } from '@/pl/checker/types'
+import { PLCompiler } from '@/pl/compiler/compiler'
+import { Formatter } from '@/pl/formatter/formatter'
+import { MemoryLoader } from '@/pl/modules/loader'
+
+describe('Type Checker', () => {
+  const parse = (source: string) => new Parser(new Lexer(source).tokenize()).parse()
+
+  const check = (source: string, globals?: string[]) => new TypeChecker({ globals }).check(parse(source))
+
+  const messages = (source: string) => check(source).map(d => `${d.line}:${d.column} ${d.code}: ${d.message}`)
+
+  // Inferred type of each top-level binding, by name
+  const types = (source: string) => {
+    const checker = new TypeChecker()
+    checker.check(parse(source))
+    return Object.fromEntries([...checker.types].map(([binding, type]) => [binding.name, typeToString(type)]))
+  }
+
+  describe('Annotations', () => {
+    it('should parse parameter, return and variable types', () => {
+      const program = parse('function f(a: number, b: string = "x", ...rest: bool[]): map<number> { }\nvar xs: number[] | null = null')
+      const fn = program.body[0] as FunctionDeclarationNode
+      expect(fn.params.map(param => param.typeAnnotation)).toMatchObject([
+        { kind: 'named', name: 'number', arguments: [], line: 1, column: 15 },
+        { kind: 'named', name: 'string' },
+      ])
+      expect(fn.rest!.typeAnnotation).toMatchObject({ kind: 'array', element: { kind: 'named', name: 'bool' } })
+      expect(fn.returnType).toMatchObject({ kind: 'named', name: 'map', arguments: [{ name: 'number' }] })
+      expect((program.body[1] as VariableDeclarationNode).declarations[0].id.typeAnnotation).toMatchObject({
+        kind: 'union',
+        types: [{ kind: 'array' }, { kind: 'named', name: 'null' }],
+      })
+    })
+
+    it('should parse function types and arrow return types', () => {
+      const program = parse('var f: (number, string) -> bool = (n: number, s): bool -> n > 0\nvar g = (x) -> x')
+      const declarator = (program.body[0] as VariableDeclarationNode).declarations[0]
+      expect(declarator.id.typeAnnotation).toMatchObject({ kind: 'function', params: [{ name: 'number' }, { name: 'string' }], returns: { name: 'bool' } })
+      expect(declarator.init).toMatchObject({ type: 'ArrowFunctionExpression', returnType: { name: 'bool' } })
+      expect((program.body[1] as VariableDeclarationNode).declarations[0].init).not.toHaveProperty('returnType')
+    })
+
+    it('should keep switch cases and parenthesized expressions apart from arrow return types', () => {
+      const program = parse('switch (x) {\n  case (1): print("one")\n}\n(a)')
+      expect(program.body.map(statement => statement.type)).toEqual(['SwitchStatement', 'ExpressionStatement'])
+      expect((program.body[1] as ExpressionStatementNode).expression.type).toBe('Identifier')
+    })
+
+    it('should strip annotations when transpiling', () => {
+      const result = new PLCompiler().compile('function add(a: number, b: number): number {\n  return a + b\n}\nvar total: number = add(1, 2)\nvar twice = (n: number): number -> n * 2', { runtime: false })
+      expect(result.errors).toEqual([])
+      expect(result.code).toContain('function add(a, b)')
+      expect(result.code).not.toContain(': number')
+    })
+
+    it.each(['transpiler', 'interpreter'] as const)('should run annotated code with the %s', (backend) => {
+      const reported: any[] = []
+      const source = 'var xs: number[] = [1, 2]\nreport(xs.map((x: number): number -> x * 10))'
+      new PLCompiler().execute(source, { backend, globals: { report: (value: any) => reported.push(value) } })
+      expect(reported).toEqual([[10, 20]])
+    })
+
+    it('should format annotations', () => {
+      const source = 'function   f(a:number,b :map< string >= {}, ...rest:(number|null)[]):bool{\nreturn true\n}\nvar g:(number)->string=(n:number):string->toString(n)'
+      expect(new Formatter().format(source)).toBe([
+        'function f(a: number, b: map<string> = {}, ...rest: (number | null)[]): bool {',
+        '  return true',
+        '}',
+        'var g: (number) -> string = (n: number): string -> toString(n)',
+        '',
+      ].join('\n'))
+    })
+
+    it('should report unknown types and wrong type arguments', () => {
+      expect(messages('var a: strng = "x"\nvar b: map<string, number> = {}\nvar c: number<string> = 1')).toEqual([
+        '1:8 unknown-type: Unknown type \'strng\'',
+        '2:8 invalid-type: Type \'map\' takes 1 type argument',
+        '3:8 invalid-type: Type \'number\' takes no type arguments',
+      ])
+      expect(check('var a: strng = "x"')[0]).toMatchObject({ severity: 'error', endColumn: 13 })
+    })
+  })
+
+  describe('Assignments', () => {
+    it('should check initial values and assignments against annotations', () => {
+      expect(messages('var n: number = "one"\nvar s: string = "a"\ns = 2\nvar ok: bool = n > 1')).toEqual([
+        '1:5 type-mismatch: Type \'string\' is not assignable to type \'number\'',
+        '3:1 type-mismatch: Type \'number\' is not assignable to type \'string\'',
+      ])
+    })
+
+    it('should check compound assignments', () => {
+      expect(messages('var count: number = 0\ncount += 1\ncount += "x"\ncount -= "y"')).toEqual([
+        '3:1 type-mismatch: Type \'string\' is not assignable to type \'number\'',
+        '4:1 invalid-operand: Operator \'-\' cannot be applied to types \'number\' and \'string\'',
+      ])
+    })
+
+    it('should widen unannotated locals instead of reporting', () => {
+      expect(check('var value = 1\nvalue = "one"\nvar later\nlater = 2')).toEqual([])
+      expect(types('var value = 1\nvalue = "one"\nvar best = null\nconst names = ["a"]')).toEqual({
+        value: 'number | string',
+        best: 'any',
+        names: 'string[]',
+      })
+    })
+
+    it('should infer locals from their values and check later uses', () => {
+      expect(messages('function twice(n: number): number {\n  return n * 2\n}\nvar name = "Ada"\ntwice(name)')).toEqual([
+        '5:7 type-mismatch: Argument of type \'string\' is not assignable to parameter of type \'number\'',
+      ])
+    })
+
+    it('should require null to be part of the type', () => {
+      expect(messages('var a: string = null\nvar b: string | null = null')).toEqual([
+        '1:5 type-mismatch: Type \'null\' is not assignable to type \'string\'',
+      ])
+    })
+  })
+
+  describe('Functions', () => {
+    it('should check arguments and their number', () => {
+      expect(messages([
+        'function greet(name: string, times: number = 1): string {',
+        '  return name',
+        '}',
+        'greet("Ada")',
+        'greet("Ada", "twice")',
+        'greet()',
+        'greet("a", 1, 2)',
+      ].join('\n'))).toEqual([
+        '5:14 type-mismatch: Argument of type \'string\' is not assignable to parameter of type \'number\'',
+        '6:1 argument-count: Expected at least 1 argument, but got 0',
+        '7:1 argument-count: Expected at most 2 arguments, but got 3',
+      ])
+    })
+
+    it('should leave the number of arguments of unannotated functions alone', () => {
+      expect(check('function f(a, b) {\n  return a\n}\nf(1)\nf(1, 2, 3)')).toEqual([])
+    })
+
+    it('should check rest parameters', () => {
+      expect(messages('function sum(...values: number[]): number {\n  return len(values)\n}\nsum(1, 2, "3")\nfunction bad(...values: number) { }')).toEqual([
+        '4:11 type-mismatch: Argument of type \'string\' is not assignable to parameter of type \'number\'',
+        '5:25 invalid-type: A rest parameter must have an array type',
+      ])
+    })
+
+    it('should check returned values', () => {
+      expect(messages([
+        'function a(): number {',
+        '  return "x"',
+        '}',
+        'function b(): string {',
+        '  return',
+        '}',
+        'function c(flag: bool): number {',
+        '  if (flag) return 1',
+        '}',
+        'function d(): void {',
+        '  return 1',
+        '}',
+        'function e(): number {',
+        '  while (true) {',
+        '    return 1',
+        '  }',
+        '}',
+      ].join('\n'))).toEqual([
+        '2:10 type-mismatch: Type \'string\' is not assignable to return type \'number\'',
+        '5:3 missing-return: A value of type \'string\' must be returned',
+        '7:10 missing-return: Function \'c\' must return a value of type \'number\'',
+        '11:10 type-mismatch: Type \'number\' is not assignable to return type \'void\'',
+      ])
+    })
+
+    it('should check calls before the declaration', () => {
+      expect(messages('half("ten")\nfunction half(n: number): number {\n  return n / 2\n}')).toEqual([
+        '1:6 type-mismatch: Argument of type \'string\' is not assignable to parameter of type \'number\'',
+      ])
+    })
+
+    it('should type arrow functions and check callbacks', () => {
+      expect(types('var double = (n: number) -> n * 2\nvar parse: (string) -> number = s -> parseInt(s)')).toMatchObject({
+        double: '(number) -> number',
+        parse: '(string) -> number',
+      })
+      expect(messages('function apply(f: (number) -> number, n: number): number {\n  return f(n)\n}\napply((s: string) -> s, 1)')).toEqual([
+        '4:7 type-mismatch: Argument of type \'(string) -> string\' is not assignable to parameter of type \'(number) -> number\'',
+      ])
+    })
+
+    it('should report calling values that are not functions', () => {
+      expect(messages('var n = 1\nn()\nvar f: function = print\nf(1)')).toEqual([
+        '2:1 not-callable: Type \'number\' is not callable',
+      ])
+    })
+
+    it('should type async functions as promises until awaited', () => {
+      expect(messages([
+        'async function load(): string {',
+        '  return "data"',
+        '}',
+        'async function main() {',
+        '  var text: string = await load()',
+        '  var pending: string = load()',
+        '}',
+      ].join('\n'))).toEqual([
+        '6:7 type-mismatch: Type \'promise<string>\' is not assignable to type \'string\'',
+      ])
+    })
+  })
+
+  describe('Generics', () => {
+    it('should check array and map items', () => {
+      expect(messages([
+        'var xs: number[] = [1, 2, "3"]',
+        'var ys: array<string> = ["a"]',
+        'ys[0] = 1',
+        'push(ys, 2)',
+        'ys.push("b", 3)',
+        'var ages: map<number> = { ada: 36, alan: "41" }',
+        'ages.grace = 85',
+        'ages["linus"] = "54"',
+      ].join('\n'))).toEqual([
+        '1:5 type-mismatch: Type \'(number | string)[]\' is not assignable to type \'number[]\'',
+        '3:1 type-mismatch: Type \'number\' is not assignable to type \'string\'',
+        '4:10 type-mismatch: Argument of type \'number\' is not assignable to parameter of type \'string\'',
+        '5:14 type-mismatch: Argument of type \'number\' is not assignable to parameter of type \'string\'',
+        '6:5 type-mismatch: Type \'{ ada: number, alan: string }\' is not assignable to type \'map<number>\'',
+        '8:1 type-mismatch: Type \'string\' is not assignable to type \'number\'',
+      ])
+    })
+
+    it('should carry item types through array functions', () => {
+      expect(types([
+        'var words = ["a", "bb"]',
+        'var lengths = words.map(w -> len(w))',
+        'var long = words.filter(w -> len(w) > 1)',
+        'var first = words.find(w -> true)',
+        'var total = lengths.reduce((sum, n) -> sum + n, 0)',
+        'var joined = Array.join(words, ",")',
+        'var last = pop(words)',
+        'var parts = "a,b".split(",")',
+        'var item = lengths[0]',
+      ].join('\n'))).toMatchObject({
+        words: 'string[]',
+        lengths: 'number[]',
+        long: 'string[]',
+        first: 'string | null',
+        total: 'number',
+        joined: 'string',
+        last: 'string',
+        parts: 'string[]',
+        item: 'number',
+      })
+    })
+
+    it('should give callbacks the item type', () => {
+      expect(messages('var xs: number[] = [1, 2]\nxs.map(x -> x.toUpperCase())\nxs.forEach(x -> x - "1")')).toEqual([
+        '3:17 invalid-operand: Operator \'-\' cannot be applied to types \'number\' and \'string\'',
+      ])
+      expect(messages('var xs: number[] = [1, 2]\nxs.filter((s: string) -> s == "1")')).toEqual([
+        '2:11 type-mismatch: Argument of type \'(string) -> bool\' is not assignable to parameter of type \'(number, number) -> any\'',
+      ])
+    })
+
+    it('should widen the items of unannotated arrays and objects', () => {
+      expect(check('var items = [1, 2]\nitems.push("three")\nitems[0] = true\nvar user = { name: "Ada" }\nuser.age = 36')).toEqual([])
+      expect(types('var items = [1, 2]\nitems.push("three")\nvar user = { name: "Ada" }\nuser.age = 36')).toEqual({
+        items: '(number | string)[]',
+        user: '{ name: string, age: number }',
+      })
+    })
+  })
+
+  describe('Operators', () => {
+    it('should check arithmetic operands', () => {
+      expect(messages('var s = "a"\nvar n = 1\nn - s\n-s\ns * 2\nn + s\n[1] + 1\nn < s')).toEqual([
+        '3:1 invalid-operand: Operator \'-\' cannot be applied to types \'number\' and \'string\'',
+        '4:2 invalid-operand: Operator \'-\' cannot be applied to type \'string\'',
+        '5:1 invalid-operand: Operator \'*\' cannot be applied to types \'string\' and \'number\'',
+        '7:3 invalid-operand: Operator \'+\' cannot be applied to types \'number[]\' and \'number\'',
+        '8:1 invalid-operand: Operator \'<\' cannot be applied to types \'number\' and \'string\'',
+      ])
+    })
+
+    it('should leave values of unknown type alone', () => {
+      expect(check('function f(x, y) {\n  return x - y * x.count + len(y)\n}\nvar data = JSON.parse("{}")\ndata.items[0] - 1\nhost.run(1) * 2', ['host'])).toEqual([])
+    })
+  })
+
+  describe('Narrowing', () => {
+    const useNumber = 'function use(n: number): number {\n  return n\n}\n'
+
+    it('should narrow on null checks', () => {
+      expect(check(useNumber + [
+        'function f(x: number | null) {',
+        '  if (x != null) use(x)',
+        '  if (x) use(x)',
+        '  if (x == null) {',
+        '    return',
+        '  }',
+        '  use(x)',
+        '}',
+      ].join('\n'))).toEqual([])
+      expect(messages(`${useNumber}function f(x: number | null) {\n  use(x)\n}`)).toEqual([
+        '5:7 type-mismatch: Argument of type \'number | null\' is not assignable to parameter of type \'number\'',
+      ])
+    })
+
+    it('should narrow on type() checks, "and", "or" and assignments', () => {
+      expect(check(useNumber + [
+        'function f(x: number | string | null, y) {',
+        '  if (type(x) == "number") use(x)',
+        '  if (type(y) == "number") use(y)',
+        '  var ok = x != null and type(x) != "string" and use(x) > 0',
+        '  var n: number | null = null',
+        '  n = 5',
+        '  use(n)',
+        '}',
+      ].join('\n'))).toEqual([])
+      expect(types('function f(name: string | null) {\n  var shown = name or "anonymous"\n}')).toMatchObject({ shown: 'string' })
+    })
+
+    it('should not narrow in declared functions, which may be called anywhere', () => {
+      expect(check(useNumber + [
+        'var current: number | null = null',
+        'function show() {',
+        '  if (current != null) use(current)',
+        '}',
+        'current = 1',
+        'show()',
+      ].join('\n'))).toEqual([])
+      expect(messages(`${useNumber}var n: number | null = 1\nfunction show() {\n  use(n)\n}`)).toEqual([
+        '6:7 type-mismatch: Argument of type \'number | null\' is not assignable to parameter of type \'number\'',
+      ])
+    })
+
+    it('should not narrow past the condition', () => {
+      expect(messages(`${useNumber}function f(x: number | null) {\n  if (x != null) {\n    use(x)\n  }\n  use(x)\n}`)).toEqual([
+        '8:7 type-mismatch: Argument of type \'number | null\' is not assignable to parameter of type \'number\'',
+      ])
+    })
+  })
+
+  describe('Compiler', () => {
+    it('should block compilation on type errors', () => {
+      const result = new PLCompiler().compile('var n: number = "x"')
+      expect(result.code).toBe('')
+      expect(result.errors).toEqual(['Type \'string\' is not assignable to type \'number\' at line 1, column 5'])
+      expect(result.diagnostics[0]).toMatchObject({ code: 'type-mismatch', severity: 'error' })
+    })
+
+    it('should skip type checking when turned off', () => {
+      expect(new PLCompiler().compile('var n: number = "x"', { typeCheck: false }).errors).toEqual([])
+    })
+
+    it('should type host globals as any', () => {
+      expect(new PLCompiler().compile('var n: number = config.limit', { globals: ['config'] }).errors).toEqual([])
+    })
+
+    it('should check the types of every bundled module', async () => {
+      const modules: Record<string, string> = {
+        '/main.pl': 'import { half } from "./util.pl"\nvar n: number = half(4)\nvar s: string = 1',
+        '/util.pl': 'export function half(n: number): number {\n  return n / "2"\n}',
+      }
+      const result = await new PLCompiler().bundle('/main.pl', new MemoryLoader(modules))
+      expect(result.diagnostics.map(d => [d.module, d.line, d.code]).sort()).toEqual([
+        ['/main.pl', 3, 'type-mismatch'],
+        ['/util.pl', 2, 'invalid-operand'],
+      ])
+    })
+  })
+
+  it('should type the parameters of arrow functions from their annotations', () => {
+    const arrow = (parse('(a: number, ...rest: string[]): bool -> true').body[0] as ExpressionStatementNode).expression as ArrowFunctionExpressionNode
+    expect(arrow.params[0].typeAnnotation).toMatchObject({ name: 'number' })
+    expect(arrow.rest!.typeAnnotation).toMatchObject({ kind: 'array' })
+  })
+})
@@ -0,0 +1,335 @@
+/**
+ * PL Virtual Machine Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { Lexer } from '@/pl/parser/lexer'
+import { Parser } from '@/pl/parser/parser'
+import { BytecodeCompiler } from '@/pl/vm/codegen'
+import { BYTECODE_VERSION, Opcode, deserialize, hashSource, serialize } from '@/pl/vm/bytecode'
+import { ProgramCache } from '@/pl/vm/cache'
+import type { VMOptions } from '@/pl/vm/vm'
+import { VM } from '@/pl/vm/vm'
+import { PLCompiler } from '@/pl/compiler/compiler'
+import { CancellationError, LimitExceededError, RuntimeError, SecurityError } from '@/pl/runtime/runtime'
+
+describe('VM', () => {
+  const compile = (source: string) => {
+    const lexer = new Lexer(source)
+    const parser = new Parser(lexer.tokenize())
+    return new BytecodeCompiler().compile(parser.parse(), source)
+  }
+
+  const run = (source: string, options: VMOptions = {}) => {
+    let output = ''
+    const vm = new VM({
+      ...options,
+      output: (text) => {
+        output += text
+      },
+    })
+    const value = vm.execute(compile(source))
+    return { value, output, vm }
+  }
+
+  const errorOf = (fn: () => any): any => {
+    try {
+      fn()
+    }
+    catch (error) {
+      return error
+    }
+    throw new Error('Expected an error')
+  }
+
+  describe('Evaluation', () => {
+    it('should return the value of the last expression', () => {
+      expect(run('1 + 2 * 3').value).toBe(7)
+      expect(run('2 ^ 10').value).toBe(1024)
+      expect(run('not true or 5 > 3 and "yes"').value).toBe('yes')
+      expect(run('var x = 1').value).toBeUndefined()
+    })
+
+    it('should run functions, recursion and loops', () => {
+      const source = `
+        function fibonacci(n) {
+          if (n <= 1) return n
+          return fibonacci(n - 1) + fibonacci(n - 2)
+        }
+        var total = 0
+        for (var i = 0; i < 5; i = i + 1) {
+          if (i == 1) continue
+          if (i == 4) break
+          total += i
+        }
+        var j = 0
+        while (true) {
+          j = j + 1
+          if (j > 2) break
+        }
+        println(fibonacci(15), total, j)
+      `
+      expect(run(source).output).toBe('610 5 3\n')
+    })
+
+    it('should hoist function declarations', () => {
+      expect(run('println(double(4))\nfunction double(x) { return x * 2 }').output).toBe('8\n')
+    })
+
+    it('should give each loop iteration its own block bindings', () => {
+      const source = `
+        var getters = []
+        for (var i = 0; i < 3; i += 1) {
+          const value = i * 10
+          push(getters, () -> value)
+        }
+        Array.map(getters, get -> get())
+      `
+      expect(run(source).value).toEqual([0, 10, 20])
+    })
+
+    it('should apply default and rest parameters', () => {
+      const source = `
+        function describe(name, greeting = "Hi", ...rest) {
+          return greeting + " " + name + " " + len(rest)
+        }
+        [describe("Ada"), describe("Ada", "Hello", 1, 2)]
+      `
+      expect(run(source).value).toEqual(['Hi Ada 0', 'Hello Ada 2'])
+    })
+
+    it('should fall through switch cases until break', () => {
+      const source = `
+        var log = []
+        function record(n) {
+          switch (n) {
+            case 1:
+              push(log, "one")
+            case 2:
+              push(log, "two")
+              break
+            default:
+              push(log, "default")
+          }
+        }
+        record(1)
+        record(3)
+        log
+      `
+      expect(run(source).value).toEqual(['one', 'two', 'default'])
+    })
+
+    it('should run finally blocks on break, continue and return', () => {
+      const source = `
+        var log = []
+        function find() {
+          for (var i = 0; i < 5; i += 1) {
+            try {
+              if (i == 1) continue
+              if (i == 3) return i
+            } finally {
+              push(log, i)
+            }
+          }
+        }
+        var found = find()
+        while (true) {
+          try {
+            break
+          } finally {
+            push(log, "loop")
+          }
+        }
+        [found, log]
+      `
+      expect(run(source).value).toEqual([3, [0, 1, 2, 3, 'loop']])
+    })
+
+    it('should read and write members', () => {
+      const source = `
+        var user = { name: "Ada", tags: ["a"] }
+        user.age = 36
+        user["tags"][1] = "b"
+        user.name.toUpperCase() + " " + user.age + " " + Array.join(user.tags, "-")
+      `
+      expect(run(source).value).toBe('ADA 36 a-b')
+    })
+
+    it('should let host code call PL functions', () => {
+      const source = 'function descending(a, b) { return b - a }\nArray.sort([3, 1, 2], descending)'
+      expect(run(source).value).toEqual([3, 2, 1])
+    })
+
+    it('should recurse deeper than the JavaScript stack would allow', () => {
+      const source = 'function sum(n) { if (n == 0) return 0\nreturn n + sum(n - 1) }\nsum(20000)'
+      expect(run(source, { maxCallDepth: 30000 }).value).toBe(200010000)
+    })
+
+    it('should expose host globals', () => {
+      expect(run('greet(name)', { globals: { name: 'PL', greet: (n: string) => `Hi ${n}` } }).value).toBe('Hi PL')
+    })
+  })
+
+  describe('Errors', () => {
+    it('should report undefined variables with their position', () => {
+      const error = errorOf(() => run('var a = 1\nprint(a + missing)'))
+      expect(error).toBeInstanceOf(RuntimeError)
+      expect(error.line).toBe(2)
+      expect(error.column).toBe(11)
+      expect(error.message).toBe('Undefined variable \'missing\' at line 2, column 11')
+    })
+
+    it('should reject assignment to constants', () => {
+      expect(errorOf(() => run('const limit = 1\nlimit = 2')).message).toContain('Assignment to constant variable \'limit\'')
+    })
+
+    it('should reject calls to values that are not functions', () => {
+      expect(errorOf(() => run('var x = 1\nx()')).message).toContain('\'x\' is not a function')
+    })
+
+    it('should reject access to prototype internals', () => {
+      expect(errorOf(() => run('print.constructor'))).toBeInstanceOf(SecurityError)
+      expect(errorOf(() => run('var k = "__proto__"\nvar o = {}\no[k]'))).toBeInstanceOf(SecurityError)
+    })
+
+    it('should wrap host errors in RuntimeError', () => {
+      const error = errorOf(() => run('var x = null\nx.length'))
+      expect(error).toBeInstanceOf(RuntimeError)
+      expect(error.message).toContain('Cannot read property \'length\' of null')
+      expect(error.line).toBe(2)
+    })
+
+    it('should reject break outside of loops when compiling', () => {
+      expect(() => compile('break')).toThrow('\'break\' is only allowed inside a loop or switch at line 1, column 1')
+    })
+  })
+
+  describe('Limits', () => {
+    it('should enforce the fuel budget', () => {
+      const error = errorOf(() => run('while (true) { }', { maxInstructions: 1000 }))
+      expect(error).toBeInstanceOf(LimitExceededError)
+      expect(error.limit).toBe('instructions')
+    })
+
+    it('should enforce the timeout', () => {
+      const error = errorOf(() => run('while (true) { }', { timeout: 20 }))
+      expect(error).toBeInstanceOf(LimitExceededError)
+      expect(error.limit).toBe('timeout')
+    })
+
+    it('should enforce the call depth', () => {
+      const error = errorOf(() => run('function down(n) { return down(n + 1) }\ndown(0)', { maxCallDepth: 100 }))
+      expect(error).toBeInstanceOf(LimitExceededError)
+      expect(error.limit).toBe('callDepth')
+    })
+
+    it('should count instructions', () => {
+      const { vm } = run('var x = 1 + 2')
+      expect(vm.instructionCount).toBeGreaterThan(0)
+      expect(run('var x = 1 + 2', { maxInstructions: vm.instructionCount }).value).toBeUndefined()
+      expect(() => run('var x = 1 + 2', { maxInstructions: vm.instructionCount - 1 })).toThrow(LimitExceededError)
+    })
+  })
+
+  describe('Async execution', () => {
+    it('should await host promises', async () => {
+      const vm = new VM({ globals: { later: (value: number) => Promise.resolve(value) } })
+      const program = compile('async function twice(n) { return (await later(n)) * 2 }\nawait twice(21)')
+      expect(await vm.executeAsync(program)).toBe(42)
+    })
+
+    it('should reject top-level await in synchronous runs', () => {
+      expect(() => new VM().execute(compile('await 1'))).toThrow('Top-level await is only supported by executeAsync')
+    })
+
+    it('should cancel', async () => {
+      const vm = new VM()
+      const running = vm.executeAsync(compile('while (true) { }'), 100)
+
+      setTimeout(() => vm.cancel(), 10)
+      await expect(running).rejects.toBeInstanceOf(CancellationError)
+    })
+  })
+
+  describe('Bytecode', () => {
+    it('should emit instructions with their source positions', () => {
+      const program = compile('var x = 1\nx + 2')
+      const code = program.functions[0].code
+      expect(code).toContain(Opcode.ADD)
+      expect(code[code.length - 1]).toBe(Opcode.RETURN)
+      expect(program.hash).toBe(hashSource('var x = 1\nx + 2'))
+    })
+
+    it('should run serialized programs', () => {
+      const source = 'function greet(name = "PL") { return "Hi " + name }\n[greet(), greet("Ada"), 1.5, null, true]'
+      const bytes = serialize(compile(source))
+      expect(bytes).toBeInstanceOf(Uint8Array)
+      expect(new VM().execute(deserialize(bytes))).toEqual(['Hi PL', 'Hi Ada', 1.5, null, true])
+    })
+
+    it('should reject invalid bytecode', () => {
+      const bytes = serialize(compile('1 + 2'))
+      expect(() => deserialize(new Uint8Array([1, 2, 3]))).toThrow('Invalid bytecode')
+      expect(() => deserialize(bytes.slice(0, bytes.length - 2))).toThrow('Invalid bytecode')
+
+      const future = bytes.slice()
+      future[5] = BYTECODE_VERSION + 1
+      expect(() => deserialize(future)).toThrow(`Unsupported bytecode version ${BYTECODE_VERSION + 1}`)
+    })
+  })
+
+  describe('Program cache', () => {
+    it('should compile each source once', () => {
+      const cache = new ProgramCache()
+      let compiled = 0
+      const get = (source: string) => cache.get(source, () => {
+        compiled++
+        return compile(source)
+      })
+
+      const first = get('1 + 1')
+      expect(get('1 + 1')).toBe(first)
+      get('2 + 2')
+      expect(compiled).toBe(2)
+      expect(cache.size).toBe(2)
+    })
+
+    it('should evict the least recently used program', () => {
+      const cache = new ProgramCache(2)
+      cache.get('1', () => compile('1'))
+      cache.get('2', () => compile('2'))
+      cache.get('1', () => compile('1'))
+      cache.get('3', () => compile('3'))
+
+      let recompiled = false
+      cache.get('2', () => {
+        recompiled = true
+        return compile('2')
+      })
+      expect(recompiled).toBe(true)
+      expect(cache.size).toBe(2)
+    })
+  })
+
+  describe('Compiler backend', () => {
+    it('should run programs on the vm', () => {
+      const compiler = new PLCompiler()
+      const source = 'function square(x) { return x * x }\nsquare(n)'
+      expect(compiler.execute(source, { backend: 'vm', globals: { n: 7 } })).toBe(49)
+      expect(compiler.compileBytecode(source)).toBe(compiler.compileBytecode(source))
+    })
+
+    it('should enforce the budget in async runs', async () => {
+      const compiler = new PLCompiler()
+      await expect(compiler.executeAsync('while (true) { }', { backend: 'vm', maxInstructions: 500 }))
+        .rejects.toBeInstanceOf(LimitExceededError)
+    })
+
+    it('should enforce the timeout in async runs', async () => {
+      const compiler = new PLCompiler()
+      await expect(compiler.executeAsync('await 0\nwhile (true) { }', { backend: 'vm', timeout: 20 }))
+        .rejects.toMatchObject({ limit: 'timeout' })
+      await expect(compiler.executeAsync('await 1 +', { backend: 'vm' })).rejects.toBeInstanceOf(RuntimeError)
+    })
+  })
+})
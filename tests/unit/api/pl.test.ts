@@ -0,0 +1,48 @@
+/**
+ * PL API Client Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import axios from 'axios'
+import { PLAPI } from '@/api/pl'
+
+const { authStore } = vi.hoisted(() => ({
+  authStore: { token: '' as string | undefined },
+}))
+
+vi.mock('axios', () => ({
+  default: {
+    get: vi.fn(async () => ({ data: [] })),
+    post: vi.fn(async () => ({ data: { success: true } })),
+  },
+}))
+
+vi.mock('@/store', () => ({
+  useAuthStore: () => authStore,
+}))
+
+describe('PLAPI', () => {
+  const api = new PLAPI('/api/pl')
+
+  beforeEach(() => {
+    vi.mocked(axios.get).mockClear()
+    vi.mocked(axios.post).mockClear()
+  })
+
+  it('sends the login token as the other API clients do', async () => {
+    authStore.token = 'secret'
+    await api.execute({ code: '1' })
+    await api.format('1')
+    await api.getExamples()
+
+    expect(vi.mocked(axios.post).mock.calls[0]).toEqual(['/api/pl/execute', { code: '1' }, { headers: { 'x-ptoken': 'secret' } }])
+    expect(vi.mocked(axios.post).mock.calls[1][2]).toEqual({ headers: { 'x-ptoken': 'secret' } })
+    expect(vi.mocked(axios.get).mock.calls[0]).toEqual(['/api/pl/examples', { headers: { 'x-ptoken': 'secret' } }])
+  })
+
+  it('sends no token header before login', async () => {
+    authStore.token = undefined
+    await api.validate({ code: '1' })
+    expect(vi.mocked(axios.post).mock.calls[0][2]).toEqual({ headers: {} })
+  })
+})
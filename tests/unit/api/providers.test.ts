@@ -0,0 +1,127 @@
+/**
+ * Generation Provider Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { TaskStore } from '@/api/providers/store'
+import { feedTask } from '@/api/providers/feed'
+import { getProvider, listProviders, registerProvider } from '@/api/providers/registry'
+import type { FeedOptions, GenerationProvider } from '@/api/providers/types'
+
+const { storage, setMyData } = vi.hoisted(() => ({
+  storage: new Map<string, any>(),
+  setMyData: vi.fn(),
+}))
+
+vi.mock('@/utils/storage', () => ({
+  ss: {
+    get: (key: string) => storage.get(key),
+    set: (key: string, data: any) => storage.set(key, JSON.parse(JSON.stringify(data))),
+  },
+}))
+
+vi.mock('@/store', () => ({
+  homeStore: { myData: {}, setMyData },
+}))
+
+interface Clip {
+  id: string
+  status: string
+  last_feed?: number
+}
+
+describe('Generation providers', () => {
+  beforeEach(() => {
+    storage.clear()
+    setMyData.mockClear()
+  })
+
+  // A provider whose polls answer from a list, repeating the last answer
+  const provider = (name: string, answers: Array<Clip[] | Error>, feed: Partial<FeedOptions> = {}): GenerationProvider<Clip> => {
+    let index = 0
+    return {
+      name,
+      fetch: vi.fn(),
+      store: new TaskStore<Clip>(`${name}-tasks`, clip => clip.id),
+      feed: { attempts: 10, interval: 0, act: `${name}.feed`, ...feed },
+      submit: async () => 'clip-1',
+      poll: vi.fn(async () => {
+        const answer = answers[Math.min(index++, answers.length - 1)]
+        if (answer instanceof Error)
+          throw answer
+        return answer
+      }),
+      normalize: clip => ({ id: clip.id, provider: name, status: clip.status === 'done' ? 'succeeded' : 'running', media: [] }),
+    }
+  }
+
+  describe('Registry', () => {
+    it('finds registered providers by name', () => {
+      const registered = registerProvider(provider('registry-a', []))
+      registerProvider(provider('registry-b', []))
+
+      expect(getProvider('registry-a')).toBe(registered)
+      expect(listProviders().map(p => p.name)).toEqual(expect.arrayContaining(['registry-a', 'registry-b']))
+      expect(() => getProvider('dalle')).toThrow(/^Unknown generation provider "dalle", expected one of .*registry-a, registry-b/)
+    })
+  })
+
+  describe('feedTask', () => {
+    it('polls until every record is finished, storing the records', async () => {
+      const vendor = provider('feed', [
+        [],
+        [{ id: 'a', status: 'running' }, { id: 'b', status: 'done' }],
+        [{ id: 'a', status: 'done' }, { id: 'b', status: 'done' }],
+      ])
+
+      const tasks = await feedTask(vendor, 'a,b')
+      expect(tasks.map(task => task.status)).toEqual(['succeeded', 'succeeded'])
+      expect(vendor.poll).toHaveBeenCalledTimes(3)
+      expect(vendor.store.getObjs()).toEqual([
+        { id: 'a', status: 'done', last_feed: expect.any(Number) },
+        { id: 'b', status: 'done', last_feed: expect.any(Number) },
+      ])
+      // Only polls that stored something notify the views
+      expect(setMyData).toHaveBeenCalledTimes(2)
+      expect(setMyData).toHaveBeenCalledWith({ act: 'feed.feed' })
+    })
+
+    it('stops after the last attempt or when aborted', async () => {
+      const running = provider('attempts', [[{ id: 'a', status: 'running' }]], { attempts: 3 })
+      expect(await feedTask(running, 'a')).toEqual([expect.objectContaining({ status: 'running' })])
+      expect(running.poll).toHaveBeenCalledTimes(3)
+
+      const controller = new AbortController()
+      controller.abort()
+      const aborted = provider('aborted', [[{ id: 'a', status: 'running' }]])
+      expect(await feedTask(aborted, 'a', undefined, controller.signal)).toEqual([])
+      expect(aborted.poll).not.toHaveBeenCalled()
+    })
+
+    it('keeps polling through errors unless maxErrors is set', async () => {
+      const failing = [new Error('Bad gateway'), new Error('Bad gateway'), [{ id: 'a', status: 'done' }]]
+
+      expect(await feedTask(provider('patient', failing), 'a')).toEqual([expect.objectContaining({ status: 'succeeded' })])
+
+      const quiet = provider('quiet', failing, { maxErrors: 2 })
+      expect(await feedTask(quiet, 'a')).toEqual([])
+      expect(quiet.poll).toHaveBeenCalledTimes(2)
+
+      await expect(feedTask(provider('loud', failing, { maxErrors: 1, rethrow: true }), 'a')).rejects.toThrow('Bad gateway')
+    })
+  })
+
+  describe('TaskStore', () => {
+    it('saves records by id, replacing earlier ones', () => {
+      const store = new TaskStore<Clip>('clips', clip => clip.id)
+      store.save({ id: 'a', status: 'running' }).save({ id: 'b', status: 'running' })
+      store.save({ id: 'a', status: 'done' })
+
+      expect(store.getObjs()).toEqual([{ id: 'a', status: 'done' }, { id: 'b', status: 'running' }])
+      expect(store.findIndex('b')).toBe(1)
+      expect(store.getOneById('a')).toEqual({ id: 'a', status: 'done' })
+      expect(store.getOneById('c')).toBeNull()
+      expect(() => store.save({ id: '', status: 'running' })).toThrow('Cannot save a record without an id in "clips"')
+    })
+  })
+})
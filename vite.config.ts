@@ -48,6 +48,7 @@ export default defineConfig((env) => {
         '/api': {
           target: viteEnv.VITE_APP_API_BASE_URL,
           changeOrigin: true, // 允许跨域
+          ws: true, // PL execution stream
           rewrite: path => path.replace('/api/', '/'),
         },
         '/mjapi': {